@@ -0,0 +1,190 @@
+/**
+ * What the spytial-core command-line tools have in common: version lookup,
+ * keeping stdout clean for the host that parses it, and the supervised
+ * timeout. Each bin is built as its own self-contained file, so this module
+ * is inlined into every one of them rather than shared at runtime.
+ */
+
+import { spawnSync } from 'node:child_process';
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+/** Bad arguments. Reported with the usage text, exit 2. */
+export class UsageError extends Error {}
+
+/** Exit code for bad usage or unreadable input. */
+export const EXIT_BAD_INPUT = 2;
+
+/** Exit code when the run is abandoned for taking too long. */
+export const EXIT_TIMED_OUT = 3;
+
+/**
+ * Generous on purpose. A layout normally resolves in well under a second, so
+ * this only ever fires on something pathological — but it has to clear a large
+ * suite on a slow runner without tripping.
+ */
+export const DEFAULT_TIMEOUT_SECONDS = 300;
+
+/**
+ * The release that built this file, stamped in by tsup. Absent when running
+ * from source (tests, tsx), where the lookup below takes over.
+ */
+declare const __SPYTIAL_CORE_VERSION__: string | undefined;
+
+/**
+ * Which spytial-core release this is.
+ *
+ * The build-time stamp comes first because of how the bins are meant to be
+ * deployed: vendored as a lone file beside a Python or Rust package, with no
+ * spytial-core `package.json` anywhere near it. The lookup below would find
+ * nothing there and every result would report "unknown", losing the field
+ * that says which release produced it. `typeof` on an undeclared name is
+ * safe, so this degrades cleanly when the stamp is absent.
+ */
+export function readVersion(): string {
+    if (typeof __SPYTIAL_CORE_VERSION__ === 'string' && __SPYTIAL_CORE_VERSION__.length > 0) {
+        return __SPYTIAL_CORE_VERSION__;
+    }
+
+    const here = typeof __dirname === 'string' ? __dirname : undefined;
+    const candidates = [
+        ...(here ? [join(here, '..', 'package.json'), join(here, '..', '..', 'package.json')] : []),
+        join(process.cwd(), 'package.json'),
+    ];
+
+    for (const candidate of candidates) {
+        try {
+            const parsed = JSON.parse(readFileSync(candidate, 'utf8')) as { name?: string; version?: string };
+            if (parsed.name === 'spytial-core' && parsed.version) return parsed.version;
+        } catch {
+            // Try the next candidate — layout differs between the built bin and source.
+        }
+    }
+    return 'unknown';
+}
+
+export function readStdin(): string {
+    try {
+        return readFileSync(0, 'utf8');
+    } catch {
+        throw new UsageError('Could not read stdin.');
+    }
+}
+
+/**
+ * Parse a `--timeout` value: seconds, 0 to disable.
+ */
+export function parseTimeoutSeconds(value: string | undefined): number {
+    if (value === undefined) throw new UsageError('--timeout needs a value in seconds.');
+    const seconds = Number(value);
+    if (!Number.isFinite(seconds) || seconds < 0) {
+        throw new UsageError(`--timeout needs a non-negative number of seconds, got "${value}".`);
+    }
+    return seconds;
+}
+
+/**
+ * Run `fn` with everything written to stdout diverted to stderr.
+ *
+ * The layout engine narrates its work on stdout ("Generated 2 orientation
+ * constraints..."). That is fine in a browser console and fatal here: a host
+ * parsing our stdout as JSON would choke on the first line. Patching
+ * `process.stdout.write` rather than `console.log` catches direct writes too.
+ * The chatter is kept, not dropped — it moves to stderr, where it stays useful
+ * for debugging without corrupting the contract.
+ *
+ * Awaits `fn` when it returns a promise, so the diversion covers async work
+ * too; the caller writes its own output only after this resolves.
+ */
+export function withStdoutDivertedToStderr<T>(fn: () => T): T {
+    const originalWrite = process.stdout.write.bind(process.stdout);
+    process.stdout.write = ((chunk: string | Uint8Array, ...rest: unknown[]) => {
+        return (process.stderr.write as (...args: unknown[]) => boolean)(chunk, ...rest);
+    }) as typeof process.stdout.write;
+    const restore = () => { process.stdout.write = originalWrite; };
+
+    let result: T;
+    try {
+        result = fn();
+    } catch (e) {
+        restore();
+        throw e;
+    }
+    if (result instanceof Promise) {
+        return result.finally(restore) as T;
+    }
+    restore();
+    return result;
+}
+
+/**
+ * Whether this process can supervise a run.
+ *
+ * The timeout has to be enforced from outside the work, not inside it: layout
+ * runs synchronously, so a pathological spec blocks the event loop and no
+ * timer in this process would ever fire. Re-executing the bin under
+ * `spawnSync`'s own timeout is what makes the limit real.
+ *
+ * Only a built CJS bin can do this. The version stamp is the signal: it is
+ * injected at build time, so its presence means `__filename` points at a
+ * bundle node can actually re-run. Running from source (tests, tsx) it is
+ * absent, and re-executing the TypeScript entry would fail outright — so the
+ * run proceeds unsupervised instead.
+ *
+ * @param childMarker - Environment variable that marks the re-executed child,
+ *   so it runs the work instead of supervising again.
+ */
+export function canSupervise(childMarker: string): boolean {
+    return process.env[childMarker] !== '1'
+        && typeof __SPYTIAL_CORE_VERSION__ === 'string'
+        && typeof __filename === 'string'
+        && existsSync(__filename);
+}
+
+/**
+ * Re-run this bin under a hard time limit, forwarding its output and status.
+ *
+ * `stdinData` is passed through because the supervisor has already consumed
+ * fd 0; the child cannot read it a second time.
+ */
+export function superviseRun(
+    program: string,
+    childMarker: string,
+    argv: string[],
+    seconds: number,
+    stdinData: string | undefined,
+): number {
+    const result = spawnSync(
+        process.execPath,
+        [__filename, ...argv, '--timeout', '0'],
+        {
+            input: stdinData ?? '',
+            encoding: 'utf8',
+            timeout: seconds * 1000,
+            maxBuffer: 256 * 1024 * 1024,
+            env: { ...process.env, [childMarker]: '1' },
+        },
+    );
+
+    if (result.stdout) process.stdout.write(result.stdout);
+    if (result.stderr) process.stderr.write(result.stderr);
+
+    // spawnSync reports a timeout as a kill signal, and sets `error` too on
+    // some platforms. Either is the same outcome.
+    const timedOut = result.signal !== null
+        || (result.error as NodeJS.ErrnoException | undefined)?.code === 'ETIMEDOUT';
+    if (timedOut) {
+        process.stderr.write(
+            `${program}: gave up after ${seconds}s. Layout is taking far longer than it ` +
+            `normally does — most likely a selector that does not terminate on this datum. ` +
+            `Raise the limit with --timeout <seconds>, or disable it with --timeout 0.\n`,
+        );
+        return EXIT_TIMED_OUT;
+    }
+
+    if (result.error) {
+        process.stderr.write(`${program}: ${result.error.message}\n`);
+        return EXIT_BAD_INPUT;
+    }
+    return result.status ?? EXIT_BAD_INPUT;
+}
@@ -16,14 +16,23 @@
  * stdout for detail; stdout is always valid JSON unless --pretty is given.
  */
 
-import { spawnSync } from 'node:child_process';
-import { existsSync, readFileSync, readdirSync, statSync } from 'node:fs';
+import { readFileSync, readdirSync, statSync } from 'node:fs';
 import { join, extname } from 'node:path';
 
 import yaml from 'js-yaml';
 
 import { runCases, extractCases } from '../conformance';
 import type { CaseResult, ConformanceCase, RunResult } from '../conformance';
+import {
+    UsageError,
+    DEFAULT_TIMEOUT_SECONDS,
+    readVersion,
+    readStdin,
+    parseTimeoutSeconds,
+    withStdoutDivertedToStderr,
+    canSupervise,
+    superviseRun,
+} from './cli-shared';
 
 const CASE_FILE_EXTENSIONS = new Set(['.json', '.yaml', '.yml']);
 
@@ -57,15 +66,6 @@ interface Options {
     timeoutSeconds: number;
 }
 
-class UsageError extends Error {}
-
-/**
- * Generous on purpose. A case normally resolves in well under a second, so this
- * only ever fires on something pathological — but it has to clear a large suite
- * on a slow runner without tripping.
- */
-const DEFAULT_TIMEOUT_SECONDS = 300;
-
 function parseArgs(argv: string[]): Options {
     const options: Options = {
         paths: [], readStdin: false, pretty: false, quiet: false,
@@ -78,16 +78,7 @@ function parseArgs(argv: string[]): Options {
             case '--pretty': options.pretty = true; break;
             case '--quiet': options.quiet = true; break;
             case '-': options.readStdin = true; break;
-            case '--timeout': {
-                const value = argv[++i];
-                if (value === undefined) throw new UsageError('--timeout needs a value in seconds.');
-                const seconds = Number(value);
-                if (!Number.isFinite(seconds) || seconds < 0) {
-                    throw new UsageError(`--timeout needs a non-negative number of seconds, got "${value}".`);
-                }
-                options.timeoutSeconds = seconds;
-                break;
-            }
+            case '--timeout': options.timeoutSeconds = parseTimeoutSeconds(argv[++i]); break;
             default:
                 if (arg.startsWith('-')) throw new UsageError(`Unknown option "${arg}".`);
                 options.paths.push(arg);
@@ -100,44 +91,6 @@ function parseArgs(argv: string[]): Options {
     return options;
 }
 
-/**
- * The release that built this file, stamped in by tsup. Absent when running
- * from source (tests, tsx), where the lookup below takes over.
- */
-declare const __SPYTIAL_CORE_VERSION__: string | undefined;
-
-/**
- * Which spytial-core release this is.
- *
- * The build-time stamp comes first because of how the bin is meant to be
- * deployed: vendored as a lone file beside a Python or Rust package, with no
- * spytial-core `package.json` anywhere near it. The lookup below would find
- * nothing there and every RunResult would report "unknown", losing the field
- * that says which release checked the cases. `typeof` on an undeclared name is
- * safe, so this degrades cleanly when the stamp is absent.
- */
-function readVersion(): string {
-    if (typeof __SPYTIAL_CORE_VERSION__ === 'string' && __SPYTIAL_CORE_VERSION__.length > 0) {
-        return __SPYTIAL_CORE_VERSION__;
-    }
-
-    const here = typeof __dirname === 'string' ? __dirname : undefined;
-    const candidates = [
-        ...(here ? [join(here, '..', 'package.json'), join(here, '..', '..', 'package.json')] : []),
-        join(process.cwd(), 'package.json'),
-    ];
-
-    for (const candidate of candidates) {
-        try {
-            const parsed = JSON.parse(readFileSync(candidate, 'utf8')) as { name?: string; version?: string };
-            if (parsed.name === 'spytial-core' && parsed.version) return parsed.version;
-        } catch {
-            // Try the next candidate — layout differs between the built bin and source.
-        }
-    }
-    return 'unknown';
-}
-
 /** Expand a path into case files. Directories are scanned one level deep. */
 function collectFiles(path: string): string[] {
     let stats;
@@ -164,14 +117,6 @@ function collectFiles(path: string): string[] {
     throw new UsageError(`"${path}" is neither a file nor a directory.`);
 }
 
-function readStdin(): string {
-    try {
-        return readFileSync(0, 'utf8');
-    } catch {
-        throw new UsageError('Could not read stdin.');
-    }
-}
-
 /**
  * Parse a case document. YAML is a superset of JSON, so one parser reads both
  * — which also lets case files be written in YAML, where an inline spec does
@@ -221,100 +166,11 @@ function formatRun(run: RunResult, quiet: boolean): string {
     return lines.join('\n');
 }
 
-/**
- * Run `fn` with everything written to stdout diverted to stderr.
- *
- * The layout engine narrates its work on stdout ("Generated 2 orientation
- * constraints..."). That is fine in a browser console and fatal here: a host
- * parsing our stdout as JSON would choke on the first line. Patching
- * `process.stdout.write` rather than `console.log` catches direct writes too.
- * The chatter is kept, not dropped — it moves to stderr, where it stays useful
- * for debugging without corrupting the contract.
- */
-function withStdoutDivertedToStderr<T>(fn: () => T): T {
-    const originalWrite = process.stdout.write.bind(process.stdout);
-    process.stdout.write = ((chunk: string | Uint8Array, ...rest: unknown[]) => {
-        return (process.stderr.write as (...args: unknown[]) => boolean)(chunk, ...rest);
-    }) as typeof process.stdout.write;
-
-    try {
-        return fn();
-    } finally {
-        process.stdout.write = originalWrite;
-    }
-}
-
 // ─── Timeout ─────────────────────────────────────────────────────────
 
 /** Marks the re-executed child, so it runs the cases instead of watching. */
 const CHILD_MARKER = 'SPYTIAL_CHECK_SUPERVISED';
 
-/** Exit code when the run is abandoned for taking too long. */
-const EXIT_TIMED_OUT = 3;
-
-/**
- * Whether this process can supervise a run.
- *
- * The timeout has to be enforced from outside the work, not inside it: cases
- * run synchronously, so a pathological spec blocks the event loop and no timer
- * in this process would ever fire. Re-executing the bin under `spawnSync`'s own
- * timeout is what makes the limit real.
- *
- * Only the built CJS bin can do this. The version stamp is the signal: it is
- * injected at build time, so its presence means `__filename` points at a
- * bundle node can actually re-run. Running from source (tests, tsx) it is
- * absent, and re-executing the TypeScript entry would fail outright — so the
- * run proceeds unsupervised instead.
- */
-function canSupervise(): boolean {
-    return process.env[CHILD_MARKER] !== '1'
-        && typeof __SPYTIAL_CORE_VERSION__ === 'string'
-        && typeof __filename === 'string'
-        && existsSync(__filename);
-}
-
-/**
- * Re-run this bin under a hard time limit, forwarding its output and status.
- *
- * `stdinData` is passed through because the supervisor has already consumed
- * fd 0; the child cannot read it a second time.
- */
-function superviseRun(argv: string[], seconds: number, stdinData: string | undefined): number {
-    const result = spawnSync(
-        process.execPath,
-        [__filename, ...argv, '--timeout', '0'],
-        {
-            input: stdinData ?? '',
-            encoding: 'utf8',
-            timeout: seconds * 1000,
-            maxBuffer: 256 * 1024 * 1024,
-            env: { ...process.env, [CHILD_MARKER]: '1' },
-        },
-    );
-
-    if (result.stdout) process.stdout.write(result.stdout);
-    if (result.stderr) process.stderr.write(result.stderr);
-
-    // spawnSync reports a timeout as a kill signal, and sets `error` too on
-    // some platforms. Either is the same outcome.
-    const timedOut = result.signal !== null
-        || (result.error as NodeJS.ErrnoException | undefined)?.code === 'ETIMEDOUT';
-    if (timedOut) {
-        process.stderr.write(
-            `spytial-check: gave up after ${seconds}s. A case is taking far longer than layout ` +
-            `normally does — most likely a selector that does not terminate on this datum. ` +
-            `Raise the limit with --timeout <seconds>, or disable it with --timeout 0.\n`,
-        );
-        return EXIT_TIMED_OUT;
-    }
-
-    if (result.error) {
-        process.stderr.write(`spytial-check: ${result.error.message}\n`);
-        return 2;
-    }
-    return result.status ?? 2;
-}
-
 // ─── Entry ───────────────────────────────────────────────────────────
 
 export function main(argv: string[]): number {
@@ -337,8 +193,8 @@ export function main(argv: string[]): number {
         // needs the bytes to hand on, and fd 0 can only be drained once.
         if (options.readStdin) stdinData = readStdin();
 
-        if (options.timeoutSeconds > 0 && canSupervise()) {
-            return superviseRun(argv, options.timeoutSeconds, stdinData);
+        if (options.timeoutSeconds > 0 && canSupervise(CHILD_MARKER)) {
+            return superviseRun('spytial-check', CHILD_MARKER, argv, options.timeoutSeconds, stdinData);
         }
 
         cases = [];
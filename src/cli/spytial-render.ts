@@ -0,0 +1,358 @@
+#!/usr/bin/env node
+/**
+ * `spytial-render` — lay out a datum under a spec from the command line.
+ *
+ * The sibling of `spytial-check`, for hosts that want the picture rather than
+ * a verdict. Python, Racket and Rust cannot import a TypeScript library, but
+ * they can run a subprocess: datum and spec in, the layout on stdout, an exit
+ * code that says whether the spec could be satisfied.
+ *
+ *   spytial-render datum.json spec.yaml                  # InstanceLayout JSON
+ *   spytial-render --format positions trace.xml spec.yaml
+ *   spytial-render --format svg graph.dot spec.yaml > graph.svg
+ *   spytial-render --format svg,positions graph.dot spec.yaml   # both, as one JSON object
+ *   cat datum.json | spytial-render - spec.yaml          # datum from stdin
+ *
+ * Exit codes: 0 rendered, 1 the spec's constraints conflict on this datum
+ * (stdout still holds the counterfactual layout, stderr the conflict), 2 bad
+ * usage or unreadable input — a datum or spec that does not parse, 3 timed
+ * out, 4 the layout engine or solver failed on a datum and spec that did
+ * parse. Hosts should branch on the exit code; stdout holds only the output.
+ */
+
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+
+import { JSONDataInstance, type IJsonDataInstance } from '../data-instance/json-data-instance';
+import { AlloyDataInstance } from '../data-instance/alloy-data-instance';
+import { DotDataInstance } from '../data-instance/dot/dot-data-instance';
+import { GraphMLDataInstance } from '../data-instance/graphml/graphml-data-instance';
+import { GexfDataInstance } from '../data-instance/gexf/gexf-data-instance';
+import { TlaDataInstance } from '../data-instance/tla/tla-data-instance';
+import { parseTlaTrace } from '../data-instance/tla/tla-trace-import';
+import { parseAlloyXML } from '../data-instance/alloy/alloy-instance';
+import type { IDataInstance } from '../data-instance/interfaces';
+import { SGraphQueryEvaluator } from '../evaluators/data/sgq-evaluator';
+import { parseLayoutSpec, type LayoutSpec } from '../layout/layoutspec';
+import { LayoutInstance } from '../layout/layoutinstance';
+import { solveHeadlessLayout } from '../evaluation/headless-layout';
+import { renderHeadlessSvg } from '../translators/svg/headless-svg';
+import {
+    UsageError,
+    EXIT_BAD_INPUT,
+    DEFAULT_TIMEOUT_SECONDS,
+    readVersion,
+    readStdin,
+    parseTimeoutSeconds,
+    withStdoutDivertedToStderr,
+    canSupervise,
+    superviseRun,
+} from './cli-shared';
+
+const FORMATS = ['layout', 'positions', 'svg'] as const;
+type Format = (typeof FORMATS)[number];
+
+const INPUT_KINDS = ['json', 'alloy', 'dot', 'graphml', 'gexf', 'tla'] as const;
+type InputKind = (typeof INPUT_KINDS)[number];
+
+const USAGE = `spytial-render — lay out a datum under a Spytial spec
+
+Usage:
+  spytial-render [options] <datum> [spec]
+  spytial-render [options] - [spec]     read the datum from stdin
+
+Options:
+  --format <f>    layout (default): the InstanceLayout as JSON
+                  positions: solved node positions as JSON
+                  svg: a standalone SVG document
+                  Several, comma-separated (svg,positions), write one JSON
+                  object keyed by format, from a single layout.
+  --input <kind>  json, alloy, dot, graphml, gexf or tla (default: from
+                  the file extension, or by sniffing the content)
+  --timeout <s>   give up after <s> seconds (default 300; 0 disables)
+  --version       print the spytial-core version and exit
+  -h, --help      show this help
+
+The datum is a JSON data instance, Alloy XML (the first instance is used),
+a DOT, GraphML or GEXF graph, or a TLA+ trace ({ "states": [...] }, Apalache ITF, or TLC
+-dumpTrace json). The spec is a YAML layout spec; without one the default
+layout is drawn.
+
+Exit codes: 0 rendered, 1 constraints conflict (the counterfactual layout
+is still written), 2 bad usage or unreadable input, 3 timed out, 4 the
+layout or solver failed (nothing is written).
+
+Docs: https://sidprasad.github.io/spytial-core/#/testing-integrations`;
+
+interface Options {
+    datumPath: string;
+    specPath: string | undefined;
+    /** The outputs asked for, each once, in the order given. */
+    formats: Format[];
+    input: InputKind | undefined;
+    /** Seconds before the run is abandoned. 0 disables it. */
+    timeoutSeconds: number;
+}
+
+/** A datum or spec that could not be read or parsed. Exit 2, without the usage text. */
+class InputError extends Error {}
+
+/** The spec could not be satisfied on this datum. */
+const EXIT_CONFLICT = 1;
+
+/** The layout engine or solver threw on input that did parse. */
+const EXIT_LAYOUT_FAILED = 4;
+
+/** Figure size the positions and SVG are solved in, as `runHeadlessLayout`'s default. */
+const FIG_WIDTH = 800;
+const FIG_HEIGHT = 600;
+
+function parseArgs(argv: string[]): Options {
+    const positional: string[] = [];
+    let formats: Format[] = ['layout'];
+    let input: InputKind | undefined;
+    let timeoutSeconds = DEFAULT_TIMEOUT_SECONDS;
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        switch (arg) {
+            case '--format': {
+                const value = argv[++i] ?? '';
+                const names = value.split(',');
+                for (const name of names) {
+                    if (!(FORMATS as readonly string[]).includes(name)) {
+                        throw new UsageError(`--format needs one or more of ${FORMATS.join(', ')}, got "${value}".`);
+                    }
+                }
+                formats = [...new Set(names as Format[])];
+                break;
+            }
+            case '--input': {
+                const value = argv[++i];
+                if (!(INPUT_KINDS as readonly string[]).includes(value)) {
+                    throw new UsageError(`--input needs one of ${INPUT_KINDS.join(', ')}, got "${value ?? ''}".`);
+                }
+                input = value as InputKind;
+                break;
+            }
+            case '--timeout': timeoutSeconds = parseTimeoutSeconds(argv[++i]); break;
+            default:
+                if (arg.startsWith('-') && arg !== '-') throw new UsageError(`Unknown option "${arg}".`);
+                positional.push(arg);
+        }
+    }
+
+    if (positional.length === 0) throw new UsageError('No datum given.');
+    if (positional.length > 2) throw new UsageError(`Expected a datum and a spec, got ${positional.length} paths.`);
+    if (positional[1] === '-') throw new UsageError('Only the datum can be read from stdin.');
+    return { datumPath: positional[0], specPath: positional[1], formats, input, timeoutSeconds };
+}
+
+function readFile(path: string, what: string): string {
+    try {
+        return readFileSync(path, 'utf8');
+    } catch {
+        throw new UsageError(`Cannot read ${what} "${path}".`);
+    }
+}
+
+// ─── Datum ───────────────────────────────────────────────────────────
+
+/**
+ * Decide how to read a datum: the extension when it says, otherwise the
+ * content. XML is split by root element and JSON by shape, since GraphML,
+ * GEXF and Alloy are all XML and a TLA+ trace is JSON too.
+ */
+function detectInputKind(source: string, path: string | undefined): InputKind {
+    const extension = path ? extname(path).toLowerCase() : '';
+    if (extension === '.graphml') return 'graphml';
+    if (extension === '.gexf') return 'gexf';
+    if (extension === '.dot' || extension === '.gv') return 'dot';
+
+    const text = source.trimStart();
+    if (extension === '.xml' || (extension !== '.json' && text.startsWith('<'))) {
+        if (/<graphml[\s>]/.test(text)) return 'graphml';
+        if (/<gexf[\s>]/.test(text)) return 'gexf';
+        return 'alloy';
+    }
+    if (extension !== '.json' && !text.startsWith('{') && !text.startsWith('[')) return 'dot';
+
+    try {
+        const parsed = JSON.parse(source) as { states?: unknown; state?: unknown };
+        return Array.isArray(parsed?.states) || Array.isArray(parsed?.state) ? 'tla' : 'json';
+    } catch {
+        // Not JSON either: let the JSON reader report it.
+        return 'json';
+    }
+}
+
+function parseJson(source: string, origin: string): unknown {
+    try {
+        return JSON.parse(source);
+    } catch (e: unknown) {
+        throw new InputError(`${origin} is not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+    }
+}
+
+function loadDatum(source: string, kind: InputKind, origin: string): IDataInstance {
+    try {
+        switch (kind) {
+            case 'json':
+                return new JSONDataInstance(parseJson(source, origin) as IJsonDataInstance);
+            case 'tla':
+                return new TlaDataInstance(parseTlaTrace(parseJson(source, origin) as object));
+            case 'dot':
+                return new DotDataInstance(source);
+            case 'graphml':
+                return new GraphMLDataInstance(source);
+            case 'gexf':
+                return new GexfDataInstance(source);
+            case 'alloy': {
+                const datum = parseAlloyXML(source);
+                return new AlloyDataInstance(datum.instances[0]);
+            }
+        }
+    } catch (e: unknown) {
+        if (e instanceof InputError) throw e;
+        throw new InputError(`${origin} could not be read as ${kind}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+}
+
+function loadSpec(path: string | undefined): LayoutSpec {
+    const source = path === undefined ? '' : readFile(path, 'spec');
+    try {
+        return parseLayoutSpec(source);
+    } catch (e: unknown) {
+        throw new InputError(`Spec could not be parsed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+}
+
+// ─── Rendering ───────────────────────────────────────────────────────
+
+interface Rendered {
+    output: string;
+    /** The conflict message when the spec is unsatisfiable on this datum. */
+    conflict?: string;
+    /** Selector errors and engine warnings, for stderr. */
+    notes: string[];
+}
+
+/**
+ * Lay out once, for the verdict and every format asked for, and — if any
+ * format is positional — solve that layout once with `solveHeadlessLayout`,
+ * the solve `runHeadlessLayout` runs. The solver draws a conflicting spec's
+ * counterfactual diagram like any other, so the output is written either way
+ * and the exit code carries the verdict.
+ */
+async function render(spec: LayoutSpec, instance: IDataInstance, formats: Format[]): Promise<Rendered> {
+    const evaluator = new SGraphQueryEvaluator();
+    evaluator.initialize({ sourceData: instance });
+    const { layout, error, selectorErrors, warnings } =
+        new LayoutInstance(spec, evaluator, 0, true).generateLayout(instance);
+
+    const notes = [
+        ...(selectorErrors ?? []).map(s =>
+            `selector error: "${s.selector}" failed in ${s.context}: ${s.errorMessage}`),
+        ...(warnings ?? []).map(w =>
+            `warning: ${w.message}${w.selector ? ` (selector: ${w.selector})` : ''}`),
+    ];
+    const conflict = error ? error.message : undefined;
+
+    const solved = formats.some(format => format !== 'layout')
+        ? await solveHeadlessLayout(layout, FIG_WIDTH, FIG_HEIGHT)
+        : undefined;
+    const outputs = formats.map((format): [Format, unknown] => {
+        switch (format) {
+            case 'layout': return [format, layout];
+            case 'positions': return [format, solved!.positions];
+            case 'svg': return [format, renderHeadlessSvg({
+                ...solved!,
+                edges: layout.edges.map(e => ({ source: e.source.id, target: e.target.id, rel: e.relationName })),
+                constraints: layout.constraints,
+                seed: null,
+                layout,
+                error: error ?? null,
+            })];
+        }
+    });
+
+    if (outputs.length > 1) {
+        return { output: JSON.stringify(Object.fromEntries(outputs), null, 2), conflict, notes };
+    }
+    const [[format, value]] = outputs;
+    const output = format === 'svg' ? value as string : JSON.stringify(value, null, 2);
+    return { output, conflict, notes };
+}
+
+// ─── Timeout ─────────────────────────────────────────────────────────
+
+/** Marks the re-executed child, so it renders instead of watching. */
+const CHILD_MARKER = 'SPYTIAL_RENDER_SUPERVISED';
+
+// ─── Entry ───────────────────────────────────────────────────────────
+
+export async function main(argv: string[]): Promise<number> {
+    if (argv.includes('-h') || argv.includes('--help')) {
+        process.stdout.write(`${USAGE}\n`);
+        return 0;
+    }
+    if (argv.includes('--version')) {
+        process.stdout.write(`${readVersion()}\n`);
+        return 0;
+    }
+
+    let options: Options;
+    let instance: IDataInstance;
+    let spec: LayoutSpec;
+    try {
+        options = parseArgs(argv);
+
+        // Read stdin before anything else that might branch: the supervisor
+        // needs the bytes to hand on, and fd 0 can only be drained once.
+        const fromStdin = options.datumPath === '-';
+        const stdinData = fromStdin ? readStdin() : undefined;
+
+        if (options.timeoutSeconds > 0 && canSupervise(CHILD_MARKER)) {
+            return superviseRun('spytial-render', CHILD_MARKER, argv, options.timeoutSeconds, stdinData);
+        }
+
+        const source = stdinData ?? readFile(options.datumPath, 'datum');
+        const origin = fromStdin ? 'stdin' : options.datumPath;
+        const kind = options.input ?? detectInputKind(source, fromStdin ? undefined : options.datumPath);
+        instance = withStdoutDivertedToStderr(() => loadDatum(source, kind, origin));
+        spec = loadSpec(options.specPath);
+    } catch (e: unknown) {
+        if (e instanceof UsageError) {
+            process.stderr.write(`spytial-render: ${e.message}\n\n${USAGE}\n`);
+            return EXIT_BAD_INPUT;
+        }
+        process.stderr.write(`spytial-render: ${e instanceof Error ? e.message : String(e)}\n`);
+        return EXIT_BAD_INPUT;
+    }
+
+    let rendered: Rendered;
+    try {
+        rendered = await withStdoutDivertedToStderr(() => render(spec, instance, options.formats));
+    } catch (e: unknown) {
+        process.stderr.write(`spytial-render: layout failed: ${e instanceof Error ? e.message : String(e)}\n`);
+        return EXIT_LAYOUT_FAILED;
+    }
+
+    for (const note of rendered.notes) {
+        process.stderr.write(`spytial-render: ${note}\n`);
+    }
+    process.stdout.write(`${rendered.output}\n`);
+
+    if (rendered.conflict !== undefined) {
+        process.stderr.write(`spytial-render: constraints are unsatisfiable on this datum: ${rendered.conflict}\n`);
+        return EXIT_CONFLICT;
+    }
+    return 0;
+}
+
+// Run only when invoked as a program. The bin is built as CJS, so `require.main`
+// is the right check there; the guard keeps the module importable from tests,
+// which load this source as ESM where `require` does not exist.
+if (typeof require !== 'undefined' && require.main === module) {
+    main(process.argv.slice(2)).then(code => { process.exitCode = code; });
+}
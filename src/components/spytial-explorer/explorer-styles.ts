@@ -514,6 +514,7 @@ export function getExplorerCSS(): string {
     .result-error { color: #f44336; }
     .result-empty { color: #888; }
     .result-brace { color: #9cdcfe; }
+    .result-value { color: #9cdcfe; }
     .result-count { color: #666; }
     .result-query { color: #4ec9b0; }
     .result-prompt { color: #888; }
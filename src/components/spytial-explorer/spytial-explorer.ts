@@ -22,7 +22,7 @@
 
 import { WebColaCnDGraph } from '../../translators/webcola/webcola-cnd-graph';
 import { AccessibleTranslator } from '../../translators/accessible/accessible-translator';
-import { LayoutEvaluator } from '../../evaluators/layout/layout-evaluator';
+import { LayoutEvaluator, LayoutEvaluatorCheckResult } from '../../evaluators/layout/layout-evaluator';
 import { getExplorerCSS } from './explorer-styles';
 import type { AccessibleLayout, SpatialNeighbors } from '../../translators/accessible/accessible-translator';
 import type { InstanceLayout, LayoutGroup, LayoutEdge } from '../../layout/interfaces';
@@ -1162,7 +1162,10 @@ export class SpytialExplorer extends WebColaCnDGraph {
             return;
         }
 
-        const result = this.layoutEvaluator.evaluate(expr);
+        // With a data evaluator, `{ selector }` forms reach into the datum.
+        const result = this.dataEvaluator
+            ? this.layoutEvaluator.evaluateHeterogeneous(expr, this.dataEvaluator)
+            : this.layoutEvaluator.evaluate(expr);
 
         if (result.isError()) {
             this.spatialHistory.push({
@@ -1170,6 +1173,16 @@ export class SpytialExplorer extends WebColaCnDGraph {
                 html: `<span class="result-error">Error: ${this.escapeHtml(result.prettyPrint())}</span>`,
                 srText: `Error: ${result.prettyPrint()}`,
             });
+        } else if (result instanceof LayoutEvaluatorCheckResult) {
+            const tuples = result.getTuples();
+            this.spatialHistory.push({
+                expr,
+                html: `<span class="result-value">${this.escapeHtml(result.prettyPrint())}</span>`,
+                srText: tuples.length > 0
+                    ? `${result.singleResult()}: ${tuples.map(([s, t]) => `${s} to ${t}`).join(', ')}.`
+                    : `${result.singleResult()}.`,
+            });
+            this.highlightNodes(result.selectedAtoms());
         } else if (result.noResult()) {
             this.spatialHistory.push({
                 expr,
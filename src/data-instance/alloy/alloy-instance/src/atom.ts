@@ -30,7 +30,7 @@ export function atomFromElement(type: string, element: globalThis.Element): Allo
 }
 
 /**
- * Create an array of atoms from a NodeListOf of Elements.
+ * Create an array of atoms from a list of Elements.
  *
  * This function is typically used to create atoms from DOM elements, such as
  * when parsing an Alloy XML file.
@@ -40,7 +40,7 @@ export function atomFromElement(type: string, element: globalThis.Element): Allo
  */
 export function atomsFromElements(
   type: string,
-  elements: globalThis.NodeListOf<globalThis.Element>
+  elements: ArrayLike<globalThis.Element>
 ): AlloyAtom[] {
   return Array.from(elements).map((element) => atomFromElement(type, element));
 }
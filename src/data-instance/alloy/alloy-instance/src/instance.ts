@@ -308,16 +308,16 @@ export function instanceFromElement(element: Element): AlloyInstance {
   const typeHierarchies = typeHierarchiesFromElement(typeNames, element);
   const types = typesFromElements(
     typeHierarchies,
-    element.querySelectorAll('sig')
+    element.getElementsByTagName('sig')
   );
   const relations = relationsFromElements(
     typeNames,
-    element.querySelectorAll('field')
+    element.getElementsByTagName('field')
   );
 
   const skolems = relationsFromElements(
     typeNames,
-    element.querySelectorAll('skolem')
+    element.getElementsByTagName('skolem')
   )
 
   findAndPopulateIntType(parseInt(bitwidth), types);
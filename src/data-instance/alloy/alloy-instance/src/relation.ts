@@ -28,7 +28,7 @@ export function relationFromElement(
   const parentId = element.getAttribute('parentID');
   const parentFromId = parentId ? typeNames[parentId] : undefined;
   const parent = parentFromId ?? types[0];
-  const tuples = tuplesFromElements(types, element.querySelectorAll('tuple'));
+  const tuples = tuplesFromElements(types, element.getElementsByTagName('tuple'));
   return {
     _: 'relation',
     id: `${parent}<:${label}`,
@@ -40,7 +40,7 @@ export function relationFromElement(
 
 export function relationsFromElements(
   typeNames: Record<string, string>,
-  elements: NodeListOf<Element>
+  elements: ArrayLike<Element>
 ): AlloyRelation[] {
   return Array.from(elements).map((element) =>
     relationFromElement(typeNames, element)
@@ -51,7 +51,7 @@ function typesFromTypesElement(
   typeNames: Record<string, string>,
   element: Element
 ): string[] {
-  const typeElements = element.querySelectorAll('type');
+  const typeElements = element.getElementsByTagName('type');
   return Array.from(typeElements).map((typeElement) => {
     const typeId = typeElement.getAttribute('ID');
     if (!typeId) throw new Error('Type element must have an ID attribute');
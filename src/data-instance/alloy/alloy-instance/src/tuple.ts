@@ -14,12 +14,12 @@ export function tupleFromElement(types: string[], element: globalThis.Element):
     _: 'tuple',
     types,
     atoms: Array
-      .from(element.querySelectorAll('atom'))
+      .from(element.getElementsByTagName('atom'))
       .map((atomElement, i) => atomFromElement(types[i], atomElement).id)
   }
 }
 
-export function tuplesFromElements(types: string[], elements: globalThis.NodeListOf<globalThis.Element>): AlloyTuple[] {
+export function tuplesFromElements(types: string[], elements: ArrayLike<globalThis.Element>): AlloyTuple[] {
   return Array
     .from(elements)
     .map(element => tupleFromElement(types, element));
@@ -79,7 +79,7 @@ export function typeFromElement(
     _: 'type',
     id,
     types,
-    atoms: atomsFromElements(id, element.querySelectorAll('atom')),
+    atoms: atomsFromElements(id, element.getElementsByTagName('atom')),
     meta: undefined
   };
   if (isDefined(meta)) type.meta = meta;
@@ -88,7 +88,7 @@ export function typeFromElement(
 
 export function typesFromElements(
   typeHierarchies: Record<string, string[]>,
-  elements: NodeListOf<Element>
+  elements: ArrayLike<Element>
 ): AlloyType[] {
   return Array.from(elements)
     .filter((element) => !sigElementIsSet(element))
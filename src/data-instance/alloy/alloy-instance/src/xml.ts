@@ -1,18 +1,22 @@
+import { DOMParser as XmlDomParser } from '@xmldom/xmldom';
 import { AlloyDatum } from './datum';
 import { instanceFromElement } from './instance';
 
-// For client-side use, we expect DOMParser to be available
+// The browser's DOMParser when there is one; xmldom otherwise, so the same
+// reader works in plain Node (the CLIs). Only getElementsByTagName and
+// getAttribute are used below, which both implement.
 export function parseAlloyXML(xml: string): AlloyDatum {
-  // Use DOMParser to parse the XML string
-  const parser = new globalThis.DOMParser();
+  const parser = typeof globalThis.DOMParser === 'function'
+    ? new globalThis.DOMParser()
+    : (new XmlDomParser() as unknown as globalThis.DOMParser);
   const document = parser.parseFromString(xml, 'application/xml');
-  const instances = Array.from(document.querySelectorAll('instance'));
+  const instances = Array.from(document.getElementsByTagName('instance'));
   if (!instances.length) throw new Error(`No Alloy instance in XML: ${xml}`);
   
   // A provider may attach visualizer configuration (script / theme / cnd) to the instance XML as
   // <visualizer ...> elements. This is not part of the Alloy instance XML spec, but Sterling/Forge
   // use it — e.g. Forge embeds the Cope and Drag spec as a `cnd` attribute.
-  const visualizerElements = document.querySelectorAll('visualizer');
+  const visualizerElements = document.getElementsByTagName('visualizer');
   let maybeScriptText: string | undefined;
   let maybeThemeText: string | undefined;
   let maybeCnDText: string | undefined;
@@ -87,7 +91,7 @@ function deEscape(s: string | undefined): string | undefined {
 }
 
 export function sigElementIsSet(sigElement: globalThis.Element): boolean {
-  return sigElement.querySelectorAll('type').length > 0;
+  return sigElement.getElementsByTagName('type').length > 0;
 }
 
 /**
@@ -102,7 +106,7 @@ export function typeHierarchiesFromElement(
 ): Record<string, string[]> {
   const parents: Record<string, string> = {};
 
-  const sigElements = element.querySelectorAll('sig');
+  const sigElements = element.getElementsByTagName('sig');
   for (const sigElement of sigElements) {
     if (!sigElementIsSet(sigElement)) {
       const id = sigElement.getAttribute('ID');
@@ -130,7 +134,7 @@ export function typeHierarchiesFromElement(
 
 export function typeNamesFromElement(element: globalThis.Element): Record<string, string> {
   const names: Record<string, string> = {};
-  const sigElements = element.querySelectorAll('sig');
+  const sigElements = element.getElementsByTagName('sig');
   for (const sigElement of sigElements) {
     const id = sigElement.getAttribute('ID');
     const label = sigElement.getAttribute('label');
@@ -0,0 +1,531 @@
+import { Graph } from 'graphlib';
+import { DOMParser as XmlDomParser } from '@xmldom/xmldom';
+import type {
+  IAtom,
+  IType,
+  IRelation,
+  IInputDataInstance,
+  ITuple,
+  IDataInstance,
+} from './interfaces';
+import { DataInstanceEventEmitter } from './data-instance-event-emitter';
+
+// ─── The attributed graph model ────────────────────────────────────────────────
+
+/** The atom types attribute values get. All four are built-in. */
+export type AttributeValueType = 'Int' | 'Real' | 'Bool' | 'String';
+
+const VALUE_TYPES: ReadonlySet<string> = new Set<AttributeValueType>(['Int', 'Real', 'Bool', 'String']);
+
+/** A declared attribute: a GraphML `<key>`, a GEXF `<attribute>`. */
+export interface GraphAttributeKey {
+  /** The key's id in the file, which `<data>` / `<attvalue>` refer to. */
+  id: string;
+  /** The attribute's name (GraphML `attr.name`, GEXF `title`). */
+  name: string;
+  /**
+   * What the attribute is declared on. An `all` key applies to nodes, edges
+   * and the graph; a `graph` key only to the graph's own data.
+   */
+  domain: 'node' | 'edge' | 'all' | 'graph';
+  /** The type as the file declares it (`int`, `double`, `liststring`, …), kept for reify(). */
+  sourceType: string;
+  /** The atom type the attribute's values get. */
+  valueType: AttributeValueType;
+  /** The value of elements that do not set the attribute; applied on reading, omitted on writing. */
+  default?: string;
+}
+
+export interface AttributedNode {
+  id: string;
+  /** Attribute values by attribute name. */
+  attributes: Map<string, string>;
+}
+
+export interface AttributedEdge {
+  id?: string;
+  source: string;
+  target: string;
+  /** Attribute values by attribute name. */
+  attributes: Map<string, string>;
+}
+
+/** A GraphML or GEXF graph, as read: what reify() writes back. */
+export interface AttributedGraph {
+  id?: string;
+  directed: boolean;
+  /** The graph's own attribute values by name (GraphML `<graph><data>`), kept for reify(). */
+  attributes?: Map<string, string>;
+  keys: GraphAttributeKey[];
+  nodes: AttributedNode[];
+  edges: AttributedEdge[];
+}
+
+/**
+ * Which attributes mean what. Every other node attribute becomes an attribute
+ * relation, from the node to a value atom; other edge attributes are kept for
+ * reify() but not modelled — a relation tuple has nowhere to carry them.
+ */
+export interface AttributedGraphOptions {
+  /**
+   * The node attribute holding the atom's type.
+   * @default 'type'
+   */
+  typeAttribute?: string;
+
+  /**
+   * The node attribute holding the atom's label.
+   * @default 'label'
+   */
+  labelAttribute?: string;
+
+  /**
+   * The edge attribute holding the relation's name.
+   * @default 'label'
+   */
+  relationAttribute?: string;
+
+  /**
+   * The type of nodes without a type attribute.
+   * @default 'Node'
+   */
+  defaultType?: string;
+
+  /**
+   * The relation of edges without a relation attribute.
+   * @default 'edge'
+   */
+  defaultRelationName?: string;
+}
+
+/** Whether `key` declares an attribute of elements of `domain`. */
+export function appliesTo(key: GraphAttributeKey, domain: 'node' | 'edge' | 'graph'): boolean {
+  return key.domain === domain || key.domain === 'all';
+}
+
+// ─── XML helpers ───────────────────────────────────────────────────────────────
+
+/**
+ * Parse `xml` and return its root, checking it is a `<rootName>`. The
+ * browser's DOMParser when there is one; xmldom otherwise, as parseAlloyXML
+ * does, so the same reader works in plain Node.
+ */
+export function parseXmlRoot(xml: string, rootName: string, format: string): Element {
+  const parser = typeof globalThis.DOMParser === 'function'
+    ? new globalThis.DOMParser()
+    : (new XmlDomParser() as unknown as globalThis.DOMParser);
+  let root: Element | null = null;
+  try {
+    root = parser.parseFromString(xml, 'application/xml').documentElement;
+  } catch (e: unknown) {
+    throw new Error(`Invalid ${format}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  if (!root || localName(root) !== rootName) {
+    throw new Error(`Invalid ${format}: expected a <${rootName}> document`);
+  }
+  return root;
+}
+
+function localName(element: Element): string {
+  return element.localName ?? element.nodeName.replace(/^.*:/, '');
+}
+
+/** The child elements of `parent` named `name`, ignoring namespace prefixes. */
+export function childElements(parent: Element, name: string): Element[] {
+  const children: Element[] = [];
+  for (let node = parent.firstChild; node; node = node.nextSibling) {
+    if (node.nodeType === 1 && localName(node as Element) === name) {
+      children.push(node as Element);
+    }
+  }
+  return children;
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// ─── AttributedGraphDataInstance ───────────────────────────────────────────────
+
+/**
+ * An `IInputDataInstance` over a graph file with typed attributes — the
+ * shared core of {@link GraphMLDataInstance} and {@link GexfDataInstance},
+ * which only read and write their formats.
+ *
+ * - Each node is an atom; its type comes from the `typeAttribute`, its label
+ *   from the `labelAttribute`.
+ * - Each edge is a tuple of the relation its `relationAttribute` names.
+ * - Each other node attribute is a relation named after it, from the node to
+ *   a value atom — one per distinct value, typed `Int`, `Real`, `Bool` or
+ *   `String` by the attribute's declared type, and built-in.
+ *
+ * Edits work as in `DotDataInstance` and emit the same events. A tuple whose
+ * target is a value atom sets that attribute on the node, so an attribute
+ * relation edits like any other; adding an atom of a value type adds a value.
+ */
+export abstract class AttributedGraphDataInstance extends DataInstanceEventEmitter implements IInputDataInstance {
+  protected readonly graph: AttributedGraph;
+  protected readonly opts: Required<AttributedGraphOptions>;
+
+  private readonly nodes = new Map<string, AttributedNode>();
+  /** Value atoms by id. Only addAtom()/removeAtom() change the set after reading. */
+  private readonly values = new Map<string, { type: AttributeValueType; value: string }>();
+  /** `type:value` → value atom id. */
+  private readonly valueIds = new Map<string, string>();
+
+  protected constructor(graph: AttributedGraph, options?: AttributedGraphOptions) {
+    super();
+    this.graph = graph;
+    this.opts = {
+      typeAttribute: options?.typeAttribute ?? 'type',
+      labelAttribute: options?.labelAttribute ?? 'label',
+      relationAttribute: options?.relationAttribute ?? 'label',
+      defaultType: options?.defaultType ?? 'Node',
+      defaultRelationName: options?.defaultRelationName ?? 'edge',
+    };
+
+    for (const node of graph.nodes) {
+      this.nodes.set(node.id, node);
+      for (const [name, value] of node.attributes) {
+        if (this.isAttributeRelation(name)) {
+          this.internValue(this.valueTypeOf(name), value);
+        }
+      }
+    }
+  }
+
+  /** Serialize the graph, as edited, in the subclass's format. */
+  abstract reify(): string;
+
+  /** The format's name for `valueType`, for attributes the edits declare. */
+  protected abstract sourceTypeOf(valueType: AttributeValueType): string;
+
+  // ── Model helpers ───────────────────────────────────────────────────────
+
+  private isAttributeRelation(name: string): boolean {
+    return name !== this.opts.typeAttribute && name !== this.opts.labelAttribute;
+  }
+
+  private valueTypeOf(attribute: string): AttributeValueType {
+    return this.graph.keys.find(k => appliesTo(k, 'node') && k.name === attribute)?.valueType ?? 'String';
+  }
+
+  /** The id of the value atom for `value`, created if new. */
+  private internValue(type: AttributeValueType, value: string): string {
+    const key = `${type}:${value}`;
+    let id = this.valueIds.get(key);
+    if (id === undefined) {
+      id = key;
+      this.values.set(id, { type, value });
+      this.valueIds.set(key, id);
+    }
+    return id;
+  }
+
+  private nodeAtom(node: AttributedNode): IAtom {
+    return {
+      id: node.id,
+      type: node.attributes.get(this.opts.typeAttribute) || this.opts.defaultType,
+      label: node.attributes.get(this.opts.labelAttribute) ?? node.id,
+    };
+  }
+
+  private relationOf(edge: AttributedEdge): string {
+    return edge.attributes.get(this.opts.relationAttribute) || this.opts.defaultRelationName;
+  }
+
+  /** Declare `name` for `domain` if the file did not, so reify() can write it. */
+  private ensureKey(name: string, domain: 'node' | 'edge', valueType: AttributeValueType): void {
+    if (this.graph.keys.some(k => appliesTo(k, domain) && k.name === name)) return;
+    const sourceType = this.sourceTypeOf(valueType);
+    let n = this.graph.keys.length;
+    while (this.graph.keys.some(k => k.id === `k${n}`)) n++;
+    this.graph.keys.push({ id: `k${n}`, name, domain, sourceType, valueType });
+  }
+
+  private findEdge(relationId: string, source: string, target: string): number {
+    return this.graph.edges.findIndex(e =>
+      e.source === source && e.target === target && this.relationOf(e) === relationId);
+  }
+
+  // ── IDataInstance implementation ────────────────────────────────────────
+
+  getAtoms(): readonly IAtom[] {
+    const atoms = [...this.nodes.values()].map(node => this.nodeAtom(node));
+    for (const [id, { type, value }] of this.values) {
+      atoms.push({ id, type, label: value });
+    }
+    return atoms;
+  }
+
+  getAtomType(id: string): IType {
+    const atom = this.getAtoms().find(a => a.id === id);
+    if (!atom) {
+      throw new Error(`Atom with id "${id}" not found`);
+    }
+    return this.getTypes().find(t => t.id === atom.type)!;
+  }
+
+  getTypes(): readonly IType[] {
+    const types = new Map<string, IAtom[]>();
+    for (const atom of this.getAtoms()) {
+      if (!types.has(atom.type)) types.set(atom.type, []);
+      types.get(atom.type)!.push(atom);
+    }
+    return [...types].map(([id, atoms]) => ({
+      id,
+      types: [id],
+      atoms,
+      isBuiltin: VALUE_TYPES.has(id),
+    }));
+  }
+
+  getRelations(): readonly IRelation[] {
+    const relationMap = new Map<string, { types: Set<string>[]; tuples: ITuple[] }>();
+    const add = (name: string, source: IAtom, targetId: string, targetType: string) => {
+      if (!relationMap.has(name)) {
+        relationMap.set(name, { types: [new Set(), new Set()], tuples: [] });
+      }
+      const rel = relationMap.get(name)!;
+      rel.tuples.push({ atoms: [source.id, targetId], types: [source.type, targetType] });
+      rel.types[0].add(source.type);
+      rel.types[1].add(targetType);
+    };
+
+    for (const edge of this.graph.edges) {
+      const source = this.nodes.get(edge.source);
+      const target = this.nodes.get(edge.target);
+      if (!source || !target) continue;
+      add(this.relationOf(edge), this.nodeAtom(source), target.id, this.nodeAtom(target).type);
+    }
+    for (const node of this.nodes.values()) {
+      const atom = this.nodeAtom(node);
+      for (const [name, value] of node.attributes) {
+        if (!this.isAttributeRelation(name)) continue;
+        const type = this.valueTypeOf(name);
+        const id = this.valueIds.get(`${type}:${value}`);
+        if (id !== undefined) add(name, atom, id, type);
+      }
+    }
+
+    return [...relationMap].map(([id, data]) => ({
+      id,
+      name: id,
+      // Union of all types that appear in each column position.
+      types: data.types.map(s => [...s].join('|')),
+      tuples: data.tuples,
+    }));
+  }
+
+  /** A graphlib Graph of the atoms and tuples, for layout. */
+  generateGraph(hideDisconnected: boolean, hideDisconnectedBuiltIns: boolean): Graph {
+    const out = new Graph({ directed: this.graph.directed, multigraph: true });
+    for (const atom of this.getAtoms()) {
+      out.setNode(atom.id, { label: atom.label, type: atom.type });
+    }
+    for (const relation of this.getRelations()) {
+      relation.tuples.forEach((tuple, index) => {
+        out.setEdge(tuple.atoms[0], tuple.atoms[1], relation.name, `${relation.id}_${index}`);
+      });
+    }
+
+    if (hideDisconnected || hideDisconnectedBuiltIns) {
+      for (const nodeId of out.nodes()) {
+        if ((out.nodeEdges(nodeId) ?? []).length > 0) continue;
+        const isBuiltin = this.values.has(nodeId);
+        if (hideDisconnected || (isBuiltin && hideDisconnectedBuiltIns)) {
+          out.removeNode(nodeId);
+        }
+      }
+    }
+    return out;
+  }
+
+  // ── IInputDataInstance implementation ───────────────────────────────────
+
+  addAtom(atom: IAtom): void {
+    if (this.nodes.has(atom.id) || this.values.has(atom.id)) {
+      throw new Error(`Atom with id "${atom.id}" already exists`);
+    }
+
+    if (VALUE_TYPES.has(atom.type)) {
+      const key = `${atom.type}:${atom.label}`;
+      if (this.valueIds.has(key)) {
+        throw new Error(`A ${atom.type} atom for "${atom.label}" already exists`);
+      }
+      this.values.set(atom.id, { type: atom.type as AttributeValueType, value: atom.label });
+      this.valueIds.set(key, atom.id);
+    } else {
+      const node: AttributedNode = { id: atom.id, attributes: new Map() };
+      if (atom.type !== this.opts.defaultType) {
+        node.attributes.set(this.opts.typeAttribute, atom.type);
+        this.ensureKey(this.opts.typeAttribute, 'node', 'String');
+      }
+      if (atom.label !== atom.id) {
+        node.attributes.set(this.opts.labelAttribute, atom.label);
+        this.ensureKey(this.opts.labelAttribute, 'node', 'String');
+      }
+      this.graph.nodes.push(node);
+      this.nodes.set(atom.id, node);
+    }
+
+    this.emitEvent({ type: 'atomAdded', data: { atom } });
+  }
+
+  /**
+   * Removing a node removes its edges and attributes; removing a value atom
+   * removes the attributes holding that value.
+   */
+  removeAtom(id: string): void {
+    const value = this.values.get(id);
+    if (value) {
+      this.values.delete(id);
+      this.valueIds.delete(`${value.type}:${value.value}`);
+      for (const node of this.nodes.values()) {
+        for (const [name, v] of [...node.attributes]) {
+          if (this.isAttributeRelation(name) && v === value.value && this.valueTypeOf(name) === value.type) {
+            node.attributes.delete(name);
+          }
+        }
+      }
+    } else if (this.nodes.has(id)) {
+      this.nodes.delete(id);
+      this.graph.nodes.splice(this.graph.nodes.findIndex(n => n.id === id), 1);
+      for (let i = this.graph.edges.length - 1; i >= 0; i--) {
+        const edge = this.graph.edges[i];
+        if (edge.source === id || edge.target === id) this.graph.edges.splice(i, 1);
+      }
+    } else {
+      throw new Error(`Atom with id "${id}" does not exist`);
+    }
+
+    this.emitEvent({ type: 'atomRemoved', data: { atomId: id } });
+  }
+
+  /**
+   * An edge between two nodes, or — when the target is a value atom — the
+   * node's attribute `relationId`. A node holds one value per attribute, of
+   * the type the attribute is declared with.
+   */
+  addRelationTuple(relationId: string, t: ITuple): void {
+    const [source, target] = this.tupleEnds(t);
+    const node = this.nodes.get(source)!;
+    const value = this.values.get(target);
+
+    if (value) {
+      if (!this.isAttributeRelation(relationId)) {
+        throw new Error(`"${relationId}" is the ${relationId === this.opts.typeAttribute ? 'type' : 'label'} attribute, not a relation`);
+      }
+      if (node.attributes.has(relationId)) {
+        throw new Error(`Atom "${source}" already has a value for "${relationId}"`);
+      }
+      const declared = this.graph.keys.find(k => appliesTo(k, 'node') && k.name === relationId);
+      if (declared && declared.valueType !== value.type) {
+        throw new Error(`"${relationId}" holds ${declared.valueType} values, not ${value.type} "${value.value}"`);
+      }
+      this.ensureKey(relationId, 'node', value.type);
+      node.attributes.set(relationId, value.value);
+    } else {
+      if (this.findEdge(relationId, source, target) >= 0) {
+        throw new Error(`Relation tuple "${relationId}" from "${source}" to "${target}" already exists`);
+      }
+      const attributes = new Map<string, string>();
+      if (relationId !== this.opts.defaultRelationName) {
+        attributes.set(this.opts.relationAttribute, relationId);
+        this.ensureKey(this.opts.relationAttribute, 'edge', 'String');
+      }
+      this.graph.edges.push({ source, target, attributes });
+    }
+
+    this.emitEvent({ type: 'relationTupleAdded', data: { relationId, tuple: t } });
+  }
+
+  removeRelationTuple(relationId: string, t: ITuple): void {
+    const [source, target] = this.tupleEnds(t);
+    const node = this.nodes.get(source)!;
+    const value = this.values.get(target);
+
+    if (value) {
+      if (!this.isAttributeRelation(relationId) || node.attributes.get(relationId) !== value.value) {
+        throw new Error(`Relation tuple "${relationId}" from "${source}" to "${target}" does not exist`);
+      }
+      node.attributes.delete(relationId);
+    } else {
+      const index = this.findEdge(relationId, source, target);
+      if (index < 0) {
+        throw new Error(`Relation tuple "${relationId}" from "${source}" to "${target}" does not exist`);
+      }
+      this.graph.edges.splice(index, 1);
+    }
+
+    this.emitEvent({ type: 'relationTupleRemoved', data: { relationId, tuple: t } });
+  }
+
+  private tupleEnds(t: ITuple): [string, string] {
+    if (t.atoms.length !== 2) {
+      throw new Error('Graph tuples are binary: an edge, or a node and an attribute value');
+    }
+    const [source, target] = t.atoms;
+    if (!this.nodes.has(source)) {
+      throw new Error(`Atom "${source}" is not a node`);
+    }
+    if (!this.nodes.has(target) && !this.values.has(target)) {
+      throw new Error(`Atom with id "${target}" does not exist`);
+    }
+    return [source, target];
+  }
+
+  /**
+   * Add atoms and relations from another data instance. Values are always
+   * unified with an existing atom of the same type and label; with
+   * `unifyBuiltIns`, so are other built-in atoms.
+   *
+   * @returns true if the merge succeeded without conflicts, false otherwise.
+   */
+  addFromDataInstance(dataInstance: IDataInstance, unifyBuiltIns: boolean): boolean {
+    const idRemap = new Map<string, string>();
+    let hasConflict = false;
+    const atoms = this.getAtoms();
+
+    for (const srcAtom of dataInstance.getAtoms()) {
+      const isValue = VALUE_TYPES.has(srcAtom.type);
+      const isBuiltin = isValue || dataInstance.getTypes().some(t => t.id === srcAtom.type && t.isBuiltin);
+      if (isValue || (unifyBuiltIns && isBuiltin)) {
+        const existing = atoms.find(a => a.type === srcAtom.type && a.label === srcAtom.label);
+        if (existing) {
+          idRemap.set(srcAtom.id, existing.id);
+          continue;
+        }
+      }
+
+      let newId = srcAtom.id;
+      let counter = 1;
+      while (this.nodes.has(newId) || this.values.has(newId)) {
+        newId = `${srcAtom.id}_${counter++}`;
+      }
+      if (newId !== srcAtom.id) hasConflict = true;
+      idRemap.set(srcAtom.id, newId);
+      this.addAtom({ ...srcAtom, id: newId });
+    }
+
+    for (const srcRel of dataInstance.getRelations()) {
+      for (const tuple of srcRel.tuples) {
+        try {
+          this.addRelationTuple(srcRel.name, {
+            atoms: tuple.atoms.map(a => idRemap.get(a) ?? a),
+            types: tuple.types,
+          });
+        } catch {
+          // Duplicate, non-binary, or a second value for an attribute — skip.
+          hasConflict = true;
+        }
+      }
+    }
+
+    return !hasConflict;
+  }
+}
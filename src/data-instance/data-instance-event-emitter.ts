@@ -2,7 +2,7 @@ import { DataInstanceEvent, DataInstanceEventType, DataInstanceEventListener } f
 
 /**
  * Shared event plumbing for the mutable data instances (JSON, Alloy, Pyret,
- * DOT). Each adapter used to carry its own copy of this listener map and the
+ * Racket, Python, Rust, DOT, GraphML, GEXF). Each adapter used to carry its own copy of this listener map and the
  * three methods around it; they all extend this class instead.
  *
  * `emitEvent` is protected: only the instance itself decides when a change
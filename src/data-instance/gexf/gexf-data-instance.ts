@@ -0,0 +1,242 @@
+import {
+  AttributedGraphDataInstance,
+  childElements,
+  escapeXml,
+  parseXmlRoot,
+  type AttributeValueType,
+  type AttributedEdge,
+  type AttributedGraph,
+  type AttributedGraphOptions,
+  type AttributedNode,
+  type GraphAttributeKey,
+} from '../attributed-graph-data-instance';
+
+export type GexfDataInstanceOptions = AttributedGraphOptions;
+
+/**
+ * The XML attributes GEXF gives nodes and edges directly, read into the same
+ * attribute map as `<attvalue>`s so the options can name them.
+ */
+const NODE_XML_ATTRIBUTES = ['label'];
+const EDGE_XML_ATTRIBUTES = ['label', 'weight'];
+
+/** GEXF attribute `type` → atom type. */
+function valueTypeOf(type: string): AttributeValueType {
+  switch (type) {
+    case 'integer':
+    case 'long':
+    case 'short':
+    case 'byte':
+      return 'Int';
+    case 'float':
+    case 'double':
+    case 'bigdecimal':
+      return 'Real';
+    case 'boolean':
+      return 'Bool';
+    default:
+      return 'String';
+  }
+}
+
+/**
+ * Read a `<node>` or `<edge>`'s built-in XML attributes and `<attvalues>`,
+ * filling in the declared defaults of the attributes it leaves unset.
+ */
+function readAttributes(
+  element: Element,
+  keys: Map<string, GraphAttributeKey>,
+  domain: 'node' | 'edge'
+): Map<string, string> {
+  const attributes = new Map<string, string>();
+  for (const name of domain === 'node' ? NODE_XML_ATTRIBUTES : EDGE_XML_ATTRIBUTES) {
+    const value = element.getAttribute(name);
+    if (value !== null && value !== '') attributes.set(name, value);
+  }
+  for (const attvalues of childElements(element, 'attvalues')) {
+    for (const attvalue of childElements(attvalues, 'attvalue')) {
+      const keyId = attvalue.getAttribute('for') ?? attvalue.getAttribute('id') ?? '';
+      const key = keys.get(`${domain}:${keyId}`);
+      if (!key) {
+        throw new Error(`Invalid GEXF: <attvalue> refers to undeclared ${domain} attribute "${keyId}"`);
+      }
+      attributes.set(key.name, attvalue.getAttribute('value') ?? '');
+    }
+  }
+  for (const key of keys.values()) {
+    if (key.domain === domain && key.default !== undefined && !attributes.has(key.name)) {
+      attributes.set(key.name, key.default);
+    }
+  }
+  return attributes;
+}
+
+/** Parse a GEXF document's `<graph>`. */
+export function parseGexf(xml: string): AttributedGraph {
+  const root = parseXmlRoot(xml, 'gexf', 'GEXF');
+  const graph = childElements(root, 'graph')[0];
+  if (!graph) {
+    throw new Error('Invalid GEXF: no <graph> element');
+  }
+
+  // Node and edge attribute ids are separate namespaces: key them by domain.
+  const keys = new Map<string, GraphAttributeKey>();
+  for (const declarations of childElements(graph, 'attributes')) {
+    const domain = declarations.getAttribute('class') === 'edge' ? 'edge' : 'node';
+    for (const attribute of childElements(declarations, 'attribute')) {
+      const id = attribute.getAttribute('id');
+      if (!id) {
+        throw new Error('Invalid GEXF: <attribute> without an id');
+      }
+      const sourceType = attribute.getAttribute('type') || 'string';
+      const defaultElement = childElements(attribute, 'default')[0];
+      keys.set(`${domain}:${id}`, {
+        id,
+        name: attribute.getAttribute('title') || id,
+        domain,
+        sourceType,
+        valueType: valueTypeOf(sourceType),
+        ...(defaultElement ? { default: (defaultElement.textContent ?? '').trim() } : {}),
+      });
+    }
+  }
+
+  const nodes: AttributedNode[] = childElements(graph, 'nodes').flatMap(list =>
+    childElements(list, 'node').map(node => {
+      const id = node.getAttribute('id');
+      if (!id) {
+        throw new Error('Invalid GEXF: <node> without an id');
+      }
+      return { id, attributes: readAttributes(node, keys, 'node') };
+    })
+  );
+  const nodeIds = new Set(nodes.map(n => n.id));
+
+  const defaultEdgeType = graph.getAttribute('defaultedgetype') ?? 'undirected';
+  const edges: AttributedEdge[] = childElements(graph, 'edges').flatMap(list =>
+    childElements(list, 'edge').map(edge => {
+      const source = edge.getAttribute('source') ?? '';
+      const target = edge.getAttribute('target') ?? '';
+      for (const end of [source, target]) {
+        if (!nodeIds.has(end)) {
+          throw new Error(`Invalid GEXF: <edge> refers to unknown node "${end}"`);
+        }
+      }
+      const id = edge.getAttribute('id');
+      return { ...(id ? { id } : {}), source, target, attributes: readAttributes(edge, keys, 'edge') };
+    })
+  );
+
+  return {
+    directed: defaultEdgeType === 'directed',
+    keys: [...keys.values()],
+    nodes,
+    edges,
+  };
+}
+
+/**
+ * An `IInputDataInstance` over a GEXF document — Gephi's native format.
+ *
+ * Nodes are atoms, edges are tuples, and each declared node attribute is a
+ * relation to typed value atoms; see {@link AttributedGraphDataInstance}.
+ * A node's or edge's `label` counts as an attribute named `label`, so by
+ * default it is the atom's label and the edge's relation. `reify()` writes
+ * GEXF 1.3 back, keeping the attributes, ids and edge weights it read.
+ *
+ * Dynamics (`spells`, `start`/`end`), visualisation attributes and
+ * hierarchies are not read.
+ *
+ * @example
+ * ```typescript
+ * const instance = new GexfDataInstance(`
+ *   <gexf xmlns="http://gexf.net/1.3" version="1.3">
+ *     <graph defaultedgetype="directed">
+ *       <attributes class="node">
+ *         <attribute id="0" title="type" type="string"/>
+ *       </attributes>
+ *       <nodes>
+ *         <node id="a" label="Alice"><attvalues><attvalue for="0" value="Person"/></attvalues></node>
+ *         <node id="b" label="Bob"/>
+ *       </nodes>
+ *       <edges><edge id="0" source="a" target="b" label="knows"/></edges>
+ *     </graph>
+ *   </gexf>`);
+ * ```
+ */
+export class GexfDataInstance extends AttributedGraphDataInstance {
+  /**
+   * @param gexf - The GEXF document.
+   * @throws {Error} When the document is not GEXF.
+   */
+  constructor(gexf: string, options?: GexfDataInstanceOptions) {
+    super(parseGexf(gexf), options);
+  }
+
+  protected sourceTypeOf(valueType: AttributeValueType): string {
+    return { Int: 'integer', Real: 'double', Bool: 'boolean', String: 'string' }[valueType];
+  }
+
+  /** Serialize back to GEXF. */
+  reify(): string {
+    const isXmlAttribute = (key: GraphAttributeKey) =>
+      (key.domain === 'node' ? NODE_XML_ATTRIBUTES : EDGE_XML_ATTRIBUTES).includes(key.name);
+    const declared = this.graph.keys.filter(key => !isXmlAttribute(key));
+    const keyOf = new Map(declared.map(k => [`${k.domain}:${k.name}`, k]));
+
+    const lines: string[] = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<gexf xmlns="http://gexf.net/1.3" version="1.3">',
+      `  <graph defaultedgetype="${this.graph.directed ? 'directed' : 'undirected'}">`,
+    ];
+
+    for (const domain of ['node', 'edge'] as const) {
+      const keys = declared.filter(k => k.domain === domain);
+      if (keys.length === 0) continue;
+      lines.push(`    <attributes class="${domain}">`);
+      for (const key of keys) {
+        const head = `      <attribute id="${escapeXml(key.id)}" title="${escapeXml(key.name)}" type="${escapeXml(key.sourceType)}"`;
+        lines.push(key.default === undefined
+          ? `${head}/>`
+          : `${head}><default>${escapeXml(key.default)}</default></attribute>`);
+      }
+      lines.push('    </attributes>');
+    }
+
+    const element = (tag: string, xmlAttributes: string, attributes: Map<string, string>, domain: 'node' | 'edge') => {
+      const builtIn = domain === 'node' ? NODE_XML_ATTRIBUTES : EDGE_XML_ATTRIBUTES;
+      const inline = builtIn
+        .filter(name => attributes.has(name))
+        .map(name => ` ${name}="${escapeXml(attributes.get(name)!)}"`)
+        .join('');
+      const attvalues = [...attributes]
+        .map(([name, value]) => [keyOf.get(`${domain}:${name}`), value] as const)
+        .filter(([key, value]) => key && key.default !== value)
+        .map(([key, value]) => `<attvalue for="${escapeXml(key!.id)}" value="${escapeXml(value)}"/>`)
+        .join('');
+      return attvalues
+        ? `      <${tag}${xmlAttributes}${inline}><attvalues>${attvalues}</attvalues></${tag}>`
+        : `      <${tag}${xmlAttributes}${inline}/>`;
+    };
+
+    lines.push('    <nodes>');
+    for (const node of this.graph.nodes) {
+      lines.push(element('node', ` id="${escapeXml(node.id)}"`, node.attributes, 'node'));
+    }
+    lines.push('    </nodes>', '    <edges>');
+    // GEXF requires edge ids; give the edges added since reading fresh ones.
+    const usedIds = new Set(this.graph.edges.map(e => e.id).filter(id => id !== undefined));
+    let next = 0;
+    for (const edge of this.graph.edges) {
+      let id = edge.id;
+      if (id === undefined) {
+        while (usedIds.has(`e${next}`)) next++;
+        id = `e${next++}`;
+      }
+      const ends = ` id="${escapeXml(id)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}"`;
+      lines.push(element('edge', ends, edge.attributes, 'edge'));
+    }
+    lines.push('    </edges>', '  </graph>', '</gexf>');
+    return lines.join('\n');
+  }
+}
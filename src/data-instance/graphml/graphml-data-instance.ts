@@ -0,0 +1,203 @@
+import {
+  AttributedGraphDataInstance,
+  appliesTo,
+  childElements,
+  escapeXml,
+  parseXmlRoot,
+  type AttributeValueType,
+  type AttributedEdge,
+  type AttributedGraph,
+  type AttributedGraphOptions,
+  type AttributedNode,
+  type GraphAttributeKey,
+} from '../attributed-graph-data-instance';
+
+export type GraphMLDataInstanceOptions = AttributedGraphOptions;
+
+/** GraphML `attr.type` → atom type. */
+function valueTypeOf(attrType: string): AttributeValueType {
+  switch (attrType) {
+    case 'int':
+    case 'long':
+      return 'Int';
+    case 'float':
+    case 'double':
+      return 'Real';
+    case 'boolean':
+      return 'Bool';
+    default:
+      return 'String';
+  }
+}
+
+/** GraphML `for` → the domain a key is declared on; `port` and the rest are read as nodes. */
+function domainOf(declaredFor: string | null): GraphAttributeKey['domain'] {
+  return declaredFor === 'edge' || declaredFor === 'all' || declaredFor === 'graph' ? declaredFor : 'node';
+}
+
+/**
+ * Read the `<data>` children of a `<graph>`, `<node>` or `<edge>`, filling in
+ * the declared defaults of the keys it leaves unset.
+ */
+function readData(element: Element, keys: Map<string, GraphAttributeKey>, domain: 'node' | 'edge' | 'graph'): Map<string, string> {
+  const attributes = new Map<string, string>();
+  for (const data of childElements(element, 'data')) {
+    const keyId = data.getAttribute('key') ?? '';
+    const key = keys.get(keyId);
+    if (!key) {
+      throw new Error(`Invalid GraphML: <data> refers to undeclared key "${keyId}"`);
+    }
+    attributes.set(key.name, (data.textContent ?? '').trim());
+  }
+  for (const key of keys.values()) {
+    if (appliesTo(key, domain) && key.default !== undefined && !attributes.has(key.name)) {
+      attributes.set(key.name, key.default);
+    }
+  }
+  return attributes;
+}
+
+/** Parse a GraphML document's first `<graph>`. */
+export function parseGraphML(xml: string): AttributedGraph {
+  const root = parseXmlRoot(xml, 'graphml', 'GraphML');
+
+  const keys = new Map<string, GraphAttributeKey>();
+  for (const key of childElements(root, 'key')) {
+    const id = key.getAttribute('id');
+    if (!id) {
+      throw new Error('Invalid GraphML: <key> without an id');
+    }
+    const domain = domainOf(key.getAttribute('for'));
+    const sourceType = key.getAttribute('attr.type') || 'string';
+    const defaultElement = childElements(key, 'default')[0];
+    keys.set(id, {
+      id,
+      name: key.getAttribute('attr.name') || id,
+      domain,
+      sourceType,
+      valueType: valueTypeOf(sourceType),
+      ...(defaultElement ? { default: (defaultElement.textContent ?? '').trim() } : {}),
+    });
+  }
+
+  const graph = childElements(root, 'graph')[0];
+  if (!graph) {
+    throw new Error('Invalid GraphML: no <graph> element');
+  }
+
+  const nodes: AttributedNode[] = childElements(graph, 'node').map(node => {
+    const id = node.getAttribute('id');
+    if (!id) {
+      throw new Error('Invalid GraphML: <node> without an id');
+    }
+    return { id, attributes: readData(node, keys, 'node') };
+  });
+  const nodeIds = new Set(nodes.map(n => n.id));
+
+  const edges: AttributedEdge[] = childElements(graph, 'edge').map(edge => {
+    const source = edge.getAttribute('source') ?? '';
+    const target = edge.getAttribute('target') ?? '';
+    for (const end of [source, target]) {
+      if (!nodeIds.has(end)) {
+        throw new Error(`Invalid GraphML: <edge> refers to unknown node "${end}"`);
+      }
+    }
+    const id = edge.getAttribute('id');
+    return { ...(id ? { id } : {}), source, target, attributes: readData(edge, keys, 'edge') };
+  });
+
+  const graphId = graph.getAttribute('id');
+  return {
+    ...(graphId ? { id: graphId } : {}),
+    directed: graph.getAttribute('edgedefault') !== 'undirected',
+    attributes: readData(graph, keys, 'graph'),
+    keys: [...keys.values()],
+    nodes,
+    edges,
+  };
+}
+
+/**
+ * An `IInputDataInstance` over a GraphML document — the format of yEd,
+ * NetworkX's `write_graphml`, igraph and Gephi.
+ *
+ * Nodes are atoms, edges are tuples, and each `<key>`-declared node attribute
+ * is a relation to typed value atoms; see {@link AttributedGraphDataInstance}.
+ * `reify()` writes GraphML back, keeping the keys, ids, edge attributes and
+ * graph-level `<data>` it read. A key `for="all"` declares its attribute on
+ * nodes and edges alike.
+ *
+ * Hyperedges, ports and nested graphs are not read.
+ *
+ * @example
+ * ```typescript
+ * const instance = new GraphMLDataInstance(`
+ *   <graphml xmlns="http://graphml.graphdrawing.org/xmlns">
+ *     <key id="t" for="node" attr.name="type" attr.type="string"/>
+ *     <key id="a" for="node" attr.name="age" attr.type="int"/>
+ *     <graph edgedefault="directed">
+ *       <node id="alice"><data key="t">Person</data><data key="a">30</data></node>
+ *       <node id="bob"><data key="t">Person</data></node>
+ *       <edge source="alice" target="bob"/>
+ *     </graph>
+ *   </graphml>`);
+ * // Atoms: alice, bob (Person) and Int:30; relations: edge, age.
+ * ```
+ */
+export class GraphMLDataInstance extends AttributedGraphDataInstance {
+  /**
+   * @param graphml - The GraphML document.
+   * @throws {Error} When the document is not GraphML.
+   */
+  constructor(graphml: string, options?: GraphMLDataInstanceOptions) {
+    super(parseGraphML(graphml), options);
+  }
+
+  protected sourceTypeOf(valueType: AttributeValueType): string {
+    return { Int: 'int', Real: 'double', Bool: 'boolean', String: 'string' }[valueType];
+  }
+
+  /** Serialize back to GraphML. */
+  reify(): string {
+    const keyOf = (name: string, domain: 'node' | 'edge' | 'graph') =>
+      this.graph.keys.find(k => k.domain === domain && k.name === name)
+      ?? this.graph.keys.find(k => appliesTo(k, domain) && k.name === name);
+    const lines: string[] = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    ];
+
+    for (const key of this.graph.keys) {
+      const head = `  <key id="${escapeXml(key.id)}" for="${key.domain}" attr.name="${escapeXml(key.name)}" attr.type="${escapeXml(key.sourceType)}"`;
+      lines.push(key.default === undefined
+        ? `${head}/>`
+        : `${head}><default>${escapeXml(key.default)}</default></key>`);
+    }
+
+    const data = (attributes: Map<string, string>, domain: 'node' | 'edge' | 'graph') =>
+      [...attributes]
+        .map(([name, value]) => [keyOf(name, domain), value] as const)
+        .filter(([key, value]) => key && key.default !== value)
+        .map(([key, value]) => `<data key="${escapeXml(key!.id)}">${escapeXml(value)}</data>`)
+        .join('');
+
+    const graphId = this.graph.id ? ` id="${escapeXml(this.graph.id)}"` : '';
+    lines.push(`  <graph${graphId} edgedefault="${this.graph.directed ? 'directed' : 'undirected'}">`);
+    const graphData = data(this.graph.attributes ?? new Map(), 'graph');
+    if (graphData) lines.push(`    ${graphData}`);
+    for (const node of this.graph.nodes) {
+      const body = data(node.attributes, 'node');
+      lines.push(body
+        ? `    <node id="${escapeXml(node.id)}">${body}</node>`
+        : `    <node id="${escapeXml(node.id)}"/>`);
+    }
+    for (const edge of this.graph.edges) {
+      const id = edge.id ? ` id="${escapeXml(edge.id)}"` : '';
+      const head = `    <edge${id} source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}"`;
+      const body = data(edge.attributes, 'edge');
+      lines.push(body ? `${head}>${body}</edge>` : `${head}/>`);
+    }
+    lines.push('  </graph>', '</graphml>');
+    return lines.join('\n');
+  }
+}
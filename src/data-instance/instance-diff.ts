@@ -0,0 +1,146 @@
+import type { IAtom, IDataInstance, ITuple } from './interfaces';
+
+/** An atom in both instances whose type differs. */
+export interface RetypedAtom {
+  id: string;
+  prevType: string;
+  currType: string;
+}
+
+/** The tuples one relation gained and lost. */
+export interface RelationDiff {
+  /** The relation's name. */
+  relation: string;
+  added: ITuple[];
+  removed: ITuple[];
+}
+
+/**
+ * What changed between two instances, comparing atoms by id and tuples by
+ * relation name and atoms.
+ */
+export interface InstanceDiff {
+  /** Atoms only in the current instance, in its order. */
+  addedAtoms: IAtom[];
+  /** Atoms only in the previous instance, in its order. */
+  removedAtoms: IAtom[];
+  /** Atoms in both whose type differs. */
+  retypedAtoms: RetypedAtom[];
+  /** Relations that gained or lost tuples; unchanged ones are left out. */
+  relations: RelationDiff[];
+  /**
+   * Atoms in both that gained or lost a tuple — including by a neighbour
+   * coming or going.
+   */
+  connectivityChanged: string[];
+}
+
+/**
+ * Build a per-atom connectivity fingerprint from a data instance.
+ *
+ * For each atom the fingerprint is the set of edge descriptors
+ * (`"relationName:a0->a1->..."`) for every tuple the atom participates in.
+ */
+export function buildEdgeFingerprints(instance: IDataInstance): Map<string, Set<string>> {
+  const fingerprints = new Map<string, Set<string>>();
+
+  for (const atom of instance.getAtoms()) {
+    fingerprints.set(atom.id, new Set());
+  }
+
+  for (const relation of instance.getRelations()) {
+    for (const tuple of relation.tuples) {
+      const descriptor = edgeDescriptor(relation.name, tuple);
+      for (const atomId of tuple.atoms) {
+        let set = fingerprints.get(atomId);
+        if (!set) {
+          set = new Set();
+          fingerprints.set(atomId, set);
+        }
+        set.add(descriptor);
+      }
+    }
+  }
+
+  return fingerprints;
+}
+
+/** An order-independent key for a fingerprint, equal iff the sets are. */
+export function fingerprintKey(s: Set<string>): string {
+  return [...s].sort().join('\n');
+}
+
+function edgeDescriptor(relationName: string, tuple: ITuple): string {
+  return `${relationName}:${tuple.atoms.join('->')}`;
+}
+
+/** Each relation's tuples by descriptor, relations in first-seen order. */
+function tuplesByRelation(instance: IDataInstance): Map<string, Map<string, ITuple>> {
+  const byRelation = new Map<string, Map<string, ITuple>>();
+  for (const relation of instance.getRelations()) {
+    let tuples = byRelation.get(relation.name);
+    if (!tuples) {
+      tuples = new Map();
+      byRelation.set(relation.name, tuples);
+    }
+    for (const tuple of relation.tuples) {
+      tuples.set(edgeDescriptor(relation.name, tuple), tuple);
+    }
+  }
+  return byRelation;
+}
+
+/**
+ * Diff two instances — typically consecutive steps of a sequence — for
+ * change highlighting, changelogs or a "what changed" narration.
+ *
+ * Atoms are the same atom when their ids are, so this is only as good as the
+ * instances' identity (see `InstanceTrace`). Connectivity is compared with the
+ * same per-atom fingerprints `changeEmphasis` uses: its changed set is
+ * exactly the added, removed and `connectivityChanged` atoms.
+ *
+ * @example
+ * ```typescript
+ * const diff = diffInstances(trace.getStep(0), trace.getStep(1));
+ * diff.addedAtoms.map(a => a.id);   // ['Node$2']
+ * diff.relations;                   // [{ relation: 'next', added: [...], removed: [...] }]
+ * ```
+ */
+export function diffInstances(prev: IDataInstance, curr: IDataInstance): InstanceDiff {
+  const prevAtoms = new Map(prev.getAtoms().map(atom => [atom.id, atom]));
+  const currAtoms = new Map(curr.getAtoms().map(atom => [atom.id, atom]));
+
+  const addedAtoms = [...currAtoms.values()].filter(atom => !prevAtoms.has(atom.id));
+  const removedAtoms = [...prevAtoms.values()].filter(atom => !currAtoms.has(atom.id));
+  const retypedAtoms: RetypedAtom[] = [];
+  for (const [id, atom] of currAtoms) {
+    const before = prevAtoms.get(id);
+    if (before && before.type !== atom.type) {
+      retypedAtoms.push({ id, prevType: before.type, currType: atom.type });
+    }
+  }
+
+  const prevTuples = tuplesByRelation(prev);
+  const currTuples = tuplesByRelation(curr);
+  const relations: RelationDiff[] = [];
+  for (const name of new Set([...currTuples.keys(), ...prevTuples.keys()])) {
+    const before = prevTuples.get(name) ?? new Map<string, ITuple>();
+    const after = currTuples.get(name) ?? new Map<string, ITuple>();
+    const added = [...after].filter(([key]) => !before.has(key)).map(([, tuple]) => tuple);
+    const removed = [...before].filter(([key]) => !after.has(key)).map(([, tuple]) => tuple);
+    if (added.length > 0 || removed.length > 0) {
+      relations.push({ relation: name, added, removed });
+    }
+  }
+
+  const prevFP = buildEdgeFingerprints(prev);
+  const connectivityChanged: string[] = [];
+  for (const [id, currSet] of buildEdgeFingerprints(curr)) {
+    const prevSet = prevFP.get(id);
+    if (prevSet && fingerprintKey(prevSet) !== fingerprintKey(currSet)) {
+      connectivityChanged.push(id);
+    }
+  }
+
+  return { addedAtoms, removedAtoms, retypedAtoms, relations, connectivityChanged };
+}
@@ -0,0 +1,125 @@
+import type { IDataInstance } from './interfaces';
+import { AlloyDataInstance } from './alloy-data-instance';
+import { isAlloyDatumTrace, type AlloyDatum } from './alloy/alloy-instance';
+import { TlaDataInstance, type TlaDatum } from './tla/tla-data-instance';
+import type { SequencePolicy } from '../translators/webcola/sequence-policy';
+
+/**
+ * What renderLayout() needs to draw one step of a trace as the continuation
+ * of another: the sequence policy and the two instances it compares.
+ */
+export interface TraceTransition {
+  policy: SequencePolicy;
+  prevInstance: IDataInstance;
+  currInstance: IDataInstance;
+}
+
+/**
+ * A trace as one `IDataInstance` per step, for the sequence machinery —
+ * `SequencePolicy`, and `renderLayout` with `prevInstance`/`currInstance` —
+ * which compares consecutive instances atom by atom.
+ *
+ * The same thing in two steps has the same atom id in both, so a policy sees
+ * it persist. Alloy atoms (`Node$0`) already do; a TLA+ value is identified by
+ * where it sits — its variable, then field, key or (for sets) value — so
+ * `x.pc` is one atom through the trace while it exists.
+ *
+ * A lasso trace (Alloy's `loopBack`, TLA+'s `loop`) carries on from its last
+ * step to its loop step, and {@link next} follows it there.
+ */
+export class InstanceTrace {
+  private readonly steps: readonly IDataInstance[];
+  /** The step the last one continues to, or undefined for a finite trace. */
+  readonly loop: number | undefined;
+
+  constructor(steps: readonly IDataInstance[], loop?: number) {
+    if (steps.length === 0) {
+      throw new Error('A trace needs at least one step.');
+    }
+    this.steps = steps;
+    this.loop = loop !== undefined && Number.isInteger(loop) && loop >= 0 && loop < steps.length ? loop : undefined;
+  }
+
+  /** The number of steps, counting the loop's once. */
+  get length(): number {
+    return this.steps.length;
+  }
+
+  /**
+   * The instance at step `index`.
+   * @throws {RangeError} If there is no such step.
+   */
+  getStep(index: number): IDataInstance {
+    const step = this.steps[index];
+    if (!Number.isInteger(index) || step === undefined) {
+      throw new RangeError(`Trace step ${index} is out of range (0–${this.steps.length - 1}).`);
+    }
+    return step;
+  }
+
+  /** Every step, in order. */
+  getSteps(): readonly IDataInstance[] {
+    return this.steps;
+  }
+
+  /** The step after `index`: the next one, the loop step after the last, or undefined at the end of a finite trace. */
+  next(index: number): number | undefined {
+    this.getStep(index);
+    if (index < this.steps.length - 1) {
+      return index + 1;
+    }
+    return this.loop;
+  }
+
+  /**
+   * The renderLayout() options that draw step `to` continuing from step
+   * `from` under `policy` — or none, for a fresh layout, when `from` is
+   * undefined. Following the loop, `from` is the last step and `to` the
+   * loop step.
+   *
+   * @example
+   * ```typescript
+   * const trace = createTlaTrace(parseItfTrace(itf));
+   * let at = 0;
+   * await graph.renderLayout(layoutOf(trace.getStep(at)));
+   * const to = trace.next(at);
+   * if (to !== undefined) {
+   *   await graph.renderLayout(layoutOf(trace.getStep(to)), trace.transition(at, to, stability));
+   *   at = to;
+   * }
+   * ```
+   */
+  transition(from: number | undefined, to: number, policy: SequencePolicy): TraceTransition | Record<string, never> {
+    const currInstance = this.getStep(to);
+    if (from === undefined) {
+      return {};
+    }
+    return { policy, prevInstance: this.getStep(from), currInstance };
+  }
+}
+
+/**
+ * The trace of an Alloy datum: one `AlloyDataInstance` per `<instance>`, with
+ * the datum's loop-back when it has one.
+ */
+export function createAlloyTrace(datum: AlloyDatum): InstanceTrace {
+  return new InstanceTrace(
+    datum.instances.map(instance => new AlloyDataInstance(instance)),
+    isAlloyDatumTrace(datum) ? datum.loopBack : undefined
+  );
+}
+
+/**
+ * The trace of a TLA+ datum, from a hand-shaped datum or a trace importer
+ * (`parseItfTrace`, `parseTlcTrace`). Each step is a `TlaDataInstance` of
+ * that state alone.
+ */
+export function createTlaTrace(datum: TlaDatum): InstanceTrace {
+  return new InstanceTrace(
+    datum.states.map((state, index) => new TlaDataInstance({
+      states: [{ ...state, name: state.name ?? `State ${index + 1}` }],
+      encoding: datum.encoding,
+    })),
+    datum.loop
+  );
+}
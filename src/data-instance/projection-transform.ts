@@ -0,0 +1,284 @@
+import { Graph } from 'graphlib';
+import type { IAtom, IDataInstance, IRelation, ITuple, IType } from './interfaces';
+
+/**
+ * One projection to apply: the type to project over, and optionally the binary
+ * relation that orders its atoms (Alloy's `next` from `util/ordering`, a
+ * trace's `Next`). Structurally the `projection` directive a spec parses to.
+ */
+export interface ProjectionSpec {
+  /** The type whose atoms are projected away, one chosen atom at a time. */
+  sig: string;
+  /** Name of a binary relation over `sig` giving the order to step through its atoms. */
+  orderBy?: string;
+}
+
+/**
+ * What a projection picked, so a host can show and step through the
+ * alternatives. `atoms` is in step order — following `orderBy` when one was
+ * given, instance order otherwise — and always contains `atom` unless the type
+ * had no atoms at all, in which case `atom` is `undefined` and nothing was
+ * projected.
+ */
+export interface ProjectionChoice {
+  /** The projected type. */
+  sig: string;
+  /** The atom the instance was sliced at. */
+  atom: string | undefined;
+  /** Every atom of the type, in step order. */
+  atoms: string[];
+  /** True when the caller asked for an atom the type does not have, and the first one was used instead. */
+  requestedAtomMissing?: boolean;
+}
+
+/** The projected instance plus, per projection, the atom it was sliced at. */
+export interface ProjectionResult {
+  instance: IDataInstance;
+  choices: ProjectionChoice[];
+}
+
+/**
+ * Order the atoms of a type by a binary relation over them: a walk from each
+ * atom with no predecessor, following successors. Atoms the walk never
+ * reaches (a cycle with no entry point, or no ordering tuple at all) keep
+ * their instance order, after the walked ones. Deterministic, so a host
+ * stepping "next" always lands on the same atom.
+ */
+function orderAtoms(atomIds: string[], ordering: IRelation | undefined): string[] {
+  if (!ordering) {
+    return atomIds;
+  }
+  const members = new Set(atomIds);
+  const successors = new Map<string, string[]>();
+  const hasPredecessor = new Set<string>();
+  for (const tuple of ordering.tuples) {
+    if (tuple.atoms.length < 2) continue;
+    const from = tuple.atoms[0];
+    const to = tuple.atoms[tuple.atoms.length - 1];
+    if (!members.has(from) || !members.has(to) || from === to) continue;
+    const list = successors.get(from) ?? [];
+    list.push(to);
+    successors.set(from, list);
+    hasPredecessor.add(to);
+  }
+
+  const ordered: string[] = [];
+  const seen = new Set<string>();
+  const walk = (start: string): void => {
+    let current: string | undefined = start;
+    while (current !== undefined && !seen.has(current)) {
+      seen.add(current);
+      ordered.push(current);
+      current = (successors.get(current) ?? []).find(next => !seen.has(next));
+    }
+  };
+  atomIds.filter(id => !hasPredecessor.has(id)).forEach(walk);
+  atomIds.filter(id => !seen.has(id)).forEach(id => ordered.push(id));
+  return ordered;
+}
+
+/**
+ * The instance a projection produces. A plain snapshot: atoms, types and
+ * relations are computed once by {@link applyProjectionTransform}, and the
+ * graph is generated from them the same way `JSONDataInstance` does it —
+ * first atom to last, middle atoms named in the edge label.
+ */
+class ProjectedDataInstance implements IDataInstance {
+  private readonly atomsById: Map<string, IAtom>;
+  private readonly typesById: Map<string, IType>;
+
+  constructor(
+    private readonly atoms: IAtom[],
+    private readonly types: IType[],
+    private readonly relations: IRelation[],
+  ) {
+    this.atomsById = new Map(atoms.map(atom => [atom.id, atom]));
+    this.typesById = new Map(types.map(type => [type.id, type]));
+  }
+
+  getAtomType(id: string): IType {
+    const atom = this.atomsById.get(id);
+    if (!atom) {
+      throw new Error(`Atom with ID '${id}' not found in projected instance.`);
+    }
+    const type = this.typesById.get(atom.type);
+    if (!type) {
+      throw new Error(`Type '${atom.type}' not found for atom '${id}'.`);
+    }
+    return type;
+  }
+
+  getTypes(): readonly IType[] {
+    return this.types;
+  }
+
+  getAtoms(): readonly IAtom[] {
+    return this.atoms;
+  }
+
+  getRelations(): readonly IRelation[] {
+    return this.relations;
+  }
+
+  generateGraph(hideDisconnected: boolean = false, hideDisconnectedBuiltIns: boolean = false): Graph {
+    const graph = new Graph({ directed: true, multigraph: true });
+
+    this.atoms.forEach(atom => {
+      graph.setNode(atom.id, {
+        id: atom.id,
+        label: atom.label,
+        type: atom.type,
+        isBuiltin: this.typesById.get(atom.type)?.isBuiltin ?? false,
+      });
+    });
+
+    // A tuple the projection narrowed to one atom draws no edge. It is still
+    // in the relation, so selectors see it; there is just nothing to connect.
+    this.relations.forEach(relation => {
+      relation.tuples.forEach((tuple, tupleIndex) => {
+        if (tuple.atoms.length < 2) return;
+        const sourceId = tuple.atoms[0];
+        const targetId = tuple.atoms[tuple.atoms.length - 1];
+        const middleLabels = tuple.atoms
+          .slice(1, -1)
+          .map(atomId => this.atomsById.get(atomId)?.label ?? atomId);
+        const edgeLabel = middleLabels.length > 0
+          ? `${relation.name}[${middleLabels.join(', ')}]`
+          : relation.name;
+        graph.setEdge(sourceId, targetId, edgeLabel, `${relation.id}_${tupleIndex}`);
+      });
+    });
+
+    if (hideDisconnected || hideDisconnectedBuiltIns) {
+      graph.nodes().forEach(nodeId => {
+        const connected = (graph.inEdges(nodeId) ?? []).length > 0 || (graph.outEdges(nodeId) ?? []).length > 0;
+        if (connected) return;
+        const isBuiltin = (graph.node(nodeId) as { isBuiltin?: boolean } | undefined)?.isBuiltin ?? false;
+        if (hideDisconnected || (hideDisconnectedBuiltIns && isBuiltin)) {
+          graph.removeNode(nodeId);
+        }
+      });
+    }
+
+    return graph;
+  }
+}
+
+/**
+ * The slicing rule shared by relations and selector results. A tuple that
+ * names a projected atom other than a chosen one did not hold at the chosen
+ * slice and is dropped (`undefined`); otherwise the projected columns are
+ * removed and the indices of the columns that remain are returned.
+ */
+export function projectTupleColumns(
+  atoms: readonly string[],
+  projectedAtoms: ReadonlySet<string>,
+  chosenAtoms: ReadonlySet<string>,
+): number[] | undefined {
+  const kept: number[] = [];
+  for (let column = 0; column < atoms.length; column++) {
+    const id = atoms[column];
+    if (!projectedAtoms.has(id)) {
+      kept.push(column);
+    } else if (!chosenAtoms.has(id)) {
+      return undefined;
+    }
+  }
+  return kept;
+}
+
+/**
+ * Project an instance over one or more types.
+ *
+ * Projecting over `Time` at `Time1` slices the instance at that atom: every
+ * atom of `Time` (or a subtype) leaves the instance, every tuple mentioning a
+ * different `Time` atom is dropped, and the `Time` column is removed from the
+ * tuples that remain — so `edges: Node -> Node -> Time` reads as the binary
+ * `edges` that held at `Time1`. Tuples left with no atoms at all are dropped,
+ * and so are relations left with no tuples.
+ *
+ * Generic over any {@link IDataInstance}: membership in the projected type is
+ * read from the type hierarchy (`getAtomType(id).types`), so no adapter needs
+ * to implement anything.
+ *
+ * @param instance - The instance to project. Not modified.
+ * @param projections - The types to project over.
+ * @param chosen - The atom to slice at, keyed by type. A type with no entry,
+ *   or whose entry names an atom it does not have, is sliced at its first atom
+ *   in step order.
+ */
+export function applyProjectionTransform(
+  instance: IDataInstance,
+  projections: readonly ProjectionSpec[],
+  chosen: Readonly<Record<string, string>> = {},
+): ProjectionResult {
+  const typeOf = (atomId: string): IType | undefined => {
+    try {
+      return instance.getAtomType(atomId);
+    } catch {
+      return undefined;
+    }
+  };
+  const relations = instance.getRelations();
+  const projectedAtoms = new Set<string>();
+  const chosenAtoms = new Set<string>();
+  const projectedTypes = new Set<string>();
+  const choices: ProjectionChoice[] = [];
+
+  for (const projection of projections) {
+    const sig = projection.sig;
+    const members = instance.getAtoms()
+      .filter(atom => atom.type === sig || (typeOf(atom.id)?.types ?? []).includes(sig))
+      .map(atom => atom.id);
+    const ordering = projection.orderBy
+      ? relations.find(r => r.name === projection.orderBy || r.id === projection.orderBy)
+      : undefined;
+    const ordered = orderAtoms(members, ordering);
+
+    const requested = chosen[sig];
+    const atom = requested !== undefined && ordered.includes(requested) ? requested : ordered[0];
+    choices.push({
+      sig,
+      atom,
+      atoms: ordered,
+      ...(requested !== undefined && atom !== requested ? { requestedAtomMissing: true } : {}),
+    });
+    if (atom === undefined) {
+      continue;
+    }
+    members.forEach(id => projectedAtoms.add(id));
+    chosenAtoms.add(atom);
+    projectedTypes.add(sig);
+  }
+
+  const atoms = instance.getAtoms().filter(a => !projectedAtoms.has(a.id));
+  const types = instance.getTypes()
+    .filter(t => !projectedTypes.has(t.id))
+    .map(t => ({ ...t, atoms: t.atoms.filter(a => !projectedAtoms.has(a.id)) }));
+  const projectedRelations = relations
+    .map(relation => {
+      const tuples: ITuple[] = [];
+      let sliced = false;
+      for (const tuple of relation.tuples) {
+        const kept = projectTupleColumns(tuple.atoms, projectedAtoms, chosenAtoms);
+        if (kept === undefined || kept.length === 0) continue;
+        if (kept.length === tuple.atoms.length) {
+          tuples.push(tuple);
+          continue;
+        }
+        sliced = true;
+        tuples.push({ atoms: kept.map(c => tuple.atoms[c]), types: kept.map(c => tuple.types[c]) });
+      }
+      if (!sliced) {
+        return { ...relation, tuples };
+      }
+      // A sliced relation's column summary only survives when every remaining
+      // tuple agrees on it.
+      const arities = new Set(tuples.map(t => t.atoms.length));
+      const relationTypes = arities.size === 1 ? [...tuples[0].types] : [];
+      return { ...relation, types: relationTypes, tuples };
+    })
+    .filter(relation => relation.tuples.length > 0);
+
+  return { instance: new ProjectedDataInstance(atoms, types, projectedRelations), choices };
+}
@@ -0,0 +1,633 @@
+import { Graph } from 'graphlib';
+import { IDataInstance, IInputDataInstance, IAtom, IRelation, ITuple, IType } from '../interfaces';
+import { DataInstanceEventEmitter } from '../data-instance-event-emitter';
+import { settleTupleTypes } from '../tuple-types';
+
+/**
+ * A Python value graph: the format a host such as sPyTial writes when it
+ * relationalizes a Python object. Every object appears once in `objects`,
+ * under its id (`str(id(obj))` will do), and everything that refers to it
+ * holds a `{ "ref": id }` — so sharing and cycles survive the trip.
+ *
+ * @example
+ * ```json
+ * {
+ *   "root": { "ref": "1" },
+ *   "objects": {
+ *     "1": { "type": "list", "items": [{ "ref": "2" }, { "ref": "2" }, null] },
+ *     "2": { "type": "Point", "mro": ["Point", "Shape", "object"], "attrs": { "x": 1, "y": 2.5 } }
+ *   }
+ * }
+ * ```
+ */
+export interface PythonValueGraph {
+  /** The value itself. */
+  root: PythonValue;
+  objects: Record<string, PythonObject>;
+}
+
+/**
+ * A value in a {@link PythonValueGraph}: `None`, a `bool`, an `int` (a JSON
+ * integer), a `float`, a `str`, or a reference to an object.
+ *
+ * An `int` outside ±2^53 is a tagged `{ "int": "12345678901234567890" }`,
+ * its decimal digits as a string: `JSON.parse` rounds a larger JSON integer
+ * to the nearest double.
+ *
+ * A float is any JSON number that is not an integer, or a tagged
+ * `{ "float": 2.0 }`. The tag is needed for a float with an integral value:
+ * `JSON.parse` reads `2.0` as the integer `2`. It also writes what JSON
+ * cannot: `{ "float": "inf" }`, `"-inf"` and `"nan"`.
+ */
+export type PythonValue =
+  | null
+  | boolean
+  | number
+  | string
+  | { ref: string }
+  | { int: string }
+  | { float: number | 'inf' | '-inf' | 'nan' };
+
+/** An object in a {@link PythonValueGraph}. */
+export interface PythonObject {
+  /** The class name: `list`, `tuple`, `dict`, `set`, `frozenset`, or a user class. */
+  type: string;
+  /** The class's `__mro__` names, the class first; `[type, 'object']` when omitted. */
+  mro?: string[];
+  /** A `list`'s, `tuple`'s, `set`'s or `frozenset`'s elements, in iteration order. */
+  items?: PythonValue[];
+  /** A `dict`'s `(key, value)` pairs, in insertion order. */
+  entries?: [PythonValue, PythonValue][];
+  /** An instance's attributes (`vars(obj)`, or a dataclass's fields), in order. */
+  attrs?: Record<string, PythonValue>;
+}
+
+/**
+ * Configuration options for primitive value idempotency in PythonDataInstance
+ */
+export interface PythonInstanceOptions {
+  /** Whether equal strings share one atom */
+  stringsIdempotent?: boolean;
+  /** Whether equal ints, and equal floats, share one atom */
+  numbersIdempotent?: boolean;
+  /** Whether `True`, and `False`, are one atom each */
+  booleansIdempotent?: boolean;
+}
+
+/** Primitive types, with their real MROs: `bool` is an `int`. */
+const PRIMITIVE_MRO: Record<string, string[]> = {
+  int: ['int', 'object'],
+  float: ['float', 'object'],
+  str: ['str', 'object'],
+  bool: ['bool', 'int', 'object'],
+  NoneType: ['NoneType', 'object'],
+};
+
+const SEQUENCE_TYPES = new Set(['list', 'tuple']);
+const SET_TYPES = new Set(['set', 'frozenset']);
+
+/** The relation a set's elements are in; sets have no order to index by. */
+const MEMBER_RELATION = 'member';
+/** The ternary `(dict, key, value)` relation for keys that are not strings. */
+const ITEMS_RELATION = 'items';
+
+export function generateEdgeId(relation: IRelation, tuple: ITuple): string {
+  return `${relation.id}:${tuple.atoms.join('->')}`;
+}
+
+function isRef(value: PythonValue): value is { ref: string } {
+  return typeof value === 'object' && value !== null && 'ref' in value;
+}
+
+function isTaggedInt(value: PythonValue): value is { int: string } {
+  return typeof value === 'object' && value !== null && 'int' in value;
+}
+
+function isTaggedFloat(value: PythonValue): value is { float: number | 'inf' | '-inf' | 'nan' } {
+  return typeof value === 'object' && value !== null && 'float' in value;
+}
+
+function primitiveKey(type: string, label: string): string {
+  return `${type}\u0000${label}`;
+}
+
+/** Numeric-aware comparison so "2" sorts before "10". */
+function compareIndices(a: string, b: string): number {
+  return parseInt(a, 10) - parseInt(b, 10);
+}
+
+/** Python's `repr` of a str. */
+function pythonStringLiteral(s: string): string {
+  const quote = s.includes("'") && !s.includes('"') ? '"' : "'";
+  return quote + s
+    .replace(/\\/g, '\\\\')
+    .replace(new RegExp(quote, 'g'), `\\${quote}`)
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t') + quote;
+}
+
+/**
+ * Adapts a relationalized Python value — a {@link PythonValueGraph} — to
+ * `IInputDataInstance`, so a Python host can hand over its objects without
+ * re-implementing list, dict, tuple and `None` handling, edit them in
+ * `<structured-input-graph>`, and read the result back with `reify()`.
+ *
+ * - Each object is an atom, its id the object's. Its type hierarchy is its
+ *   MRO, so a selector on a base class finds instances of its subclasses.
+ * - Each attribute is a relation named after it.
+ * - A list's or tuple's elements are relations named by index (`0`, `1`,
+ *   …); a set's are `member`.
+ * - A dict's entries under string keys are relations named by the key, like
+ *   attributes; others are `(dict, key, value)` tuples of `items`.
+ * - `int`, `float`, `str`, `bool` and `None` are built-in atoms labelled
+ *   with their value. Equal values share an atom unless the options say
+ *   otherwise; `None` is always one atom.
+ */
+export class PythonDataInstance extends DataInstanceEventEmitter implements IInputDataInstance {
+  private readonly atoms = new Map<string, IAtom>();
+  private readonly relations = new Map<string, IRelation>();
+  /** Object id → MRO, for objects that declared one. */
+  private readonly mros = new Map<string, string[]>();
+  /** The first atom of each primitive type and value, by {@link primitiveKey}. */
+  private readonly primitives = new Map<string, string>();
+  private readonly options: Required<PythonInstanceOptions>;
+  private rootId: string | undefined;
+  private valueCounter = 0;
+
+  /**
+   * @param graph - The value graph, or undefined for an empty instance.
+   * @param options - Which primitives share atoms; all do by default.
+   * @throws {Error} If a reference names an object the graph does not have,
+   *   or a tagged int is not a decimal integer.
+   */
+  constructor(graph?: PythonValueGraph, options: PythonInstanceOptions = {}) {
+    super();
+    this.options = {
+      stringsIdempotent: options.stringsIdempotent ?? true,
+      numbersIdempotent: options.numbersIdempotent ?? true,
+      booleansIdempotent: options.booleansIdempotent ?? true,
+    };
+    if (graph) {
+      this.read(graph);
+    }
+  }
+
+  /**
+   * Get the current primitive idempotency configuration
+   */
+  getOptions(): Required<PythonInstanceOptions> {
+    return { ...this.options };
+  }
+
+  // ── Reading ──────────────────────────────────────────────────────────
+
+  private read(graph: PythonValueGraph): void {
+    const objects = graph.objects ?? {};
+    for (const [id, object] of Object.entries(objects)) {
+      this.atoms.set(id, { id, type: object.type, label: object.type });
+      if (object.mro && object.mro.length > 0) {
+        this.mros.set(object.type, object.mro);
+      }
+    }
+
+    const valueAtom = (value: PythonValue): string => {
+      if (isRef(value)) {
+        if (!(value.ref in objects)) {
+          throw new Error(`Python value graph refers to missing object "${value.ref}"`);
+        }
+        return value.ref;
+      }
+      return this.primitiveAtom(value);
+    };
+
+    for (const [id, object] of Object.entries(objects)) {
+      object.items?.forEach((item, index) => {
+        const relationId = SET_TYPES.has(object.type) ? MEMBER_RELATION : String(index);
+        this.storeTuple(relationId, { atoms: [id, valueAtom(item)], types: [] });
+      });
+      for (const [key, value] of object.entries ?? []) {
+        if (typeof key === 'string') {
+          this.storeTuple(key, { atoms: [id, valueAtom(value)], types: [] });
+        } else {
+          this.storeTuple(ITEMS_RELATION, { atoms: [id, valueAtom(key), valueAtom(value)], types: [] });
+        }
+      }
+      for (const [name, value] of Object.entries(object.attrs ?? {})) {
+        this.storeTuple(name, { atoms: [id, valueAtom(value)], types: [] });
+      }
+    }
+
+    this.rootId = valueAtom(graph.root);
+  }
+
+  /** The atom for a primitive value, shared with an equal one when the options say so. */
+  private primitiveAtom(value: Exclude<PythonValue, { ref: string }>): string {
+    let type: string;
+    let label: string;
+    if (value === null) {
+      type = 'NoneType';
+      label = 'None';
+    } else if (typeof value === 'boolean') {
+      type = 'bool';
+      label = value ? 'True' : 'False';
+    } else if (isTaggedInt(value)) {
+      if (typeof value.int !== 'string' || !/^-?\d+$/.test(value.int)) {
+        throw new Error(`Python value graph has an int that is not a decimal integer: ${JSON.stringify(value.int)}`);
+      }
+      type = 'int';
+      label = BigInt(value.int).toString();
+    } else if (isTaggedFloat(value)) {
+      type = 'float';
+      label = String(value.float);
+    } else if (Number.isInteger(value)) {
+      // Digits, never `1e+21`: an untagged big int is already rounded, but
+      // still prints as an int.
+      type = 'int';
+      label = BigInt(value).toString();
+    } else if (typeof value === 'number') {
+      type = 'float';
+      label = String(value);
+    } else {
+      type = 'str';
+      label = value;
+    }
+
+    const shared = type === 'NoneType'
+      || (type === 'str' && this.options.stringsIdempotent)
+      || ((type === 'int' || type === 'float') && this.options.numbersIdempotent)
+      || (type === 'bool' && this.options.booleansIdempotent);
+    if (shared) {
+      const existing = this.primitives.get(primitiveKey(type, label));
+      if (existing !== undefined) return existing;
+    }
+
+    let id: string;
+    do {
+      id = `${type}$${this.valueCounter++}`;
+    } while (this.atoms.has(id));
+    this.storeAtom({ id, type, label });
+    return id;
+  }
+
+  private storeAtom(atom: IAtom): void {
+    this.atoms.set(atom.id, atom);
+    if (atom.type in PRIMITIVE_MRO) {
+      const key = primitiveKey(atom.type, atom.label);
+      if (!this.primitives.has(key)) this.primitives.set(key, atom.id);
+    }
+  }
+
+  /** Forget an atom's place as its value's atom, handing it to an equal one if any. */
+  private forgetPrimitive(atom: IAtom): void {
+    const key = primitiveKey(atom.type, atom.label);
+    if (this.primitives.get(key) !== atom.id) return;
+    this.primitives.delete(key);
+    const next = this.getAtoms().find(a => a.type === atom.type && a.label === atom.label);
+    if (next) this.primitives.set(key, next.id);
+  }
+
+  // ── Types ────────────────────────────────────────────────────────────
+
+  private hierarchy(typeId: string): string[] {
+    const mro = PRIMITIVE_MRO[typeId] ?? this.mros.get(typeId) ?? [typeId, 'object'];
+    const chain = mro[0] === typeId ? [...mro] : [typeId, ...mro];
+    if (chain[chain.length - 1] !== 'object' && typeId !== 'object') chain.push('object');
+    return chain;
+  }
+
+  private buildIType(typeId: string): IType {
+    return {
+      id: typeId,
+      types: this.hierarchy(typeId),
+      atoms: this.getAtoms().filter(atom => atom.type === typeId),
+      isBuiltin: typeId in PRIMITIVE_MRO || typeId === 'object',
+    };
+  }
+
+  // ── IDataInstance implementation ─────────────────────────────────────
+
+  getAtoms(): readonly IAtom[] {
+    return Array.from(this.atoms.values());
+  }
+
+  getRelations(): readonly IRelation[] {
+    return Array.from(this.relations.values());
+  }
+
+  /** Every type in use and every class on their MROs. */
+  getTypes(): readonly IType[] {
+    const typeIds = new Set<string>();
+    this.atoms.forEach(atom => this.hierarchy(atom.type).forEach(id => typeIds.add(id)));
+    return [...typeIds].map(id => this.buildIType(id));
+  }
+
+  getAtomType(atomId: string): IType {
+    const atom = this.atoms.get(atomId);
+    if (!atom) {
+      throw new Error(`Atom with id '${atomId}' not found`);
+    }
+    return this.buildIType(atom.type);
+  }
+
+  /**
+   * Generates a graphlib Graph: each atom a node, each tuple an edge from its
+   * first atom to its last, labelled with the relation and the labels of any
+   * atoms between — `items['k']`-style for a dict's non-string keys.
+   */
+  generateGraph(hideDisconnected = false, hideDisconnectedBuiltIns = false): Graph {
+    const graph = new Graph({ directed: true, multigraph: true });
+    this.atoms.forEach(atom => graph.setNode(atom.id, { label: atom.label }));
+
+    this.relations.forEach(relation => {
+      relation.tuples.forEach(tuple => {
+        if (tuple.atoms.length < 2) return;
+        const middle = tuple.atoms.slice(1, -1).map(id => this.atoms.get(id)?.label ?? id);
+        const label = middle.length > 0 ? `${relation.name}[${middle.join(', ')}]` : relation.name;
+        graph.setEdge(tuple.atoms[0], tuple.atoms[tuple.atoms.length - 1], label, generateEdgeId(relation, tuple));
+      });
+    });
+
+    if (hideDisconnected || hideDisconnectedBuiltIns) {
+      graph.nodes().forEach(nodeId => {
+        const isDisconnected = (graph.inEdges(nodeId) ?? []).length === 0 && (graph.outEdges(nodeId) ?? []).length === 0;
+        if (!isDisconnected) return;
+        if (hideDisconnected || (this.getAtomType(nodeId).isBuiltin && hideDisconnectedBuiltIns)) {
+          graph.removeNode(nodeId);
+        }
+      });
+    }
+    return graph;
+  }
+
+  // ── IInputDataInstance implementation ────────────────────────────────
+
+  /**
+   * @throws {Error} If an atom with this id already exists.
+   */
+  addAtom(atom: IAtom): void {
+    if (this.atoms.has(atom.id)) {
+      throw new Error(`Atom with id '${atom.id}' already exists`);
+    }
+    this.storeAtom(atom);
+    this.emitEvent({ type: 'atomAdded', data: { atom } });
+  }
+
+  /**
+   * Removes an atom and every tuple it appears in.
+   * @throws {Error} If there is no such atom.
+   */
+  removeAtom(id: string): void {
+    const atom = this.atoms.get(id);
+    if (!atom) {
+      throw new Error(`Atom with id '${id}' does not exist`);
+    }
+    this.atoms.delete(id);
+    this.forgetPrimitive(atom);
+    this.relations.forEach(relation => {
+      relation.tuples = relation.tuples.filter(tuple => !tuple.atoms.includes(id));
+    });
+    if (this.rootId === id) {
+      this.rootId = undefined;
+    }
+    this.emitEvent({ type: 'atomRemoved', data: { atomId: id } });
+  }
+
+  /**
+   * Adds a tuple, creating the relation if it is new. Adding a tuple the
+   * relation already holds changes nothing.
+   * @throws {Error} If the tuple refers to an atom that does not exist.
+   */
+  addRelationTuple(relationId: string, tuple: ITuple): void {
+    const missing = tuple.atoms.find(id => !this.atoms.has(id));
+    if (missing !== undefined) {
+      throw new Error(`Cannot add to ${relationId}: atom '${missing}' does not exist`);
+    }
+    const stored = this.storeTuple(relationId, tuple);
+    if (stored) {
+      this.emitEvent({ type: 'relationTupleAdded', data: { relationId, tuple: stored } });
+    }
+  }
+
+  /**
+   * @throws {Error} If the relation does not hold the tuple.
+   */
+  removeRelationTuple(relationId: string, t: ITuple): void {
+    const relation = this.relations.get(relationId);
+    const index = relation?.tuples.findIndex(tuple => this.sameAtoms(tuple, t)) ?? -1;
+    if (!relation || index < 0) {
+      throw new Error(`Relation ${relationId} has no tuple (${t.atoms.join(', ')})`);
+    }
+    relation.tuples.splice(index, 1);
+    if (relation.tuples.length === 0) {
+      this.relations.delete(relationId);
+    }
+    this.emitEvent({ type: 'relationTupleRemoved', data: { relationId, tuple: t } });
+  }
+
+  private sameAtoms(a: ITuple, b: ITuple): boolean {
+    return a.atoms.length === b.atoms.length && a.atoms.every((id, i) => id === b.atoms[i]);
+  }
+
+  /** Store a tuple, settled against its relation; undefined if it was already there. */
+  private storeTuple(relationId: string, tuple: ITuple): ITuple | undefined {
+    let relation = this.relations.get(relationId);
+    if (relation?.tuples.some(t => this.sameAtoms(t, tuple))) {
+      return undefined;
+    }
+    const settled = settleTupleTypes(tuple, relation, id => this.atoms.get(id)?.type);
+    if (!relation) {
+      relation = { id: relationId, name: relationId, types: settled.relationTypes, tuples: [] };
+      this.relations.set(relationId, relation);
+    } else {
+      relation.types = settled.relationTypes;
+    }
+    relation.tuples.push(settled.tuple);
+    return settled.tuple;
+  }
+
+  /**
+   * Adds the atoms and tuples of another instance, renaming atoms whose ids
+   * are taken. With `unifyBuiltIns`, a primitive is the existing atom of the
+   * same type and value, when there is one.
+   *
+   * @returns True if nothing had to be renamed.
+   */
+  addFromDataInstance(dataInstance: IDataInstance, unifyBuiltIns: boolean): boolean {
+    const idRemap = new Map<string, string>();
+    let renamed = false;
+
+    if (dataInstance instanceof PythonDataInstance) {
+      dataInstance.mros.forEach((mro, type) => {
+        if (!this.mros.has(type)) this.mros.set(type, mro);
+      });
+    }
+
+    for (const atom of dataInstance.getAtoms()) {
+      if (unifyBuiltIns && atom.type in PRIMITIVE_MRO) {
+        const existing = this.primitives.get(primitiveKey(atom.type, atom.label));
+        if (existing !== undefined) {
+          idRemap.set(atom.id, existing);
+          continue;
+        }
+      }
+      let newId = atom.id;
+      for (let counter = 1; this.atoms.has(newId); counter++) {
+        newId = `${atom.id}_${counter}`;
+      }
+      renamed ||= newId !== atom.id;
+      idRemap.set(atom.id, newId);
+      this.addAtom({ ...atom, id: newId });
+    }
+
+    for (const relation of dataInstance.getRelations()) {
+      for (const tuple of relation.tuples) {
+        this.addRelationTuple(relation.id, {
+          atoms: tuple.atoms.map(id => idRemap.get(id) ?? id),
+          types: tuple.types,
+        });
+      }
+    }
+    return !renamed;
+  }
+
+  // ── reify ────────────────────────────────────────────────────────────
+
+  /**
+   * The value as a Python expression that builds it:
+   *
+   * - primitives: `5`, `2.5`, `float('inf')`, `'hi'`, `True`, `None`
+   * - containers: `[a, b]`, `(a,)`, `{'k': v}`, `{a, b}`, `set()`,
+   *   `frozenset({a})`
+   * - other objects: `Point(x=1, y=2.5)`, attributes in order, as a
+   *   dataclass or keyword constructor takes them; an attribute with several
+   *   values is a list
+   *
+   * The value is the graph's root while that atom exists; otherwise the atom
+   * nothing points to, and several such atoms make a list. An expression
+   * cannot share or loop: a shared object is printed at each use, and a
+   * cycle prints `...` where it closes, as `repr` does.
+   *
+   * @param rootId - The atom to print, instead of the root.
+   */
+  reify(rootId?: string): string {
+    // source → relation → tuples' remaining atoms, in the order they were added.
+    const fields = new Map<string, Map<string, string[][]>>();
+    const targets = new Set<string>();
+    this.relations.forEach(relation => {
+      relation.tuples.forEach(tuple => {
+        if (tuple.atoms.length < 2) return;
+        const [src, ...rest] = tuple.atoms;
+        rest.forEach(id => targets.add(id));
+        if (!fields.has(src)) fields.set(src, new Map());
+        const byField = fields.get(src)!;
+        byField.set(relation.id, [...(byField.get(relation.id) ?? []), rest]);
+      });
+    });
+
+    const onPath = new Set<string>();
+    const render = (id: string): string => {
+      const atom = this.atoms.get(id)!;
+      const primitive = this.renderPrimitive(atom);
+      if (primitive !== undefined) return primitive;
+      if (onPath.has(id)) return '...';
+
+      onPath.add(id);
+      const byField = fields.get(id) ?? new Map<string, string[][]>();
+      const last = (name: string) => byField.get(name)!.map(rest => rest[rest.length - 1]);
+      const one = (name: string) => {
+        const values = last(name).map(render);
+        return values.length === 1 ? values[0] : `[${values.join(', ')}]`;
+      };
+      const indices = [...byField.keys()].filter(name => /^\d+$/.test(name)).sort(compareIndices);
+
+      let out: string;
+      if (SEQUENCE_TYPES.has(atom.type)) {
+        const elements = indices.flatMap(name => last(name).map(render));
+        out = atom.type === 'list'
+          ? `[${elements.join(', ')}]`
+          : `(${elements.join(', ')}${elements.length === 1 ? ',' : ''})`;
+      } else if (SET_TYPES.has(atom.type)) {
+        const elements = byField.has(MEMBER_RELATION) ? last(MEMBER_RELATION).map(render) : [];
+        const set = elements.length > 0 ? `{${elements.join(', ')}}` : '';
+        out = atom.type === 'set' ? set || 'set()' : `frozenset(${set})`;
+      } else if (atom.type === 'dict') {
+        // A string key 'items' is a binary tuple of the same relation.
+        const entries = [...byField.keys()].flatMap(name => name === ITEMS_RELATION
+          ? byField.get(name)!.map(rest => rest.length === 2
+            ? `${render(rest[0])}: ${render(rest[1])}`
+            : `${pythonStringLiteral(name)}: ${render(rest[0])}`)
+          : [`${pythonStringLiteral(name)}: ${one(name)}`]);
+        out = `{${entries.join(', ')}}`;
+      } else {
+        const args = [...byField.keys()].map(name => `${name}=${one(name)}`);
+        out = `${atom.type}(${args.join(', ')})`;
+      }
+      onPath.delete(id);
+      return out;
+    };
+
+    const explicit = rootId ?? this.rootId;
+    if (explicit !== undefined && this.atoms.has(explicit)) return render(explicit);
+    const ids = [...this.atoms.keys()];
+    if (ids.length === 0) return 'None';
+    const roots = ids.filter(id => !targets.has(id));
+    if (roots.length === 1) return render(roots[0]);
+    if (roots.length === 0) {
+      // Every atom is pointed to: start at the first with fields.
+      return render(ids.find(id => fields.has(id)) ?? ids[0]);
+    }
+    return `[${roots.map(render).join(', ')}]`;
+  }
+
+  /** The literal for a primitive, or undefined for an object. */
+  private renderPrimitive(atom: IAtom): string | undefined {
+    switch (atom.type) {
+      case 'int':
+      case 'bool':
+        return atom.label;
+      case 'NoneType':
+        return 'None';
+      case 'float':
+        if (atom.label === 'inf' || atom.label === '-inf' || atom.label === 'nan') {
+          return `float('${atom.label}')`;
+        }
+        return /[.eE]/.test(atom.label) ? atom.label : `${atom.label}.0`;
+      case 'str':
+        return pythonStringLiteral(atom.label);
+      default:
+        return undefined;
+    }
+  }
+}
+
+/**
+ * Factory function to create a PythonDataInstance from a value graph's JSON.
+ *
+ * @example
+ * ```typescript
+ * const instance = createPythonDataInstance(
+ *   '{"root": {"ref": "1"}, "objects": {"1": {"type": "list", "items": [1, 2]}}}'
+ * );
+ * instance.reify(); // '[1, 2]'
+ * ```
+ */
+export const createPythonDataInstance = (
+  json: string,
+  options: PythonInstanceOptions = {}
+): PythonDataInstance => {
+  let graph: PythonValueGraph;
+  try {
+    graph = JSON.parse(json) as PythonValueGraph;
+  } catch (error) {
+    throw new Error(`Failed to parse Python value graph JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  return new PythonDataInstance(graph, options);
+};
+
+/**
+ * Type guard to check if an IInputDataInstance is a PythonDataInstance
+ */
+export const isPythonDataInstance = (instance: IInputDataInstance): instance is PythonDataInstance => {
+  return instance instanceof PythonDataInstance;
+};
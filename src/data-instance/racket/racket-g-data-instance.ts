@@ -1,243 +1,552 @@
-import { Graph } from "graphlib";
-import { IAtom, IDataInstance, IRelation, ITuple, IType } from "../interfaces";
-
-/////// TODO: THis is still a work in progress.
-/// FOr example, lists are still being collapsed in places (id vs name/label, etc).
-
-
-
+import { Graph } from 'graphlib';
+import { IAtom, IDataInstance, IInputDataInstance, IRelation, ITuple, IType } from '../interfaces';
+import { DataInstanceEventEmitter } from '../data-instance-event-emitter';
+import { settleTupleTypes } from '../tuple-types';
 
 /**
- * Atom structure as found in exampledatum.json
+ * An atom as the Racket side emits it. `id` is the atom's identity and what
+ * relations refer to; `label` is only what is drawn.
  */
-interface RacketGAtom {
-    id: string;
+export interface RacketGAtom {
+    id: string | number;
     label: string;
     type: string;
 }
 
+/** A field edge as the Racket side emits it: `src`'s field `label` holds `dst`. */
+export interface RacketGRelation {
+    src: string | number;
+    dst: string | number;
+    label: string;
+}
+
 /**
- * Relation structure as found in exampledatum.json
+ * A struct type: its supertype (`#:super`, or the parent in
+ * `(struct child parent (...))`) and its own fields in declaration order.
  */
-interface RacketGRelation {
-    src: string;
-    dst: string;
-    label: string;
+export interface RacketStructType {
+    name: string;
+    super?: string;
+    fields?: string[];
+}
+
+/** The datum a Racket program emits for a value. */
+export interface RacketGDatum {
+    atoms: RacketGAtom[];
+    relations: RacketGRelation[];
+    /** The struct types the value's atoms use; without them every struct is flat. */
+    structs?: RacketStructType[];
 }
 
+/** The root of every type's hierarchy, as in Typed Racket. */
+const ROOT_TYPE = 'Any';
+
+/** Atomic values: drawn as their label, hideable when disconnected. */
+const BUILTIN_TYPES = new Set(['Number', 'String', 'Symbol', 'Boolean', 'Char', 'Null', 'Void', ROOT_TYPE]);
+
+/** Sequences, whose elements are their edges, keyed by position. */
+const SEQUENCE_TYPES = new Set(['List', 'Vector']);
+
+/** `cons` cells are a struct with two fields as far as the instance is concerned. */
+const PAIR_STRUCT: RacketStructType = { name: 'Pair', fields: ['car', 'cdr'] };
+
 export function generateEdgeId(
     relation: IRelation,
     tuple: ITuple
 ): string {
-
-    const relationId = relation.id;
-    const atoms = tuple.atoms;
-    return `${relationId}:${atoms.join('->')}`;
+    return `${relation.id}:${tuple.atoms.join('->')}`;
 }
 
+/** Numeric-aware comparison so "2" sorts before "10". */
+function compareFieldNames(a: string, b: string): number {
+    const na = /^\d+$/.test(a);
+    const nb = /^\d+$/.test(b);
+    if (na && nb) return parseInt(a, 10) - parseInt(b, 10);
+    if (na !== nb) return na ? -1 : 1;
+    return 0;
+}
 
-function atomListToTuple(atoms: IAtom[]): ITuple {
-
-    return {
-        atoms: atoms.map(a => a.id), // name or ID?
-        types: atoms.map(a => a.type)
-    };
+function racketStringLiteral(s: string): string {
+    return '"' + s
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, '\\n')
+        .replace(/\r/g, '\\r')
+        .replace(/\t/g, '\\t') + '"';
 }
 
+const NAMED_CHARS: Record<string, string> = { ' ': 'space', '\n': 'newline', '\t': 'tab', '\0': 'nul' };
+
 /**
- * Adapts a RacketG-style datum to the IDataInstance interface.
+ * Adapts a value emitted by a Racket program — atoms, field edges, and the
+ * struct types involved — to `IInputDataInstance`, so it can be drawn and
+ * edited in `<structured-input-graph>` and copied back with `reify()`.
+ *
+ * - A struct's type hierarchy follows its `super` chain up to `Any`.
+ * - `Number`, `String`, `Symbol`, `Boolean`, `Char`, `Null` and `Void` atoms
+ *   are built-in.
+ * - A `List` or `Vector` atom's edges are its elements, whatever the datum
+ *   labels them: each becomes a relation named by its position (`0`, `1`,
+ *   …), so order survives and `(list 'a 'a)` keeps both elements.
+ * - A `Pair` atom has fields `car` and `cdr`.
+ *
+ * @example
+ * ```typescript
+ * const instance = new RacketGDataInstance({
+ *   structs: [{ name: 'shape', fields: ['name'] }, { name: 'circle', super: 'shape', fields: ['r'] }],
+ *   atoms: [
+ *     { id: 0, label: 'circle', type: 'circle' },
+ *     { id: 1, label: 'sun', type: 'String' },
+ *     { id: 2, label: '3', type: 'Number' },
+ *   ],
+ *   relations: [{ src: 0, dst: 1, label: 'name' }, { src: 0, dst: 2, label: 'r' }],
+ * });
+ * instance.getAtomType('0').types; // ['circle', 'shape', 'Any']
+ * instance.reify();                 // '(circle "sun" 3)'
+ * ```
  */
-export class RacketGDataInstance implements IDataInstance {
-    private readonly atoms: IAtom[];
-    private readonly types: IType[];
-    private readonly relations: IRelation[];
+export class RacketGDataInstance extends DataInstanceEventEmitter implements IInputDataInstance {
+    private readonly atoms = new Map<string, IAtom>();
+    private readonly relations = new Map<string, IRelation>();
+    private readonly structs = new Map<string, RacketStructType>([[PAIR_STRUCT.name, PAIR_STRUCT]]);
 
     /**
-     * Construct from a datum in the exampledatum.json format.
-     * @param datum - The parsed JSON object
+     * @param datum - The parsed datum; empty when omitted, to build from scratch.
+     * @throws {Error} If two atoms share an id or an edge refers to an atom that does not exist.
      */
-    constructor(datum: { atoms: RacketGAtom[]; relations: RacketGRelation[] }) {
-
-
-
-        // Atoms
-        this.atoms = datum.atoms.map(atom => 
-            {
-                return {
-                    id: String(atom.id), // Using label as ID. We could change this later.
-                    label : atom.label,
-                    type: atom.type
-                };
-            });
-        
-
+    constructor(datum: RacketGDatum = { atoms: [], relations: [] }) {
+        super();
 
+        for (const struct of datum.structs ?? []) {
+            this.structs.set(struct.name, struct);
+        }
 
-        let typeMap = new Map<string, IAtom[]>();
-        this.atoms.forEach(atom => {
-            if (!typeMap.has(atom.type)) {
-                typeMap.set(atom.type, []);
+        for (const { id, label, type } of datum.atoms) {
+            const atomId = String(id);
+            if (this.atoms.has(atomId)) {
+                throw new Error(`Duplicate atom id: ${atomId}`);
             }
-            typeMap.get(atom.type)!.push(atom);
-        });
-
-        // Now create types from the atom map
-        this.types = Array.from(typeMap.entries()).map(([typeId, atoms]) => ({
-            id: typeId,
-            types: [typeId], // For simplicity, type hierarchy is just the type itself
-            atoms: atoms,
-            isBuiltin: false // Assuming no built-in types in this example
-        }));
-
-
-
-        // Group relations by label
-        const relationMap = new Map<string, { label: string; tuples: ITuple[]; types: string[] }>();
-
-        datum.relations.forEach(rel => {
+            this.atoms.set(atomId, { id: atomId, label: String(label), type });
+        }
 
+        // Positions of each sequence's elements so far, in datum order.
+        const positions = new Map<string, number>();
+        for (const rel of datum.relations) {
             const src = String(rel.src);
             const dst = String(rel.dst);
-
-
-            const srcAtom = this.atoms.find(atom => atom.id === src);
-            const dstAtom = this.atoms.find(atom => atom.id === dst);
-            if (!srcAtom || !dstAtom) {
+            const srcAtom = this.atoms.get(src);
+            if (!srcAtom || !this.atoms.has(dst)) {
                 throw new Error(`Relation references non-existent atoms: ${rel.src} or ${rel.dst}`);
             }
-            if (!relationMap.has(rel.label)) {
-                relationMap.set(rel.label, {
-                    label: rel.label,
-                    tuples: [],
-                    types: [srcAtom.type, dstAtom.type]
-                });
-            }
-            relationMap.get(rel.label)!.tuples.push(atomListToTuple([srcAtom, dstAtom]));
-        });
-
-        // Now create IRelation[] from the grouped map
-        this.relations = Array.from(relationMap.entries()).map(([label, { tuples, types }]) => ({
-            id: label,
-            name: label,
-            types,
-            tuples
-        }));
 
+            let relationId = rel.label;
+            if (SEQUENCE_TYPES.has(srcAtom.type) && !/^\d+$/.test(rel.label)) {
+                const position = positions.get(src) ?? 0;
+                positions.set(src, position + 1);
+                relationId = String(position);
+            }
+            this.storeTuple(relationId, { atoms: [src, dst], types: [] });
+        }
+    }
 
+    // ── Types ────────────────────────────────────────────────────────────
 
+    /** `[type, super, …, Any]`, stopping at a cycle in the declared supertypes. */
+    private hierarchy(typeId: string): string[] {
+        const chain = [typeId];
+        let struct = this.structs.get(typeId);
+        while (struct?.super && !chain.includes(struct.super)) {
+            chain.push(struct.super);
+            struct = this.structs.get(struct.super);
+        }
+        if (typeId !== ROOT_TYPE) chain.push(ROOT_TYPE);
+        return chain;
+    }
 
+    private buildIType(typeId: string): IType {
+        return {
+            id: typeId,
+            types: this.hierarchy(typeId),
+            atoms: this.getAtoms().filter(atom => atom.type === typeId),
+            isBuiltin: BUILTIN_TYPES.has(typeId),
+        };
+    }
 
+    /**
+     * The fields a struct's constructor takes, in order: the supertype's
+     * first, as Racket lays them out.
+     */
+    private constructorFields(typeId: string): string[] {
+        return this.hierarchy(typeId)
+            .reverse()
+            .flatMap(id => this.structs.get(id)?.fields ?? []);
+    }
 
+    // ── IDataInstance implementation ─────────────────────────────────────
 
+    getAtomType(id: string): IType {
+        const atom = this.atoms.get(id);
+        if (!atom) {
+            throw new Error(`Atom with ID ${id} not found`);
+        }
+        return this.buildIType(atom.type);
+    }
 
+    /** Every type in use, the declared struct types, and their supertypes. */
+    getTypes(): readonly IType[] {
+        const typeIds = new Set<string>();
+        const add = (typeId: string) => this.hierarchy(typeId).forEach(id => typeIds.add(id));
+        this.atoms.forEach(atom => add(atom.type));
+        this.structs.forEach((_, name) => {
+            if (name !== PAIR_STRUCT.name) add(name);
+        });
+        return [...typeIds].map(id => this.buildIType(id));
+    }
 
+    getAtoms(): readonly IAtom[] {
+        return Array.from(this.atoms.values());
+    }
 
+    getRelations(): readonly IRelation[] {
+        return Array.from(this.relations.values());
     }
 
     /**
-     * Get the type of an atom by its ID.
+     * Generate a graphlib Graph from the data instance: each atom a node, each
+     * tuple an edge from its first atom to its last, labelled with the
+     * relation and the labels of any atoms between.
      */
-    getAtomType(id: string): IType {
+    generateGraph(hideDisconnected = false, hideDisconnectedBuiltIns = false): Graph {
+        const graph = new Graph({ directed: true, multigraph: true, compound: true });
 
-        const atom = this.atoms.find(a => a.id === id);
-        if (!atom) {
-            throw new Error(`Atom with ID ${id} not found`);
-        }
+        this.atoms.forEach(atom => {
+            graph.setNode(atom.id, { label: atom.label });
+        });
 
-        // THis is **super** defensive, and may not be good.
-        return this.types.find(t => t.id === atom.type) || {
-            id: atom.type,
-            types: [atom.type], // Assuming type hierarchy is just the type itself
-            atoms: [atom],
-            isBuiltin: false // Assuming no built-in types in this example
-        };
+        this.relations.forEach(relation => {
+            relation.tuples.forEach(tuple => {
+                if (tuple.atoms.length < 2) return;
+                const middle = tuple.atoms.slice(1, -1).map(id => this.atoms.get(id)?.label ?? id);
+                const label = relation.name + (middle.length > 0 ? `[${middle.join(', ')}]` : '');
+                graph.setEdge(tuple.atoms[0], tuple.atoms[tuple.atoms.length - 1], label, generateEdgeId(relation, tuple));
+            });
+        });
+
+        if (hideDisconnected || hideDisconnectedBuiltIns) {
+            graph.nodes().forEach(node => {
+                const isDisconnected = (graph.inEdges(node) ?? []).length === 0 && (graph.outEdges(node) ?? []).length === 0;
+                if (!isDisconnected) return;
+                if (hideDisconnected || (BUILTIN_TYPES.has(this.atoms.get(node)!.type) && hideDisconnectedBuiltIns)) {
+                    graph.removeNode(node);
+                }
+            });
+        }
+        return graph;
     }
 
+    // ── IInputDataInstance implementation ────────────────────────────────
+
     /**
-     * Get all types in the instance.
+     * @throws {Error} If an atom with this id already exists.
      */
-    getTypes(): readonly IType[] {
-        return this.types;
+    addAtom(atom: IAtom): void {
+        if (this.atoms.has(atom.id)) {
+            throw new Error(`Atom with id "${atom.id}" already exists`);
+        }
+        this.atoms.set(atom.id, atom);
+        this.emitEvent({ type: 'atomAdded', data: { atom } });
     }
 
     /**
-     * Get all atoms in the instance.
+     * Remove an atom and every tuple it appears in.
+     * @throws {Error} If there is no such atom.
      */
-    getAtoms(): readonly IAtom[] {
-        return this.atoms;
+    removeAtom(id: string): void {
+        if (!this.atoms.delete(id)) {
+            throw new Error(`Atom with id "${id}" does not exist`);
+        }
+        const sequences = new Set<string>();
+        this.relations.forEach(relation => {
+            relation.tuples = relation.tuples.filter(tuple => {
+                if (!tuple.atoms.includes(id)) return true;
+                if (this.isSequence(tuple.atoms[0])) sequences.add(tuple.atoms[0]);
+                return false;
+            });
+        });
+        this.emitEvent({ type: 'atomRemoved', data: { atomId: id } });
+        sequences.forEach(src => this.writeSequence(src, this.sequenceElements(src)));
     }
 
     /**
-     * Get all relations in the instance.
+     * Add a tuple, creating the relation if it is new. Adding a tuple the
+     * relation already holds changes nothing.
+     *
+     * An element added to a list or vector is positioned, as the constructor
+     * positions them: under a numeric relation it is inserted at that
+     * position, under any other it is appended. Later elements move up.
+     *
+     * @throws {Error} If the tuple refers to an atom that does not exist.
      */
-    getRelations(): readonly IRelation[] {
-        return this.relations;
+    addRelationTuple(relationId: string, tuple: ITuple): void {
+        const missing = tuple.atoms.find(id => !this.atoms.has(id));
+        if (missing !== undefined) {
+            throw new Error(`Cannot add to ${relationId}: atom "${missing}" does not exist`);
+        }
+        const [src, dst] = tuple.atoms;
+        if (tuple.atoms.length === 2 && this.isSequence(src)) {
+            const elements = this.sequenceElements(src);
+            const at = /^\d+$/.test(relationId) ? Math.min(Number(relationId), elements.length) : elements.length;
+            elements.splice(at, 0, dst);
+            this.writeSequence(src, elements);
+            return;
+        }
+        const stored = this.storeTuple(relationId, tuple);
+        if (stored) {
+            this.emitEvent({ type: 'relationTupleAdded', data: { relationId, tuple: stored } });
+        }
     }
 
-
     /**
-     * Generate a graphlib Graph from the data instance.
-     * 
-     * 
-     * TODO: This one is super behind the others for now.
-     * 
+     * Removing an element of a list or vector moves later elements down.
+     * @throws {Error} If the relation does not hold the tuple.
      */
-    generateGraph(hideDisconnected: boolean, hideDisconnectedBuiltIns: boolean): Graph {
-
-        const graph = new Graph({ directed: true, multigraph: true, compound: true });
-
-        this.atoms.forEach(atom => {
-            const nodeId = atom.id;
-            // Set node with label object
-            graph.setNode(nodeId, { label: atom.label });
-        });
+    removeRelationTuple(relationId: string, t: ITuple): void {
+        const relation = this.relations.get(relationId);
+        const index = relation?.tuples.findIndex(tuple => this.sameAtoms(tuple, t)) ?? -1;
+        if (!relation || index < 0) {
+            throw new Error(`Relation ${relationId} has no tuple (${t.atoms.join(', ')})`);
+        }
+        relation.tuples.splice(index, 1);
+        if (relation.tuples.length === 0) {
+            this.relations.delete(relationId);
+        }
+        this.emitEvent({ type: 'relationTupleRemoved', data: { relationId, tuple: t } });
+        if (t.atoms.length === 2 && this.isSequence(t.atoms[0])) {
+            this.writeSequence(t.atoms[0], this.sequenceElements(t.atoms[0]));
+        }
+    }
 
+    private isSequence(atomId: string): boolean {
+        return SEQUENCE_TYPES.has(this.atoms.get(atomId)?.type ?? '');
+    }
 
+    /** A sequence's elements in order: by position, then as added. */
+    private sequenceElements(src: string): string[] {
+        const positioned: Array<[number, string]> = [];
         this.relations.forEach(relation => {
-            // You can add custom logic for attributes, arity, etc.
-            const isAttribute = false; // Implement your own attribute detection if needed
+            if (!/^\d+$/.test(relation.id)) return;
+            relation.tuples.forEach(tuple => {
+                if (tuple.atoms.length === 2 && tuple.atoms[0] === src) {
+                    positioned.push([Number(relation.id), tuple.atoms[1]]);
+                }
+            });
+        });
+        return positioned.sort((a, b) => a[0] - b[0]).map(([, dst]) => dst);
+    }
 
-            if (!isAttribute) {
-                relation.tuples.forEach(tuple => {
-                    const edgeId = generateEdgeId(relation, tuple);
-                    const atoms = tuple.atoms;
+    /**
+     * Store a sequence's elements at positions 0, 1, …, announcing each
+     * tuple that moved, left or arrived.
+     */
+    private writeSequence(src: string, elements: string[]): void {
+        const removed: Array<[string, ITuple]> = [];
+        this.relations.forEach((relation, relationId) => {
+            if (!/^\d+$/.test(relationId)) return;
+            relation.tuples = relation.tuples.filter(tuple => {
+                const keep = tuple.atoms.length !== 2 || tuple.atoms[0] !== src
+                    || elements[Number(relationId)] === tuple.atoms[1];
+                if (!keep) removed.push([relationId, tuple]);
+                return keep;
+            });
+            if (relation.tuples.length === 0) this.relations.delete(relationId);
+        });
+        removed.forEach(([relationId, tuple]) =>
+            this.emitEvent({ type: 'relationTupleRemoved', data: { relationId, tuple } }));
+
+        elements.forEach((dst, position) => {
+            const relationId = String(position);
+            const stored = this.storeTuple(relationId, { atoms: [src, dst], types: [] });
+            if (stored) {
+                this.emitEvent({ type: 'relationTupleAdded', data: { relationId, tuple: stored } });
+            }
+        });
+    }
 
+    private sameAtoms(a: ITuple, b: ITuple): boolean {
+        return a.atoms.length === b.atoms.length && a.atoms.every((id, i) => id === b.atoms[i]);
+    }
 
-                    const sourceIndex = 0;
-                    const targetIndex = atoms.length - 1;
+    /** Store a tuple, settled against its relation; undefined if it was already there. */
+    private storeTuple(relationId: string, tuple: ITuple): ITuple | undefined {
+        let relation = this.relations.get(relationId);
+        if (relation?.tuples.some(t => this.sameAtoms(t, tuple))) {
+            return undefined;
+        }
+        const settled = settleTupleTypes(tuple, relation, id => this.atoms.get(id)?.type);
+        if (!relation) {
+            relation = { id: relationId, name: relationId, types: settled.relationTypes, tuples: [] };
+            this.relations.set(relationId, relation);
+        } else {
+            relation.types = settled.relationTypes;
+        }
+        relation.tuples.push(settled.tuple);
+        return settled.tuple;
+    }
 
-                    const source = atoms[sourceIndex];
-                    const target = atoms[targetIndex];
+    /**
+     * Add the atoms and tuples of another instance, renaming atoms whose ids
+     * are taken. With `unifyBuiltIns`, a built-in atom is the existing one of
+     * the same type and label, when there is one.
+     *
+     * @returns True if nothing had to be renamed.
+     */
+    addFromDataInstance(dataInstance: IDataInstance, unifyBuiltIns: boolean): boolean {
+        const idRemap = new Map<string, string>();
+        let renamed = false;
 
-                    if (source && target) {
-                        const betweenTuples = atoms.slice(1, -1).join(',');
-                        const tupleSuffix = betweenTuples.length > 0 ? `[${betweenTuples}]` : '';
-                        const label = relation.name + tupleSuffix;
+        if (dataInstance instanceof RacketGDataInstance) {
+            dataInstance.structs.forEach((struct, name) => {
+                if (!this.structs.has(name)) this.structs.set(name, struct);
+            });
+        }
 
-                        const source_node_id = source;
-                        const target_node_id = target;
+        for (const atom of dataInstance.getAtoms()) {
+            if (unifyBuiltIns && BUILTIN_TYPES.has(atom.type)) {
+                const existing = this.getAtoms().find(a => a.type === atom.type && a.label === atom.label);
+                if (existing) {
+                    idRemap.set(atom.id, existing.id);
+                    continue;
+                }
+            }
+            let newId = atom.id;
+            for (let counter = 1; this.atoms.has(newId); counter++) {
+                newId = `${atom.id}_${counter}`;
+            }
+            renamed ||= newId !== atom.id;
+            idRemap.set(atom.id, newId);
+            this.addAtom({ ...atom, id: newId });
+        }
 
-                        graph.setEdge(source_node_id, target_node_id, label, edgeId);
-                    }
+        for (const relation of dataInstance.getRelations()) {
+            for (const tuple of relation.tuples) {
+                this.addRelationTuple(relation.id, {
+                    atoms: tuple.atoms.map(id => idRemap.get(id) ?? id),
+                    types: tuple.types,
                 });
             }
-        });
+        }
+        return !renamed;
+    }
 
+    // ── reify ────────────────────────────────────────────────────────────
 
+    /**
+     * The value as a Racket expression that builds it:
+     *
+     * - primitives: `5`, `"hi"`, `'sym`, `#t`, `#\a`, `'()`, `(void)`
+     * - sequences: `(list a b)`, `(vector a b)`, and `(cons a d)` for a pair
+     * - structs: `(circle "sun" 3)`, fields in constructor order — the
+     *   supertype's first — when the struct types are known; a field with
+     *   several values is a `(list ...)`, and a declared field with none
+     *   prints `<missing field>` in its place
+     *
+     * The value is the atom nothing points to; several such atoms are
+     * wrapped in a `(list ...)`. As with Pyret's `reify()`, an expression
+     * cannot share or loop, so a shared value is printed at each use and a
+     * cycle prints `<cyclic>` where it closes.
+     *
+     * @param rootId - The atom to print, instead of inferring it.
+     */
+    reify(rootId?: string): string {
+        // source → relation → targets, in the order the tuples were added.
+        const fields = new Map<string, Map<string, string[]>>();
+        const targets = new Set<string>();
+        this.relations.forEach(relation => {
+            relation.tuples.forEach(tuple => {
+                if (tuple.atoms.length < 2) return;
+                const [src, ...rest] = tuple.atoms;
+                rest.forEach(id => targets.add(id));
+                if (!fields.has(src)) fields.set(src, new Map());
+                const byField = fields.get(src)!;
+                byField.set(relation.id, [...(byField.get(relation.id) ?? []), rest[rest.length - 1]]);
+            });
+        });
 
+        const onPath = new Set<string>();
+        const render = (id: string): string => {
+            const atom = this.atoms.get(id)!;
+            const primitive = this.renderPrimitive(atom);
+            if (primitive !== undefined) return primitive;
+            if (onPath.has(id)) return '<cyclic>';
+
+            onPath.add(id);
+            const byField = fields.get(id) ?? new Map<string, string[]>();
+            const value = (names: string[]) => names.map(name => {
+                const values = byField.get(name);
+                if (values === undefined) return `<missing ${name}>`;
+                return values.length === 1 ? render(values[0]) : `(list${values.map(v => ` ${render(v)}`).join('')})`;
+            });
 
-        graph.nodes().forEach(node => {
-            let outEdges = graph.outEdges(node) || [];
-            let inEdges = graph.inEdges(node) || [];
-            if (outEdges.length === 0 && inEdges.length === 0) {
-                const isBuiltin = this.getAtomType(node).isBuiltin;
-                if (hideDisconnected || (isBuiltin && hideDisconnectedBuiltIns)) {
-                    graph.removeNode(node);
-                }
+            let out: string;
+            if (SEQUENCE_TYPES.has(atom.type)) {
+                const elements = value([...byField.keys()].sort(compareFieldNames));
+                out = `(${atom.type.toLowerCase()}${elements.map(e => ` ${e}`).join('')})`;
+            } else {
+                const declared = this.constructorFields(atom.type);
+                const extra = [...byField.keys()].filter(f => !declared.includes(f));
+                const name = atom.type === PAIR_STRUCT.name ? 'cons' : atom.type;
+                out = `(${name}${value([...declared, ...extra]).map(v => ` ${v}`).join('')})`;
             }
-        });
-        return graph; // Return the graph as is for now, no filtering applied
+            onPath.delete(id);
+            return out;
+        };
+
+        if (rootId !== undefined && this.atoms.has(rootId)) return render(rootId);
+        const ids = [...this.atoms.keys()];
+        if (ids.length === 0) return "'()";
+        const roots = ids.filter(id => !targets.has(id));
+        if (roots.length === 1) return render(roots[0]);
+        if (roots.length === 0) {
+            // Every atom is pointed to: start at the first with fields.
+            return render(ids.find(id => fields.has(id)) ?? ids[0]);
+        }
+        return `(list${roots.map(id => ` ${render(id)}`).join('')})`;
     }
 
+    /** The literal for an atomic value, or undefined for a compound one. */
+    private renderPrimitive(atom: IAtom): string | undefined {
+        const label = atom.label;
+        switch (atom.type) {
+            case 'Number':
+                return label;
+            case 'String':
+                return racketStringLiteral(label);
+            case 'Symbol':
+                return label.startsWith("'") ? label : `'${label}`;
+            case 'Boolean':
+                return label === '#f' || label === 'false' || label === '#false' ? '#f' : '#t';
+            case 'Char':
+                return label.startsWith('#\\') ? label : `#\\${NAMED_CHARS[label] ?? label}`;
+            case 'Null':
+                return "'()";
+            case 'Void':
+                return '(void)';
+            default:
+                return undefined;
+        }
+    }
+}
 
-}
\ No newline at end of file
+/**
+ * Create a RacketGDataInstance from a datum, or an empty one to build from scratch.
+ */
+export const createRacketGDataInstance = (datum?: RacketGDatum): RacketGDataInstance => {
+    return new RacketGDataInstance(datum);
+};
+
+/**
+ * Type guard to check if an instance is a RacketGDataInstance.
+ */
+export const isRacketGDataInstance = (instance: IInputDataInstance): instance is RacketGDataInstance => {
+    return instance instanceof RacketGDataInstance;
+};
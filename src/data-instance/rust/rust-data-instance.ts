@@ -0,0 +1,731 @@
+import { Graph } from 'graphlib';
+import { IDataInstance, IInputDataInstance, IAtom, IRelation, ITuple, IType } from '../interfaces';
+import { DataInstanceEventEmitter } from '../data-instance-event-emitter';
+import { settleTupleTypes } from '../tuple-types';
+
+/**
+ * A Rust value as a host such as Caraspace serializes it: serde's JSON data
+ * model — `true`, numbers, strings, `null` for `None`, arrays for `Vec` —
+ * with a {@link RustNode} wherever the type matters.
+ */
+export type RustValue = null | boolean | number | string | RustValue[] | RustNode;
+
+/**
+ * A typed value.
+ *
+ * @example
+ * ```json
+ * { "type": "Tree", "variant": "Node", "fields": {
+ *     "left":  { "type": "Box", "value": { "type": "Tree", "variant": "Leaf" } },
+ *     "value": 5,
+ *     "right": { "type": "Rc", "id": "0x1", "value": { "type": "Tree", "variant": "Leaf" } } } }
+ * ```
+ */
+export interface RustNode {
+  /**
+   * The type: a struct or enum name; `Vec`, `Array`, `Tuple`, `HashMap`,
+   * `BTreeMap`; the wrappers `Box`, `Rc`, `Arc`, `Option`; or a primitive
+   * (`u8`, `f32`, `char`, `&str`, …) holding its `value`. `RefCell` is a
+   * wrapper too.
+   */
+  type: string;
+  /** An enum value's variant. */
+  variant?: string;
+  /** A struct's, or struct variant's, named fields, in declaration order. */
+  fields?: Record<string, RustValue>;
+  /** A tuple struct's or tuple variant's fields, or a sequence's elements. */
+  items?: RustValue[];
+  /** A map's `(key, value)` pairs. */
+  entries?: [RustValue, RustValue][];
+  /** A wrapper's contents — absent for `None` — or a primitive's value. */
+  value?: RustValue;
+  /**
+   * An `Rc`'s or `Arc`'s allocation. Every `Rc` with the same id is the same
+   * value, which only one of them needs to carry.
+   */
+  id?: string;
+}
+
+/** Primitive types: drawn as their value, and built-in. */
+const PRIMITIVE_TYPES = new Set([
+  'bool', 'char', 'String', '&str',
+  'i8', 'i16', 'i32', 'i64', 'i128', 'isize',
+  'u8', 'u16', 'u32', 'u64', 'u128', 'usize',
+  'f32', 'f64',
+]);
+
+const MAP_TYPES = new Set(['HashMap', 'BTreeMap']);
+/** Wrappers collapsed into what they hold. */
+const WRAPPER_TYPES = new Set(['Option', 'Box', 'RefCell']);
+/** Wrappers collapsed into what they hold, keeping their identity. */
+const SHARED_TYPES = new Set(['Rc', 'Arc']);
+
+/**
+ * The ternary `(map, key, value)` relation for keys that are not strings.
+ * Bracketed like an entry's path, so no field has its name; a string key that
+ * does goes through it like any other key.
+ */
+const ENTRIES_RELATION = '[entries]';
+
+/**
+ * The atom `None` is, where it cannot be no tuple: as a key or value of an
+ * entry. A variant of `Option`, built in like a primitive.
+ */
+const NONE_TYPE = 'Option::None';
+
+function isBuiltinType(type: string): boolean {
+  return PRIMITIVE_TYPES.has(type) || type === NONE_TYPE;
+}
+
+/** What a field held around its value, outermost first, e.g. `['Some', 'Box']`. */
+type Wrapper = 'Some' | 'Box' | 'RefCell' | 'Rc' | 'Arc';
+
+/** A field's wrappers, or that it held `None`. */
+interface Slot {
+  wrappers: Wrapper[];
+  none: boolean;
+}
+
+/** The wrappers around a map's keys and values: one type each, so one list each. */
+interface EntryWrappers {
+  key: Wrapper[];
+  value: Wrapper[];
+}
+
+export function generateEdgeId(relation: IRelation, tuple: ITuple): string {
+  return `${relation.id}:${tuple.atoms.join('->')}`;
+}
+
+function isNode(value: RustValue | undefined): value is RustNode {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function slotKey(atomId: string, relationId: string): string {
+  return `${atomId}\u0000${relationId}`;
+}
+
+function rustStringLiteral(s: string): string {
+  return '"' + s
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t')
+    .replace(/\0/g, '\\0') + '"';
+}
+
+/**
+ * Adapts a Rust value — a {@link RustValue}, as Caraspace serializes it —
+ * to `IInputDataInstance`, to be drawn, edited in `<structured-input-graph>`
+ * and read back as Rust with `reify()`.
+ *
+ * - A struct is an atom of its type. An enum value is an atom of its
+ *   variant, `Enum::Variant`, a subtype of `Enum` — so a selector on the enum
+ *   finds every variant.
+ * - Named fields are relations named after them; a tuple struct's, tuple
+ *   variant's or sequence's are named by index (`0`, `1`, …). A map's
+ *   entries under string keys are named by the key; others are
+ *   `(map, key, value)` tuples of `[entries]`, in which `None` is the atom
+ *   `Option::None`.
+ * - `Box` is collapsed: the field points at what it holds. So are `RefCell`
+ *   and `Some`, and `None` is no tuple at all. The instance remembers each field's wrappers,
+ *   so `reify()` writes them back — and writes `None` for an optional field
+ *   whose tuple was removed.
+ * - `Rc` and `Arc` are collapsed too, but keep their identity: every `Rc`
+ *   with the same id is one atom, so sharing shows as an atom with several
+ *   incoming edges.
+ * - Primitives are built-in atoms, one per type and value.
+ *
+ * Other atoms are identified by their path from the root (`$.left.0`), so the
+ * same place in two snapshots of a value is the same atom.
+ */
+export class RustDataInstance extends DataInstanceEventEmitter implements IInputDataInstance {
+  private readonly atoms = new Map<string, IAtom>();
+  private readonly relations = new Map<string, IRelation>();
+  /** Variant type (`Enum::Variant`) → enum. */
+  private readonly enums = new Map<string, string>();
+  /** The wrappers around each field's value, by {@link slotKey}; the root's under ''. */
+  private readonly slots = new Map<string, Slot>();
+  /** The wrappers around each map's non-string keys and their values, by map. */
+  private readonly entryWrappers = new Map<string, EntryWrappers>();
+  private rootId: string | undefined;
+
+  /**
+   * @param value - The value, or undefined for an empty instance.
+   * @throws {Error} If an `Rc` or `Arc` id is never given a value.
+   */
+  constructor(value?: RustValue) {
+    super();
+    if (value !== undefined) {
+      this.read(value);
+    }
+  }
+
+  // ── Reading ──────────────────────────────────────────────────────────
+
+  private read(root: RustValue): void {
+    const pendingShared = new Set<string>();
+
+    /** Strip wrappers off a value: what it holds, or undefined for `None`. */
+    const unwrap = (value: RustValue, wrappers: Wrapper[]): RustValue | undefined => {
+      while (isNode(value) && (WRAPPER_TYPES.has(value.type) || SHARED_TYPES.has(value.type))) {
+        if (value.type === 'Option') {
+          if (value.value === undefined || value.value === null) return undefined;
+          wrappers.push('Some');
+          value = value.value;
+        } else if (SHARED_TYPES.has(value.type)) {
+          wrappers.push(value.type as Wrapper);
+          return value;
+        } else {
+          wrappers.push(value.type as Wrapper);
+          if (value.value === undefined) {
+            throw new Error(`A ${value.type} must hold a value`);
+          }
+          value = value.value;
+        }
+      }
+      return value === null ? undefined : value;
+    };
+
+    /** The atom for a value at `path`, built if new. */
+    const build = (value: RustValue, path: string): string => {
+      if (!isNode(value) || !SHARED_TYPES.has(value.type)) {
+        return buildAt(value, path);
+      }
+      if (value.id === undefined) {
+        throw new Error(`An ${value.type} needs an id`);
+      }
+      const id = `${value.type.toLowerCase()}:${value.id}`;
+      if (this.atoms.has(id) || value.value === undefined) {
+        if (!this.atoms.has(id)) pendingShared.add(id);
+        return id;
+      }
+      const wrappers: Wrapper[] = [];
+      const inner = unwrap(value.value, wrappers);
+      if (inner === undefined) {
+        throw new Error(`An ${value.type} of None is not supported (${id})`);
+      }
+      pendingShared.delete(id);
+      if (wrappers.length > 0) {
+        this.slots.set(slotKey(id, ''), { wrappers, none: false });
+      }
+      return buildAt(inner, id, true);
+    };
+
+    /**
+     * The atom for an unwrapped value. Primitives are shared by type and
+     * value — except an allocation's, which keeps its own id.
+     */
+    const buildAt = (value: RustValue, id: string, allocated = false): string => {
+      if (Array.isArray(value)) {
+        value = { type: 'Vec', items: value };
+      }
+      if (!isNode(value) || PRIMITIVE_TYPES.has(value.type)) {
+        const [type, label] = isNode(value)
+          ? [value.type, String(value.value)]
+          : [this.jsonType(value as boolean | number | string), String(value)];
+        if (!allocated) {
+          return this.primitiveAtom(type, label);
+        }
+        this.atoms.set(id, { id, type, label });
+        return id;
+      }
+
+      const type = value.variant !== undefined ? `${value.type}::${value.variant}` : value.type;
+      if (value.variant !== undefined) {
+        this.enums.set(type, value.type);
+      }
+      this.atoms.set(id, { id, type, label: value.variant ?? value.type });
+
+      value.items?.forEach((item, index) => link(id, String(index), item, `${id}.${index}`));
+      for (const [name, field] of Object.entries(value.fields ?? {})) {
+        link(id, name, field, `${id}.${name}`);
+      }
+      value.entries?.forEach(([key, entry], index) => {
+        if (typeof key === 'string' && key !== ENTRIES_RELATION) {
+          link(id, key, entry, `${id}[${JSON.stringify(key)}]`);
+          return;
+        }
+        const keyId = entryPart(id, 'key', key, `${id}.key${index}`);
+        const valueId = entryPart(id, 'value', entry, `${id}[${index}]`);
+        this.storeTuple(ENTRIES_RELATION, { atoms: [id, keyId, valueId], types: [] });
+      });
+      return id;
+    };
+
+    /**
+     * The atom for a key or value of an `[entries]` tuple, remembering its
+     * wrappers for the map. `None` is an atom here: the tuple needs all three.
+     */
+    const entryPart = (mapId: string, side: keyof EntryWrappers, value: RustValue, path: string): string => {
+      const wrappers: Wrapper[] = [];
+      const inner = unwrap(value, wrappers);
+      if (inner === undefined) {
+        return this.noneAtom();
+      }
+      if (wrappers.length > 0) {
+        const remembered = this.entryWrappers.get(mapId) ?? { key: [], value: [] };
+        remembered[side] = wrappers;
+        this.entryWrappers.set(mapId, remembered);
+      }
+      return build(inner, path);
+    };
+
+    /** Link `src`'s field `relationId` to a value, remembering its wrappers. */
+    const link = (src: string, relationId: string, value: RustValue, path: string): void => {
+      const wrappers: Wrapper[] = [];
+      const inner = unwrap(value, wrappers);
+      if (inner === undefined) {
+        this.slots.set(slotKey(src, relationId), { wrappers, none: true });
+        return;
+      }
+      if (wrappers.length > 0) {
+        this.slots.set(slotKey(src, relationId), { wrappers, none: false });
+      }
+      this.storeTuple(relationId, { atoms: [src, build(inner, path)], types: [] });
+    };
+
+    const wrappers: Wrapper[] = [];
+    const inner = unwrap(root, wrappers);
+    this.slots.set('', { wrappers, none: inner === undefined });
+    if (inner !== undefined) {
+      this.rootId = build(inner, '$');
+    }
+
+    if (pendingShared.size > 0) {
+      throw new Error(`No value given for ${[...pendingShared].join(', ')}`);
+    }
+  }
+
+  private jsonType(value: boolean | number | string): string {
+    switch (typeof value) {
+      case 'boolean':
+        return 'bool';
+      case 'number':
+        return Number.isInteger(value) ? 'i64' : 'f64';
+      default:
+        return 'String';
+    }
+  }
+
+  private noneAtom(): string {
+    this.enums.set(NONE_TYPE, 'Option');
+    if (!this.atoms.has(NONE_TYPE)) {
+      this.atoms.set(NONE_TYPE, { id: NONE_TYPE, type: NONE_TYPE, label: 'None' });
+    }
+    return NONE_TYPE;
+  }
+
+  private primitiveAtom(type: string, label: string): string {
+    const id = `${type}:${label}`;
+    if (!this.atoms.has(id)) {
+      this.atoms.set(id, { id, type, label });
+    }
+    return id;
+  }
+
+  // ── Types ────────────────────────────────────────────────────────────
+
+  private hierarchy(typeId: string): string[] {
+    const enumType = this.enums.get(typeId);
+    return enumType ? [typeId, enumType] : [typeId];
+  }
+
+  private buildIType(typeId: string): IType {
+    return {
+      id: typeId,
+      types: this.hierarchy(typeId),
+      atoms: this.getAtoms().filter(atom => atom.type === typeId),
+      isBuiltin: isBuiltinType(typeId),
+    };
+  }
+
+  // ── IDataInstance implementation ─────────────────────────────────────
+
+  getAtoms(): readonly IAtom[] {
+    return Array.from(this.atoms.values());
+  }
+
+  getRelations(): readonly IRelation[] {
+    return Array.from(this.relations.values());
+  }
+
+  /** Every type in use, and the enums their variants belong to. */
+  getTypes(): readonly IType[] {
+    const typeIds = new Set<string>();
+    this.atoms.forEach(atom => this.hierarchy(atom.type).forEach(id => typeIds.add(id)));
+    return [...typeIds].map(id => this.buildIType(id));
+  }
+
+  getAtomType(atomId: string): IType {
+    const atom = this.atoms.get(atomId);
+    if (!atom) {
+      throw new Error(`Atom with id '${atomId}' not found`);
+    }
+    return this.buildIType(atom.type);
+  }
+
+  /**
+   * Generates a graphlib Graph: each atom a node, each tuple an edge from its
+   * first atom to its last, labelled with the relation and the labels of any
+   * atoms between.
+   */
+  generateGraph(hideDisconnected = false, hideDisconnectedBuiltIns = false): Graph {
+    const graph = new Graph({ directed: true, multigraph: true });
+    this.atoms.forEach(atom => graph.setNode(atom.id, { label: atom.label }));
+
+    this.relations.forEach(relation => {
+      relation.tuples.forEach(tuple => {
+        if (tuple.atoms.length < 2) return;
+        const middle = tuple.atoms.slice(1, -1).map(id => this.atoms.get(id)?.label ?? id);
+        const label = middle.length > 0 ? `${relation.name}[${middle.join(', ')}]` : relation.name;
+        graph.setEdge(tuple.atoms[0], tuple.atoms[tuple.atoms.length - 1], label, generateEdgeId(relation, tuple));
+      });
+    });
+
+    if (hideDisconnected || hideDisconnectedBuiltIns) {
+      graph.nodes().forEach(nodeId => {
+        const isDisconnected = (graph.inEdges(nodeId) ?? []).length === 0 && (graph.outEdges(nodeId) ?? []).length === 0;
+        if (!isDisconnected) return;
+        if (hideDisconnected || (isBuiltinType(this.atoms.get(nodeId)!.type) && hideDisconnectedBuiltIns)) {
+          graph.removeNode(nodeId);
+        }
+      });
+    }
+    return graph;
+  }
+
+  // ── IInputDataInstance implementation ────────────────────────────────
+
+  /**
+   * @throws {Error} If an atom with this id already exists.
+   */
+  addAtom(atom: IAtom): void {
+    if (this.atoms.has(atom.id)) {
+      throw new Error(`Atom with id '${atom.id}' already exists`);
+    }
+    this.atoms.set(atom.id, atom);
+    this.emitEvent({ type: 'atomAdded', data: { atom } });
+  }
+
+  /**
+   * Removes an atom and every tuple it appears in.
+   * @throws {Error} If there is no such atom.
+   */
+  removeAtom(id: string): void {
+    if (!this.atoms.delete(id)) {
+      throw new Error(`Atom with id '${id}' does not exist`);
+    }
+    this.relations.forEach(relation => {
+      relation.tuples = relation.tuples.filter(tuple => !tuple.atoms.includes(id));
+    });
+    for (const key of [...this.slots.keys()]) {
+      if (key.startsWith(`${id}\u0000`)) this.slots.delete(key);
+    }
+    this.entryWrappers.delete(id);
+    if (this.rootId === id) {
+      this.rootId = undefined;
+    }
+    this.emitEvent({ type: 'atomRemoved', data: { atomId: id } });
+  }
+
+  /**
+   * Adds a tuple, creating the relation if it is new. Adding a tuple the
+   * relation already holds changes nothing.
+   * @throws {Error} If the tuple refers to an atom that does not exist.
+   */
+  addRelationTuple(relationId: string, tuple: ITuple): void {
+    const missing = tuple.atoms.find(id => !this.atoms.has(id));
+    if (missing !== undefined) {
+      throw new Error(`Cannot add to ${relationId}: atom '${missing}' does not exist`);
+    }
+    const stored = this.storeTuple(relationId, tuple);
+    if (stored) {
+      this.emitEvent({ type: 'relationTupleAdded', data: { relationId, tuple: stored } });
+    }
+  }
+
+  /**
+   * Removing the tuple of an optional field leaves it `None`.
+   * @throws {Error} If the relation does not hold the tuple.
+   */
+  removeRelationTuple(relationId: string, t: ITuple): void {
+    const relation = this.relations.get(relationId);
+    const index = relation?.tuples.findIndex(tuple => this.sameAtoms(tuple, t)) ?? -1;
+    if (!relation || index < 0) {
+      throw new Error(`Relation ${relationId} has no tuple (${t.atoms.join(', ')})`);
+    }
+    relation.tuples.splice(index, 1);
+    if (relation.tuples.length === 0) {
+      this.relations.delete(relationId);
+    }
+    this.emitEvent({ type: 'relationTupleRemoved', data: { relationId, tuple: t } });
+  }
+
+  private sameAtoms(a: ITuple, b: ITuple): boolean {
+    return a.atoms.length === b.atoms.length && a.atoms.every((id, i) => id === b.atoms[i]);
+  }
+
+  /** Store a tuple, settled against its relation; undefined if it was already there. */
+  private storeTuple(relationId: string, tuple: ITuple): ITuple | undefined {
+    let relation = this.relations.get(relationId);
+    if (relation?.tuples.some(t => this.sameAtoms(t, tuple))) {
+      return undefined;
+    }
+    const settled = settleTupleTypes(tuple, relation, id => this.atoms.get(id)?.type);
+    if (!relation) {
+      relation = { id: relationId, name: relationId, types: settled.relationTypes, tuples: [] };
+      this.relations.set(relationId, relation);
+    } else {
+      relation.types = settled.relationTypes;
+    }
+    relation.tuples.push(settled.tuple);
+    return settled.tuple;
+  }
+
+  /**
+   * Adds the atoms and tuples of another instance, renaming atoms whose ids
+   * are taken. Primitives are always the existing atom of the same type and
+   * value; with `unifyBuiltIns`, so are other instances' built-in atoms.
+   *
+   * @returns True if nothing had to be renamed.
+   */
+  addFromDataInstance(dataInstance: IDataInstance, unifyBuiltIns: boolean): boolean {
+    const idRemap = new Map<string, string>();
+    let renamed = false;
+    const source = dataInstance instanceof RustDataInstance ? dataInstance : undefined;
+    source?.enums.forEach((enumType, variant) => this.enums.set(variant, enumType));
+
+    for (const atom of dataInstance.getAtoms()) {
+      const isBuiltin = isBuiltinType(atom.type) || (unifyBuiltIns && dataInstance.getAtomType(atom.id).isBuiltin);
+      if (isBuiltin) {
+        const existing = this.getAtoms().find(a => a.type === atom.type && a.label === atom.label);
+        if (existing) {
+          idRemap.set(atom.id, existing.id);
+          continue;
+        }
+      }
+      let newId = atom.id;
+      for (let counter = 1; this.atoms.has(newId); counter++) {
+        newId = `${atom.id}_${counter}`;
+      }
+      renamed ||= newId !== atom.id;
+      idRemap.set(atom.id, newId);
+      this.addAtom({ ...atom, id: newId });
+    }
+
+    source?.slots.forEach((slot, key) => {
+      if (key === '') return;
+      const [atomId, relationId] = key.split('\u0000');
+      this.slots.set(slotKey(idRemap.get(atomId) ?? atomId, relationId), slot);
+    });
+    source?.entryWrappers.forEach((wrappers, mapId) => this.entryWrappers.set(idRemap.get(mapId) ?? mapId, wrappers));
+    for (const relation of dataInstance.getRelations()) {
+      for (const tuple of relation.tuples) {
+        this.addRelationTuple(relation.id, {
+          atoms: tuple.atoms.map(id => idRemap.get(id) ?? id),
+          types: tuple.types,
+        });
+      }
+    }
+    return !renamed;
+  }
+
+  // ── reify ────────────────────────────────────────────────────────────
+
+  /**
+   * The value as a Rust expression that builds it:
+   *
+   * - structs and enums: `Point { x: 1, y: 2.5 }`, `Meters(5)`,
+   *   `Tree::Node { .. }`, `Tree::Leaf`
+   * - sequences and maps: `vec![a, b]`, `[a, b]`, `(a, b)`,
+   *   `HashMap::from([(k, v)])`
+   * - primitives: `5`, `2.5`, `true`, `'c'`, `"s"` for `&str` and
+   *   `String::from("s")` for `String`
+   * - each field's wrappers as read: `Some(Box::new(x))`, and `None` for an
+   *   optional field with no tuple
+   *
+   * An `Rc` or `Arc` used more than once is bound first and cloned at each
+   * use, so the sharing survives: `{ let rc0 = Rc::new(..); Pair(Rc::clone(&rc0), Rc::clone(&rc0)) }`.
+   * A cycle cannot be written as an expression; it prints `<cyclic>` where
+   * it closes.
+   *
+   * @param rootId - The atom to print, instead of the root.
+   */
+  reify(rootId?: string): string {
+    // source → relation → tuples' remaining atoms, in the order they were added.
+    const fields = new Map<string, Map<string, string[][]>>();
+    const incoming = new Map<string, number>();
+    this.relations.forEach(relation => {
+      relation.tuples.forEach(tuple => {
+        if (tuple.atoms.length < 2) return;
+        const [src, ...rest] = tuple.atoms;
+        rest.forEach(id => incoming.set(id, (incoming.get(id) ?? 0) + 1));
+        if (!fields.has(src)) fields.set(src, new Map());
+        const byField = fields.get(src)!;
+        byField.set(relation.id, [...(byField.get(relation.id) ?? []), rest]);
+      });
+    });
+
+    const bindings: string[] = [];
+    const bound = new Map<string, string>();
+    const onPath = new Set<string>();
+
+    /** Wrap a rendered target in a field's wrappers, binding shared allocations. */
+    const wrap = (targetId: string, wrappers: Wrapper[]): string => {
+      let out: string | undefined;
+      for (let i = wrappers.length - 1; i >= 0; i--) {
+        const wrapper = wrappers[i];
+        if (wrapper === 'Some') {
+          out = `Some(${out ?? render(targetId)})`;
+        } else if (!SHARED_TYPES.has(wrapper)) {
+          out = `${wrapper}::new(${out ?? render(targetId)})`;
+        } else if (out !== undefined || (incoming.get(targetId) ?? 0) < 2) {
+          out = `${wrapper}::new(${out ?? contents(targetId)})`;
+        } else if (onPath.has(targetId)) {
+          out = '<cyclic>';
+        } else {
+          let name = bound.get(targetId);
+          if (name === undefined) {
+            const expr = contents(targetId);
+            name = `${wrapper.toLowerCase()}${bound.size}`;
+            bound.set(targetId, name);
+            bindings.push(`let ${name} = ${wrapper}::new(${expr});`);
+          }
+          out = `${wrapper}::clone(&${name})`;
+        }
+      }
+      return out ?? render(targetId);
+    };
+
+    /** An allocation's contents, in the wrappers it held them in (`RefCell`). */
+    const contents = (targetId: string): string =>
+      wrap(targetId, this.slots.get(slotKey(targetId, ''))?.wrappers ?? []);
+
+    const field = (src: string, relationId: string, byField: Map<string, string[][]>): string => {
+      const slot = this.slots.get(slotKey(src, relationId));
+      const targets = (byField.get(relationId) ?? []).map(rest => rest[rest.length - 1]);
+      if (targets.length === 0) return 'None';
+      const values = targets.map(id => wrap(id, slot?.wrappers ?? []));
+      return values.length === 1 ? values[0] : `vec![${values.join(', ')}]`;
+    };
+
+    /** A key or value of an `[entries]` tuple, in the map's wrappers for it. */
+    const entryPart = (targetId: string, wrappers: Wrapper[]): string =>
+      targetId === NONE_TYPE ? 'None' : wrap(targetId, wrappers);
+
+    const render = (id: string): string => {
+      const atom = this.atoms.get(id)!;
+      const primitive = this.renderPrimitive(atom);
+      if (primitive !== undefined) return primitive;
+      if (onPath.has(id)) return '<cyclic>';
+
+      onPath.add(id);
+      const byField = fields.get(id) ?? new Map<string, string[][]>();
+      const names = [...byField.keys()];
+      for (const key of this.slots.keys()) {
+        const [atomId, relationId] = key.split('\u0000');
+        const slot = this.slots.get(key)!;
+        const optional = slot.none || slot.wrappers[0] === 'Some';
+        if (atomId === id && relationId && !byField.has(relationId) && optional) {
+          names.push(relationId);
+        }
+      }
+      const isMap = MAP_TYPES.has(atom.type);
+      const indices = isMap ? [] : names.filter(name => /^\d+$/.test(name)).sort((a, b) => Number(a) - Number(b));
+      const named = names.filter(name => isMap ? name !== ENTRIES_RELATION : !/^\d+$/.test(name));
+      const positional = indices.map(name => field(id, name, byField));
+      const list = positional.join(', ');
+
+      let out: string;
+      if (atom.type === 'Vec') {
+        out = `vec![${list}]`;
+      } else if (atom.type === 'Array') {
+        out = `[${list}]`;
+      } else if (atom.type === 'Tuple') {
+        out = `(${list}${positional.length === 1 ? ',' : ''})`;
+      } else if (isMap) {
+        const wrappers = this.entryWrappers.get(id) ?? { key: [], value: [] };
+        const entries = [
+          ...named.map(name => `(String::from(${rustStringLiteral(name)}), ${field(id, name, byField)})`),
+          ...(byField.get(ENTRIES_RELATION) ?? [])
+            .filter(rest => rest.length === 2)
+            .map(([k, v]) => `(${entryPart(k, wrappers.key)}, ${entryPart(v, wrappers.value)})`),
+        ];
+        out = `${atom.type}::from([${entries.join(', ')}])`;
+      } else {
+        if (named.length > 0) {
+          out = `${atom.type} { ${named.map(f => `${f}: ${field(id, f, byField)}`).join(', ')} }`;
+        } else if (positional.length > 0) {
+          out = `${atom.type}(${list})`;
+        } else {
+          out = atom.type;
+        }
+      }
+      onPath.delete(id);
+      return out;
+    };
+
+    let expr: string;
+    const root = rootId ?? this.rootId;
+    if (root !== undefined && this.atoms.has(root)) {
+      expr = rootId === undefined ? wrap(root, this.slots.get('')?.wrappers ?? []) : render(root);
+    } else {
+      const roots = [...this.atoms.keys()].filter(id => !incoming.has(id) && !isBuiltinType(this.atoms.get(id)!.type));
+      if (roots.length === 0) {
+        return 'None';
+      }
+      expr = roots.length === 1 ? render(roots[0]) : `vec![${roots.map(render).join(', ')}]`;
+    }
+    return bindings.length > 0 ? `{ ${bindings.join(' ')} ${expr} }` : expr;
+  }
+
+  /** The literal for a primitive or `None`, or undefined for anything else. */
+  private renderPrimitive(atom: IAtom): string | undefined {
+    if (atom.type === NONE_TYPE) return 'None';
+    if (!PRIMITIVE_TYPES.has(atom.type)) return undefined;
+    switch (atom.type) {
+      case 'String':
+        return `String::from(${rustStringLiteral(atom.label)})`;
+      case '&str':
+        return rustStringLiteral(atom.label);
+      case 'char':
+        return `'${atom.label === "'" || atom.label === '\\' ? `\\${atom.label}` : atom.label}'`;
+      case 'f32':
+      case 'f64':
+        if (!Number.isFinite(Number(atom.label))) {
+          const constant = Number.isNaN(Number(atom.label)) ? 'NAN' : Number(atom.label) > 0 ? 'INFINITY' : 'NEG_INFINITY';
+          return `${atom.type}::${constant}`;
+        }
+        return /[.eE]/.test(atom.label) ? atom.label : `${atom.label}.0`;
+      default:
+        return atom.label;
+    }
+  }
+}
+
+/**
+ * Factory function to create a RustDataInstance from a value's JSON.
+ *
+ * @example
+ * ```typescript
+ * const instance = createRustDataInstance('{"type": "Point", "fields": {"x": 1, "y": 2}}');
+ * instance.reify(); // 'Point { x: 1, y: 2 }'
+ * ```
+ */
+export const createRustDataInstance = (json: string): RustDataInstance => {
+  let value: RustValue;
+  try {
+    value = JSON.parse(json) as RustValue;
+  } catch (error) {
+    throw new Error(`Failed to parse Rust value JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  return new RustDataInstance(value);
+};
+
+/**
+ * Type guard to check if an IInputDataInstance is a RustDataInstance
+ */
+export const isRustDataInstance = (instance: IInputDataInstance): instance is RustDataInstance => {
+  return instance instanceof RustDataInstance;
+};
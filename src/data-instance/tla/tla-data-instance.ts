@@ -13,14 +13,43 @@ export interface TlaValue {
   readonly value: unknown;
 }
 
+/**
+ * A TLA+ value decoded into its structure, as the trace importers produce it
+ * (see `parseItfTrace`, `parseTlcTrace`). In a `structured` datum every value
+ * becomes atoms and relations rather than a single labelled atom:
+ *
+ * - a `Set` atom points at each element through `member`;
+ * - a `Record` atom points at each field's value through a relation named
+ *   `field_<name>` — a selector can name it, and it stays apart from `member`,
+ *   `apply` and the state variables' relations (the prefix grows an `_` while
+ *   a variable's name starts with it);
+ * - a `Function` — and a `Seq` or `Tuple`, which TLA+ defines as a function
+ *   on `1..n` — holds an `apply` tuple `(function, key, value)` per pair.
+ *
+ * `Int` carries a number, or a decimal string when it is too large for one.
+ */
+export type TlaStructuredValue =
+  | { readonly kind: 'Int'; readonly value: number | string }
+  | { readonly kind: 'Bool'; readonly value: boolean }
+  | { readonly kind: 'String'; readonly value: string }
+  | { readonly kind: 'Set'; readonly elements: readonly TlaStructuredValue[] }
+  | { readonly kind: 'Seq' | 'Tuple'; readonly elements: readonly TlaStructuredValue[] }
+  | { readonly kind: 'Record'; readonly fields: Readonly<Record<string, TlaStructuredValue>> }
+  | { readonly kind: 'Function'; readonly pairs: readonly (readonly [TlaStructuredValue, TlaStructuredValue])[] }
+  /** A value the exporting tool could not serialize, by its printed form. */
+  | { readonly kind: 'Unserializable'; readonly value: string };
+
 /**
  * A single state in a TLA+ execution trace.
  */
 export interface TlaState {
   /** Optional human friendly name (e.g., "Init", "Step 1") */
   readonly name?: string;
-  /** Mapping of variable names to their values in this state */
-  readonly variables: Record<string, TlaValue | unknown>;
+  /**
+   * Mapping of variable names to their values in this state: `TlaValue`s (or
+   * raw JSON) by default, `TlaStructuredValue`s in a `structured` datum.
+   */
+  readonly variables: Record<string, TlaValue | TlaStructuredValue | unknown>;
 }
 
 /**
@@ -32,6 +61,12 @@ export interface TlaDatum {
   readonly states: TlaState[];
   /** Optional loop index (Apalache-style) to close the trace */
   readonly loop?: number;
+  /**
+   * How to read the variables' values. `opaque` (the default): each is one
+   * atom, labelled with its printed form. `structured`: each is a
+   * {@link TlaStructuredValue}, expanded into atoms and relations.
+   */
+  readonly encoding?: 'opaque' | 'structured';
 }
 
 interface NormalizedTlaData {
@@ -121,13 +156,20 @@ export class TlaDataInstance implements IDataInstance {
       });
     });
 
+    const labels = new Map(this.atoms.map(atom => [atom.id, atom.label]));
     this.relations.forEach(relation => {
       relation.tuples.forEach((tuple, tupleIndex) => {
         if (tuple.atoms.length >= 2) {
           const sourceId = tuple.atoms[0];
           const targetId = tuple.atoms[tuple.atoms.length - 1];
           const edgeName = `${relation.id}_${tupleIndex}`;
-          graph.setEdge(sourceId, targetId, relation.name, edgeName);
+          // A function's `apply` edge is labelled with its key, as
+          // JSONDataInstance labels any higher-arity tuple.
+          const middleAtoms = tuple.atoms.slice(1, -1);
+          const edgeLabel = middleAtoms.length > 0
+            ? `${relation.name}[${middleAtoms.map(id => labels.get(id) ?? id).join(', ')}]`
+            : relation.name;
+          graph.setEdge(sourceId, targetId, edgeLabel, edgeName);
         } else if (tuple.atoms.length === 1) {
           const atomId = tuple.atoms[0];
           const edgeName = `${relation.id}_${tupleIndex}`;
@@ -177,6 +219,60 @@ export class TlaDataInstance implements IDataInstance {
 
     const stateType = 'State';
 
+    // Long enough that no variable's relation starts with it.
+    const variableNames = datum.states.flatMap(state => Object.keys(state.variables ?? {}));
+    let fieldPrefix = 'field_';
+    while (variableNames.some(name => name.startsWith(fieldPrefix))) fieldPrefix += '_';
+
+    const addTuple = (relationName: string, tuple: ITuple): void => {
+      if (!relationTuples.has(relationName)) {
+        relationTuples.set(relationName, { name: relationName, types: [...tuple.types], tuples: [] });
+      }
+      relationTuples.get(relationName)!.tuples.push(tuple);
+    };
+
+    // Adds the atoms and relations for a structured value under `id`, and
+    // returns its atom.
+    const addStructured = (value: TlaStructuredValue, id: string): IAtom => {
+      const atom: IAtom = { id, type: value.kind, label: this.describeStructured(value) };
+      atoms.push(atom);
+      registerType(value.kind, this.isBuiltinType(value.kind), atom);
+
+      const link = (relationName: string, ...targets: IAtom[]): void => {
+        addTuple(relationName, {
+          atoms: [id, ...targets.map(t => t.id)],
+          types: [value.kind, ...targets.map(t => t.type)],
+        });
+      };
+
+      switch (value.kind) {
+        case 'Set':
+          // Keyed by value, not position: a set has no order, and an element
+          // keeps its id from state to state (see InstanceTrace).
+          value.elements.forEach(element =>
+            link('member', addStructured(element, `${id}{${this.valueKey(element)}}`)));
+          break;
+        case 'Record':
+          Object.entries(value.fields).forEach(([field, fieldValue]) =>
+            link(`${fieldPrefix}${field}`, addStructured(fieldValue, `${id}.${field}`)));
+          break;
+        case 'Seq':
+        case 'Tuple':
+          value.elements.forEach((element, index) => {
+            const key = addStructured({ kind: 'Int', value: index + 1 }, `${id}[${index + 1}]#key`);
+            link('apply', key, addStructured(element, `${id}[${index + 1}]`));
+          });
+          break;
+        case 'Function':
+          value.pairs.forEach(([key, mapped]) => {
+            const keyId = this.valueKey(key);
+            link('apply', addStructured(key, `${id}[${keyId}]#key`), addStructured(mapped, `${id}[${keyId}]`));
+          });
+          break;
+      }
+      return atom;
+    };
+
     datum.states.forEach((state, index) => {
       const stateId = `state_${index}`;
       const stateAtom: IAtom = {
@@ -188,6 +284,12 @@ export class TlaDataInstance implements IDataInstance {
       registerType(stateType, true, stateAtom);
 
       Object.entries(state.variables ?? {}).forEach(([varName, rawValue]) => {
+        if (datum.encoding === 'structured') {
+          const valueAtom = addStructured(rawValue as TlaStructuredValue, `${stateId}.${varName}`);
+          addTuple(varName, { atoms: [stateId, valueAtom.id], types: [stateType, valueAtom.type] });
+          return;
+        }
+
         const value = this.normalizeValue(rawValue);
         const valueType = this.inferType(value);
         const valueAtom: IAtom = {
@@ -199,20 +301,10 @@ export class TlaDataInstance implements IDataInstance {
         atoms.push(valueAtom);
         registerType(valueType, this.isBuiltinType(valueType), valueAtom);
 
-        const tuple: ITuple = {
+        addTuple(varName, {
           atoms: [stateId, valueAtom.id],
           types: [stateType, valueType],
-        };
-
-        if (!relationTuples.has(varName)) {
-          relationTuples.set(varName, {
-            name: varName,
-            types: [stateType, valueType],
-            tuples: [],
-          });
-        }
-
-        relationTuples.get(varName)!.tuples.push(tuple);
+        });
       });
     });
 
@@ -310,6 +402,53 @@ export class TlaDataInstance implements IDataInstance {
     }
   }
 
+  /**
+   * A structured value's label: a scalar as TLA+ prints it; a compound by its
+   * kind, its parts being atoms of their own — or, with `inline`, in full.
+   */
+  private describeStructured(value: TlaStructuredValue, inline = false): string {
+    switch (value.kind) {
+      case 'Int':
+        return String(value.value);
+      case 'Bool':
+        return value.value ? 'TRUE' : 'FALSE';
+      case 'String':
+      case 'Unserializable':
+        return value.value;
+    }
+    if (!inline) {
+      return value.kind;
+    }
+    const show = (v: TlaStructuredValue): string =>
+      v.kind === 'String' ? JSON.stringify(v.value) : this.describeStructured(v, true);
+    switch (value.kind) {
+      case 'Set':
+        return `{${value.elements.map(show).join(', ')}}`;
+      case 'Seq':
+      case 'Tuple':
+        return `<<${value.elements.map(show).join(', ')}>>`;
+      case 'Record':
+        return `[${Object.entries(value.fields).map(([f, v]) => `${f} |-> ${show(v)}`).join(', ')}]`;
+      case 'Function':
+        return `(${value.pairs.map(([k, v]) => `${show(k)} :> ${show(v)}`).join(' @@ ')})`;
+    }
+  }
+
+  /**
+   * A value as part of an atom id: printed in full like an inline label, but
+   * with strings quoted, so `"1"` and `1` (or `"TRUE"` and `TRUE`) stay apart.
+   */
+  private valueKey(value: TlaStructuredValue): string {
+    switch (value.kind) {
+      case 'String':
+        return JSON.stringify(value.value);
+      case 'Unserializable':
+        return `?${JSON.stringify(value.value)}`;
+      default:
+        return this.describeStructured(value, true);
+    }
+  }
+
   private isBuiltinType(typeId: string): boolean {
     return ['State', 'Int', 'Real', 'Bool', 'String'].includes(typeId);
   }
@@ -0,0 +1,228 @@
+import type { TlaDatum, TlaState, TlaStructuredValue } from './tla-data-instance';
+
+/**
+ * Importers for the trace formats TLA+ model checkers write, producing a
+ * `structured` {@link TlaDatum}: values keep their sets, records, functions
+ * and sequences instead of collapsing to a label.
+ *
+ * - Apalache's ITF (Informal Trace Format) JSON, which tags every value:
+ *   `{"#set": [...]}`, `{"#tup": [...]}`, `{"#map": [[k, v], ...]}`,
+ *   `{"#bigint": "..."}`, `{"#unserializable": "..."}`; an array is a
+ *   sequence and an untagged object a record.
+ * - TLC's `-dumpTrace json`, the `CounterExample` record: `state` holds
+ *   `<<index, variables>>` pairs and `action` the steps between them. TLC
+ *   writes sets, sequences and tuples alike as JSON arrays, so all three
+ *   arrive as `Seq`; objects arrive as records.
+ */
+
+type Json = null | boolean | number | string | Json[] | { [key: string]: Json };
+
+function isObject(value: unknown): value is Record<string, Json> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readJson(source: string | object, format: string): unknown {
+  if (typeof source !== 'string') {
+    return source;
+  }
+  try {
+    return JSON.parse(source);
+  } catch (e: unknown) {
+    throw new Error(`Invalid ${format} trace: not JSON (${e instanceof Error ? e.message : String(e)})`);
+  }
+}
+
+function decodeInt(value: number | string, format: string): TlaStructuredValue {
+  const n = typeof value === 'number' ? value : Number(value);
+  if (typeof value === 'string' && !/^-?\d+$/.test(value)) {
+    throw new Error(`Invalid ${format} trace: "${value}" is not an integer`);
+  }
+  return { kind: 'Int', value: Number.isSafeInteger(n) ? n : String(value) };
+}
+
+// ─── Apalache ITF ────────────────────────────────────────────────────
+
+/** Decode one ITF value. */
+export function decodeItfValue(value: unknown): TlaStructuredValue {
+  switch (typeof value) {
+    case 'boolean':
+      return { kind: 'Bool', value };
+    case 'number':
+      return decodeInt(value, 'ITF');
+    case 'string':
+      return { kind: 'String', value };
+  }
+  if (Array.isArray(value)) {
+    return { kind: 'Seq', elements: value.map(decodeItfValue) };
+  }
+  if (!isObject(value)) {
+    throw new Error(`Invalid ITF trace: cannot decode ${JSON.stringify(value)}`);
+  }
+
+  if ('#bigint' in value) {
+    return decodeInt(String(value['#bigint']), 'ITF');
+  }
+  if ('#unserializable' in value) {
+    return { kind: 'Unserializable', value: String(value['#unserializable']) };
+  }
+  for (const tag of ['#set', '#tup', '#map'] as const) {
+    if (tag in value && !Array.isArray(value[tag])) {
+      throw new Error(`Invalid ITF trace: "${tag}" must hold an array`);
+    }
+  }
+  if ('#set' in value) {
+    return { kind: 'Set', elements: (value['#set'] as Json[]).map(decodeItfValue) };
+  }
+  if ('#tup' in value) {
+    return { kind: 'Tuple', elements: (value['#tup'] as Json[]).map(decodeItfValue) };
+  }
+  if ('#map' in value) {
+    return {
+      kind: 'Function',
+      pairs: (value['#map'] as Json[]).map(pair => {
+        if (!Array.isArray(pair) || pair.length !== 2) {
+          throw new Error('Invalid ITF trace: "#map" entries must be [key, value] pairs');
+        }
+        return [decodeItfValue(pair[0]), decodeItfValue(pair[1])] as const;
+      }),
+    };
+  }
+
+  const fields: Record<string, TlaStructuredValue> = {};
+  for (const [field, fieldValue] of Object.entries(value)) {
+    if (!field.startsWith('#')) {
+      fields[field] = decodeItfValue(fieldValue);
+    }
+  }
+  return { kind: 'Record', fields };
+}
+
+/**
+ * Read an Apalache ITF trace (`apalache-mc check --output-traces`, or
+ * `--itf`): `{ vars, states, loop? }`, each state an object from variable
+ * name to ITF value.
+ *
+ * @param source - The trace's JSON text, or the parsed object.
+ * @throws {Error} When the trace is not ITF.
+ */
+export function parseItfTrace(source: string | object): TlaDatum {
+  const trace = readJson(source, 'ITF');
+  if (!isObject(trace) || !Array.isArray(trace.states)) {
+    throw new Error('Invalid ITF trace: expected an object with a "states" array');
+  }
+  const vars = Array.isArray(trace.vars) ? trace.vars.map(String) : undefined;
+
+  const states: TlaState[] = trace.states.map((state, index) => {
+    if (!isObject(state)) {
+      throw new Error(`Invalid ITF trace: state ${index} is not an object`);
+    }
+    const names = vars ?? Object.keys(state).filter(key => !key.startsWith('#'));
+    const variables: Record<string, TlaStructuredValue> = {};
+    for (const name of names) {
+      if (name in state) {
+        variables[name] = decodeItfValue(state[name]);
+      }
+    }
+    return { variables };
+  });
+
+  return {
+    states,
+    ...(typeof trace.loop === 'number' ? { loop: trace.loop } : {}),
+    encoding: 'structured',
+  };
+}
+
+// ─── TLC -dumpTrace json ─────────────────────────────────────────────
+
+/** Decode one value as TLC's JSON serializer writes it. */
+export function decodeTlcValue(value: unknown): TlaStructuredValue {
+  switch (typeof value) {
+    case 'boolean':
+      return { kind: 'Bool', value };
+    case 'number':
+      return decodeInt(value, 'TLC');
+    case 'string':
+      return { kind: 'String', value };
+  }
+  if (Array.isArray(value)) {
+    return { kind: 'Seq', elements: value.map(decodeTlcValue) };
+  }
+  if (isObject(value)) {
+    const fields: Record<string, TlaStructuredValue> = {};
+    for (const [field, fieldValue] of Object.entries(value)) {
+      fields[field] = decodeTlcValue(fieldValue);
+    }
+    return { kind: 'Record', fields };
+  }
+  throw new Error(`Invalid TLC trace: cannot decode ${JSON.stringify(value)}`);
+}
+
+/** A `<<index, variables>>` state entry's index (1-based) and variables. */
+function readTlcState(entry: unknown, position: number): [number, Record<string, Json>] {
+  if (Array.isArray(entry) && entry.length === 2 && typeof entry[0] === 'number' && isObject(entry[1])) {
+    return [entry[0], entry[1]];
+  }
+  if (isObject(entry)) {
+    return [position + 1, entry];
+  }
+  throw new Error(`Invalid TLC trace: state ${position} is neither <<index, variables>> nor a record`);
+}
+
+/**
+ * Read a trace written by TLC's `-dumpTrace json`. A lasso — the trace of a
+ * liveness violation — is recognised by the action leading from the last
+ * state back to an earlier one, which becomes the datum's `loop`.
+ *
+ * @param source - The trace's JSON text, or the parsed object.
+ * @throws {Error} When the trace is not a TLC counterexample.
+ */
+export function parseTlcTrace(source: string | object): TlaDatum {
+  const trace = readJson(source, 'TLC');
+  if (!isObject(trace) || !Array.isArray(trace.state)) {
+    throw new Error('Invalid TLC trace: expected an object with a "state" array');
+  }
+
+  const entries = trace.state.map(readTlcState).sort((a, b) => a[0] - b[0]);
+  const positionOf = new Map(entries.map(([index], position) => [index, position]));
+  const states: TlaState[] = entries.map(([, variables]) => ({
+    variables: Object.fromEntries(
+      Object.entries(variables).map(([name, value]) => [name, decodeTlcValue(value)])
+    ),
+  }));
+
+  // An action is <<<<i, s>>, info, <<j, t>>>>; one with j <= i closes a lasso.
+  let loop: number | undefined;
+  for (const action of Array.isArray(trace.action) ? trace.action : []) {
+    if (!Array.isArray(action) || action.length !== 3) continue;
+    const [from, , to] = action;
+    const i = Array.isArray(from) ? from[0] : undefined;
+    const j = Array.isArray(to) ? to[0] : undefined;
+    if (typeof i === 'number' && typeof j === 'number' && j <= i && positionOf.has(j)) {
+      loop = positionOf.get(j);
+    }
+  }
+
+  return { states, ...(loop !== undefined ? { loop } : {}), encoding: 'structured' };
+}
+
+// ─── Any trace ───────────────────────────────────────────────────────
+
+/**
+ * Read any TLA+ trace this package understands, by its shape: a TLC
+ * counterexample (`state`), an ITF trace (`states` of plain objects), or a
+ * {@link TlaDatum} (`states` of `{ variables }`), which passes through.
+ *
+ * @throws {Error} When the JSON is none of these.
+ */
+export function parseTlaTrace(source: string | object): TlaDatum {
+  const trace = readJson(source, 'TLA+');
+  if (isObject(trace) && Array.isArray(trace.state)) {
+    return parseTlcTrace(trace);
+  }
+  if (isObject(trace) && Array.isArray(trace.states)) {
+    const isDatum = trace.states.every(state => isObject(state) && isObject(state.variables));
+    return isDatum && !Array.isArray(trace.vars) ? (trace as unknown as TlaDatum) : parseItfTrace(trace);
+  }
+  throw new Error('Invalid TLA+ trace: expected a TLC "state" array or a "states" array');
+}
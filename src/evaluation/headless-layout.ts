@@ -18,7 +18,8 @@ import { Layout as ColaLayout } from 'webcola';
 import { LayoutInstance } from '../layout/layoutinstance';
 import type { LayoutSpec } from '../layout/layoutspec';
 import type { IDataInstance } from '../data-instance/interfaces';
-import type { LayoutConstraint } from '../layout/interfaces';
+import type { InstanceLayout, LayoutConstraint } from '../layout/interfaces';
+import type { ConstraintError } from '../layout/constraint-types';
 import { SGraphQueryEvaluator } from '../evaluators/data/sgq-evaluator';
 import {
   WebColaTranslator,
@@ -26,13 +27,22 @@ import {
   type NodeWithMetadata,
   type WebColaLayoutOptions,
 } from '../translators/webcola/webcolatranslator';
-import type { SequencePolicy, SequencePolicyContext } from '../translators/webcola/sequence-policy';
+import type {
+  SequencePolicy,
+  SequencePolicyContext,
+  SequencePolicyResult,
+} from '../translators/webcola/sequence-policy';
+import {
+  UnsatisfiableLayoutError,
+  type SequenceLayoutPlan,
+  type SequenceLayoutPolicy,
+} from '../translators/webcola/sequence-layout-policy';
 import type { EdgeKey } from './consistency-metrics';
 
 /**
  * Options for `runHeadlessLayout`.
  *
- * Two modes:
+ * Three modes:
  *
  * 1. **Direct** — pass `priorPositions` and optionally
  *    `lockUnconstrainedNodes`. No policy invocation.
@@ -41,8 +51,13 @@ import type { EdgeKey } from './consistency-metrics';
  *    plus `useReducedIterations` (the latter as
  *    `lockUnconstrainedNodes`, matching the production gating in
  *    webcola-cnd-graph.ts:1676).
+ * 3. **Plan-driven** — pass `sequencePlan` and `frameIndex`. The
+ *    frame's result from a whole-sequence policy is used exactly as a
+ *    pairwise policy's result would be. `runHeadlessSequence` does this
+ *    for every frame.
  *
- * If both are supplied the policy-driven path wins, matching
+ * If more than one is supplied the plan wins, then the policy, then
+ * direct prior positions; the policy-over-direct order matches
  * production semantics.
  */
 export interface HeadlessLayoutOptions {
@@ -62,6 +77,11 @@ export interface HeadlessLayoutOptions {
    */
   currInstance?: IDataInstance;
 
+  /** Whole-sequence plan to take this frame's seed from. Requires `frameIndex`. */
+  sequencePlan?: SequenceLayoutPlan;
+  /** Index of `instance` in the sequence `sequencePlan` was made for. */
+  frameIndex?: number;
+
   /** Figure width passed to the translator and solver. Default 800. */
   figWidth?: number;
   /** Figure height passed to the translator and solver. Default 600. */
@@ -103,14 +123,28 @@ export interface HeadlessLayoutResult {
    */
   nodes: NodeWithMetadata[];
   /**
-   * Seed positions the applied policy returned before the solver ran,
-   * or `null` when no policy was applied (direct prior-positions path
+   * Seed positions the applied policy (or sequence-plan frame) returned
+   * before the solver ran, or `null` when no policy was applied (direct prior-positions path
    * or first frame). Used for the seed-vs-output decomposition in the
    * appropriateness experiment: the gap between metrics scored on
    * `seed` versus `positions` attributes the effect to the policy or
    * the solver.
    */
   seed: LayoutState | null;
+  /**
+   * The `InstanceLayout` the run translated. Carries what positions
+   * alone do not — groups, edge labels and styling, node styling —
+   * so `renderHeadlessSvg` can draw the result without re-running
+   * the spec.
+   */
+  layout: InstanceLayout;
+  /**
+   * The conflict `generateLayout` reported, or `null` when every
+   * constraint holds. When set, `layout` and `positions` are a best
+   * effort with the conflicting constraints dropped — not a layout of
+   * the spec.
+   */
+  error: ConstraintError | null;
 }
 
 const DEFAULT_FIG_WIDTH = 800;
@@ -146,13 +180,21 @@ export async function runHeadlessLayout(
   const evaluator = new SGraphQueryEvaluator();
   evaluator.initialize({ sourceData: instance });
   const layoutInstance = new LayoutInstance(spec, evaluator, 0, true);
-  const { layout } = layoutInstance.generateLayout(instance);
+  const { layout, error } = layoutInstance.generateLayout(instance);
 
   // Resolve translator options. Policy-driven path mirrors
   // webcola-cnd-graph.ts:1645-1678.
   let translatorOptions: WebColaLayoutOptions | undefined;
   let seedState: LayoutState | null = null;
-  if (options.policy && options.prevInstance && options.currInstance) {
+  let policyResult: SequencePolicyResult | undefined;
+  if (options.sequencePlan && options.frameIndex !== undefined) {
+    policyResult = options.sequencePlan.frames[options.frameIndex];
+    if (!policyResult) {
+      throw new RangeError(
+        `Frame ${options.frameIndex} is not in the sequence plan (${options.sequencePlan.frames.length} frames).`
+      );
+    }
+  } else if (options.policy && options.prevInstance && options.currInstance) {
     const priorState: LayoutState = options.priorPositions ?? {
       positions: [],
       transform: { k: 1, x: 0, y: 0 },
@@ -163,27 +205,126 @@ export async function runHeadlessLayout(
       currInstance: options.currInstance,
       spec,
     };
-    const policyResult = options.policy.apply(ctx);
-    if (policyResult.effectivePriorState) {
-      translatorOptions = {
-        priorPositions: policyResult.effectivePriorState,
-        lockUnconstrainedNodes: policyResult.useReducedIterations,
-      };
-      // Snapshot the seed for the appropriateness-experiment
-      // decomposition. Deep-copied so downstream mutation of
-      // translator inputs doesn't bleed into the snapshot.
-      seedState = {
-        positions: policyResult.effectivePriorState.positions.map(p => ({ ...p })),
-        transform: { ...policyResult.effectivePriorState.transform },
-      };
-    }
+    policyResult = options.policy.apply(ctx);
   } else if (options.priorPositions) {
     translatorOptions = {
       priorPositions: options.priorPositions,
       lockUnconstrainedNodes: options.lockUnconstrainedNodes ?? false,
     };
   }
+  if (policyResult?.effectivePriorState) {
+    translatorOptions = {
+      priorPositions: policyResult.effectivePriorState,
+      lockUnconstrainedNodes: policyResult.useReducedIterations,
+    };
+    // Snapshot the seed for the appropriateness-experiment
+    // decomposition. Deep-copied so downstream mutation of
+    // translator inputs doesn't bleed into the snapshot.
+    seedState = {
+      positions: policyResult.effectivePriorState.positions.map(p => ({ ...p })),
+      transform: { ...policyResult.effectivePriorState.transform },
+    };
+  }
+
+  const { positions, nodes } = await solveHeadlessLayout(
+    layout,
+    figWidth,
+    figHeight,
+    translatorOptions
+  );
+
+  const edges: EdgeKey[] = layout.edges.map(e => ({
+    source: e.source.id,
+    target: e.target.id,
+    rel: e.relationName,
+  }));
+
+  return {
+    positions,
+    edges,
+    constraints: layout.constraints,
+    nodes,
+    seed: seedState,
+    layout,
+    error: error ?? null,
+  };
+}
 
+/**
+ * Result of `runHeadlessSequence`.
+ */
+export interface HeadlessSequenceResult {
+  /** The plan the policy made for the sequence. */
+  plan: SequenceLayoutPlan;
+  /**
+   * One `runHeadlessLayout` result per instance, in order. Score
+   * consecutive (or any two) frames with the consistency metrics as for
+   * a pairwise policy.
+   */
+  frames: HeadlessLayoutResult[];
+}
+
+/**
+ * Lay out a whole sequence headlessly under a whole-sequence policy: plan
+ * it, solving whatever the policy asks for (a foresighted policy's
+ * super-graph) through `runHeadlessLayout`, then lay out each frame from
+ * its planned seed. An instance the policy solves whose constraints cannot
+ * all hold rejects its `solve` with an `UnsatisfiableLayoutError`; see
+ * `plan.superGraphError` for what the policy did instead.
+ *
+ * @param spec      Parsed layout specification (from `parseLayoutSpec`).
+ * @param instances The sequence, in order.
+ * @param policy    The whole-sequence policy to plan with.
+ * @param options   Figure size. Prior-state and policy options do not
+ *                  apply here.
+ *
+ * @example
+ *   const { frames } = await runHeadlessSequence(spec, instances, foresighted);
+ *   const drift = positionalConsistency(frames[0].positions, frames[9].positions);
+ */
+export async function runHeadlessSequence(
+  spec: LayoutSpec,
+  instances: readonly IDataInstance[],
+  policy: SequenceLayoutPolicy,
+  options: Pick<HeadlessLayoutOptions, 'figWidth' | 'figHeight'> = {}
+): Promise<HeadlessSequenceResult> {
+  const size = { figWidth: options.figWidth, figHeight: options.figHeight };
+  const plan = await policy.plan({
+    instances,
+    spec,
+    solve: async (instance, priorState) => {
+      const result = await runHeadlessLayout(spec, instance, { ...size, priorPositions: priorState });
+      if (result.error) throw new UnsatisfiableLayoutError(result.error);
+      return result.positions;
+    },
+  });
+
+  const frames: HeadlessLayoutResult[] = [];
+  for (let frameIndex = 0; frameIndex < instances.length; frameIndex++) {
+    frames.push(await runHeadlessLayout(spec, instances[frameIndex], {
+      ...size,
+      sequencePlan: plan,
+      frameIndex,
+    }));
+  }
+  return { plan, frames };
+}
+
+/**
+ * The solve half of `runHeadlessLayout`, for callers that already hold
+ * the generated `InstanceLayout` (the layout worker, which reports the
+ * `generateLayout` verdict too): translate it and run `cola.Layout` to
+ * convergence under the production reduced-iterations schedule.
+ *
+ * @returns The post-solver positions, and the translated nodes they
+ *   were read from.
+ */
+export async function solveHeadlessLayout(
+  layout: InstanceLayout,
+  figWidth: number,
+  figHeight: number,
+  translatorOptions?: WebColaLayoutOptions
+): Promise<{ positions: LayoutState; nodes: NodeWithMetadata[] }> {
   const translator = new WebColaTranslator();
   const webcolaLayout = await translator.translate(
     layout,
@@ -214,18 +355,5 @@ export async function runHeadlessLayout(
     })),
     transform: { k: 1, x: 0, y: 0 },
   };
-
-  const edges: EdgeKey[] = layout.edges.map(e => ({
-    source: e.source.id,
-    target: e.target.id,
-    rel: e.relationName,
-  }));
-
-  return {
-    positions,
-    edges,
-    constraints: layout.constraints,
-    nodes: webcolaLayout.colaNodes,
-    seed: seedState,
-  };
+  return { positions, nodes: webcolaLayout.colaNodes };
 }
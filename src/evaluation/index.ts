@@ -9,6 +9,8 @@
  *      LayoutInstance → WebColaTranslator → cola.Layout pipeline with
  *      no DOM dependency, returning post-solver positions plus the
  *      edges and constraints needed to score them.
+ *      `runHeadlessSequence` does the same for a whole sequence under a
+ *      whole-sequence (`SequenceLayoutPolicy`) plan.
  *   2. Three consistency metrics, each measuring a different notion of
  *      "the layout stayed the same":
  *        - `positionalConsistency`  — per-node coordinate preservation
@@ -39,8 +41,11 @@
 
 export {
   runHeadlessLayout,
+  runHeadlessSequence,
+  solveHeadlessLayout,
   type HeadlessLayoutOptions,
   type HeadlessLayoutResult,
+  type HeadlessSequenceResult,
 } from './headless-layout';
 
 export {
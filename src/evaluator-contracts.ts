@@ -85,7 +85,12 @@ export interface EvaluationDiagnostic {
 export interface EvaluatorConfig {
   /** Enable debug mode for additional logging */
   debug?: boolean;
-  /** Timeout for evaluation in milliseconds */
+  /**
+   * Milliseconds the evaluation may take. LayoutInstance passes the time left
+   * before its `LayoutControl.timeout` deadline. Advisory: the bundled
+   * evaluators run each expression to completion, and the layout stops at
+   * its next checkpoint after one overruns.
+   */
   timeout?: number;
   /** Maximum number of results to return */
   maxResults?: number;
@@ -182,8 +187,15 @@ interface IEvaluator {
    * @throws Error if the evaluation fails
    */
   evaluate(_expression: string, _config?: EvaluatorConfig): IEvaluatorResult;
-  
 
+  /**
+   * Names of the relations an expression's value can depend on. More names
+   * than it reads is fine; fewer is not. Lets a caller keep a result across
+   * an edit to any other relation's tuples.
+   * @param _expression The expression, as it would be passed to `evaluate`
+   * @returns `undefined` when the evaluator cannot tell
+   */
+  dependencies?(_expression: string): ReadonlySet<string> | undefined;
 }
 
 export default IEvaluator;
\ No newline at end of file
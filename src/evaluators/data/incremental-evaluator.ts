@@ -0,0 +1,135 @@
+import IEvaluator, {
+    EvaluationContext,
+    EvaluatorConfig,
+    IEvaluatorResult
+} from '../../evaluator-contracts';
+import type { DataInstanceEvent, IDataInstance } from '../../data-instance/interfaces';
+
+/** The names an expression is written in: relation, type and atom names, keywords. */
+function identifiers(expression: string): Set<string> {
+    return new Set(expression.match(/[A-Za-z_$][\w$]*/g) ?? []);
+}
+
+/**
+ * Remembers what each expression evaluated to, so a re-layout after a small
+ * edit re-evaluates only the expressions the edit could have changed.
+ *
+ * Which expressions those are is decided from the edit events, and from what
+ * the wrapped evaluator can say about its own language, so the rules are
+ * conservative:
+ *
+ * - A tuple added to or removed from a relation affects the expressions the
+ *   wrapped evaluator says depend on that relation (`IEvaluator.dependencies`).
+ *   Naming a relation is not the only way to reach it — an SQL table is named
+ *   after the relation's sanitized name — so only the evaluator can say. One
+ *   that cannot loses everything on a tuple edit.
+ * - An added atom affects every expression except those written purely in
+ *   relation names (`next`, `^next.~next`): a relation's tuples do not change
+ *   when an atom joins, but a type, `univ`, or an SQL table listing atoms may.
+ * - A removed atom affects everything — removing it also drops its tuples,
+ *   and the instance does not report which.
+ *
+ * Nothing is served from memory until {@link applyChanges} says what changed;
+ * after {@link reset}, every evaluation goes to the wrapped evaluator as if
+ * this class were not there. The wrapped evaluator must already be initialized
+ * over the edited instance — this class never re-initializes it.
+ */
+export class IncrementalEvaluator implements IEvaluator {
+    private readonly results = new Map<string, IEvaluatorResult>();
+    private serving = false;
+    private evaluated = 0;
+    private reused = 0;
+
+    constructor(private readonly inner: IEvaluator) {}
+
+    initialize(context: EvaluationContext): void {
+        this.reset();
+        this.inner.initialize(context);
+    }
+
+    isReady(): boolean {
+        return this.inner.isReady();
+    }
+
+    evaluate(expression: string, config?: EvaluatorConfig): IEvaluatorResult {
+        const key = `${config?.instanceIndex ?? ''}\x00${expression}`;
+        const remembered = this.serving ? this.results.get(key) : undefined;
+        if (remembered) {
+            this.reused++;
+            return remembered;
+        }
+        const result = this.inner.evaluate(expression, config);
+        this.evaluated++;
+        this.results.set(key, result);
+        return result;
+    }
+
+    /** Forget everything: the next render evaluates every expression afresh. */
+    reset(): void {
+        this.results.clear();
+        this.serving = false;
+        this.evaluated = 0;
+        this.reused = 0;
+    }
+
+    /**
+     * Forget the results `changes` could have affected, and serve the rest
+     * from memory until the next {@link reset}.
+     *
+     * @param changes - Every edit made to the instance since the results were
+     *   computed. Leaving one out leaves stale results behind.
+     * @param instance - The instance after the edits.
+     */
+    applyChanges(changes: readonly DataInstanceEvent[], instance: IDataInstance): void {
+        this.evaluated = 0;
+        this.reused = 0;
+        this.serving = true;
+
+        const typeNames = new Set(instance.getTypes().map(t => t.id));
+        const relations = instance.getRelations();
+        const relationNames = new Set(relations.map(r => r.name).filter(name => !typeNames.has(name)));
+
+        for (const change of changes) {
+            if (this.results.size === 0) return;
+            switch (change.type) {
+                case 'relationTupleAdded':
+                case 'relationTupleRemoved': {
+                    const id = change.data.relationId;
+                    const relation = relations.find(r => r.id === id || r.name === id);
+                    const dependencies = this.inner.dependencies?.bind(this.inner);
+                    if (relation === undefined || dependencies === undefined) {
+                        this.results.clear();
+                        break;
+                    }
+                    this.forget(expression => {
+                        const reads = dependencies(expression);
+                        return reads === undefined || reads.has(relation.name);
+                    });
+                    break;
+                }
+                case 'atomAdded': {
+                    const atomId = change.data.atom?.id ?? change.data.atomId;
+                    this.forget(expression =>
+                        (atomId !== undefined && expression.includes(atomId)) ||
+                        [...identifiers(expression)].some(name => !relationNames.has(name)));
+                    break;
+                }
+                default:
+                    this.results.clear();
+            }
+        }
+    }
+
+    /** How many evaluations this render ran, and how many it served from memory. */
+    getStats(): { evaluated: number; reused: number } {
+        return { evaluated: this.evaluated, reused: this.reused };
+    }
+
+    private forget(affected: (expression: string) => boolean): void {
+        for (const key of [...this.results.keys()]) {
+            if (affected(key.slice(key.indexOf('\x00') + 1))) {
+                this.results.delete(key);
+            }
+        }
+    }
+}
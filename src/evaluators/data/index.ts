@@ -1,5 +1,7 @@
 export * from './forge-evaluator';
 export * from './sgq-evaluator';
+export * from './projected-evaluator';
+export * from './incremental-evaluator';
 // sql-evaluator is intentionally NOT re-exported: it pulls the alasql SQL
 // engine into any bundle that touches the Evaluators namespace. Import it
 // from 'spytial-core/sql-evaluator' instead.
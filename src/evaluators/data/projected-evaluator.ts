@@ -0,0 +1,78 @@
+import IEvaluator, {
+    EvaluationContext,
+    EvaluatorConfig,
+    EvaluatorResult,
+    IEvaluatorResult,
+    EvaluationDiagnostic,
+    Tuple
+} from '../../evaluator-contracts';
+import { projectTupleColumns, type ProjectionChoice } from '../../data-instance/projection-transform';
+import { BaseEvaluatorResult } from './base-evaluator-result';
+
+/**
+ * A result from the wrapped evaluator, sliced at the projection's chosen
+ * atoms. Errors and singletons pass through; diagnostics are the wrapped
+ * result's own.
+ */
+export class ProjectedEvaluatorResult extends BaseEvaluatorResult {
+    private readonly inner: IEvaluatorResult;
+
+    constructor(inner: IEvaluatorResult, result: EvaluatorResult) {
+        super(result, inner.getExpression(), inner.isError());
+        this.inner = inner;
+    }
+
+    // The wrapped result already normalized its raw shape; keep it untouched.
+    getRawResult(): EvaluatorResult {
+        return this.result;
+    }
+
+    getDiagnostics(): readonly EvaluationDiagnostic[] {
+        return this.inner.getDiagnostics?.() ?? [];
+    }
+}
+
+/**
+ * Evaluates selectors against the full instance, then slices each result the
+ * way `applyProjectionTransform` slices relations: tuples naming an unchosen
+ * atom of a projected type are dropped, and projected columns are removed.
+ *
+ * This is how a `projection` directive reaches selectors without
+ * re-initializing the host's evaluator — which not every evaluator can do
+ * from an `IDataInstance` (Forge reads Alloy XML). Selectors are therefore
+ * written against the unprojected model, and `edges` over
+ * `Node -> Node -> Time` selects the binary `edges` at the chosen `Time`.
+ */
+export class ProjectedEvaluator implements IEvaluator {
+    private readonly projectedAtoms: Set<string>;
+    private readonly chosenAtoms: Set<string>;
+
+    constructor(private readonly inner: IEvaluator, choices: readonly ProjectionChoice[]) {
+        const applied = choices.filter(c => c.atom !== undefined);
+        this.projectedAtoms = new Set(applied.flatMap(c => c.atoms));
+        this.chosenAtoms = new Set(applied.map(c => c.atom as string));
+    }
+
+    initialize(context: EvaluationContext): void {
+        this.inner.initialize(context);
+    }
+
+    isReady(): boolean {
+        return this.inner.isReady();
+    }
+
+    evaluate(expression: string, config?: EvaluatorConfig): IEvaluatorResult {
+        const result = this.inner.evaluate(expression, config);
+        const raw = result.getRawResult();
+        if (result.isError() || !Array.isArray(raw)) {
+            return new ProjectedEvaluatorResult(result, raw);
+        }
+        const sliced: Tuple[] = [];
+        for (const tuple of raw) {
+            const kept = projectTupleColumns(tuple.map(String), this.projectedAtoms, this.chosenAtoms);
+            if (kept === undefined || kept.length === 0) continue;
+            sliced.push(kept.map(c => tuple[c]));
+        }
+        return new ProjectedEvaluatorResult(result, sliced);
+    }
+}
@@ -125,6 +125,16 @@ export class SGraphQueryEvaluator implements IEvaluator {
     return this.ready;
   }
 
+  /**
+   * Every name the expression is written in: a relational expression reaches
+   * a relation only by naming it. A quoted name could be anything, so an
+   * expression with quotes has no answer.
+   */
+  dependencies(expression: string): ReadonlySet<string> | undefined {
+    if (/["'`]/.test(expression)) return undefined;
+    return new Set(expression.match(/[A-Za-z_$][\w$]*/g) ?? []);
+  }
+
   evaluate(expression: string, config?: EvaluatorConfig): IEvaluatorResult {
     if (!this.isReady()) {
       throw new Error("Evaluator not initialized");
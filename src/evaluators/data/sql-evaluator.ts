@@ -104,6 +104,12 @@ export class SQLEvaluator implements IEvaluator {
   // Use a dedicated database instance to avoid cross-talk between evaluators
   private db: InstanceType<typeof alasql.Database>;
   private tableSchemas: TableSchema[] = [];
+  /**
+   * Relation names by (lower-cased) table name, from every initialization:
+   * a query cached before a relation lost its last tuple still names the
+   * table it had.
+   */
+  private readonly relationsByTable = new Map<string, Set<string>>();
   
   // Cache for evaluator results
   private evaluatorCache: Map<string, IEvaluatorResult> = new Map();
@@ -301,6 +307,8 @@ export class SQLEvaluator implements IEvaluator {
       let tableName = base;
       for (let n = 2; taken.has(tableName); n++) tableName = `${base}_${n}`;
       taken.add(tableName);
+      const key = tableName.toLowerCase();
+      this.relationsByTable.set(key, (this.relationsByTable.get(key) ?? new Set()).add(name));
       this.createRelationTable(name, tableName, group);
     }
   }
@@ -402,6 +410,18 @@ export class SQLEvaluator implements IEvaluator {
     return [...this.tableSchemas];
   }
 
+  /**
+   * The relations whose tables the query names. A query reads only the
+   * tables it names, and SQL identifiers are case-insensitive.
+   */
+  dependencies(expression: string): ReadonlySet<string> {
+    const relations = new Set<string>();
+    for (const identifier of expression.match(/[A-Za-z_][\w$]*/g) ?? []) {
+      this.relationsByTable.get(identifier.toLowerCase())?.forEach(name => relations.add(name));
+    }
+    return relations;
+  }
+
   /**
    * Evaluate a SQL expression against the data instance
    * 
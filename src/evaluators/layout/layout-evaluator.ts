@@ -5,12 +5,18 @@
  * modal methods (must/can/cannot). Group queries (grouped/contains) are
  * resolved locally from InstanceLayout group data.
  *
+ * Heterogeneous queries cross into the data layer: a `{ selector }` is handed
+ * to a data evaluator (any IEvaluator — SGraphQueryEvaluator, SQL, Forge) and
+ * its atoms feed a spatial query, so `must.leftOf({ val > 10 })` asks what must
+ * be left of every node the data says has a value over 10. Run them through
+ * evaluateHeterogeneous(), which supplies the data evaluator.
+ *
  * All query results are returned as IEvaluatorResult for REPL compatibility.
  */
 
 import { QualitativeConstraintValidator } from '../../layout/qualitative-constraint-validator';
 import { InstanceLayout, LayoutEdge, LayoutGroup, LayoutNode } from '../../layout/interfaces';
-import {
+import IEvaluator, {
     IEvaluatorResult, EvaluatorResult, SingleValue, Tuple
 } from '../../evaluator-contracts';
 import { parse as parseQueryExpr } from './layout-query-parser';
@@ -20,6 +26,12 @@ import { parse as parseQueryExpr } from './layout-query-parser';
 export type DirectionalRelation = 'leftOf' | 'rightOf' | 'above' | 'below';
 export type AlignmentAxis = 'x' | 'y';
 export type Modality = 'must' | 'can' | 'cannot';
+export type Quantifier = 'all' | 'some';
+
+/** The spatial test a quantified query applies to each tuple: is target in check(source)? */
+export type SpatialCheck =
+    | { kind: 'directional'; modality: Modality; relation: DirectionalRelation }
+    | { kind: 'aligned'; modality: Modality; axis: AlignmentAxis };
 
 export type SpatialQuery =
     | { kind: 'directional'; modality: Modality; relation: DirectionalRelation; nodeId: string }
@@ -39,7 +51,12 @@ export type SpatialQuery =
     | { kind: 'allGroups' }
     | { kind: 'union'; operands: SpatialQuery[] }
     | { kind: 'intersection'; operands: SpatialQuery[] }
-    | { kind: 'negation'; operand: SpatialQuery };
+    | { kind: 'negation'; operand: SpatialQuery }
+    // Heterogeneous: `data` selectors are answered by the data evaluator.
+    | { kind: 'data'; selector: string }
+    | { kind: 'directionalAll'; modality: Modality; relation: DirectionalRelation; target: SpatialQuery }
+    | { kind: 'alignedAll'; modality: Modality; axis: AlignmentAxis; target: SpatialQuery }
+    | { kind: 'quantified'; quantifier: Quantifier; selector: string; check: SpatialCheck };
 
 // ─── Result wrapper ──────────────────────────────────────────────────
 
@@ -249,6 +266,59 @@ export class LayoutEvaluatorEdgeResult implements IEvaluatorResult {
     }
 }
 
+// ─── Check result (for quantified queries) ──────────────────────────
+
+/**
+ * The verdict of a quantified query. A single boolean, plus the tuples that
+ * decided it: the counterexamples when `all` fails, the witnesses when
+ * `some` holds.
+ */
+export class LayoutEvaluatorCheckResult implements IEvaluatorResult {
+    private holds: boolean;
+    private tuples: [string, string][];
+    private expr: string;
+    private err: { message: string; code?: string } | null;
+
+    constructor(holds: boolean, tuples: [string, string][], expr: string, error?: { message: string; code?: string }) {
+        this.holds = holds;
+        this.tuples = tuples;
+        this.expr = expr;
+        this.err = error ?? null;
+    }
+
+    static error(message: string, expr: string): LayoutEvaluatorCheckResult {
+        return new LayoutEvaluatorCheckResult(false, [], expr, { message, code: 'LAYOUT_QUERY_ERROR' });
+    }
+
+    prettyPrint(): string {
+        if (this.err) return `Error: ${this.err.message}`;
+        if (this.tuples.length === 0) return String(this.holds);
+        return `${this.holds} (${this.tuples.map(([s, t]) => `${s}->${t}`).join(', ')})`;
+    }
+
+    noResult(): boolean { return false; }
+    singleResult(): SingleValue { return this.holds; }
+
+    selectedAtoms(): string[] {
+        return [...new Set(this.tuples.flat())].sort();
+    }
+
+    selectedTwoples(): string[][] { return this.tuples.map(([s, t]) => [s, t]); }
+    selectedTuplesAll(): string[][] { return this.selectedTwoples(); }
+    maxArity(): number { return 0; }
+    isError(): boolean { return this.err !== null; }
+    isSingleton(): boolean { return this.err === null; }
+    getExpression(): string { return this.expr; }
+
+    /** The counterexamples (failed `all`) or witnesses (held `some`). */
+    getTuples(): [string, string][] { return this.tuples.map(([s, t]) => [s, t]); }
+
+    getRawResult(): EvaluatorResult {
+        if (this.err) return { error: { message: this.err.message, code: this.err.code } };
+        return this.holds;
+    }
+}
+
 // ─── LayoutEvaluator ─────────────────────────────────────────────────
 
 export class LayoutEvaluator {
@@ -315,8 +385,13 @@ export class LayoutEvaluator {
         }
     }
 
-    /** Execute a spatial query and return the result. */
-    query(q: SpatialQuery): IEvaluatorResult {
+    /**
+     * Execute a spatial query and return the result.
+     *
+     * @param dataEvaluator - Answers the query's `data` selectors. Required only
+     *   when the query has any; see {@link evaluateHeterogeneous}.
+     */
+    query(q: SpatialQuery, dataEvaluator?: IEvaluator): IEvaluatorResult {
         const expr = this.queryToString(q);
         try {
             switch (q.kind) {
@@ -353,13 +428,13 @@ export class LayoutEvaluator {
                 case 'allGroups':
                     return new LayoutEvaluatorResult([...this.groupMembers.keys()].sort(), expr);
                 case 'union': {
-                    const sets = q.operands.map(op => this.evaluateToAtomSet(op));
+                    const sets = q.operands.map(op => this.evaluateToAtomSet(op, dataEvaluator));
                     const result = new Set<string>();
                     for (const s of sets) for (const v of s) result.add(v);
                     return LayoutEvaluatorResult.fromSet(result, expr);
                 }
                 case 'intersection': {
-                    const sets = q.operands.map(op => this.evaluateToAtomSet(op));
+                    const sets = q.operands.map(op => this.evaluateToAtomSet(op, dataEvaluator));
                     let result = sets[0];
                     for (let i = 1; i < sets.length; i++) {
                         const next = sets[i];
@@ -368,12 +443,29 @@ export class LayoutEvaluator {
                     return LayoutEvaluatorResult.fromSet(result, expr);
                 }
                 case 'negation': {
-                    const inner = this.evaluateToAtomSet(q.operand);
+                    const inner = this.evaluateToAtomSet(q.operand, dataEvaluator);
                     const result = new Set([...this.allNodeIds].filter(v => !inner.has(v)));
                     return LayoutEvaluatorResult.fromSet(result, expr);
                 }
+                case 'data':
+                    return LayoutEvaluatorResult.fromSet(this.evaluateDataSet(q.selector, dataEvaluator), expr);
+                case 'directionalAll': {
+                    const targets = this.evaluateToAtomSet(q.target, dataEvaluator);
+                    return LayoutEvaluatorResult.fromSet(this.intersectOver(targets, nodeId =>
+                        this.modalDirectional(q.modality, q.relation, nodeId)), expr);
+                }
+                case 'alignedAll': {
+                    const targets = this.evaluateToAtomSet(q.target, dataEvaluator);
+                    return LayoutEvaluatorResult.fromSet(this.intersectOver(targets, nodeId =>
+                        this.modalAligned(q.modality, q.axis, nodeId)), expr);
+                }
+                case 'quantified':
+                    return this.queryQuantified(q.quantifier, q.selector, q.check, dataEvaluator, expr);
             }
         } catch (e: any) {
+            if (q.kind === 'quantified') {
+                return LayoutEvaluatorCheckResult.error(e.message ?? String(e), expr);
+            }
             return LayoutEvaluatorResult.error(e.message ?? String(e), expr);
         }
     }
@@ -388,6 +480,28 @@ export class LayoutEvaluator {
         return this.query(parsed);
     }
 
+    /**
+     * Evaluate a query that mixes data selectors with spatial ones. Each
+     * `{ selector }` is evaluated by `dataEvaluator` — which must already be
+     * initialized over the instance this layout was generated from — and its
+     * atoms feed the surrounding spatial query:
+     *
+     *   { val > 10 }                  atoms the data selects (that are on the layout)
+     *   must.leftOf({ val > 10 })     what must be left of every one of them
+     *   all({ left }, must.leftOf)    for every left tuple p -> c: must c be left of p?
+     *   some({ next }, can.aligned.y) for some next tuple: can its ends share a row?
+     *
+     * Pure spatial queries evaluate exactly as through {@link evaluate}.
+     */
+    evaluateHeterogeneous(query: string | SpatialQuery, dataEvaluator: IEvaluator): IEvaluatorResult {
+        const parsed = typeof query === 'string' ? this.parseExpression(query) : query;
+        if (!parsed) {
+            return LayoutEvaluatorResult.error(
+                `Unrecognized spatial query: "${query as string}"`, query as string);
+        }
+        return this.query(parsed, dataEvaluator);
+    }
+
     /** Get all node IDs in the layout. */
     getAllNodeIds(): Set<string> {
         return new Set(this.allNodeIds);
@@ -401,13 +515,7 @@ export class LayoutEvaluator {
         if (!this.allNodeIds.has(nodeId)) {
             return LayoutEvaluatorResult.error(`Unknown node: "${nodeId}"`, expr);
         }
-        let result: Set<string>;
-        switch (modality) {
-            case 'must':    result = this.validator.getMust(nodeId, relation); break;
-            case 'cannot':  result = this.validator.getCannot(nodeId, relation); break;
-            case 'can':     result = this.validator.getCan(nodeId, relation); break;
-        }
-        return LayoutEvaluatorResult.fromSet(result, expr);
+        return LayoutEvaluatorResult.fromSet(this.modalDirectional(modality, relation, nodeId), expr);
     }
 
     private queryAligned(
@@ -416,13 +524,93 @@ export class LayoutEvaluator {
         if (!this.allNodeIds.has(nodeId)) {
             return LayoutEvaluatorResult.error(`Unknown node: "${nodeId}"`, expr);
         }
-        let result: Set<string>;
+        return LayoutEvaluatorResult.fromSet(this.modalAligned(modality, axis, nodeId), expr);
+    }
+
+    private modalDirectional(modality: Modality, relation: DirectionalRelation, nodeId: string): Set<string> {
         switch (modality) {
-            case 'must':    result = this.validator.getMustAligned(nodeId, axis); break;
-            case 'cannot':  result = this.validator.getCannotAligned(nodeId, axis); break;
-            case 'can':     result = this.validator.getCanAligned(nodeId, axis); break;
+            case 'must':    return this.validator.getMust(nodeId, relation);
+            case 'cannot':  return this.validator.getCannot(nodeId, relation);
+            case 'can':     return this.validator.getCan(nodeId, relation);
+        }
+    }
+
+    private modalAligned(modality: Modality, axis: AlignmentAxis, nodeId: string): Set<string> {
+        switch (modality) {
+            case 'must':    return this.validator.getMustAligned(nodeId, axis);
+            case 'cannot':  return this.validator.getCannotAligned(nodeId, axis);
+            case 'can':     return this.validator.getCanAligned(nodeId, axis);
         }
-        return LayoutEvaluatorResult.fromSet(result, expr);
+    }
+
+    /**
+     * The nodes in `per(n)` for every n in `targets`. Over an empty set this is
+     * every node — vacuously, each one stands in the relation to all of none —
+     * which is the honest answer and the one a caller should check for.
+     */
+    private intersectOver(targets: Set<string>, per: (nodeId: string) => Set<string>): Set<string> {
+        let result = new Set(this.allNodeIds);
+        for (const nodeId of targets) {
+            const next = per(nodeId);
+            result = new Set([...result].filter(v => next.has(v)));
+        }
+        return result;
+    }
+
+    /**
+     * Atoms a data selector returns, restricted to nodes on this layout: an
+     * atom that was hidden (or never drawn) has no position to ask about.
+     * The selector must be unary.
+     */
+    private evaluateDataSet(selector: string, dataEvaluator: IEvaluator | undefined): Set<string> {
+        const result = this.evaluateData(selector, dataEvaluator);
+        if (result.maxArity() > 1) {
+            throw new Error(`Data selector { ${selector} } must be unary here; it returned arity ${result.maxArity()}`);
+        }
+        return new Set(result.selectedAtoms().filter(id => this.allNodeIds.has(id)));
+    }
+
+    private evaluateData(selector: string, dataEvaluator: IEvaluator | undefined): IEvaluatorResult {
+        if (!dataEvaluator) {
+            throw new Error(`Data selector { ${selector} } needs a data evaluator; use evaluateHeterogeneous()`);
+        }
+        const result = dataEvaluator.evaluate(selector);
+        if (result.isError()) {
+            throw new Error(`Data selector { ${selector} } failed: ${result.prettyPrint()}`);
+        }
+        return result;
+    }
+
+    /**
+     * For each tuple of a binary data selector, read as source -> target (first
+     * and last column), ask whether target is in check(source). Tuples with an
+     * end off the layout are skipped, as they have no position. `all` holds when
+     * every tuple passes and reports the failures; `some` holds when one passes
+     * and reports every tuple that does.
+     */
+    private queryQuantified(
+        quantifier: Quantifier,
+        selector: string,
+        check: SpatialCheck,
+        dataEvaluator: IEvaluator | undefined,
+        expr: string
+    ): LayoutEvaluatorCheckResult {
+        const result = this.evaluateData(selector, dataEvaluator);
+        if (!result.noResult() && result.maxArity() < 2) {
+            throw new Error(`Data selector { ${selector} } must return tuples (arity 2+) to quantify over`);
+        }
+        const passing: [string, string][] = [];
+        const failing: [string, string][] = [];
+        for (const [source, target] of result.selectedTwoples()) {
+            if (!this.allNodeIds.has(source) || !this.allNodeIds.has(target)) continue;
+            const related = check.kind === 'directional'
+                ? this.modalDirectional(check.modality, check.relation, source)
+                : this.modalAligned(check.modality, check.axis, source);
+            (related.has(target) ? passing : failing).push([source, target]);
+        }
+        return quantifier === 'all'
+            ? new LayoutEvaluatorCheckResult(failing.length === 0, failing, expr)
+            : new LayoutEvaluatorCheckResult(passing.length > 0, passing, expr);
     }
 
     private queryGrouped(nodeId: string, expr: string): LayoutEvaluatorResult {
@@ -496,8 +684,8 @@ export class LayoutEvaluator {
      * Recursively evaluate a sub-query and extract its atom set.
      * Throws if the sub-query returns a non-atom result (record or edge result).
      */
-    private evaluateToAtomSet(q: SpatialQuery): Set<string> {
-        const result = this.query(q);
+    private evaluateToAtomSet(q: SpatialQuery, dataEvaluator?: IEvaluator): Set<string> {
+        const result = this.query(q, dataEvaluator);
         if (result.isError()) {
             throw new Error(result.prettyPrint());
         }
@@ -507,6 +695,9 @@ export class LayoutEvaluator {
         if (result instanceof LayoutEvaluatorEdgeResult) {
             throw new Error(`Cannot use set operations on edge-returning query: ${this.queryToString(q)}`);
         }
+        if (result instanceof LayoutEvaluatorCheckResult) {
+            throw new Error(`Cannot use set operations on a quantified check: ${this.queryToString(q)}`);
+        }
         return new Set(result.selectedAtoms());
     }
 
@@ -577,6 +768,10 @@ export class LayoutEvaluator {
      *   node(A)             edges(A)           edges(A, B)
      *   nodes()             groups()
      *   union(expr, expr)   inter(expr, expr)  not(expr)
+     *
+     * Heterogeneous forms (run via evaluateHeterogeneous):
+     *   { selector }        must.leftOf({ selector })   can.aligned.y(set)
+     *   all({ selector }, must.leftOf)                  some({ selector }, can.aligned.x)
      */
     parseExpression(expr: string): SpatialQuery | null {
         try {
@@ -606,6 +801,15 @@ export class LayoutEvaluator {
             case 'union': return `union(${q.operands.map(o => this.queryToString(o)).join(', ')})`;
             case 'intersection': return `inter(${q.operands.map(o => this.queryToString(o)).join(', ')})`;
             case 'negation': return `not(${this.queryToString(q.operand)})`;
+            case 'data': return `{ ${q.selector} }`;
+            case 'directionalAll': return `${q.modality}.${q.relation}(${this.queryToString(q.target)})`;
+            case 'alignedAll': return `${q.modality}.aligned.${q.axis}(${this.queryToString(q.target)})`;
+            case 'quantified': {
+                const check = q.check.kind === 'directional'
+                    ? `${q.check.modality}.${q.check.relation}`
+                    : `${q.check.modality}.aligned.${q.check.axis}`;
+                return `${q.quantifier}({ ${q.selector} }, ${check})`;
+            }
         }
     }
 }
@@ -324,19 +324,24 @@ function peg$parse(input, options) {
   var peg$c16 = "hidden()";
   var peg$c17 = "sized(";
   var peg$c18 = "cyclic(";
-  var peg$c19 = "must";
-  var peg$c20 = "cannot";
-  var peg$c21 = "can";
-  var peg$c22 = "leftOf";
-  var peg$c23 = "rightOf";
-  var peg$c24 = "above";
-  var peg$c25 = "below";
-  var peg$c26 = "x";
-  var peg$c27 = "y";
-
-  var peg$r0 = /^[a-zA-Z0-9_$]/;
-  var peg$r1 = /^[0-9]/;
-  var peg$r2 = /^[ \t\n\r]/;
+  var peg$c19 = "all";
+  var peg$c20 = "some";
+  var peg$c21 = "{";
+  var peg$c22 = "}";
+  var peg$c23 = "must";
+  var peg$c24 = "cannot";
+  var peg$c25 = "can";
+  var peg$c26 = "leftOf";
+  var peg$c27 = "rightOf";
+  var peg$c28 = "above";
+  var peg$c29 = "below";
+  var peg$c30 = "x";
+  var peg$c31 = "y";
+
+  var peg$r0 = /^[^{}]/;
+  var peg$r1 = /^[a-zA-Z0-9_$]/;
+  var peg$r2 = /^[0-9]/;
+  var peg$r3 = /^[ \t\n\r]/;
 
   var peg$e0 = peg$literalExpectation("union(", false);
   var peg$e1 = peg$literalExpectation(",", false);
@@ -357,19 +362,24 @@ function peg$parse(input, options) {
   var peg$e16 = peg$literalExpectation("hidden()", false);
   var peg$e17 = peg$literalExpectation("sized(", false);
   var peg$e18 = peg$literalExpectation("cyclic(", false);
-  var peg$e19 = peg$literalExpectation("must", false);
-  var peg$e20 = peg$literalExpectation("cannot", false);
-  var peg$e21 = peg$literalExpectation("can", false);
-  var peg$e22 = peg$literalExpectation("leftOf", false);
-  var peg$e23 = peg$literalExpectation("rightOf", false);
-  var peg$e24 = peg$literalExpectation("above", false);
-  var peg$e25 = peg$literalExpectation("below", false);
-  var peg$e26 = peg$literalExpectation("x", false);
-  var peg$e27 = peg$literalExpectation("y", false);
-  var peg$e28 = peg$classExpectation([["a", "z"], ["A", "Z"], ["0", "9"], "_", "$"], false, false);
-  var peg$e29 = peg$classExpectation([["0", "9"]], false, false);
-  var peg$e30 = peg$otherExpectation("whitespace");
-  var peg$e31 = peg$classExpectation([" ", "\t", "\n", "\r"], false, false);
+  var peg$e19 = peg$literalExpectation("all", false);
+  var peg$e20 = peg$literalExpectation("some", false);
+  var peg$e21 = peg$literalExpectation("{", false);
+  var peg$e22 = peg$literalExpectation("}", false);
+  var peg$e23 = peg$classExpectation(["{", "}"], true, false);
+  var peg$e24 = peg$literalExpectation("must", false);
+  var peg$e25 = peg$literalExpectation("cannot", false);
+  var peg$e26 = peg$literalExpectation("can", false);
+  var peg$e27 = peg$literalExpectation("leftOf", false);
+  var peg$e28 = peg$literalExpectation("rightOf", false);
+  var peg$e29 = peg$literalExpectation("above", false);
+  var peg$e30 = peg$literalExpectation("below", false);
+  var peg$e31 = peg$literalExpectation("x", false);
+  var peg$e32 = peg$literalExpectation("y", false);
+  var peg$e33 = peg$classExpectation([["a", "z"], ["A", "Z"], ["0", "9"], "_", "$"], false, false);
+  var peg$e34 = peg$classExpectation([["0", "9"]], false, false);
+  var peg$e35 = peg$otherExpectation("whitespace");
+  var peg$e36 = peg$classExpectation([" ", "\t", "\n", "\r"], false, false);
 // @ts-ignore
 
   var peg$f0 = function(expr) {// @ts-ignore
@@ -394,108 +404,147 @@ function peg$parse(input, options) {
       return { kind: 'negation', operand: expr };
     };// @ts-ignore
 
-  var peg$f4 = function(modality, axis, nodeId) {
+  var peg$f4 = function(modality, axis, target) {
+// @ts-ignore
+      return { kind: 'alignedAll', modality, axis, target };
+    };// @ts-ignore
+
+  var peg$f5 = function(modality, relation, target) {
+// @ts-ignore
+      return { kind: 'directionalAll', modality, relation, target };
+    };// @ts-ignore
+
+  var peg$f6 = function(modality, axis, nodeId) {
 // @ts-ignore
       return { kind: 'aligned', modality, axis, nodeId };
     };// @ts-ignore
 
-  var peg$f5 = function(modality, relation, nodeId) {
+  var peg$f7 = function(modality, relation, nodeId) {
 // @ts-ignore
       return { kind: 'directional', modality, relation, nodeId };
     };// @ts-ignore
 
-  var peg$f6 = function(relation, nodeId) {
+  var peg$f8 = function(relation, nodeId) {
 // @ts-ignore
       return { kind: 'reachable', relation, nodeId };
     };// @ts-ignore
 
-  var peg$f7 = function(axis, nodeId) {
+  var peg$f9 = function(axis, nodeId) {
 // @ts-ignore
       return { kind: 'alignedWith', axis, nodeId };
     };// @ts-ignore
 
-  var peg$f8 = function(nodeId) {
+  var peg$f10 = function(nodeId) {
 // @ts-ignore
       return { kind: 'nodeInfo', nodeId };
     };// @ts-ignore
 
-  var peg$f9 = function(a, b) {
+  var peg$f11 = function(a, b) {
 // @ts-ignore
       return { kind: 'edgesBetween', nodeIdA: a, nodeIdB: b };
     };// @ts-ignore
 
-  var peg$f10 = function(nodeId) {
+  var peg$f12 = function(nodeId) {
 // @ts-ignore
       return { kind: 'edgesOf', nodeId };
     };// @ts-ignore
 
-  var peg$f11 = function() {// @ts-ignore
+  var peg$f13 = function() {// @ts-ignore
  return { kind: 'allNodes' }; };// @ts-ignore
 
-  var peg$f12 = function() {// @ts-ignore
+  var peg$f14 = function() {// @ts-ignore
  return { kind: 'allGroups' }; };// @ts-ignore
 
-  var peg$f13 = function(head, tail) {
+  var peg$f15 = function(head, tail) {
 // @ts-ignore
       const nodeIds = [head, ...tail.map((t: any) => t[3])];
 // @ts-ignore
       return { kind: 'groupedTogether', nodeIds };
     };// @ts-ignore
 
-  var peg$f14 = function(nodeId) {
+  var peg$f16 = function(nodeId) {
 // @ts-ignore
       return { kind: 'grouped', nodeId };
     };// @ts-ignore
 
-  var peg$f15 = function(name) {
+  var peg$f17 = function(name) {
 // @ts-ignore
       return { kind: 'contains', groupName: name };
     };// @ts-ignore
 
-  var peg$f16 = function() {// @ts-ignore
+  var peg$f18 = function() {// @ts-ignore
  return { kind: 'hidden' }; };// @ts-ignore
 
-  var peg$f17 = function(width, height) {
+  var peg$f19 = function(width, height) {
 // @ts-ignore
       return { kind: 'sized', width, height };
     };// @ts-ignore
 
-  var peg$f18 = function(nodeId) {
+  var peg$f20 = function(nodeId) {
 // @ts-ignore
       return { kind: 'cyclic', nodeId };
     };// @ts-ignore
 
-  var peg$f19 = function() {// @ts-ignore
+  var peg$f21 = function(selector) {
+// @ts-ignore
+      return { kind: 'data', selector };
+    };// @ts-ignore
+
+  var peg$f22 = function(quantifier, selector, check) {
+// @ts-ignore
+      return { kind: 'quantified', quantifier, selector, check };
+    };// @ts-ignore
+
+  var peg$f23 = function(modality, axis) {
+// @ts-ignore
+      return { kind: 'aligned', modality, axis };
+    };// @ts-ignore
+
+  var peg$f24 = function(modality, relation) {
+// @ts-ignore
+      return { kind: 'directional', modality, relation };
+    };// @ts-ignore
+
+  var peg$f25 = function() {// @ts-ignore
+ return 'all'; };// @ts-ignore
+
+  var peg$f26 = function() {// @ts-ignore
+ return 'some'; };// @ts-ignore
+
+  var peg$f27 = function(body) {// @ts-ignore
+ return body.trim(); };// @ts-ignore
+
+  var peg$f28 = function() {// @ts-ignore
  return 'must'; };// @ts-ignore
 
-  var peg$f20 = function() {// @ts-ignore
+  var peg$f29 = function() {// @ts-ignore
  return 'cannot'; };// @ts-ignore
 
-  var peg$f21 = function() {// @ts-ignore
+  var peg$f30 = function() {// @ts-ignore
  return 'can'; };// @ts-ignore
 
-  var peg$f22 = function() {// @ts-ignore
+  var peg$f31 = function() {// @ts-ignore
  return 'leftOf'; };// @ts-ignore
 
-  var peg$f23 = function() {// @ts-ignore
+  var peg$f32 = function() {// @ts-ignore
  return 'rightOf'; };// @ts-ignore
 
-  var peg$f24 = function() {// @ts-ignore
+  var peg$f33 = function() {// @ts-ignore
  return 'above'; };// @ts-ignore
 
-  var peg$f25 = function() {// @ts-ignore
+  var peg$f34 = function() {// @ts-ignore
  return 'below'; };// @ts-ignore
 
-  var peg$f26 = function() {// @ts-ignore
+  var peg$f35 = function() {// @ts-ignore
  return 'x'; };// @ts-ignore
 
-  var peg$f27 = function() {// @ts-ignore
+  var peg$f36 = function() {// @ts-ignore
  return 'y'; };// @ts-ignore
 
-  var peg$f28 = function(chars) {// @ts-ignore
+  var peg$f37 = function(chars) {// @ts-ignore
  return chars; };// @ts-ignore
 
-  var peg$f29 = function(digits) {// @ts-ignore
+  var peg$f38 = function(digits) {// @ts-ignore
  return parseFloat(digits); };
 // @ts-ignore
   var peg$currPos = 0;
@@ -806,7 +855,12 @@ peg$parseComposite() {
 // @ts-ignore
         if (s0 === peg$FAILED) {
 // @ts-ignore
-          s0 = peg$parseAtomicQuery();
+          s0 = peg$parseQuantified();
+// @ts-ignore
+          if (s0 === peg$FAILED) {
+// @ts-ignore
+            s0 = peg$parseAtomicQuery();
+          }
         }
       }
     }
@@ -1268,63 +1322,78 @@ peg$parseAtomicQuery() {
     var s0;
 
 // @ts-ignore
-    s0 = peg$parseModalAligned();
+    s0 = peg$parseDataSet();
 // @ts-ignore
     if (s0 === peg$FAILED) {
 // @ts-ignore
-      s0 = peg$parseModalDirectional();
+      s0 = peg$parseModalAlignedAll();
 // @ts-ignore
       if (s0 === peg$FAILED) {
 // @ts-ignore
-        s0 = peg$parseReachable();
+        s0 = peg$parseModalAligned();
 // @ts-ignore
         if (s0 === peg$FAILED) {
 // @ts-ignore
-          s0 = peg$parseAlignedWith();
+          s0 = peg$parseModalDirectionalAll();
 // @ts-ignore
           if (s0 === peg$FAILED) {
 // @ts-ignore
-            s0 = peg$parseNodeInfo();
+            s0 = peg$parseModalDirectional();
 // @ts-ignore
             if (s0 === peg$FAILED) {
 // @ts-ignore
-              s0 = peg$parseEdgesBetween();
+              s0 = peg$parseReachable();
 // @ts-ignore
               if (s0 === peg$FAILED) {
 // @ts-ignore
-                s0 = peg$parseEdgesOf();
+                s0 = peg$parseAlignedWith();
 // @ts-ignore
                 if (s0 === peg$FAILED) {
 // @ts-ignore
-                  s0 = peg$parseAllNodes();
+                  s0 = peg$parseNodeInfo();
 // @ts-ignore
                   if (s0 === peg$FAILED) {
 // @ts-ignore
-                    s0 = peg$parseAllGroups();
+                    s0 = peg$parseEdgesBetween();
 // @ts-ignore
                     if (s0 === peg$FAILED) {
 // @ts-ignore
-                      s0 = peg$parseGroupedTogether();
+                      s0 = peg$parseEdgesOf();
 // @ts-ignore
                       if (s0 === peg$FAILED) {
 // @ts-ignore
-                        s0 = peg$parseGrouped();
+                        s0 = peg$parseAllNodes();
 // @ts-ignore
                         if (s0 === peg$FAILED) {
 // @ts-ignore
-                          s0 = peg$parseContains();
+                          s0 = peg$parseAllGroups();
 // @ts-ignore
                           if (s0 === peg$FAILED) {
 // @ts-ignore
-                            s0 = peg$parseHidden();
+                            s0 = peg$parseGroupedTogether();
 // @ts-ignore
                             if (s0 === peg$FAILED) {
 // @ts-ignore
-                              s0 = peg$parseSized();
+                              s0 = peg$parseGrouped();
 // @ts-ignore
                               if (s0 === peg$FAILED) {
 // @ts-ignore
-                                s0 = peg$parseCyclic();
+                                s0 = peg$parseContains();
+// @ts-ignore
+                                if (s0 === peg$FAILED) {
+// @ts-ignore
+                                  s0 = peg$parseHidden();
+// @ts-ignore
+                                  if (s0 === peg$FAILED) {
+// @ts-ignore
+                                    s0 = peg$parseSized();
+// @ts-ignore
+                                    if (s0 === peg$FAILED) {
+// @ts-ignore
+                                      s0 = peg$parseCyclic();
+                                    }
+                                  }
+                                }
                               }
                             }
                           }
@@ -1346,9 +1415,9 @@ peg$parseAtomicQuery() {
 
 // @ts-ignore
   function // @ts-ignore
-peg$parseModalAligned() {
+peg$parseModalAlignedAll() {
 // @ts-ignore
-    var s0, s1, s2, s3, s4, s5, s6;
+    var s0, s1, s2, s3, s4, s5, s6, s7, s8;
 
 // @ts-ignore
     s0 = peg$currPos;
@@ -1391,28 +1460,32 @@ peg$parseModalAligned() {
 // @ts-ignore
           if (s4 !== peg$FAILED) {
 // @ts-ignore
-            s5 = peg$parseIdentifier();
+            s5 = peg$parse_();
 // @ts-ignore
-            if (s5 !== peg$FAILED) {
+            s6 = peg$parseSetArgument();
+// @ts-ignore
+            if (s6 !== peg$FAILED) {
+// @ts-ignore
+              s7 = peg$parse_();
 // @ts-ignore
               if (input.charCodeAt(peg$currPos) === 41) {
 // @ts-ignore
-                s6 = peg$c2;
+                s8 = peg$c2;
 // @ts-ignore
                 peg$currPos++;
 // @ts-ignore
               } else {
 // @ts-ignore
-                s6 = peg$FAILED;
+                s8 = peg$FAILED;
 // @ts-ignore
                 if (peg$silentFails === 0) { peg$fail(peg$e2); }
               }
 // @ts-ignore
-              if (s6 !== peg$FAILED) {
+              if (s8 !== peg$FAILED) {
 // @ts-ignore
                 peg$savedPos = s0;
 // @ts-ignore
-                s0 = peg$f4(s1, s3, s5);
+                s0 = peg$f4(s1, s3, s6);
 // @ts-ignore
               } else {
 // @ts-ignore
@@ -1462,9 +1535,9 @@ peg$parseModalAligned() {
 
 // @ts-ignore
   function // @ts-ignore
-peg$parseModalDirectional() {
+peg$parseModalDirectionalAll() {
 // @ts-ignore
-    var s0, s1, s2, s3, s4, s5, s6;
+    var s0, s1, s2, s3, s4, s5, s6, s7, s8;
 
 // @ts-ignore
     s0 = peg$currPos;
@@ -1507,28 +1580,32 @@ peg$parseModalDirectional() {
 // @ts-ignore
           if (s4 !== peg$FAILED) {
 // @ts-ignore
-            s5 = peg$parseIdentifier();
+            s5 = peg$parse_();
 // @ts-ignore
-            if (s5 !== peg$FAILED) {
+            s6 = peg$parseSetArgument();
+// @ts-ignore
+            if (s6 !== peg$FAILED) {
+// @ts-ignore
+              s7 = peg$parse_();
 // @ts-ignore
               if (input.charCodeAt(peg$currPos) === 41) {
 // @ts-ignore
-                s6 = peg$c2;
+                s8 = peg$c2;
 // @ts-ignore
                 peg$currPos++;
 // @ts-ignore
               } else {
 // @ts-ignore
-                s6 = peg$FAILED;
+                s8 = peg$FAILED;
 // @ts-ignore
                 if (peg$silentFails === 0) { peg$fail(peg$e2); }
               }
 // @ts-ignore
-              if (s6 !== peg$FAILED) {
+              if (s8 !== peg$FAILED) {
 // @ts-ignore
                 peg$savedPos = s0;
 // @ts-ignore
-                s0 = peg$f5(s1, s3, s5);
+                s0 = peg$f5(s1, s3, s6);
 // @ts-ignore
               } else {
 // @ts-ignore
@@ -1578,69 +1655,80 @@ peg$parseModalDirectional() {
 
 // @ts-ignore
   function // @ts-ignore
-peg$parseReachable() {
+peg$parseModalAligned() {
 // @ts-ignore
-    var s0, s1, s2, s3, s4, s5;
+    var s0, s1, s2, s3, s4, s5, s6;
 
 // @ts-ignore
     s0 = peg$currPos;
 // @ts-ignore
-    if (input.substr(peg$currPos, 10) === peg$c8) {
+    s1 = peg$parseModality();
 // @ts-ignore
-      s1 = peg$c8;
+    if (s1 !== peg$FAILED) {
 // @ts-ignore
-      peg$currPos += 10;
+      if (input.substr(peg$currPos, 9) === peg$c5) {
 // @ts-ignore
-    } else {
+        s2 = peg$c5;
 // @ts-ignore
-      s1 = peg$FAILED;
+        peg$currPos += 9;
 // @ts-ignore
-      if (peg$silentFails === 0) { peg$fail(peg$e8); }
-    }
+      } else {
 // @ts-ignore
-    if (s1 !== peg$FAILED) {
+        s2 = peg$FAILED;
 // @ts-ignore
-      s2 = peg$parseDirection();
+        if (peg$silentFails === 0) { peg$fail(peg$e5); }
+      }
 // @ts-ignore
       if (s2 !== peg$FAILED) {
 // @ts-ignore
-        if (input.charCodeAt(peg$currPos) === 40) {
+        s3 = peg$parseAxis();
 // @ts-ignore
-          s3 = peg$c6;
+        if (s3 !== peg$FAILED) {
 // @ts-ignore
-          peg$currPos++;
+          if (input.charCodeAt(peg$currPos) === 40) {
 // @ts-ignore
-        } else {
+            s4 = peg$c6;
 // @ts-ignore
-          s3 = peg$FAILED;
+            peg$currPos++;
 // @ts-ignore
-          if (peg$silentFails === 0) { peg$fail(peg$e6); }
-        }
+          } else {
 // @ts-ignore
-        if (s3 !== peg$FAILED) {
+            s4 = peg$FAILED;
 // @ts-ignore
-          s4 = peg$parseIdentifier();
+            if (peg$silentFails === 0) { peg$fail(peg$e6); }
+          }
 // @ts-ignore
           if (s4 !== peg$FAILED) {
 // @ts-ignore
-            if (input.charCodeAt(peg$currPos) === 41) {
+            s5 = peg$parseIdentifier();
 // @ts-ignore
-              s5 = peg$c2;
+            if (s5 !== peg$FAILED) {
 // @ts-ignore
-              peg$currPos++;
+              if (input.charCodeAt(peg$currPos) === 41) {
 // @ts-ignore
-            } else {
+                s6 = peg$c2;
 // @ts-ignore
-              s5 = peg$FAILED;
+                peg$currPos++;
 // @ts-ignore
-              if (peg$silentFails === 0) { peg$fail(peg$e2); }
-            }
+              } else {
 // @ts-ignore
-            if (s5 !== peg$FAILED) {
+                s6 = peg$FAILED;
 // @ts-ignore
-              peg$savedPos = s0;
+                if (peg$silentFails === 0) { peg$fail(peg$e2); }
+              }
+// @ts-ignore
+              if (s6 !== peg$FAILED) {
+// @ts-ignore
+                peg$savedPos = s0;
+// @ts-ignore
+                s0 = peg$f6(s1, s3, s5);
+// @ts-ignore
+              } else {
 // @ts-ignore
-              s0 = peg$f6(s2, s4);
+                peg$currPos = s0;
+// @ts-ignore
+                s0 = peg$FAILED;
+              }
 // @ts-ignore
             } else {
 // @ts-ignore
@@ -1683,69 +1771,80 @@ peg$parseReachable() {
 
 // @ts-ignore
   function // @ts-ignore
-peg$parseAlignedWith() {
+peg$parseModalDirectional() {
 // @ts-ignore
-    var s0, s1, s2, s3, s4, s5;
+    var s0, s1, s2, s3, s4, s5, s6;
 
 // @ts-ignore
     s0 = peg$currPos;
 // @ts-ignore
-    if (input.substr(peg$currPos, 12) === peg$c9) {
+    s1 = peg$parseModality();
 // @ts-ignore
-      s1 = peg$c9;
+    if (s1 !== peg$FAILED) {
 // @ts-ignore
-      peg$currPos += 12;
+      if (input.charCodeAt(peg$currPos) === 46) {
 // @ts-ignore
-    } else {
+        s2 = peg$c7;
 // @ts-ignore
-      s1 = peg$FAILED;
+        peg$currPos++;
 // @ts-ignore
-      if (peg$silentFails === 0) { peg$fail(peg$e9); }
-    }
+      } else {
 // @ts-ignore
-    if (s1 !== peg$FAILED) {
+        s2 = peg$FAILED;
 // @ts-ignore
-      s2 = peg$parseAxis();
+        if (peg$silentFails === 0) { peg$fail(peg$e7); }
+      }
 // @ts-ignore
       if (s2 !== peg$FAILED) {
 // @ts-ignore
-        if (input.charCodeAt(peg$currPos) === 40) {
+        s3 = peg$parseDirection();
 // @ts-ignore
-          s3 = peg$c6;
+        if (s3 !== peg$FAILED) {
 // @ts-ignore
-          peg$currPos++;
+          if (input.charCodeAt(peg$currPos) === 40) {
 // @ts-ignore
-        } else {
+            s4 = peg$c6;
 // @ts-ignore
-          s3 = peg$FAILED;
+            peg$currPos++;
 // @ts-ignore
-          if (peg$silentFails === 0) { peg$fail(peg$e6); }
-        }
+          } else {
 // @ts-ignore
-        if (s3 !== peg$FAILED) {
+            s4 = peg$FAILED;
 // @ts-ignore
-          s4 = peg$parseIdentifier();
+            if (peg$silentFails === 0) { peg$fail(peg$e6); }
+          }
 // @ts-ignore
           if (s4 !== peg$FAILED) {
 // @ts-ignore
-            if (input.charCodeAt(peg$currPos) === 41) {
+            s5 = peg$parseIdentifier();
 // @ts-ignore
-              s5 = peg$c2;
+            if (s5 !== peg$FAILED) {
 // @ts-ignore
-              peg$currPos++;
+              if (input.charCodeAt(peg$currPos) === 41) {
 // @ts-ignore
-            } else {
+                s6 = peg$c2;
 // @ts-ignore
-              s5 = peg$FAILED;
+                peg$currPos++;
 // @ts-ignore
-              if (peg$silentFails === 0) { peg$fail(peg$e2); }
-            }
+              } else {
 // @ts-ignore
-            if (s5 !== peg$FAILED) {
+                s6 = peg$FAILED;
 // @ts-ignore
-              peg$savedPos = s0;
+                if (peg$silentFails === 0) { peg$fail(peg$e2); }
+              }
+// @ts-ignore
+              if (s6 !== peg$FAILED) {
 // @ts-ignore
-              s0 = peg$f7(s2, s4);
+                peg$savedPos = s0;
+// @ts-ignore
+                s0 = peg$f7(s1, s3, s5);
+// @ts-ignore
+              } else {
+// @ts-ignore
+                peg$currPos = s0;
+// @ts-ignore
+                s0 = peg$FAILED;
+              }
 // @ts-ignore
             } else {
 // @ts-ignore
@@ -1788,35 +1887,35 @@ peg$parseAlignedWith() {
 
 // @ts-ignore
   function // @ts-ignore
-peg$parseNodeInfo() {
+peg$parseReachable() {
 // @ts-ignore
-    var s0, s1, s2, s3;
+    var s0, s1, s2, s3, s4, s5;
 
 // @ts-ignore
     s0 = peg$currPos;
 // @ts-ignore
-    if (input.substr(peg$currPos, 5) === peg$c10) {
+    if (input.substr(peg$currPos, 10) === peg$c8) {
 // @ts-ignore
-      s1 = peg$c10;
+      s1 = peg$c8;
 // @ts-ignore
-      peg$currPos += 5;
+      peg$currPos += 10;
 // @ts-ignore
     } else {
 // @ts-ignore
       s1 = peg$FAILED;
 // @ts-ignore
-      if (peg$silentFails === 0) { peg$fail(peg$e10); }
+      if (peg$silentFails === 0) { peg$fail(peg$e8); }
     }
 // @ts-ignore
     if (s1 !== peg$FAILED) {
 // @ts-ignore
-      s2 = peg$parseIdentifier();
+      s2 = peg$parseDirection();
 // @ts-ignore
       if (s2 !== peg$FAILED) {
 // @ts-ignore
-        if (input.charCodeAt(peg$currPos) === 41) {
+        if (input.charCodeAt(peg$currPos) === 40) {
 // @ts-ignore
-          s3 = peg$c2;
+          s3 = peg$c6;
 // @ts-ignore
           peg$currPos++;
 // @ts-ignore
@@ -1824,14 +1923,47 @@ peg$parseNodeInfo() {
 // @ts-ignore
           s3 = peg$FAILED;
 // @ts-ignore
-          if (peg$silentFails === 0) { peg$fail(peg$e2); }
+          if (peg$silentFails === 0) { peg$fail(peg$e6); }
         }
 // @ts-ignore
         if (s3 !== peg$FAILED) {
 // @ts-ignore
-          peg$savedPos = s0;
+          s4 = peg$parseIdentifier();
+// @ts-ignore
+          if (s4 !== peg$FAILED) {
+// @ts-ignore
+            if (input.charCodeAt(peg$currPos) === 41) {
+// @ts-ignore
+              s5 = peg$c2;
+// @ts-ignore
+              peg$currPos++;
+// @ts-ignore
+            } else {
+// @ts-ignore
+              s5 = peg$FAILED;
+// @ts-ignore
+              if (peg$silentFails === 0) { peg$fail(peg$e2); }
+            }
+// @ts-ignore
+            if (s5 !== peg$FAILED) {
+// @ts-ignore
+              peg$savedPos = s0;
+// @ts-ignore
+              s0 = peg$f8(s2, s4);
+// @ts-ignore
+            } else {
+// @ts-ignore
+              peg$currPos = s0;
+// @ts-ignore
+              s0 = peg$FAILED;
+            }
+// @ts-ignore
+          } else {
 // @ts-ignore
-          s0 = peg$f8(s2);
+            peg$currPos = s0;
+// @ts-ignore
+            s0 = peg$FAILED;
+          }
 // @ts-ignore
         } else {
 // @ts-ignore
@@ -1860,16 +1992,193 @@ peg$parseNodeInfo() {
 
 // @ts-ignore
   function // @ts-ignore
-peg$parseEdgesBetween() {
+peg$parseAlignedWith() {
 // @ts-ignore
-    var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9;
+    var s0, s1, s2, s3, s4, s5;
 
 // @ts-ignore
     s0 = peg$currPos;
 // @ts-ignore
-    if (input.substr(peg$currPos, 6) === peg$c11) {
+    if (input.substr(peg$currPos, 12) === peg$c9) {
 // @ts-ignore
-      s1 = peg$c11;
+      s1 = peg$c9;
+// @ts-ignore
+      peg$currPos += 12;
+// @ts-ignore
+    } else {
+// @ts-ignore
+      s1 = peg$FAILED;
+// @ts-ignore
+      if (peg$silentFails === 0) { peg$fail(peg$e9); }
+    }
+// @ts-ignore
+    if (s1 !== peg$FAILED) {
+// @ts-ignore
+      s2 = peg$parseAxis();
+// @ts-ignore
+      if (s2 !== peg$FAILED) {
+// @ts-ignore
+        if (input.charCodeAt(peg$currPos) === 40) {
+// @ts-ignore
+          s3 = peg$c6;
+// @ts-ignore
+          peg$currPos++;
+// @ts-ignore
+        } else {
+// @ts-ignore
+          s3 = peg$FAILED;
+// @ts-ignore
+          if (peg$silentFails === 0) { peg$fail(peg$e6); }
+        }
+// @ts-ignore
+        if (s3 !== peg$FAILED) {
+// @ts-ignore
+          s4 = peg$parseIdentifier();
+// @ts-ignore
+          if (s4 !== peg$FAILED) {
+// @ts-ignore
+            if (input.charCodeAt(peg$currPos) === 41) {
+// @ts-ignore
+              s5 = peg$c2;
+// @ts-ignore
+              peg$currPos++;
+// @ts-ignore
+            } else {
+// @ts-ignore
+              s5 = peg$FAILED;
+// @ts-ignore
+              if (peg$silentFails === 0) { peg$fail(peg$e2); }
+            }
+// @ts-ignore
+            if (s5 !== peg$FAILED) {
+// @ts-ignore
+              peg$savedPos = s0;
+// @ts-ignore
+              s0 = peg$f9(s2, s4);
+// @ts-ignore
+            } else {
+// @ts-ignore
+              peg$currPos = s0;
+// @ts-ignore
+              s0 = peg$FAILED;
+            }
+// @ts-ignore
+          } else {
+// @ts-ignore
+            peg$currPos = s0;
+// @ts-ignore
+            s0 = peg$FAILED;
+          }
+// @ts-ignore
+        } else {
+// @ts-ignore
+          peg$currPos = s0;
+// @ts-ignore
+          s0 = peg$FAILED;
+        }
+// @ts-ignore
+      } else {
+// @ts-ignore
+        peg$currPos = s0;
+// @ts-ignore
+        s0 = peg$FAILED;
+      }
+// @ts-ignore
+    } else {
+// @ts-ignore
+      peg$currPos = s0;
+// @ts-ignore
+      s0 = peg$FAILED;
+    }
+
+// @ts-ignore
+    return s0;
+  }
+
+// @ts-ignore
+  function // @ts-ignore
+peg$parseNodeInfo() {
+// @ts-ignore
+    var s0, s1, s2, s3;
+
+// @ts-ignore
+    s0 = peg$currPos;
+// @ts-ignore
+    if (input.substr(peg$currPos, 5) === peg$c10) {
+// @ts-ignore
+      s1 = peg$c10;
+// @ts-ignore
+      peg$currPos += 5;
+// @ts-ignore
+    } else {
+// @ts-ignore
+      s1 = peg$FAILED;
+// @ts-ignore
+      if (peg$silentFails === 0) { peg$fail(peg$e10); }
+    }
+// @ts-ignore
+    if (s1 !== peg$FAILED) {
+// @ts-ignore
+      s2 = peg$parseIdentifier();
+// @ts-ignore
+      if (s2 !== peg$FAILED) {
+// @ts-ignore
+        if (input.charCodeAt(peg$currPos) === 41) {
+// @ts-ignore
+          s3 = peg$c2;
+// @ts-ignore
+          peg$currPos++;
+// @ts-ignore
+        } else {
+// @ts-ignore
+          s3 = peg$FAILED;
+// @ts-ignore
+          if (peg$silentFails === 0) { peg$fail(peg$e2); }
+        }
+// @ts-ignore
+        if (s3 !== peg$FAILED) {
+// @ts-ignore
+          peg$savedPos = s0;
+// @ts-ignore
+          s0 = peg$f10(s2);
+// @ts-ignore
+        } else {
+// @ts-ignore
+          peg$currPos = s0;
+// @ts-ignore
+          s0 = peg$FAILED;
+        }
+// @ts-ignore
+      } else {
+// @ts-ignore
+        peg$currPos = s0;
+// @ts-ignore
+        s0 = peg$FAILED;
+      }
+// @ts-ignore
+    } else {
+// @ts-ignore
+      peg$currPos = s0;
+// @ts-ignore
+      s0 = peg$FAILED;
+    }
+
+// @ts-ignore
+    return s0;
+  }
+
+// @ts-ignore
+  function // @ts-ignore
+peg$parseEdgesBetween() {
+// @ts-ignore
+    var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9;
+
+// @ts-ignore
+    s0 = peg$currPos;
+// @ts-ignore
+    if (input.substr(peg$currPos, 6) === peg$c11) {
+// @ts-ignore
+      s1 = peg$c11;
 // @ts-ignore
       peg$currPos += 6;
 // @ts-ignore
@@ -1930,7 +2239,7 @@ peg$parseEdgesBetween() {
 // @ts-ignore
               peg$savedPos = s0;
 // @ts-ignore
-              s0 = peg$f9(s3, s7);
+              s0 = peg$f11(s3, s7);
 // @ts-ignore
             } else {
 // @ts-ignore
@@ -2020,7 +2329,7 @@ peg$parseEdgesOf() {
 // @ts-ignore
           peg$savedPos = s0;
 // @ts-ignore
-          s0 = peg$f10(s3);
+          s0 = peg$f12(s3);
 // @ts-ignore
         } else {
 // @ts-ignore
@@ -2073,7 +2382,7 @@ peg$parseAllNodes() {
 // @ts-ignore
       peg$savedPos = s0;
 // @ts-ignore
-      s1 = peg$f11();
+      s1 = peg$f13();
     }
 // @ts-ignore
     s0 = s1;
@@ -2108,7 +2417,7 @@ peg$parseAllGroups() {
 // @ts-ignore
       peg$savedPos = s0;
 // @ts-ignore
-      s1 = peg$f12();
+      s1 = peg$f14();
     }
 // @ts-ignore
     s0 = s1;
@@ -2268,7 +2577,7 @@ peg$parseGroupedTogether() {
 // @ts-ignore
             peg$savedPos = s0;
 // @ts-ignore
-            s0 = peg$f13(s3, s4);
+            s0 = peg$f15(s3, s4);
 // @ts-ignore
           } else {
 // @ts-ignore
@@ -2351,7 +2660,7 @@ peg$parseGrouped() {
 // @ts-ignore
           peg$savedPos = s0;
 // @ts-ignore
-          s0 = peg$f14(s3);
+          s0 = peg$f16(s3);
 // @ts-ignore
         } else {
 // @ts-ignore
@@ -2385,49 +2694,559 @@ peg$parseContains() {
     var s0, s1, s2, s3, s4, s5;
 
 // @ts-ignore
-    s0 = peg$currPos;
+    s0 = peg$currPos;
+// @ts-ignore
+    if (input.substr(peg$currPos, 9) === peg$c15) {
+// @ts-ignore
+      s1 = peg$c15;
+// @ts-ignore
+      peg$currPos += 9;
+// @ts-ignore
+    } else {
+// @ts-ignore
+      s1 = peg$FAILED;
+// @ts-ignore
+      if (peg$silentFails === 0) { peg$fail(peg$e15); }
+    }
+// @ts-ignore
+    if (s1 !== peg$FAILED) {
+// @ts-ignore
+      s2 = peg$parse_();
+// @ts-ignore
+      s3 = peg$parseIdentifier();
+// @ts-ignore
+      if (s3 !== peg$FAILED) {
+// @ts-ignore
+        s4 = peg$parse_();
+// @ts-ignore
+        if (input.charCodeAt(peg$currPos) === 41) {
+// @ts-ignore
+          s5 = peg$c2;
+// @ts-ignore
+          peg$currPos++;
+// @ts-ignore
+        } else {
+// @ts-ignore
+          s5 = peg$FAILED;
+// @ts-ignore
+          if (peg$silentFails === 0) { peg$fail(peg$e2); }
+        }
+// @ts-ignore
+        if (s5 !== peg$FAILED) {
+// @ts-ignore
+          peg$savedPos = s0;
+// @ts-ignore
+          s0 = peg$f17(s3);
+// @ts-ignore
+        } else {
+// @ts-ignore
+          peg$currPos = s0;
+// @ts-ignore
+          s0 = peg$FAILED;
+        }
+// @ts-ignore
+      } else {
+// @ts-ignore
+        peg$currPos = s0;
+// @ts-ignore
+        s0 = peg$FAILED;
+      }
+// @ts-ignore
+    } else {
+// @ts-ignore
+      peg$currPos = s0;
+// @ts-ignore
+      s0 = peg$FAILED;
+    }
+
+// @ts-ignore
+    return s0;
+  }
+
+// @ts-ignore
+  function // @ts-ignore
+peg$parseHidden() {
+// @ts-ignore
+    var s0, s1;
+
+// @ts-ignore
+    s0 = peg$currPos;
+// @ts-ignore
+    if (input.substr(peg$currPos, 8) === peg$c16) {
+// @ts-ignore
+      s1 = peg$c16;
+// @ts-ignore
+      peg$currPos += 8;
+// @ts-ignore
+    } else {
+// @ts-ignore
+      s1 = peg$FAILED;
+// @ts-ignore
+      if (peg$silentFails === 0) { peg$fail(peg$e16); }
+    }
+// @ts-ignore
+    if (s1 !== peg$FAILED) {
+// @ts-ignore
+      peg$savedPos = s0;
+// @ts-ignore
+      s1 = peg$f18();
+    }
+// @ts-ignore
+    s0 = s1;
+
+// @ts-ignore
+    return s0;
+  }
+
+// @ts-ignore
+  function // @ts-ignore
+peg$parseSized() {
+// @ts-ignore
+    var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9;
+
+// @ts-ignore
+    s0 = peg$currPos;
+// @ts-ignore
+    if (input.substr(peg$currPos, 6) === peg$c17) {
+// @ts-ignore
+      s1 = peg$c17;
+// @ts-ignore
+      peg$currPos += 6;
+// @ts-ignore
+    } else {
+// @ts-ignore
+      s1 = peg$FAILED;
+// @ts-ignore
+      if (peg$silentFails === 0) { peg$fail(peg$e17); }
+    }
+// @ts-ignore
+    if (s1 !== peg$FAILED) {
+// @ts-ignore
+      s2 = peg$parse_();
+// @ts-ignore
+      s3 = peg$parseNumber();
+// @ts-ignore
+      if (s3 !== peg$FAILED) {
+// @ts-ignore
+        s4 = peg$parse_();
+// @ts-ignore
+        if (input.charCodeAt(peg$currPos) === 44) {
+// @ts-ignore
+          s5 = peg$c1;
+// @ts-ignore
+          peg$currPos++;
+// @ts-ignore
+        } else {
+// @ts-ignore
+          s5 = peg$FAILED;
+// @ts-ignore
+          if (peg$silentFails === 0) { peg$fail(peg$e1); }
+        }
+// @ts-ignore
+        if (s5 !== peg$FAILED) {
+// @ts-ignore
+          s6 = peg$parse_();
+// @ts-ignore
+          s7 = peg$parseNumber();
+// @ts-ignore
+          if (s7 !== peg$FAILED) {
+// @ts-ignore
+            s8 = peg$parse_();
+// @ts-ignore
+            if (input.charCodeAt(peg$currPos) === 41) {
+// @ts-ignore
+              s9 = peg$c2;
+// @ts-ignore
+              peg$currPos++;
+// @ts-ignore
+            } else {
+// @ts-ignore
+              s9 = peg$FAILED;
+// @ts-ignore
+              if (peg$silentFails === 0) { peg$fail(peg$e2); }
+            }
+// @ts-ignore
+            if (s9 !== peg$FAILED) {
+// @ts-ignore
+              peg$savedPos = s0;
+// @ts-ignore
+              s0 = peg$f19(s3, s7);
+// @ts-ignore
+            } else {
+// @ts-ignore
+              peg$currPos = s0;
+// @ts-ignore
+              s0 = peg$FAILED;
+            }
+// @ts-ignore
+          } else {
+// @ts-ignore
+            peg$currPos = s0;
+// @ts-ignore
+            s0 = peg$FAILED;
+          }
+// @ts-ignore
+        } else {
+// @ts-ignore
+          peg$currPos = s0;
+// @ts-ignore
+          s0 = peg$FAILED;
+        }
+// @ts-ignore
+      } else {
+// @ts-ignore
+        peg$currPos = s0;
+// @ts-ignore
+        s0 = peg$FAILED;
+      }
+// @ts-ignore
+    } else {
+// @ts-ignore
+      peg$currPos = s0;
+// @ts-ignore
+      s0 = peg$FAILED;
+    }
+
+// @ts-ignore
+    return s0;
+  }
+
+// @ts-ignore
+  function // @ts-ignore
+peg$parseCyclic() {
+// @ts-ignore
+    var s0, s1, s2, s3, s4, s5;
+
+// @ts-ignore
+    s0 = peg$currPos;
+// @ts-ignore
+    if (input.substr(peg$currPos, 7) === peg$c18) {
+// @ts-ignore
+      s1 = peg$c18;
+// @ts-ignore
+      peg$currPos += 7;
+// @ts-ignore
+    } else {
+// @ts-ignore
+      s1 = peg$FAILED;
+// @ts-ignore
+      if (peg$silentFails === 0) { peg$fail(peg$e18); }
+    }
+// @ts-ignore
+    if (s1 !== peg$FAILED) {
+// @ts-ignore
+      s2 = peg$parse_();
+// @ts-ignore
+      s3 = peg$parseIdentifier();
+// @ts-ignore
+      if (s3 !== peg$FAILED) {
+// @ts-ignore
+        s4 = peg$parse_();
+// @ts-ignore
+        if (input.charCodeAt(peg$currPos) === 41) {
+// @ts-ignore
+          s5 = peg$c2;
+// @ts-ignore
+          peg$currPos++;
+// @ts-ignore
+        } else {
+// @ts-ignore
+          s5 = peg$FAILED;
+// @ts-ignore
+          if (peg$silentFails === 0) { peg$fail(peg$e2); }
+        }
+// @ts-ignore
+        if (s5 !== peg$FAILED) {
+// @ts-ignore
+          peg$savedPos = s0;
+// @ts-ignore
+          s0 = peg$f20(s3);
+// @ts-ignore
+        } else {
+// @ts-ignore
+          peg$currPos = s0;
+// @ts-ignore
+          s0 = peg$FAILED;
+        }
+// @ts-ignore
+      } else {
+// @ts-ignore
+        peg$currPos = s0;
+// @ts-ignore
+        s0 = peg$FAILED;
+      }
+// @ts-ignore
+    } else {
+// @ts-ignore
+      peg$currPos = s0;
+// @ts-ignore
+      s0 = peg$FAILED;
+    }
+
+// @ts-ignore
+    return s0;
+  }
+
+// @ts-ignore
+  function // @ts-ignore
+peg$parseDataSet() {
+// @ts-ignore
+    var s0, s1;
+
+// @ts-ignore
+    s0 = peg$currPos;
+// @ts-ignore
+    s1 = peg$parseDataSelector();
+// @ts-ignore
+    if (s1 !== peg$FAILED) {
+// @ts-ignore
+      peg$savedPos = s0;
+// @ts-ignore
+      s1 = peg$f21(s1);
+    }
+// @ts-ignore
+    s0 = s1;
+
+// @ts-ignore
+    return s0;
+  }
+
+// @ts-ignore
+  function // @ts-ignore
+peg$parseSetArgument() {
+// @ts-ignore
+    var s0;
+
+// @ts-ignore
+    s0 = peg$parseDataSet();
+// @ts-ignore
+    if (s0 === peg$FAILED) {
+// @ts-ignore
+      s0 = peg$parseComposite();
+    }
+
+// @ts-ignore
+    return s0;
+  }
+
+// @ts-ignore
+  function // @ts-ignore
+peg$parseQuantified() {
+// @ts-ignore
+    var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10;
+
+// @ts-ignore
+    s0 = peg$currPos;
+// @ts-ignore
+    s1 = peg$parseQuantifier();
+// @ts-ignore
+    if (s1 !== peg$FAILED) {
+// @ts-ignore
+      if (input.charCodeAt(peg$currPos) === 40) {
+// @ts-ignore
+        s2 = peg$c6;
+// @ts-ignore
+        peg$currPos++;
+// @ts-ignore
+      } else {
+// @ts-ignore
+        s2 = peg$FAILED;
+// @ts-ignore
+        if (peg$silentFails === 0) { peg$fail(peg$e6); }
+      }
+// @ts-ignore
+      if (s2 !== peg$FAILED) {
+// @ts-ignore
+        s3 = peg$parse_();
+// @ts-ignore
+        s4 = peg$parseDataSelector();
+// @ts-ignore
+        if (s4 !== peg$FAILED) {
+// @ts-ignore
+          s5 = peg$parse_();
+// @ts-ignore
+          if (input.charCodeAt(peg$currPos) === 44) {
+// @ts-ignore
+            s6 = peg$c1;
+// @ts-ignore
+            peg$currPos++;
+// @ts-ignore
+          } else {
+// @ts-ignore
+            s6 = peg$FAILED;
+// @ts-ignore
+            if (peg$silentFails === 0) { peg$fail(peg$e1); }
+          }
+// @ts-ignore
+          if (s6 !== peg$FAILED) {
+// @ts-ignore
+            s7 = peg$parse_();
+// @ts-ignore
+            s8 = peg$parseCheck();
+// @ts-ignore
+            if (s8 !== peg$FAILED) {
+// @ts-ignore
+              s9 = peg$parse_();
+// @ts-ignore
+              if (input.charCodeAt(peg$currPos) === 41) {
+// @ts-ignore
+                s10 = peg$c2;
+// @ts-ignore
+                peg$currPos++;
+// @ts-ignore
+              } else {
+// @ts-ignore
+                s10 = peg$FAILED;
+// @ts-ignore
+                if (peg$silentFails === 0) { peg$fail(peg$e2); }
+              }
+// @ts-ignore
+              if (s10 !== peg$FAILED) {
+// @ts-ignore
+                peg$savedPos = s0;
+// @ts-ignore
+                s0 = peg$f22(s1, s4, s8);
+// @ts-ignore
+              } else {
+// @ts-ignore
+                peg$currPos = s0;
+// @ts-ignore
+                s0 = peg$FAILED;
+              }
+// @ts-ignore
+            } else {
+// @ts-ignore
+              peg$currPos = s0;
+// @ts-ignore
+              s0 = peg$FAILED;
+            }
+// @ts-ignore
+          } else {
+// @ts-ignore
+            peg$currPos = s0;
+// @ts-ignore
+            s0 = peg$FAILED;
+          }
+// @ts-ignore
+        } else {
+// @ts-ignore
+          peg$currPos = s0;
+// @ts-ignore
+          s0 = peg$FAILED;
+        }
+// @ts-ignore
+      } else {
+// @ts-ignore
+        peg$currPos = s0;
+// @ts-ignore
+        s0 = peg$FAILED;
+      }
+// @ts-ignore
+    } else {
+// @ts-ignore
+      peg$currPos = s0;
+// @ts-ignore
+      s0 = peg$FAILED;
+    }
+
+// @ts-ignore
+    return s0;
+  }
+
+// @ts-ignore
+  function // @ts-ignore
+peg$parseCheck() {
+// @ts-ignore
+    var s0, s1, s2, s3;
+
+// @ts-ignore
+    s0 = peg$currPos;
+// @ts-ignore
+    s1 = peg$parseModality();
+// @ts-ignore
+    if (s1 !== peg$FAILED) {
+// @ts-ignore
+      if (input.substr(peg$currPos, 9) === peg$c5) {
+// @ts-ignore
+        s2 = peg$c5;
+// @ts-ignore
+        peg$currPos += 9;
+// @ts-ignore
+      } else {
+// @ts-ignore
+        s2 = peg$FAILED;
+// @ts-ignore
+        if (peg$silentFails === 0) { peg$fail(peg$e5); }
+      }
+// @ts-ignore
+      if (s2 !== peg$FAILED) {
+// @ts-ignore
+        s3 = peg$parseAxis();
+// @ts-ignore
+        if (s3 !== peg$FAILED) {
+// @ts-ignore
+          peg$savedPos = s0;
+// @ts-ignore
+          s0 = peg$f23(s1, s3);
+// @ts-ignore
+        } else {
+// @ts-ignore
+          peg$currPos = s0;
+// @ts-ignore
+          s0 = peg$FAILED;
+        }
 // @ts-ignore
-    if (input.substr(peg$currPos, 9) === peg$c15) {
+      } else {
 // @ts-ignore
-      s1 = peg$c15;
+        peg$currPos = s0;
 // @ts-ignore
-      peg$currPos += 9;
+        s0 = peg$FAILED;
+      }
 // @ts-ignore
     } else {
 // @ts-ignore
-      s1 = peg$FAILED;
+      peg$currPos = s0;
 // @ts-ignore
-      if (peg$silentFails === 0) { peg$fail(peg$e15); }
+      s0 = peg$FAILED;
     }
 // @ts-ignore
-    if (s1 !== peg$FAILED) {
-// @ts-ignore
-      s2 = peg$parse_();
+    if (s0 === peg$FAILED) {
 // @ts-ignore
-      s3 = peg$parseIdentifier();
+      s0 = peg$currPos;
 // @ts-ignore
-      if (s3 !== peg$FAILED) {
+      s1 = peg$parseModality();
 // @ts-ignore
-        s4 = peg$parse_();
+      if (s1 !== peg$FAILED) {
 // @ts-ignore
-        if (input.charCodeAt(peg$currPos) === 41) {
+        if (input.charCodeAt(peg$currPos) === 46) {
 // @ts-ignore
-          s5 = peg$c2;
+          s2 = peg$c7;
 // @ts-ignore
           peg$currPos++;
 // @ts-ignore
         } else {
 // @ts-ignore
-          s5 = peg$FAILED;
+          s2 = peg$FAILED;
 // @ts-ignore
-          if (peg$silentFails === 0) { peg$fail(peg$e2); }
+          if (peg$silentFails === 0) { peg$fail(peg$e7); }
         }
 // @ts-ignore
-        if (s5 !== peg$FAILED) {
+        if (s2 !== peg$FAILED) {
 // @ts-ignore
-          peg$savedPos = s0;
+          s3 = peg$parseDirection();
+// @ts-ignore
+          if (s3 !== peg$FAILED) {
+// @ts-ignore
+            peg$savedPos = s0;
 // @ts-ignore
-          s0 = peg$f15(s3);
+            s0 = peg$f24(s1, s3);
+// @ts-ignore
+          } else {
+// @ts-ignore
+            peg$currPos = s0;
+// @ts-ignore
+            s0 = peg$FAILED;
+          }
 // @ts-ignore
         } else {
 // @ts-ignore
@@ -2442,12 +3261,6 @@ peg$parseContains() {
 // @ts-ignore
         s0 = peg$FAILED;
       }
-// @ts-ignore
-    } else {
-// @ts-ignore
-      peg$currPos = s0;
-// @ts-ignore
-      s0 = peg$FAILED;
     }
 
 // @ts-ignore
@@ -2456,34 +3269,61 @@ peg$parseContains() {
 
 // @ts-ignore
   function // @ts-ignore
-peg$parseHidden() {
+peg$parseQuantifier() {
 // @ts-ignore
     var s0, s1;
 
 // @ts-ignore
     s0 = peg$currPos;
 // @ts-ignore
-    if (input.substr(peg$currPos, 8) === peg$c16) {
+    if (input.substr(peg$currPos, 3) === peg$c19) {
 // @ts-ignore
-      s1 = peg$c16;
+      s1 = peg$c19;
 // @ts-ignore
-      peg$currPos += 8;
+      peg$currPos += 3;
 // @ts-ignore
     } else {
 // @ts-ignore
       s1 = peg$FAILED;
 // @ts-ignore
-      if (peg$silentFails === 0) { peg$fail(peg$e16); }
+      if (peg$silentFails === 0) { peg$fail(peg$e19); }
     }
 // @ts-ignore
     if (s1 !== peg$FAILED) {
 // @ts-ignore
       peg$savedPos = s0;
 // @ts-ignore
-      s1 = peg$f16();
+      s1 = peg$f25();
     }
 // @ts-ignore
     s0 = s1;
+// @ts-ignore
+    if (s0 === peg$FAILED) {
+// @ts-ignore
+      s0 = peg$currPos;
+// @ts-ignore
+      if (input.substr(peg$currPos, 4) === peg$c20) {
+// @ts-ignore
+        s1 = peg$c20;
+// @ts-ignore
+        peg$currPos += 4;
+// @ts-ignore
+      } else {
+// @ts-ignore
+        s1 = peg$FAILED;
+// @ts-ignore
+        if (peg$silentFails === 0) { peg$fail(peg$e20); }
+      }
+// @ts-ignore
+      if (s1 !== peg$FAILED) {
+// @ts-ignore
+        peg$savedPos = s0;
+// @ts-ignore
+        s1 = peg$f26();
+      }
+// @ts-ignore
+      s0 = s1;
+    }
 
 // @ts-ignore
     return s0;
@@ -2491,187 +3331,219 @@ peg$parseHidden() {
 
 // @ts-ignore
   function // @ts-ignore
-peg$parseSized() {
+peg$parseDataSelector() {
 // @ts-ignore
-    var s0, s1, s2, s3, s4, s5, s6, s7, s8, s9;
+    var s0, s1, s2, s3;
 
 // @ts-ignore
     s0 = peg$currPos;
 // @ts-ignore
-    if (input.substr(peg$currPos, 6) === peg$c17) {
+    if (input.charCodeAt(peg$currPos) === 123) {
 // @ts-ignore
-      s1 = peg$c17;
+      s1 = peg$c21;
 // @ts-ignore
-      peg$currPos += 6;
+      peg$currPos++;
 // @ts-ignore
     } else {
 // @ts-ignore
       s1 = peg$FAILED;
 // @ts-ignore
-      if (peg$silentFails === 0) { peg$fail(peg$e17); }
+      if (peg$silentFails === 0) { peg$fail(peg$e21); }
     }
 // @ts-ignore
     if (s1 !== peg$FAILED) {
 // @ts-ignore
-      s2 = peg$parse_();
+      s2 = peg$currPos;
 // @ts-ignore
-      s3 = peg$parseNumber();
+      s3 = peg$parseDataBody();
+// @ts-ignore
+      s2 = input.substring(s2, peg$currPos);
+// @ts-ignore
+      if (input.charCodeAt(peg$currPos) === 125) {
+// @ts-ignore
+        s3 = peg$c22;
+// @ts-ignore
+        peg$currPos++;
+// @ts-ignore
+      } else {
+// @ts-ignore
+        s3 = peg$FAILED;
+// @ts-ignore
+        if (peg$silentFails === 0) { peg$fail(peg$e22); }
+      }
 // @ts-ignore
       if (s3 !== peg$FAILED) {
 // @ts-ignore
-        s4 = peg$parse_();
+        peg$savedPos = s0;
 // @ts-ignore
-        if (input.charCodeAt(peg$currPos) === 44) {
+        s0 = peg$f27(s2);
 // @ts-ignore
-          s5 = peg$c1;
+      } else {
 // @ts-ignore
-          peg$currPos++;
+        peg$currPos = s0;
 // @ts-ignore
-        } else {
+        s0 = peg$FAILED;
+      }
 // @ts-ignore
-          s5 = peg$FAILED;
+    } else {
 // @ts-ignore
-          if (peg$silentFails === 0) { peg$fail(peg$e1); }
-        }
+      peg$currPos = s0;
 // @ts-ignore
-        if (s5 !== peg$FAILED) {
+      s0 = peg$FAILED;
+    }
+
 // @ts-ignore
-          s6 = peg$parse_();
+    return s0;
+  }
+
 // @ts-ignore
-          s7 = peg$parseNumber();
+  function // @ts-ignore
+peg$parseDataBody() {
 // @ts-ignore
-          if (s7 !== peg$FAILED) {
+    var s0, s1, s2, s3, s4;
+
 // @ts-ignore
-            s8 = peg$parse_();
+    s0 = [];
 // @ts-ignore
-            if (input.charCodeAt(peg$currPos) === 41) {
+    s1 = peg$currPos;
 // @ts-ignore
-              s9 = peg$c2;
+    if (input.charCodeAt(peg$currPos) === 123) {
 // @ts-ignore
-              peg$currPos++;
+      s2 = peg$c21;
 // @ts-ignore
-            } else {
+      peg$currPos++;
 // @ts-ignore
-              s9 = peg$FAILED;
+    } else {
 // @ts-ignore
-              if (peg$silentFails === 0) { peg$fail(peg$e2); }
-            }
+      s2 = peg$FAILED;
 // @ts-ignore
-            if (s9 !== peg$FAILED) {
+      if (peg$silentFails === 0) { peg$fail(peg$e21); }
+    }
 // @ts-ignore
-              peg$savedPos = s0;
+    if (s2 !== peg$FAILED) {
 // @ts-ignore
-              s0 = peg$f17(s3, s7);
+      s3 = peg$parseDataBody();
 // @ts-ignore
-            } else {
+      if (input.charCodeAt(peg$currPos) === 125) {
 // @ts-ignore
-              peg$currPos = s0;
+        s4 = peg$c22;
 // @ts-ignore
-              s0 = peg$FAILED;
-            }
+        peg$currPos++;
 // @ts-ignore
-          } else {
+      } else {
 // @ts-ignore
-            peg$currPos = s0;
+        s4 = peg$FAILED;
 // @ts-ignore
-            s0 = peg$FAILED;
-          }
+        if (peg$silentFails === 0) { peg$fail(peg$e22); }
+      }
 // @ts-ignore
-        } else {
+      if (s4 !== peg$FAILED) {
 // @ts-ignore
-          peg$currPos = s0;
+        s2 = [s2, s3, s4];
 // @ts-ignore
-          s0 = peg$FAILED;
-        }
+        s1 = s2;
 // @ts-ignore
       } else {
 // @ts-ignore
-        peg$currPos = s0;
+        peg$currPos = s1;
 // @ts-ignore
-        s0 = peg$FAILED;
+        s1 = peg$FAILED;
       }
 // @ts-ignore
     } else {
 // @ts-ignore
-      peg$currPos = s0;
+      peg$currPos = s1;
 // @ts-ignore
-      s0 = peg$FAILED;
+      s1 = peg$FAILED;
     }
-
 // @ts-ignore
-    return s0;
-  }
-
+    if (s1 === peg$FAILED) {
 // @ts-ignore
-  function // @ts-ignore
-peg$parseCyclic() {
+      if (peg$r0.test(input.charAt(peg$currPos))) {
 // @ts-ignore
-    var s0, s1, s2, s3, s4, s5;
-
+        s1 = input.charAt(peg$currPos);
 // @ts-ignore
-    s0 = peg$currPos;
+        peg$currPos++;
 // @ts-ignore
-    if (input.substr(peg$currPos, 7) === peg$c18) {
+      } else {
 // @ts-ignore
-      s1 = peg$c18;
+        s1 = peg$FAILED;
 // @ts-ignore
-      peg$currPos += 7;
+        if (peg$silentFails === 0) { peg$fail(peg$e23); }
+      }
+    }
 // @ts-ignore
-    } else {
+    while (s1 !== peg$FAILED) {
 // @ts-ignore
-      s1 = peg$FAILED;
+      s0.push(s1);
 // @ts-ignore
-      if (peg$silentFails === 0) { peg$fail(peg$e18); }
-    }
+      s1 = peg$currPos;
 // @ts-ignore
-    if (s1 !== peg$FAILED) {
+      if (input.charCodeAt(peg$currPos) === 123) {
 // @ts-ignore
-      s2 = peg$parse_();
+        s2 = peg$c21;
 // @ts-ignore
-      s3 = peg$parseIdentifier();
+        peg$currPos++;
 // @ts-ignore
-      if (s3 !== peg$FAILED) {
+      } else {
 // @ts-ignore
-        s4 = peg$parse_();
+        s2 = peg$FAILED;
 // @ts-ignore
-        if (input.charCodeAt(peg$currPos) === 41) {
+        if (peg$silentFails === 0) { peg$fail(peg$e21); }
+      }
 // @ts-ignore
-          s5 = peg$c2;
+      if (s2 !== peg$FAILED) {
+// @ts-ignore
+        s3 = peg$parseDataBody();
+// @ts-ignore
+        if (input.charCodeAt(peg$currPos) === 125) {
+// @ts-ignore
+          s4 = peg$c22;
 // @ts-ignore
           peg$currPos++;
 // @ts-ignore
         } else {
 // @ts-ignore
-          s5 = peg$FAILED;
+          s4 = peg$FAILED;
 // @ts-ignore
-          if (peg$silentFails === 0) { peg$fail(peg$e2); }
+          if (peg$silentFails === 0) { peg$fail(peg$e22); }
         }
 // @ts-ignore
-        if (s5 !== peg$FAILED) {
+        if (s4 !== peg$FAILED) {
 // @ts-ignore
-          peg$savedPos = s0;
+          s2 = [s2, s3, s4];
 // @ts-ignore
-          s0 = peg$f18(s3);
+          s1 = s2;
 // @ts-ignore
         } else {
 // @ts-ignore
-          peg$currPos = s0;
+          peg$currPos = s1;
 // @ts-ignore
-          s0 = peg$FAILED;
+          s1 = peg$FAILED;
         }
 // @ts-ignore
       } else {
 // @ts-ignore
-        peg$currPos = s0;
+        peg$currPos = s1;
 // @ts-ignore
-        s0 = peg$FAILED;
+        s1 = peg$FAILED;
       }
 // @ts-ignore
-    } else {
+      if (s1 === peg$FAILED) {
 // @ts-ignore
-      peg$currPos = s0;
+        if (peg$r0.test(input.charAt(peg$currPos))) {
 // @ts-ignore
-      s0 = peg$FAILED;
+          s1 = input.charAt(peg$currPos);
+// @ts-ignore
+          peg$currPos++;
+// @ts-ignore
+        } else {
+// @ts-ignore
+          s1 = peg$FAILED;
+// @ts-ignore
+          if (peg$silentFails === 0) { peg$fail(peg$e23); }
+        }
+      }
     }
 
 // @ts-ignore
@@ -2687,9 +3559,9 @@ peg$parseModality() {
 // @ts-ignore
     s0 = peg$currPos;
 // @ts-ignore
-    if (input.substr(peg$currPos, 4) === peg$c19) {
+    if (input.substr(peg$currPos, 4) === peg$c23) {
 // @ts-ignore
-      s1 = peg$c19;
+      s1 = peg$c23;
 // @ts-ignore
       peg$currPos += 4;
 // @ts-ignore
@@ -2697,14 +3569,14 @@ peg$parseModality() {
 // @ts-ignore
       s1 = peg$FAILED;
 // @ts-ignore
-      if (peg$silentFails === 0) { peg$fail(peg$e19); }
+      if (peg$silentFails === 0) { peg$fail(peg$e24); }
     }
 // @ts-ignore
     if (s1 !== peg$FAILED) {
 // @ts-ignore
       peg$savedPos = s0;
 // @ts-ignore
-      s1 = peg$f19();
+      s1 = peg$f28();
     }
 // @ts-ignore
     s0 = s1;
@@ -2713,9 +3585,9 @@ peg$parseModality() {
 // @ts-ignore
       s0 = peg$currPos;
 // @ts-ignore
-      if (input.substr(peg$currPos, 6) === peg$c20) {
+      if (input.substr(peg$currPos, 6) === peg$c24) {
 // @ts-ignore
-        s1 = peg$c20;
+        s1 = peg$c24;
 // @ts-ignore
         peg$currPos += 6;
 // @ts-ignore
@@ -2723,14 +3595,14 @@ peg$parseModality() {
 // @ts-ignore
         s1 = peg$FAILED;
 // @ts-ignore
-        if (peg$silentFails === 0) { peg$fail(peg$e20); }
+        if (peg$silentFails === 0) { peg$fail(peg$e25); }
       }
 // @ts-ignore
       if (s1 !== peg$FAILED) {
 // @ts-ignore
         peg$savedPos = s0;
 // @ts-ignore
-        s1 = peg$f20();
+        s1 = peg$f29();
       }
 // @ts-ignore
       s0 = s1;
@@ -2739,9 +3611,9 @@ peg$parseModality() {
 // @ts-ignore
         s0 = peg$currPos;
 // @ts-ignore
-        if (input.substr(peg$currPos, 3) === peg$c21) {
+        if (input.substr(peg$currPos, 3) === peg$c25) {
 // @ts-ignore
-          s1 = peg$c21;
+          s1 = peg$c25;
 // @ts-ignore
           peg$currPos += 3;
 // @ts-ignore
@@ -2749,14 +3621,14 @@ peg$parseModality() {
 // @ts-ignore
           s1 = peg$FAILED;
 // @ts-ignore
-          if (peg$silentFails === 0) { peg$fail(peg$e21); }
+          if (peg$silentFails === 0) { peg$fail(peg$e26); }
         }
 // @ts-ignore
         if (s1 !== peg$FAILED) {
 // @ts-ignore
           peg$savedPos = s0;
 // @ts-ignore
-          s1 = peg$f21();
+          s1 = peg$f30();
         }
 // @ts-ignore
         s0 = s1;
@@ -2776,9 +3648,9 @@ peg$parseDirection() {
 // @ts-ignore
     s0 = peg$currPos;
 // @ts-ignore
-    if (input.substr(peg$currPos, 6) === peg$c22) {
+    if (input.substr(peg$currPos, 6) === peg$c26) {
 // @ts-ignore
-      s1 = peg$c22;
+      s1 = peg$c26;
 // @ts-ignore
       peg$currPos += 6;
 // @ts-ignore
@@ -2786,14 +3658,14 @@ peg$parseDirection() {
 // @ts-ignore
       s1 = peg$FAILED;
 // @ts-ignore
-      if (peg$silentFails === 0) { peg$fail(peg$e22); }
+      if (peg$silentFails === 0) { peg$fail(peg$e27); }
     }
 // @ts-ignore
     if (s1 !== peg$FAILED) {
 // @ts-ignore
       peg$savedPos = s0;
 // @ts-ignore
-      s1 = peg$f22();
+      s1 = peg$f31();
     }
 // @ts-ignore
     s0 = s1;
@@ -2802,9 +3674,9 @@ peg$parseDirection() {
 // @ts-ignore
       s0 = peg$currPos;
 // @ts-ignore
-      if (input.substr(peg$currPos, 7) === peg$c23) {
+      if (input.substr(peg$currPos, 7) === peg$c27) {
 // @ts-ignore
-        s1 = peg$c23;
+        s1 = peg$c27;
 // @ts-ignore
         peg$currPos += 7;
 // @ts-ignore
@@ -2812,14 +3684,14 @@ peg$parseDirection() {
 // @ts-ignore
         s1 = peg$FAILED;
 // @ts-ignore
-        if (peg$silentFails === 0) { peg$fail(peg$e23); }
+        if (peg$silentFails === 0) { peg$fail(peg$e28); }
       }
 // @ts-ignore
       if (s1 !== peg$FAILED) {
 // @ts-ignore
         peg$savedPos = s0;
 // @ts-ignore
-        s1 = peg$f23();
+        s1 = peg$f32();
       }
 // @ts-ignore
       s0 = s1;
@@ -2828,9 +3700,9 @@ peg$parseDirection() {
 // @ts-ignore
         s0 = peg$currPos;
 // @ts-ignore
-        if (input.substr(peg$currPos, 5) === peg$c24) {
+        if (input.substr(peg$currPos, 5) === peg$c28) {
 // @ts-ignore
-          s1 = peg$c24;
+          s1 = peg$c28;
 // @ts-ignore
           peg$currPos += 5;
 // @ts-ignore
@@ -2838,14 +3710,14 @@ peg$parseDirection() {
 // @ts-ignore
           s1 = peg$FAILED;
 // @ts-ignore
-          if (peg$silentFails === 0) { peg$fail(peg$e24); }
+          if (peg$silentFails === 0) { peg$fail(peg$e29); }
         }
 // @ts-ignore
         if (s1 !== peg$FAILED) {
 // @ts-ignore
           peg$savedPos = s0;
 // @ts-ignore
-          s1 = peg$f24();
+          s1 = peg$f33();
         }
 // @ts-ignore
         s0 = s1;
@@ -2854,9 +3726,9 @@ peg$parseDirection() {
 // @ts-ignore
           s0 = peg$currPos;
 // @ts-ignore
-          if (input.substr(peg$currPos, 5) === peg$c25) {
+          if (input.substr(peg$currPos, 5) === peg$c29) {
 // @ts-ignore
-            s1 = peg$c25;
+            s1 = peg$c29;
 // @ts-ignore
             peg$currPos += 5;
 // @ts-ignore
@@ -2864,14 +3736,14 @@ peg$parseDirection() {
 // @ts-ignore
             s1 = peg$FAILED;
 // @ts-ignore
-            if (peg$silentFails === 0) { peg$fail(peg$e25); }
+            if (peg$silentFails === 0) { peg$fail(peg$e30); }
           }
 // @ts-ignore
           if (s1 !== peg$FAILED) {
 // @ts-ignore
             peg$savedPos = s0;
 // @ts-ignore
-            s1 = peg$f25();
+            s1 = peg$f34();
           }
 // @ts-ignore
           s0 = s1;
@@ -2894,7 +3766,7 @@ peg$parseAxis() {
 // @ts-ignore
     if (input.charCodeAt(peg$currPos) === 120) {
 // @ts-ignore
-      s1 = peg$c26;
+      s1 = peg$c30;
 // @ts-ignore
       peg$currPos++;
 // @ts-ignore
@@ -2902,14 +3774,14 @@ peg$parseAxis() {
 // @ts-ignore
       s1 = peg$FAILED;
 // @ts-ignore
-      if (peg$silentFails === 0) { peg$fail(peg$e26); }
+      if (peg$silentFails === 0) { peg$fail(peg$e31); }
     }
 // @ts-ignore
     if (s1 !== peg$FAILED) {
 // @ts-ignore
       peg$savedPos = s0;
 // @ts-ignore
-      s1 = peg$f26();
+      s1 = peg$f35();
     }
 // @ts-ignore
     s0 = s1;
@@ -2920,7 +3792,7 @@ peg$parseAxis() {
 // @ts-ignore
       if (input.charCodeAt(peg$currPos) === 121) {
 // @ts-ignore
-        s1 = peg$c27;
+        s1 = peg$c31;
 // @ts-ignore
         peg$currPos++;
 // @ts-ignore
@@ -2928,14 +3800,14 @@ peg$parseAxis() {
 // @ts-ignore
         s1 = peg$FAILED;
 // @ts-ignore
-        if (peg$silentFails === 0) { peg$fail(peg$e27); }
+        if (peg$silentFails === 0) { peg$fail(peg$e32); }
       }
 // @ts-ignore
       if (s1 !== peg$FAILED) {
 // @ts-ignore
         peg$savedPos = s0;
 // @ts-ignore
-        s1 = peg$f27();
+        s1 = peg$f36();
       }
 // @ts-ignore
       s0 = s1;
@@ -2958,7 +3830,7 @@ peg$parseIdentifier() {
 // @ts-ignore
     s2 = [];
 // @ts-ignore
-    if (peg$r0.test(input.charAt(peg$currPos))) {
+    if (peg$r1.test(input.charAt(peg$currPos))) {
 // @ts-ignore
       s3 = input.charAt(peg$currPos);
 // @ts-ignore
@@ -2968,7 +3840,7 @@ peg$parseIdentifier() {
 // @ts-ignore
       s3 = peg$FAILED;
 // @ts-ignore
-      if (peg$silentFails === 0) { peg$fail(peg$e28); }
+      if (peg$silentFails === 0) { peg$fail(peg$e33); }
     }
 // @ts-ignore
     if (s3 !== peg$FAILED) {
@@ -2977,7 +3849,7 @@ peg$parseIdentifier() {
 // @ts-ignore
         s2.push(s3);
 // @ts-ignore
-        if (peg$r0.test(input.charAt(peg$currPos))) {
+        if (peg$r1.test(input.charAt(peg$currPos))) {
 // @ts-ignore
           s3 = input.charAt(peg$currPos);
 // @ts-ignore
@@ -2987,7 +3859,7 @@ peg$parseIdentifier() {
 // @ts-ignore
           s3 = peg$FAILED;
 // @ts-ignore
-          if (peg$silentFails === 0) { peg$fail(peg$e28); }
+          if (peg$silentFails === 0) { peg$fail(peg$e33); }
         }
       }
 // @ts-ignore
@@ -3009,7 +3881,7 @@ peg$parseIdentifier() {
 // @ts-ignore
       peg$savedPos = s0;
 // @ts-ignore
-      s1 = peg$f28(s1);
+      s1 = peg$f37(s1);
     }
 // @ts-ignore
     s0 = s1;
@@ -3033,7 +3905,7 @@ peg$parseNumber() {
 // @ts-ignore
     s3 = [];
 // @ts-ignore
-    if (peg$r1.test(input.charAt(peg$currPos))) {
+    if (peg$r2.test(input.charAt(peg$currPos))) {
 // @ts-ignore
       s4 = input.charAt(peg$currPos);
 // @ts-ignore
@@ -3043,7 +3915,7 @@ peg$parseNumber() {
 // @ts-ignore
       s4 = peg$FAILED;
 // @ts-ignore
-      if (peg$silentFails === 0) { peg$fail(peg$e29); }
+      if (peg$silentFails === 0) { peg$fail(peg$e34); }
     }
 // @ts-ignore
     if (s4 !== peg$FAILED) {
@@ -3052,7 +3924,7 @@ peg$parseNumber() {
 // @ts-ignore
         s3.push(s4);
 // @ts-ignore
-        if (peg$r1.test(input.charAt(peg$currPos))) {
+        if (peg$r2.test(input.charAt(peg$currPos))) {
 // @ts-ignore
           s4 = input.charAt(peg$currPos);
 // @ts-ignore
@@ -3062,7 +3934,7 @@ peg$parseNumber() {
 // @ts-ignore
           s4 = peg$FAILED;
 // @ts-ignore
-          if (peg$silentFails === 0) { peg$fail(peg$e29); }
+          if (peg$silentFails === 0) { peg$fail(peg$e34); }
         }
       }
 // @ts-ignore
@@ -3092,7 +3964,7 @@ peg$parseNumber() {
 // @ts-ignore
         s6 = [];
 // @ts-ignore
-        if (peg$r1.test(input.charAt(peg$currPos))) {
+        if (peg$r2.test(input.charAt(peg$currPos))) {
 // @ts-ignore
           s7 = input.charAt(peg$currPos);
 // @ts-ignore
@@ -3102,7 +3974,7 @@ peg$parseNumber() {
 // @ts-ignore
           s7 = peg$FAILED;
 // @ts-ignore
-          if (peg$silentFails === 0) { peg$fail(peg$e29); }
+          if (peg$silentFails === 0) { peg$fail(peg$e34); }
         }
 // @ts-ignore
         if (s7 !== peg$FAILED) {
@@ -3111,7 +3983,7 @@ peg$parseNumber() {
 // @ts-ignore
             s6.push(s7);
 // @ts-ignore
-            if (peg$r1.test(input.charAt(peg$currPos))) {
+            if (peg$r2.test(input.charAt(peg$currPos))) {
 // @ts-ignore
               s7 = input.charAt(peg$currPos);
 // @ts-ignore
@@ -3121,7 +3993,7 @@ peg$parseNumber() {
 // @ts-ignore
               s7 = peg$FAILED;
 // @ts-ignore
-              if (peg$silentFails === 0) { peg$fail(peg$e29); }
+              if (peg$silentFails === 0) { peg$fail(peg$e34); }
             }
           }
 // @ts-ignore
@@ -3179,7 +4051,7 @@ peg$parseNumber() {
 // @ts-ignore
       peg$savedPos = s0;
 // @ts-ignore
-      s1 = peg$f29(s1);
+      s1 = peg$f38(s1);
     }
 // @ts-ignore
     s0 = s1;
@@ -3199,7 +4071,7 @@ peg$parse_() {
 // @ts-ignore
     s0 = [];
 // @ts-ignore
-    if (peg$r2.test(input.charAt(peg$currPos))) {
+    if (peg$r3.test(input.charAt(peg$currPos))) {
 // @ts-ignore
       s1 = input.charAt(peg$currPos);
 // @ts-ignore
@@ -3209,14 +4081,14 @@ peg$parse_() {
 // @ts-ignore
       s1 = peg$FAILED;
 // @ts-ignore
-      if (peg$silentFails === 0) { peg$fail(peg$e31); }
+      if (peg$silentFails === 0) { peg$fail(peg$e36); }
     }
 // @ts-ignore
     while (s1 !== peg$FAILED) {
 // @ts-ignore
       s0.push(s1);
 // @ts-ignore
-      if (peg$r2.test(input.charAt(peg$currPos))) {
+      if (peg$r3.test(input.charAt(peg$currPos))) {
 // @ts-ignore
         s1 = input.charAt(peg$currPos);
 // @ts-ignore
@@ -3226,7 +4098,7 @@ peg$parse_() {
 // @ts-ignore
         s1 = peg$FAILED;
 // @ts-ignore
-        if (peg$silentFails === 0) { peg$fail(peg$e31); }
+        if (peg$silentFails === 0) { peg$fail(peg$e36); }
       }
     }
 // @ts-ignore
@@ -3234,7 +4106,7 @@ peg$parse_() {
 // @ts-ignore
     s1 = peg$FAILED;
 // @ts-ignore
-    if (peg$silentFails === 0) { peg$fail(peg$e30); }
+    if (peg$silentFails === 0) { peg$fail(peg$e35); }
 
 // @ts-ignore
     return s0;
@@ -3368,12 +4240,16 @@ export type PeggySyntaxError = _PeggySyntaxError;
 
 // These types were autogenerated by ts-pegjs
 export type Expression = Composite;
-export type Composite = Union | Intersection | Negation | AtomicQuery;
+export type Composite =
+  Union | Intersection | Negation | Quantified | AtomicQuery;
 export type Union = { kind: "union"; operands: any[] };
 export type Intersection = { kind: "intersection"; operands: any[] };
 export type Negation = { kind: "negation"; operand: Composite };
 export type AtomicQuery =
+  | DataSet
+  | ModalAlignedAll
   | ModalAligned
+  | ModalDirectionalAll
   | ModalDirectional
   | Reachable
   | AlignedWith
@@ -3388,6 +4264,18 @@ export type AtomicQuery =
   | Hidden
   | Sized
   | Cyclic;
+export type ModalAlignedAll = {
+  kind: "alignedAll";
+  modality: Modality;
+  axis: Axis;
+  target: SetArgument;
+};
+export type ModalDirectionalAll = {
+  kind: "directionalAll";
+  modality: Modality;
+  relation: Direction;
+  target: SetArgument;
+};
 export type ModalAligned = {
   kind: "aligned";
   modality: Modality;
@@ -3425,6 +4313,20 @@ export type Contains = { kind: "contains"; groupName: Identifier };
 export type Hidden = { kind: "hidden" };
 export type Sized = { kind: "sized"; width: Number_1; height: Number_1 };
 export type Cyclic = { kind: "cyclic"; nodeId: Identifier };
+export type DataSet = { kind: "data"; selector: DataSelector };
+export type SetArgument = DataSet | Composite;
+export type Quantified = {
+  kind: "quantified";
+  quantifier: Quantifier;
+  selector: DataSelector;
+  check: Check;
+};
+export type Check =
+  | { kind: "aligned"; modality: Modality; axis: Axis }
+  | { kind: "directional"; modality: Modality; relation: Direction };
+export type Quantifier = "all" | "some";
+export type DataSelector = string;
+export type DataBody = (["{", DataBody, "}"] | string)[];
 export type Modality = "must" | "cannot" | "can";
 export type Direction = "leftOf" | "rightOf" | "above" | "below";
 export type Axis = "x" | "y";
@@ -19,7 +19,21 @@ export { JSONDataInstance, DataInstanceNormalizer } from './data-instance/json-d
 export { AlloyDataInstance, createEmptyAlloyDataInstance } from './data-instance/alloy-data-instance';
 export { DotDataInstance } from './data-instance/dot/dot-data-instance';
 export type { DotTypeConfig, DotTypeDescriptor, DotDataInstanceOptions } from './data-instance/dot/dot-data-instance';
-export { RacketGDataInstance } from './data-instance/racket/racket-g-data-instance';
+// GraphML and GEXF: typed node attributes become relations to value atoms.
+export { AttributedGraphDataInstance } from './data-instance/attributed-graph-data-instance';
+export type { AttributedGraphOptions, AttributeValueType } from './data-instance/attributed-graph-data-instance';
+export { GraphMLDataInstance, parseGraphML } from './data-instance/graphml/graphml-data-instance';
+export type { GraphMLDataInstanceOptions } from './data-instance/graphml/graphml-data-instance';
+export { GexfDataInstance, parseGexf } from './data-instance/gexf/gexf-data-instance';
+export type { GexfDataInstanceOptions } from './data-instance/gexf/gexf-data-instance';
+export { RacketGDataInstance, createRacketGDataInstance, isRacketGDataInstance } from './data-instance/racket/racket-g-data-instance';
+export type { RacketGDatum, RacketGAtom, RacketGRelation, RacketStructType } from './data-instance/racket/racket-g-data-instance';
+// Relationalized Python objects (sPyTial-style value graphs).
+export { PythonDataInstance, createPythonDataInstance, isPythonDataInstance } from './data-instance/python/python-data-instance';
+export type { PythonValueGraph, PythonValue, PythonObject, PythonInstanceOptions } from './data-instance/python/python-data-instance';
+// Rust values as Caraspace serializes them (serde's data model, typed).
+export { RustDataInstance, createRustDataInstance, isRustDataInstance } from './data-instance/rust/rust-data-instance';
+export type { RustValue, RustNode } from './data-instance/rust/rust-data-instance';
 export { PyretDataInstance } from './data-instance/pyret/pyret-data-instance';
 // The evaluator a PyretDataInstance runs against (`window.__internalRepl`).
 // These types were exported from the REPL's expression parser before it was
@@ -33,6 +47,15 @@ export type { ReifiedValue } from './data-instance/pyret/reify';
 export { replit } from './data-instance/pyret/replit';
 export { canon } from './data-instance/pyret/canon';
 export { TlaDataInstance, createTlaDataInstance, isTlaDataInstance } from './data-instance/tla/tla-data-instance';
+export type { TlaDatum, TlaState, TlaValue, TlaStructuredValue } from './data-instance/tla/tla-data-instance';
+// Apalache ITF and TLC -dumpTrace json, decoded into structured TlaDatums.
+export { parseItfTrace, parseTlcTrace, parseTlaTrace, decodeItfValue, decodeTlcValue } from './data-instance/tla/tla-trace-import';
+// Alloy and TLA+ traces split into one instance per step, for sequence policies.
+export { InstanceTrace, createAlloyTrace, createTlaTrace, type TraceTransition } from './data-instance/instance-trace';
+// What changed between two instances, on the fingerprints changeEmphasis uses.
+export { diffInstances, type InstanceDiff, type RelationDiff, type RetypedAtom } from './data-instance/instance-diff';
+export { applyProjectionTransform } from './data-instance/projection-transform';
+export type { ProjectionSpec, ProjectionChoice, ProjectionResult } from './data-instance/projection-transform';
 
 // Export schema descriptor functions for generating descriptions of data instances
 export { 
@@ -44,12 +67,27 @@ export type { SchemaDescriptorOptions } from './data-instance/schema-descriptor'
 
 // Direct exports of key classes for convenience
 export { LayoutInstance, ConstraintValidatorStrategy, AlignmentEdgeStrategy } from './layout/layoutinstance';
+export type { GenerateLayoutOptions, LayoutInstanceStats } from './layout/layoutinstance';
+// Cancelling and following long layouts: the signal/timeout/onProgress options
+// of generateLayout, validateConstraints and renderLayout.
+export {
+  LayoutCancelledError,
+  LayoutMonitor,
+  type LayoutControl,
+  type LayoutPhase,
+  type LayoutProgress,
+  type LayoutProgressListener,
+} from './layout/progress';
 export { QualitativeConstraintValidator } from './layout/qualitative-constraint-validator';
 export { parseLayoutSpec } from './layout/layoutspec';
 // `parseLayoutSpec`'s return type. Replaces the `ParsedCnDSpec` alias that
 // `translators` used to re-export — that name had already been deleted, so the
 // re-export was dangling and shipped a broken line into dist/types.
-export type { LayoutSpec } from './layout/layoutspec';
+export type { LayoutSpec, ProjectionDirective, ParseLayoutSpecOptions, ParseWarning } from './layout/layoutspec';
+export { createSpecModuleResolver } from './layout/spec-composition';
+export type { SpecResolver } from './layout/spec-composition';
+// Collapsible groups: a layout with chosen groups drawn as one summary node each.
+export { collapseGroups, collapsedGroupNodeId, initiallyCollapsedGroups } from './layout/group-collapse';
 export { setupLayout } from './layout';
 export { type default as IEvaluator, SelectorArityError } from './evaluator-contracts';
 export { ForgeEvaluator, WrappedForgeEvaluator } from './evaluators/data/forge-evaluator';
@@ -58,11 +96,30 @@ export { ForgeEvaluator, WrappedForgeEvaluator } from './evaluators/data/forge-e
 // 'spytial-core/sql-evaluator' (npm) or load spytial-core-sql.global.js (CDN).
 export { WebColaTranslator } from './translators';
 export { AccessibleTranslator, buildSpatialNavigationMap } from './translators';
+// Headless SVG: draws a runHeadlessLayout result as a standalone SVG string,
+// for CI, docs generators and non-browser hosts.
+export { renderHeadlessSvg, type HeadlessSvgOptions } from './translators';
+// Vector export: a drawn graph as TikZ or PDF, for papers and lecture notes.
+export {
+  extractVectorScene,
+  renderTikz,
+  renderPdf,
+  type VectorScene,
+  type VectorSceneOptions,
+  type TikzOptions,
+  type PdfOptions,
+} from './translators';
 // SpytialExplorer (the a11y explorer element) moved out of the default entry
 // in 4.0.0 while it matures — it carries the data-navigator dependency. Import
 // it from 'spytial-core/explorer' (npm, auto-registers the element) or load
 // spytial-core-explorer.global.js after the main bundle (CDN).
 export { StructuredInputGraph } from './translators';
+// Node search: what the graph toolbar's search box matches, for hosts that
+// build their own search UI.
+export { matchNodesByText, matchNodesBySelector, type SearchableNode } from './translators';
+// Arrangements: the element's getArrangement / applyArrangement document.
+export { ARRANGEMENT_VERSION, parseArrangement, type Arrangement, type ArrangedNode } from './translators';
+export { SpytialSequence, type SequenceSource, type SequenceLayoutProvider } from './translators';
 // Edge-routing registry: opt-in routers register a mode here and it appears
 // in the renderer's Routing dropdown (layoutFormat selects it by id).
 export {
@@ -81,6 +138,29 @@ export {
   type ObstacleRect,
   type BoundsRect,
 } from './translators/webcola/routing';
+// Layout off the main thread: the worker protocol behind
+// <webcola-cnd-graph layout-worker="…">, for hosts driving a worker themselves.
+export {
+  createLayoutBackend,
+  WorkerLayoutBackend,
+  InThreadLayoutBackend,
+  type LayoutBackend,
+  type LayoutWorkerPort,
+} from './translators/webcola/layout-backend';
+export {
+  runLayoutJob,
+  runLayoutJobOn,
+  toLayoutDatum,
+  createLayoutWorkerHandler,
+  installLayoutWorker,
+  type LayoutJob,
+  type LayoutJobSettings,
+  type LayoutJobResult,
+  type LayoutWorkerError,
+  type LayoutWorkerRequest,
+  type LayoutWorkerResponse,
+  type LayoutWorkerScope,
+} from './translators/webcola/layout-worker';
 export {
   ignoreHistory,
   stability,
@@ -89,16 +169,26 @@ export {
   randomPositioning,
   getSequencePolicy,
   registerSequencePolicy,
+  foresighted,
+  buildSuperGraph,
+  UnsatisfiableLayoutError,
+  getSequenceLayoutPolicy,
+  registerSequenceLayoutPolicy,
 } from './translators';
 export type {
   NodePositionHint,
   TransformInfo,
   LayoutState,
   WebColaLayoutOptions,
+  WebColaDiffOptions,
+  SemanticZoomLevel,
   SequencePolicy,
   SequencePolicyContext,
   SequencePolicyResult,
   SequenceViewportBounds,
+  SequenceLayoutPolicy,
+  SequenceLayoutPolicyContext,
+  SequenceLayoutPlan,
   AccessibleLayout,
   AccessibleTranslatorOptions,
   SpatialNavigationMap,
@@ -107,8 +197,8 @@ export type {
   SpatialRelationshipDescription,
 } from './translators';
 export { SGraphQueryEvaluator } from "./evaluators/data/sgq-evaluator";
-export { LayoutEvaluator, LayoutEvaluatorResult, LayoutEvaluatorRecordResult, LayoutEvaluatorEdgeResult } from "./evaluators/layout/layout-evaluator";
-export type { SpatialQuery, DirectionalRelation, AlignmentAxis, Modality, EdgeInfo } from "./evaluators/layout/layout-evaluator";
+export { LayoutEvaluator, LayoutEvaluatorResult, LayoutEvaluatorRecordResult, LayoutEvaluatorEdgeResult, LayoutEvaluatorCheckResult } from "./evaluators/layout/layout-evaluator";
+export type { SpatialQuery, SpatialCheck, DirectionalRelation, AlignmentAxis, Modality, Quantifier, EdgeInfo } from "./evaluators/layout/layout-evaluator";
 
 // Selector synthesis API (requires SGraphQueryEvaluator)
 export { 
@@ -150,6 +240,13 @@ if (typeof window !== 'undefined') {
         }
       }).catch(console.error);
 
+      // Register the sequence timeline
+      import('./translators/webcola/spytial-sequence').then(({ SpytialSequence }) => {
+        if (typeof customElements !== 'undefined' && !customElements.get('spytial-sequence')) {
+          customElements.define('spytial-sequence', SpytialSequence as any);
+        }
+      }).catch(console.error);
+
       // <spytial-explorer> registration moved to the spytial-core/explorer
       // entry (spytial-core-explorer.global.js on CDN) in 4.0.0.
     }).catch(console.error);
@@ -224,6 +321,7 @@ export type { SystemError, SelectorErrorDetail, LayoutWarning } from './layout/e
 // for production rendering.
 export {
   runHeadlessLayout,
+  runHeadlessSequence,
   positionalConsistency,
   relativeConsistency,
   pairwiseDistanceConsistency,
@@ -246,6 +344,7 @@ export {
 export type {
   HeadlessLayoutOptions,
   HeadlessLayoutResult,
+  HeadlessSequenceResult,
   EdgeKey,
   CrossingEdge,
   ChangeEmphasisSeparation,
@@ -270,6 +369,7 @@ export {
 } from './language';
 export type {
   LanguageManifest,
+  MacroExpansion,
   LanguageItem,
   LanguageField,
   LanguageBlock,
@@ -280,5 +380,6 @@ export type {
   SelectorArity,
   Enforcement,
   DocumentRules,
+  CompositionKey,
   HoldRules,
 } from './language';
@@ -17,6 +17,7 @@
  */
 
 export type {
+  CompositionKey,
   DocumentRules,
   Enforcement,
   FieldDeprecation,
@@ -27,6 +28,7 @@ export type {
   LanguageField,
   LanguageItem,
   LanguageManifest,
+  MacroExpansion,
   SelectorArity,
   SpecSection,
 } from './types';
@@ -28,7 +28,7 @@
  * errors, and `tests/language-manifest.test.ts` pins the boundary.
  */
 
-import type { LanguageField, LanguageItem, LanguageManifest, SpecSection } from './types';
+import type { CompositionKey, LanguageField, LanguageItem, LanguageManifest, SpecSection } from './types';
 
 /** A JSON Schema node. Loose by design — this is generated, not hand-maintained. */
 type JsonSchemaNode = Record<string, unknown>;
@@ -270,6 +270,14 @@ function itemSchema(item: LanguageItem): JsonSchemaNode {
   return node;
 }
 
+/** A composition key: one spec reference, or — for `include` — optionally a list. */
+function compositionKeySchema(key: CompositionKey): JsonSchemaNode {
+  const ref: JsonSchemaNode = { type: 'string', minLength: 1 };
+  return key.valueShape === 'string-or-list'
+    ? { description: key.description, oneOf: [ref, { type: 'array', items: ref }] }
+    : { description: key.description, ...ref };
+}
+
 /** The `oneOf` of everything accepted in one section. */
 function sectionSchema(manifest: LanguageManifest, section: SpecSection): JsonSchemaNode {
   const canonical = manifest.items.filter((item) => item.sections.includes(section));
@@ -336,6 +344,7 @@ export function buildJsonSchema(manifest: LanguageManifest): JsonSchemaNode {
     'x-spytial-core-version': manifest.spytialCoreVersion,
     type: 'object',
     properties: {
+      ...Object.fromEntries(manifest.document.composition.map((key) => [key.key, compositionKeySchema(key)])),
       constraints: sectionSchema(manifest, 'constraints'),
       directives: sectionSchema(manifest, 'directives'),
     },
@@ -52,7 +52,7 @@ import type {
  * current. Bump it in the same commit that changes the language; leave it alone
  * for wording and example fixes.
  */
-export const LANGUAGE_VERSION = '2026-08-14';
+export const LANGUAGE_VERSION = '2026-10-19';
 
 /** How the language is versioned. Shipped in the manifest so a consumer need not infer it. */
 export const LANGUAGE_VERSIONING = {
@@ -251,6 +251,34 @@ const TUPLE_FILTER: LanguageField = {
     'part of a relation, e.g. only the tuples whose value is True.',
 };
 
+/**
+ * `priority` and `soft`: what makes a constraint soft. Shared by the four
+ * constraints the solver can relax — the same four that support `hold`.
+ */
+const SOFTNESS_FIELDS: readonly LanguageField[] = [
+  {
+    name: 'priority',
+    type: 'number',
+    minimum: 0,
+    enforcement: 'parse-error',
+    description:
+      'Makes the constraint soft. When the constraints conflict, the solver drops the lowest-priority soft ' +
+      'constraint in the conflict and solves again rather than failing; higher is kept longer. Absent, the ' +
+      'constraint is hard and is never dropped.',
+    note:
+      "A negative or non-numeric value is a parse error. What was dropped, and what it conflicted with, comes " +
+      "back on the layout's `relaxedConstraints` and as a `relaxed` warning.",
+  },
+  {
+    name: 'soft',
+    type: 'boolean',
+    default: false,
+    enforcement: 'parse-error',
+    description: '`soft: true` without a `priority` means priority 0: dropped before any constraint that has one.',
+    note: '`soft: false` alongside a `priority` is a parse error; any other non-boolean value is too.',
+  },
+];
+
 // ---- constraints ---------------------------------------------------------
 
 const ORIENTATION: LanguageItem = {
@@ -307,6 +335,7 @@ const ORIENTATION: LanguageItem = {
         'The direction is target-relative-to-source. Getting this backwards is the most common spec bug — ' +
         'transpose the selector (`~parent`) rather than flipping the direction if the relation reads the other way.',
     },
+    ...SOFTNESS_FIELDS,
   ],
   example: { selector: 'parent', directions: ['above'] },
   note:
@@ -341,6 +370,7 @@ const CYCLIC: LanguageItem = {
       enforcement: 'unchecked',
       description: 'Which way the cycle runs.',
     },
+    ...SOFTNESS_FIELDS,
   ],
   example: { selector: 'nextState', direction: 'clockwise' },
   note:
@@ -366,6 +396,16 @@ const ALIGN: LanguageItem = {
       enforcement: 'parse-error',
       description: 'Returns the pairs of atoms to align with one another.',
     },
+    {
+      name: 'pairedWith',
+      type: 'selector',
+      arity: 'binary',
+      accepts: PAIR_ARITIES,
+      description:
+        'A second pair selector. Given, the atoms aligned are instead those the two selectors pair with the same ' +
+        'atom: for (p, a) from `selector` and (p, b) from `pairedWith`, a with b. The join is done by the layout, ' +
+        'not the evaluator, so it reads the same in every selector language.',
+    },
     {
       name: 'direction',
       type: 'enum',
@@ -376,6 +416,7 @@ const ALIGN: LanguageItem = {
         '`horizontal` gives the atoms a shared Y coordinate; `vertical` a shared X coordinate. ' +
         'An unrecognized value is a parse error.',
     },
+    ...SOFTNESS_FIELDS,
   ],
   example: { selector: 'siblings', direction: 'horizontal' },
 };
@@ -463,6 +504,15 @@ const GROUP_BY_SELECTOR: LanguageItem = {
       note: 'The legacy boolean `true` is still accepted and means `togroup`.',
     },
     blockField('textStyle', "The group's own label. Only `color` applies today — group labels auto-fit their box, so `size` is reserved."),
+    {
+      name: 'collapsed',
+      type: 'boolean',
+      default: false,
+      description:
+        'Draw each of the groups collapsed at first: one summary node showing the group name and member count, ' +
+        'with edges to members drawn to it. Viewers expand it to see the members.',
+    },
+    ...SOFTNESS_FIELDS,
   ],
   example: { selector: 'Team.members', name: 'Team' },
 };
@@ -848,6 +898,39 @@ const INFERRED_EDGE: LanguageItem = {
     'name in a given instance, that one edge is skipped with a console warning — data-dependent, not a spec error.',
 };
 
+const PROJECTION: LanguageItem = {
+  id: 'projection',
+  yamlKey: 'projection',
+  label: 'Projection',
+  description:
+    "Slice the instance at one atom of a type: the type's atoms leave the diagram, and every relation drops " +
+    'its column over that type, keeping only the tuples that held at the chosen atom.',
+  sections: ['directives'],
+  valueShape: 'mapping',
+  supportsHold: false,
+  fields: [
+    {
+      name: 'sig',
+      type: 'string',
+      required: true,
+      enforcement: 'parse-error',
+      description: 'The type to project over. At most one projection per type.',
+    },
+    {
+      name: 'orderBy',
+      type: 'relation',
+      description:
+        'A binary relation over the type (e.g. `next`) giving the order a host steps through its atoms. ' +
+        'Omit to step in instance order.',
+    },
+  ],
+  example: { sig: 'Time', orderBy: 'next' },
+  note:
+    'Which atom to project at is chosen by the host per render, not by the spec; the layout reports the ' +
+    'atom used and the alternatives in step order. Selectors are written against the unprojected instance ' +
+    'and their results are sliced the same way.',
+};
+
 // ---- deprecated directives ----------------------------------------------
 
 const ICON: LanguageItem = {
@@ -981,6 +1064,131 @@ const EDGE_COLOR: LanguageItem = {
 
 // ---- assembly ------------------------------------------------------------
 
+// ---- macros ---------------------------------------------------------------
+//
+// Shorthand for the orientation boilerplate every tree, list and grid spec
+// repeats. `parseLayoutSpec` replaces each with its `macro.expandsTo` items
+// before parsing (see `layout/spec-macros.ts`), so a macro means exactly what
+// its expansion means — and a generator can expand it from this data alone.
+
+const BINARY_TREE: LanguageItem = {
+  id: 'binaryTree',
+  yamlKey: 'binaryTree',
+  label: 'Binary tree (macro)',
+  description:
+    'Lay out a binary tree: each left child below and to the left of its parent, each right child below and to ' +
+    'the right, and the two children of a node side by side. Expands to two `orientation` constraints and a ' +
+    'horizontal `align` of `left` `pairedWith` `right`, which puts each node\'s two children on one line.',
+  sections: ['constraints'],
+  valueShape: 'mapping',
+  supportsHold: false,
+  fields: [
+    {
+      name: 'left',
+      type: 'selector',
+      arity: 'binary',
+      accepts: PAIR_ARITIES,
+      required: true,
+      enforcement: 'parse-error',
+      description: 'Returns (parent, left child) pairs — usually just the relation, `left`.',
+    },
+    {
+      name: 'right',
+      type: 'selector',
+      arity: 'binary',
+      accepts: PAIR_ARITIES,
+      required: true,
+      enforcement: 'parse-error',
+      description: 'Returns (parent, right child) pairs.',
+    },
+  ],
+  macro: {
+    expandsTo: [
+      { orientation: { selector: '$left', directions: ['below', 'left'] } },
+      { orientation: { selector: '$right', directions: ['below', 'right'] } },
+      { align: { selector: '$left', pairedWith: '$right', direction: 'horizontal' } },
+    ],
+  },
+  example: { left: 'left', right: 'right' },
+};
+
+const LINKED_LIST: LanguageItem = {
+  id: 'linkedList',
+  yamlKey: 'linkedList',
+  label: 'Linked list (macro)',
+  description:
+    'Lay out a chain: each successor directly beside (or under) its predecessor, on one shared line. Expands to ' +
+    'one `orientation` constraint with a `directly*` direction.',
+  sections: ['constraints'],
+  valueShape: 'mapping',
+  supportsHold: false,
+  fields: [
+    {
+      name: 'next',
+      type: 'selector',
+      arity: 'binary',
+      accepts: PAIR_ARITIES,
+      required: true,
+      enforcement: 'parse-error',
+      description: 'Returns (node, successor) pairs.',
+    },
+    {
+      name: 'direction',
+      type: 'enum',
+      values: ['right', 'left', 'below', 'above'],
+      default: 'right',
+      enforcement: 'parse-error',
+      description: 'Which way the list runs from its head. An unrecognized value is a parse error.',
+    },
+  ],
+  macro: {
+    expandsTo: [{ orientation: { selector: '$next', directions: ['$direction'] } }],
+    translate: {
+      direction: { right: 'directlyRight', left: 'directlyLeft', below: 'directlyBelow', above: 'directlyAbove' },
+    },
+  },
+  example: { next: 'next', direction: 'right' },
+};
+
+const GRID: LanguageItem = {
+  id: 'grid',
+  yamlKey: 'grid',
+  label: 'Grid (macro)',
+  description:
+    'Lay out a grid: each cell directly right of the one its `across` relation comes from, and directly below ' +
+    'the one its `down` relation comes from. Expands to two `orientation` constraints.',
+  sections: ['constraints'],
+  valueShape: 'mapping',
+  supportsHold: false,
+  fields: [
+    {
+      name: 'across',
+      type: 'selector',
+      arity: 'binary',
+      accepts: PAIR_ARITIES,
+      required: true,
+      enforcement: 'parse-error',
+      description: 'Returns (cell, cell to its right) pairs.',
+    },
+    {
+      name: 'down',
+      type: 'selector',
+      arity: 'binary',
+      accepts: PAIR_ARITIES,
+      required: true,
+      enforcement: 'parse-error',
+      description: 'Returns (cell, cell below it) pairs.',
+    },
+  ],
+  macro: {
+    expandsTo: [
+      { orientation: { selector: '$across', directions: ['directlyRight'] } },
+      { orientation: { selector: '$down', directions: ['directlyBelow'] } },
+    ],
+  },
+  example: { across: 'east', down: 'south' },
+};
+
 const ITEMS: readonly LanguageItem[] = [
   // constraints
   ORIENTATION,
@@ -989,6 +1197,10 @@ const ITEMS: readonly LanguageItem[] = [
   GROUP_BY_SELECTOR,
   SIZE,
   HIDE_ATOM,
+  // constraint macros
+  BINARY_TREE,
+  LINKED_LIST,
+  GRID,
   // directives
   FLAG,
   ATOM_STYLE,
@@ -997,6 +1209,7 @@ const ITEMS: readonly LanguageItem[] = [
   TAG,
   HIDE_FIELD,
   INFERRED_EDGE,
+  PROJECTION,
   ICON,
   ATOM_COLOR,
   EDGE_COLOR,
@@ -1015,6 +1228,24 @@ const HOLD: HoldRules = {
 
 const DOCUMENT = {
   sections: ['constraints', 'directives'] as const,
+  composition: [
+    {
+      key: 'module' as const,
+      valueShape: 'string' as const,
+      description:
+        "This spec's name. Other specs include it by this name, and warnings about its items carry it as `source`.",
+    },
+    {
+      key: 'extends' as const,
+      valueShape: 'string' as const,
+      description: 'The one spec this spec specialises. Merged first.',
+    },
+    {
+      key: 'include' as const,
+      valueShape: 'string-or-list' as const,
+      description: 'Further specs to pull in, merged after `extends` in the order listed.',
+    },
+  ],
   unknownKeys: 'ignored' as const,
   sectionShape: 'list' as const,
   notes: [
@@ -1026,9 +1257,17 @@ const DOCUMENT = {
     '`size` and `hideAtom` are constraints. Both are still accepted among the directives, with identical ' +
       'meaning, but that placement is deprecated and warns — emit them under `constraints`. Each item lists ' +
       'where to write it in `sections`, and any tolerated-but-deprecated placement in `deprecatedSections`.',
+    'Items with a `macro` (`binaryTree`, `linkedList`, `grid`) are shorthand: the parser replaces each with the ' +
+      'items in its `macro.expandsTo`, substituting its fields for the `$name` placeholders, before anything else ' +
+      'is read. A macro means exactly what its expansion means, so emitting either is equivalent.',
     'Duplicate constraints (same selector and same parameters) are de-duplicated at parse time.',
+    '`extends` and `include` name other specs; the host passes `parseLayoutSpec` a resolver that turns each ' +
+      'name into YAML. Merge order is depth-first: the `extends` target, then each `include` in order, then the ' +
+      "document's own items. A spec reached twice is merged once, at its first position; a spec that reaches " +
+      'itself, or a name the resolver does not know, is a parse error.',
     'Parsing returns advisory `warnings` alongside the spec. Each carries a `code` (currently `deprecated`) and ' +
-      'a `specType` naming the form, so a consumer can surface them without matching prose.',
+      'a `specType` naming the form, so a consumer can surface them without matching prose. In a composed spec, ' +
+      '`source` names the fragment the item came from.',
     'The old group-by-field shape, `group: { field, groupOn, addToGroup }`, is removed. It is a parse error, ' +
       'not a silently ignored key, so an old spec fails loudly instead of losing its grouping. Write a `group` ' +
       'whose binary `selector` has the key in its first column and the members in its second; over ' +
@@ -234,11 +234,35 @@ export interface LanguageItem {
   fields: readonly LanguageField[];
   /** Set when the whole item is deprecated. */
   deprecated?: ItemDeprecation;
+  /**
+   * Set when the item is a macro: shorthand the parser replaces with other
+   * items before reading them. Its `fields` are the macro's parameters.
+   */
+  macro?: MacroExpansion;
   /** A minimal, valid example. Parsed in the conformance test. */
   example: Record<string, unknown>;
   note?: string;
 }
 
+/**
+ * What a macro stands for, as a template a generator can expand itself.
+ *
+ * Each entry of {@link expandsTo} is a list item exactly as it would be
+ * written in the macro's section. Any string value of the form `$name` is a
+ * placeholder for the macro's `name` field: it takes the field's value (or its
+ * `default`), passed through {@link translate} when that lists the field, and a
+ * key whose placeholder has no value is left out.
+ */
+export interface MacroExpansion {
+  expandsTo: readonly Record<string, unknown>[];
+  /**
+   * Per field, the value each of its legal values stands for in the
+   * expansion — for a macro that exposes a friendlier vocabulary than the
+   * items it expands to (`right` rather than `directlyRight`).
+   */
+  translate?: Readonly<Record<string, Readonly<Record<string, unknown>>>>;
+}
+
 /** A deprecated item, and how to rewrite it. */
 export interface ItemDeprecation {
   /** The item id that supersedes this one. */
@@ -256,10 +280,26 @@ export interface ItemDeprecation {
   warningSpecType: string;
 }
 
+/**
+ * A top-level key that composes a spec from other specs rather than adding
+ * items to it. References are opaque strings the host's resolver interprets.
+ */
+export interface CompositionKey {
+  key: 'module' | 'extends' | 'include';
+  /** `string`: one reference. `string-or-list`: one reference or a list of them. */
+  valueShape: 'string' | 'string-or-list';
+  description: string;
+}
+
 /** Document-level facts about how a spec is read as a whole. */
 export interface DocumentRules {
   /** Top-level keys that carry meaning. */
   sections: readonly SpecSection[];
+  /**
+   * Top-level keys for building one spec out of several. The referenced specs
+   * are merged in before the document's own items; see the notes for the order.
+   */
+  composition: readonly CompositionKey[];
   /**
    * Whether an unrecognized top-level key, list item, or field is rejected.
    * It is not: the parser ignores what it does not recognize, so a typo is
@@ -0,0 +1,11 @@
+/**
+ * Web Worker entry — source of dist/browser/spytial-layout-worker.global.js.
+ *
+ * Point `<webcola-cnd-graph layout-worker="…/spytial-layout-worker.global.js">`
+ * at the built file to run renderInstance()'s layout off the main thread. The
+ * worker is self-contained: it bundles the layout pipeline and needs no
+ * other script loaded.
+ */
+import { installLayoutWorker, type LayoutWorkerScope } from './translators/webcola/layout-worker';
+
+installLayoutWorker(self as unknown as LayoutWorkerScope);
@@ -80,7 +80,7 @@ export function flipConstraint(c: SpytialConstraint): SpytialConstraint {
         return new CyclicOrientationConstraint(c.direction, c.selector, !c.negated);
     }
     if (c instanceof AlignConstraint) {
-        return new AlignConstraint(c.direction, c.selector, !c.negated);
+        return new AlignConstraint(c.direction, c.selector, !c.negated, c.pairedWith);
     }
     if (c instanceof GroupBySelector) {
         return new GroupBySelector(c.selector, c.name, c.addEdge, !c.negated);
@@ -81,6 +81,11 @@ export interface LayoutWarning {
   name?: string;
   /** simple-graph-query's "did you mean" suggestion, when it offers one. */
   suggestion?: string;
+  /**
+   * The spec fragment the item came from, for a spec composed with
+   * `extends:`/`include:` — see {@link ParseWarning.source}.
+   */
+  source?: string;
 }
 
 /**
@@ -0,0 +1,306 @@
+/**
+ * Group collapse: redraw a layout with some of its groups folded into a
+ * single summary node each.
+ *
+ * A collapsed group keeps its place in the diagram but not its members: one
+ * node, labelled with the group's name and size, stands in for all of them.
+ * Edges between a member and the rest of the graph are rerouted to that node,
+ * edges among members disappear with them, and the constraints are rewritten
+ * the same way — orderings against outsiders hold for the summary node, while
+ * anything that only separated or aligned members (and any group nested
+ * inside) is dropped, since there is nothing left inside to arrange.
+ *
+ * The transform is pure: the input layout is untouched, so expanding a group
+ * again is just rendering the original layout.
+ */
+
+import {
+    AlignmentConstraint,
+    BoundingBoxConstraint,
+    ColorSource,
+    DisjunctiveConstraint,
+    GroupBoundaryConstraint,
+    InstanceLayout,
+    isAlignmentConstraint,
+    isBoundingBoxConstraint,
+    isGroupBoundaryConstraint,
+    isLeftConstraint,
+    isTopConstraint,
+    LayoutConstraint,
+    LayoutEdge,
+    LayoutGroup,
+    LayoutNode,
+    LeftConstraint,
+    TopConstraint,
+} from './interfaces';
+import { estimateLabelBox } from './text-extent';
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Prefix of the summary node ids. Not `_`, which the renderer reserves for
+ * nodes it hides.
+ */
+export const COLLAPSED_GROUP_NODE_PREFIX = 'collapsed:';
+
+/** The id of the summary node `collapseGroups` draws for group `groupName`. */
+export function collapsedGroupNodeId(groupName: string): string {
+    return `${COLLAPSED_GROUP_NODE_PREFIX}${groupName}`;
+}
+
+/** Names of the groups whose directive asked to start collapsed. */
+export function initiallyCollapsedGroups(layout: InstanceLayout): string[] {
+    return layout.groups.filter(g => g.collapsed && !g.negated).map(g => g.name);
+}
+
+/**
+ * Returns `layout` with every group named in `groupNames` collapsed to a
+ * summary node. Names that match no drawn group are ignored, as are negated
+ * groups, which have no box to collapse.
+ *
+ * Nested groups can be collapsed together: inner groups fold first, so an
+ * outer summary counts every member, the inner ones' included.
+ *
+ * @example
+ * ```typescript
+ * const folded = collapseGroups(layout, ['Team[Alice]']);
+ * folded.nodes.find(n => n.id === collapsedGroupNodeId('Team[Alice]'));
+ * // → { label: 'Team[Alice]', labels: { size: ['3 members'] }, ... }
+ * ```
+ */
+export function collapseGroups(layout: InstanceLayout, groupNames: Iterable<string>): InstanceLayout {
+    const names = new Set(groupNames);
+    const targets = layout.groups
+        .filter(g => names.has(g.name) && !g.negated && g.nodeIds.length > 0)
+        .sort((a, b) => a.nodeIds.length - b.nodeIds.length);
+
+    let result = layout;
+    for (const target of targets) {
+        // An earlier (smaller) collapse may have swallowed this group whole.
+        const group = result.groups.find(g => g.name === target.name);
+        if (group) {
+            result = collapseGroup(result, group, target.nodeIds.length);
+        }
+    }
+    return result;
+}
+
+// ---------------------------------------------------------------------------
+// One group
+// ---------------------------------------------------------------------------
+
+type Side = BoundingBoxConstraint['side'];
+
+const OPPOSITE_SIDE: Record<Side, Side> = { left: 'right', right: 'left', top: 'bottom', bottom: 'top' };
+
+function summaryNode(group: LayoutGroup, size: number): LayoutNode {
+    const sizeText = `${size} ${size === 1 ? 'member' : 'members'}`;
+    const { width, height } = estimateLabelBox(group.name, [sizeText]);
+    return {
+        id: collapsedGroupNodeId(group.name),
+        label: group.name,
+        color: 'black',
+        colorSource: ColorSource.DefaultPalette,
+        textStyle: group.labelTextStyle,
+        labels: { size: [sizeText] },
+        width,
+        height,
+        mostSpecificType: '',
+        types: [],
+        showLabels: true,
+        collapsedGroup: group.name,
+    };
+}
+
+function collapseGroup(layout: InstanceLayout, group: LayoutGroup, size: number): InstanceLayout {
+    const members = new Set(group.nodeIds);
+    const summary = summaryNode(group, size);
+    const nodeFor = (node: LayoutNode): LayoutNode => (members.has(node.id) ? summary : node);
+
+    // The summary takes the first member's place in node order.
+    const nodes: LayoutNode[] = [];
+    for (const node of layout.nodes) {
+        if (!members.has(node.id)) nodes.push(node);
+        else if (!nodes.includes(summary)) nodes.push(summary);
+    }
+
+    // Groups wholly inside the collapsed one go with it; groups that share
+    // members with it now hold the summary node instead.
+    const dropped = new Set([group.name]);
+    const groupFor = new Map<LayoutGroup, LayoutGroup>();
+    const groups: LayoutGroup[] = [];
+    for (const g of layout.groups) {
+        if (g === group || g.nodeIds.every(id => members.has(id))) {
+            dropped.add(g.name);
+            continue;
+        }
+        let next = g;
+        if (g.nodeIds.some(id => members.has(id)) || members.has(g.keyNodeId)) {
+            next = {
+                ...g,
+                nodeIds: [...new Set(g.nodeIds.map(id => (members.has(id) ? summary.id : id)))],
+                keyNodeId: members.has(g.keyNodeId) ? summary.id : g.keyNodeId,
+            };
+        }
+        groupFor.set(g, next);
+        groups.push(next);
+    }
+
+    return {
+        ...layout,
+        nodes,
+        edges: rerouteEdges(layout.edges, nodeFor, summary, dropped),
+        groups,
+        constraints: pruneContradictions(
+            layout.constraints.flatMap(c => rewriteConstraint(c, nodeFor, groupFor, group, summary) ?? []),
+            summary,
+        ),
+        disjunctiveConstraints: layout.disjunctiveConstraints?.flatMap(d => {
+            const alternatives = d.alternatives.map(alt =>
+                alt.flatMap(c => rewriteConstraint(c, nodeFor, groupFor, group, summary) ?? []));
+            // An alternative with nothing left to hold is already satisfied.
+            if (alternatives.some(alt => alt.length === 0)) return [];
+            return [new DisjunctiveConstraint(d.sourceConstraint, alternatives)];
+        }),
+    };
+}
+
+/**
+ * Reroutes member ends to the summary node. Edges among members vanish, and
+ * parallel edges a reroute creates (two members each `next` to one outsider)
+ * collapse to one per relation. Group-end stamps naming a group that is no
+ * longer drawn are cleared, so those ends draw at the node.
+ */
+function rerouteEdges(
+    edges: LayoutEdge[],
+    nodeFor: (node: LayoutNode) => LayoutNode,
+    summary: LayoutNode,
+    dropped: Set<string>,
+): LayoutEdge[] {
+    const seen = new Set<string>();
+    const result: LayoutEdge[] = [];
+    for (const edge of edges) {
+        const source = nodeFor(edge.source);
+        const target = nodeFor(edge.target);
+        const stale = (name?: string) => (name !== undefined && dropped.has(name) ? undefined : name);
+        if (source === edge.source && target === edge.target
+            && stale(edge.sourceGroupId) === edge.sourceGroupId
+            && stale(edge.targetGroupId) === edge.targetGroupId) {
+            result.push(edge);
+            continue;
+        }
+        if (source === summary && target === summary) continue;
+
+        const key = `${source.id}\u0000${target.id}\u0000${edge.relationName}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        result.push({
+            ...edge,
+            source,
+            target,
+            groupId: stale(edge.groupId),
+            sourceGroupId: stale(edge.sourceGroupId),
+            targetGroupId: stale(edge.targetGroupId),
+        });
+    }
+    return result;
+}
+
+/**
+ * The constraint as it applies once `group` is collapsed, or null when it no
+ * longer constrains anything drawn.
+ */
+function rewriteConstraint(
+    constraint: LayoutConstraint,
+    nodeFor: (node: LayoutNode) => LayoutNode,
+    groupFor: Map<LayoutGroup, LayoutGroup>,
+    group: LayoutGroup,
+    summary: LayoutNode,
+): LayoutConstraint | null {
+    if (isTopConstraint(constraint)) {
+        const top = nodeFor(constraint.top);
+        const bottom = nodeFor(constraint.bottom);
+        if (top === bottom) return null;
+        if (top === constraint.top && bottom === constraint.bottom) return constraint;
+        const moved: TopConstraint = { ...constraint, top, bottom };
+        return moved;
+    }
+    if (isLeftConstraint(constraint)) {
+        const left = nodeFor(constraint.left);
+        const right = nodeFor(constraint.right);
+        if (left === right) return null;
+        if (left === constraint.left && right === constraint.right) return constraint;
+        const moved: LeftConstraint = { ...constraint, left, right };
+        return moved;
+    }
+    if (isAlignmentConstraint(constraint)) {
+        // An alignment pins a member's centre line, which the summary does not
+        // share — forcing it onto the summary would drag outsiders into line.
+        const { node1, node2 } = constraint as AlignmentConstraint;
+        return nodeFor(node1) === node1 && nodeFor(node2) === node2 ? constraint : null;
+    }
+    if (isBoundingBoxConstraint(constraint)) {
+        const box = groupFor.get(constraint.group);
+        const node = nodeFor(constraint.node);
+        if (!box || box.nodeIds.includes(node.id)) return null;
+        if (box === constraint.group && node === constraint.node) return constraint;
+        const moved: BoundingBoxConstraint = { ...constraint, group: box, node };
+        return moved;
+    }
+    if (isGroupBoundaryConstraint(constraint)) {
+        const { groupA, groupB, side } = constraint as GroupBoundaryConstraint;
+        // The collapsed group's box is now the summary node's.
+        if (groupA === group || groupB === group) {
+            const other = groupFor.get(groupA === group ? groupB : groupA);
+            if (!other || other.nodeIds.includes(summary.id)) return null;
+            const bounding: BoundingBoxConstraint = {
+                sourceConstraint: constraint.sourceConstraint,
+                group: other,
+                node: summary,
+                side: groupA === group ? side : OPPOSITE_SIDE[side],
+                minDistance: constraint.minDistance,
+            };
+            return bounding;
+        }
+        const a = groupFor.get(groupA);
+        const b = groupFor.get(groupB);
+        if (!a || !b) return null;
+        if (a === groupA && b === groupB) return constraint;
+        const moved: GroupBoundaryConstraint = { ...(constraint as GroupBoundaryConstraint), groupA: a, groupB: b };
+        return moved;
+    }
+    return constraint;
+}
+
+/**
+ * Members may sit on both sides of one outsider — one left of it, another
+ * right. Rerouted, that asks the summary to be on both sides at once, so
+ * such opposed pairs are dropped, as are repeats of one ordering.
+ */
+function pruneContradictions(constraints: LayoutConstraint[], summary: LayoutNode): LayoutConstraint[] {
+    const orderings = new Set<string>();
+    for (const c of constraints) {
+        if (isLeftConstraint(c)) orderings.add(`x:${c.left.id}\u0000${c.right.id}`);
+        else if (isTopConstraint(c)) orderings.add(`y:${c.top.id}\u0000${c.bottom.id}`);
+    }
+
+    const kept = new Set<string>();
+    return constraints.filter(c => {
+        let key: string;
+        let reversed: string;
+        if (isLeftConstraint(c) && (c.left === summary || c.right === summary)) {
+            key = `x:${c.left.id}\u0000${c.right.id}`;
+            reversed = `x:${c.right.id}\u0000${c.left.id}`;
+        } else if (isTopConstraint(c) && (c.top === summary || c.bottom === summary)) {
+            key = `y:${c.top.id}\u0000${c.bottom.id}`;
+            reversed = `y:${c.bottom.id}\u0000${c.top.id}`;
+        } else {
+            return true;
+        }
+        if (orderings.has(reversed) || kept.has(key)) return false;
+        kept.add(key);
+        return true;
+    });
+}
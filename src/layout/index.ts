@@ -5,6 +5,8 @@
 
 export * from './interfaces';
 export * from './layoutspec';
+export * from './spec-composition';
+export * from './spec-macros';
 export * from './layoutinstance';
 export * from './colorpicker';
 export * from './constraint-types';
@@ -12,9 +14,10 @@ export * from './qualitative-constraint-validator';
 export * from './icon-registry';
 export * from './equivalence-checker';
 export * from './denotation-diff';
+export * from './group-collapse';
 
 // Utility functions
-import { LayoutInstance } from './layoutinstance';
+import { LayoutInstance, type GenerateLayoutOptions } from './layoutinstance';
 import { LayoutSpec, parseLayoutSpec } from './layoutspec';
 import IEvaluator from '../evaluator-contracts';
 import { IDataInstance } from '../data-instance/interfaces';
@@ -22,17 +25,19 @@ import { IDataInstance } from '../data-instance/interfaces';
 /**
  * Convenience function to set up and generate a layout
  * @param spec The layout specification (YAML content or LayoutSpec object)
- * @param instance The data instance to layout. To diagram a projected view,
- *                 project in the host and pass the resulting instance.
+ * @param instance The data instance to layout. The spec's `projection`
+ *                 directives, if any, are applied to it first.
  * @param evaluator The evaluator to use for constraint evaluation
+ * @param options Per-call options, e.g. the atom to project each type at
  * @returns The generated layout
  */
 export function setupLayout(
   spec: string | LayoutSpec,
   instance: IDataInstance,
-  evaluator: IEvaluator
+  evaluator: IEvaluator,
+  options?: GenerateLayoutOptions
 ) {
   const layoutSpec = typeof spec === 'string' ? parseLayoutSpec(spec) : spec;
   const layoutInstance = new LayoutInstance(layoutSpec, evaluator);
-  return layoutInstance.generateLayout(instance);
+  return layoutInstance.generateLayout(instance, options);
 }
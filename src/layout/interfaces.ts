@@ -3,6 +3,7 @@ import { EdgeStyle } from "./edge-style";
 import type { TextStyle } from "./style/text-style";
 import type { IconPlacement } from "./style/atom-style-spec";
 import type { LayoutWarning } from "./error-state";
+import type { ProjectionChoice } from "../data-instance/projection-transform";
 
 export interface LayoutGroup {
     // The name of the group
@@ -40,6 +41,12 @@ export interface LayoutGroup {
      * only against keyed groups.
      */
     keyed?: boolean;
+
+    /**
+     * True when the group directive asked for `collapsed: true`: the renderer
+     * starts the group drawn as a single summary node (see `collapseGroups`).
+     */
+    collapsed?: boolean;
 }
 
 /**
@@ -132,6 +139,11 @@ export interface LayoutNode {
     showLabels : boolean;
     /** True when the node has no edges connecting it to the rest of the graph. */
     disconnected?: boolean;
+    /**
+     * Set only on the summary node `collapseGroups` draws for a collapsed
+     * group: that group's name.
+     */
+    collapsedGroup?: string;
 }
 
 
@@ -314,6 +326,20 @@ export interface InstanceLayout {
      * fragments cycle with nobody and are not recorded.
      */
     cyclicFragments?: string[][];
+    /**
+     * One entry per `projection` directive: the type projected over, the atom
+     * this layout was sliced at, and every atom of the type in step order — what
+     * a host needs to offer "previous / next" and pass the pick back through
+     * `generateLayout`'s `projections` option. Absent when the spec projects
+     * nothing.
+     */
+    projections?: ProjectionChoice[];
+    /**
+     * Soft constraints dropped to make the spec satisfiable, in the order they
+     * were dropped. Absent when nothing was relaxed. Every constraint not listed
+     * here holds in this layout.
+     */
+    relaxedConstraints?: RelaxedConstraint[];
     /**
      * Disjunctive constraints, where at least one alternative in each disjunction must be satisfiable.
      * These are separate from conjunctive constraints for clearer solver integration.
@@ -329,6 +355,23 @@ export interface InstanceLayout {
     // some of these extra fields, and then the constraint validator takes that and produces an InstanceLayout?
 }
 
+/**
+ * A soft constraint the solver gave up on. When the constraints conflict and
+ * the conflict includes soft ones, the lowest-priority soft constraint in it
+ * is dropped and the layout is solved again, until it is satisfiable or the
+ * conflict is between hard constraints alone.
+ */
+export interface RelaxedConstraint {
+    /** The spec constraint that was dropped. */
+    constraint: RelativeOrientationConstraint | CyclicOrientationConstraint | AlignConstraint | GroupBySelector;
+    /** Its priority — the lowest among the soft constraints in the conflict. */
+    priority: number;
+    /** The other constraints in the conflict it was dropped from. */
+    conflictsWith: LayoutConstraint['sourceConstraint'][];
+    /** Why it was dropped, naming what it conflicted with, as HTML like the constraints' `toHTML()`. */
+    reason: string;
+}
+
 // Can we write a typeguard for this?
 export function isInstanceLayout(obj: any): obj is InstanceLayout {
     return (
@@ -1,6 +1,9 @@
 import { Graph, Edge } from 'graphlib';
-import { IDataInstance } from '../data-instance/interfaces';
-import { type PositionalConstraintError, type GroupOverlapError, type HiddenNodeConflictError, type IConstraintValidator, isPositionalConstraintError, isGroupOverlapError, isHiddenNodeConflictError } from './constraint-types';
+import { IDataInstance, type DataInstanceEvent } from '../data-instance/interfaces';
+import { applyProjectionTransform, type ProjectionChoice } from '../data-instance/projection-transform';
+import { ProjectedEvaluator } from '../evaluators/data/projected-evaluator';
+import { IncrementalEvaluator } from '../evaluators/data/incremental-evaluator';
+import { type PositionalConstraintError, type GroupOverlapError, type HiddenNodeConflictError, isPositionalConstraintError, isGroupOverlapError, isHiddenNodeConflictError } from './constraint-types';
 import { EdgeStyle, normalizeEdgeStyle } from './edge-style';
 import type { SelectorErrorDetail, LayoutWarning } from './error-state';
 
@@ -9,7 +12,7 @@ import {
     LayoutNode, LayoutEdge, LayoutConstraint, InstanceLayout,
     LeftConstraint, TopConstraint, AlignmentConstraint, LayoutGroup,
     ImplicitConstraint, DisjunctiveConstraint, isLeftConstraint, isTopConstraint, isAlignmentConstraint,
-    negateDisjunction, ColorSource
+    negateDisjunction, ColorSource, type RelaxedConstraint
 } from './interfaces';
 
 import {
@@ -28,10 +31,11 @@ import type { TextStyle } from './style/text-style';
 
 import IEvaluator from '../evaluator-contracts';
 import { SelectorArityError } from '../evaluator-contracts';
-import type { IEvaluatorResult } from '../evaluator-contracts';
+import type { EvaluatorConfig, IEvaluatorResult } from '../evaluator-contracts';
 import { ColorPicker } from './colorpicker';
 import { type ConstraintError, type ErrorMessages } from './constraint-types';
 import { QualitativeConstraintValidator } from './qualitative-constraint-validator';
+import { LayoutMonitor, type LayoutControl } from './progress';
 import { estimateLabelBox, resolveAttrFontSize, SecondaryLine } from './text-extent';
 
 /** The strings the renderer will draw inside a node's box. Used to size the box. */
@@ -48,6 +52,9 @@ const UNIVERSAL_TYPE = "univ";
 
 type ConstraintSource = RelativeOrientationConstraint | CyclicOrientationConstraint | AlignConstraint | ImplicitConstraint;
 
+/** A spec constraint that can be soft, and so relaxed. */
+type SoftConstraint = RelaxedConstraint['constraint'];
+
 /**
  * Reduces a constraint's `toHTML()` output to plain text.
  *
@@ -90,6 +97,20 @@ function warningMessage(
         + `This ${noun} does not apply to anything.`;
 }
 
+/**
+ * Pair up the second atoms of `left` and `right` tuples that share their
+ * first: (p, l) and (p, r) give (l, r), unless l is r.
+ */
+function joinOnFirstAtom(left: string[][], right: string[][]): string[][] {
+    const rightOf = new Map<string, string[]>();
+    for (const [first, second] of right) {
+        if (!rightOf.has(first)) rightOf.set(first, []);
+        rightOf.get(first)!.push(second);
+    }
+    return left.flatMap(([first, second]) =>
+        (rightOf.get(first) ?? []).filter(other => other !== second).map(other => [second, other]));
+}
+
 function stripHtml(html: string): string {
     return html
         .replace(/<[^>]*>/g, '')
@@ -124,6 +145,44 @@ type CounterfactualLayoutResult = {
     validator?: QualitativeConstraintValidator;
 };
 
+/**
+ * Per-call options for {@link LayoutInstance.generateLayout}. `signal`,
+ * `timeout` and `onProgress` cancel and report on the call (phases `generate`
+ * and `validate`); see {@link LayoutControl}.
+ */
+export interface GenerateLayoutOptions extends LayoutControl {
+    /**
+     * The atom to slice each `projection` directive at, keyed by the projected
+     * type. Types left out (or naming an atom the type lacks) use the first atom
+     * in step order. Ignored when the spec has no projection directives.
+     */
+    projections?: Record<string, string>;
+    /**
+     * Turns on incremental re-layout: the edits made to `a` since the previous
+     * call, in order, as its event emitter reported them. Selectors the edits
+     * cannot have affected are served from the previous call's results, and
+     * the constraint solve starts from the previous one's (see
+     * {@link QualitativeConstraintValidatorOptions}).
+     *
+     * Pass `[]` on the first call. Reuse happens only when the previous call
+     * was also incremental and over the same instance object; otherwise the
+     * call lays out from scratch and keeps what the next one needs. A call
+     * without `changes` discards everything kept. The result is the same
+     * verdict — layout or error — a call without `changes` gives.
+     */
+    changes?: readonly DataInstanceEvent[];
+}
+
+/** How much of a layout call was reused, from {@link LayoutInstance.getStats}. */
+export interface LayoutInstanceStats {
+    /** Selector evaluations run by the last generateLayout() call. */
+    selectorsEvaluated: number;
+    /** Selector evaluations it served from the previous call's results. */
+    selectorsReused: number;
+    /** The last constraint solve's statistics, when one ran. */
+    validator?: ReturnType<QualitativeConstraintValidator['getStats']>;
+}
+
 class MissingNodeConstraintError extends Error implements ConstraintError {
     readonly type = 'unknown-constraint';
     readonly missingNodeId: string;
@@ -360,6 +419,19 @@ export class LayoutInstance {
     private evaluator: IEvaluator;
     private instanceNum: number;
 
+    /**
+     * The host's evaluator, remembering results for incremental calls. Sits
+     * under any ProjectedEvaluator, so it always sees the full instance.
+     */
+    private readonly selectors: IncrementalEvaluator;
+    /** The instance the previous incremental call laid out, if it was one. */
+    private incrementalInstance?: IDataInstance;
+    /** The validator the next incremental solve warm-starts from. */
+    private warmValidator?: QualitativeConstraintValidator;
+    private lastValidator?: QualitativeConstraintValidator;
+    /** Checkpoints of the generateLayout() call in progress; a no-op otherwise. */
+    private monitor = new LayoutMonitor();
+
     private readonly alignmentEdgeStrategy: AlignmentEdgeStrategy;
     private readonly validatorStrategy: ConstraintValidatorStrategy;
 
@@ -435,6 +507,14 @@ export class LayoutInstance {
      */
     private exemptFromHiding: Set<string> = new Set();
 
+    /**
+     * Soft constraints dropped so far to make the spec satisfiable, each with
+     * why; constraint generation skips them. Like {@link exemptFromHiding},
+     * carried across the internal passes and reset only by the public
+     * generateLayout() entry point.
+     */
+    private relaxed: Map<SoftConstraint, RelaxedConstraint> = new Map();
+
     /**
      * Atom IDs kept visible this pass despite matching a hideAtom directive, because a
      * constraint references them. These are the atoms the counterfactual diagram draws
@@ -442,6 +522,12 @@ export class LayoutInstance {
      */
     private reintroducedNodes: Set<string> = new Set();
 
+    /**
+     * What each projection directive sliced the current render at. Set once by
+     * the public generateLayout() entry point, before any pass runs.
+     */
+    private projectionChoices: ProjectionChoice[] = [];
+
     /**
      * Records a selector evaluation error for later reporting.
      * @param selector - The selector expression that failed
@@ -465,7 +551,7 @@ export class LayoutInstance {
      * per evaluation.
      */
     private recordWarning(warning: LayoutWarning): void {
-        const key = `${warning.code}|${warning.specType ?? ''}|${warning.specIndex ?? ''}|${warning.name ?? warning.selector ?? warning.message}`;
+        const key = `${warning.code}|${warning.source ?? ''}|${warning.specType ?? ''}|${warning.specIndex ?? ''}|${warning.name ?? warning.selector ?? warning.message}`;
         if (this.warningKeys.has(key)) {
             return;
         }
@@ -499,11 +585,69 @@ export class LayoutInstance {
                 // Where it came from: the spec text, not any one evaluation.
                 context: 'spec',
                 specType: w.specType,
-                label: w.specType ?? 'spec'
+                label: w.source !== undefined ? `${w.specType ?? 'spec'} · ${w.source}` : w.specType ?? 'spec',
+                ...(w.source !== undefined ? { source: w.source } : {})
+            });
+        }
+    }
+
+    /**
+     * Warns about each soft constraint relaxed so far. The layout lists them on
+     * `relaxedConstraints` too; the warning puts them on the same badge as
+     * everything else the author should know did not take effect.
+     */
+    private recordRelaxationWarnings(): void {
+        const spec = this._layoutSpec.constraints;
+        for (const { constraint, reason } of this.relaxed.values()) {
+            const [specType, specIndex] =
+                constraint instanceof RelativeOrientationConstraint ? ['orientation', spec.orientation.relative.indexOf(constraint)]
+                : constraint instanceof CyclicOrientationConstraint ? ['cyclic', spec.orientation.cyclic.indexOf(constraint)]
+                : constraint instanceof AlignConstraint ? ['align', spec.alignment.indexOf(constraint)]
+                : ['group', spec.grouping.byselector.indexOf(constraint)];
+            this.recordWarning({
+                severity: 'warning',
+                code: 'relaxed',
+                message: stripHtml(reason),
+                selector: constraint.selector,
+                context: 'solver',
+                specType,
+                specIndex,
+                label: stripHtml(constraint.toHTML())
             });
         }
     }
 
+    /**
+     * Warns about a projection the host asked to slice at an atom the projected
+     * type does not have — a stale pick carried over from a previous instance,
+     * typically. The layout used the type's first atom instead.
+     */
+    private recordProjectionWarnings(): void {
+        for (const choice of this.projectionChoices) {
+            if (!choice.requestedAtomMissing) continue;
+            this.recordWarning({
+                severity: 'warning',
+                code: 'projection-atom-missing',
+                message: `The requested ${choice.sig} atom is not in this instance; projected at ${choice.atom} instead.`,
+                context: 'projection',
+                specType: 'projection',
+                label: `projection · ${choice.sig}`,
+                name: choice.sig
+            });
+        }
+    }
+
+    /**
+     * The config every selector is evaluated with: this instance's index, and
+     * the time left before the generateLayout() call in progress must stop.
+     */
+    private evaluatorConfig(): EvaluatorConfig {
+        const timeout = this.monitor.remaining();
+        return timeout === undefined
+            ? { instanceIndex: this.instanceNum }
+            : { instanceIndex: this.instanceNum, timeout };
+    }
+
     /**
      * Drains any diagnostics the evaluator raised for `selector` and records one
      * warning per diagnostic, attributed to the spec item that owns the selector.
@@ -719,7 +863,8 @@ export class LayoutInstance {
         validatorStrategy?: ConstraintValidatorStrategy
     ) {
         this.instanceNum = instNum;
-        this.evaluator = evaluator;
+        this.selectors = new IncrementalEvaluator(evaluator);
+        this.evaluator = this.selectors;
         this._layoutSpec = normalizeLegacyDirectives(layoutSpec);
 
         // Handle backward compatibility: if alignmentEdgeStrategy is provided, use it
@@ -763,7 +908,7 @@ export class LayoutInstance {
             let selectorMatches = true;
             if (directive.selector) {
                 try {
-                    const selectorResult = this.evaluator.evaluate(directive.selector, { instanceIndex: this.instanceNum });
+                    const selectorResult = this.evaluator.evaluate(directive.selector, this.evaluatorConfig());
                     const selectedAtoms = selectorResult.selectedAtoms();
                     selectorMatches = selectedAtoms.includes(sourceAtom);
                 } catch (error) {
@@ -780,7 +925,7 @@ export class LayoutInstance {
             let filterMatches = true;
             if (directive.filter) {
                 try {
-                    const filterResult = this.evaluator.evaluate(directive.filter, { instanceIndex: this.instanceNum });
+                    const filterResult = this.evaluator.evaluate(directive.filter, this.evaluatorConfig());
                     const selectedTuples = filterResult.selectedTwoples();
                     // Check if the (source, target) pair is in the filtered set
                     filterMatches = selectedTuples.some(
@@ -817,7 +962,7 @@ export class LayoutInstance {
                     let selectorMatches = true;
                     if (directive.selector) {
                         try {
-                            const selectorResult = this.evaluator.evaluate(directive.selector, { instanceIndex: this.instanceNum });
+                            const selectorResult = this.evaluator.evaluate(directive.selector, this.evaluatorConfig());
                             const selectedAtoms = selectorResult.selectedAtoms();
                             selectorMatches = selectedAtoms.includes(sourceAtom);
                         } catch (error) {
@@ -834,7 +979,7 @@ export class LayoutInstance {
                     let filterMatches = true;
                     if (directive.filter) {
                         try {
-                            const filterResult = this.evaluator.evaluate(directive.filter, { instanceIndex: this.instanceNum });
+                            const filterResult = this.evaluator.evaluate(directive.filter, this.evaluatorConfig());
                             const selectedTuples = filterResult.selectedTwoples();
                             // Check if the (source, target) pair is in the filtered set
                             filterMatches = selectedTuples.some(
@@ -915,11 +1060,12 @@ export class LayoutInstance {
 
         // First we go through the group by selector constraints.
         for (const [specIndex, gc] of groupBySelectorConstraints.entries()) {
+            if (this.relaxed.has(gc)) continue;
 
             let selector = gc.selector;
             let selectorRes;
             try {
-                selectorRes = this.evaluator.evaluate(selector, { instanceIndex: this.instanceNum });
+                selectorRes = this.evaluator.evaluate(selector, this.evaluatorConfig());
             } catch (error) {
                 this.recordSelectorError(selector, 'groupBySelector selector', error);
                 continue; // Skip this group constraint
@@ -978,7 +1124,8 @@ export class LayoutInstance {
                             labelTextStyle: gc.labelTextStyle,
                             sourceConstraint: gc,
                             negated: gc.negated,
-                            keyed: true
+                            keyed: true,
+                            collapsed: gc.collapsed
                         };
                         groups.push(newGroup);
 
@@ -1023,7 +1170,8 @@ export class LayoutInstance {
                     labelTextStyle: gc.labelTextStyle,
                     sourceConstraint: gc,
                     negated: gc.negated,
-                    keyed: false
+                    keyed: false,
+                    collapsed: gc.collapsed
                 };
                 groups.push(newGroup);
             }
@@ -1117,7 +1265,7 @@ export class LayoutInstance {
             let selectorMatches = true;
             if (directive.selector) {
                 try {
-                    const selectorResult = this.evaluator.evaluate(directive.selector, { instanceIndex: this.instanceNum });
+                    const selectorResult = this.evaluator.evaluate(directive.selector, this.evaluatorConfig());
                     selectorMatches = selectorResult.selectedAtoms().includes(sourceAtom);
                 } catch {
                     selectorMatches = false;
@@ -1128,7 +1276,7 @@ export class LayoutInstance {
             let filterMatches = true;
             if (directive.filter) {
                 try {
-                    const filterResult = this.evaluator.evaluate(directive.filter, { instanceIndex: this.instanceNum });
+                    const filterResult = this.evaluator.evaluate(directive.filter, this.evaluatorConfig());
                     filterMatches = filterResult.selectedTwoples().some(
                         tuple => tuple[0] === sourceAtom && tuple[1] === targetAtom
                     );
@@ -1189,7 +1337,7 @@ export class LayoutInstance {
             const tagStyle: TextStyle | undefined = directive.textStyle;
             try {
                 // First, evaluate the toTag selector to get which nodes receive this tag
-                const toTagResult = this.evaluator.evaluate(directive.toTag, { instanceIndex: this.instanceNum });
+                const toTagResult = this.evaluator.evaluate(directive.toTag, this.evaluatorConfig());
                 const selectedAtoms = toTagResult.selectedAtoms();
                 
                 // Then, evaluate the value selector. Its result becomes the tag
@@ -1202,7 +1350,7 @@ export class LayoutInstance {
                 // atoms through as 1-tuples, the same shape and the same
                 // maxArity() test addDrawInferredEdges uses, so a tag means the
                 // same thing whichever evaluator produced the result.
-                const valueResult = this.evaluator.evaluate(directive.value, { instanceIndex: this.instanceNum });
+                const valueResult = this.evaluator.evaluate(directive.value, this.evaluatorConfig());
                 const allTuples: string[][] = valueResult.maxArity() > 1
                     ? valueResult.selectedTuplesAll()
                     : valueResult.selectedAtoms().map((atom: string) => [atom]);
@@ -1323,7 +1471,7 @@ export class LayoutInstance {
         const evaluatedHideDirectives: { selector: string; hiddenSet: Set<string> }[] = [];
         for (const [specIndex, directive] of hiddenAtomDirectives.entries()) {
             try {
-                const selectorResult = this.evaluator.evaluate(directive.selector, { instanceIndex: this.instanceNum });
+                const selectorResult = this.evaluator.evaluate(directive.selector, this.evaluatorConfig());
                 if (!this.acceptSelectorResult(selectorResult, directive.selector, 'hideAtom selector', 'unary', 'hideAtom', specIndex)) {
                     continue; // Skip this directive only (recorded once)
                 }
@@ -1451,9 +1599,13 @@ export class LayoutInstance {
 
     /**
      * Generates the layout for the given data instance.
-     * The engine lays out exactly the instance it is handed. To diagram a
-     * projected view, project in the host and pass the resulting instance —
-     * spytial-core dropped its own projection helpers in 6.0.0.
+     *
+     * When the spec has `projection` directives, the instance is projected first
+     * (see `applyProjectionTransform`) at the atoms named in
+     * `options.projections`, and selectors are sliced the same way through a
+     * {@link ProjectedEvaluator} — the host's evaluator stays initialized over
+     * the full instance. What was picked, and the alternatives, come back on
+     * `layout.projections`.
      *
      * When a hideAtom directive hides an atom that a layout constraint references, the
      * spec is unsatisfiable: the atom cannot be both hidden and placed. The returned
@@ -1466,18 +1618,98 @@ export class LayoutInstance {
      * earlier, aborted pass never reached (e.g. one that stopped at a missing-node error
      * before processing later constraints). Typically one re-run.
      *
+     * With `options.changes`, the call is incremental: see
+     * {@link GenerateLayoutOptions.changes}.
+     *
      * @param a - The data instance to generate the layout for.
+     * @param options - Per-call options: the atom to project each type at, and
+     *   the edits since the previous call.
      * @returns An object containing the layout, constraint error (if any), and any selector errors encountered.
+     * @throws {LayoutCancelledError} When `options.signal`, `options.timeout` or
+     *   an `onProgress` listener aborting the signal stops the call.
      * @throws {ConstraintError} If the layout cannot be generated due to unsatisfiable constraints and error isn't caught to be surfaced to the user.
      */
     public generateLayout(
+        a: IDataInstance,
+        options: GenerateLayoutOptions = {}
+    ): CounterfactualLayoutResult {
+        this.monitor = new LayoutMonitor(options);
+        try {
+            this.monitor.check();
+            this.prepareIncremental(a, options.changes);
+            return this.generateLayoutProjected(a, options);
+        } finally {
+            this.monitor = new LayoutMonitor();
+        }
+    }
+
+    /** generateLayout() after its per-call setup: the projection, if any. */
+    private generateLayoutProjected(
+        a: IDataInstance,
+        options: GenerateLayoutOptions
+    ): CounterfactualLayoutResult {
+        const projections = this._layoutSpec.directives.projections ?? [];
+        if (projections.length === 0) {
+            this.projectionChoices = [];
+            return this.generateLayoutUnprojected(a);
+        }
+
+        const projected = applyProjectionTransform(a, projections, options.projections);
+        this.projectionChoices = projected.choices;
+        const evaluator = this.evaluator;
+        this.evaluator = new ProjectedEvaluator(evaluator, projected.choices);
+        try {
+            const result = this.generateLayoutUnprojected(projected.instance);
+            result.layout.projections = projected.choices;
+            return result;
+        } finally {
+            this.evaluator = evaluator;
+        }
+    }
+
+    /**
+     * Decide how much of the previous call this one may reuse: its selector
+     * results, less those `changes` could have affected, and its solve —
+     * only when both calls are incremental over the same instance.
+     */
+    private prepareIncremental(a: IDataInstance, changes: readonly DataInstanceEvent[] | undefined): void {
+        this.lastValidator = undefined;
+        if (changes !== undefined && this.incrementalInstance === a) {
+            this.selectors.applyChanges(changes, a);
+            return;
+        }
+        this.selectors.reset();
+        this.warmValidator = undefined;
+        this.incrementalInstance = changes !== undefined ? a : undefined;
+    }
+
+    /**
+     * How much the last generateLayout() call reused from the one before:
+     * selector evaluations, and the constraint solve's warm start and
+     * timings. Everything counts as evaluated on a call without `changes`.
+     */
+    public getStats(): LayoutInstanceStats {
+        const { evaluated, reused } = this.selectors.getStats();
+        return {
+            selectorsEvaluated: evaluated,
+            selectorsReused: reused,
+            validator: this.lastValidator?.getStats()
+        };
+    }
+
+    /**
+     * generateLayout() after projection: the hidden-node counterfactual loop
+     * over {@link generateLayoutPass}.
+     */
+    private generateLayoutUnprojected(
         a: IDataInstance
     ): CounterfactualLayoutResult {
-        // Fresh exemption set per public call; it is the only state that must survive the
-        // internal counterfactual passes below.
+        // Fresh exemption and relaxation sets per public call; they are the only state
+        // that must survive the internal passes below.
         this.exemptFromHiding = new Set();
+        this.relaxed = new Map();
 
-        let result = this.generateLayoutPass(a);
+        let result = this.generateRelaxedPass(a);
         if (this.conflictedHiddenNodes.size === 0) {
             return result;
         }
@@ -1514,7 +1746,7 @@ export class LayoutInstance {
         while (this.conflictedHiddenNodes.size > 0 && passes < MAX_PASSES) {
             absorbPassConflicts();
             this.conflictedHiddenNodes.forEach(id => this.exemptFromHiding.add(id));
-            result = this.generateLayoutPass(a);
+            result = this.generateRelaxedPass(a);
             passes++;
         }
         if (this.conflictedHiddenNodes.size > 0) {
@@ -1540,6 +1772,61 @@ export class LayoutInstance {
         return result;
     }
 
+    /**
+     * {@link generateLayoutPass}, relaxing soft constraints: while the solver's
+     * conflict (or a pair of overlapping groups) includes any, drop the
+     * lowest-priority one and solve again. Every
+     * round drops a constraint still in play, so this ends within one round per
+     * soft constraint. What was dropped comes back on `layout.relaxedConstraints`.
+     */
+    private generateRelaxedPass(
+        a: IDataInstance
+    ): CounterfactualLayoutResult {
+        let result = this.generateLayoutPass(a);
+        while (
+            result.error
+            && (isPositionalConstraintError(result.error) || isGroupOverlapError(result.error))
+            && this.relaxWeakestSoftConstraint(result.error)
+        ) {
+            result = this.generateLayoutPass(a);
+        }
+        if (this.relaxed.size > 0) {
+            result.layout.relaxedConstraints = [...this.relaxed.values()];
+        }
+        return result;
+    }
+
+    /**
+     * Drops the lowest-priority soft constraint in a conflict (the first such,
+     * on a tie), recording what it conflicted with. For overlapping groups the
+     * conflict is the two groups' selectors.
+     * @returns false when the conflict is between hard constraints alone.
+     */
+    private relaxWeakestSoftConstraint(error: PositionalConstraintError | GroupOverlapError): boolean {
+        const sources: LayoutConstraint['sourceConstraint'][] = isGroupOverlapError(error)
+            ? [...new Set([error.group1.sourceConstraint, error.group2.sourceConstraint])]
+                .filter((source): source is GroupBySelector => source !== undefined)
+            : [...error.minimalConflictingSet.keys()];
+        let weakest: SoftConstraint | undefined;
+        for (const source of sources) {
+            if (source instanceof ImplicitConstraint || source.priority === undefined) continue;
+            if (weakest === undefined || source.priority < weakest.priority!) {
+                weakest = source;
+            }
+        }
+        if (weakest === undefined) {
+            return false;
+        }
+
+        const priority = weakest.priority!;
+        const conflictsWith = sources.filter(source => source !== weakest);
+        const reason = conflictsWith.length > 0
+            ? `Dropped (priority ${priority}) to resolve a conflict with ${conflictsWith.map(c => c.toHTML()).join('; ')}`
+            : `Dropped (priority ${priority}): it cannot be satisfied`;
+        this.relaxed.set(weakest, { constraint: weakest, priority, conflictsWith, reason });
+        return true;
+    }
+
     /**
      * Runs a single layout-generation pass. Honors `this.exemptFromHiding` so the
      * counterfactual pass can show previously-hidden atoms. Not for direct use — call
@@ -1555,6 +1842,8 @@ export class LayoutInstance {
         // Spec-level warnings (deprecated forms) first, so they read before the
         // per-item selector warnings this render is about to collect.
         this.recordSpecParseWarnings();
+        this.recordProjectionWarnings();
+        this.recordRelaxationWarnings();
         // Reset hidden-node tracking at the start of each layout generation
         // (exemptFromHiding is intentionally preserved across passes)
         this.hiddenNodeSelectors = new Map();
@@ -1563,6 +1852,7 @@ export class LayoutInstance {
         this.reintroducedNodes = new Set();
         this.inferredEdgeGroupStamps = new Map();
         this.cyclicFragments = [];
+        this.monitor.report('generate', 0);
 
         let ai = a;
 
@@ -1577,6 +1867,7 @@ export class LayoutInstance {
 
         // This is where we add the inferred edges to the graph.
         this.addinferredEdges(g);
+        this.monitor.report('generate', 25);
 
 
         /// Groups have to happen here ///
@@ -1588,6 +1879,7 @@ export class LayoutInstance {
         this.addDrawInferredEdges(g, groups);
 
         this.ensureNoExtraNodes(g, a, groups);
+        this.monitor.report('generate', 45);
 
         // Resolve atomStyle once: it feeds the border color (via the color map)
         // and the node's fill / border-width / label / icon styling below.
@@ -1676,6 +1968,7 @@ export class LayoutInstance {
         });
 
         ///////////// CONSTRAINTS ////////////
+        this.monitor.report('generate', 60);
 
 
         let constraints: LayoutConstraint[] = [];
@@ -1692,11 +1985,13 @@ export class LayoutInstance {
             constraints = orientationResult.conjunctive;
             allDisjunctions.push(...orientationResult.disjunctive);
             orientationConstraintCount = constraints.length;
+            this.monitor.report('generate', 75);
 
             const alignResult = this.applyAlignConstraints(layoutNodes, g);
             constraints = constraints.concat(alignResult.conjunctive);
             allDisjunctions.push(...alignResult.disjunctive);
             alignConstraintCount = alignResult.conjunctive.length;
+            this.monitor.report('generate', 85);
 
             console.log(`Generated ${orientationConstraintCount} orientation constraints and ${alignConstraintCount} alignment constraints (deduped + transitive reduction applied)`);
 
@@ -1760,8 +2055,19 @@ export class LayoutInstance {
         }
 
         // Validate all constraints (conjunctive + disjunctive) in one pass
-        const validator: IConstraintValidator = new QualitativeConstraintValidator(layout);
-        const constraintError = validator.validateConstraints();
+        this.monitor.report('generate', 100);
+        const incremental = this.incrementalInstance !== undefined;
+        const validator = new QualitativeConstraintValidator(layout, {
+            previous: incremental ? this.warmValidator : undefined,
+            reusable: incremental
+        });
+        const constraintError = validator.validateConstraints(this.monitor.control());
+        this.lastValidator = validator;
+        // Warm-start from the last solve that succeeded: a failed one may have
+        // kept nothing (Phase 1 conflict), and the fix is usually to undo the edit.
+        if (incremental && !constraintError) {
+            this.warmValidator = validator;
+        }
 
         if (constraintError) {
             if (isPositionalConstraintError(constraintError)) {
@@ -1792,9 +2098,8 @@ export class LayoutInstance {
 
         // Return layout with selectorErrors and warnings (if any) - neither blocks
         // the layout, but callers should check and display them to the user
-        const qualitativeValidator = validator instanceof QualitativeConstraintValidator ? validator : undefined;
         layout.warnings = this.warnings;
-        return { layout, error: null, selectorErrors: this.selectorErrors, warnings: this.warnings, validator: qualitativeValidator };
+        return { layout, error: null, selectorErrors: this.selectorErrors, warnings: this.warnings, validator };
     }
 
     /**
@@ -2010,9 +2315,10 @@ export class LayoutInstance {
 
         // For each cyclic constraint, extract fragments
         for (const [specIndex, c] of cyclicConstraints.entries()) {
+            if (this.relaxed.has(c)) continue;
             let selectorRes;
             try {
-                selectorRes = this.evaluator.evaluate(c.selector, { instanceIndex: this.instanceNum });
+                selectorRes = this.evaluator.evaluate(c.selector, this.evaluatorConfig());
             } catch (error) {
                 this.recordSelectorError(c.selector, 'cyclic orientation selector', error);
                 continue; // Skip this cyclic constraint
@@ -2267,13 +2573,14 @@ export class LayoutInstance {
         const aboveGraph = new Map<string, Set<string>>();
 
         relativeOrientationConstraints.forEach((c: RelativeOrientationConstraint, specIndex: number) => {
+            if (this.relaxed.has(c)) return;
 
             let directions = c.directions;
             let selector = c.selector;
 
             let selectorRes;
             try {
-                selectorRes = this.evaluator.evaluate(selector, { instanceIndex: this.instanceNum });
+                selectorRes = this.evaluator.evaluate(selector, this.evaluatorConfig());
             } catch (error) {
                 this.recordSelectorError(selector, 'orientation selector', error);
                 return; // Skip this orientation constraint
@@ -2604,12 +2911,13 @@ export class LayoutInstance {
         const generatedAlignments = new Set<string>();
 
         alignConstraints.forEach((c: AlignConstraint, specIndex: number) => {
+            if (this.relaxed.has(c)) return;
             let direction = c.direction;
             let selector = c.selector;
 
             let selectorRes;
             try {
-                selectorRes = this.evaluator.evaluate(selector, { instanceIndex: this.instanceNum });
+                selectorRes = this.evaluator.evaluate(selector, this.evaluatorConfig());
             } catch (error) {
                 this.recordSelectorError(selector, 'align selector', error);
                 return; // Skip this align constraint
@@ -2619,6 +2927,20 @@ export class LayoutInstance {
             }
             let selectedTuples: string[][] = selectorRes.selectedTwoples();
 
+            if (c.pairedWith !== undefined) {
+                let pairedRes;
+                try {
+                    pairedRes = this.evaluator.evaluate(c.pairedWith, this.evaluatorConfig());
+                } catch (error) {
+                    this.recordSelectorError(c.pairedWith, 'align pairedWith selector', error);
+                    return;
+                }
+                if (!this.acceptSelectorResult(pairedRes, c.pairedWith, 'align pairedWith selector', 'binary', 'align', specIndex, c)) {
+                    return;
+                }
+                selectedTuples = joinOnFirstAtom(selectedTuples, pairedRes.selectedTwoples());
+            }
+
             // For each tuple, apply the alignment constraint
             selectedTuples.forEach((tuple) => {
                 let sourceNodeId = tuple[0];
@@ -3077,7 +3399,7 @@ export class LayoutInstance {
         sizeDirectives.forEach((sizeDirective, specIndex) => {
             let selectedNodes: string[];
             try {
-                const selectorRes = this.evaluator.evaluate(sizeDirective.selector, { instanceIndex: this.instanceNum });
+                const selectorRes = this.evaluator.evaluate(sizeDirective.selector, this.evaluatorConfig());
                 if (!this.acceptSelectorResult(selectorRes, sizeDirective.selector, 'size selector', 'unary', 'size', specIndex)) {
                     return; // Skip this directive only
                 }
@@ -3156,7 +3478,7 @@ export class LayoutInstance {
                 matched = allNodeIds; // no selector → applies to every atom
             } else {
                 try {
-                    const selectorRes = this.evaluator.evaluate(rule.selector, { instanceIndex: this.instanceNum });
+                    const selectorRes = this.evaluator.evaluate(rule.selector, this.evaluatorConfig());
                     if (!this.acceptSelectorResult(selectorRes, rule.selector, 'atomStyle selector', 'unary', 'atomStyle', specIndex)) {
                         return; // Skip this rule only
                     }
@@ -3323,7 +3645,7 @@ export class LayoutInstance {
         }
         if (directive.selector) {
             try {
-                const selectorResult = this.evaluator.evaluate(directive.selector, { instanceIndex: this.instanceNum });
+                const selectorResult = this.evaluator.evaluate(directive.selector, this.evaluatorConfig());
                 if (!selectorResult.selectedAtoms().includes(sourceAtom)) {
                     return false;
                 }
@@ -3334,7 +3656,7 @@ export class LayoutInstance {
         }
         if (directive.filter && targetAtom) {
             try {
-                const filterResult = this.evaluator.evaluate(directive.filter, { instanceIndex: this.instanceNum });
+                const filterResult = this.evaluator.evaluate(directive.filter, this.evaluatorConfig());
                 const matched = filterResult.selectedTwoples().some(
                     tuple => tuple[0] === sourceAtom && tuple[1] === targetAtom
                 );
@@ -3377,7 +3699,7 @@ export class LayoutInstance {
             let selectorMatches = true;
             if (directive.selector) {
                 try {
-                    const selectorResult = this.evaluator.evaluate(directive.selector, { instanceIndex: this.instanceNum });
+                    const selectorResult = this.evaluator.evaluate(directive.selector, this.evaluatorConfig());
                     const selectedAtoms = selectorResult.selectedAtoms();
                     selectorMatches = selectedAtoms.includes(sourceAtom);
                 } catch (error) {
@@ -3394,7 +3716,7 @@ export class LayoutInstance {
             let filterMatches = true;
             if (directive.filter && targetAtom) {
                 try {
-                    const filterResult = this.evaluator.evaluate(directive.filter, { instanceIndex: this.instanceNum });
+                    const filterResult = this.evaluator.evaluate(directive.filter, this.evaluatorConfig());
                     const selectedTuples = filterResult.selectedTwoples();
                     // Check if the (source, target) pair is in the filtered set
                     filterMatches = selectedTuples.some(
@@ -3490,7 +3812,7 @@ export class LayoutInstance {
 
             let res;
             try {
-                res = this.evaluator.evaluate(he.selector, { instanceIndex: this.instanceNum });
+                res = this.evaluator.evaluate(he.selector, this.evaluatorConfig());
             } catch (error) {
                 this.recordSelectorError(he.selector, 'inferredEdge selector', error);
                 return; // Skip this inferred edge
@@ -3597,7 +3919,7 @@ export class LayoutInstance {
             }
             let res;
             try {
-                res = this.evaluator.evaluate(he.selector, { instanceIndex: this.instanceNum });
+                res = this.evaluator.evaluate(he.selector, this.evaluatorConfig());
             } catch (error) {
                 this.recordSelectorError(he.selector, 'inferredEdge selector', error);
                 return; // Skip this inferred edge
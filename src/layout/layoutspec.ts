@@ -4,6 +4,8 @@ import { EdgeStyleRule, parseEdgeStyleSpec, edgeColorToEdgeStyleRule } from './s
 import type { LineStyle } from './style/edge-style-spec';
 import { AtomStyleRule, parseAtomStyleSpec, atomColorToAtomStyleRule, iconToAtomStyleRule } from './style/atom-style-spec';
 import { parseTextStyle } from './style/text-style';
+import { composeSpecDocument, type SpecResolver } from './spec-composition';
+import { expandSpecMacros } from './spec-macros';
 import type { TextStyle } from './style/text-style';
 
 export type RelativeDirection = "above" | "below" | "left" | "right" | "directlyAbove" | "directlyBelow" | "directlyLeft" | "directlyRight";
@@ -22,6 +24,13 @@ export interface Operation {}
 class ConstraintOperation implements Operation {
     selector: string;
     negated: boolean;
+    /**
+     * Present only on a soft constraint (`priority: n` or `soft: true`): how
+     * strongly to keep it when the spec is unsatisfiable. Higher is kept longer;
+     * `soft: true` alone is priority 0. A constraint without one is hard and is
+     * never relaxed. See `InstanceLayout.relaxedConstraints`.
+     */
+    priority?: number;
     constructor(selector: string, negated: boolean = false) {
         this.selector = selector;
         this.negated = negated;
@@ -114,10 +123,18 @@ export class RelativeOrientationConstraint extends ConstraintOperation {
 
 export class AlignConstraint extends ConstraintOperation {
     direction: AlignDirection;
+    /**
+     * A second pair selector. When set, the atoms aligned are not the pairs
+     * `selector` returns but, for each atom both selectors pair with
+     * something, every atom `selector` pairs it with against every atom
+     * `pairedWith` does — each node's left child with its right child.
+     */
+    pairedWith?: string;
 
-    constructor(direction: AlignDirection, selector: string, negated: boolean = false) {
+    constructor(direction: AlignDirection, selector: string, negated: boolean = false, pairedWith?: string) {
         super(selector, negated);
         this.direction = direction;
+        if (pairedWith !== undefined) this.pairedWith = pairedWith;
     }
     
     override isInternallyConsistent(): boolean {
@@ -131,7 +148,8 @@ export class AlignConstraint extends ConstraintOperation {
 
     override toHTML(): string {
         const prefix = this.negated ? 'NOT ' : '';
-        return `${prefix}AlignConstraint with direction [${this.direction}] and selector <code>${this.selector}</code>`;
+        const pairedWith = this.pairedWith === undefined ? '' : ` paired with <code>${this.pairedWith}</code>`;
+        return `${prefix}AlignConstraint with direction [${this.direction}] and selector <code>${this.selector}</code>${pairedWith}`;
     }
 }
 
@@ -183,6 +201,12 @@ export class GroupBySelector extends ConstraintOperation{
     connectorTextStyle?: TextStyle;
     /** Styling for the group's own label, from the group's top-level `textStyle`. */
     labelTextStyle?: TextStyle;
+    /**
+     * Draw the group's groups collapsed to start with: each as one summary node
+     * standing in for its members (see `collapseGroups`). Display only — the
+     * group still constrains the layout it is expanded into.
+     */
+    collapsed?: boolean;
 
     constructor(selector : string, name: string, addEdge: GroupEdgeDirection | boolean = 'none', negated: boolean = false) {
         super(selector, negated);
@@ -374,6 +398,19 @@ export interface EdgeStyleDirective extends FieldDirective {
  */
 export type EdgeColorDirective = EdgeStyleDirective;
 
+/**
+ * Project the instance over a type before laying it out: the type's atoms
+ * leave the diagram and each relation is sliced at one chosen atom (see
+ * `applyProjectionTransform`). Which atom is a runtime choice the host makes —
+ * the spec only says what to project over and how to order the alternatives.
+ */
+export interface ProjectionDirective {
+    /** The type to project over. */
+    sig: string;
+    /** Optional binary relation over `sig` giving the order to step through its atoms. */
+    orderBy?: string;
+}
+
 
 /////////////////////////////////////////////////
 
@@ -402,6 +439,7 @@ interface DirectivesBlock {
     hiddenFields: FieldHidingDirective[];
     inferredEdges: InferredEdgeDirective[];
     hiddenAtoms: AtomHidingDirective[];
+    projections: ProjectionDirective[];
     hideDisconnected : boolean;
     hideDisconnectedBuiltIns : boolean;
 }
@@ -443,6 +481,22 @@ export interface ParseWarning {
      * uses it to attribute the deprecation when it forwards these onto the layout.
      */
     specType?: string;
+    /**
+     * The fragment the offending item came from, when the spec was composed
+     * from several (see `spec-composition.ts`): its `module:` name, else the
+     * reference it was included by. Absent for items of an unnamed root spec.
+     */
+    source?: string;
+}
+
+/** Options for {@link parseLayoutSpec}. */
+export interface ParseLayoutSpecOptions {
+    /**
+     * Turns the references in a spec's `extends:`/`include:` into spec source.
+     * Required only when the spec (or anything it includes) composes others.
+     * `createSpecModuleResolver` builds one over specs already in memory.
+     */
+    resolve?: SpecResolver;
 }
 
 export interface LayoutSpec {
@@ -486,6 +540,7 @@ function DEFAULT_LAYOUT() : LayoutSpec
             hiddenFields: [],
             inferredEdges: [],
             hiddenAtoms: [],
+            projections: [],
             hideDisconnected: false,
             hideDisconnectedBuiltIns: false
         },
@@ -510,11 +565,19 @@ function DEFAULT_LAYOUT() : LayoutSpec
 
 /**
  * Parses a YAML string into a LayoutSpec object.
+ *
+ * A spec may compose others with top-level `extends:`/`include:` keys; those
+ * are merged in first, in a fixed order, and the whole is parsed as one
+ * document (see `composeSpecDocument`). Warnings about an included item carry
+ * the fragment it came from on {@link ParseWarning.source}.
+ *
  * @param s YAML string to parse into a LayoutSpec.
+ * @param options How to resolve the specs this one includes.
  * @returns LayoutSpec object containing constraints and directives.
- * @throws Error if there are inconsistencies in the constraints or directives.
+ * @throws Error if there are inconsistencies in the constraints or directives,
+ *   or an included spec cannot be resolved.
  */
-export function parseLayoutSpec(s: string): LayoutSpec {
+export function parseLayoutSpec(s: string, options: ParseLayoutSpecOptions = {}): LayoutSpec {
 
     if (!s) {
         return DEFAULT_LAYOUT();
@@ -524,10 +587,23 @@ export function parseLayoutSpec(s: string): LayoutSpec {
     // First, parse the YAML
     let parsed = yaml.load(s) as Record<string, unknown>;
 
-
-    // Now extract the constraints and directives
-    let constraints = parsed?.constraints;
-    let directives = parsed?.directives;
+    // Then merge in whatever it extends and includes. A document that composes
+    // nothing comes back with its own sections unchanged.
+    const composed = parsed !== null && typeof parsed === 'object'
+        ? composeSpecDocument(parsed, options.resolve)
+        : undefined;
+    const sourceOf = (item: object): string | undefined => composed?.sources.get(item);
+
+    // Now extract the constraints and directives. Macros (`binaryTree`, …)
+    // are replaced by the items they stand for first, and those items are
+    // attributed to whichever fragment wrote the macro. A macro in a section
+    // it does not belong to is an error rather than an unknown item.
+    const attribute = (macroItem: object, expanded: object): void => {
+        const source = composed?.sources.get(macroItem);
+        if (source !== undefined) composed!.sources.set(expanded, source);
+    };
+    let constraints = composed ? expandSpecMacros(composed.constraints, 'constraints', attribute) : undefined;
+    let directives = composed ? expandSpecMacros(composed.directives, 'directives', attribute) : undefined;
 
 
 
@@ -571,7 +647,7 @@ export function parseLayoutSpec(s: string): LayoutSpec {
 
     if (directives && Array.isArray(directives)) {
         try {
-            let directivesParsed = parseDirectives(directives, warnings);
+            let directivesParsed = parseDirectives(directives, warnings, sourceOf);
             layoutSpec.directives = directivesParsed;
             
             // Merge size and hideAtom from constraints into directives
@@ -588,7 +664,11 @@ export function parseLayoutSpec(s: string): LayoutSpec {
         layoutSpec.directives.sizes = sizesFromConstraints;
         layoutSpec.directives.hiddenAtoms = hiddenAtomsFromConstraints;
     }
-    warnUnresolvedInferredEdgeDrawReferences(layoutSpec, warnings);
+    // Parsed inferred edges are one-to-one, in order, with the raw items.
+    const inferredEdgeSources = ((directives ?? []) as Record<string, unknown>[])
+        .filter(d => d?.inferredEdge)
+        .map(sourceOf);
+    warnUnresolvedInferredEdgeDrawReferences(layoutSpec, warnings, inferredEdgeSources);
     return layoutSpec;
 }
 
@@ -607,9 +687,13 @@ export function parseLayoutSpec(s: string): LayoutSpec {
  * name builds no groups skips that one directive and leaves the rest of the
  * spec running (see `addDrawInferredEdges`). Warning here just says it earlier.
  */
-function warnUnresolvedInferredEdgeDrawReferences(spec: LayoutSpec, warnings: ParseWarning[]): void {
+function warnUnresolvedInferredEdgeDrawReferences(
+    spec: LayoutSpec,
+    warnings: ParseWarning[],
+    sources: (string | undefined)[] = [],
+): void {
     const groupNames = new Set(spec.constraints.grouping.byselector.map(gc => gc.name));
-    for (const ie of spec.directives.inferredEdges) {
+    for (const [index, ie] of spec.directives.inferredEdges.entries()) {
         if (!ie.draw) continue;
         // Deduped, so `draw: zones -> zones` reports the one missing name once
         // rather than twice. Same shape `addDrawInferredEdges` uses on the same
@@ -627,12 +711,46 @@ function warnUnresolvedInferredEdgeDrawReferences(spec: LayoutSpec, warnings: Pa
                 // Same dual emission as the deprecation warnings: console for
                 // back-compat, and the accumulator that rides out on the spec.
                 console.warn(message);
-                warnings.push({ code: 'unresolved-reference', message, specType: 'inferredEdge' });
+                const source = sources[index];
+                warnings.push(source === undefined
+                    ? { code: 'unresolved-reference', message, specType: 'inferredEdge' }
+                    : { code: 'unresolved-reference', message, specType: 'inferredEdge', source });
             }
         }
     }
 }
 
+/**
+ * The priority a de-duplicated constraint keeps when two copies disagree: the
+ * stronger one, so a copy written hard anywhere stays hard.
+ */
+function strongerPriority(a: number | undefined, b: number | undefined): number | undefined {
+    return a === undefined || b === undefined ? undefined : Math.max(a, b);
+}
+
+/**
+ * Reads a constraint's softness: `priority: n` (a non-negative number), or
+ * `soft: true` for priority 0. Absent both, the constraint is hard.
+ * @throws Error if the priority is not a non-negative number, or `soft` is not
+ *   a boolean or contradicts a given priority.
+ */
+function parsePriority(inner: Record<string, unknown>, kind: string): number | undefined {
+    const { priority, soft } = inner;
+    if (soft !== undefined && typeof soft !== 'boolean') {
+        throw new Error(`${kind} constraint: soft must be true or false, got '${String(soft)}'`);
+    }
+    if (priority === undefined || priority === null || priority === '') {
+        return soft === true ? 0 : undefined;
+    }
+    if (typeof priority !== 'number' || !Number.isFinite(priority) || priority < 0) {
+        throw new Error(`${kind} constraint: priority must be a non-negative number, got '${String(priority)}'`);
+    }
+    if (soft === false) {
+        throw new Error(`${kind} constraint: a priority makes it soft, so it cannot also say soft: false`);
+    }
+    return priority;
+}
+
 /**
  * Removes duplicate cyclic orientation constraints based on selector and direction.
  * @param constraints Array of cyclic constraints
@@ -644,9 +762,12 @@ function removeDuplicateCyclicConstraints(constraints: CyclicOrientationConstrai
     
     for (const constraint of constraints) {
         const key = `${constraint.selector.trim()}|${constraint.direction}|${constraint.negated}`;
-        if (!seen.has(key)) {
+        const kept = seen.get(key);
+        if (!kept) {
             seen.set(key, constraint);
             result.push(constraint);
+        } else {
+            kept.priority = strongerPriority(kept.priority, constraint.priority);
         }
     }
 
@@ -664,9 +785,12 @@ function removeDuplicateRelativeOrientationConstraints(constraints: RelativeOrie
 
     for (const constraint of constraints) {
         const key = `${constraint.selector.trim()}|${constraint.directions.sort().join(',')}|${constraint.negated}`;
-        if (!seen.has(key)) {
+        const kept = seen.get(key);
+        if (!kept) {
             seen.set(key, constraint);
             result.push(constraint);
+        } else {
+            kept.priority = strongerPriority(kept.priority, constraint.priority);
         }
     }
     
@@ -674,7 +798,7 @@ function removeDuplicateRelativeOrientationConstraints(constraints: RelativeOrie
 }
 
 /**
- * Removes duplicate align constraints based on selector and direction.
+ * Removes duplicate align constraints based on selectors and direction.
  * @param constraints Array of align constraints
  * @returns Array with duplicates removed
  */
@@ -683,10 +807,13 @@ function removeDuplicateAlignConstraints(constraints: AlignConstraint[]): AlignC
     const result: AlignConstraint[] = [];
     
     for (const constraint of constraints) {
-        const key = `${constraint.selector.trim()}|${constraint.direction}|${constraint.negated}`;
-        if (!seen.has(key)) {
+        const key = `${constraint.selector.trim()}|${constraint.pairedWith?.trim() ?? ''}|${constraint.direction}|${constraint.negated}`;
+        const kept = seen.get(key);
+        if (!kept) {
             seen.set(key, constraint);
             result.push(constraint);
+        } else {
+            kept.priority = strongerPriority(kept.priority, constraint.priority);
         }
     }
 
@@ -704,9 +831,13 @@ function removeDuplicateGroupBySelectorConstraints(constraints: GroupBySelector[
     
     for (const constraint of constraints) {
         const key = `${constraint.selector.trim()}|${constraint.name}|${constraint.addEdge}`;
-        if (!seen.has(key)) {
+        const kept = seen.get(key);
+        if (!kept) {
             seen.set(key, constraint);
             result.push(constraint);
+        } else {
+            kept.priority = strongerPriority(kept.priority, constraint.priority);
+            if (constraint.collapsed) kept.collapsed = true;
         }
     }
     
@@ -741,11 +872,14 @@ function parseConstraints(constraints: unknown[], _warnings: ParseWarning[] = []
                 throw new Error("Cyclic constraint must have a selector");
             }
 
-            return new CyclicOrientationConstraint(
+            const cyclic = new CyclicOrientationConstraint(
                 c.cyclic.direction || "clockwise",
                 c.cyclic.selector,
                 c._negated
             );
+            const priority = parsePriority(c.cyclic, 'Cyclic');
+            if (priority !== undefined) cyclic.priority = priority;
+            return cyclic;
         });
 
         // Remove duplicate cyclic constraints
@@ -792,6 +926,8 @@ function parseConstraints(constraints: unknown[], _warnings: ParseWarning[] = []
             if(!isInternallyConsistent) {
                 throw new Error(roc.inconsistencyMessage());
             }
+            const priority = parsePriority(c.orientation, 'Orientation');
+            if (priority !== undefined) roc.priority = priority;
             return roc;
         });
 
@@ -851,6 +987,9 @@ function parseConstraints(constraints: unknown[], _warnings: ParseWarning[] = []
             }
             // The group's own label styling (top-level `textStyle`).
             gbs.labelTextStyle = parseTextStyle(c.group.textStyle);
+            if (c.group.collapsed === true) gbs.collapsed = true;
+            const priority = parsePriority(c.group, 'Grouping');
+            if (priority !== undefined) gbs.priority = priority;
             return gbs;
         });
 
@@ -867,16 +1006,23 @@ function parseConstraints(constraints: unknown[], _warnings: ParseWarning[] = []
                 throw new Error("Align constraint must have a direction");
             }
 
+            if (c.align.pairedWith !== undefined && typeof c.align.pairedWith !== 'string') {
+                throw new Error("Align constraint's pairedWith must be a selector");
+            }
+
             let alignConstraint = new AlignConstraint(
                 c.align.direction,
                 c.align.selector,
-                c._negated
+                c._negated,
+                c.align.pairedWith || undefined
             );
             
             if(!alignConstraint.isInternallyConsistent()) {
                 throw new Error(alignConstraint.inconsistencyMessage());
             }
-            
+            const priority = parsePriority(c.align, 'Align');
+            if (priority !== undefined) alignConstraint.priority = priority;
+
             return alignConstraint;
         });
 
@@ -902,15 +1048,25 @@ function parseConstraints(constraints: unknown[], _warnings: ParseWarning[] = []
  * @returns List of CnD directives
  * @throws Error if there are inconsistencies in the directives.
  */
-function parseDirectives(directives: unknown[], warnings: ParseWarning[] = []): DirectivesBlock {
+function parseDirectives(
+    directives: unknown[],
+    warnings: ParseWarning[] = [],
+    sourceOf: (item: object) => string | undefined = () => undefined,
+): DirectivesBlock {
     // Type assertion since we expect specific structure from YAML
     const typedDirectives = directives as Record<string, any>[];
 
     // Emit a deprecation both to the console (back-compat: several tests assert
     // this) and to the consumable `warnings` accumulator (rides out on the spec).
-    const deprecate = (specType: string, message: string): void => {
-        console.warn(message);
-        warnings.push({ code: 'deprecated', message, specType });
+    // Once per form per source fragment: a single document warns once, and a
+    // composed one names each fragment that still uses the old form.
+    const deprecate = (specType: string, message: string, items: object[]): void => {
+        for (const source of new Set(items.map(sourceOf))) {
+            console.warn(source === undefined ? message : `${message} (in spec '${source}')`);
+            warnings.push(source === undefined
+                ? { code: 'deprecated', message, specType }
+                : { code: 'deprecated', message, specType, source });
+        }
     };
 
     // CURRENTLY NO SUGAR HERE!
@@ -928,7 +1084,8 @@ function parseDirectives(directives: unknown[], warnings: ParseWarning[] = []):
             'icon',
             "[spytial] 'icon' is deprecated and will be removed in a future major; " +
             "use 'atomStyle' with an 'iconStyle' block ({ path, placement: full | badge, opacity }), " +
-            "and atomStyle's own 'showLabel' to control the atom's label."
+            "and atomStyle's own 'showLabel' to control the atom's label.",
+            rawIcons
         );
     }
     // A selectorless or pathless icon desugars to null and is dropped — it drew
@@ -951,7 +1108,8 @@ function parseDirectives(directives: unknown[], warnings: ParseWarning[] = []):
             'atomColor',
             "[spytial] 'atomColor' is deprecated and will be removed in a future major; " +
             "use 'atomStyle' with a 'borderStyle' block (value→borderStyle.color), " +
-            "or a 'fillStyle' block for a real interior fill."
+            "or a 'fillStyle' block for a real interior fill.",
+            rawAtomColors
         );
     }
     // A selectorless (malformed) atomColor desugars to null and is dropped — it
@@ -971,7 +1129,8 @@ function parseDirectives(directives: unknown[], warnings: ParseWarning[] = []):
             'size',
             "[spytial] 'size' in the 'directives' section is deprecated and will be removed in a " +
             "future major; it is a constraint — move it to the 'constraints' section. Its fields " +
-            "and meaning are unchanged."
+            "and meaning are unchanged.",
+            rawSizes
         );
     }
     let sizes : AtomSizeDirective[] = rawSizes
@@ -995,7 +1154,8 @@ function parseDirectives(directives: unknown[], warnings: ParseWarning[] = []):
             'edgeColor',
             "[spytial] 'edgeColor' is deprecated and will be removed in a future major; " +
             "use 'edgeStyle' with a 'lineStyle' block " +
-            "(value→lineStyle.color, style→lineStyle.pattern, weight→lineStyle.weight, highlight→lineStyle.highlight)."
+            "(value→lineStyle.color, style→lineStyle.pattern, weight→lineStyle.weight, highlight→lineStyle.highlight).",
+            rawEdgeColors
         );
     }
     const desugaredEdgeColors: EdgeStyleRule[] = rawEdgeColors.map(d => edgeColorToEdgeStyleRule(d.edgeColor));
@@ -1025,12 +1185,12 @@ function parseDirectives(directives: unknown[], warnings: ParseWarning[] = []):
     // inferredEdge keeps its structural identity (name/selector) but adopts the
     // shared lineStyle/textStyle blocks. Legacy inline color/style/weight/highlight
     // still parse (mapped onto the flat fields) but are deprecated.
-    let usedLegacyInferredInline = false;
+    const legacyInferredInline: object[] = [];
     let inferredEdges : InferredEdgeDirective[] = typedDirectives.filter(d => d.inferredEdge).map(d => {
         const ie = d.inferredEdge;
         const spec = parseEdgeStyleSpec(ie); // extracts lineStyle / textStyle blocks
         if (ie.color !== undefined || ie.style !== undefined || ie.weight !== undefined || ie.highlight !== undefined) {
-            usedLegacyInferredInline = true;
+            legacyInferredInline.push(d);
         }
         return {
             name: ie.name,
@@ -1043,11 +1203,12 @@ function parseDirectives(directives: unknown[], warnings: ParseWarning[] = []):
             draw: parseInferredEdgeDraw(ie.draw),
         };
     });
-    if (usedLegacyInferredInline) {
+    if (legacyInferredInline.length > 0) {
         deprecate(
             'inferredEdge',
             "[spytial] inferredEdge's inline 'color'/'style'/'weight'/'highlight' are deprecated; " +
-            "use a 'lineStyle' block (color, pattern, weight, highlight) instead."
+            "use a 'lineStyle' block (color, pattern, weight, highlight) instead.",
+            legacyInferredInline
         );
     }
 
@@ -1060,7 +1221,8 @@ function parseDirectives(directives: unknown[], warnings: ParseWarning[] = []):
             'hideAtom',
             "[spytial] 'hideAtom' in the 'directives' section is deprecated and will be removed in a " +
             "future major; it is a constraint — move it to the 'constraints' section. Its fields " +
-            "and meaning are unchanged."
+            "and meaning are unchanged.",
+            rawHiddenAtoms
         );
     }
     let hiddenAtoms : AtomHidingDirective[] = rawHiddenAtoms.map(d => {
@@ -1069,6 +1231,23 @@ function parseDirectives(directives: unknown[], warnings: ParseWarning[] = []):
         }
     });
 
+    let projections : ProjectionDirective[] = typedDirectives.filter(d => d.projection).map(d => {
+        if (!d.projection.sig) {
+            throw new Error("Projection directive must have a sig");
+        }
+        return {
+            sig: d.projection.sig,
+            orderBy: d.projection.orderBy
+        }
+    });
+    const projectedSigs = new Set<string>();
+    for (const p of projections) {
+        if (projectedSigs.has(p.sig)) {
+            throw new Error(`Projection directive for sig ${p.sig} appears more than once`);
+        }
+        projectedSigs.add(p.sig);
+    }
+
     let tags : TagDirective[] = typedDirectives.filter(d => d.tag).map(d => {
         return {
             toTag: d.tag.toTag,
@@ -1113,6 +1292,7 @@ function parseDirectives(directives: unknown[], warnings: ParseWarning[] = []):
         hiddenFields,
         inferredEdges,
         hiddenAtoms,
+        projections,
         hideDisconnected,
         hideDisconnectedBuiltIns
     }
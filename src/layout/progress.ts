@@ -0,0 +1,109 @@
+/**
+ * Cancelling and reporting on long layouts.
+ *
+ * Layout generation, constraint validation and the WebCola solve are
+ * synchronous, so an abort signalled from a timer or a button cannot land
+ * while one of them runs. They therefore poll at checkpoints: between steps,
+ * per constraint, per search decision. Each checkpoint stops the work when
+ * the signal is aborted, the time budget is spent, or — the way to stop a
+ * synchronous run from inside it — a progress listener aborted the signal.
+ */
+
+/** The stages of a layout, in the order they run. */
+export type LayoutPhase = 'generate' | 'validate' | 'translate' | 'solve';
+
+export interface LayoutProgress {
+    phase: LayoutPhase;
+    /**
+     * How far through `phase`, 0–100. Rises within a phase; a phase that runs
+     * again — generateLayout re-runs passes to relax soft constraints and to
+     * draw counterfactuals — starts again from 0.
+     */
+    percentage: number;
+}
+
+export type LayoutProgressListener = (progress: LayoutProgress) => void;
+
+/** Cancellation and progress options for a long-running layout call. */
+export interface LayoutControl {
+    /** Stops the call at its next checkpoint once aborted. */
+    signal?: AbortSignal;
+    /**
+     * Milliseconds the call may run before it stops at a checkpoint, as if
+     * aborted. Checked only at checkpoints, so the overrun is at most one
+     * step.
+     */
+    timeout?: number;
+    /** Told of progress as each phase advances by at least one percent. */
+    onProgress?: LayoutProgressListener;
+}
+
+/** A layout stopped before finishing — aborted, or out of time. */
+export class LayoutCancelledError extends Error {
+    readonly reason: 'aborted' | 'timeout';
+
+    constructor(reason: 'aborted' | 'timeout' = 'aborted') {
+        super(reason === 'timeout' ? 'Layout timed out' : 'Layout cancelled');
+        // The DOM's name for an aborted operation, so `e.name === 'AbortError'`
+        // handlers written for fetch() catch this too.
+        this.name = 'AbortError';
+        this.reason = reason;
+        Object.setPrototypeOf(this, LayoutCancelledError.prototype);
+    }
+}
+
+function now(): number {
+    return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+/** The checkpoints of one call, under one {@link LayoutControl}. */
+export class LayoutMonitor {
+    private readonly deadline: number;
+    private phase: LayoutPhase | null = null;
+    private reported = -1;
+
+    constructor(private readonly options: LayoutControl = {}) {
+        this.deadline = options.timeout !== undefined ? now() + options.timeout : Infinity;
+    }
+
+    /** @throws LayoutCancelledError when the call should stop. */
+    check(): void {
+        if (this.options.signal?.aborted) {
+            throw new LayoutCancelledError('aborted');
+        }
+        if (this.deadline !== Infinity && now() > this.deadline) {
+            throw new LayoutCancelledError('timeout');
+        }
+    }
+
+    /**
+     * Report progress — to the listener, once per whole percent — then
+     * check. A change of phase restarts the count.
+     */
+    report(phase: LayoutPhase, percentage: number): void {
+        const whole = Math.max(0, Math.min(100, Math.floor(percentage)));
+        if (phase !== this.phase) {
+            this.phase = phase;
+            this.reported = -1;
+        }
+        if (whole > this.reported) {
+            this.reported = whole;
+            this.options.onProgress?.({ phase, percentage: whole });
+        }
+        this.check();
+    }
+
+    /** Milliseconds left before the deadline; `undefined` without one. */
+    remaining(): number | undefined {
+        return this.deadline === Infinity ? undefined : Math.max(0, this.deadline - now());
+    }
+
+    /** The same signal, listener and deadline, for a call made on this one's behalf. */
+    control(): LayoutControl {
+        return {
+            signal: this.options.signal,
+            onProgress: this.options.onProgress,
+            timeout: this.remaining()
+        };
+    }
+}
@@ -73,6 +73,7 @@ export {
 } from './constraint-types';
 
 import type { PositionalConstraintError, GroupOverlapError } from './constraint-types';
+import { LayoutMonitor, type LayoutControl } from './progress';
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // Constants
@@ -1088,6 +1089,53 @@ class DifferenceConstraintGraph {
         }
         return edges;
     }
+
+    /**
+     * Re-point every claim and provenance entry at a successor constraint —
+     * for a warm start, where the previous solve's graph is reused under the
+     * new layout's (equal but distinct) constraint objects. A constraint with
+     * no successor is forgotten: its provenance entries go, and its claims
+     * stay as anonymous weight.
+     */
+    replaceConstraints(successor: (c: LayoutConstraint) => LayoutConstraint | undefined): void {
+        for (const [key, claims] of this.edgeClaims) {
+            this.edgeClaims.set(key, claims.map(claim => ({ w: claim.w, c: claim.c && successor(claim.c) })));
+        }
+        for (const [key, c] of [...this.edgeProvenance]) {
+            const next = successor(c);
+            if (next) this.edgeProvenance.set(key, next);
+            else this.edgeProvenance.delete(key);
+        }
+    }
+
+    /**
+     * Name `constraint` as the provenance of edge a → b if the edge exists and
+     * nothing names it yet. Alignment edges are shared by reference count, not
+     * claims, so when the constraint that first named one is released the edge
+     * survives unnamed; a warm start re-adopts it for the one still holding it.
+     */
+    adoptProvenance(a: string, b: string, constraint: LayoutConstraint): void {
+        const key = DifferenceConstraintGraph.provenanceKey(a, b);
+        if (this.hasEdge(a, b) && !this.edgeProvenance.has(key)) {
+            this.edgeProvenance.set(key, constraint);
+        }
+    }
+
+    /**
+     * Remove a node with no edges. Returns false (and leaves the node) when
+     * edges remain.
+     */
+    removeIsolatedNode(id: string): boolean {
+        if (!this.nodes.has(id)) return true;
+        if ((this.adj.get(id)?.size ?? 0) > 0 || (this.radj.get(id)?.size ?? 0) > 0) return false;
+        this.nodes.delete(id);
+        this.adj.delete(id);
+        this.radj.delete(id);
+        this.nodeSize.delete(id);
+        this.removeVersion = nextGraphStamp++;
+        this.markDeltasUnknown();
+        return true;
+    }
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -1132,6 +1180,86 @@ interface SolverCheckpoint {
     addedConstraintsLength: number;
 }
 
+// ═══════════════════════════════════════════════════════════════════════════════
+// Warm start
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * A learned-clause literal named by what it says rather than where: the
+ * disjunction (by the keys of all its alternatives, before any pruning) and
+ * the alternative. Indices do not survive into another solve — presolve drops
+ * and prunes differently there — but these names do.
+ */
+interface KeyedLiteral {
+    disjunction: string;
+    alternative: string;
+    sign: boolean;
+}
+
+/**
+ * What a later validator needs to start from this one: the graphs as Phase 1
+ * left them, the constraints that built them (by key), the box sizes their
+ * edge weights include, and the learned clauses by name.
+ */
+interface WarmStartState {
+    hGraph: DifferenceConstraintGraph;
+    vGraph: DifferenceConstraintGraph;
+    constraints: Map<string, LayoutConstraint[]>;
+    nodeSizes: Map<string, string>;
+    /** Keys of every disjunction, or null when one had no key. */
+    disjunctions: Set<string> | null;
+    learnedClauses: KeyedLiteral[][];
+}
+
+/** Options for {@link QualitativeConstraintValidator}. */
+export interface QualitativeConstraintValidatorOptions {
+    /**
+     * A validator that solved an earlier version of this layout, and was
+     * created `reusable`. Its Phase 1 graphs are patched into this layout's —
+     * constraints that went away released, new ones added — instead of being
+     * rebuilt, and its learned clauses are kept when they still follow (no
+     * constraint went away). The result is the same verdict a cold solve
+     * gives; on any conflict the solve is redone cold, so error explanations
+     * are unaffected.
+     */
+    previous?: QualitativeConstraintValidator;
+    /** Keep what a later validator needs to warm-start from this one. */
+    reusable?: boolean;
+}
+
+/** Milliseconds since an arbitrary origin, for the timings in getStats(). */
+function now(): number {
+    return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+function groupKey(group: LayoutGroup): string {
+    return `${group.name}[${[...group.nodeIds].sort().join('\x01')}]`;
+}
+
+/**
+ * What a constraint asks of the layout, as a string: two constraints with the
+ * same key place the same boxes the same way, whichever spec item made them.
+ * Undefined for a kind the warm start does not know.
+ */
+function constraintKey(c: LayoutConstraint): string | undefined {
+    if (isLeftConstraint(c)) return `L\x00${c.left.id}\x00${c.right.id}\x00${c.minDistance}`;
+    if (isTopConstraint(c)) return `T\x00${c.top.id}\x00${c.bottom.id}\x00${c.minDistance}`;
+    if (isAlignmentConstraint(c)) {
+        const [a, b] = [c.node1.id, c.node2.id].sort();
+        return `A\x00${c.axis}\x00${a}\x00${b}`;
+    }
+    if (isBoundingBoxConstraint(c)) return `B\x00${groupKey(c.group)}\x00${c.node.id}\x00${c.side}\x00${c.minDistance}`;
+    if (isGroupBoundaryConstraint(c)) {
+        return `G\x00${groupKey(c.groupA)}\x00${groupKey(c.groupB)}\x00${c.side}\x00${c.minDistance}`;
+    }
+    return undefined;
+}
+
+function alternativeKey(alternative: LayoutConstraint[]): string | undefined {
+    const keys = alternative.map(constraintKey);
+    return keys.includes(undefined) ? undefined : keys.join('\x02');
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // QualitativeConstraintValidator
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -1191,6 +1319,30 @@ class QualitativeConstraintValidator implements IConstraintValidator {
     // ─── Statistics ───
     private prunedByTransitivity: number = 0;
     private prunedByDecomposition: number = 0;
+    private timings = { conjunctiveMs: 0, presolveMs: 0, searchMs: 0, totalMs: 0 };
+    /** Checkpoints of the validateConstraints() call in progress; a no-op otherwise. */
+    private monitor = new LayoutMonitor();
+    /** Deepest the current search has reached, for its progress. */
+    private deepestTrail = 0;
+
+    // ─── Warm start (see QualitativeConstraintValidatorOptions) ───
+    /** The previous solve to start from; consumed by the first validation. */
+    private previousState: WarmStartState | null = null;
+    /** Set after Phase 1 when reusable; read by the next validator. */
+    private warmState: WarmStartState | null = null;
+    private readonly reusable: boolean;
+    /** Key of each original alternative, by array identity (pruning keeps the arrays). */
+    private alternativeKeys: Map<LayoutConstraint[], { disjunction: string; alternative: string }> = new Map();
+    /** learnedClauses by name, for the next solve. */
+    private keyedLearnedClauses: KeyedLiteral[][] = [];
+    /** Clauses carried over from the previous solve, seeded when the search starts. */
+    private inheritedClauses: KeyedLiteral[][] = [];
+    /** The previous solve's disjunction keys, which this one must still have for inheritedClauses to hold. */
+    private inheritedDisjunctions: Set<string> | null = null;
+    private warmStarted = false;
+    private reusedConstraints = 0;
+    private releasedConstraints = 0;
+    private reusedLearnedClauses = 0;
 
     // ─── graphPropagate feasibility-verdict cache ───
     /**
@@ -1253,8 +1405,10 @@ class QualitativeConstraintValidator implements IConstraintValidator {
     private mustHAlignmentClasses: Map<string, Set<string>> | null = null;
     private mustVAlignmentClasses: Map<string, Set<string>> | null = null;
 
-    constructor(layout: InstanceLayout) {
+    constructor(layout: InstanceLayout, options: QualitativeConstraintValidatorOptions = {}) {
         this.layout = layout;
+        this.reusable = options.reusable ?? false;
+        this.previousState = options.previous?.warmState ?? null;
         this.nodes = layout.nodes;
         this.edges = layout.edges;
         this.orientationConstraints = layout.constraints;
@@ -1273,11 +1427,37 @@ class QualitativeConstraintValidator implements IConstraintValidator {
 
     // ─── Public API ──────────────────────────────────────────────────────────
 
-    public validateConstraints(): ConstraintError | null {
-        return this.validateGroupConstraints() || this.validatePositionalConstraints();
+    /**
+     * Validate every constraint: group overlaps, then positions.
+     *
+     * @param control - Cancellation and progress (phase `validate`). Checked
+     *   per conjunctive constraint and per search step, so even a long
+     *   disjunctive search stops promptly.
+     * @throws LayoutCancelledError when `control` stops the validation. The
+     *   layout is then partially constrained; discard it with this validator.
+     */
+    public validateConstraints(control: LayoutControl = {}): ConstraintError | null {
+        this.monitor = new LayoutMonitor(control);
+        try {
+            this.monitor.report('validate', 0);
+            const error = this.validateGroupConstraints() || this.validatePositionalConstraints();
+            this.monitor.report('validate', 100);
+            return error;
+        } finally {
+            this.monitor = new LayoutMonitor();
+        }
     }
 
     public validatePositionalConstraints(): PositionalConstraintError | null {
+        const start = now();
+        try {
+            return this.solvePositionalConstraints();
+        } finally {
+            this.timings.totalMs = now() - start;
+        }
+    }
+
+    private solvePositionalConstraints(): PositionalConstraintError | null {
         // Any modal state belongs to a previous run over a possibly different
         // constraint set — drop it before this one can be observed. Without
         // this, a re-validation serves the earlier run's facts: modalStateBuilt
@@ -1285,12 +1465,22 @@ class QualitativeConstraintValidator implements IConstraintValidator {
         // outlive the graphs on failure.
         this.resetModalQueryState();
 
-        // Phase 1: Add conjunctive constraints — stop on first error but don't return yet
+        // Phase 1: Add conjunctive constraints — stop on first error but don't return yet.
+        // A warm start gets to the same graphs from the previous solve's.
+        let phaseStart = now();
         let phase1Failed = false;
-        for (const constraint of this.orientationConstraints) {
-            const error = this.addConjunctiveConstraint(constraint);
-            if (error) { phase1Failed = true; break; }
+        if (!this.warmStartConjunctive()) {
+            const count = this.orientationConstraints.length;
+            for (let i = 0; i < count; i++) {
+                this.monitor.report('validate', 40 * i / count);
+                const error = this.addConjunctiveConstraint(this.orientationConstraints[i]);
+                if (error) { phase1Failed = true; break; }
+            }
         }
+        this.monitor.report('validate', 40);
+        if (!phase1Failed && this.reusable) this.saveWarmState();
+        this.timings.conjunctiveMs = now() - phaseStart;
+        phaseStart = now();
 
         // Phase 2: Always collect group bounding box disjunctions
         // (safe — only creates DisjunctiveConstraints + ensureNode, no addEdge)
@@ -1300,6 +1490,7 @@ class QualitativeConstraintValidator implements IConstraintValidator {
         this.allDisjunctions = [...(this.layout.disjunctiveConstraints || [])];
         // Save before presolve modifies allDisjunctions (removes resolved, prunes alternatives)
         this.originalDisjunctions = [...this.allDisjunctions];
+        this.keyDisjunctions();
 
         // If Phase 1 failed, compute global MFS across all constraints and return
         if (phase1Failed) {
@@ -1321,10 +1512,14 @@ class QualitativeConstraintValidator implements IConstraintValidator {
         // unit disjunctions (single feasible alternative), so these are included.
         this.mustHGraph = this.hGraph.clone();
         this.mustVGraph = this.vGraph.clone();
+        this.timings.presolveMs = now() - phaseStart;
+        phaseStart = now();
+        this.monitor.report('validate', 50);
 
         // Phase 5: CDCL search on remaining disjunctions
         if (this.allDisjunctions.length > 0) {
             const result = this.solveCDCL();
+            this.timings.searchMs = now() - phaseStart;
             if (!result.satisfiable) {
                 // buildGlobalMFSError traces conflict paths in the MFS graph,
                 // including the conjunctive constraints that block infeasible
@@ -1709,6 +1904,245 @@ class QualitativeConstraintValidator implements IConstraintValidator {
         return null;
     }
 
+    // ═══════════════════════════════════════════════════════════════════════════
+    // Warm start (see QualitativeConstraintValidatorOptions)
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    /**
+     * Phase 1 from the previous solve's graphs: release the constraints this
+     * layout no longer has, add the ones it gained, and keep the rest under
+     * this layout's constraint objects, so provenance names what the caller
+     * holds. Edge weights include box sizes, so a box that changed size rules
+     * the warm start out, as does a constraint kind with no key.
+     *
+     * @returns true when the graphs now hold exactly this layout's conjunctive
+     *   constraints; false, with the fresh graphs back in place, when Phase 1
+     *   should run cold — including on a conflict, so that a conflict is
+     *   always explained by a cold solve.
+     */
+    private warmStartConjunctive(): boolean {
+        const base = this.previousState;
+        this.previousState = null;
+        if (!base) return false;
+
+        for (const node of this.nodes) {
+            const was = base.nodeSizes.get(node.id);
+            if (was !== undefined && was !== `${node.width}x${node.height}`) return false;
+        }
+
+        // Match constraints by key; whatever is left in `unmatched` went away.
+        const unmatched = new Map<string, LayoutConstraint[]>();
+        for (const [key, same] of base.constraints) unmatched.set(key, [...same]);
+        const successors = new Map<LayoutConstraint, LayoutConstraint>();
+        const kept: boolean[] = [];
+        for (const constraint of this.orientationConstraints) {
+            const key = constraintKey(constraint);
+            if (key === undefined) return false;
+            const previous = unmatched.get(key)?.shift();
+            if (previous) successors.set(previous, constraint);
+            kept.push(previous !== undefined);
+        }
+        const released = [...unmatched.values()].flat();
+
+        const hGraph = base.hGraph.clone();
+        const vGraph = base.vGraph.clone();
+        for (const constraint of released) this.releaseConjunctiveConstraint(constraint, hGraph, vGraph);
+        hGraph.replaceConstraints(c => successors.get(c));
+        vGraph.replaceConstraints(c => successors.get(c));
+
+        // A node that went away had its edges released with its constraints.
+        const live = new Set(this.nodes.map(n => n.id));
+        for (const group of this.groups) live.add(`_group_${group.name}`);
+        for (const graph of [hGraph, vGraph]) {
+            for (const id of [...graph.allNodes()]) {
+                if (!live.has(id) && !graph.removeIsolatedNode(id)) return false;
+            }
+        }
+
+        const fresh = { hGraph: this.hGraph, vGraph: this.vGraph };
+        this.hGraph = hGraph;
+        this.vGraph = vGraph;
+        for (const node of this.nodes) {
+            hGraph.ensureNode(node.id, node.width);
+            vGraph.ensureNode(node.id, node.height);
+        }
+        for (let i = 0; i < this.orientationConstraints.length; i++) {
+            const constraint = this.orientationConstraints[i];
+            if (!kept[i]) {
+                if (this.addConjunctiveConstraint(constraint)) {
+                    this.hGraph = fresh.hGraph;
+                    this.vGraph = fresh.vGraph;
+                    this.addedConstraints = [];
+                    this.horizontallyAligned = [];
+                    this.verticallyAligned = [];
+                    return false;
+                }
+                continue;
+            }
+            if (isAlignmentConstraint(constraint)) {
+                const graph = constraint.axis === 'x' ? hGraph : vGraph;
+                graph.adoptProvenance(constraint.node1.id, constraint.node2.id, constraint);
+                graph.adoptProvenance(constraint.node2.id, constraint.node1.id, constraint);
+                (constraint.axis === 'x' ? this.verticallyAligned : this.horizontallyAligned)
+                    .push([constraint.node1, constraint.node2]);
+            }
+            this.addedConstraints.push(constraint);
+        }
+
+        this.warmStarted = true;
+        this.reusedConstraints = successors.size;
+        this.releasedConstraints = released.length;
+        // A learned clause follows from the constraints it was learned under,
+        // so it still holds only if none of them went away. keyDisjunctions
+        // checks the same for the disjunctions.
+        if (released.length === 0 && base.disjunctions) {
+            this.inheritedClauses = base.learnedClauses;
+            this.inheritedDisjunctions = base.disjunctions;
+        }
+        return true;
+    }
+
+    /** Undo addConjunctiveConstraint's edges, on the given graphs. */
+    private releaseConjunctiveConstraint(
+        constraint: LayoutConstraint,
+        hGraph: DifferenceConstraintGraph,
+        vGraph: DifferenceConstraintGraph,
+    ): void {
+        if (isLeftConstraint(constraint)) {
+            hGraph.removeEdgeClaim(constraint.left.id, constraint.right.id, constraint.minDistance, constraint);
+        } else if (isTopConstraint(constraint)) {
+            vGraph.removeEdgeClaim(constraint.top.id, constraint.bottom.id, constraint.minDistance, constraint);
+        } else if (isAlignmentConstraint(constraint)) {
+            if (constraint.node1.id === constraint.node2.id) return;
+            (constraint.axis === 'x' ? hGraph : vGraph).removeAlignmentEdges(constraint.node1.id, constraint.node2.id);
+        } else if (isBoundingBoxConstraint(constraint)) {
+            const bc = constraint as BoundingBoxConstraint;
+            const groupId = `_group_${bc.group.name}`;
+            switch (bc.side) {
+                case 'left':   hGraph.removeEdgeClaim(bc.node.id, groupId, bc.minDistance, constraint); break;
+                case 'right':  hGraph.removeEdgeClaim(groupId, bc.node.id, bc.minDistance, constraint); break;
+                case 'top':    vGraph.removeEdgeClaim(bc.node.id, groupId, bc.minDistance, constraint); break;
+                case 'bottom': vGraph.removeEdgeClaim(groupId, bc.node.id, bc.minDistance, constraint); break;
+            }
+        } else if (isGroupBoundaryConstraint(constraint)) {
+            const gc = constraint as GroupBoundaryConstraint;
+            const gAId = `_group_${gc.groupA.name}`;
+            const gBId = `_group_${gc.groupB.name}`;
+            switch (gc.side) {
+                case 'left':   hGraph.removeEdgeClaim(gAId, gBId, gc.minDistance, constraint); break;
+                case 'right':  hGraph.removeEdgeClaim(gBId, gAId, gc.minDistance, constraint); break;
+                case 'top':    vGraph.removeEdgeClaim(gAId, gBId, gc.minDistance, constraint); break;
+                case 'bottom': vGraph.removeEdgeClaim(gBId, gAId, gc.minDistance, constraint); break;
+            }
+        }
+    }
+
+    /** Snapshot Phase 1's result for the next validator. */
+    private saveWarmState(): void {
+        const constraints = new Map<string, LayoutConstraint[]>();
+        for (const constraint of this.orientationConstraints) {
+            const key = constraintKey(constraint);
+            if (key === undefined) return;
+            const same = constraints.get(key);
+            if (same) same.push(constraint);
+            else constraints.set(key, [constraint]);
+        }
+        this.warmState = {
+            hGraph: this.hGraph.clone(),
+            vGraph: this.vGraph.clone(),
+            constraints,
+            nodeSizes: new Map(this.nodes.map(n => [n.id, `${n.width}x${n.height}`])),
+            disjunctions: null,
+            learnedClauses: this.keyedLearnedClauses,
+        };
+    }
+
+    /**
+     * Name every original alternative (see KeyedLiteral), record the
+     * disjunctions for the next solve, and keep the clauses inherited from
+     * the previous one only if every disjunction it had is still here.
+     */
+    private keyDisjunctions(): void {
+        const inherited = this.inheritedClauses;
+        const inheritedDisjunctions = this.inheritedDisjunctions;
+        this.inheritedClauses = [];
+        this.inheritedDisjunctions = null;
+        if (!this.reusable && inherited.length === 0) return;
+
+        let keys: Set<string> | null = new Set();
+        for (const disj of this.originalDisjunctions) {
+            const alternatives = disj.alternatives.map(alternativeKey);
+            if (alternatives.includes(undefined)) {
+                keys = null;
+                continue;
+            }
+            const disjunction = alternatives.join('\x03');
+            keys?.add(disjunction);
+            disj.alternatives.forEach((alt, i) => {
+                this.alternativeKeys.set(alt, { disjunction, alternative: alternatives[i] as string });
+            });
+        }
+        if (this.warmState) this.warmState.disjunctions = keys;
+        if (keys && inheritedDisjunctions && [...inheritedDisjunctions].every(k => keys!.has(k))) {
+            this.inheritedClauses = inherited;
+        }
+    }
+
+    /**
+     * Turn the inherited clauses into clauses over this search's indices. A
+     * clause naming a disjunction presolve already settled is dropped; a
+     * literal naming an alternative presolve pruned is false, so a positive
+     * one is left out and a negative one satisfies (drops) the clause.
+     * Dropping a clause is always sound — it only forgoes the shortcut.
+     */
+    private seedInheritedClauses(): void {
+        const inherited = this.inheritedClauses;
+        this.inheritedClauses = [];
+        if (inherited.length === 0) return;
+
+        const present = new Set<string>();
+        const index = new Map<string, { d: number; a: number }>();
+        this.allDisjunctions.forEach((disj, d) => {
+            disj.alternatives.forEach((alt, a) => {
+                const key = this.alternativeKeys.get(alt);
+                if (!key) return;
+                present.add(key.disjunction);
+                index.set(`${key.disjunction}\x04${key.alternative}`, { d, a });
+            });
+        });
+
+        clauses: for (const keyed of inherited) {
+            const clause: LearnedClause = [];
+            for (const lit of keyed) {
+                if (!present.has(lit.disjunction)) continue clauses;
+                const at = index.get(`${lit.disjunction}\x04${lit.alternative}`);
+                if (!at) {
+                    if (lit.sign) continue;
+                    continue clauses;
+                }
+                clause.push({ disjunctionIndex: at.d, alternativeIndex: at.a, sign: lit.sign });
+            }
+            if (clause.length === 0) continue;
+            this.learnedClauses.push(clause);
+            this.keyedLearnedClauses.push(keyed);
+            this.reusedLearnedClauses++;
+        }
+    }
+
+    /** Keep a learned clause, and its keyed form when a later solve may want it. */
+    private learn(clause: LearnedClause): void {
+        this.learnedClauses.push(clause);
+        if (!this.reusable) return;
+        const keyed: KeyedLiteral[] = [];
+        for (const lit of clause) {
+            const alternative = this.allDisjunctions[lit.disjunctionIndex]?.alternatives[lit.alternativeIndex];
+            const key = alternative && this.alternativeKeys.get(alternative);
+            if (!key) return;
+            keyed.push({ ...key, sign: lit.sign });
+        }
+        this.keyedLearnedClauses.push(keyed);
+    }
+
     // Alignment consistency, alignment-ordering conflicts, and alignment-class cycles
     // are now all caught automatically by DifferenceConstraintGraph via zero-weight
     // edges and canReach cycle detection. No separate UF-based checks needed.
@@ -2085,9 +2519,11 @@ class QualitativeConstraintValidator implements IConstraintValidator {
         let assigned = new Int32Array(this.allDisjunctions.length).fill(-1);
 
         this.rebuildBranchIndex(true);
+        this.seedInheritedClauses();
 
         const initialCheckpoint = this.checkpoint();
         const initialAddedLength = this.addedConstraints.length;
+        this.deepestTrail = 0;
 
         let totalRestarts = 0;
         const MAX_RESTARTS = 50;
@@ -2125,13 +2561,18 @@ class QualitativeConstraintValidator implements IConstraintValidator {
         let conflictsSinceRestart = 0;
 
         while (true) {
+            // Progress is how deep the search has ever got: a restart or a
+            // backjump does not undo it.
+            this.deepestTrail = Math.max(this.deepestTrail, this.assignmentTrail.length);
+            this.monitor.report('validate', 50 + 45 * Math.min(1, this.deepestTrail / numDisjunctions));
+
             const propResult = this.unitPropagate(assigned);
             if (propResult === 'conflict') {
                 if (this.decisionLevel === 0) return { satisfiable: false, provedUnsat: true };
 
                 const { learnedClause, backtrackLevel } = this.analyzeConflict(assigned);
                 if (learnedClause) {
-                    this.learnedClauses.push(learnedClause);
+                    this.learn(learnedClause);
                     this.bumpActivity(learnedClause);
                     this.decayActivity();
                 }
@@ -2155,7 +2596,7 @@ class QualitativeConstraintValidator implements IConstraintValidator {
                     graphPropResult.disjunctionIndex, assigned
                 );
                 if (learnedClause) {
-                    this.learnedClauses.push(learnedClause);
+                    this.learn(learnedClause);
                     this.bumpActivity(learnedClause);
                     this.decayActivity();
                 }
@@ -2179,7 +2620,7 @@ class QualitativeConstraintValidator implements IConstraintValidator {
 
                 const { learnedClause, backtrackLevel } = this.analyzeConflictForDecision(dIdx, aIdx, assigned);
                 if (learnedClause) {
-                    this.learnedClauses.push(learnedClause);
+                    this.learn(learnedClause);
                     this.bumpActivity(learnedClause);
                     this.decayActivity();
                 }
@@ -3994,16 +4435,33 @@ class QualitativeConstraintValidator implements IConstraintValidator {
         this.verdictEntryByIndex.length = 0;
         this.verdictEntryDisj.length = 0;
         this.lastPropagateOkStamp = -1;
+        this.previousState = null;
+        this.warmState = null;
+        this.alternativeKeys.clear();
+        this.keyedLearnedClauses = [];
+        this.inheritedClauses = [];
+        this.inheritedDisjunctions = null;
         // The must-pair sets are O(n²) and were the largest thing this method
         // left behind; dropping them also stops modal getters answering from a
         // disposed validator.
         this.resetModalQueryState();
     }
 
+    /**
+     * Counters and timings for the last validation.
+     *
+     * `timings` splits the positional solve into Phase 1 (conjunctive
+     * constraints, warm or cold), presolve (Phases 2–4b) and the CDCL search,
+     * in milliseconds. The warm-start fields say what came from `previous`:
+     * `warmStart` is false when Phase 1 ran cold, and `reusedLearnedClauses`
+     * counts the inherited clauses the search was seeded with.
+     */
     public getStats(): {
         hEdges: number; vEdges: number;
         learnedClauses: number; conflicts: number; addedConstraints: number;
         prunedByTransitivity: number; prunedByDecomposition: number;
+        warmStart: boolean; reusedConstraints: number; releasedConstraints: number; reusedLearnedClauses: number;
+        timings: { conjunctiveMs: number; presolveMs: number; searchMs: number; totalMs: number };
     } {
         return {
             hEdges: this.hGraph.edgeCount(),
@@ -4013,6 +4471,11 @@ class QualitativeConstraintValidator implements IConstraintValidator {
             addedConstraints: this.addedConstraints.length,
             prunedByTransitivity: this.prunedByTransitivity,
             prunedByDecomposition: this.prunedByDecomposition,
+            warmStart: this.warmStarted,
+            reusedConstraints: this.reusedConstraints,
+            releasedConstraints: this.releasedConstraints,
+            reusedLearnedClauses: this.reusedLearnedClauses,
+            timings: { ...this.timings },
         };
     }
     // ─── Modal query computation ────────────────────────────────────────────
@@ -0,0 +1,192 @@
+import * as yaml from 'js-yaml';
+
+/**
+ * Spec composition: one layout spec built from several YAML fragments.
+ *
+ * A fragment is an ordinary spec document that may also carry three top-level
+ * keys:
+ *
+ * ```yaml
+ * module: binary-tree          # this fragment's name
+ * extends: tree-base           # the one spec this one specialises
+ * include: [palette, labels]   # further specs to pull in
+ * constraints: [...]
+ * directives:  [...]
+ * ```
+ *
+ * References are opaque strings. The host decides what they mean — a module
+ * name, a path, a URL it has already fetched — by passing a {@link SpecResolver}
+ * to `parseLayoutSpec`. Resolution is synchronous because parsing is: a host
+ * that loads specs asynchronously fetches them first and resolves from memory
+ * ({@link createSpecModuleResolver} does exactly that for a list of sources).
+ *
+ * Composition works on the raw YAML items, before any of them is parsed, so a
+ * composed spec goes through exactly the same parse as a single document would
+ * — dedup, desugaring and validation included.
+ */
+
+/**
+ * Turns a reference written in `extends:`/`include:` into spec source.
+ *
+ * @param ref - The reference as written.
+ * @param from - The name of the fragment that wrote it (its `module:`, or the
+ *   reference it was itself resolved from), or `undefined` for the root
+ *   document. Lets a host resolve relative paths.
+ * @returns The YAML source, or `undefined`/`null` when the reference is unknown.
+ */
+export type SpecResolver = (ref: string, from: string | undefined) => string | undefined | null;
+
+/** The items of a composed spec, in merge order, each with the fragment it came from. */
+export interface ComposedSpecDocument {
+    constraints: unknown[];
+    directives: unknown[];
+    /**
+     * The fragment each raw item came from: its `module:` name, else the
+     * reference it was resolved from. Absent for items of an unnamed root.
+     * Keyed by the raw YAML item object itself.
+     */
+    sources: WeakMap<object, string>;
+}
+
+/**
+ * Read a reference list: `include` may be written as one string or a list.
+ */
+function readRefs(value: unknown, key: string, fragment: string | undefined): string[] {
+    if (value === undefined || value === null) return [];
+    const refs = Array.isArray(value) ? value : [value];
+    for (const ref of refs) {
+        if (typeof ref !== 'string' || ref.trim() === '') {
+            throw new Error(`'${key}' in ${describeFragment(fragment)} must name specs as non-empty strings`);
+        }
+    }
+    return refs as string[];
+}
+
+function describeFragment(fragment: string | undefined): string {
+    return fragment === undefined ? 'the spec' : `spec '${fragment}'`;
+}
+
+function loadFragment(source: string, fragment: string | undefined): Record<string, unknown> {
+    let parsed: unknown;
+    try {
+        parsed = yaml.load(source);
+    } catch (e) {
+        // Only an included fragment needs naming: the root's parse error is
+        // already about the text the caller handed in.
+        if (fragment === undefined) throw e;
+        const message = e instanceof Error ? e.message : String(e);
+        throw new Error(`Spec '${fragment}' is not valid YAML: ${message}`);
+    }
+    return (parsed ?? {}) as Record<string, unknown>;
+}
+
+/**
+ * Merge a root document with everything it extends and includes.
+ *
+ * Order is deterministic and depth-first: a fragment's `extends` target
+ * first, then each `include` in the order written, then the fragment's own
+ * items. Every fragment is merged once — a spec reached twice (two modules
+ * both including `palette`) contributes at its first position only — so the
+ * result does not depend on how the library happens to be wired. A fragment
+ * that reaches itself is an error.
+ *
+ * @throws Error on an unresolvable reference, an include cycle, a reference
+ *   with no resolver to turn it into source, or a fragment that is not YAML.
+ */
+export function composeSpecDocument(
+    root: Record<string, unknown>,
+    resolve: SpecResolver | undefined,
+): ComposedSpecDocument {
+    const composed: ComposedSpecDocument = {
+        constraints: [],
+        directives: [],
+        sources: new WeakMap(),
+    };
+    const merged = new Set<string>();
+    const stack: string[] = [];
+
+    const visit = (doc: Record<string, unknown>, fragment: string | undefined): void => {
+        const parents = readRefs(doc.extends, 'extends', fragment);
+        if (parents.length > 1) {
+            throw new Error(`${describeFragment(fragment)} can extend one spec, not ${parents.length}; use 'include' for the rest`);
+        }
+
+        for (const ref of [...parents, ...readRefs(doc.include, 'include', fragment)]) {
+            if (stack.includes(ref)) {
+                throw new Error(`Spec include cycle: ${[...stack, ref].join(' -> ')}`);
+            }
+            if (merged.has(ref)) continue;
+            if (!resolve) {
+                throw new Error(`${describeFragment(fragment)} includes '${ref}', but no spec resolver was given`);
+            }
+            const source = resolve(ref, fragment);
+            if (source === undefined || source === null) {
+                throw new Error(`Cannot resolve spec '${ref}' (included from ${describeFragment(fragment)})`);
+            }
+
+            const child = loadFragment(source, ref);
+            const name = typeof child.module === 'string' ? child.module : ref;
+            // Mark both names, so a module reached once by name and once by
+            // path is still merged only once.
+            merged.add(ref);
+            merged.add(name);
+            stack.push(ref);
+            visit(child, name);
+            stack.pop();
+        }
+
+        for (const section of ['constraints', 'directives'] as const) {
+            const items = doc[section];
+            if (!Array.isArray(items)) continue;
+            for (const item of items) {
+                if (fragment !== undefined && item !== null && typeof item === 'object') {
+                    composed.sources.set(item, fragment);
+                }
+                composed[section].push(item);
+            }
+        }
+    };
+
+    const rootName = typeof root.module === 'string' ? root.module : undefined;
+    if (rootName !== undefined) {
+        merged.add(rootName);
+        stack.push(rootName);
+    }
+    visit(root, rootName);
+    return composed;
+}
+
+/**
+ * A resolver over specs the host already holds, for the common case of a
+ * shared library of fragments.
+ *
+ * Accepts either a map from reference to source, or a list of sources — each
+ * of which must then declare its `module:` name, which becomes its reference.
+ *
+ * @example
+ * ```ts
+ * const resolve = createSpecModuleResolver([binaryTreeYaml, linkedListYaml]);
+ * const spec = parseLayoutSpec('include: [binary-tree]\n', { resolve });
+ * ```
+ *
+ * @throws Error when a listed source has no `module:` name, or two share one.
+ */
+export function createSpecModuleResolver(modules: Record<string, string> | readonly string[]): SpecResolver {
+    if (!Array.isArray(modules)) {
+        const byRef = modules as Record<string, string>;
+        return (ref) => (Object.prototype.hasOwnProperty.call(byRef, ref) ? byRef[ref] : undefined);
+    }
+
+    const byName = new Map<string, string>();
+    for (const source of modules) {
+        const doc = loadFragment(source, undefined);
+        if (typeof doc.module !== 'string' || doc.module.trim() === '') {
+            throw new Error("Every spec in a module list must declare its name with 'module:'");
+        }
+        if (byName.has(doc.module)) {
+            throw new Error(`Two specs declare module '${doc.module}'`);
+        }
+        byName.set(doc.module, source);
+    }
+    return (ref) => byName.get(ref);
+}
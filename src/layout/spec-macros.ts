@@ -0,0 +1,115 @@
+import { getLanguageItems } from '../language/manifest';
+import type { LanguageItem, SpecSection } from '../language/types';
+
+/**
+ * Spec macros: shorthand items (`binaryTree`, `linkedList`, `grid`) that
+ * stand for a fixed pattern of other items.
+ *
+ * The macros themselves are registered in the language manifest, each with its
+ * expansion as a template (`LanguageItem.macro`). This module only applies
+ * those templates, so the parser, the spec editor and any generator reading the
+ * manifest all expand a macro the same way. Like the legacy `icon`→`atomStyle`
+ * desugar, expansion happens on the raw YAML, before parsing: a macro means
+ * exactly what its expansion means, dedup and validation included.
+ */
+
+const MACROS = new Map<string, LanguageItem>(
+    getLanguageItems().filter(item => item.macro).map(item => [item.yamlKey, item]),
+);
+
+/** Whether `yamlKey` names a macro. */
+export function isSpecMacro(yamlKey: string): boolean {
+    return MACROS.has(yamlKey);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Fill one template value: `$name` strings become the argument, recursing
+ * through lists and mappings. Returns `undefined` for a placeholder with no
+ * argument, which the caller drops.
+ */
+function fill(template: unknown, args: Record<string, unknown>): unknown {
+    if (typeof template === 'string' && template.startsWith('$')) {
+        return args[template.slice(1)];
+    }
+    if (Array.isArray(template)) {
+        return template.map(v => fill(v, args)).filter(v => v !== undefined);
+    }
+    if (isRecord(template)) {
+        const out: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(template)) {
+            const filled = fill(value, args);
+            if (filled !== undefined) out[key] = filled;
+        }
+        return out;
+    }
+    return template;
+}
+
+/**
+ * Expand one macro item.
+ *
+ * @param yamlKey - The macro's key, e.g. `'binaryTree'`.
+ * @param body - Its mapping, as written.
+ * @returns The items it stands for, as YAML list items of its section.
+ * @throws Error when `yamlKey` is not a macro, a required field is missing,
+ *   or an enum field has a value outside its list.
+ */
+export function expandSpecMacro(yamlKey: string, body: unknown): Record<string, unknown>[] {
+    const macro = MACROS.get(yamlKey);
+    if (!macro?.macro) {
+        throw new Error(`'${yamlKey}' is not a spec macro`);
+    }
+    const params = isRecord(body) ? body : {};
+
+    const args: Record<string, unknown> = {};
+    for (const field of macro.fields) {
+        const given = params[field.name];
+        const value = given === undefined || given === null || given === '' ? field.default : given;
+        if (value === undefined) {
+            if (field.required) {
+                throw new Error(`${yamlKey} macro must have a ${field.name}`);
+            }
+            continue;
+        }
+        if (field.type === 'enum' && field.values && !field.values.includes(String(value))) {
+            throw new Error(`${yamlKey} macro: ${field.name} must be one of ${field.values.join(', ')}, got '${String(value)}'`);
+        }
+        const translated = macro.macro.translate?.[field.name];
+        args[field.name] = translated ? translated[String(value)] : value;
+    }
+
+    return macro.macro.expandsTo.map(template => fill(template, args) as Record<string, unknown>);
+}
+
+/**
+ * Replace every macro item in a section's raw list with its expansion, in
+ * place of the macro. Anything else passes through untouched.
+ *
+ * @param section - The section the list is, to reject a macro written
+ *   anywhere its manifest entry does not allow.
+ *
+ * @param onExpand - Told each (macro item, expanded item) pair, so a caller
+ *   tracking where raw items came from can carry that over to the expansion.
+ */
+export function expandSpecMacros(
+    items: unknown[],
+    section: SpecSection,
+    onExpand?: (macroItem: object, expanded: object) => void,
+): unknown[] {
+    return items.flatMap(item => {
+        if (!isRecord(item)) return [item];
+        const key = Object.keys(item).find(isSpecMacro);
+        if (key === undefined) return [item];
+        const allowed = MACROS.get(key)!.sections;
+        if (!allowed.includes(section)) {
+            throw new Error(`${key} macro belongs under ${allowed.map(s => `${s}:`).join(' or ')}, not ${section}:`);
+        }
+        const expanded = expandSpecMacro(key, item[key]);
+        for (const e of expanded) onExpand?.(item, e);
+        return expanded;
+    });
+}
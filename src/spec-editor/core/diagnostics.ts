@@ -62,6 +62,7 @@ const CONSTRAINT_STRUCTURAL_KEYS: readonly string[] = ['hold'];
  *  - `edgeColor` is the deprecated flat form; `edgeColorToEdgeStyleRule` reads
  *    these extras beyond the fields the registry lists. The type itself is
  *    marked deprecated, so its own diagnostic already covers them.
+ *  - `soft` on the relaxable constraints, read by `parseConstraints`.
  *
  * NOTE: this mirrors the engine parser (`layoutspec.ts` + the style-spec
  * parsers). If a directive gains an inner key there, add it here (or as a real
@@ -69,6 +70,11 @@ const CONSTRAINT_STRUCTURAL_KEYS: readonly string[] = ['hold'];
  */
 const EXTRA_ACCEPTED_KEYS_BY_TYPE: Readonly<Record<string, readonly string[]>> = {
   edgeColor: ['highlight', 'showLabel', 'hidden', 'filter'],
+  // `soft: true` is shorthand for the `priority` field these do expose.
+  orientation: ['soft'],
+  cyclic: ['soft'],
+  align: ['soft'],
+  groupselector: ['soft'],
 };
 
 /**
@@ -12,16 +12,20 @@
  * registry round-trips also parses there. Notable shapes:
  *
  *   constraints:
- *     - orientation: { selector, directions: [...], hold? }
- *     - cyclic:      { selector, direction, hold? }
- *     - align:       { selector, direction, hold? }
- *     - group:       { selector, name, addEdge?: none|togroup|fromgroup | {points,lineStyle,textStyle}, textStyle?:{color}, hold? }  (groupselector)
+ *     - orientation: { selector, directions: [...], hold?, priority?, soft? }
+ *     - cyclic:      { selector, direction, hold?, priority?, soft? }
+ *     - align:       { selector, pairedWith?, direction, hold?, priority?, soft? }
+ *     - group:       { selector, name, addEdge?: none|togroup|fromgroup | {points,lineStyle,textStyle}, textStyle?:{color}, collapsed?, hold?, priority?, soft? }  (groupselector)
  *     - size:        { selector, width, height }
  *     - hideAtom:    { selector }
+ *     - binaryTree:  { left, right }          (macro → 2 × orientation + align pairedWith)
+ *     - linkedList:  { next, direction? }     (macro → orientation)
+ *     - grid:        { across, down }         (macro → 2 × orientation)
  *   directives:
  *     - flag: <scalar string>
  *     - attribute:    { field, selector?, filter?, textStyle?:{size,color} }
  *     - hideField:    { field, selector?, filter? }
+ *     - projection:   { sig, orderBy? }
  *     - icon:         { path, selector?, showLabels? }  (deprecated → atomStyle)
  *     - atomStyle:    { selector?, fillStyle?:{color}, borderStyle?:{color,width}, iconStyle?:{path,placement,opacity}, textStyle?:{size,color}, showLabel? }
  *     - atomColor:    { value, selector? }  (deprecated → atomStyle)
@@ -33,6 +37,7 @@
  * This module is framework-agnostic — no React.
  */
 
+import { expandSpecMacro } from '../../layout/spec-macros';
 import type { Diagnostic, FieldSpec, ItemDefinition, ItemKind } from './types';
 
 // Default starting values carried over from the retired NoCodeView editor
@@ -150,6 +155,19 @@ export const FLAG_OPTIONS = [
   'hideDisconnectedBuiltIns',
 ] as const;
 
+/**
+ * Shared `priority` field of the constraints the solver can relax. Their
+ * `soft: true` shorthand (priority 0) round-trips but is not a builder field:
+ * a priority says the same and more.
+ */
+const PRIORITY_FIELD: FieldSpec = {
+  key: 'priority',
+  kind: 'number',
+  label: 'Priority',
+  placeholder: 'hard',
+  help: 'Empty: a hard constraint. With a priority it is soft — if the constraints conflict, the lowest-priority soft one is dropped instead of the layout failing.',
+};
+
 // ---- definitions ---------------------------------------------------------
 
 /**
@@ -183,6 +201,7 @@ const orientation: ItemDefinition = {
       options: ORIENTATION_DIRECTIONS,
       help: 'Where the target sits relative to the source.',
     },
+    PRIORITY_FIELD,
   ],
   summary(params) {
     const dirs = asStringArray(params.directions);
@@ -224,6 +243,7 @@ const cyclic: ItemDefinition = {
       options: CYCLIC_DIRECTIONS,
       default: 'clockwise',
     },
+    PRIORITY_FIELD,
   ],
   summary(params) {
     const dir = asString(params.direction) || 'clockwise';
@@ -245,6 +265,13 @@ const align: ItemDefinition = {
       required: true,
       selectorArity: 'binary',
     },
+    {
+      key: 'pairedWith',
+      kind: 'selector',
+      label: 'Paired with',
+      selectorArity: 'binary',
+      help: 'Optional binary selector — align what the two selectors pair with the same atom, e.g. siblings.',
+    },
     {
       key: 'direction',
       kind: 'enum',
@@ -253,11 +280,14 @@ const align: ItemDefinition = {
       options: ALIGN_DIRECTIONS,
       default: 'horizontal',
     },
+    PRIORITY_FIELD,
   ],
   summary(params) {
     const dir = asString(params.direction) || 'horizontal';
     const selector = asString(params.selector);
-    return selector ? `${dir} · ${selector}` : dir;
+    const pairedWith = asString(params.pairedWith);
+    if (!selector) return dir;
+    return pairedWith ? `${dir} · ${selector} with ${pairedWith}` : `${dir} · ${selector}`;
   },
 };
 
@@ -299,6 +329,13 @@ const groupselector: ItemDefinition = {
       // Only `color` today — group labels auto-fit their box, so `size` is reserved.
       children: [{ key: 'color', kind: 'color', label: 'Color' }],
     },
+    {
+      key: 'collapsed',
+      kind: 'boolean',
+      label: 'Start collapsed',
+      help: 'Draw the group as one summary node until the viewer expands it.',
+    },
+    PRIORITY_FIELD,
   ],
   summary(params) {
     const selector = asString(params.selector);
@@ -323,6 +360,15 @@ const groupselector: ItemDefinition = {
       }
       if (Object.keys(ts).length > 0) node.textStyle = ts;
     }
+    if (params.collapsed !== undefined) {
+      node.collapsed = params.collapsed;
+    }
+    if (!missing(params.priority)) {
+      node.priority = params.priority;
+    }
+    if (params.soft !== undefined) {
+      node.soft = params.soft;
+    }
     if (params.hold !== undefined) {
       node.hold = params.hold;
     }
@@ -347,6 +393,15 @@ const groupselector: ItemDefinition = {
     if (isRecord(group.textStyle)) {
       params.textStyle = { ...group.textStyle };
     }
+    if (group.collapsed !== undefined) {
+      params.collapsed = group.collapsed;
+    }
+    if (group.priority !== undefined) {
+      params.priority = group.priority;
+    }
+    if (group.soft !== undefined) {
+      params.soft = group.soft;
+    }
     if (group.hold !== undefined) {
       params.hold = group.hold;
     }
@@ -424,6 +479,72 @@ const hideAtom: ItemDefinition = {
   },
 };
 
+// ---- constraint macros ----------------------------------------------------
+//
+// Shorthand the engine expands into orientation and align constraints (see
+// the macro items in `language/manifest.ts`). The builder edits the macro's
+// own params and shows what it expands to via `expansion`.
+
+const LINKED_LIST_DIRECTIONS = ['right', 'left', 'below', 'above'] as const;
+
+const binaryTree: ItemDefinition = {
+  kind: 'constraint',
+  type: 'binaryTree',
+  label: 'Binary tree',
+  description: 'Left children below-left of their parent, right children below-right, siblings side by side.',
+  fields: [
+    { key: 'left', kind: 'selector', label: 'Left', required: true, selectorArity: 'binary', placeholder: 'e.g. left' },
+    { key: 'right', kind: 'selector', label: 'Right', required: true, selectorArity: 'binary', placeholder: 'e.g. right' },
+  ],
+  summary(params) {
+    const left = asString(params.left) || '?';
+    const right = asString(params.right) || '?';
+    return `${left} ↙ · ${right} ↘`;
+  },
+  expansion: (params) => expandSpecMacro('binaryTree', params),
+};
+
+const linkedList: ItemDefinition = {
+  kind: 'constraint',
+  type: 'linkedList',
+  label: 'Linked list',
+  description: 'Each successor directly beside its predecessor, on one line.',
+  fields: [
+    { key: 'next', kind: 'selector', label: 'Next', required: true, selectorArity: 'binary', placeholder: 'e.g. next' },
+    {
+      key: 'direction',
+      kind: 'enum',
+      label: 'Direction',
+      options: LINKED_LIST_DIRECTIONS,
+      default: 'right',
+      help: 'Which way the list runs from its head.',
+    },
+  ],
+  summary(params) {
+    const dir = asString(params.direction) || 'right';
+    const next = asString(params.next);
+    return next ? `runs ${dir} · ${next}` : `runs ${dir}`;
+  },
+  expansion: (params) => expandSpecMacro('linkedList', params),
+};
+
+const grid: ItemDefinition = {
+  kind: 'constraint',
+  type: 'grid',
+  label: 'Grid',
+  description: 'Cells directly right of their `across` neighbour and directly below their `down` neighbour.',
+  fields: [
+    { key: 'across', kind: 'selector', label: 'Across', required: true, selectorArity: 'binary', placeholder: 'e.g. east' },
+    { key: 'down', kind: 'selector', label: 'Down', required: true, selectorArity: 'binary', placeholder: 'e.g. south' },
+  ],
+  summary(params) {
+    const across = asString(params.across) || '?';
+    const down = asString(params.down) || '?';
+    return `${across} → · ${down} ↓`;
+  },
+  expansion: (params) => expandSpecMacro('grid', params),
+};
+
 /**
  * Flag directive — quirky scalar YAML form: `- flag: hideDisconnectedBuiltIns`.
  * The param is stored under `flag`. The codec uses toYamlNode/fromYamlNode to
@@ -820,6 +941,34 @@ const tag: ItemDefinition = {
 
 // ---- registry assembly ---------------------------------------------------
 
+const projection: ItemDefinition = {
+  kind: 'directive',
+  type: 'projection',
+  label: 'Projection',
+  description: 'Slice the instance at one atom of a type (e.g. one Time step).',
+  fields: [
+    {
+      key: 'sig',
+      kind: 'text',
+      label: 'Sig',
+      required: true,
+      help: 'The type to project over.',
+    },
+    {
+      key: 'orderBy',
+      kind: 'relationName',
+      label: 'Order by',
+      help: 'Optional binary relation (e.g. next) giving the step order.',
+    },
+  ],
+  summary(params) {
+    const sig = asString(params.sig);
+    const orderBy = asString(params.orderBy);
+    const base = sig ? `project ${sig}` : 'projection';
+    return orderBy ? `${base} · by ${orderBy}` : base;
+  },
+};
+
 const DEFINITIONS: readonly ItemDefinition[] = [
   // constraints
   orientation,
@@ -828,6 +977,9 @@ const DEFINITIONS: readonly ItemDefinition[] = [
   groupselector,
   size,
   hideAtom,
+  binaryTree,
+  linkedList,
+  grid,
   // directives
   flag,
   attribute,
@@ -839,6 +991,7 @@ const DEFINITIONS: readonly ItemDefinition[] = [
   edgeColor,
   inferredEdge,
   tag,
+  projection,
 ];
 
 const BY_TYPE = new Map<string, ItemDefinition>(DEFINITIONS.map((d) => [d.type, d]));
@@ -126,6 +126,12 @@ export interface ItemDefinition {
   toYamlNode?(params: Record<string, unknown>): unknown;
   /** override YAML ingestion; return null to reject */
   fromYamlNode?(node: unknown): Record<string, unknown> | null;
+  /**
+   * For a macro: the items it stands for, as YAML list items
+   * (`{ orientation: { … } }`), so the builder can show the expansion beside
+   * the sugar. Throws while a required param is missing.
+   */
+  expansion?(params: Record<string, unknown>): Record<string, unknown>[];
 }
 
 // ---- document state ----
@@ -402,6 +402,23 @@ const Row: React.FC<RowProps> = ({
     }
   })();
 
+  // A macro shows what it stands for: one line per expanded item, summarized
+  // by that item's own definition. Empty until the required params are set.
+  const expansion = (() => {
+    if (!def.expansion) return [];
+    try {
+      return def.expansion(item.params).flatMap((node) =>
+        Object.entries(node).map(([type, params]) => {
+          const target = getDefinition(type);
+          const body = (params ?? {}) as Record<string, unknown>;
+          return { label: target?.label ?? type, summary: target ? target.summary(body) : '' };
+        }),
+      );
+    } catch {
+      return [];
+    }
+  })();
+
   const negatable = NEGATABLE_TYPES.has(item.type);
   const negated = item.params.hold === 'never';
 
@@ -497,6 +514,26 @@ const Row: React.FC<RowProps> = ({
             }
           />
 
+          {def.expansion ? (
+            <div className="spytial-ed-expansion">
+              <span className="spytial-ed-field-label">Expands to</span>
+              {expansion.length > 0 ? (
+                <ul className="spytial-ed-expansion-list">
+                  {expansion.map((e, i) => (
+                    <li key={i} className="spytial-ed-expansion-item">
+                      <span className="spytial-ed-row-type">{e.label}</span>
+                      <span className="spytial-ed-row-summary">{e.summary}</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <span className="spytial-ed-row-summary spytial-ed-row-summary--muted">
+                  fill in the required fields to see the expansion
+                </span>
+              )}
+            </div>
+          ) : null}
+
           {negatable ? (
             <div className="spytial-ed-field spytial-ed-field--hold">
               <span
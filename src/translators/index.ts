@@ -22,13 +22,33 @@ export type {
   SpatialRelationshipDescription,
 } from './accessible';
 
+// Headless SVG renderer — the same picture, as a string, with no DOM
+export { renderHeadlessSvg } from './svg';
+export type { HeadlessSvgOptions } from './svg';
+
+// Vector export — a drawn SVG as TikZ or PDF
+export { extractVectorScene, renderTikz, renderPdf } from './vector';
+export type { VectorScene, VectorSceneOptions, TikzOptions, PdfOptions } from './vector';
 
 // WebColaCnDGraph web component for browser usage
 export { WebColaCnDGraph } from './webcola/webcola-cnd-graph';
+export type { WebColaDiffOptions, SemanticZoomLevel } from './webcola/webcola-cnd-graph';
+
+// Node search — the matching behind the graph toolbar's search box
+export { matchNodesByText, matchNodesBySelector } from './webcola/node-search';
+export type { SearchableNode } from './webcola/node-search';
+
+// Arrangements — a viewer's node positions and pins, saved and reloaded
+export { ARRANGEMENT_VERSION, parseArrangement } from './webcola/arrangement';
+export type { Arrangement, ArrangedNode } from './webcola/arrangement';
 
 // StructuredInputGraph web component for structured input
 export { StructuredInputGraph } from './webcola/structured-input-graph';
 
+// SpytialSequence web component: a timeline over a sequence of instances
+export { SpytialSequence } from './webcola/spytial-sequence';
+export type { SequenceSource, SequenceLayoutProvider } from './webcola/spytial-sequence';
+
 // Re-export types for convenience
 export type { 
   InstanceLayout, 
@@ -63,3 +83,17 @@ export {
   getSequencePolicy,
   registerSequencePolicy,
 } from './webcola/sequence-policy';
+
+// Whole-sequence layout policies
+export type {
+  SequenceLayoutPolicy,
+  SequenceLayoutPolicyContext,
+  SequenceLayoutPlan,
+} from './webcola/sequence-layout-policy';
+export {
+  foresighted,
+  buildSuperGraph,
+  UnsatisfiableLayoutError,
+  getSequenceLayoutPolicy,
+  registerSequenceLayoutPolicy,
+} from './webcola/sequence-layout-policy';
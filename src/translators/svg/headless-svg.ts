@@ -0,0 +1,478 @@
+/**
+ * Headless SVG renderer - draws a `HeadlessLayoutResult` as a standalone SVG
+ * string, with no DOM, no d3 and no browser.
+ *
+ * Parallel to `<webcola-cnd-graph>`: same post-solver positions, same node,
+ * edge and group styling (`atomStyle`, `edgeStyle`, group directives, icons),
+ * but written as markup rather than built as live elements. The output is a
+ * still picture — no routing around nodes, no zoom, no interaction — meant for
+ * CI artifacts, docs generators and non-browser hosts.
+ *
+ * The drawing constants mirror the renderer's (`webcola-cnd-graph.ts`) so a
+ * headless diagram reads like a screenshot of the same layout.
+ *
+ * @example
+ * ```typescript
+ * import { parseLayoutSpec, runHeadlessLayout, renderHeadlessSvg } from 'spytial-core';
+ *
+ * const result = await runHeadlessLayout(parseLayoutSpec(specYaml), instance);
+ * fs.writeFileSync('diagram.svg', renderHeadlessSvg(result));
+ * ```
+ */
+
+import type { HeadlessLayoutResult } from '../../evaluation/headless-layout';
+import type { LayoutEdge, LayoutGroup } from '../../layout/interfaces';
+import { getInlinableIconSvg } from '../../layout/icon-registry';
+import {
+    MAIN_LABEL_FONT_SIZE,
+    SECONDARY_FONT_SIZE,
+    LABEL_LINE_HEIGHT_RATIO,
+    resolveAttrFontSize,
+} from '../../layout/text-extent';
+import type { NodeWithMetadata } from '../webcola/webcolatranslator';
+
+// ─── Public Types ──────────────────────────────────────────────────────────
+
+export interface HeadlessSvgOptions {
+    /** Canvas color: the background, the default node fill and the edge-label halo. Default `#fffff8`. */
+    background?: string;
+    /** Font stack for every label. Default matches `<webcola-cnd-graph>`. */
+    fontFamily?: string;
+    /** Space around the drawing, in px. Default 10. */
+    padding?: number;
+    /** Accessible title, emitted as the SVG's `<title>`. */
+    title?: string;
+}
+
+// ─── Drawing constants (mirroring webcola-cnd-graph.ts) ───────────────────
+
+const DEFAULT_CANVAS_BG = '#fffff8';
+const DEFAULT_FONT_FAMILY = "'Atkinson Hyperlegible', system-ui, -apple-system, sans-serif";
+const VIEWBOX_PADDING = 10;
+const NODE_BORDER_RADIUS = 6;
+const NODE_STROKE_WIDTH = 1.5;
+const SMALL_IMG_SCALE_FACTOR = 0.3;
+const TYPE_LABEL_FONT_SIZE = 9;
+const EDGE_LABEL_FONT_SIZE = 10;
+const EDGE_STROKE_WIDTH = 1.5;
+const HIGHLIGHT_STROKE_WIDTH = 6;
+const GROUP_PADDING = 12;
+const GROUP_LABEL_PADDING = 20;
+const GROUP_BORDER_RADIUS = 8;
+const GROUP_FILL_OPACITY = 0.10;
+const GROUP_STROKE_OPACITY = 0.4;
+const GROUP_STROKE_WIDTH = 1.5;
+/** Gap between parallel edges drawn between the same two nodes. */
+const PARALLEL_EDGE_SPACING = 24;
+const SELF_LOOP_SIZE = 30;
+
+// ─── Geometry ──────────────────────────────────────────────────────────────
+
+interface Box {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+interface Point {
+    x: number;
+    y: number;
+}
+
+function nodeBox(node: NodeWithMetadata): Box {
+    const width = node.visualWidth ?? node.width ?? 0;
+    const height = node.visualHeight ?? node.height ?? 0;
+    return { x: (node.x ?? 0) - width / 2, y: (node.y ?? 0) - height / 2, width, height };
+}
+
+function center(box: Box): Point {
+    return { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+}
+
+function unionBoxes(boxes: Box[]): Box | undefined {
+    if (boxes.length === 0) return undefined;
+    const minX = Math.min(...boxes.map(b => b.x));
+    const minY = Math.min(...boxes.map(b => b.y));
+    const maxX = Math.max(...boxes.map(b => b.x + b.width));
+    const maxY = Math.max(...boxes.map(b => b.y + b.height));
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Where the ray from `from` toward the center of `box` first crosses the box's
+ * border. Edges end there rather than at the center so the arrowhead is seen.
+ */
+function clipToBox(from: Point, box: Box): Point {
+    const c = center(box);
+    const dx = from.x - c.x;
+    const dy = from.y - c.y;
+    if (dx === 0 && dy === 0) return c;
+    const sx = dx === 0 ? Infinity : (box.width / 2) / Math.abs(dx);
+    const sy = dy === 0 ? Infinity : (box.height / 2) / Math.abs(dy);
+    const s = Math.min(sx, sy, 1);
+    return { x: c.x + dx * s, y: c.y + dy * s };
+}
+
+/** Two decimals is well below a pixel and keeps the output stable across runs. */
+function num(n: number): string {
+    return String(Math.round(n * 100) / 100);
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+function attrs(values: Record<string, string | number | undefined | null>): string {
+    return Object.entries(values)
+        .filter(([, v]) => v !== undefined && v !== null)
+        .map(([k, v]) => ` ${k}="${escapeXml(typeof v === 'number' ? num(v) : v as string)}"`)
+        .join('');
+}
+
+// ─── Classification (same naming conventions the renderer keys off) ──────
+
+/** Helper nodes (`_`-prefixed ids: disconnected anchors, alignment helpers) are laid out but not drawn. */
+function isHiddenNode(node: { id: string }): boolean {
+    return node.id.startsWith('_');
+}
+
+function isAlignmentEdge(edge: { id: string }): boolean {
+    return edge.id.startsWith('_alignment_');
+}
+
+function isDisconnectedGroup(group: LayoutGroup): boolean {
+    return group.name.startsWith('_d_');
+}
+
+function edgeDasharray(style?: string): string | undefined {
+    switch (style) {
+        case 'dotted': return '1,4';
+        case 'dashed': return '6,4';
+        default: return undefined;
+    }
+}
+
+// ─── Rendering ─────────────────────────────────────────────────────────────
+
+/**
+ * Group rectangles, innermost last so nested groups draw on top. A group's
+ * bounds cover its members plus any group whose members it strictly contains,
+ * so a parent hull always encloses its children's.
+ */
+function layoutGroups(
+    groups: LayoutGroup[],
+    boxes: Map<string, Box>,
+): Array<{ group: LayoutGroup; box: Box }> {
+    const drawable = groups
+        .filter(g => !g.negated && !isDisconnectedGroup(g))
+        .map(g => ({ group: g, members: new Set(g.nodeIds.filter(id => boxes.has(id))) }))
+        .filter(g => g.members.size > 0)
+        .sort((a, b) => a.members.size - b.members.size);
+
+    const placed: Array<{ group: LayoutGroup; members: Set<string>; box: Box }> = [];
+    for (const { group, members } of drawable) {
+        const children = placed.filter(p =>
+            p.members.size < members.size && [...p.members].every(id => members.has(id)));
+        const inner = unionBoxes([
+            ...[...members].map(id => boxes.get(id) as Box),
+            ...children.map(c => c.box),
+        ]) as Box;
+        const top = group.showLabel ? GROUP_LABEL_PADDING : GROUP_PADDING;
+        placed.push({
+            group,
+            members,
+            box: {
+                x: inner.x - GROUP_PADDING,
+                y: inner.y - top,
+                width: inner.width + 2 * GROUP_PADDING,
+                height: inner.height + top + GROUP_PADDING,
+            },
+        });
+    }
+    return placed.reverse().map(({ group, box }) => ({ group, box }));
+}
+
+function renderGroup(
+    group: LayoutGroup,
+    box: Box,
+    keyNode: NodeWithMetadata | undefined,
+    fontFamily: string,
+): string {
+    const color = keyNode?.color || '#999999';
+    let out = `<rect class="group"${attrs({
+        x: box.x, y: box.y, width: box.width, height: box.height,
+        rx: GROUP_BORDER_RADIUS, ry: GROUP_BORDER_RADIUS,
+        fill: keyNode?.color || '#cccccc', 'fill-opacity': GROUP_FILL_OPACITY,
+        stroke: color, 'stroke-opacity': GROUP_STROKE_OPACITY, 'stroke-width': GROUP_STROKE_WIDTH,
+    })}/>`;
+    if (group.showLabel) {
+        out += `<text class="group-label"${attrs({
+            x: box.x + box.width / 2, y: box.y + GROUP_LABEL_PADDING / 2,
+            'text-anchor': 'middle', 'dominant-baseline': 'middle',
+            'font-family': fontFamily, 'font-size': EDGE_LABEL_FONT_SIZE, 'font-weight': 'bold',
+            fill: group.labelTextStyle?.color ?? color,
+        })}>${escapeXml(group.name)}</text>`;
+    }
+    return out;
+}
+
+/**
+ * An inlinable (bundled) icon is nested as its own `<svg>`, so `currentColor`
+ * takes the node's color; anything else is an `<image>` reference, resolved by
+ * whatever eventually displays the file.
+ */
+function renderIcon(node: NodeWithMetadata, box: Box): string {
+    const badge = node.iconPlacement === 'badge';
+    const width = badge ? box.width * SMALL_IMG_SCALE_FACTOR : box.width;
+    const height = badge ? box.height * SMALL_IMG_SCALE_FACTOR : box.height;
+    const x = badge ? box.x + box.width - width : box.x;
+    const geometry = attrs({
+        class: 'node-icon', x, y: box.y, width, height,
+        opacity: node.iconOpacity, color: node.color || undefined,
+    });
+    const inline = getInlinableIconSvg(node.icon);
+    if (inline) {
+        return inline.replace(/^<svg\b/, `<svg${geometry}`);
+    }
+    return `<image${geometry}${attrs({ href: node.icon, preserveAspectRatio: 'xMidYMid meet' })}/>`;
+}
+
+/**
+ * Main label, then Skolem labels, then attributes — the renderer's line order
+ * and sizes, with the block centered on the node.
+ */
+function renderNodeLabel(node: NodeWithMetadata, fontFamily: string): string {
+    const labelEntries = Object.entries(node.labels ?? {});
+    const attributeEntries = Object.entries(node.attributes ?? {}).sort(([a], [b]) => a.localeCompare(b));
+    const attributeStyles = node.attributeTextStyles ?? {};
+    const secondaryLineHeight = SECONDARY_FONT_SIZE * LABEL_LINE_HEIGHT_RATIO;
+    const attributeFontSizes = attributeEntries.map(([key]) => resolveAttrFontSize(attributeStyles[key]?.size));
+    const secondaryHeights = [
+        ...labelEntries.map(() => secondaryLineHeight),
+        ...attributeFontSizes.map(fs => fs * LABEL_LINE_HEIGHT_RATIO),
+    ];
+    const blockHeight = secondaryHeights.reduce((a, b) => a + b, 0);
+    // Line centers, relative to the node's center.
+    let y = -blockHeight / 2;
+    const lineYs = [y];
+    secondaryHeights.forEach((h, i) => {
+        y += i === 0 ? h : (secondaryHeights[i - 1] + h) / 2;
+        lineYs.push(y);
+    });
+
+    const cx = node.x ?? 0;
+    const cy = node.y ?? 0;
+    const line = (index: number, text: string, extra: Record<string, string | number | undefined>) =>
+        `<tspan${attrs({ x: cx, y: cy + lineYs[index], ...extra })}>${escapeXml(text)}</tspan>`;
+
+    let tspans = line(0, node.label || node.id, {
+        'font-weight': 'bold', 'font-size': MAIN_LABEL_FONT_SIZE, fill: node.textStyle?.color,
+    });
+    labelEntries.forEach(([, values], i) => {
+        const text = Array.isArray(values) ? values.join(', ') : String(values);
+        tspans += line(1 + i, text, { 'font-size': SECONDARY_FONT_SIZE, 'font-style': 'italic' });
+    });
+    attributeEntries.forEach(([key, value], i) => {
+        tspans += line(1 + labelEntries.length + i, `${key}: ${value}`, {
+            'font-size': attributeFontSizes[i], fill: attributeStyles[key]?.color,
+        });
+    });
+    return `<text class="label"${attrs({
+        'text-anchor': 'middle', 'dominant-baseline': 'middle', 'font-family': fontFamily, fill: 'black',
+    })}>${tspans}</text>`;
+}
+
+function renderNode(node: NodeWithMetadata, box: Box, background: string, fontFamily: string): string {
+    const badge = node.iconPlacement === 'badge';
+    const fill = node.fillColor ?? (node.icon && !badge ? 'transparent' : background);
+    let out = `<g class="node"${attrs({ 'data-id': node.id })}>`;
+    out += `<rect${attrs({
+        x: box.x, y: box.y, width: box.width, height: box.height,
+        rx: NODE_BORDER_RADIUS, ry: NODE_BORDER_RADIUS,
+        fill, stroke: node.color || 'black', 'stroke-width': node.borderWidth ?? NODE_STROKE_WIDTH,
+    })}/>`;
+    if (node.icon) {
+        out += renderIcon(node, box);
+    }
+    if (node.mostSpecificType) {
+        out += `<text class="mostSpecificTypeLabel"${attrs({
+            x: box.x + 5, y: box.y + 10, 'font-family': fontFamily,
+            'font-size': TYPE_LABEL_FONT_SIZE, 'font-weight': 600, fill: node.color || 'black',
+        })}>${escapeXml(node.mostSpecificType)}</text>`;
+    }
+    if (node.showLabels) {
+        out += renderNodeLabel(node, fontFamily);
+    }
+    return `${out}</g>`;
+}
+
+interface EdgeGeometry {
+    path: string;
+    labelAt: Point;
+}
+
+function edgeGeometry(sourceBox: Box, targetBox: Box, selfLoop: boolean, offset: number): EdgeGeometry {
+    if (selfLoop) {
+        const start = { x: sourceBox.x + sourceBox.width * 0.75, y: sourceBox.y };
+        const end = { x: sourceBox.x + sourceBox.width, y: sourceBox.y + sourceBox.height * 0.25 };
+        const s = SELF_LOOP_SIZE;
+        return {
+            path: `M${num(start.x)},${num(start.y)} C${num(start.x)},${num(start.y - s)} ${num(end.x + s)},${num(end.y)} ${num(end.x)},${num(end.y)}`,
+            labelAt: { x: end.x + s * 0.6, y: start.y - s * 0.6 },
+        };
+    }
+    const sc = center(sourceBox);
+    const tc = center(targetBox);
+    const mid = { x: (sc.x + tc.x) / 2, y: (sc.y + tc.y) / 2 };
+    const length = Math.hypot(tc.x - sc.x, tc.y - sc.y) || 1;
+    const control = {
+        x: mid.x - ((tc.y - sc.y) / length) * offset,
+        y: mid.y + ((tc.x - sc.x) / length) * offset,
+    };
+    const start = clipToBox(control, sourceBox);
+    const end = clipToBox(control, targetBox);
+    if (offset === 0) {
+        return {
+            path: `M${num(start.x)},${num(start.y)} L${num(end.x)},${num(end.y)}`,
+            labelAt: { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 },
+        };
+    }
+    return {
+        path: `M${num(start.x)},${num(start.y)} Q${num(control.x)},${num(control.y)} ${num(end.x)},${num(end.y)}`,
+        labelAt: {
+            x: 0.25 * start.x + 0.5 * control.x + 0.25 * end.x,
+            y: 0.25 * start.y + 0.5 * control.y + 0.25 * end.y,
+        },
+    };
+}
+
+/**
+ * Render a headless layout as a standalone SVG document string.
+ *
+ * Draws groups, then edges, then nodes, in the coordinates the solver
+ * produced; the `viewBox` is fitted to the drawing plus `padding`. Styling
+ * comes entirely from the result — node colors, fills, borders, icons and
+ * label styles from the translated nodes; edge colors, dash styles,
+ * highlights and label visibility from `result.layout.edges`; groups from
+ * `result.layout.groups`.
+ *
+ * Deterministic: the same result always produces the same string, so the
+ * output can be diffed or snapshotted.
+ *
+ * @param result  - Output of `runHeadlessLayout`.
+ * @param options - Canvas and font overrides. See {@link HeadlessSvgOptions}.
+ */
+export function renderHeadlessSvg(result: HeadlessLayoutResult, options: HeadlessSvgOptions = {}): string {
+    const background = options.background ?? DEFAULT_CANVAS_BG;
+    const fontFamily = options.fontFamily ?? DEFAULT_FONT_FAMILY;
+    const padding = options.padding ?? VIEWBOX_PADDING;
+
+    const nodes = result.nodes.filter(n => !isHiddenNode(n));
+    const nodesById = new Map(result.nodes.map(n => [n.id, n]));
+    const boxes = new Map(nodes.map(n => [n.id, nodeBox(n)]));
+    const groups = layoutGroups(result.layout.groups, boxes);
+    const groupBoxes = new Map(groups.map(g => [g.group.name, g.box]));
+
+    // An edge end attached to a group hull (inferredEdge `draw`, group
+    // connectors) is drawn to the hull, not the anchor node.
+    const endBox = (nodeId: string, groupId: string | undefined): Box | undefined =>
+        (groupId !== undefined ? groupBoxes.get(groupId) : undefined) ?? boxes.get(nodeId);
+
+    const edges = result.layout.edges
+        .filter(e => !isAlignmentEdge(e) && !e.hidden)
+        .map(edge => ({
+            edge,
+            source: endBox(edge.source.id, edge.sourceGroupId),
+            target: endBox(edge.target.id, edge.targetGroupId),
+        }))
+        .filter((e): e is { edge: LayoutEdge; source: Box; target: Box } => !!e.source && !!e.target);
+
+    // Parallel edges between the same two ends fan out symmetrically.
+    const pairKey = (e: { source: Box; target: Box }) =>
+        [center(e.source), center(e.target)].map(p => `${num(p.x)},${num(p.y)}`).sort().join('|');
+    const pairs = new Map<string, number>();
+    edges.forEach(e => pairs.set(pairKey(e), (pairs.get(pairKey(e)) ?? 0) + 1));
+    const pairSeen = new Map<string, number>();
+
+    // One arrowhead marker per edge color: `context-stroke` is not supported
+    // by most non-browser SVG consumers.
+    const markerIds = new Map<string, string>();
+    const markerFor = (color: string): string => {
+        if (!markerIds.has(color)) markerIds.set(color, `end-arrow-${markerIds.size}`);
+        return markerIds.get(color) as string;
+    };
+
+    let edgeMarkup = '';
+    let edgeLabelMarkup = '';
+    for (const e of edges) {
+        const { edge } = e;
+        const key = pairKey(e);
+        const count = pairs.get(key) as number;
+        const index = pairSeen.get(key) ?? 0;
+        pairSeen.set(key, index + 1);
+        const selfLoop = e.source === e.target;
+        const offset = selfLoop ? 0 : (index - (count - 1) / 2) * PARALLEL_EDGE_SPACING;
+        const { path, labelAt } = edgeGeometry(e.source, e.target, selfLoop, offset);
+        const color = edge.color || 'black';
+
+        if (edge.highlight) {
+            edgeMarkup += `<path class="edge-highlight"${attrs({
+                d: path, fill: 'none', stroke: edge.highlight, 'stroke-width': HIGHLIGHT_STROKE_WIDTH,
+                'stroke-opacity': 0.5, 'stroke-linecap': 'round',
+            })}/>`;
+        }
+        edgeMarkup += `<path class="edge"${attrs({
+            'data-id': edge.id, d: path, fill: 'none', stroke: color, 'stroke-width': EDGE_STROKE_WIDTH,
+            'stroke-dasharray': edgeDasharray(edge.style), 'marker-end': `url(#${markerFor(color)})`,
+        })}/>`;
+        if (edge.showLabel !== false && edge.label) {
+            const size = edge.textStyle?.size ? resolveAttrFontSize(edge.textStyle.size) : EDGE_LABEL_FONT_SIZE;
+            edgeLabelMarkup += `<text class="edge-label"${attrs({
+                x: labelAt.x, y: labelAt.y, 'text-anchor': 'middle', 'dominant-baseline': 'middle',
+                'font-family': fontFamily, 'font-size': size, fill: edge.textStyle?.color ?? color,
+                stroke: background, 'stroke-width': 3, 'paint-order': 'stroke',
+            })}>${escapeXml(edge.label)}</text>`;
+        }
+    }
+
+    const markers = [...markerIds].map(([color, id]) =>
+        `<marker${attrs({
+            id, markerWidth: 12, markerHeight: 8, refX: 12, refY: 4, orient: 'auto', markerUnits: 'userSpaceOnUse',
+        })}><polygon${attrs({ points: '0 0, 12 4, 0 8, 3 4', fill: color })}/></marker>`
+    ).join('');
+
+    const groupMarkup = groups
+        .map(({ group, box }) => renderGroup(group, box, nodesById.get(group.keyNodeId), fontFamily))
+        .join('');
+    const nodeMarkup = nodes
+        .map(n => renderNode(n, boxes.get(n.id) as Box, background, fontFamily))
+        .join('');
+
+    const extent = unionBoxes([...boxes.values(), ...groupBoxes.values()]) ?? { x: 0, y: 0, width: 0, height: 0 };
+    const viewBox = {
+        x: extent.x - padding,
+        y: extent.y - padding,
+        width: extent.width + 2 * padding,
+        height: extent.height + 2 * padding,
+    };
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg"${attrs({
+            width: viewBox.width, height: viewBox.height,
+            viewBox: [viewBox.x, viewBox.y, viewBox.width, viewBox.height].map(num).join(' '),
+        })}>`,
+        options.title !== undefined ? `<title>${escapeXml(options.title)}</title>` : '',
+        `<defs>${markers}</defs>`,
+        `<rect${attrs({ x: viewBox.x, y: viewBox.y, width: viewBox.width, height: viewBox.height, fill: background })}/>`,
+        `<g class="groups">${groupMarkup}</g>`,
+        `<g class="edges">${edgeMarkup}${edgeLabelMarkup}</g>`,
+        `<g class="nodes">${nodeMarkup}</g>`,
+        '</svg>',
+    ].join('\n');
+}
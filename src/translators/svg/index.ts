@@ -0,0 +1,9 @@
+/**
+ * Headless SVG module - draws a headless layout as a standalone SVG string.
+ *
+ * Parallel to the WebCola renderer: same positions and styling, but written as
+ * markup in plain Node rather than built in a browser DOM.
+ */
+
+export { renderHeadlessSvg } from './headless-svg';
+export type { HeadlessSvgOptions } from './headless-svg';
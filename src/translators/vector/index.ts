@@ -0,0 +1,25 @@
+/**
+ * Vector module - reduces a drawn SVG to a format-neutral scene and writes
+ * the scene as TikZ or PDF.
+ *
+ * `<webcola-cnd-graph>` uses it for `exportTikz()` and `exportPdf()`; it works
+ * on any SVG element in a DOM.
+ */
+
+export { extractVectorScene, parsePathData, parseColor, estimateTextWidth } from './vector-scene';
+export type {
+    VectorScene,
+    VectorSceneOptions,
+    VectorItem,
+    VectorRect,
+    VectorEllipse,
+    VectorPath,
+    VectorPathSegment,
+    VectorText,
+    VectorPaint,
+    VectorColor,
+} from './vector-scene';
+export { renderTikz } from './tikz';
+export type { TikzOptions } from './tikz';
+export { renderPdf } from './pdf';
+export type { PdfOptions } from './pdf';
@@ -0,0 +1,296 @@
+/**
+ * PDF writer - draws a `VectorScene` as a one-page PDF.
+ *
+ * The page is cut to the scene's bounds at 0.75 pt per px (CSS px at 96 dpi),
+ * so a figure prints at the size it was drawn. Shapes are PDF paths; text is
+ * set in the standard Helvetica faces every reader has, so nothing is
+ * embedded and the file stays small. Arrowheads are drawn as the renderer's
+ * marker triangle at each marked end.
+ *
+ * Text outside Latin-1 has no glyph in the standard fonts' encoding and is
+ * written as `?`.
+ */
+
+import { estimateTextWidth } from './vector-scene';
+import type { VectorColor, VectorItem, VectorPaint, VectorPath, VectorPathSegment, VectorScene, VectorText } from './vector-scene';
+
+// ─── Public Types ──────────────────────────────────────────────────────────
+
+export interface PdfOptions {
+    /** Document title, shown by PDF readers. */
+    title?: string;
+}
+
+// ─── Constants ─────────────────────────────────────────────────────────────
+
+const PT_PER_PX = 0.75;
+/** Bézier handle length for a quarter circle of radius 1. */
+const KAPPA = 0.5522847498;
+
+/** The renderer's arrowhead marker: barbs and notch, in px back from the tip. */
+const ARROW_LENGTH = 12;
+const ARROW_HALF_WIDTH = 4;
+const ARROW_NOTCH = 9;
+
+/** Standard-14 faces, by `bold * 2 + italic`. */
+const FONTS = ['Helvetica', 'Helvetica-Oblique', 'Helvetica-Bold', 'Helvetica-BoldOblique'];
+
+/** Typographic characters outside Latin-1 that WinAnsiEncoding still has. */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+    '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+    '•': 0x95, '–': 0x96, '—': 0x97, '…': 0x85, '€': 0x80,
+};
+
+// ─── Formatting ────────────────────────────────────────────────────────────
+
+function num(n: number): string {
+    return String(Math.round(n * 100) / 100);
+}
+
+function rgb(color: VectorColor): string {
+    return [color.r, color.g, color.b].map(v => num(v / 255)).join(' ');
+}
+
+/** A PDF literal string in WinAnsiEncoding; every character is one byte. */
+function pdfString(text: string): string {
+    let out = '(';
+    for (const ch of text) {
+        const code = ch.codePointAt(0)!;
+        if (ch === '(' || ch === ')' || ch === '\\') {
+            out += '\\' + ch;
+        } else if (code >= 32 && code <= 126) {
+            out += ch;
+        } else {
+            const byte = code >= 160 && code <= 255 ? code : WIN_ANSI_EXTRAS[ch] ?? 63;
+            out += '\\' + byte.toString(8).padStart(3, '0');
+        }
+    }
+    return out + ')';
+}
+
+// ─── Content stream ────────────────────────────────────────────────────────
+
+/**
+ * Builds the page's content stream, collecting the transparency states the
+ * page's resources must declare.
+ */
+class PageWriter {
+    readonly ops: string[] = [];
+    readonly alphas: number[] = [];
+
+    /** Graphics-state name for fill and stroke alpha `a`. */
+    private alphaState(a: number): string {
+        const key = Math.round(a * 100) / 100;
+        let index = this.alphas.indexOf(key);
+        if (index < 0) {
+            index = this.alphas.length;
+            this.alphas.push(key);
+        }
+        return `/GS${index}`;
+    }
+
+    private setPaint(item: VectorPaint): void {
+        const alpha = Math.min(item.fill?.a ?? 1, item.stroke?.a ?? 1);
+        if (alpha < 1) this.ops.push(`${this.alphaState(alpha)} gs`);
+        if (item.fill) this.ops.push(`${rgb(item.fill)} rg`);
+        if (item.stroke) {
+            this.ops.push(`${rgb(item.stroke)} RG`, `${num(item.strokeWidth)} w`);
+            if (item.dash) this.ops.push(`[${item.dash.map(num).join(' ')}] 0 d`);
+        }
+    }
+
+    private paintOp(item: VectorPaint): string {
+        if (item.fill && item.stroke) return 'B';
+        return item.fill ? 'f' : 'S';
+    }
+
+    private rect(x: number, y: number, w: number, h: number, r: number): void {
+        r = Math.min(r, w / 2, h / 2);
+        if (r <= 0) {
+            this.ops.push(`${num(x)} ${num(y)} ${num(w)} ${num(h)} re`);
+            return;
+        }
+        const k = r * (1 - KAPPA);
+        const [x2, y2] = [x + w, y + h];
+        this.ops.push(
+            `${num(x + r)} ${num(y)} m`,
+            `${num(x2 - r)} ${num(y)} l`,
+            `${num(x2 - k)} ${num(y)} ${num(x2)} ${num(y + k)} ${num(x2)} ${num(y + r)} c`,
+            `${num(x2)} ${num(y2 - r)} l`,
+            `${num(x2)} ${num(y2 - k)} ${num(x2 - k)} ${num(y2)} ${num(x2 - r)} ${num(y2)} c`,
+            `${num(x + r)} ${num(y2)} l`,
+            `${num(x + k)} ${num(y2)} ${num(x)} ${num(y2 - k)} ${num(x)} ${num(y2 - r)} c`,
+            `${num(x)} ${num(y + r)} l`,
+            `${num(x)} ${num(y + k)} ${num(x + k)} ${num(y)} ${num(x + r)} ${num(y)} c`,
+            'h',
+        );
+    }
+
+    private ellipse(cx: number, cy: number, rx: number, ry: number): void {
+        const [kx, ky] = [rx * KAPPA, ry * KAPPA];
+        this.ops.push(
+            `${num(cx + rx)} ${num(cy)} m`,
+            `${num(cx + rx)} ${num(cy + ky)} ${num(cx + kx)} ${num(cy + ry)} ${num(cx)} ${num(cy + ry)} c`,
+            `${num(cx - kx)} ${num(cy + ry)} ${num(cx - rx)} ${num(cy + ky)} ${num(cx - rx)} ${num(cy)} c`,
+            `${num(cx - rx)} ${num(cy - ky)} ${num(cx - kx)} ${num(cy - ry)} ${num(cx)} ${num(cy - ry)} c`,
+            `${num(cx + kx)} ${num(cy - ry)} ${num(cx + rx)} ${num(cy - ky)} ${num(cx + rx)} ${num(cy)} c`,
+            'h',
+        );
+    }
+
+    private path(segments: VectorPathSegment[]): void {
+        for (const s of segments) {
+            switch (s.type) {
+                case 'M':
+                    this.ops.push(`${num(s.x)} ${num(s.y)} m`);
+                    break;
+                case 'L':
+                    this.ops.push(`${num(s.x)} ${num(s.y)} l`);
+                    break;
+                case 'C':
+                    this.ops.push(`${num(s.x1)} ${num(s.y1)} ${num(s.x2)} ${num(s.y2)} ${num(s.x)} ${num(s.y)} c`);
+                    break;
+                case 'Z':
+                    this.ops.push('h');
+                    break;
+            }
+        }
+    }
+
+    /** The marker triangle with its tip at (x, y), pointing along (dx, dy). */
+    private arrowhead(x: number, y: number, dx: number, dy: number): void {
+        const length = Math.hypot(dx, dy);
+        if (length === 0) return;
+        const [ux, uy] = [dx / length, dy / length];
+        const at = (along: number, across: number) =>
+            `${num(x + ux * along - uy * across)} ${num(y + uy * along + ux * across)}`;
+        this.ops.push(
+            `${at(0, 0)} m`,
+            `${at(-ARROW_LENGTH, -ARROW_HALF_WIDTH)} l`,
+            `${at(-ARROW_NOTCH, 0)} l`,
+            `${at(-ARROW_LENGTH, ARROW_HALF_WIDTH)} l`,
+            'h f',
+        );
+    }
+
+    private arrowheads(item: VectorPath): void {
+        if (!item.stroke) return;
+        const ends = pathEnds(item.segments);
+        if (!ends) return;
+        this.ops.push('[] 0 d', `${rgb(item.stroke)} rg`);
+        if (item.arrowEnd) this.arrowhead(...ends.end);
+        if (item.arrowStart) this.arrowhead(...ends.start);
+    }
+
+    private text(item: VectorText): void {
+        const font = (item.bold ? 2 : 0) + (item.italic ? 1 : 0) + 1;
+        const width = estimateTextWidth(item.text, item.fontSize, item.bold);
+        const x = item.anchor === 'middle' ? item.x - width / 2 : item.anchor === 'end' ? item.x - width : item.x;
+        const y = item.baseline === 'middle' ? item.y + item.fontSize * 0.35
+            : item.baseline === 'hanging' ? item.y + item.fontSize * 0.75
+                : item.y;
+        if (item.color.a < 1) this.ops.push(`${this.alphaState(item.color.a)} gs`);
+        // The page is flipped to SVG's y-down; flip glyphs back upright.
+        this.ops.push(
+            `${rgb(item.color)} rg`,
+            `BT /F${font} ${num(item.fontSize)} Tf 1 0 0 -1 ${num(x)} ${num(y)} Tm ${pdfString(item.text)} Tj ET`,
+        );
+    }
+
+    draw(item: VectorItem): void {
+        this.ops.push('q');
+        if (item.kind === 'text') {
+            this.text(item);
+        } else {
+            this.setPaint(item);
+            if (item.kind === 'rect') this.rect(item.x, item.y, item.width, item.height, item.radius);
+            else if (item.kind === 'ellipse') this.ellipse(item.cx, item.cy, item.rx, item.ry);
+            else this.path(item.segments);
+            this.ops.push(this.paintOp(item));
+            if (item.kind === 'path') this.arrowheads(item);
+        }
+        this.ops.push('Q');
+    }
+}
+
+/**
+ * Tip and outward direction at each end of a path, taken from the nearest
+ * distinct control point the way SVG orients markers.
+ */
+function pathEnds(segments: VectorPathSegment[]): {
+    start: [number, number, number, number];
+    end: [number, number, number, number];
+} | null {
+    const points: Array<[number, number]> = [];
+    for (const s of segments) {
+        if (s.type === 'C') points.push([s.x1, s.y1], [s.x2, s.y2], [s.x, s.y]);
+        else if (s.type !== 'Z') points.push([s.x, s.y]);
+    }
+    if (points.length < 2) return null;
+
+    const direction = (tip: [number, number], others: Array<[number, number]>): [number, number, number, number] => {
+        const from = others.find(([x, y]) => x !== tip[0] || y !== tip[1]) ?? tip;
+        return [tip[0], tip[1], tip[0] - from[0], tip[1] - from[1]];
+    };
+    return {
+        start: direction(points[0], points.slice(1)),
+        end: direction(points[points.length - 1], points.slice(0, -1).reverse()),
+    };
+}
+
+// ─── File assembly ─────────────────────────────────────────────────────────
+
+/**
+ * Write `scene` as a PDF file.
+ *
+ * @example
+ * ```typescript
+ * const bytes = renderPdf(scene, { title: 'Figure 3' });
+ * fs.writeFileSync('figure.pdf', bytes);
+ * ```
+ */
+export function renderPdf(scene: VectorScene, options: PdfOptions = {}): Uint8Array<ArrayBuffer> {
+    const { x, y, width, height } = scene.bounds;
+    const page = new PageWriter();
+
+    // Scene px → pt, with y running down from the top of the bounds.
+    page.ops.push(`${PT_PER_PX} 0 0 -${PT_PER_PX} ${num(-x * PT_PER_PX)} ${num((y + height) * PT_PER_PX)} cm`);
+    if (scene.background) {
+        page.ops.push(`${rgb(scene.background)} rg`, `${num(x)} ${num(y)} ${num(width)} ${num(height)} re f`);
+    }
+    for (const item of scene.items) {
+        page.draw(item);
+    }
+    const content = page.ops.join('\n');
+
+    const fonts = FONTS.map((_, i) => `/F${i + 1} ${5 + i} 0 R`).join(' ');
+    const states = page.alphas.map((a, i) => `/GS${i} << /ca ${a} /CA ${a} >>`).join(' ');
+    const infoRef = 5 + FONTS.length;
+    const objects = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(width * PT_PER_PX)} ${num(height * PT_PER_PX)}]` +
+            ` /Resources << /Font << ${fonts} >> /ExtGState << ${states} >> >> /Contents 4 0 R >>`,
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+        ...FONTS.map(face => `<< /Type /Font /Subtype /Type1 /BaseFont /${face} /Encoding /WinAnsiEncoding >>`),
+        `<< /Producer (spytial-core)${options.title ? ` /Title ${pdfString(options.title)}` : ''} >>`,
+    ];
+
+    // Offsets count bytes; every character written is in 0–255, so they count characters.
+    let file = '%PDF-1.4\n%\xE2\xE3\xCF\xD3\n';
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+        offsets.push(file.length);
+        file += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+    const xref = file.length;
+    file += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    file += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    file += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoRef} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(file.length);
+    for (let i = 0; i < file.length; i++) {
+        bytes[i] = file.charCodeAt(i);
+    }
+    return bytes;
+}
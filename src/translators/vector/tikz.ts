@@ -0,0 +1,201 @@
+/**
+ * TikZ writer - draws a `VectorScene` as a TikZ picture for LaTeX documents.
+ *
+ * Every shape keeps its geometry: node and group boxes stay `rectangle`s with
+ * their corner radius, routed edges keep their curves as `.. controls ..`
+ * segments, and labels become `\node`s anchored where the SVG anchored them.
+ * Coordinates are the scene's, with the picture's y axis flipped to match, so
+ * the source reads against the on-screen layout.
+ *
+ * Fonts are the document's: labels are set in its sans, roman or typewriter
+ * family at the drawn size, not in the browser's font.
+ */
+
+import type { VectorColor, VectorItem, VectorPaint, VectorPathSegment, VectorScene, VectorText } from './vector-scene';
+
+// ─── Public Types ──────────────────────────────────────────────────────────
+
+export interface TikzOptions {
+    /**
+     * Wrap the picture in a compilable `standalone` document. Default `true`;
+     * `false` returns just the `tikzpicture` (which needs `arrows.meta`) for
+     * pasting into a larger document.
+     */
+    standalone?: boolean;
+    /** Length of one scene px, in pt. Default 0.75 (CSS px at 96 dpi). */
+    unit?: number;
+}
+
+// ─── Constants ─────────────────────────────────────────────────────────────
+
+const DEFAULT_UNIT = 0.75;
+/** The renderer's arrowhead marker is 12 × 8 px. */
+const ARROW_LENGTH = 12;
+const ARROW_WIDTH = 8;
+
+// ─── Formatting ────────────────────────────────────────────────────────────
+
+/** Two decimals is well below a pixel and keeps the output stable across runs. */
+function num(n: number): string {
+    return String(Math.round(n * 100) / 100);
+}
+
+function point(x: number, y: number): string {
+    return `(${num(x)},${num(y)})`;
+}
+
+const TEX_ESCAPES: Record<string, string> = {
+    '\\': '\\textbackslash{}',
+    '{': '\\{',
+    '}': '\\}',
+    '#': '\\#',
+    '$': '\\$',
+    '%': '\\%',
+    '&': '\\&',
+    '_': '\\_',
+    '~': '\\textasciitilde{}',
+    '^': '\\textasciicircum{}',
+};
+
+function escapeTex(text: string): string {
+    return text.replace(/[\\{}#$%&_~^]/g, ch => TEX_ESCAPES[ch]);
+}
+
+/** Colors are declared once each, in order of first use, as `cnd0`, `cnd1`, … */
+class Palette {
+    private readonly names = new Map<string, string>();
+
+    name(color: VectorColor): string {
+        const rgb = [color.r, color.g, color.b].map(v => Math.round(v)).join(',');
+        let name = this.names.get(rgb);
+        if (!name) {
+            name = `cnd${this.names.size}`;
+            this.names.set(rgb, name);
+        }
+        return name;
+    }
+
+    definitions(): string[] {
+        return [...this.names].map(([rgb, name]) => `\\definecolor{${name}}{RGB}{${rgb}}`);
+    }
+}
+
+// ─── Items ─────────────────────────────────────────────────────────────────
+
+function paintOptions(item: VectorPaint, palette: Palette, unit: number): string[] {
+    const options: string[] = [];
+    if (item.fill) {
+        options.push(`fill=${palette.name(item.fill)}`);
+        if (item.fill.a < 1) options.push(`fill opacity=${num(item.fill.a)}`);
+    }
+    if (item.stroke) {
+        options.push(`draw=${palette.name(item.stroke)}`, `line width=${num(item.strokeWidth * unit)}pt`);
+        if (item.stroke.a < 1) options.push(`draw opacity=${num(item.stroke.a)}`);
+        if (item.dash) {
+            const pairs = item.dash.length % 2 === 0 ? item.dash : [...item.dash, ...item.dash];
+            const pattern = pairs.map((n, i) => `${i % 2 === 0 ? 'on' : 'off'} ${num(n * unit)}pt`).join(' ');
+            options.push(`dash pattern=${pattern}`);
+        }
+    }
+    return options;
+}
+
+function pathSpec(segments: VectorPathSegment[]): string {
+    const parts: string[] = [];
+    for (const s of segments) {
+        switch (s.type) {
+            case 'M':
+                parts.push(point(s.x, s.y));
+                break;
+            case 'L':
+                parts.push(`-- ${point(s.x, s.y)}`);
+                break;
+            case 'C':
+                parts.push(`.. controls ${point(s.x1, s.y1)} and ${point(s.x2, s.y2)} .. ${point(s.x, s.y)}`);
+                break;
+            case 'Z':
+                parts.push('-- cycle');
+                break;
+        }
+    }
+    return parts.join(' ');
+}
+
+function textNode(item: VectorText, palette: Palette, unit: number): string {
+    const horizontal = item.anchor === 'start' ? 'west' : item.anchor === 'end' ? 'east' : '';
+    const vertical = item.baseline === 'alphabetic' ? 'base' : item.baseline === 'hanging' ? 'north' : '';
+    const anchor = [vertical, horizontal].filter(Boolean).join(' ') || 'center';
+    const size = item.fontSize * unit;
+    const font = [
+        `\\fontsize{${num(size)}}{${num(size * 1.2)}}\\selectfont`,
+        item.family === 'mono' ? '\\ttfamily' : item.family === 'serif' ? '\\rmfamily' : '\\sffamily',
+        item.bold ? '\\bfseries' : '',
+        item.italic ? '\\itshape' : '',
+    ].join('');
+    const options = [`anchor=${anchor}`, 'inner sep=0pt', `text=${palette.name(item.color)}`, `font=${font}`];
+    if (item.color.a < 1) options.push(`text opacity=${num(item.color.a)}`);
+    return `\\node[${options.join(', ')}] at ${point(item.x, item.y)} {${escapeTex(item.text)}};`;
+}
+
+function drawItem(item: VectorItem, palette: Palette, unit: number): string {
+    if (item.kind === 'text') return textNode(item, palette, unit);
+
+    const options = paintOptions(item, palette, unit);
+    switch (item.kind) {
+        case 'rect':
+            if (item.radius > 0) options.push(`rounded corners=${num(item.radius * unit)}pt`);
+            return `\\path[${options.join(', ')}] ${point(item.x, item.y)} rectangle ${point(item.x + item.width, item.y + item.height)};`;
+        case 'ellipse':
+            return `\\path[${options.join(', ')}] ${point(item.cx, item.cy)} ellipse [x radius=${num(item.rx * unit)}pt, y radius=${num(item.ry * unit)}pt];`;
+        case 'path': {
+            if (item.stroke && (item.arrowStart || item.arrowEnd)) {
+                const tip = `{Stealth[length=${num(ARROW_LENGTH * unit)}pt, width=${num(ARROW_WIDTH * unit)}pt]}`;
+                options.unshift(`${item.arrowStart ? tip : ''}-${item.arrowEnd ? tip : ''}`);
+            }
+            return `\\path[${options.join(', ')}] ${pathSpec(item.segments)};`;
+        }
+    }
+}
+
+// ─── Entry point ───────────────────────────────────────────────────────────
+
+/**
+ * Write `scene` as TikZ source.
+ *
+ * @example
+ * ```typescript
+ * fs.writeFileSync('figure.tex', renderTikz(scene));
+ * // or, inside a paper: \input{figure-body.tex}
+ * fs.writeFileSync('figure-body.tex', renderTikz(scene, { standalone: false }));
+ * ```
+ */
+export function renderTikz(scene: VectorScene, options: TikzOptions = {}): string {
+    const unit = options.unit ?? DEFAULT_UNIT;
+    const palette = new Palette();
+    const { x, y, width, height } = scene.bounds;
+
+    const body: string[] = [];
+    if (scene.background) {
+        body.push(`\\fill[${palette.name(scene.background)}] ${point(x, y)} rectangle ${point(x + width, y + height)};`);
+    }
+    for (const item of scene.items) {
+        body.push(drawItem(item, palette, unit));
+    }
+
+    const picture = [
+        `\\begin{tikzpicture}[x=${num(unit)}pt, y=-${num(unit)}pt]`,
+        ...palette.definitions(),
+        ...body,
+        '\\end{tikzpicture}',
+    ];
+    if (options.standalone === false) {
+        return picture.join('\n') + '\n';
+    }
+    return [
+        '\\documentclass[tikz]{standalone}',
+        '\\usetikzlibrary{arrows.meta}',
+        '\\begin{document}',
+        ...picture,
+        '\\end{document}',
+    ].join('\n') + '\n';
+}
@@ -0,0 +1,761 @@
+/**
+ * Vector scene - a drawn SVG reduced to the handful of shapes a vector
+ * format needs: rectangles, ellipses, paths and text, each with its paint
+ * resolved to plain numbers and colors in one coordinate space.
+ *
+ * `<webcola-cnd-graph>` builds its drawing as live SVG; the TikZ and PDF
+ * writers cannot read SVG, so the drawing is walked once into a scene and
+ * each writer draws the scene. The walk reads what is actually on screen —
+ * computed styles, routed edge paths, inlined icon glyphs — so every format
+ * shows the same picture.
+ *
+ * Not covered: raster `<image>`s, gradients, clip paths, masks and filters.
+ * Markers are reduced to whether a path has an arrowhead at either end.
+ */
+
+import chroma from 'chroma-js';
+
+// ─── Public Types ──────────────────────────────────────────────────────────
+
+/** A color as 0–255 channels plus 0–1 alpha. */
+export interface VectorColor {
+    r: number;
+    g: number;
+    b: number;
+    a: number;
+}
+
+/** Fill and stroke shared by every closed or stroked shape. `null` is no paint. */
+export interface VectorPaint {
+    fill: VectorColor | null;
+    stroke: VectorColor | null;
+    strokeWidth: number;
+    /** Dash lengths, on/off alternating; `null` for a solid line. */
+    dash: number[] | null;
+}
+
+/** An absolute path command. Lines, quadratics and arcs arrive as `L` and `C`. */
+export type VectorPathSegment =
+    | { type: 'M'; x: number; y: number }
+    | { type: 'L'; x: number; y: number }
+    | { type: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+    | { type: 'Z' };
+
+export interface VectorRect extends VectorPaint {
+    kind: 'rect';
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    /** Corner radius (the smaller of the SVG `rx` and `ry`). */
+    radius: number;
+}
+
+export interface VectorEllipse extends VectorPaint {
+    kind: 'ellipse';
+    cx: number;
+    cy: number;
+    rx: number;
+    ry: number;
+}
+
+export interface VectorPath extends VectorPaint {
+    kind: 'path';
+    segments: VectorPathSegment[];
+    /** Whether the path carries a `marker-start` arrowhead. */
+    arrowStart: boolean;
+    /** Whether the path carries a `marker-end` arrowhead. */
+    arrowEnd: boolean;
+}
+
+export interface VectorText {
+    kind: 'text';
+    text: string;
+    /** Anchor point: horizontal position per `anchor`, vertical per `baseline`. */
+    x: number;
+    y: number;
+    fontSize: number;
+    bold: boolean;
+    italic: boolean;
+    family: 'sans' | 'serif' | 'mono';
+    anchor: 'start' | 'middle' | 'end';
+    baseline: 'alphabetic' | 'middle' | 'hanging';
+    color: VectorColor;
+}
+
+export type VectorItem = VectorRect | VectorEllipse | VectorPath | VectorText;
+
+/** A drawing, in paint order, plus the box that holds it. */
+export interface VectorScene {
+    /** Extent of every item plus padding, in the scene's coordinates (y down). */
+    bounds: { x: number; y: number; width: number; height: number };
+    /** Canvas color behind the drawing, or `null` for none. */
+    background: VectorColor | null;
+    items: VectorItem[];
+}
+
+export interface VectorSceneOptions {
+    /** Canvas color recorded as the scene background. */
+    background?: string;
+    /** Space around the drawing, in px. Default 10. */
+    padding?: number;
+}
+
+// ─── Constants ─────────────────────────────────────────────────────────────
+
+const DEFAULT_PADDING = 10;
+const DEFAULT_FONT_SIZE = 12;
+
+/** Elements that draw nothing themselves or that the scene does not cover. */
+const SKIPPED_TAGS = new Set([
+    'defs', 'marker', 'title', 'desc', 'metadata', 'style', 'script', 'clippath',
+    'mask', 'pattern', 'lineargradient', 'radialgradient', 'symbol', 'image', 'foreignobject',
+]);
+
+/**
+ * Helvetica advance widths (per 1000 em) for printable ASCII, from the
+ * standard AFM. The PDF writer draws in Helvetica; text extents elsewhere are
+ * estimated from the same table.
+ */
+const HELVETICA_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+/** Width of `text` set in Helvetica at `fontSize`. Bold is widened by 5%. */
+export function estimateTextWidth(text: string, fontSize: number, bold = false): number {
+    let units = 0;
+    for (const ch of text) {
+        const code = ch.charCodeAt(0);
+        units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+    }
+    return (units / 1000) * fontSize * (bold ? 1.05 : 1);
+}
+
+// ─── Geometry ──────────────────────────────────────────────────────────────
+
+/** Affine matrix [a, b, c, d, e, f], as in SVG's `matrix()`. */
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+    return [
+        m[0] * n[0] + m[2] * n[1],
+        m[1] * n[0] + m[3] * n[1],
+        m[0] * n[2] + m[2] * n[3],
+        m[1] * n[2] + m[3] * n[3],
+        m[0] * n[4] + m[2] * n[5] + m[4],
+        m[1] * n[4] + m[3] * n[5] + m[5],
+    ];
+}
+
+function apply(m: Matrix, x: number, y: number): { x: number; y: number } {
+    return { x: m[0] * x + m[2] * y + m[4], y: m[1] * x + m[3] * y + m[5] };
+}
+
+/** Uniform scale of a matrix, for lengths such as stroke widths and font sizes. */
+function scaleOf(m: Matrix): number {
+    return Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+}
+
+function parseTransform(value: string | null): Matrix {
+    let m = IDENTITY;
+    if (!value) return m;
+    const re = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+    let match: RegExpExecArray | null;
+    while ((match = re.exec(value))) {
+        const a = parseNumbers(match[2]);
+        let t: Matrix = IDENTITY;
+        switch (match[1]) {
+            case 'matrix':
+                if (a.length === 6) t = a as Matrix;
+                break;
+            case 'translate':
+                t = [1, 0, 0, 1, a[0] ?? 0, a[1] ?? 0];
+                break;
+            case 'scale':
+                t = [a[0] ?? 1, 0, 0, a[1] ?? a[0] ?? 1, 0, 0];
+                break;
+            case 'rotate': {
+                const r = ((a[0] ?? 0) * Math.PI) / 180;
+                const [cx, cy] = [a[1] ?? 0, a[2] ?? 0];
+                t = multiply(
+                    multiply([1, 0, 0, 1, cx, cy], [Math.cos(r), Math.sin(r), -Math.sin(r), Math.cos(r), 0, 0]),
+                    [1, 0, 0, 1, -cx, -cy],
+                );
+                break;
+            }
+            case 'skewX':
+                t = [1, 0, Math.tan(((a[0] ?? 0) * Math.PI) / 180), 1, 0, 0];
+                break;
+            case 'skewY':
+                t = [1, Math.tan(((a[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0];
+                break;
+        }
+        m = multiply(m, t);
+    }
+    return m;
+}
+
+const NUMBER = /[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g;
+
+function parseNumbers(value: string): number[] {
+    return (value.match(NUMBER) ?? []).map(Number);
+}
+
+function firstNumber(value: string | null): number | undefined {
+    if (!value) return undefined;
+    const n = parseFloat(value);
+    return Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * Parse SVG path data into absolute `M`/`L`/`C`/`Z` segments. Horizontal and
+ * vertical lines become `L`, quadratics and arcs become cubics, and the
+ * smooth forms are expanded against the previous control point.
+ */
+export function parsePathData(d: string): VectorPathSegment[] {
+    const tokens = d.match(/[MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g) ?? [];
+    const segments: VectorPathSegment[] = [];
+    let i = 0;
+    let command = '';
+    let x = 0, y = 0, startX = 0, startY = 0;
+    // Reflection point for S/T: the previous segment's last control point.
+    let lastCubic: { x: number; y: number } | null = null;
+    let lastQuad: { x: number; y: number } | null = null;
+
+    const next = (): number => Number(tokens[i++]);
+    const cubic = (x1: number, y1: number, x2: number, y2: number, ex: number, ey: number) => {
+        segments.push({ type: 'C', x1, y1, x2, y2, x: ex, y: ey });
+    };
+
+    while (i < tokens.length) {
+        if (/^[a-zA-Z]$/.test(tokens[i])) command = tokens[i++];
+        else if (!command) { i++; continue; }
+        const rel = command === command.toLowerCase();
+        const ox = rel ? x : 0;
+        const oy = rel ? y : 0;
+        let cubicCtrl: { x: number; y: number } | null = null;
+        let quadCtrl: { x: number; y: number } | null = null;
+
+        switch (command.toUpperCase()) {
+            case 'M': {
+                x = ox + next(); y = oy + next();
+                startX = x; startY = y;
+                segments.push({ type: 'M', x, y });
+                // Further pairs after a moveto are implicit linetos.
+                command = rel ? 'l' : 'L';
+                break;
+            }
+            case 'L':
+                x = ox + next(); y = oy + next();
+                segments.push({ type: 'L', x, y });
+                break;
+            case 'H':
+                x = ox + next();
+                segments.push({ type: 'L', x, y });
+                break;
+            case 'V':
+                y = oy + next();
+                segments.push({ type: 'L', x, y });
+                break;
+            case 'C': {
+                const x1 = ox + next(), y1 = oy + next(), x2 = ox + next(), y2 = oy + next();
+                x = ox + next(); y = oy + next();
+                cubic(x1, y1, x2, y2, x, y);
+                cubicCtrl = { x: x2, y: y2 };
+                break;
+            }
+            case 'S': {
+                const x1 = lastCubic ? 2 * x - lastCubic.x : x;
+                const y1 = lastCubic ? 2 * y - lastCubic.y : y;
+                const x2 = ox + next(), y2 = oy + next();
+                x = ox + next(); y = oy + next();
+                cubic(x1, y1, x2, y2, x, y);
+                cubicCtrl = { x: x2, y: y2 };
+                break;
+            }
+            case 'Q':
+            case 'T': {
+                const smooth = command.toUpperCase() === 'T';
+                const qx: number = smooth ? (lastQuad ? 2 * x - lastQuad.x : x) : ox + next();
+                const qy: number = smooth ? (lastQuad ? 2 * y - lastQuad.y : y) : oy + next();
+                const ex = ox + next(), ey = oy + next();
+                cubic(x + (2 / 3) * (qx - x), y + (2 / 3) * (qy - y),
+                    ex + (2 / 3) * (qx - ex), ey + (2 / 3) * (qy - ey), ex, ey);
+                x = ex; y = ey;
+                quadCtrl = { x: qx, y: qy };
+                break;
+            }
+            case 'A': {
+                const rx = next(), ry = next(), rotation = next(), large = next(), sweep = next();
+                const ex = ox + next(), ey = oy + next();
+                for (const c of arcToCubics(x, y, rx, ry, rotation, large !== 0, sweep !== 0, ex, ey)) {
+                    segments.push(c);
+                }
+                x = ex; y = ey;
+                break;
+            }
+            case 'Z':
+                segments.push({ type: 'Z' });
+                x = startX; y = startY;
+                // Z takes no numbers, so it never repeats implicitly.
+                command = '';
+                break;
+        }
+        lastCubic = cubicCtrl;
+        lastQuad = quadCtrl;
+    }
+    return segments;
+}
+
+/** An SVG elliptical arc as cubic segments, one per quarter turn or less. */
+function arcToCubics(
+    x1: number, y1: number, rx: number, ry: number, rotationDeg: number,
+    large: boolean, sweep: boolean, x2: number, y2: number,
+): VectorPathSegment[] {
+    if (rx === 0 || ry === 0 || (x1 === x2 && y1 === y2)) {
+        return [{ type: 'L', x: x2, y: y2 }];
+    }
+    // Endpoint to center parameterization (SVG 1.1, appendix F.6.5).
+    const phi = (rotationDeg * Math.PI) / 180;
+    const cos = Math.cos(phi), sin = Math.sin(phi);
+    const dx = (x1 - x2) / 2, dy = (y1 - y2) / 2;
+    const x1p = cos * dx + sin * dy;
+    const y1p = -sin * dx + cos * dy;
+    rx = Math.abs(rx); ry = Math.abs(ry);
+    const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+    if (lambda > 1) { rx *= Math.sqrt(lambda); ry *= Math.sqrt(lambda); }
+    const num = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+    const den = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+    const coef = (large === sweep ? -1 : 1) * Math.sqrt(Math.max(0, num / den));
+    const cxp = (coef * rx * y1p) / ry;
+    const cyp = (-coef * ry * x1p) / rx;
+    const cx = cos * cxp - sin * cyp + (x1 + x2) / 2;
+    const cy = sin * cxp + cos * cyp + (y1 + y2) / 2;
+
+    const angle = (ux: number, uy: number, vx: number, vy: number) =>
+        Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+    const theta = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+    let delta = angle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+    if (!sweep && delta > 0) delta -= 2 * Math.PI;
+    if (sweep && delta < 0) delta += 2 * Math.PI;
+
+    const parts = Math.ceil(Math.abs(delta) / (Math.PI / 2));
+    const step = delta / parts;
+    const k = (4 / 3) * Math.tan(step / 4);
+    const point = (t: number) => ({
+        x: cx + rx * Math.cos(t) * cos - ry * Math.sin(t) * sin,
+        y: cy + rx * Math.cos(t) * sin + ry * Math.sin(t) * cos,
+    });
+    const derivative = (t: number) => ({
+        x: -rx * Math.sin(t) * cos - ry * Math.cos(t) * sin,
+        y: -rx * Math.sin(t) * sin + ry * Math.cos(t) * cos,
+    });
+
+    const out: VectorPathSegment[] = [];
+    for (let p = 0; p < parts; p++) {
+        const t1 = theta + p * step, t2 = t1 + step;
+        const a = point(t1), b = point(t2), da = derivative(t1), db = derivative(t2);
+        out.push({
+            type: 'C',
+            x1: a.x + k * da.x, y1: a.y + k * da.y,
+            x2: b.x - k * db.x, y2: b.y - k * db.y,
+            x: b.x, y: b.y,
+        });
+    }
+    // Land exactly on the endpoint the path continues from.
+    const last = out[out.length - 1] as Extract<VectorPathSegment, { type: 'C' }>;
+    last.x = x2; last.y = y2;
+    return out;
+}
+
+function transformSegments(m: Matrix, segments: VectorPathSegment[]): VectorPathSegment[] {
+    return segments.map(s => {
+        if (s.type === 'Z') return s;
+        const p = apply(m, s.x, s.y);
+        if (s.type !== 'C') return { type: s.type, x: p.x, y: p.y };
+        const c1 = apply(m, s.x1, s.y1);
+        const c2 = apply(m, s.x2, s.y2);
+        return { type: 'C', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, x: p.x, y: p.y };
+    });
+}
+
+// ─── Style resolution ──────────────────────────────────────────────────────
+
+/** Inherited paint state, carried down the tree. */
+interface Context {
+    matrix: Matrix;
+    opacity: number;
+    fill: string;
+    fillOpacity: number;
+    stroke: string;
+    strokeOpacity: number;
+    strokeWidth: number;
+    dash: string;
+    color: string;
+    fontSize: number;
+    fontWeight: string;
+    fontStyle: string;
+    fontFamily: string;
+    textAnchor: string;
+    baseline: string;
+}
+
+/**
+ * A property's value on `el`: its inline style, else its computed style (which
+ * carries stylesheet rules), else its presentation attribute. Empty when none
+ * applies, in which case the inherited value is used.
+ */
+function readProperty(el: Element, prop: string): string {
+    const inline = (el as SVGElement).style?.getPropertyValue(prop);
+    if (inline) return inline.trim();
+    const view = el.ownerDocument?.defaultView;
+    const computed = view ? view.getComputedStyle(el).getPropertyValue(prop) : '';
+    if (computed) return computed.trim();
+    return el.getAttribute(prop)?.trim() ?? '';
+}
+
+function length(value: string, fontSize: number): number | undefined {
+    const n = parseFloat(value);
+    if (!Number.isFinite(n)) return undefined;
+    return /em$/.test(value) ? n * fontSize : n;
+}
+
+function inherit(el: Element, parent: Context): Context {
+    const fontSize = length(readProperty(el, 'font-size'), parent.fontSize) ?? parent.fontSize;
+    const opacity = parseFloat(readProperty(el, 'opacity'));
+    return {
+        matrix: multiply(parent.matrix, parseTransform(el.getAttribute('transform'))),
+        opacity: parent.opacity * (Number.isFinite(opacity) ? opacity : 1),
+        fill: readProperty(el, 'fill') || parent.fill,
+        fillOpacity: firstNumber(readProperty(el, 'fill-opacity')) ?? parent.fillOpacity,
+        stroke: readProperty(el, 'stroke') || parent.stroke,
+        strokeOpacity: firstNumber(readProperty(el, 'stroke-opacity')) ?? parent.strokeOpacity,
+        strokeWidth: length(readProperty(el, 'stroke-width'), fontSize) ?? parent.strokeWidth,
+        dash: readProperty(el, 'stroke-dasharray') || parent.dash,
+        color: readProperty(el, 'color') || parent.color,
+        fontSize,
+        fontWeight: readProperty(el, 'font-weight') || parent.fontWeight,
+        fontStyle: readProperty(el, 'font-style') || parent.fontStyle,
+        fontFamily: readProperty(el, 'font-family') || parent.fontFamily,
+        textAnchor: readProperty(el, 'text-anchor') || parent.textAnchor,
+        baseline: readProperty(el, 'dominant-baseline') || parent.baseline,
+    };
+}
+
+function isHidden(el: Element): boolean {
+    const display = readProperty(el, 'display');
+    const visibility = readProperty(el, 'visibility');
+    const opacity = parseFloat(readProperty(el, 'opacity'));
+    return display === 'none' || visibility === 'hidden' || visibility === 'collapse' || opacity === 0;
+}
+
+/** Parse a CSS color; `null` for `none`, fully transparent or unsupported paints. */
+export function parseColor(value: string, alpha = 1): VectorColor | null {
+    if (!value || value === 'none' || value === 'transparent' || value.startsWith('url(')) return null;
+    try {
+        const c = chroma(value);
+        const [r, g, b] = c.rgb();
+        const a = c.alpha() * alpha;
+        return a > 0 ? { r, g, b, a } : null;
+    } catch {
+        return null;
+    }
+}
+
+function paint(ctx: Context): VectorPaint {
+    // `context-stroke` (the arrowhead markers) and `currentColor` resolve
+    // against the element's own stroke and `color`.
+    const resolve = (value: string): string =>
+        value === 'currentColor' || value === 'currentcolor' ? ctx.color
+            : value === 'context-stroke' ? ctx.stroke
+                : value;
+    const dash = parseNumbers(ctx.dash === 'none' ? '' : ctx.dash);
+    const strokeWidth = ctx.strokeWidth * scaleOf(ctx.matrix);
+    const stroke = strokeWidth > 0 ? parseColor(resolve(ctx.stroke), ctx.opacity * ctx.strokeOpacity) : null;
+    return {
+        fill: parseColor(resolve(ctx.fill), ctx.opacity * ctx.fillOpacity),
+        stroke,
+        strokeWidth,
+        dash: dash.length > 0 && dash.some(n => n > 0)
+            ? dash.map(n => n * scaleOf(ctx.matrix))
+            : null,
+    };
+}
+
+function fontFamilyOf(family: string): VectorText['family'] {
+    if (/mono|courier|consolas|menlo/i.test(family)) return 'mono';
+    if (/sans|system-ui|helvetica|arial|hyperlegible|-apple-system|inter\b/i.test(family)) return 'sans';
+    if (/serif|times|georgia/i.test(family)) return 'serif';
+    return 'sans';
+}
+
+// ─── Walk ──────────────────────────────────────────────────────────────────
+
+function attrNumber(el: Element, name: string, fallback = 0): number {
+    return firstNumber(el.getAttribute(name)) ?? fallback;
+}
+
+function pointsToSegments(points: number[], close: boolean): VectorPathSegment[] {
+    const segments: VectorPathSegment[] = [];
+    for (let i = 0; i + 1 < points.length; i += 2) {
+        segments.push({ type: i === 0 ? 'M' : 'L', x: points[i], y: points[i + 1] });
+    }
+    if (close && segments.length > 0) segments.push({ type: 'Z' });
+    return segments;
+}
+
+function hasMarker(el: Element, which: 'marker-start' | 'marker-end'): boolean {
+    const value = readProperty(el, which);
+    return value !== '' && value !== 'none';
+}
+
+function textItem(text: string, x: number, y: number, ctx: Context): VectorText | null {
+    const content = text.replace(/\s+/g, ' ').trim();
+    const color = parseColor(ctx.fill === 'currentColor' ? ctx.color : ctx.fill, ctx.opacity * ctx.fillOpacity);
+    if (!content || !color) return null;
+    const at = apply(ctx.matrix, x, y);
+    const weight = parseInt(ctx.fontWeight, 10);
+    return {
+        kind: 'text',
+        text: content,
+        x: at.x,
+        y: at.y,
+        fontSize: ctx.fontSize * scaleOf(ctx.matrix),
+        bold: ctx.fontWeight === 'bold' || ctx.fontWeight === 'bolder' || weight >= 600,
+        italic: ctx.fontStyle === 'italic' || ctx.fontStyle === 'oblique',
+        family: fontFamilyOf(ctx.fontFamily),
+        anchor: ctx.textAnchor === 'middle' || ctx.textAnchor === 'end' ? ctx.textAnchor : 'start',
+        baseline: /middle|central/.test(ctx.baseline) ? 'middle'
+            : /hanging|text-before-edge/.test(ctx.baseline) ? 'hanging'
+                : 'alphabetic',
+        color,
+    };
+}
+
+/** A `<text>`, one item per `<tspan>` line (or one for the whole element). */
+function textItems(el: Element, ctx: Context): VectorText[] {
+    const items: VectorText[] = [];
+    let cx = attrNumber(el, 'x') + (length(el.getAttribute('dx') ?? '', ctx.fontSize) ?? 0);
+    let cy = attrNumber(el, 'y') + (length(el.getAttribute('dy') ?? '', ctx.fontSize) ?? 0);
+
+    const spans = Array.from(el.children).filter(c => c.tagName.toLowerCase() === 'tspan');
+    if (spans.length === 0) {
+        const item = textItem(el.textContent ?? '', cx, cy, ctx);
+        return item ? [item] : [];
+    }
+    for (const node of Array.from(el.childNodes)) {
+        if (node.nodeType === 3) {
+            const item = textItem(node.textContent ?? '', cx, cy, ctx);
+            if (item) items.push(item);
+            continue;
+        }
+        const span = node as Element;
+        if (span.nodeType !== 1 || span.tagName.toLowerCase() !== 'tspan' || isHidden(span)) continue;
+        const spanCtx = inherit(span, ctx);
+        cx = firstNumber(span.getAttribute('x')) ?? cx;
+        cy = firstNumber(span.getAttribute('y')) ?? cy;
+        cx += length(span.getAttribute('dx') ?? '', spanCtx.fontSize) ?? 0;
+        cy += length(span.getAttribute('dy') ?? '', spanCtx.fontSize) ?? 0;
+        const item = textItem(span.textContent ?? '', cx, cy, spanCtx);
+        if (item) items.push(item);
+    }
+    return items;
+}
+
+/** Place a nested `<svg>` (an inlined icon) by its x/y/size and viewBox. */
+function nestedSvgMatrix(el: Element): Matrix {
+    const x = attrNumber(el, 'x');
+    const y = attrNumber(el, 'y');
+    const viewBox = parseNumbers(el.getAttribute('viewBox') ?? '');
+    if (viewBox.length !== 4 || viewBox[2] <= 0 || viewBox[3] <= 0) {
+        return [1, 0, 0, 1, x, y];
+    }
+    const [vx, vy, vw, vh] = viewBox;
+    const width = attrNumber(el, 'width', vw);
+    const height = attrNumber(el, 'height', vh);
+    if ((el.getAttribute('preserveAspectRatio') ?? '').startsWith('none')) {
+        return [width / vw, 0, 0, height / vh, x - vx * (width / vw), y - vy * (height / vh)];
+    }
+    const s = Math.min(width / vw, height / vh);
+    return [s, 0, 0, s, x + (width - vw * s) / 2 - vx * s, y + (height - vh * s) / 2 - vy * s];
+}
+
+function walk(el: Element, parent: Context, items: VectorItem[]): void {
+    const tag = el.tagName.toLowerCase();
+    if (SKIPPED_TAGS.has(tag) || isHidden(el)) return;
+    const ctx = inherit(el, parent);
+
+    switch (tag) {
+        case 'g':
+        case 'a':
+        case 'switch':
+            for (const child of Array.from(el.children)) walk(child, ctx, items);
+            return;
+        case 'svg': {
+            const inner = { ...ctx, matrix: multiply(ctx.matrix, nestedSvgMatrix(el)) };
+            for (const child of Array.from(el.children)) walk(child, inner, items);
+            return;
+        }
+        case 'rect': {
+            const x = attrNumber(el, 'x'), y = attrNumber(el, 'y');
+            const width = attrNumber(el, 'width'), height = attrNumber(el, 'height');
+            if (width <= 0 || height <= 0) return;
+            const style = paint(ctx);
+            if (!style.fill && !style.stroke) return;
+            const m = ctx.matrix;
+            if (m[1] === 0 && m[2] === 0) {
+                const p = apply(m, x, y);
+                const rx = firstNumber(el.getAttribute('rx')) ?? firstNumber(el.getAttribute('ry')) ?? 0;
+                const ry = firstNumber(el.getAttribute('ry')) ?? rx;
+                items.push({
+                    kind: 'rect',
+                    x: Math.min(p.x, p.x + width * m[0]),
+                    y: Math.min(p.y, p.y + height * m[3]),
+                    width: Math.abs(width * m[0]),
+                    height: Math.abs(height * m[3]),
+                    radius: Math.min(rx * Math.abs(m[0]), ry * Math.abs(m[3]), width / 2, height / 2),
+                    ...style,
+                });
+            } else {
+                items.push({
+                    kind: 'path',
+                    segments: transformSegments(m, pointsToSegments([x, y, x + width, y, x + width, y + height, x, y + height], true)),
+                    arrowStart: false,
+                    arrowEnd: false,
+                    ...style,
+                });
+            }
+            return;
+        }
+        case 'circle':
+        case 'ellipse': {
+            const style = paint(ctx);
+            const r = attrNumber(el, 'r');
+            const rx = tag === 'circle' ? r : attrNumber(el, 'rx');
+            const ry = tag === 'circle' ? r : attrNumber(el, 'ry');
+            if (rx <= 0 || ry <= 0 || (!style.fill && !style.stroke)) return;
+            const c = apply(ctx.matrix, attrNumber(el, 'cx'), attrNumber(el, 'cy'));
+            items.push({
+                kind: 'ellipse',
+                cx: c.x,
+                cy: c.y,
+                rx: rx * Math.hypot(ctx.matrix[0], ctx.matrix[1]),
+                ry: ry * Math.hypot(ctx.matrix[2], ctx.matrix[3]),
+                ...style,
+            });
+            return;
+        }
+        case 'path':
+        case 'line':
+        case 'polyline':
+        case 'polygon': {
+            const local = tag === 'path' ? parsePathData(el.getAttribute('d') ?? '')
+                : tag === 'line' ? pointsToSegments([
+                    attrNumber(el, 'x1'), attrNumber(el, 'y1'), attrNumber(el, 'x2'), attrNumber(el, 'y2'),
+                ], false)
+                    : pointsToSegments(parseNumbers(el.getAttribute('points') ?? ''), tag === 'polygon');
+            if (local.length < 2) return;
+            const style = paint(ctx);
+            const arrowStart = hasMarker(el, 'marker-start');
+            const arrowEnd = hasMarker(el, 'marker-end');
+            if (!style.fill && !style.stroke) return;
+            items.push({
+                kind: 'path',
+                segments: transformSegments(ctx.matrix, local),
+                arrowStart,
+                arrowEnd,
+                ...style,
+            });
+            return;
+        }
+        case 'text':
+            items.push(...textItems(el, ctx));
+            return;
+    }
+}
+
+// ─── Bounds ────────────────────────────────────────────────────────────────
+
+function itemExtent(item: VectorItem): [number, number, number, number] {
+    switch (item.kind) {
+        case 'rect':
+            return [item.x, item.y, item.x + item.width, item.y + item.height];
+        case 'ellipse':
+            return [item.cx - item.rx, item.cy - item.ry, item.cx + item.rx, item.cy + item.ry];
+        case 'path': {
+            const xs: number[] = [];
+            const ys: number[] = [];
+            for (const s of item.segments) {
+                if (s.type === 'Z') continue;
+                xs.push(s.x); ys.push(s.y);
+                if (s.type === 'C') { xs.push(s.x1, s.x2); ys.push(s.y1, s.y2); }
+            }
+            const pad = item.strokeWidth / 2 + (item.arrowStart || item.arrowEnd ? 6 : 0);
+            return [Math.min(...xs) - pad, Math.min(...ys) - pad, Math.max(...xs) + pad, Math.max(...ys) + pad];
+        }
+        case 'text': {
+            const width = estimateTextWidth(item.text, item.fontSize, item.bold);
+            const left = item.anchor === 'middle' ? item.x - width / 2 : item.anchor === 'end' ? item.x - width : item.x;
+            const top = item.baseline === 'middle' ? item.y - item.fontSize / 2
+                : item.baseline === 'hanging' ? item.y
+                    : item.y - item.fontSize * 0.8;
+            return [left, top, left + width, top + item.fontSize];
+        }
+    }
+}
+
+// ─── Entry point ───────────────────────────────────────────────────────────
+
+/**
+ * Walk the drawing under `root` into a scene. `root`'s own transform is not
+ * applied — pass the zoom layer of a graph to get the whole drawing in layout
+ * coordinates, independent of the current pan and zoom.
+ */
+export function extractVectorScene(root: Element, options: VectorSceneOptions = {}): VectorScene {
+    const rootCtx = inherit(root, {
+        matrix: IDENTITY,
+        opacity: 1,
+        fill: 'black',
+        fillOpacity: 1,
+        stroke: 'none',
+        strokeOpacity: 1,
+        strokeWidth: 1,
+        dash: 'none',
+        color: 'black',
+        fontSize: DEFAULT_FONT_SIZE,
+        fontWeight: 'normal',
+        fontStyle: 'normal',
+        fontFamily: 'sans-serif',
+        textAnchor: 'start',
+        baseline: 'alphabetic',
+    });
+    rootCtx.matrix = IDENTITY;
+
+    const items: VectorItem[] = [];
+    for (const child of Array.from(root.children)) walk(child, rootCtx, items);
+
+    const padding = options.padding ?? DEFAULT_PADDING;
+    const extents = items.map(itemExtent).filter(e => e.every(Number.isFinite));
+    const minX = extents.length ? Math.min(...extents.map(e => e[0])) : 0;
+    const minY = extents.length ? Math.min(...extents.map(e => e[1])) : 0;
+    const maxX = extents.length ? Math.max(...extents.map(e => e[2])) : 0;
+    const maxY = extents.length ? Math.max(...extents.map(e => e[3])) : 0;
+
+    return {
+        bounds: {
+            x: minX - padding,
+            y: minY - padding,
+            width: maxX - minX + 2 * padding,
+            height: maxY - minY + 2 * padding,
+        },
+        background: options.background ? parseColor(options.background) : null,
+        items,
+    };
+}
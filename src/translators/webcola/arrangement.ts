@@ -0,0 +1,92 @@
+/**
+ * Arrangements - a viewer's manual layout of a diagram, as a document a host
+ * can save and load again.
+ *
+ * An arrangement records where each node sits, keyed by atom id, and which
+ * nodes are pinned. Ids rather than node order make it survive a changed
+ * instance: atoms that are gone are ignored, and new ones are laid out around
+ * the rest. It is plain JSON, so `JSON.stringify` saves it and
+ * {@link parseArrangement} reads it back.
+ */
+
+import type { TransformInfo } from './webcolatranslator';
+
+/** The arrangement format written by this version. */
+export const ARRANGEMENT_VERSION = 1;
+
+/** Where one node sits, in layout coordinates. */
+export interface ArrangedNode {
+    x: number;
+    y: number;
+    /** Held here on every render, wherever its constraints allow. */
+    pinned?: boolean;
+}
+
+/** A saved arrangement of a diagram. */
+export interface Arrangement {
+    version: typeof ARRANGEMENT_VERSION;
+    /** Node positions by atom id. */
+    nodes: Record<string, ArrangedNode>;
+    /** The pan and zoom it was saved with, if any. */
+    transform?: TransformInfo;
+}
+
+/**
+ * Reads an arrangement from JSON text or an already-parsed object, checking
+ * its shape on the way.
+ *
+ * @throws {Error} When the input is not JSON or not an arrangement this
+ *   version can read.
+ *
+ * @example
+ * ```typescript
+ * localStorage.setItem('arrangement', JSON.stringify(graph.getArrangement()));
+ * await graph.applyArrangement(parseArrangement(localStorage.getItem('arrangement')!));
+ * ```
+ */
+export function parseArrangement(input: unknown): Arrangement {
+    let value = input;
+    if (typeof input === 'string') {
+        try {
+            value = JSON.parse(input);
+        } catch (error) {
+            throw new Error(`Invalid arrangement: not JSON (${(error as Error).message})`);
+        }
+    }
+
+    if (!isRecord(value)) {
+        throw new Error('Invalid arrangement: expected an object');
+    }
+    if (value.version !== ARRANGEMENT_VERSION) {
+        throw new Error(`Invalid arrangement: unsupported version ${JSON.stringify(value.version)} (expected ${ARRANGEMENT_VERSION})`);
+    }
+    if (!isRecord(value.nodes)) {
+        throw new Error('Invalid arrangement: "nodes" must be an object keyed by atom id');
+    }
+
+    const nodes = Object.entries(value.nodes).map(([id, node]): [string, ArrangedNode] => {
+        if (!isRecord(node) || !isFiniteNumber(node.x) || !isFiniteNumber(node.y)) {
+            throw new Error(`Invalid arrangement: node "${id}" needs numeric x and y`);
+        }
+        return [id, node.pinned === true ? { x: node.x, y: node.y, pinned: true } : { x: node.x, y: node.y }];
+    });
+
+    // fromEntries defines own properties, so an atom named `__proto__` stays an atom.
+    const arrangement: Arrangement = { version: ARRANGEMENT_VERSION, nodes: Object.fromEntries(nodes) };
+    if (value.transform !== undefined) {
+        const t = value.transform;
+        if (!isRecord(t) || !isFiniteNumber(t.k) || !isFiniteNumber(t.x) || !isFiniteNumber(t.y)) {
+            throw new Error('Invalid arrangement: "transform" needs numeric k, x and y');
+        }
+        arrangement.transform = { k: t.k, x: t.x, y: t.y };
+    }
+    return arrangement;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
@@ -0,0 +1,188 @@
+import {
+    runLayoutJob,
+    type LayoutJob,
+    type LayoutJobResult,
+    type LayoutWorkerRequest,
+    type LayoutWorkerResponse
+} from './layout-worker';
+import { LayoutCancelledError, type LayoutProgressListener } from '../../layout/progress';
+
+export { LayoutCancelledError };
+
+/**
+ * Where layout jobs run: in a Web Worker, or on the calling thread when
+ * workers are unavailable. Both answer the same {@link LayoutJob} with the
+ * same {@link LayoutJobResult}.
+ */
+export interface LayoutBackend {
+    /** Whether jobs leave the calling thread. */
+    readonly offThread: boolean;
+    /**
+     * Compute one layout.
+     *
+     * @param signal - Aborting it rejects with a {@link LayoutCancelledError}.
+     * @param onProgress - Hears the job's progress, wherever it runs.
+     */
+    layout(job: LayoutJob, signal?: AbortSignal, onProgress?: LayoutProgressListener): Promise<LayoutJobResult>;
+    /** Stop, rejecting outstanding jobs as cancelled. */
+    dispose(): void;
+}
+
+/** Runs jobs on the calling thread, yielding once first so a cancel can land. */
+export class InThreadLayoutBackend implements LayoutBackend {
+    readonly offThread = false;
+    private disposed = false;
+
+    async layout(job: LayoutJob, signal?: AbortSignal, onProgress?: LayoutProgressListener): Promise<LayoutJobResult> {
+        await new Promise(resolve => setTimeout(resolve, 0));
+        if (this.disposed) throw new LayoutCancelledError();
+        return runLayoutJob(job, {
+            signal,
+            onProgress: progress => {
+                if (this.disposed) throw new LayoutCancelledError();
+                onProgress?.(progress);
+            }
+        });
+    }
+
+    dispose(): void {
+        this.disposed = true;
+    }
+}
+
+/** The slice of `Worker` the backend uses. */
+export interface LayoutWorkerPort {
+    postMessage(message: LayoutWorkerRequest): void;
+    addEventListener(type: 'message', listener: (event: { data: LayoutWorkerResponse }) => void): void;
+    addEventListener(type: 'error', listener: (event: unknown) => void): void;
+    terminate(): void;
+}
+
+interface PendingJob {
+    job: LayoutJob;
+    signal?: AbortSignal;
+    onProgress?: LayoutProgressListener;
+    resolve(result: LayoutJobResult): void;
+    reject(error: unknown): void;
+    release(): void;
+}
+
+/**
+ * Runs jobs in a worker speaking the `layout-worker` protocol.
+ *
+ * A worker that fails outright — its script would not load, say — is
+ * abandoned for `fallback`: the jobs it held and every later one run there
+ * instead, so a bad worker URL degrades to in-thread layout, not to no layout.
+ */
+export class WorkerLayoutBackend implements LayoutBackend {
+    private readonly pending = new Map<number, PendingJob>();
+    private nextId = 1;
+    private failed = false;
+
+    constructor(
+        private readonly worker: LayoutWorkerPort,
+        private readonly fallback: LayoutBackend = new InThreadLayoutBackend()
+    ) {
+        worker.addEventListener('message', event => this.receive(event.data));
+        worker.addEventListener('error', () => this.abandonWorker());
+    }
+
+    get offThread(): boolean {
+        return !this.failed;
+    }
+
+    layout(job: LayoutJob, signal?: AbortSignal, onProgress?: LayoutProgressListener): Promise<LayoutJobResult> {
+        if (this.failed) return this.fallback.layout(job, signal, onProgress);
+        if (signal?.aborted) return Promise.reject(new LayoutCancelledError());
+
+        const id = this.nextId++;
+        return new Promise<LayoutJobResult>((resolve, reject) => {
+            const onAbort = () => {
+                this.settle(id)?.reject(new LayoutCancelledError());
+                this.worker.postMessage({ type: 'cancel', id });
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+            this.pending.set(id, {
+                job, signal, onProgress, resolve, reject,
+                release: () => signal?.removeEventListener('abort', onAbort)
+            });
+            this.worker.postMessage({ type: 'layout', id, ...job });
+        });
+    }
+
+    dispose(): void {
+        this.worker.terminate();
+        for (const id of [...this.pending.keys()]) {
+            this.settle(id)?.reject(new LayoutCancelledError());
+        }
+        this.fallback.dispose();
+    }
+
+    private receive(response: LayoutWorkerResponse): void {
+        if (response.type === 'progress') {
+            this.pending.get(response.id)?.onProgress?.(response.progress);
+            return;
+        }
+        const job = this.settle(response.id);
+        if (!job) return; // Cancelled here first.
+        switch (response.type) {
+            case 'result':
+                job.resolve(response.result);
+                break;
+            case 'cancelled':
+                job.reject(new LayoutCancelledError());
+                break;
+            case 'failed':
+                job.reject(new Error(response.message));
+                break;
+        }
+    }
+
+    private settle(id: number): PendingJob | undefined {
+        const job = this.pending.get(id);
+        this.pending.delete(id);
+        job?.release();
+        return job;
+    }
+
+    private abandonWorker(): void {
+        if (this.failed) return;
+        this.failed = true;
+        this.worker.terminate();
+        for (const id of [...this.pending.keys()]) {
+            const job = this.settle(id)!;
+            this.fallback.layout(job.job, job.signal, job.onProgress).then(job.resolve, job.reject);
+        }
+    }
+}
+
+/**
+ * Start a classic worker running `url`. Browsers refuse a cross-origin worker
+ * script — the usual case for a CDN bundle — so that one is loaded through a
+ * same-origin blob that imports it.
+ */
+function startWorker(url: string): Worker {
+    try {
+        return new Worker(url);
+    } catch {
+        const absolute = new URL(url, globalThis.location?.href).href;
+        const shim = new Blob([`importScripts(${JSON.stringify(absolute)});`], { type: 'text/javascript' });
+        return new Worker(URL.createObjectURL(shim));
+    }
+}
+
+/**
+ * A worker-backed backend for the worker script at `workerUrl`, or an
+ * in-thread one when there is no URL, no `Worker` (Node, some embedded
+ * webviews), or the page may not start one at all.
+ */
+export function createLayoutBackend(workerUrl?: string | null): LayoutBackend {
+    if (workerUrl && typeof Worker !== 'undefined') {
+        try {
+            return new WorkerLayoutBackend(startWorker(workerUrl) as unknown as LayoutWorkerPort);
+        } catch {
+            // Fall through to in-thread.
+        }
+    }
+    return new InThreadLayoutBackend();
+}
@@ -0,0 +1,219 @@
+import { JSONDataInstance, type IJsonDataInstance } from '../../data-instance/json-data-instance';
+import type { IDataInstance } from '../../data-instance/interfaces';
+import type IEvaluator from '../../evaluator-contracts';
+import { SGraphQueryEvaluator } from '../../evaluators/data/sgq-evaluator';
+import { solveHeadlessLayout } from '../../evaluation/headless-layout';
+import type { ConstraintError, ErrorMessages } from '../../layout/constraint-types';
+import type { SelectorErrorDetail, LayoutWarning } from '../../layout/error-state';
+import type { InstanceLayout } from '../../layout/interfaces';
+import { LayoutInstance } from '../../layout/layoutinstance';
+import { parseLayoutSpec } from '../../layout/layoutspec';
+import { LayoutCancelledError, LayoutMonitor, type LayoutControl, type LayoutProgress } from '../../layout/progress';
+import type { LayoutState, NodePositionHint } from './webcolatranslator';
+
+/**
+ * The layout worker: generating a layout, validating its constraints and
+ * running the WebCola iterations off the page's main thread.
+ *
+ * A job goes in as plain data — the spec's source text and the datum as
+ * JSON — and comes out as the generated `InstanceLayout` plus solved
+ * positions, which the element renders warm-started from those positions,
+ * so only a few settling iterations are left for the main thread. Everything
+ * crossing the boundary survives structured clone; errors are flattened to
+ * {@link LayoutWorkerError} because an `Error` subclass does not.
+ *
+ * The same job also runs in-thread (see `InThreadLayoutBackend`), so the
+ * result is identical whichever side computed it. Either way a job's
+ * selectors are evaluated by SGraphQueryEvaluator over the JSON datum; a host
+ * with its own evaluator or instance type runs {@link runLayoutJobOn}
+ * in-thread instead, since neither crosses to a worker.
+ */
+
+/** One layout to compute. */
+export interface LayoutJob {
+    /** The layout spec, as YAML source. */
+    spec: string;
+    /** The datum, as a JSONDataInstance reads it (see {@link toLayoutDatum}). */
+    datum: IJsonDataInstance;
+    /** Figure size handed to the translator and solver. */
+    figWidth: number;
+    figHeight: number;
+    /** Positions to warm-start the solve from, e.g. what is on screen now. */
+    priorPositions?: LayoutState;
+    /** Hold nodes without constraints at their prior positions. */
+    lockUnconstrainedNodes?: boolean;
+    /** Nodes the viewer pinned, held where their constraints allow. */
+    pinnedPositions?: NodePositionHint[];
+}
+
+/** A job's settings: everything but the data it lays out. */
+export type LayoutJobSettings = Omit<LayoutJob, 'datum'>;
+
+/** A constraint conflict, flattened for the trip back from the worker. */
+export interface LayoutWorkerError {
+    name: string;
+    type: ConstraintError['type'];
+    message: string;
+    /** The conflict table the error modal renders, when the error has one. */
+    errorMessages?: ErrorMessages;
+}
+
+/** What a job produced: the generateLayout verdict and the solved positions. */
+export interface LayoutJobResult {
+    layout: InstanceLayout;
+    positions: LayoutState;
+    error: LayoutWorkerError | null;
+    selectorErrors: SelectorErrorDetail[];
+    warnings: LayoutWarning[];
+}
+
+/** Messages to the worker. A job is answered once, by id. */
+export type LayoutWorkerRequest =
+    | ({ type: 'layout'; id: number } & LayoutJob)
+    | { type: 'cancel'; id: number };
+
+/** Messages from the worker. `progress` may come any number of times before the answer. */
+export type LayoutWorkerResponse =
+    | { type: 'progress'; id: number; progress: LayoutProgress }
+    | { type: 'result'; id: number; result: LayoutJobResult }
+    | { type: 'cancelled'; id: number }
+    | { type: 'failed'; id: number; message: string };
+
+/**
+ * Any data instance as a {@link LayoutJob} datum. Instances carrying more than
+ * atoms, relations and types (Alloy's skolems, say) arrive as the plain graph.
+ */
+export function toLayoutDatum(instance: IDataInstance): IJsonDataInstance {
+    return {
+        atoms: [...instance.getAtoms()],
+        relations: [...instance.getRelations()],
+        types: [...instance.getTypes()]
+    };
+}
+
+function flattenError(error: ConstraintError): LayoutWorkerError {
+    const errorMessages = (error as { errorMessages?: ErrorMessages }).errorMessages;
+    return {
+        name: error.name,
+        type: error.type,
+        message: error.message,
+        ...(errorMessages ? { errorMessages } : {})
+    };
+}
+
+/**
+ * Run one job: generate the layout, then solve it headlessly.
+ *
+ * @param control - Cancels the job at its checkpoints, and hears its
+ *   progress through every phase.
+ * @throws {LayoutCancelledError} When `control` stops the job.
+ */
+export async function runLayoutJob(job: LayoutJob, control: LayoutControl = {}): Promise<LayoutJobResult> {
+    const { datum, ...settings } = job;
+    const instance = new JSONDataInstance(datum);
+    const evaluator = new SGraphQueryEvaluator();
+    evaluator.initialize({ sourceData: instance });
+    return runLayoutJobOn(instance, evaluator, settings, control);
+}
+
+/**
+ * Run a job over a live instance, with the evaluator the host already uses
+ * for it. Nothing is converted, so selectors answer exactly as they do in
+ * `generateLayout`; this only runs in-thread.
+ *
+ * @param evaluator - Initialized on `instance`.
+ * @throws {LayoutCancelledError} When `control` stops the job.
+ */
+export async function runLayoutJobOn(
+    instance: IDataInstance,
+    evaluator: IEvaluator,
+    job: LayoutJobSettings,
+    control: LayoutControl = {}
+): Promise<LayoutJobResult> {
+    const monitor = new LayoutMonitor(control);
+    monitor.check();
+    const spec = parseLayoutSpec(job.spec);
+    const { layout, error, selectorErrors, warnings } =
+        new LayoutInstance(spec, evaluator, 0, true).generateLayout(instance, monitor.control());
+
+    monitor.report('solve', 0);
+    const { positions } = await solveHeadlessLayout(
+        layout,
+        job.figWidth,
+        job.figHeight,
+        {
+            ...(job.priorPositions
+                ? { priorPositions: job.priorPositions, lockUnconstrainedNodes: job.lockUnconstrainedNodes ?? false }
+                : {}),
+            ...(job.pinnedPositions ? { pinnedPositions: job.pinnedPositions } : {}),
+        }
+    );
+    monitor.report('solve', 100);
+
+    return {
+        layout,
+        positions,
+        error: error ? flattenError(error) : null,
+        selectorErrors,
+        warnings
+    };
+}
+
+/** Let queued messages — a cancel, most usefully — run before the next job. */
+function yieldToEventLoop(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+/**
+ * The worker side of the protocol, as a message handler.
+ *
+ * Jobs run one at a time, in arrival order, each posting its progress as it
+ * goes. A `cancel` for a job still queued drops it; one for the running job
+ * stops it at the next checkpoint it reaches with the event loop free — between
+ * generating and solving. Either way the job is answered `cancelled`.
+ *
+ * @param post - Sends a response back, e.g. the worker's `postMessage`.
+ */
+export function createLayoutWorkerHandler(post: (response: LayoutWorkerResponse) => void): (request: LayoutWorkerRequest) => void {
+    const jobs = new Map<number, AbortController>();
+    let queue: Promise<void> = Promise.resolve();
+
+    const run = async (request: LayoutWorkerRequest & { type: 'layout' }): Promise<void> => {
+        const { type: _type, id, ...job } = request;
+        const signal = jobs.get(id)!.signal;
+        try {
+            const result = await runLayoutJob(job, {
+                signal,
+                onProgress: progress => post({ type: 'progress', id, progress })
+            });
+            post({ type: 'result', id, result });
+        } catch (error) {
+            post(error instanceof LayoutCancelledError
+                ? { type: 'cancelled', id }
+                : { type: 'failed', id, message: error instanceof Error ? error.message : String(error) });
+        } finally {
+            jobs.delete(id);
+        }
+    };
+
+    return (request) => {
+        if (request.type === 'cancel') {
+            jobs.get(request.id)?.abort();
+            return;
+        }
+        jobs.set(request.id, new AbortController());
+        queue = queue.then(yieldToEventLoop).then(() => run(request));
+    };
+}
+
+/** The slice of a worker's global scope the handler needs. */
+export interface LayoutWorkerScope {
+    postMessage(message: LayoutWorkerResponse): void;
+    addEventListener(type: 'message', listener: (event: { data: LayoutWorkerRequest }) => void): void;
+}
+
+/** Answer layout requests arriving at `scope` — a dedicated worker's `self`. */
+export function installLayoutWorker(scope: LayoutWorkerScope): void {
+    const handle = createLayoutWorkerHandler(response => scope.postMessage(response));
+    scope.addEventListener('message', event => handle(event.data));
+}
@@ -0,0 +1,62 @@
+/**
+ * Node search - finds drawn atoms by what the diagram shows of them, or by a
+ * selector.
+ *
+ * Text search matches case-insensitively anywhere in a node's label, its
+ * types, and the values of its attributes and labels (Skolems), which is
+ * everything a reader can see on the node. Selector search hands the query to
+ * an evaluator and takes every atom of every selected tuple, so a binary
+ * selector finds both ends of each pair.
+ *
+ * Both return ids in the order of the nodes given, which is the order the
+ * search control cycles through them.
+ */
+
+import type IEvaluator from '../../evaluator-contracts';
+
+/** The parts of a node the text search reads. `LayoutNode` has them all. */
+export interface SearchableNode {
+    id: string;
+    label?: string;
+    types?: string[];
+    attributes?: Record<string, string[]>;
+    labels?: Record<string, string[]>;
+}
+
+/** Ids of the nodes whose label, types, or attribute or label values contain `query`. */
+export function matchNodesByText(nodes: readonly SearchableNode[], query: string): string[] {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return [];
+
+    const contains = (text: string | undefined) => !!text && text.toLowerCase().includes(needle);
+    const anyValue = (record: Record<string, string[]> | undefined) =>
+        !!record && Object.values(record).some(values => values.some(contains));
+
+    return nodes
+        .filter(node => contains(node.label)
+            || (node.types ?? []).some(contains)
+            || anyValue(node.attributes)
+            || anyValue(node.labels))
+        .map(node => node.id);
+}
+
+/**
+ * Ids of the `nodes` that `selector` selects under `evaluator`.
+ *
+ * @throws {Error} When the selector does not evaluate.
+ */
+export function matchNodesBySelector(
+    nodes: readonly SearchableNode[],
+    selector: string,
+    evaluator: IEvaluator,
+): string[] {
+    const expression = selector.trim();
+    if (!expression) return [];
+
+    const result = evaluator.evaluate(expression);
+    if (result.isError()) {
+        throw new Error(`Selector "${expression}" did not evaluate: ${result.prettyPrint()}`);
+    }
+    const selected = new Set(result.selectedTuplesAll().flat());
+    return nodes.filter(node => selected.has(node.id)).map(node => node.id);
+}
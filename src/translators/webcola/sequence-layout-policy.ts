@@ -0,0 +1,250 @@
+/**
+ * Whole-sequence layout policies.
+ *
+ * A `SequencePolicy` is pairwise: it sees the previous frame's positions
+ * and the previous and current instances, nothing more. Over a long trace
+ * the warm-start compounds — each frame inherits the last frame's solver
+ * drift — and a frame cannot make room for atoms that only appear later.
+ *
+ * A `SequenceLayoutPolicy` instead receives every instance up front and
+ * returns a `SequenceLayoutPlan`: one `SequencePolicyResult` per frame,
+ * in the same shape a pairwise policy returns for one transition, so a
+ * frame is laid out exactly as it would be under a pairwise policy — only
+ * the seed differs. Because a plan is computed before any frame is drawn,
+ * frames can also be shown out of order without losing consistency.
+ *
+ * **Research framing.** Relative to the warm-start factor in
+ * `sequence-policy.ts`, a whole-sequence policy is the "foresight" level:
+ * the seed for every frame comes from one layout of the whole trace
+ * rather than from the frame before. Evaluate it with
+ * `runHeadlessSequence` and the consistency metrics exactly as the
+ * pairwise levels are evaluated.
+ */
+
+import type { LayoutState } from './webcolatranslator';
+import type { SequencePolicyResult } from './sequence-policy';
+import type { IAtom, IDataInstance, IRelation, IType } from '../../data-instance/interfaces';
+import { JSONDataInstance } from '../../data-instance/json-data-instance';
+import type { LayoutSpec } from '../../layout/layoutspec';
+import type { ConstraintError } from '../../layout/constraint-types';
+
+// ---------------------------------------------------------------------------
+// Sequence layout policy interface
+// ---------------------------------------------------------------------------
+
+/**
+ * Context provided to a whole-sequence policy.
+ */
+export interface SequenceLayoutPolicyContext {
+  /** Every instance of the sequence, in order */
+  instances: readonly IDataInstance[];
+  /** Parsed layout specification */
+  spec: LayoutSpec;
+  /**
+   * Lay out one instance under `spec`, optionally warm-started from
+   * `priorState`, and return the post-solver positions. Supplied by the
+   * caller — headlessly by `runHeadlessSequence` — so policies stay free
+   * of any particular solver setup.
+   *
+   * Rejects with an {@link UnsatisfiableLayoutError} when the instance's
+   * constraints cannot all hold: the layout it would otherwise return has
+   * dropped some of them.
+   */
+  solve(instance: IDataInstance, priorState?: LayoutState): Promise<LayoutState>;
+}
+
+/**
+ * What `solve` rejects with when an instance's constraints cannot all be
+ * satisfied.
+ */
+export class UnsatisfiableLayoutError extends Error {
+  constructor(readonly constraintError: ConstraintError) {
+    super(constraintError.message);
+    this.name = 'UnsatisfiableLayoutError';
+  }
+}
+
+/**
+ * Result of planning a sequence.
+ */
+export interface SequenceLayoutPlan {
+  /**
+   * Positions for every atom that appears anywhere in the sequence, or
+   * `undefined` for a policy that does not lay out a super-graph.
+   */
+  superGraph: LayoutState | undefined;
+  /** How to lay out each frame, indexed like `instances` */
+  frames: SequencePolicyResult[];
+  /**
+   * Why a policy that lays out a super-graph planned without one: the
+   * frames' constraints contradict each other, so no one layout holds
+   * them all. `frames` is then the policy's fallback plan.
+   */
+  superGraphError?: UnsatisfiableLayoutError;
+}
+
+/**
+ * A whole-sequence layout policy. Receives every instance before any is
+ * laid out and decides how each frame's solver is seeded.
+ *
+ * New policies can be added by implementing this interface and
+ * registering them with `registerSequenceLayoutPolicy`.
+ */
+export interface SequenceLayoutPolicy {
+  /** Human-readable policy name, used for serialization and debugging */
+  readonly name: string;
+  /** Compute every frame's solver seed */
+  plan(context: SequenceLayoutPolicyContext): Promise<SequenceLayoutPlan>;
+}
+
+// ---------------------------------------------------------------------------
+// Super-graph construction
+// ---------------------------------------------------------------------------
+
+/**
+ * The union of a sequence's instances: every atom and every tuple that
+ * appears in any frame. An atom is identified by its id across frames;
+ * where frames disagree on its type or label, the first frame it appears
+ * in wins.
+ */
+export function buildSuperGraph(instances: readonly IDataInstance[]): IDataInstance {
+  const atoms = new Map<string, IAtom>();
+  const types = new Map<string, IType>();
+  const relations = new Map<string, { relation: IRelation; seen: Set<string> }>();
+
+  for (const instance of instances) {
+    for (const atom of instance.getAtoms()) {
+      if (!atoms.has(atom.id)) atoms.set(atom.id, atom);
+    }
+    for (const type of instance.getTypes()) {
+      if (!types.has(type.id)) types.set(type.id, type);
+    }
+    for (const relation of instance.getRelations()) {
+      let entry = relations.get(relation.name);
+      if (!entry) {
+        entry = { relation: { ...relation, tuples: [] }, seen: new Set() };
+        relations.set(relation.name, entry);
+      }
+      for (const tuple of relation.tuples) {
+        const key = tuple.atoms.join('\u0000');
+        if (entry.seen.has(key)) continue;
+        entry.seen.add(key);
+        entry.relation.tuples.push(tuple);
+      }
+    }
+  }
+
+  const atomList = [...atoms.values()];
+  return new JSONDataInstance({
+    atoms: atomList,
+    relations: [...relations.values()].map(entry => entry.relation),
+    types: [...types.values()].map(type => ({
+      ...type,
+      atoms: atomList.filter(atom => atom.type === type.id),
+    })),
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Built-in policies
+// ---------------------------------------------------------------------------
+
+/**
+ * Foresighted layout: lay out the super-graph of the whole sequence once,
+ * then seed every frame with the super-graph positions of its own atoms.
+ *
+ * An atom therefore starts from the same place in every frame it appears
+ * in, however far apart those frames are, and an atom that appears late
+ * already has space reserved for it in earlier frames. Hard constraints
+ * are still solved per frame, so a frame's positions only move off the
+ * super-graph where that frame's constraints require it.
+ *
+ * When the frames' constraints contradict each other — one orders A before
+ * B, a later one B before A — the super-graph has no layout that respects
+ * them all, and seeding from one that drops some would mislead every frame.
+ * The plan then falls back to frame by frame: each frame is seeded from the
+ * solved frame before it, and `superGraphError` says why.
+ *
+ * After Diehl, Görg & Kerren, "Preserving the Mental Map using
+ * Foresighted Layout" (VisSym 2001).
+ */
+export const foresighted: SequenceLayoutPolicy = {
+  name: 'foresighted',
+  plan: async ({ instances, solve }) => {
+    if (instances.length === 0) {
+      return { superGraph: undefined, frames: [] };
+    }
+
+    let superGraph: LayoutState;
+    try {
+      superGraph = await solve(buildSuperGraph(instances));
+    } catch (error) {
+      if (!(error instanceof UnsatisfiableLayoutError)) throw error;
+      return { superGraph: undefined, frames: await planFrameByFrame(instances, solve), superGraphError: error };
+    }
+    const positionById = new Map(superGraph.positions.map(position => [position.id, position]));
+
+    const frames = instances.map(instance => ({
+      effectivePriorState: {
+        positions: instance.getAtoms()
+          .map(atom => positionById.get(atom.id))
+          .filter((position): position is { id: string; x: number; y: number } => Boolean(position))
+          .map(position => ({ ...position })),
+        transform: { ...superGraph.transform },
+      },
+      useReducedIterations: true,
+    }));
+
+    return { superGraph, frames };
+  },
+};
+
+/**
+ * Seed each frame from the solved frame before it. A frame that is
+ * unsatisfiable on its own passes on the seed it was given.
+ */
+async function planFrameByFrame(
+  instances: readonly IDataInstance[],
+  solve: SequenceLayoutPolicyContext['solve']
+): Promise<SequencePolicyResult[]> {
+  const frames: SequencePolicyResult[] = [];
+  let prior: LayoutState | undefined;
+  for (const [index, instance] of instances.entries()) {
+    frames.push(prior
+      ? {
+        effectivePriorState: { positions: prior.positions.map(p => ({ ...p })), transform: { ...prior.transform } },
+        useReducedIterations: true,
+      }
+      : { effectivePriorState: undefined, useReducedIterations: false });
+    if (index === instances.length - 1) break;
+    try {
+      prior = await solve(instance, prior);
+    } catch (error) {
+      if (!(error instanceof UnsatisfiableLayoutError)) throw error;
+    }
+  }
+  return frames;
+}
+
+// ---------------------------------------------------------------------------
+// Policy registry
+// ---------------------------------------------------------------------------
+
+const layoutPolicyRegistry = new Map<string, SequenceLayoutPolicy>([
+  ['foresighted', foresighted],
+]);
+
+/**
+ * Look up a whole-sequence policy by name. Returns `undefined` for
+ * unrecognized names, so callers can fall back to a pairwise policy.
+ */
+export function getSequenceLayoutPolicy(name: string): SequenceLayoutPolicy | undefined {
+  return layoutPolicyRegistry.get(name);
+}
+
+/**
+ * Register a custom whole-sequence policy.
+ */
+export function registerSequenceLayoutPolicy(policy: SequenceLayoutPolicy): void {
+  layoutPolicyRegistry.set(policy.name, policy);
+}
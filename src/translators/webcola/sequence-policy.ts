@@ -36,6 +36,7 @@
 
 import type { LayoutState } from './webcolatranslator';
 import type { IDataInstance } from '../../data-instance/interfaces';
+import { buildEdgeFingerprints, diffInstances, fingerprintKey } from '../../data-instance/instance-diff';
 import type { LayoutSpec } from '../../layout/layoutspec';
 
 // ---------------------------------------------------------------------------
@@ -104,43 +105,10 @@ export interface SequencePolicy {
 
 
 // ---------------------------------------------------------------------------
-// Instance diffing (internal to change_emphasis)
+// Instance diffing (internal to change_emphasis; the changed set comes from
+// diffInstances)
 // ---------------------------------------------------------------------------
 
-/**
- * Build a per-atom connectivity fingerprint from a data instance.
- *
- * For each atom the fingerprint is the sorted set of edge descriptors
- * (`"relationName:a0->a1->..."`) for every tuple the atom participates in.
- */
-function buildEdgeFingerprints(instance: IDataInstance): Map<string, Set<string>> {
-  const fingerprints = new Map<string, Set<string>>();
-
-  for (const atom of instance.getAtoms()) {
-    fingerprints.set(atom.id, new Set());
-  }
-
-  for (const relation of instance.getRelations()) {
-    for (const tuple of relation.tuples) {
-      const descriptor = `${relation.name}:${tuple.atoms.join('->')}`;
-      for (const atomId of tuple.atoms) {
-        let set = fingerprints.get(atomId);
-        if (!set) {
-          set = new Set();
-          fingerprints.set(atomId, set);
-        }
-        set.add(descriptor);
-      }
-    }
-  }
-
-  return fingerprints;
-}
-
-function fingerprintKey(s: Set<string>): string {
-  return [...s].sort().join('\n');
-}
-
 function symmetricDifferenceSize(a: Set<string>, b: Set<string>): number {
   let count = 0;
   for (const value of a) {
@@ -187,46 +155,47 @@ function computeRemovedNeighborLoss(prev: IDataInstance, curr: IDataInstance): M
 /**
  * Analyze per-node change between two adjacent instances.
  *
- * A node is "changed" if it is new, removed, or its incident tuples differ.
- * Intensity is based on tuple symmetric-difference size to scale emphasis.
+ * The changed set is `diffInstances`' added, removed and
+ * `connectivityChanged` atoms. Intensity is based on tuple
+ * symmetric-difference size to scale emphasis.
  */
 function analyzeNodeChanges(
   prev: IDataInstance,
   curr: IDataInstance
 ): NodeChangeDetails {
+  const diff = diffInstances(prev, curr);
   const prevFP = buildEdgeFingerprints(prev);
   const currFP = buildEdgeFingerprints(curr);
   const changedIds = new Set<string>();
   const intensityById = new Map<string, number>();
   const signatureById = new Map<string, string>();
   const removedNeighborLoss = computeRemovedNeighborLoss(prev, curr);
+  const empty = new Set<string>();
 
-  for (const [atomId, currSet] of currFP) {
-    const prevSet = prevFP.get(atomId);
-    if (!prevSet) {
-      changedIds.add(atomId);
-      intensityById.set(atomId, Math.max(1, currSet.size));
-      signatureById.set(atomId, `new|${fingerprintKey(currSet)}`);
-      continue;
-    }
+  for (const atom of diff.addedAtoms) {
+    const currSet = currFP.get(atom.id) ?? empty;
+    changedIds.add(atom.id);
+    intensityById.set(atom.id, Math.max(1, currSet.size));
+    signatureById.set(atom.id, `new|${fingerprintKey(currSet)}`);
+  }
 
+  for (const atomId of diff.connectivityChanged) {
+    const prevSet = prevFP.get(atomId) ?? empty;
+    const currSet = currFP.get(atomId) ?? empty;
     const prevKey = fingerprintKey(prevSet);
     const currKey = fingerprintKey(currSet);
-    if (prevKey !== currKey) {
-      changedIds.add(atomId);
-      const diffIntensity = Math.max(1, symmetricDifferenceSize(prevSet, currSet));
-      const removedLoss = removedNeighborLoss.get(atomId) ?? 0;
-      intensityById.set(atomId, diffIntensity + removedLoss);
-      signatureById.set(atomId, `diff|${prevKey}|${currKey}|removed_loss:${removedLoss}`);
-    }
+    const diffIntensity = Math.max(1, symmetricDifferenceSize(prevSet, currSet));
+    const removedLoss = removedNeighborLoss.get(atomId) ?? 0;
+    changedIds.add(atomId);
+    intensityById.set(atomId, diffIntensity + removedLoss);
+    signatureById.set(atomId, `diff|${prevKey}|${currKey}|removed_loss:${removedLoss}`);
   }
 
-  for (const [atomId, prevSet] of prevFP) {
-    if (!currFP.has(atomId)) {
-      changedIds.add(atomId);
-      intensityById.set(atomId, Math.max(1, prevSet.size));
-      signatureById.set(atomId, `removed|${fingerprintKey(prevSet)}`);
-    }
+  for (const atom of diff.removedAtoms) {
+    const prevSet = prevFP.get(atom.id) ?? empty;
+    changedIds.add(atom.id);
+    intensityById.set(atom.id, Math.max(1, prevSet.size));
+    signatureById.set(atom.id, `removed|${fingerprintKey(prevSet)}`);
   }
 
   return { changedIds, intensityById, signatureById };
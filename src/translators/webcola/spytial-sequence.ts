@@ -0,0 +1,407 @@
+import { WebColaCnDGraph } from './webcola-cnd-graph';
+import { getSequencePolicy, type SequencePolicy } from './sequence-policy';
+import type { LayoutState, WebColaLayoutOptions } from './webcolatranslator';
+import type { IDataInstance } from '../../data-instance/interfaces';
+import type { InstanceLayout } from '../../layout/interfaces';
+
+/**
+ * The steps of a `<spytial-sequence>`, produced on demand. An `InstanceTrace`
+ * is one as it stands.
+ */
+export interface SequenceSource {
+  readonly length: number;
+  getStep(index: number): IDataInstance | Promise<IDataInstance>;
+  /**
+   * The step after `index`, or undefined at the end — when that is not
+   * simply `index + 1` (an `InstanceTrace` follows its loop).
+   */
+  next?(index: number): number | undefined;
+}
+
+/** Lays out one step — typically `LayoutInstance.generateLayout(instance).layout`. */
+export type SequenceLayoutProvider = (instance: IDataInstance, index: number) => InstanceLayout | Promise<InstanceLayout>;
+
+const DEFAULT_POLICY = 'stability';
+const DEFAULT_INTERVAL_MS = 1000;
+
+/**
+ * Sequence Custom Element
+ * Extends WebColaCnDGraph with a timeline for a sequence of instances.
+ *
+ * Features:
+ * - Play/pause, first/previous/next/last and a scrubber, with keyboard
+ *   support: ←/→ step, Home/End jump, Space plays or pauses
+ * - Steps are fetched and laid out only when first shown
+ * - Each shown step's `LayoutState` is kept, and every step is drawn
+ *   continuing from the nearest one shown before — the previous step when
+ *   stepping, and the closest visited step when jumping — through the
+ *   sequence policy, so the mental map survives a jump as well as a step.
+ *   A step shown before comes back where it was left, drags included.
+ *
+ * Attributes:
+ * - policy: Sequence policy name, looked up with getSequencePolicy (default: stability)
+ * - interval: Milliseconds per step while playing (default: 1000)
+ *
+ * Events Fired (in addition to WebColaCnDGraph events):
+ * - 'step-change': When a step has been drawn
+ *   * event.detail: { index: number, instance: IDataInstance }
+ * - 'playback-change': When playback starts or stops
+ *   * event.detail: { playing: boolean }
+ *
+ * @example
+ * ```typescript
+ * const sequence = document.querySelector('spytial-sequence');
+ * await sequence.setSequence(createTlaTrace(parseItfTrace(itf)), instance => {
+ *   const evaluator = new SGraphQueryEvaluator();
+ *   evaluator.initialize({ sourceData: instance });
+ *   return new LayoutInstance(spec, evaluator).generateLayout(instance).layout;
+ * });
+ * ```
+ */
+export class SpytialSequence extends WebColaCnDGraph {
+  private source: SequenceSource | null = null;
+  private layoutFor: SequenceLayoutProvider | null = null;
+  private readonly instances = new Map<number, IDataInstance>();
+  private readonly layouts = new Map<number, InstanceLayout>();
+  private readonly states = new Map<number, LayoutState>();
+  private currentIndex = -1;
+  /** Bumped by every navigation; one that finds it moved on has been superseded. */
+  private navigation = 0;
+  private playTimer: ReturnType<typeof setTimeout> | null = null;
+  private isPlaying = false;
+
+  constructor() {
+    super();
+    this.initializeSequenceControls();
+    this.addEventListener('keydown', this.handleSequenceKeydown);
+  }
+
+  connectedCallback(): void {
+    // Focusable so the arrow keys reach the timeline; attributes can't be
+    // set from a custom element's constructor.
+    if (!this.hasAttribute('tabindex')) {
+      this.setAttribute('tabindex', '0');
+    }
+  }
+
+  static get observedAttributes(): string[] {
+    return [...WebColaCnDGraph.observedAttributes, 'policy', 'interval'];
+  }
+
+  attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null): void {
+    if (name === 'policy' || name === 'interval') return;
+    super.attributeChangedCallback(name, oldValue, newValue);
+  }
+
+  disconnectedCallback(): void {
+    this.pause();
+    super.disconnectedCallback();
+  }
+
+  // ── Public API ───────────────────────────────────────────────────────
+
+  /** The policy named by the `policy` attribute. */
+  get policy(): SequencePolicy {
+    return getSequencePolicy(this.getAttribute('policy') || DEFAULT_POLICY);
+  }
+
+  /** The step on screen, or -1 before the first is drawn. */
+  get index(): number {
+    return this.currentIndex;
+  }
+
+  /** The number of steps. */
+  get length(): number {
+    return this.source?.length ?? 0;
+  }
+
+  get playing(): boolean {
+    return this.isPlaying;
+  }
+
+  /**
+   * Show a sequence, replacing any before it, starting at step `start`.
+   *
+   * @param steps - The instances, or a {@link SequenceSource} producing them.
+   * @param layoutFor - Lays out each step the first time it is shown.
+   */
+  public async setSequence(
+    steps: readonly IDataInstance[] | SequenceSource,
+    layoutFor: SequenceLayoutProvider,
+    start = 0
+  ): Promise<void> {
+    this.pause();
+    this.navigation++;
+    this.source = isSequenceSource(steps) ? steps : { length: steps.length, getStep: i => steps[i] };
+    this.layoutFor = layoutFor;
+    this.instances.clear();
+    this.layouts.clear();
+    this.states.clear();
+    this.currentIndex = -1;
+    this.updateSequenceControls();
+    if (this.source.length > 0) {
+      await this.goTo(start);
+    }
+  }
+
+  /**
+   * Show step `index`, continuing from the nearest step shown before.
+   * @throws {RangeError} If there is no such step.
+   */
+  public async goTo(index: number): Promise<void> {
+    const source = this.source;
+    if (!source || !this.layoutFor) {
+      throw new Error('No sequence to show: call setSequence() first.');
+    }
+    if (!Number.isInteger(index) || index < 0 || index >= source.length) {
+      throw new RangeError(`Sequence step ${index} is out of range (0–${source.length - 1}).`);
+    }
+    const navigation = ++this.navigation;
+    if (this.currentIndex >= 0) {
+      // Keep what the user did to the step being left: drags, zoom.
+      this.states.set(this.currentIndex, this.getLayoutState());
+    }
+
+    const instance = await this.instanceAt(index);
+    const layout = await this.layoutAt(instance, index);
+    const anchor = this.anchorFor(index);
+    const options: WebColaLayoutOptions | undefined = anchor === undefined ? undefined : {
+      policy: this.policy,
+      prevInstance: await this.instanceAt(anchor),
+      currInstance: instance,
+      priorPositions: this.states.get(anchor),
+    };
+    if (navigation !== this.navigation) return;
+
+    await this.renderLayout(layout, options);
+    if (navigation !== this.navigation) return;
+
+    this.states.set(index, this.getLayoutState());
+    this.currentIndex = index;
+    this.updateSequenceControls();
+    this.dispatchEvent(new CustomEvent('step-change', { detail: { index, instance } }));
+  }
+
+  /** Show the next step; false, and playback stops, at the end. */
+  public async next(): Promise<boolean> {
+    const to = this.nextIndex();
+    if (to === undefined) {
+      this.pause();
+      return false;
+    }
+    await this.goTo(to);
+    return true;
+  }
+
+  /** Show the previous step; false at the first. */
+  public async previous(): Promise<boolean> {
+    if (this.currentIndex <= 0) return false;
+    await this.goTo(this.currentIndex - 1);
+    return true;
+  }
+
+  /** Step forward every `interval` milliseconds until the end. */
+  public play(): void {
+    if (this.isPlaying || !this.source) return;
+    this.isPlaying = true;
+    this.updateSequenceControls();
+    this.dispatchEvent(new CustomEvent('playback-change', { detail: { playing: true } }));
+    this.scheduleNextStep();
+  }
+
+  public pause(): void {
+    if (this.playTimer !== null) {
+      clearTimeout(this.playTimer);
+      this.playTimer = null;
+    }
+    if (!this.isPlaying) return;
+    this.isPlaying = false;
+    this.updateSequenceControls();
+    this.dispatchEvent(new CustomEvent('playback-change', { detail: { playing: false } }));
+  }
+
+  // ── Stepping ─────────────────────────────────────────────────────────
+
+  private nextIndex(): number | undefined {
+    const source = this.source;
+    if (!source || this.currentIndex < 0) return undefined;
+    if (source.next) return source.next(this.currentIndex);
+    return this.currentIndex + 1 < source.length ? this.currentIndex + 1 : undefined;
+  }
+
+  private scheduleNextStep(): void {
+    const interval = Number(this.getAttribute('interval'));
+    this.playTimer = setTimeout(() => {
+      this.playTimer = null;
+      this.next()
+        .then(moved => {
+          if (moved && this.isPlaying) this.scheduleNextStep();
+        })
+        .catch(error => {
+          console.error('Error playing sequence:', error);
+          this.pause();
+        });
+    }, Number.isFinite(interval) && interval > 0 ? interval : DEFAULT_INTERVAL_MS);
+  }
+
+  private async instanceAt(index: number): Promise<IDataInstance> {
+    let instance = this.instances.get(index);
+    if (!instance) {
+      instance = await this.source!.getStep(index);
+      this.instances.set(index, instance);
+    }
+    return instance;
+  }
+
+  private async layoutAt(instance: IDataInstance, index: number): Promise<InstanceLayout> {
+    let layout = this.layouts.get(index);
+    if (!layout) {
+      layout = await this.layoutFor!(instance, index);
+      this.layouts.set(index, layout);
+    }
+    return layout;
+  }
+
+  /**
+   * The shown step to continue from: `index` itself if it was shown, else the
+   * closest — the one on screen winning a tie.
+   */
+  private anchorFor(index: number): number | undefined {
+    let best: number | undefined;
+    for (const shown of this.states.keys()) {
+      const distance = Math.abs(shown - index);
+      const bestDistance = best === undefined ? Infinity : Math.abs(best - index);
+      if (distance < bestDistance || (distance === bestDistance && shown === this.currentIndex)) {
+        best = shown;
+      }
+    }
+    return best;
+  }
+
+  // ── Controls ─────────────────────────────────────────────────────────
+
+  private initializeSequenceControls(): void {
+    const shell = this.shadowRoot?.querySelector('#graph-shell') ?? this.shadowRoot;
+    if (!shell) return;
+
+    const style = document.createElement('style');
+    style.textContent = `
+      #sequence-controls {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        padding: 6px 8px;
+        border-top: 1px solid var(--cnd-toolbar-border, #ddd);
+        font-size: 12px;
+      }
+      #sequence-controls button {
+        min-width: 28px;
+        padding: 2px 6px;
+        cursor: pointer;
+      }
+      #sequence-controls button:disabled { cursor: default; opacity: 0.4; }
+      #seq-scrubber { flex: 1; }
+      #seq-position { min-width: 4em; text-align: right; font-variant-numeric: tabular-nums; }
+    `;
+
+    const controls = document.createElement('div');
+    controls.id = 'sequence-controls';
+    controls.setAttribute('role', 'group');
+    controls.setAttribute('aria-label', 'Sequence');
+    controls.innerHTML = `
+      <button id="seq-first" type="button" title="First step" aria-label="First step">⏮</button>
+      <button id="seq-prev" type="button" title="Previous step" aria-label="Previous step">⏴</button>
+      <button id="seq-play" type="button" title="Play" aria-label="Play" aria-pressed="false">▶</button>
+      <button id="seq-next" type="button" title="Next step" aria-label="Next step">⏵</button>
+      <button id="seq-last" type="button" title="Last step" aria-label="Last step">⏭</button>
+      <input id="seq-scrubber" type="range" min="0" max="0" value="0" step="1" aria-label="Step">
+      <output id="seq-position" aria-live="polite">0 / 0</output>
+    `;
+    shell.appendChild(style);
+    shell.appendChild(controls);
+
+    const on = (id: string, event: string, handler: () => Promise<unknown> | void) => {
+      controls.querySelector(`#${id}`)?.addEventListener(event, () => {
+        Promise.resolve(handler()).catch(error => console.error('Error navigating sequence:', error));
+      });
+    };
+    on('seq-first', 'click', () => this.goTo(0));
+    on('seq-prev', 'click', () => this.previous());
+    on('seq-play', 'click', () => (this.isPlaying ? this.pause() : this.play()));
+    on('seq-next', 'click', () => this.next());
+    on('seq-last', 'click', () => this.goTo(this.length - 1));
+    on('seq-scrubber', 'input', () => {
+      const scrubber = controls.querySelector('#seq-scrubber') as HTMLInputElement;
+      return this.goTo(Number(scrubber.value));
+    });
+  }
+
+  private updateSequenceControls(): void {
+    const root = this.shadowRoot;
+    if (!root) return;
+    const length = this.length;
+    const index = this.currentIndex;
+
+    const scrubber = root.querySelector('#seq-scrubber') as HTMLInputElement | null;
+    if (scrubber) {
+      scrubber.max = String(Math.max(0, length - 1));
+      scrubber.value = String(Math.max(0, index));
+      scrubber.disabled = length === 0;
+      scrubber.setAttribute('aria-valuetext', `Step ${index + 1} of ${length}`);
+    }
+    const position = root.querySelector('#seq-position');
+    if (position) {
+      position.textContent = `${index + 1} / ${length}`;
+    }
+    const play = root.querySelector('#seq-play') as HTMLButtonElement | null;
+    if (play) {
+      play.textContent = this.isPlaying ? '⏸' : '▶';
+      play.title = this.isPlaying ? 'Pause' : 'Play';
+      play.setAttribute('aria-label', play.title);
+      play.setAttribute('aria-pressed', String(this.isPlaying));
+      play.disabled = length === 0;
+    }
+    const atStart = index <= 0;
+    const atEnd = this.nextIndex() === undefined;
+    for (const [id, disabled] of [['seq-first', atStart], ['seq-prev', atStart], ['seq-next', atEnd], ['seq-last', index >= length - 1]] as const) {
+      const button = root.querySelector(`#${id}`) as HTMLButtonElement | null;
+      if (button) button.disabled = disabled;
+    }
+  }
+
+  private readonly handleSequenceKeydown = (event: KeyboardEvent): void => {
+    if (!this.source || event.metaKey || event.ctrlKey || event.altKey) return;
+    // The scrubber steps itself with the arrow keys; text fields keep theirs.
+    const target = event.composedPath()[0] as HTMLElement | undefined;
+    if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT')) return;
+
+    let action: (() => Promise<unknown> | void) | undefined;
+    switch (event.key) {
+      case 'ArrowRight':
+        action = () => this.next();
+        break;
+      case 'ArrowLeft':
+        action = () => this.previous();
+        break;
+      case 'Home':
+        action = () => this.goTo(0);
+        break;
+      case 'End':
+        action = () => this.goTo(this.length - 1);
+        break;
+      case ' ':
+        // A focused button activates itself on Space.
+        if (target?.tagName === 'BUTTON') return;
+        action = () => (this.isPlaying ? this.pause() : this.play());
+        break;
+    }
+    if (!action) return;
+    event.preventDefault();
+    Promise.resolve(action()).catch(error => console.error('Error navigating sequence:', error));
+  };
+}
+
+function isSequenceSource(steps: readonly IDataInstance[] | SequenceSource): steps is SequenceSource {
+  return !Array.isArray(steps) && typeof (steps as SequenceSource).getStep === 'function';
+}
+
@@ -2,13 +2,18 @@
 // Guarded for headless import — see webcola-cnd-graph.ts.
 const d3: any = typeof window !== 'undefined' ? ((window as any).d3v4 || (window as any).d3) : undefined;
 import { WebColaCnDGraph } from './webcola-cnd-graph';
-import { IInputDataInstance, IAtom, ITuple } from '../../data-instance/interfaces';
+import { IInputDataInstance, IAtom, ITuple, DataInstanceEvent, DataInstanceEventType } from '../../data-instance/interfaces';
 import { JSONDataInstance } from '../../data-instance/json-data-instance';
 import { SGraphQueryEvaluator } from '../../evaluators/data/sgq-evaluator';
 import { LayoutInstance } from '../../layout/layoutinstance';
 import { parseLayoutSpec } from '../../layout/layoutspec';
 import { ConstraintError } from '../../layout/constraint-types';
 
+/** Every edit a data instance reports; see setDataInstance. */
+const DATA_INSTANCE_EVENTS: readonly DataInstanceEventType[] = [
+  'atomAdded', 'atomRemoved', 'relationTupleAdded', 'relationTupleRemoved'
+];
+
 /**
  * Structured Input Graph Custom Element
  * Extends WebColaCnDGraph to provide structured input capabilities
@@ -18,7 +23,8 @@ import { ConstraintError } from '../../layout/constraint-types';
  * - Modern, intuitive data editor interface with visual icons and better organization
  * - Auto-generated unique atom IDs with user-provided labels
  * - Full CnD pipeline integration (data instance, evaluator, layout instance)
- * - Constraint enforcement on data changes
+ * - Constraint enforcement on data changes, re-laid out incrementally: only
+ *   the selectors an edit could affect are re-evaluated
  * - Data export using the data instance's reify() method (supports JSON, Pyret, Alloy, etc.)
  * - Draggable edge endpoint handles in input mode: hollow ring at the source,
  *   filled diamond at the target (both diamonds for symmetric edges), tinted to
@@ -53,6 +59,11 @@ export class StructuredInputGraph extends WebColaCnDGraph {
   private relationAtomPositions: string[] = ['', '']; // Default to 2 positions
   private currentConstraintError: ConstraintError | null = null; // Track current constraint validation error
   private selectedNodeId: string | null = null;
+  /** Edits to the data instance since the last layout, passed on so it re-lays out incrementally. */
+  private pendingChanges: DataInstanceEvent[] = [];
+  private readonly recordChange = (event: DataInstanceEvent): void => {
+    this.pendingChanges.push(event);
+  };
 
   constructor(dataInstance?: IInputDataInstance) {
     super(true);
@@ -887,6 +898,7 @@ export class StructuredInputGraph extends WebColaCnDGraph {
    * This method validates constraints on every data update and reports UNSAT cores
    */
   private async enforceConstraintsAndRegenerate(): Promise<void> {
+    const changes = this.pendingChanges.splice(0);
     try {
       if (!this.layoutInstance) {
         // Still re-render so local data-instance mutations are visible
@@ -901,7 +913,7 @@ export class StructuredInputGraph extends WebColaCnDGraph {
         });
       }
 
-      const layoutResult = this.layoutInstance.generateLayout(this.dataInstance);
+      const layoutResult = this.layoutInstance.generateLayout(this.dataInstance, { changes });
 
       if (layoutResult.error) {
         this.currentConstraintError = layoutResult.error;
@@ -922,6 +934,9 @@ export class StructuredInputGraph extends WebColaCnDGraph {
       const hasExistingLayout = priorState.positions.length > 0;
       await this.renderLayout(layoutResult.layout, hasExistingLayout ? { priorPositions: priorState } : undefined);
     } catch (error) {
+      // Hand the edits to the next attempt: telling it about one twice only
+      // costs a re-evaluation, but leaving one out would reuse a stale result.
+      this.pendingChanges.unshift(...changes);
       console.error('Failed to enforce constraints and regenerate layout:', error);
       this.dispatchEvent(new CustomEvent('layout-generation-error', {
         detail: { error },
@@ -1085,7 +1100,12 @@ export class StructuredInputGraph extends WebColaCnDGraph {
    * Set the data instance for this graph
    */
   setDataInstance(instance: IInputDataInstance): void {
+    for (const type of DATA_INSTANCE_EVENTS) {
+      this.dataInstance?.removeEventListener(type, this.recordChange);
+      instance.addEventListener(type, this.recordChange);
+    }
     this.dataInstance = instance;
+    this.pendingChanges = [];
   }
 
   /**
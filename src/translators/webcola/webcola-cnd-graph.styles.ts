@@ -98,6 +98,53 @@ export function getGraphCSS({
         animation: loading-pulse 1s ease-in-out infinite;
       }
 
+      /* Minimap (the minimap attribute): the whole graph in miniature, with
+         the region the main view shows outlined. Bottom-right, clear of the
+         warnings bar at the top. */
+      #minimap {
+        position: absolute;
+        right: 10px;
+        bottom: 10px;
+        z-index: 999;
+        width: 180px;
+        height: 120px;
+        background: var(--cnd-panel-bg, rgba(255, 255, 255, 0.93));
+        border: 1px solid var(--cnd-panel-border, rgba(0, 0, 0, 0.12));
+        border-radius: 6px;
+        box-shadow: 0 1px 4px rgba(0, 0, 0, 0.14);
+        overflow: hidden;
+        cursor: pointer;
+        touch-action: none;
+      }
+
+      #minimap[hidden] {
+        display: none;
+      }
+
+      #minimap svg {
+        display: block;
+        width: 100%;
+        height: 100%;
+      }
+
+      .minimap-node {
+        fill: var(--cnd-panel-text-muted, #6b7280);
+      }
+
+      .minimap-group {
+        fill: none;
+        stroke: var(--cnd-group-stroke, #666);
+        stroke-opacity: 0.6;
+        vector-effect: non-scaling-stroke;
+      }
+
+      .minimap-viewport {
+        fill: rgba(37, 99, 235, 0.12);
+        stroke: var(--cnd-loading-dot, #2563eb);
+        stroke-width: 1.5px;
+        vector-effect: non-scaling-stroke;
+      }
+
       /* Selector warnings: a collapsed summary bar, with detail on demand.
          An unresolved name yields an empty set rather than an error, so the
          diagram still renders looking perfectly fine — this bar is the only thing
@@ -263,6 +310,81 @@ export function getGraphCSS({
         fill-opacity: 0.55;
       }
 
+      /* A collapsed group's summary node; double-click expands it. */
+      .collapsed-group-node rect {
+        stroke-width: 2px;
+        stroke-dasharray: 8 3;
+      }
+
+      .collapsed-group-node {
+        cursor: pointer;
+      }
+
+      /* Diff mode (renderDiff): green for added, amber for changed, and dashed
+         red ghosts, under the live graph, for what was removed. */
+      .node.diff-added rect {
+        stroke: var(--cnd-diff-added, #2e9e44);
+        stroke-width: 3px;
+      }
+
+      .node.diff-changed rect {
+        stroke: var(--cnd-diff-changed, #d98e04);
+        stroke-width: 3px;
+      }
+
+      .link-group.diff-added .link,
+      .link-group.diff-added .inferredLink {
+        stroke: var(--cnd-diff-added, #2e9e44);
+        stroke-width: 3px;
+      }
+
+      .diff-removed-node rect {
+        fill: none;
+        stroke: var(--cnd-diff-removed, #d0342c);
+        stroke-width: 2px;
+        stroke-dasharray: 4 3;
+      }
+
+      .diff-removed-node text {
+        fill: var(--cnd-diff-removed, #d0342c);
+        font-size: 12px;
+        text-anchor: middle;
+        opacity: 0.8;
+      }
+
+      .diff-removed-link {
+        stroke: var(--cnd-diff-removed, #d0342c);
+        stroke-width: 2px;
+        stroke-dasharray: 4 3;
+        opacity: 0.7;
+      }
+
+      /* Semantic zoom overview (below the semantic-zoom threshold): no
+         attribute lines or edge labels, and each outermost group drawn as a
+         solid blob with its member count in place of its members. */
+      #svg.semantic-overview .secondary-label-tspan,
+      #svg.semantic-overview .linklabel,
+      #svg.semantic-overview .node.group-member,
+      #svg.semantic-overview .link-group.group-internal,
+      #svg.semantic-overview .nested-group {
+        display: none;
+      }
+
+      #svg.semantic-overview .group {
+        fill-opacity: 0.55;
+        stroke-opacity: 0.9;
+      }
+
+      .group-summary {
+        font-weight: bold;
+        fill: var(--cnd-label-text, #1a1a1a);
+        stroke: var(--cnd-canvas-bg, ${canvasBackground});
+        stroke-width: 3px;
+        stroke-linejoin: round;
+        paint-order: stroke fill;
+        pointer-events: none;
+      }
+
       /* Enhanced visibility for small error nodes */
       .small-error-node rect {
         stroke-width: 4px !important; /* Thicker stroke for visibility */
@@ -650,6 +772,112 @@ export function getGraphCSS({
         transform: translateY(0.5px);
       }
 
+      /* Search control styling */
+      #search-control {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+        margin-left: 16px;
+        padding-left: 16px;
+        border-left: 1px solid var(--cnd-control-border, #e5e7eb);
+      }
+
+      #search-input {
+        width: 140px;
+        padding: 4px 8px;
+        border: 1px solid var(--cnd-control-border, #d1d5db);
+        background: var(--cnd-control-bg, #f9fafb);
+        color: var(--cnd-panel-text, #111827);
+        border-radius: 4px;
+        font-size: 12px;
+        outline: none;
+      }
+
+      #search-input:focus {
+        border-color: #3b82f6;
+        box-shadow: 0 0 0 2px rgba(59, 130, 246, 0.1);
+      }
+
+      #search-control button {
+        height: 24px;
+        min-width: 24px;
+        padding: 0 6px;
+        border: 1px solid var(--cnd-control-border, #d1d5db);
+        background: var(--cnd-control-bg, #f9fafb);
+        color: var(--cnd-panel-text-muted, #374151);
+        border-radius: 4px;
+        cursor: pointer;
+        font-size: 12px;
+        line-height: 1;
+        user-select: none;
+      }
+
+      #search-control button:hover:not(:disabled) {
+        background: var(--cnd-control-bg-hover, #f3f4f6);
+        border-color: #9ca3af;
+        color: var(--cnd-panel-text, #111827);
+      }
+
+      #search-control button:disabled {
+        color: #9ca3af;
+        cursor: not-allowed;
+      }
+
+      #search-mode[aria-pressed="true"] {
+        background: #3b82f6;
+        border-color: #3b82f6;
+        color: #ffffff;
+      }
+
+      #search-count {
+        min-width: 48px;
+        font-size: 12px;
+        color: var(--cnd-panel-text-muted, #6b7280);
+        user-select: none;
+        white-space: nowrap;
+      }
+
+      #search-count.search-error {
+        color: #dc2626;
+      }
+
+      /* Search matches: a quieter ring than highlightNodes, and the full
+         highlight on the match the view is centred on. */
+      .node.search-match rect {
+        stroke: #ff9500;
+        stroke-width: 2px;
+        stroke-dasharray: none;
+      }
+
+      .node.search-current rect {
+        stroke: #ff9500;
+        stroke-width: 3px;
+        stroke-dasharray: none;
+        filter: drop-shadow(0 0 6px rgba(255, 149, 0, 0.6));
+      }
+
+      /* Pin toggle: hidden until the node is hovered; filled while pinned. */
+      .pin-toggle {
+        fill: var(--cnd-control-bg, #f9fafb);
+        stroke: #9ca3af;
+        stroke-width: 1px;
+        cursor: pointer;
+        opacity: 0;
+        transition: opacity 0.15s ease;
+      }
+
+      .node:hover .pin-toggle,
+      .error-node:hover .pin-toggle {
+        opacity: 1;
+      }
+
+      .node.pinned .pin-toggle,
+      .error-node.pinned .pin-toggle {
+        fill: #ef4444;
+        stroke: #b91c1c;
+        opacity: 1;
+      }
+
       /* Modal Overlay and Dialog */
       .modal-overlay {
         position: fixed;
@@ -1,7 +1,9 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { EdgeWithMetadata, NodeWithMetadata, WebColaLayout, WebColaTranslator, TransformInfo, LayoutState, WebColaLayoutOptions, WebColaRenderTransitionMode } from './webcolatranslator';
-import { InstanceLayout, isInstanceLayout, LayoutNode, ColorSource } from '../../layout/interfaces';
+import { EdgeWithMetadata, NodeWithMetadata, WebColaLayout, WebColaTranslator, TransformInfo, LayoutState, NodePositionHint, WebColaLayoutOptions, WebColaRenderTransitionMode } from './webcolatranslator';
+import { InstanceLayout, isInstanceLayout, LayoutGroup, LayoutNode, ColorSource } from '../../layout/interfaces';
+import { collapseGroups, collapsedGroupNodeId, initiallyCollapsedGroups } from '../../layout/group-collapse';
 import type { LayoutWarning } from '../../layout/error-state';
+import type IEvaluator from '../../evaluator-contracts';
 import type { Layout, ID3StyleLayoutAdaptor } from 'webcola';
 
 /**
@@ -10,11 +12,21 @@ import type { Layout, ID3StyleLayoutAdaptor } from 'webcola';
  * as `Layout` hides the instance `drag()` this file calls.
  */
 type D3Layout = Layout & ID3StyleLayoutAdaptor;
-import { ITuple } from '../../data-instance/interfaces';
+import { ITuple, type IDataInstance } from '../../data-instance/interfaces';
+import { diffInstances, type InstanceDiff } from '../../data-instance/instance-diff';
+import { stability, type SequencePolicy } from './sequence-policy';
+import type { LayoutJobResult, LayoutJobSettings } from './layout-worker';
+import type { LayoutBackend } from './layout-backend';
+import { LayoutCancelledError, LayoutMonitor, type LayoutProgress } from '../../layout/progress';
 import { MAIN_LABEL_FONT_SIZE, SECONDARY_FONT_SIZE, LABEL_LINE_HEIGHT_RATIO, resolveAttrFontSize } from '../../layout/text-extent';
 import { FALLBACK_ICON, getInlinableIconSvg } from '../../layout/icon-registry';
 import { setLabLightness, type NodeColorParams } from '../../layout/colorpicker';
 import { getGraphCSS } from './webcola-cnd-graph.styles';
+import { matchNodesBySelector, matchNodesByText, type SearchableNode } from './node-search';
+import { ARRANGEMENT_VERSION, parseArrangement, type ArrangedNode, type Arrangement } from './arrangement';
+import { extractVectorScene, type VectorScene } from '../vector/vector-scene';
+import { renderTikz, type TikzOptions } from '../vector/tikz';
+import { renderPdf, type PdfOptions } from '../vector/pdf';
 import {
   type EdgeRouter as SpytialEdgeRouter,
   type RouterHost,
@@ -148,6 +160,28 @@ export interface GraphTheme {
   nodeColors?: NodeColorParams;
 }
 
+/**
+ * Options for {@link WebColaCnDGraph.renderDiff}: the two instances to
+ * compare, plus any renderLayout() options for drawing the current one.
+ */
+export interface WebColaDiffOptions extends Omit<WebColaLayoutOptions, 'policy' | 'prevInstance' | 'currInstance'> {
+  /** The instance before — expected, or the earlier step. */
+  prevInstance: IDataInstance;
+  /** The instance after — actual, or the later step. */
+  currInstance: IDataInstance;
+  /** The layout of `prevInstance`, drawn first. Omit when it is already on screen. */
+  prevLayout?: InstanceLayout;
+  /** What carries surviving nodes' positions over. Defaults to `stability`. */
+  policy?: SequencePolicy;
+}
+
+/**
+ * How much of the drawing {@link WebColaCnDGraph} shows at the current zoom:
+ * everything, or — below the `semantic-zoom` threshold — an overview without
+ * attributes or edge labels, with each group drawn as a blob and a count.
+ */
+export type SemanticZoomLevel = 'detail' | 'overview';
+
 // HTMLElement doesn't exist in Node; fall back to a plain class so the module
 // can be imported headless. Instantiating the element still requires a DOM.
 const HTMLElementBase = (typeof HTMLElement !== 'undefined'
@@ -175,6 +209,14 @@ export class WebColaCnDGraph extends HTMLElementBase {
    * policy was applied this render (e.g., first frame, no prior).
    */
   private lastSeedState: LayoutState | null = null;
+  /**
+   * Where renderInstance() lays out: the worker the `layout-worker` attribute
+   * names, or in-thread. Created on first use; dropped when the attribute
+   * changes.
+   */
+  private layoutBackend: Promise<LayoutBackend> | null = null;
+  /** Cancels the renderInstance() call in flight, if any. */
+  private layoutJob: AbortController | null = null;
 
   /**
    * Configuration constants for SVG
@@ -189,6 +231,9 @@ export class WebColaCnDGraph extends HTMLElementBase {
   private static readonly SMALL_IMG_SCALE_FACTOR = 0.3;
   private static readonly NODE_BORDER_RADIUS = 6;
   private static readonly NODE_STROKE_WIDTH = 1.5;
+  /** Pin toggle: radius, and inset of its centre from the node's bottom-right corner. */
+  private static readonly PIN_TOGGLE_RADIUS = 4;
+  private static readonly PIN_TOGGLE_INSET = 8;
 
   /**
    * Default canvas color (tufte-css `#fffff8` warm white). Used when the host
@@ -519,6 +564,18 @@ export class WebColaCnDGraph extends HTMLElementBase {
     return fullY ?? d.y - vh / 2;
   }
 
+  /**
+   * Pin toggle centre, inset from the box's bottom-right corner (`right` and
+   * `bottom` default to the visual box's edges; the grid path passes its bounds).
+   */
+  private pinToggleX(d: any, right?: number): number {
+    return (right ?? d.x + (d.visualWidth ?? d.width) / 2) - WebColaCnDGraph.PIN_TOGGLE_INSET;
+  }
+
+  private pinToggleY(d: any, bottom?: number): number {
+    return (bottom ?? d.y + (d.visualHeight ?? d.height) / 2) - WebColaCnDGraph.PIN_TOGGLE_INSET;
+  }
+
   /** Edge stroke (themed): preserves chosen colors, themes the implicit default. */
   private edgeStrokeColor(d: any): string | null {
     return this.isAlignmentEdge(d) ? 'none' : this.themedDataColor(d.color, '--cnd-edge-color', null);
@@ -565,7 +622,7 @@ export class WebColaCnDGraph extends HTMLElementBase {
   }
 
   static get observedAttributes(): string[] {
-    return ['theme', 'background'];
+    return ['theme', 'background', 'layout-worker', 'minimap', 'semantic-zoom'];
   }
 
   attributeChangedCallback(name: string, _oldValue: string | null, newValue: string | null): void {
@@ -578,6 +635,16 @@ export class WebColaCnDGraph extends HTMLElementBase {
       // `background` is canvas sugar; re-apply so it composes with the base
       // theme in either mode (and so clearing it reverts to the theme canvas).
       this.applyTheme();
+    } else if (name === 'layout-worker') {
+      this.releaseLayoutBackend();
+    } else if (name === 'minimap') {
+      const minimap = this.root.querySelector('#minimap') as HTMLElement | null;
+      if (minimap) {
+        minimap.hidden = newValue === null;
+        this.scheduleMinimapUpdate();
+      }
+    } else if (name === 'semantic-zoom') {
+      this.applySemanticZoom();
     }
   }
 
@@ -663,6 +730,15 @@ export class WebColaCnDGraph extends HTMLElementBase {
   private static readonly SELF_LOOP_CURVATURE_SCALE = 0.2;
   private static readonly VIEWBOX_PADDING = 10;
 
+  /**
+   * Configuration constants for the minimap and semantic zoom
+   */
+  private static readonly DEFAULT_SEMANTIC_ZOOM_THRESHOLD = 0.5;
+  private static readonly GROUP_SUMMARY_MIN_FONT_SIZE = 10;
+
+  /** Grid spacing for members of a group expanded for the first time. */
+  private static readonly COLLAPSED_MEMBER_SPACING = 60;
+
   /**
    * Configuration constants for WebCola layout iterations
    * Reduced from previous values (10, 100, 1000, 5) to improve performance
@@ -758,6 +834,46 @@ export class WebColaCnDGraph extends HTMLElementBase {
    */
   private isInitialRender: boolean = true;
   private loadingShowTimer: number | null = null;
+
+  /**
+   * Semantic zoom level last applied: `overview` below the `semantic-zoom`
+   * threshold, `detail` otherwise (and always when the attribute is absent).
+   */
+  private semanticZoomLevel: SemanticZoomLevel = 'detail';
+
+  /** Pending minimap redraw, so a burst of ticks and zoom events draws once. */
+  private minimapFrame: number | null = null;
+
+  /** Layout-space region the minimap last drew, for mapping clicks back. */
+  private minimapView: { x: number; y: number; width: number; height: number } | null = null;
+
+  /** The layout last passed to renderLayout, before any group was collapsed. */
+  private sourceLayout: InstanceLayout | null = null;
+
+  /**
+   * Collapse choices made through collapseGroup / expandGroup, by group name.
+   * They win over the spec's `collapsed` option and outlive re-renders, so a
+   * group the viewer opened stays open on the next step of a sequence.
+   */
+  private groupCollapseOverrides: Map<string, boolean> = new Map();
+
+  /** The layout state when each group was collapsed, for expandGroup to restore. */
+  private collapsedGroupStates: Map<string, LayoutState> = new Map();
+
+  /** Evaluator for selector searches, set by the host through setSearchEvaluator. */
+  private searchEvaluator: IEvaluator | null = null;
+
+  /** The last search run, and the drawn nodes it matched in cycling order. */
+  private searchQuery: { query: string; selector: boolean } | null = null;
+  private searchMatches: string[] = [];
+  private searchIndex: number = -1;
+
+  /**
+   * Pinned nodes and where, by atom id. Every render holds them there
+   * wherever their constraints allow; they outlive re-renders, including of
+   * instances that lack the atom, so a pin comes back with its atom.
+   */
+  private pinnedPositions: Map<string, { x: number; y: number }> = new Map();
   
   /**
    * Stores the starting coordinates when a node begins dragging so
@@ -1452,6 +1568,13 @@ export class WebColaCnDGraph extends HTMLElementBase {
           <label for="theme-mode">Mode:</label>
           <select id="theme-mode" title="Color theme"></select>
         </div>
+        <div id="search-control" role="search">
+          <input id="search-input" type="search" placeholder="Find…" aria-label="Find atoms by label, type or attribute" autocomplete="off" spellcheck="false">
+          <button id="search-mode" type="button" title="Match a selector instead of text" aria-pressed="false" hidden>Selector</button>
+          <span id="search-count" aria-live="polite"></span>
+          <button id="search-prev" type="button" title="Previous match (Shift+Enter)" aria-label="Previous match" disabled>‹</button>
+          <button id="search-next" type="button" title="Next match (Enter)" aria-label="Next match" disabled>›</button>
+        </div>
         <div id="screenshot-control">
           <button id="screenshot-btn" title="Download high-res PNG screenshot" aria-label="Screenshot graph">⬇</button>
         </div>
@@ -1483,6 +1606,12 @@ export class WebColaCnDGraph extends HTMLElementBase {
         </defs>
         <g class="zoomable"></g>
       </svg>
+      <div id="minimap" title="Click or drag to move the view" hidden>
+        <svg role="img" aria-label="Minimap of the whole graph">
+          <g class="minimap-content"></g>
+          <rect class="minimap-viewport"></rect>
+        </svg>
+      </div>
       </div>
       </div>
       <div id="error" style="display: none; color: red;"></div>
@@ -1519,12 +1648,16 @@ export class WebColaCnDGraph extends HTMLElementBase {
         this.updateZoomControlStates();
         // Update small node classes based on new zoom level
         this.updateSmallNodeClasses();
+        this.applySemanticZoom();
+        this.scheduleMinimapUpdate();
       });
 
     this.svg.call(this.zoomBehavior);
     
     // Set up zoom control event listeners
     this.initializeZoomControls();
+    this.initializeSearchControl();
+    this.initializeMinimap();
     }
     else {
       console.warn('D3 zoom behavior not available. Ensure D3 v4+ is loaded.');
@@ -1855,6 +1988,11 @@ export class WebColaCnDGraph extends HTMLElementBase {
       .on('end.cnd', (d: any) => {
         const start = this.dragStartPositions.get(d.id);
         this.dragStartPositions.delete(d.id);
+        // A pinned node keeps its pin where it was dropped; with `pin-on-drag`
+        // every dropped node is pinned there.
+        if (this.pinnedPositions.has(d.id) || this.hasAttribute('pin-on-drag')) {
+          this.setPin(d, true);
+        }
         const detail = {
           id: d.id,
           previous: start,
@@ -2211,12 +2349,116 @@ export class WebColaCnDGraph extends HTMLElementBase {
     return options?.policy ? 'morph' : 'replace';
   }
 
+  /**
+   * Lay out `instance` under `spec` and render it: the whole pipeline, where
+   * renderLayout() is only its last step.
+   *
+   * With a `layout-worker` attribute naming the built worker script
+   * (`dist/browser/spytial-layout-worker.global.js`), generating the layout,
+   * validating its constraints and the solver's iterations run in that
+   * worker, and the page only settles the solved positions. Without one — or
+   * where workers are unavailable, or the script fails to load — the same
+   * work runs in-thread, with the same result.
+   *
+   * A call supersedes any still in flight, which rejects with an
+   * `AbortError`, as it does when `options.signal` is aborted. Every phase,
+   * wherever it runs, is reported in `layout-progress` events.
+   *
+   * Selectors are evaluated by SGraphQueryEvaluator over the instance's
+   * atoms, relations and types, which is all that crosses to a worker. A host
+   * using another evaluator (Alloy's, Forge's) or an instance carrying more
+   * than that graph passes `options.evaluator`: the job then runs in-thread,
+   * over `instance` itself, so the result matches `generateLayout`'s. That
+   * evaluator also becomes the search evaluator (see setSearchEvaluator).
+   *
+   * @param spec - The layout spec, as YAML source.
+   * @param options.evaluator - The host's evaluator, initialized on `instance`.
+   * @returns The generateLayout verdict, for the host to report: the layout,
+   *   its constraint error (flattened; null when satisfiable), and selector
+   *   errors and warnings.
+   */
+  public async renderInstance(
+    spec: string,
+    instance: IDataInstance,
+    options: { signal?: AbortSignal; evaluator?: IEvaluator } = {}
+  ): Promise<LayoutJobResult> {
+    this.layoutJob?.abort();
+    const job = new AbortController();
+    this.layoutJob = job;
+    if (options.signal?.aborted) job.abort();
+    const onAbort = () => job.abort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    // Selector searches then read the instance this render lays out.
+    if (options.evaluator) this.setSearchEvaluator(options.evaluator);
+
+    try {
+      const { runLayoutJobOn, toLayoutDatum } = await import('./layout-worker');
+      const svgContainer = this.root.querySelector('#svg-container') as HTMLElement | null;
+      const rect = svgContainer?.getBoundingClientRect();
+      const onScreen = this.getLayoutState();
+      const hasOnScreen = onScreen.positions.length > 0;
+
+      const settings: LayoutJobSettings = {
+        spec,
+        figWidth: rect?.width || WebColaCnDGraph.DEFAULT_SVG_WIDTH,
+        figHeight: rect?.height || WebColaCnDGraph.DEFAULT_SVG_HEIGHT,
+        ...(hasOnScreen ? { priorPositions: onScreen, lockUnconstrainedNodes: true } : {}),
+        ...(this.pinnedPositions.size > 0 ? { pinnedPositions: this.getPinnedPositionHints() } : {})
+      };
+      const onProgress = (progress: LayoutProgress) => this.dispatchLayoutProgress(progress);
+      const result = options.evaluator
+        ? await runLayoutJobOn(instance, options.evaluator, settings, { signal: job.signal, onProgress })
+        : await (await this.getLayoutBackend()).layout(
+          { ...settings, datum: toLayoutDatum(instance) }, job.signal, onProgress);
+
+      // Settle from the solved positions. The viewport stays where the user
+      // left it; on a first render an invalid transform lets it fit the drawing.
+      await this.renderLayout(result.layout, {
+        priorPositions: {
+          positions: result.positions.positions,
+          transform: hasOnScreen ? onScreen.transform : { k: NaN, x: NaN, y: NaN }
+        },
+        signal: job.signal
+      });
+      return result;
+    } finally {
+      // A long-lived caller signal would otherwise keep every finished job alive.
+      options.signal?.removeEventListener('abort', onAbort);
+      if (this.layoutJob === job) this.layoutJob = null;
+    }
+  }
+
+  private getLayoutBackend(): Promise<LayoutBackend> {
+    this.layoutBackend ??= import('./layout-backend').then(({ createLayoutBackend }) =>
+      createLayoutBackend(this.getAttribute('layout-worker')));
+    return this.layoutBackend;
+  }
+
+  private dispatchLayoutProgress(progress: LayoutProgress): void {
+    this.dispatchEvent(new CustomEvent('layout-progress', { detail: progress }));
+  }
+
+  /** Stop the backend and whatever it was computing. */
+  private releaseLayoutBackend(): void {
+    this.layoutJob?.abort();
+    this.layoutJob = null;
+    const backend = this.layoutBackend;
+    this.layoutBackend = null;
+    void backend?.then(b => b.dispose());
+  }
+
   /**
    * Render layout using WebCola constraint solver.
    *
    * @param instanceLayout - The layout instance to render
    * @param options - Optional; pass a `policy` with `prevInstance` / `currInstance`
    *   for sequence continuity.  Omit entirely for a fresh layout.
+   * @throws {LayoutCancelledError} When `options.signal` or `options.timeout`
+   *   stops the render. One stopped before the solve starts leaves the previous
+   *   drawing; one stopped during it leaves the graph cleared, as clear() does.
+   *   Progress through `translate` and `solve` is dispatched as
+   *   `layout-progress` events either way.
    *
    * @example
    * ```typescript
@@ -2245,6 +2487,13 @@ export class WebColaCnDGraph extends HTMLElementBase {
       throw new Error('Invalid instance layout provided. Expected an InstanceLayout instance.');
     }
 
+    const monitor = new LayoutMonitor({
+      signal: options?.signal,
+      timeout: options?.timeout,
+      onProgress: progress => this.dispatchLayoutProgress(progress)
+    });
+    monitor.check();
+
     // Tear down any in-flight render FIRST — before any state is read or
     // mutated for the new one. Without this, the old solver's d3 timer keeps
     // ticking against the component while the new render replaces
@@ -2260,6 +2509,14 @@ export class WebColaCnDGraph extends HTMLElementBase {
     // untouched.
     this.renderLayoutWarnings(instanceLayout.warnings ?? []);
 
+    // Draw collapsed groups as their summary nodes. The uncollapsed layout is
+    // kept so expanding a group can render it again.
+    this.sourceLayout = instanceLayout;
+    const collapsedGroups = this.getCollapsedGroups();
+    if (collapsedGroups.length > 0) {
+      instanceLayout = collapseGroups(instanceLayout, collapsedGroups);
+    }
+
     // Claim the render generation. A superseded render can be torn down at
     // entry only if its solver already exists — a competitor arriving while
     // this render is still awaiting translation has nothing to stop yet, so
@@ -2326,6 +2583,9 @@ export class WebColaCnDGraph extends HTMLElementBase {
           collapseSymmetricEdges: this.shouldCollapseSymmetricEdges()
         }
       : { collapseSymmetricEdges: this.shouldCollapseSymmetricEdges() };
+    if (this.pinnedPositions.size > 0) {
+      translatorOptions.pinnedPositions = this.getPinnedPositionHints();
+    }
 
     this.applyViewportRenderPolicy(hasPriorPositions, hasPriorTransform);
     
@@ -2349,6 +2609,9 @@ export class WebColaCnDGraph extends HTMLElementBase {
       }
     }
 
+    // Set once this render has cleared the drawing for its own.
+    let drawn = false;
+
     try {
 
       // Check if D3 and WebCola are available
@@ -2368,6 +2631,8 @@ export class WebColaCnDGraph extends HTMLElementBase {
         throw new Error('Failed to initialize D3 container. SVG elements may not be available.');
       }
 
+      // Before the overlay goes up: a render cancelled by now shows nothing.
+      monitor.report('translate', 0);
       if (shouldShowLoadingOverlay) {
         this.showLoading();
         this.updateLoadingProgress('Translating layout...');
@@ -2383,12 +2648,14 @@ export class WebColaCnDGraph extends HTMLElementBase {
       const containerHeight = containerRect.height || 600; // fallback to default
 
       // Translate to WebCola format with actual container dimensions
+      monitor.check();
       const translator = new WebColaTranslator();
       const webcolaLayout = await translator.translate(instanceLayout, containerWidth, containerHeight, translatorOptions);
 
       // Superseded while awaiting translation? The newer render owns the
       // element now — abandon before creating a solver it can't tear down.
       if (generation !== this.renderGeneration) return;
+      monitor.report('translate', 100);
 
       if (shouldShowLoadingOverlay) {
         this.updateLoadingProgress(`Computing layout for ${webcolaLayout.nodes.length} nodes...`);
@@ -2486,6 +2753,7 @@ export class WebColaCnDGraph extends HTMLElementBase {
       // Store current layout
       this.currentLayout = webcolaLayout;
       this.colaLayout = layout;
+      this.refreshSearch();
 
       // For morph transitions: snapshot the entire old graph as a visual
       // overlay BEFORE clearing.  The overlay stays visible while the
@@ -2497,6 +2765,7 @@ export class WebColaCnDGraph extends HTMLElementBase {
 
       // Clear the active layer (snapshot layer is separate and keeps visible)
       this.container.selectAll('*').remove();
+      drawn = true;
 
       this.renderGroups(webcolaLayout.groups, layout);
       this.renderLinks(webcolaLayout.links, layout);
@@ -2515,6 +2784,7 @@ export class WebColaCnDGraph extends HTMLElementBase {
       // Once the solver converges (end handler), this flag is cleared so that
       // subsequent tick events (e.g. from drag → layout.resume()) still render.
       let isInitialSolve = true;
+      monitor.report('solve', 0);
 
       // Start the layout with specific iteration counts and proper event handling
       layout
@@ -2535,6 +2805,9 @@ export class WebColaCnDGraph extends HTMLElementBase {
               if (shouldShowLoadingOverlay) {
                 this.updateLoadingProgress(`Computing layout... ${progress}%`);
               }
+              // Dispatch only: a throw here would surface inside cola's
+              // start(), which retries. The tick loop below checks.
+              this.dispatchLayoutProgress({ phase: 'solve', percentage: progress });
             }
             // Skip DOM updates during initial solve — the end handler
             // applies final positions once.
@@ -2556,6 +2829,9 @@ export class WebColaCnDGraph extends HTMLElementBase {
           // Teardown race: bail if clear()/dispose() nulled the selections.
           if (!this.currentLayout || !this.svgNodes) return;
 
+          if (isInitialSolve) {
+            this.dispatchLayoutProgress({ phase: 'solve', percentage: 100 });
+          }
           isInitialSolve = false;
           if (shouldShowLoadingOverlay) {
             this.updateLoadingProgress('Finalizing...');
@@ -2615,6 +2891,9 @@ export class WebColaCnDGraph extends HTMLElementBase {
           }
         });
 
+      // Last checkpoint before start(), whose constraint phases cannot stop.
+      monitor.check();
+
       // Start the layout with error handling for D3/WebCola compatibility issues.
       // keepRunning=false: start() runs every constraint phase synchronously and
       // would then hand the remaining alpha-decay ticks — and the 'end' dispatch
@@ -2650,7 +2929,10 @@ export class WebColaCnDGraph extends HTMLElementBase {
       // never be starved of animation frames. tick() is typed protected,
       // hence the cast.
       let syncTicks = 0;
-      while (!(layout as any).tick() && ++syncTicks < WebColaCnDGraph.MAX_SYNC_DECAY_TICKS);
+      monitor.check();
+      while (!(layout as any).tick() && ++syncTicks < WebColaCnDGraph.MAX_SYNC_DECAY_TICKS) {
+        monitor.check();
+      }
       if (syncTicks >= WebColaCnDGraph.MAX_SYNC_DECAY_TICKS) {
         // Stress plateaued above the convergence threshold — force alpha to 0
         // so this last tick takes the convergence branch and dispatches 'end'.
@@ -2659,6 +2941,15 @@ export class WebColaCnDGraph extends HTMLElementBase {
       }
 
     } catch (error) {
+      if (error instanceof LayoutCancelledError) {
+        this.teardownInflightRender();
+        if (drawn) {
+          this.svg?.selectAll('.morph-old-graph').remove();
+          this.container?.attr('opacity', 1);
+          this.clear();
+        }
+        throw error;
+      }
       console.error('Error rendering layout:', error);
       this.showError(`Layout rendering failed: ${(error as Error).message}`);
     }
@@ -3158,6 +3449,8 @@ export class WebColaCnDGraph extends HTMLElementBase {
     }
     this.morphEnteringNodeIds = new Set();
     this.morphEnteringEdgeIds = new Set();
+    // A diff's ghosts belong to the layout they were drawn over.
+    this.container?.selectAll('.diff-ghosts').remove();
 
     // Hide any loading overlay the superseded render raised. A 'replace' render
     // shows it and relies on its own 'end' handler to hide it — but that handler
@@ -3926,7 +4219,16 @@ export class WebColaCnDGraph extends HTMLElementBase {
         if (this.isDisconnectedGroup(d) || this.isErrorGroup(d)) return 1;
         return WebColaCnDGraph.GROUP_STROKE_OPACITY;
       })
-      .call((layout as any).drag);
+      .call((layout as any).drag)
+      // Double-clicking a group collapses it into its summary node. Merged
+      // duplicate groups carry a joined name no spec group has; they stay open.
+      .on('dblclick.collapse', (d: any) => {
+        if (this.isDisconnectedGroup(d) || !this.findSourceGroup(d.id)) return;
+        d3.event.stopPropagation();
+        this.collapseGroup(d.id).catch(error => {
+          console.error('Error collapsing group:', error);
+        });
+      });
 
 
     return groupRects;
@@ -4138,9 +4440,28 @@ export class WebColaCnDGraph extends HTMLElementBase {
         if (this.isReintroducedNode(d)) {
           baseClass += " reintroduced-node";
         }
+        if (d.collapsedGroup) {
+          baseClass += " collapsed-group-node";
+        }
+        if (this.pinnedPositions.has(d.id)) {
+          baseClass += " pinned";
+        }
+        // Keep the last search's matches marked across re-renders.
+        if (this.searchMatches.includes(d.id)) {
+          baseClass += " search-match";
+          if (this.searchMatches[this.searchIndex] === d.id) baseClass += " search-current";
+        }
         return baseClass;
       })
       .call(nodeDrag)
+      // Double-clicking a collapsed group's summary node expands it.
+      .on('dblclick.collapse', (d: any) => {
+        if (!d.collapsedGroup) return;
+        d3.event.stopPropagation();
+        this.expandGroup(d.collapsedGroup).catch(error => {
+          console.error('Error expanding group:', error);
+        });
+      })
       .on('mousedown.inputmode', (d: any) => {
         if (this.isInputModeActive) {
           d3.event.stopPropagation();
@@ -4180,6 +4501,8 @@ export class WebColaCnDGraph extends HTMLElementBase {
     // Add main node labels with attributes
     this.setupNodeLabels(nodeSelection);
 
+    this.setupPinToggles(nodeSelection);
+
     return nodeSelection;
   }
 
@@ -4208,6 +4531,31 @@ export class WebColaCnDGraph extends HTMLElementBase {
       .attr("fill", (d: any) => this.nodeFillColor(d));
   }
 
+  /**
+   * Adds the pin toggle to each visible node: a small circle in the bottom-right
+   * corner, shown on hover and filled while the node is pinned. Clicking it
+   * pins or unpins the node; it swallows the mousedown so the click does not
+   * start a drag.
+   *
+   * @param nodeSelection - D3 selection of node groups
+   */
+  private setupPinToggles(nodeSelection: d3.Selection<SVGGElement, any, any, unknown>): void {
+    nodeSelection
+      .filter((d: any) => !this.isHiddenNode(d))
+      .append('circle')
+      .attr('class', 'pin-toggle')
+      .attr('r', WebColaCnDGraph.PIN_TOGGLE_RADIUS)
+      .on('mousedown.pin', () => {
+        d3.event.stopPropagation();
+      })
+      .on('click.pin', (d: any) => {
+        d3.event.stopPropagation();
+        this.togglePin(d.id);
+      })
+      .append('title')
+      .text('Pin or unpin this node');
+  }
+
   /**
    * Adds icons to nodes that have icon properties.
    * Geometry comes from `atomStyle.iconStyle.placement` (full vs badge) and alpha
@@ -4447,6 +4795,7 @@ export class WebColaCnDGraph extends HTMLElementBase {
             .append("tspan")
             .attr("x", 0)
             .attr("dy", `${tspanDys[1 + idx]}px`)
+            .attr("class", "secondary-label-tspan")
             .style("font-size", `${SECONDARY_FONT_SIZE}px`)
             // No explicit fill: inherit the themed parent label fill (the
             // `.label` CSS rule), so dark mode lightens skolem labels too.
@@ -4462,6 +4811,7 @@ export class WebColaCnDGraph extends HTMLElementBase {
             .append("tspan")
             .attr("x", 0)
             .attr("dy", `${tspanDys[1 + labelEntries.length + idx]}px`)
+            .attr("class", "secondary-label-tspan")
             .style("font-size", `${fontSize}px`)
             // textStyle.color for this attribute/tag line; null = inherit the
             // themed parent `.label` fill (so dark mode still lightens it).
@@ -4610,6 +4960,10 @@ export class WebColaCnDGraph extends HTMLElementBase {
       .attr('x', (d: any) => d.x == null ? 0 : this.iconX(d))
       .attr('y', (d: any) => d.y == null ? 0 : this.iconY(d));
 
+    this.svgNodes.select('.pin-toggle')
+      .attr('cx', (d: any) => d.x != null ? this.pinToggleX(d) : 0)
+      .attr('cy', (d: any) => d.y != null ? this.pinToggleY(d) : 0);
+
     this.svgNodes.select('.mostSpecificTypeLabel')
       .attr('x', (d: any) => d.x != null ? d.x - ((d as any).visualWidth ?? d.width ?? 0) / 2 + 5 : 0)
       .attr('y', (d: any) => d.y != null ? d.y - ((d as any).visualHeight ?? d.height ?? 0) / 2 + 10 : 0);
@@ -4619,19 +4973,30 @@ export class WebColaCnDGraph extends HTMLElementBase {
       .attr('y', (d: any) => d.y ?? 0)
       .each((d: any, i: number, nodes: Array<any>) => {
         if (d.x == null) return;
-        const verticalOffset = d._labelVerticalOffset || 0;
-        const lineHeight = d._labelLineHeight || 12;
-        const tspanDys: number[] | undefined = d._labelTspanDys;
         d3.select(nodes[i])
           .selectAll('tspan')
           .attr('x', d.x)
-          .attr('dy', (_: any, tspanIdx: number) =>
-            tspanDys
-              ? `${tspanDys[tspanIdx] ?? lineHeight}px`
-              : (tspanIdx === 0 ? `${verticalOffset}px` : `${lineHeight}px`));
+          .attr('dy', (_: any, tspanIdx: number) => this.labelTspanDy(d, tspanIdx));
       });
   }
 
+  /**
+   * A node label line's `dy`: the offsets cached by setupNodeLabels, except
+   * that at the overview zoom level, where the secondary lines are hidden,
+   * the main line sits on the node's centre.
+   */
+  private labelTspanDy(d: any, tspanIdx: number): string {
+    if (tspanIdx === 0 && this.semanticZoomLevel === 'overview') {
+      return '0px';
+    }
+    const lineHeight = d._labelLineHeight || 12;
+    const tspanDys: number[] | undefined = d._labelTspanDys;
+    if (tspanDys) {
+      return `${tspanDys[tspanIdx] ?? lineHeight}px`;
+    }
+    return tspanIdx === 0 ? `${d._labelVerticalOffset || 0}px` : `${lineHeight}px`;
+  }
+
   private updatePositions(): void {
 
     
@@ -4672,24 +5037,19 @@ export class WebColaCnDGraph extends HTMLElementBase {
       .attr('x', (d: NodeWithMetadata) => d.x)
       .attr('y', (d: NodeWithMetadata) => d.y)
       .each((d: any, i: number, nodes: Array<any>) => {
-        const verticalOffset = d._labelVerticalOffset || 0;
-        const lineHeight = d._labelLineHeight || 12;
-        const tspanDys: number[] | undefined = d._labelTspanDys;
         d3.select(nodes[i])
           .selectAll('tspan')
           .attr('x', d.x)
-          .attr('dy', (tspanData: any, tspanIdx: number) => {
-            if (tspanDys) {
-              return `${tspanDys[tspanIdx] ?? lineHeight}px`;
-            }
-            if (tspanIdx === 0) {
-              return `${verticalOffset}px`;
-            }
-            return `${lineHeight}px`;
-          });
+          .attr('dy', (_: any, tspanIdx: number) => this.labelTspanDy(d, tspanIdx));
       })
       .raise();
 
+    // Pin toggles last, so they sit above the labels raised before them.
+    this.svgNodes.select('.pin-toggle')
+      .attr('cx', (d: any) => this.pinToggleX(d))
+      .attr('cy', (d: any) => this.pinToggleY(d))
+      .raise();
+
     // Update link paths with stable anchor-based routing to prevent jitter during dragging.
     // Select the main path (identified by data-link-id) so any highlight underlay sibling
     // is not picked up here — markers and .raise() apply only to the main edge.
@@ -4798,6 +5158,11 @@ export class WebColaCnDGraph extends HTMLElementBase {
     this.svgLinkGroups.selectAll('marker').raise();
     this.svgLinkGroups.selectAll('.linklabel').raise();
     this.svgNodes.selectAll('.error-node').raise();
+
+    if (this.semanticZoomLevel === 'overview') {
+      this.updateGroupSummaries();
+    }
+    this.scheduleMinimapUpdate();
   }
 
   /**
@@ -4915,6 +5280,11 @@ export class WebColaCnDGraph extends HTMLElementBase {
         })
         .raise();
 
+    node.select(".pin-toggle")
+        .attr("cx", (d: any) => this.pinToggleX(d, d.bounds.X))
+        .attr("cy", (d: any) => this.pinToggleY(d, d.bounds.Y))
+        .raise();
+
     // UPDATE GROUPS AND GROUP LABELS
     group.attr("x", function (d: any) { return d.bounds.x; })
         .attr("y", function (d: any) { return d.bounds.y; })
@@ -5040,6 +5410,11 @@ export class WebColaCnDGraph extends HTMLElementBase {
             return (sourceY + targetY) / 2;
         })
         .raise();
+
+    if (this.semanticZoomLevel === 'overview') {
+      this.updateGroupSummaries();
+    }
+    this.scheduleMinimapUpdate();
   }
 
   /**
@@ -6639,6 +7014,126 @@ export class WebColaCnDGraph extends HTMLElementBase {
     // });
   }
 
+  /** Public API for diff rendering */
+
+  /**
+   * Draws `instanceLayout` as the diff of `currInstance` against
+   * `prevInstance`: surviving nodes stay where the previous layout had them
+   * (through `options.policy`, `stability` by default), added nodes and edges
+   * are classed `diff-added`, nodes whose type or connections changed
+   * `diff-changed`, and removed nodes and edges are drawn as dashed ghosts
+   * where they were. The next render clears it all.
+   *
+   * Dispatches `diff-rendered` with `{ diff }` once drawn.
+   *
+   * @param instanceLayout - The layout of `currInstance`.
+   * @returns The diff, as {@link diffInstances} computes it.
+   *
+   * @example
+   * ```typescript
+   * graph.addEventListener('diff-rendered', e => narrate(e.detail.diff));
+   * await graph.renderDiff(actualLayout, { prevInstance: expected, currInstance: actual, prevLayout: expectedLayout });
+   * ```
+   */
+  public async renderDiff(instanceLayout: InstanceLayout, options: WebColaDiffOptions): Promise<InstanceDiff> {
+    const { prevInstance, currInstance, prevLayout, policy = stability, ...layoutOptions } = options;
+    if (prevLayout) {
+      await this.renderLayout(prevLayout, { ...layoutOptions, transitionMode: 'replace' });
+    }
+
+    const diff = diffInstances(prevInstance, currInstance);
+    const priorBoxes = this.snapshotNodeBoxes();
+    const rendering = this.renderLayout(instanceLayout, { ...layoutOptions, policy, prevInstance, currInstance });
+    const generation = this.renderGeneration;
+    await rendering;
+    if (generation !== this.renderGeneration) {
+      // Superseded: these decorations would land on someone else's layout.
+      return diff;
+    }
+
+    this.applyDiffDecorations(diff, priorBoxes);
+    this.dispatchEvent(new CustomEvent('diff-rendered', { detail: { diff } }));
+    return diff;
+  }
+
+  /**
+   * Removes what {@link renderDiff} drew over the current layout.
+   *
+   * @returns True if the operation completed successfully
+   */
+  public clearDiff(): boolean {
+    if (!this.container) return false;
+    this.container.selectAll('.diff-ghosts').remove();
+    this.svgNodes?.classed('diff-added', false).classed('diff-changed', false);
+    this.svgLinkGroups?.classed('diff-added', false);
+    return true;
+  }
+
+  /** Where each node on screen is, and what it says — for drawing it once it is gone. */
+  private snapshotNodeBoxes(): Map<string, { x: number; y: number; width: number; height: number; label: string }> {
+    const boxes = new Map<string, { x: number; y: number; width: number; height: number; label: string }>();
+    for (const node of this.currentLayout?.nodes ?? []) {
+      if (node.x === undefined || node.y === undefined) continue;
+      boxes.set(node.id, { x: node.x, y: node.y, width: node.width ?? 0, height: node.height ?? 0, label: node.label });
+    }
+    return boxes;
+  }
+
+  private applyDiffDecorations(
+    diff: InstanceDiff,
+    priorBoxes: Map<string, { x: number; y: number; width: number; height: number; label: string }>
+  ): void {
+    if (!this.container) return;
+    const edgeKey = (relation: string, source: string, target: string) => `${relation}\u0000${source}\u0000${target}`;
+
+    const added = new Set(diff.addedAtoms.map(atom => atom.id));
+    const changed = new Set([...diff.connectivityChanged, ...diff.retypedAtoms.map(atom => atom.id)]);
+    this.svgNodes
+      ?.classed('diff-added', (d: any) => added.has(d.id))
+      .classed('diff-changed', (d: any) => !added.has(d.id) && changed.has(d.id));
+
+    const addedEdges = new Set(diff.relations.flatMap(({ relation, added: tuples }) =>
+      tuples.map(t => edgeKey(relation, t.atoms[0], t.atoms[t.atoms.length - 1]))));
+    this.svgLinkGroups
+      ?.classed('diff-added', (d: any) =>
+        !this.isAlignmentEdge(d) && addedEdges.has(edgeKey(d.relName, d.source?.id, d.target?.id)));
+
+    // Ghosts go under the live graph, in layout coordinates so they pan and zoom with it.
+    const ghosts = this.container.insert('g', ':first-child').attr('class', 'diff-ghosts');
+    const current = new Map<string, { x: number; y: number }>();
+    for (const node of this.currentLayout?.nodes ?? []) {
+      if (node.x !== undefined && node.y !== undefined) current.set(node.id, { x: node.x, y: node.y });
+    }
+    const at = (id: string) => current.get(id) ?? priorBoxes.get(id);
+
+    for (const { relation, removed } of diff.relations) {
+      for (const tuple of removed) {
+        const source = at(tuple.atoms[0]);
+        const target = at(tuple.atoms[tuple.atoms.length - 1]);
+        if (!source || !target || tuple.atoms.length < 2) continue;
+        ghosts.append('line')
+          .attr('class', 'diff-removed-link')
+          .attr('x1', source.x).attr('y1', source.y)
+          .attr('x2', target.x).attr('y2', target.y)
+          .append('title').text(`${relation}: ${tuple.atoms.join(' → ')}`);
+      }
+    }
+
+    for (const atom of diff.removedAtoms) {
+      const box = priorBoxes.get(atom.id);
+      if (!box) continue;
+      const ghost = ghosts.append('g').attr('class', 'diff-removed-node');
+      ghost.append('rect')
+        .attr('x', box.x - box.width / 2).attr('y', box.y - box.height / 2)
+        .attr('width', box.width).attr('height', box.height)
+        .attr('rx', 3);
+      ghost.append('text')
+        .attr('x', box.x).attr('y', box.y)
+        .attr('dy', '0.35em')
+        .text(box.label);
+    }
+  }
+
   /** Public API for relation highlighting */
 
   /**
@@ -7296,6 +7791,801 @@ export class WebColaCnDGraph extends HTMLElementBase {
     });
   }
 
+  // =========================================
+  // COLLAPSIBLE GROUPS
+  // =========================================
+
+  /**
+   * Names of the groups currently drawn collapsed: those the spec marks
+   * `collapsed: true`, plus those collapseGroup closed, minus those
+   * expandGroup opened.
+   */
+  public getCollapsedGroups(): string[] {
+    if (!this.sourceLayout) return [];
+    const byDefault = new Set(initiallyCollapsedGroups(this.sourceLayout));
+    return this.sourceLayout.groups
+      .filter(g => !g.negated && (this.groupCollapseOverrides.get(g.name) ?? byDefault.has(g.name)))
+      .map(g => g.name);
+  }
+
+  /** True when group `name` is drawn as its summary node. */
+  public isGroupCollapsed(name: string): boolean {
+    return this.getCollapsedGroups().includes(name);
+  }
+
+  /**
+   * Collapse group `name` into one summary node showing its name and size.
+   * Edges to members are drawn to that node, and the members drop out of the
+   * layout, taking their separation and alignment constraints with them.
+   * Everything else keeps its place; the summary node starts where the
+   * members' centre was.
+   *
+   * Dispatches `group-toggle` with `{ group, collapsed: true }`. Double-clicking
+   * a group does the same.
+   *
+   * @throws {Error} When nothing is rendered or no group is named `name`.
+   */
+  public async collapseGroup(name: string): Promise<void> {
+    const layout = this.requireSourceLayout();
+    const group = this.requireSourceGroup(name);
+    if (this.isGroupCollapsed(name)) return;
+
+    const state = this.getLayoutState();
+    this.collapsedGroupStates.set(name, state);
+    this.groupCollapseOverrides.set(name, true);
+
+    const positions = state.positions.filter(p => !group.nodeIds.includes(p.id));
+    const centre = this.centreOf(state.positions.filter(p => group.nodeIds.includes(p.id)));
+    if (centre) positions.push({ id: collapsedGroupNodeId(name), ...centre });
+
+    await this.renderLayout(layout, { priorPositions: { positions, transform: state.transform } });
+    this.dispatchGroupToggle(name, true);
+  }
+
+  /**
+   * Expand group `name` back into its members. Members return to where they
+   * were when the group was collapsed, moved along with the summary node if it
+   * has been dragged since; a group the spec started collapsed lays its
+   * members out around the summary node instead.
+   *
+   * Dispatches `group-toggle` with `{ group, collapsed: false }`.
+   * Double-clicking a summary node does the same.
+   *
+   * @throws {Error} When nothing is rendered or no group is named `name`.
+   */
+  public async expandGroup(name: string): Promise<void> {
+    const layout = this.requireSourceLayout();
+    const group = this.requireSourceGroup(name);
+    if (!this.isGroupCollapsed(name)) return;
+
+    const current = this.getLayoutState();
+    const summaryId = collapsedGroupNodeId(name);
+    const summary = current.positions.find(p => p.id === summaryId);
+    const positions = current.positions.filter(p => p.id !== summaryId);
+    const drawn = new Set(positions.map(p => p.id));
+
+    const stored = this.collapsedGroupStates.get(name);
+    if (stored) {
+      // Bring back whatever the collapse hid: the members, or the summary
+      // nodes of groups collapsed inside this one.
+      const hidden = stored.positions.filter(p => !drawn.has(p.id));
+      const centre = this.centreOf(stored.positions.filter(p => group.nodeIds.includes(p.id)));
+      const dx = summary && centre ? summary.x - centre.x : 0;
+      const dy = summary && centre ? summary.y - centre.y : 0;
+      positions.push(...hidden.map(p => ({ id: p.id, x: p.x + dx, y: p.y + dy })));
+    } else if (summary) {
+      // Never drawn expanded: seed the members in a small grid on the summary.
+      const columns = Math.ceil(Math.sqrt(group.nodeIds.length));
+      const rows = Math.ceil(group.nodeIds.length / columns);
+      const spacing = WebColaCnDGraph.COLLAPSED_MEMBER_SPACING;
+      group.nodeIds.forEach((id, i) => {
+        positions.push({
+          id,
+          x: summary.x + ((i % columns) - (columns - 1) / 2) * spacing,
+          y: summary.y + (Math.floor(i / columns) - (rows - 1) / 2) * spacing,
+        });
+      });
+    }
+
+    this.collapsedGroupStates.delete(name);
+    this.groupCollapseOverrides.set(name, false);
+
+    await this.renderLayout(layout, { priorPositions: { positions, transform: current.transform } });
+    this.dispatchGroupToggle(name, false);
+  }
+
+  /** Collapse group `name` if it is expanded, expand it if it is collapsed. */
+  public async toggleGroup(name: string): Promise<void> {
+    if (this.isGroupCollapsed(name)) {
+      await this.expandGroup(name);
+    } else {
+      await this.collapseGroup(name);
+    }
+  }
+
+  private requireSourceLayout(): InstanceLayout {
+    if (!this.sourceLayout) {
+      throw new Error('No layout rendered. Call renderLayout before collapsing or expanding groups.');
+    }
+    return this.sourceLayout;
+  }
+
+  private requireSourceGroup(name: string): LayoutGroup {
+    const group = this.findSourceGroup(name);
+    if (!group) {
+      throw new Error(`No group named "${name}" in the rendered layout.`);
+    }
+    return group;
+  }
+
+  /** The group named `name` in the uncollapsed layout, if it can be collapsed. */
+  private findSourceGroup(name: string): LayoutGroup | undefined {
+    return this.sourceLayout?.groups.find(g => g.name === name && !g.negated && g.nodeIds.length > 0);
+  }
+
+  private centreOf(points: Array<{ x: number; y: number }>): { x: number; y: number } | null {
+    const placed = points.filter(p => Number.isFinite(p.x) && Number.isFinite(p.y));
+    if (placed.length === 0) return null;
+    return {
+      x: placed.reduce((sum, p) => sum + p.x, 0) / placed.length,
+      y: placed.reduce((sum, p) => sum + p.y, 0) / placed.length,
+    };
+  }
+
+  private dispatchGroupToggle(group: string, collapsed: boolean): void {
+    this.dispatchEvent(new CustomEvent('group-toggle', {
+      detail: { group, collapsed },
+      bubbles: true,
+      composed: true,
+    }));
+  }
+
+  // =========================================
+  // SEARCH
+  // =========================================
+
+  /**
+   * Set the evaluator that selector searches run against, normally the one
+   * the layout was computed with. The toolbar's Selector toggle is shown only
+   * while an evaluator is set; passing null hides it again.
+   */
+  public setSearchEvaluator(evaluator: IEvaluator | null): void {
+    this.searchEvaluator = evaluator;
+    const mode = this.shadowRoot?.querySelector('#search-mode') as HTMLButtonElement | null;
+    if (mode) {
+      mode.hidden = !evaluator;
+      if (!evaluator) mode.setAttribute('aria-pressed', 'false');
+    }
+  }
+
+  /**
+   * Find atoms in the diagram and highlight them. A text query matches,
+   * case-insensitively, anywhere in a node's label, types, or attribute
+   * values; with `{ selector: true }` the query is a selector, evaluated by
+   * the evaluator given to setSearchEvaluator. A member of a collapsed group
+   * is found as its group's summary node.
+   *
+   * The view pans to the first match, and nextSearchMatch /
+   * previousSearchMatch cycle through the rest. An empty query clears the
+   * search. Dispatches `search-change` with `{ query, selector, matches, current }`.
+   *
+   * @returns The ids of the matched nodes, in the order they are cycled through.
+   * @throws {Error} When a selector search has no evaluator, or the selector does not evaluate.
+   *
+   * @example
+   * ```typescript
+   * graph.search('alice');
+   * graph.setSearchEvaluator(evaluator);
+   * graph.search('Student & advisor.Professor', { selector: true });
+   * ```
+   */
+  public search(query: string, options: { selector?: boolean } = {}): string[] {
+    const selector = options.selector ?? false;
+    if (!query.trim()) {
+      this.clearSearch();
+      return [];
+    }
+
+    const matches = this.matchSearch(query, selector);
+    this.searchQuery = { query, selector };
+    this.searchMatches = matches;
+    this.searchIndex = this.searchMatches.length > 0 ? 0 : -1;
+    this.showSearchMatch();
+    return [...this.searchMatches];
+  }
+
+  /** The drawn nodes `query` matches, in cycling order. */
+  private matchSearch(query: string, selector: boolean): string[] {
+    const nodes = this.getSearchableNodes();
+    if (!selector) {
+      return this.toDrawnNodeIds(matchNodesByText(nodes, query));
+    }
+    if (!this.searchEvaluator) {
+      throw new Error('Selector search needs an evaluator; call setSearchEvaluator first.');
+    }
+    return this.toDrawnNodeIds(matchNodesBySelector(nodes, query, this.searchEvaluator));
+  }
+
+  /**
+   * Re-run the last search over the layout being drawn, whose nodes — and,
+   * for a new instance, whose atoms — the old matches may not be. Keeps the
+   * current match when it still matches, and does not pan.
+   */
+  private refreshSearch(): void {
+    const last = this.searchQuery;
+    if (!last) return;
+    const current = this.searchMatches[this.searchIndex];
+    let error: string | undefined;
+    try {
+      this.searchMatches = this.matchSearch(last.query, last.selector);
+    } catch (e) {
+      this.searchMatches = [];
+      error = e instanceof Error ? e.message : String(e);
+    }
+    const kept = current === undefined ? -1 : this.searchMatches.indexOf(current);
+    this.searchIndex = kept >= 0 ? kept : this.searchMatches.length > 0 ? 0 : -1;
+    this.applySearchHighlight();
+    this.updateSearchControl(error);
+    this.dispatchSearchChange();
+  }
+
+  /** Move to the next match, wrapping around. Returns its id, or null when nothing matched. */
+  public nextSearchMatch(): string | null {
+    return this.stepSearchMatch(1);
+  }
+
+  /** Move to the previous match, wrapping around. Returns its id, or null when nothing matched. */
+  public previousSearchMatch(): string | null {
+    return this.stepSearchMatch(-1);
+  }
+
+  /** Ids of the nodes the last search matched, in cycling order. */
+  public getSearchMatches(): string[] {
+    return [...this.searchMatches];
+  }
+
+  /** Empty the search box and remove the match highlights. */
+  public clearSearch(): void {
+    const hadSearch = this.searchQuery !== null;
+    this.searchQuery = null;
+    this.searchMatches = [];
+    this.searchIndex = -1;
+
+    const input = this.shadowRoot?.querySelector('#search-input') as HTMLInputElement | null;
+    if (input) input.value = '';
+    this.applySearchHighlight();
+    this.updateSearchControl();
+    if (hadSearch) this.dispatchSearchChange();
+  }
+
+  /**
+   * Wire the toolbar search box. Text searches run as the user types; a
+   * selector runs on Enter, since a half-typed one rarely parses. Once a
+   * search has run, Enter steps to the next match and Shift+Enter back, and
+   * Escape clears it.
+   */
+  private initializeSearchControl(): void {
+    const input = this.root.querySelector('#search-input') as HTMLInputElement | null;
+    const mode = this.root.querySelector('#search-mode') as HTMLButtonElement | null;
+    const prev = this.root.querySelector('#search-prev') as HTMLButtonElement | null;
+    const next = this.root.querySelector('#search-next') as HTMLButtonElement | null;
+    if (!input) return;
+
+    const selectorMode = () => mode?.getAttribute('aria-pressed') === 'true';
+    const run = () => {
+      try {
+        this.search(input.value, { selector: selectorMode() });
+      } catch (error) {
+        // Keep what was typed so it can be fixed; show why it failed instead of a count.
+        this.searchQuery = { query: input.value, selector: selectorMode() };
+        this.searchMatches = [];
+        this.searchIndex = -1;
+        this.applySearchHighlight();
+        this.updateSearchControl(error instanceof Error ? error.message : String(error));
+      }
+    };
+
+    input.addEventListener('input', () => {
+      if (!selectorMode() || !input.value.trim()) run();
+    });
+
+    input.addEventListener('keydown', (event: KeyboardEvent) => {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        const last = this.searchQuery;
+        const unchanged = last !== null && last.query === input.value && last.selector === selectorMode();
+        if (unchanged && this.searchMatches.length > 0) {
+          if (event.shiftKey) this.previousSearchMatch();
+          else this.nextSearchMatch();
+        } else {
+          run();
+        }
+      } else if (event.key === 'Escape') {
+        event.preventDefault();
+        this.clearSearch();
+      }
+    });
+
+    if (mode) {
+      mode.addEventListener('click', () => {
+        mode.setAttribute('aria-pressed', String(!selectorMode()));
+        input.placeholder = selectorMode() ? 'Selector…' : 'Find…';
+        if (input.value.trim()) run();
+        input.focus();
+      });
+    }
+
+    prev?.addEventListener('click', () => this.previousSearchMatch());
+    next?.addEventListener('click', () => this.nextSearchMatch());
+  }
+
+  private stepSearchMatch(step: number): string | null {
+    const count = this.searchMatches.length;
+    if (count === 0) return null;
+    this.searchIndex = (this.searchIndex + step + count) % count;
+    this.showSearchMatch();
+    return this.searchMatches[this.searchIndex];
+  }
+
+  /**
+   * What a search looks through: every atom of the layout, members of
+   * collapsed groups included, plus the summary nodes drawn for those groups.
+   */
+  private getSearchableNodes(): SearchableNode[] {
+    const drawn: SearchableNode[] = this.currentLayout?.nodes ?? [];
+    const source: SearchableNode[] = this.sourceLayout?.nodes ?? [];
+    const sourceIds = new Set(source.map(n => n.id));
+    return [...source, ...drawn.filter(n => !sourceIds.has(n.id))]
+      .filter(n => !this.isHiddenNode(n));
+  }
+
+  /** Maps matched ids to drawn nodes: a collapsed member to its group's summary node. */
+  private toDrawnNodeIds(ids: string[]): string[] {
+    const drawn = new Set((this.currentLayout?.nodes ?? []).map(n => n.id));
+    const collapsed = new Set(this.getCollapsedGroups());
+    const groups = (this.sourceLayout?.groups ?? []).filter(g => collapsed.has(g.name));
+
+    const result = new Set<string>();
+    for (const id of ids) {
+      if (drawn.has(id)) {
+        result.add(id);
+        continue;
+      }
+      // Nested collapsed groups: only the outermost summary is drawn.
+      const group = groups.find(g => g.nodeIds.includes(id) && drawn.has(collapsedGroupNodeId(g.name)));
+      if (group) result.add(collapsedGroupNodeId(group.name));
+    }
+    return [...result];
+  }
+
+  /** Highlight the matches, pan to the current one, and report it. */
+  private showSearchMatch(): void {
+    this.applySearchHighlight();
+    this.panToSearchMatch();
+    this.updateSearchControl();
+    this.dispatchSearchChange();
+  }
+
+  private applySearchHighlight(): void {
+    if (!this.svgNodes) return;
+    const matches = new Set(this.searchMatches);
+    const current = this.searchMatches[this.searchIndex];
+    (this.svgNodes as d3.Selection<SVGGElement, any, any, unknown>)
+      .classed('search-match', (d: any) => matches.has(d.id))
+      .classed('search-current', (d: any) => d.id === current);
+  }
+
+  /** Centre the view on the current match, keeping the zoom level. */
+  private panToSearchMatch(): void {
+    const id = this.searchMatches[this.searchIndex];
+    const node = this.currentLayout?.nodes?.find(n => n.id === id);
+    if (!node || node.x == null || node.y == null || !this.svg || !this.zoomBehavior) return;
+    this.svg.transition().duration(300).call(this.zoomBehavior.translateTo, node.x, node.y);
+  }
+
+  /** Sync the toolbar search box with the last search, or show why it failed. */
+  private updateSearchControl(error?: string): void {
+    const root = this.shadowRoot;
+    if (!root) return;
+    const input = root.querySelector('#search-input') as HTMLInputElement | null;
+    const mode = root.querySelector('#search-mode') as HTMLButtonElement | null;
+    const count = root.querySelector('#search-count') as HTMLElement | null;
+    const prev = root.querySelector('#search-prev') as HTMLButtonElement | null;
+    const next = root.querySelector('#search-next') as HTMLButtonElement | null;
+    const total = this.searchMatches.length;
+
+    // A search started through the API shows up in the box too.
+    if (this.searchQuery) {
+      if (input && input.value !== this.searchQuery.query) input.value = this.searchQuery.query;
+      if (mode && !mode.hidden) mode.setAttribute('aria-pressed', String(this.searchQuery.selector));
+    }
+    if (count) {
+      count.classList.toggle('search-error', error !== undefined);
+      count.title = error ?? '';
+      count.textContent = error !== undefined ? 'Invalid selector'
+        : !this.searchQuery ? ''
+        : total === 0 ? 'No matches'
+        : `${this.searchIndex + 1} of ${total}`;
+    }
+    if (prev) prev.disabled = total === 0;
+    if (next) next.disabled = total === 0;
+  }
+
+  private dispatchSearchChange(): void {
+    this.dispatchEvent(new CustomEvent('search-change', {
+      detail: {
+        query: this.searchQuery?.query ?? '',
+        selector: this.searchQuery?.selector ?? false,
+        matches: [...this.searchMatches],
+        current: this.searchMatches[this.searchIndex] ?? null,
+      },
+      bubbles: true,
+      composed: true,
+    }));
+  }
+
+  // =========================================
+  // PINNING AND ARRANGEMENTS
+  // =========================================
+
+  /**
+   * Pin node `id` where it is drawn. On this layout and every later render,
+   * WebCola holds a pinned node fixed wherever its constraints allow, and
+   * frees it only where the pin would violate one. Dragging a pinned node
+   * moves its pin; with the `pin-on-drag` attribute, dragging any node pins it.
+   *
+   * Dispatches `node-pin-change` with `{ id, pinned: true, position }`.
+   * Clicking a node's pin toggle does the same.
+   *
+   * @throws {Error} When no node `id` is drawn.
+   */
+  public pinNode(id: string): void {
+    const node = this.currentLayout?.nodes?.find(n => n.id === id);
+    if (!node) {
+      throw new Error(`No node "${id}" is drawn.`);
+    }
+    this.setPin(node, true);
+  }
+
+  /**
+   * Unpin node `id`, so the next render is free to move it. Dispatches
+   * `node-pin-change` with `{ id, pinned: false, position }`.
+   */
+  public unpinNode(id: string): void {
+    const pin = this.pinnedPositions.get(id);
+    if (!pin) return;
+    const node = this.currentLayout?.nodes?.find(n => n.id === id);
+    if (node) {
+      this.setPin(node, false);
+      return;
+    }
+    // The pin of an atom the current instance lacks.
+    this.pinnedPositions.delete(id);
+    this.dispatchPinChange(id, false, pin);
+  }
+
+  /** Pin node `id` if it is free, unpin it if pinned. Returns whether it is now pinned. */
+  public togglePin(id: string): boolean {
+    if (this.isNodePinned(id)) {
+      this.unpinNode(id);
+      return false;
+    }
+    this.pinNode(id);
+    return true;
+  }
+
+  /** True when node `id` is pinned. */
+  public isNodePinned(id: string): boolean {
+    return this.pinnedPositions.has(id);
+  }
+
+  /** Ids of the pinned nodes, including those of atoms not drawn now. */
+  public getPinnedNodes(): string[] {
+    return [...this.pinnedPositions.keys()];
+  }
+
+  /**
+   * The current arrangement, to save and later restore with applyArrangement:
+   * where each node is drawn, keyed by atom id, which nodes are pinned, and
+   * the pan and zoom. Pins of atoms not drawn now are included.
+   *
+   * @example
+   * ```typescript
+   * localStorage.setItem('arrangement', JSON.stringify(graph.getArrangement()));
+   * ```
+   */
+  public getArrangement(): Arrangement {
+    const { positions, transform } = this.getLayoutState();
+    const nodes = new Map<string, ArrangedNode>();
+    for (const p of positions) {
+      if (!this.isHiddenNode(p)) nodes.set(p.id, { x: p.x, y: p.y });
+    }
+    for (const [id, pin] of this.pinnedPositions) {
+      nodes.set(id, { x: pin.x, y: pin.y, pinned: true });
+    }
+    return { version: ARRANGEMENT_VERSION, nodes: Object.fromEntries(nodes), transform };
+  }
+
+  /**
+   * Restore an arrangement saved with getArrangement. Its pins replace the
+   * current ones, and the layout is rendered again with each node the
+   * arrangement names held where it was saved, wherever constraints allow.
+   * Nodes it does not name keep their places, and atoms it names that are
+   * not in the layout are skipped, though their pins are kept. Before the
+   * first render only the pins are taken; that render honours them.
+   *
+   * @param arrangement - An arrangement, or its JSON text
+   * @throws {Error} When `arrangement` is not a valid arrangement (see parseArrangement).
+   */
+  public async applyArrangement(arrangement: Arrangement | string): Promise<void> {
+    const { nodes, transform } = parseArrangement(arrangement);
+    const saved = Object.entries(nodes);
+    this.pinnedPositions = new Map(
+      saved.filter(([, node]) => node.pinned).map(([id, node]) => [id, { x: node.x, y: node.y }])
+    );
+    if (!this.sourceLayout) return;
+
+    const current = this.getLayoutState();
+    const named = new Set(saved.map(([id]) => id));
+    const positions = [
+      ...current.positions.filter(p => !named.has(p.id)),
+      ...saved.map(([id, node]) => ({ id, x: node.x, y: node.y })),
+    ];
+    await this.renderLayout(this.sourceLayout, {
+      priorPositions: { positions, transform: transform ?? current.transform },
+    });
+  }
+
+  /** Pins or unpins a drawn node at its current position, live and for later renders. */
+  private setPin(node: NodeWithMetadata, pinned: boolean): void {
+    const position = { x: node.x, y: node.y };
+    if (pinned) {
+      this.pinnedPositions.set(node.id, position);
+      node.fixed = (node.fixed ?? 0) | 1;
+    } else {
+      this.pinnedPositions.delete(node.id);
+      node.fixed = (node.fixed ?? 0) & ~1;
+    }
+    this.svgNodes?.filter((d: any) => d.id === node.id).classed('pinned', pinned);
+    this.dispatchPinChange(node.id, pinned, position);
+  }
+
+  /** The pins, as the translator's `pinnedPositions`. */
+  private getPinnedPositionHints(): NodePositionHint[] {
+    return [...this.pinnedPositions].map(([id, { x, y }]) => ({ id, x, y }));
+  }
+
+  private dispatchPinChange(id: string, pinned: boolean, position: { x: number; y: number }): void {
+    this.dispatchEvent(new CustomEvent('node-pin-change', {
+      detail: { id, pinned, position },
+      bubbles: true,
+      composed: true,
+    }));
+  }
+
+  // =========================================
+  // MINIMAP AND SEMANTIC ZOOM
+  // =========================================
+
+  /**
+   * The current semantic zoom level. Always `detail` unless the host set the
+   * `semantic-zoom` attribute and the view is zoomed out below it.
+   */
+  public getSemanticZoomLevel(): SemanticZoomLevel {
+    return this.semanticZoomLevel;
+  }
+
+  /**
+   * Scale below which the overview level applies: the `semantic-zoom`
+   * attribute's value, or the default when it is present without a usable
+   * number. Null when the attribute is absent.
+   */
+  private getSemanticZoomThreshold(): number | null {
+    const value = this.getAttribute('semantic-zoom');
+    if (value === null) return null;
+    const threshold = Number.parseFloat(value);
+    return Number.isFinite(threshold) && threshold > 0
+      ? threshold
+      : WebColaCnDGraph.DEFAULT_SEMANTIC_ZOOM_THRESHOLD;
+  }
+
+  /**
+   * Switch between the detail and overview levels when the zoom crosses the
+   * threshold. Only a change of level touches the DOM, so this is cheap to
+   * call on every zoom event. Dispatches `semantic-zoom-change` with
+   * `{ level, scale }` on each switch.
+   */
+  private applySemanticZoom(): void {
+    if (!this.svg) return;
+    const threshold = this.getSemanticZoomThreshold();
+    const scale = this.getCurrentZoomScale();
+    const level: SemanticZoomLevel = threshold !== null && scale < threshold ? 'overview' : 'detail';
+    if (level === this.semanticZoomLevel) return;
+
+    this.semanticZoomLevel = level;
+    this.svg.classed('semantic-overview', level === 'overview');
+    if (this.svgNodes && !this.useGridPipeline) {
+      // Re-centre the main label lines for the level.
+      this.updateNodePositionsOnly();
+    }
+    this.updateGroupSummaries();
+
+    this.dispatchEvent(new CustomEvent('semantic-zoom-change', {
+      detail: { level, scale },
+      bubbles: true,
+      composed: true,
+    }));
+  }
+
+  /**
+   * At the overview level, draw each outermost group as a blob holding its
+   * member count, and class what the blob stands in for — members, edges
+   * between members, nested groups — so the stylesheet hides it. At the
+   * detail level, undo all of that.
+   */
+  private updateGroupSummaries(): void {
+    if (!this.container) return;
+    const overview = this.semanticZoomLevel === 'overview';
+    const groups: any[] = overview ? (this.currentLayout?.groups ?? []) : [];
+
+    // Subgroups are indices before the solver starts and group objects after.
+    const subgroupsOf = (group: any): any[] => (Array.isArray(group.groups) ? group.groups : [])
+      .map((sub: unknown) => (typeof sub === 'number' ? groups[sub] : sub))
+      .filter((sub: any) => sub != null);
+
+    const nested = new Set<any>(groups.flatMap(subgroupsOf));
+    const summarised = groups.filter(
+      (g: any) => g.bounds && !nested.has(g) && !g.parent && !this.isDisconnectedGroup(g) && !this.isErrorGroup(g)
+    );
+
+    const members = new Set<any>();
+    const counts = new Map<any, number>();
+    for (const group of summarised) {
+      const groupMembers = new Set<any>();
+      const visit = (g: any, seen: Set<any>): void => {
+        if (seen.has(g)) return;
+        seen.add(g);
+        for (const leaf of Array.isArray(g.leaves) ? g.leaves : []) {
+          const index = this.resolveGroupLeafToNodeIndex(leaf);
+          const node = index === null ? null : this.currentLayout.nodes[index];
+          if (node && !this.isHiddenNode(node)) groupMembers.add(node);
+        }
+        subgroupsOf(g).forEach(sub => visit(sub, seen));
+      };
+      visit(group, new Set());
+      counts.set(group, groupMembers.size);
+      groupMembers.forEach(node => members.add(node));
+    }
+
+    this.svgNodes?.classed('group-member', (d: any) => members.has(d));
+    this.svgLinkGroups?.classed('group-internal', (d: any) => members.has(d.source) && members.has(d.target));
+    this.svgGroups?.classed('nested-group', (d: any) => overview && !summarised.includes(d));
+    this.svgGroupLabels?.classed('nested-group', (d: any) => overview && !summarised.includes(d));
+    this.svgGroupLabelBgs?.classed('nested-group', (d: any) => overview && !summarised.includes(d));
+
+    const summaries = this.container.selectAll('text.group-summary').data(summarised);
+    summaries.exit().remove();
+    summaries.enter()
+      .append('text')
+      .attr('class', 'group-summary')
+      .attr('text-anchor', 'middle')
+      .attr('dominant-baseline', 'middle')
+      .merge(summaries)
+      .attr('x', (d: any) => d.bounds.x + d.bounds.width() / 2)
+      .attr('y', (d: any) => d.bounds.y + d.bounds.height() / 2)
+      // Sized to the blob, so the count stays legible however far out the view is.
+      .style('font-size', (d: any) => `${Math.max(
+        WebColaCnDGraph.GROUP_SUMMARY_MIN_FONT_SIZE,
+        Math.min(d.bounds.width(), d.bounds.height()) * 0.4
+      )}px`)
+      .text((d: any) => String(counts.get(d) ?? 0))
+      .raise();
+  }
+
+  /**
+   * Click or drag on the minimap to centre the view there.
+   */
+  private initializeMinimap(): void {
+    const minimap = this.root.querySelector('#minimap') as HTMLElement | null;
+    if (!minimap) return;
+
+    const panTo = (event: PointerEvent): void => {
+      const point = this.minimapPointToLayout(minimap, event.clientX, event.clientY);
+      if (!point || !this.svg || !this.zoomBehavior) return;
+      this.userHasManuallyZoomed = true;
+      this.svg.call(this.zoomBehavior.translateTo, point.x, point.y);
+    };
+    minimap.addEventListener('pointerdown', (event: PointerEvent) => {
+      minimap.setPointerCapture?.(event.pointerId);
+      panTo(event);
+    });
+    minimap.addEventListener('pointermove', (event: PointerEvent) => {
+      if (event.buttons & 1) panTo(event);
+    });
+  }
+
+  /**
+   * Layout coordinates under a client point on the minimap, undoing the
+   * centred fit of its viewBox.
+   */
+  private minimapPointToLayout(minimap: HTMLElement, clientX: number, clientY: number): { x: number; y: number } | null {
+    const view = this.minimapView;
+    if (!view) return null;
+    const box = minimap.getBoundingClientRect();
+    const scale = Math.min(box.width / view.width, box.height / view.height);
+    if (!Number.isFinite(scale) || scale <= 0) return null;
+    return {
+      x: view.x + (clientX - box.left - (box.width - view.width * scale) / 2) / scale,
+      y: view.y + (clientY - box.top - (box.height - view.height * scale) / 2) / scale,
+    };
+  }
+
+  /**
+   * Redraw the minimap on the next frame. Ticks and zoom events arrive many
+   * to a frame; this keeps it to one redraw.
+   */
+  private scheduleMinimapUpdate(): void {
+    if (this.minimapFrame !== null) return;
+    if (typeof requestAnimationFrame !== 'function') {
+      this.updateMinimap();
+      return;
+    }
+    this.minimapFrame = requestAnimationFrame(() => {
+      this.minimapFrame = null;
+      this.updateMinimap();
+    });
+  }
+
+  /**
+   * Draw the whole graph in miniature — groups as outlines, nodes as boxes —
+   * with the region the main view shows outlined on top.
+   */
+  private updateMinimap(): void {
+    const minimap = this.shadowRoot?.querySelector('#minimap') as HTMLElement | null;
+    if (!minimap || minimap.hidden || !this.currentLayout) return;
+    const bounds = this.calculateContentBounds();
+    if (!bounds) return;
+
+    const padding = WebColaCnDGraph.VIEWBOX_PADDING;
+    this.minimapView = {
+      x: bounds.x - padding,
+      y: bounds.y - padding,
+      width: bounds.width + padding * 2,
+      height: bounds.height + padding * 2,
+    };
+    const map = d3.select(minimap).select('svg')
+      .attr('viewBox', `${this.minimapView.x} ${this.minimapView.y} ${this.minimapView.width} ${this.minimapView.height}`)
+      .attr('preserveAspectRatio', 'xMidYMid meet');
+    const content = map.select('.minimap-content');
+
+    const groups = (this.currentLayout.groups ?? []).filter((g: any) => g.bounds && !this.isDisconnectedGroup(g));
+    const groupRects = content.selectAll('rect.minimap-group').data(groups);
+    groupRects.exit().remove();
+    groupRects.enter().append('rect').attr('class', 'minimap-group')
+      .merge(groupRects)
+      .attr('x', (d: any) => d.bounds.x)
+      .attr('y', (d: any) => d.bounds.y)
+      .attr('width', (d: any) => d.bounds.width())
+      .attr('height', (d: any) => d.bounds.height());
+
+    const nodes = (this.currentLayout.nodes ?? []).filter((n: any) => n.x != null && !this.isHiddenNode(n));
+    const nodeRects = content.selectAll('rect.minimap-node').data(nodes);
+    nodeRects.exit().remove();
+    nodeRects.enter().append('rect').attr('class', 'minimap-node')
+      .merge(nodeRects)
+      .attr('x', (d: any) => d.x - (d.visualWidth ?? d.width ?? 0) / 2)
+      .attr('y', (d: any) => d.y - (d.visualHeight ?? d.height ?? 0) / 2)
+      .attr('width', (d: any) => d.visualWidth ?? d.width ?? 0)
+      .attr('height', (d: any) => d.visualHeight ?? d.height ?? 0);
+
+    const viewport = this.getViewportBoundsInLayoutSpace(this.getCurrentTransform());
+    map.select('.minimap-viewport')
+      .attr('x', viewport ? viewport.minX : 0)
+      .attr('y', viewport ? viewport.minY : 0)
+      .attr('width', viewport ? viewport.maxX - viewport.minX : 0)
+      .attr('height', viewport ? viewport.maxY - viewport.minY : 0);
+  }
+
   // =========================================
   // SCREENSHOT / EXPORT API
   // =========================================
@@ -7314,7 +8604,7 @@ export class WebColaCnDGraph extends HTMLElementBase {
 
     try {
       // Clone the SVG so we don't mutate the live DOM
-      const svgClone = svg.cloneNode(true) as SVGSVGElement;
+      const svgClone = await this.cloneSvgForExport(svg);
 
       // Read viewBox dimensions for proper sizing
       const viewBox = svg.getAttribute('viewBox');
@@ -7332,12 +8622,6 @@ export class WebColaCnDGraph extends HTMLElementBase {
       svgClone.setAttribute('height', String(height));
       svgClone.removeAttribute('preserveAspectRatio');
 
-      // Inline computed styles from the live SVG into the clone so they survive serialization
-      this.inlineComputedStyles(svg, svgClone);
-
-      // Convert <image> hrefs to base64 data URIs so icons render in the PNG
-      await this.convertImagesToBase64(svgClone);
-
       // Match the on-screen canvas background so PNG exports look like the live view
       const bgRect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
       bgRect.setAttribute('width', '100%');
@@ -7372,6 +8656,91 @@ export class WebColaCnDGraph extends HTMLElementBase {
     }
   }
 
+  /**
+   * The whole drawing as a self-contained SVG document: computed styles
+   * inlined, icons embedded as data URIs, and the view fitted to the drawing
+   * rather than to the current pan and zoom.
+   *
+   * @returns The serialized SVG, ready to write to a `.svg` file
+   */
+  public async exportSvg(): Promise<string> {
+    const svg = this.getExportSvg();
+    const { bounds } = this.getExportScene(svg);
+    const svgClone = await this.cloneSvgForExport(svg);
+
+    svgClone.querySelector('.zoomable')?.removeAttribute('transform');
+    svgClone.setAttribute('viewBox', `${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}`);
+    svgClone.setAttribute('width', String(bounds.width));
+    svgClone.setAttribute('height', String(bounds.height));
+    svgClone.removeAttribute('preserveAspectRatio');
+
+    const bgRect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+    bgRect.setAttribute('x', String(bounds.x));
+    bgRect.setAttribute('y', String(bounds.y));
+    bgRect.setAttribute('width', String(bounds.width));
+    bgRect.setAttribute('height', String(bounds.height));
+    bgRect.setAttribute('fill', this.getCanvasBackground());
+    svgClone.insertBefore(bgRect, svgClone.firstChild);
+
+    return new XMLSerializer().serializeToString(svgClone);
+  }
+
+  /**
+   * The whole drawing as TikZ source: node boxes, group rectangles, routed
+   * edge paths and labels, in layout coordinates. Raster images are omitted.
+   *
+   * @param options - `standalone: false` returns just the `tikzpicture`
+   * @returns LaTeX source, by default a compilable `standalone` document
+   */
+  public exportTikz(options?: TikzOptions): string {
+    return renderTikz(this.getExportScene(this.getExportSvg()), options);
+  }
+
+  /**
+   * The whole drawing as a one-page PDF sized to the drawing, at 0.75 pt per
+   * px. Labels are set in the standard Helvetica faces; raster images are
+   * omitted.
+   *
+   * @param options - Document metadata, such as the title
+   * @returns The PDF file as an `application/pdf` Blob
+   */
+  public exportPdf(options?: PdfOptions): Blob {
+    const bytes = renderPdf(this.getExportScene(this.getExportSvg()), options);
+    return new Blob([bytes], { type: 'application/pdf' });
+  }
+
+  /**
+   * The rendered SVG, for the export methods.
+   */
+  private getExportSvg(): SVGSVGElement {
+    const svg = this.shadowRoot?.querySelector('#svg') as SVGSVGElement | null;
+    if (!svg) {
+      throw new Error('No SVG element found to export.');
+    }
+    return svg;
+  }
+
+  /**
+   * The drawing under the zoom layer as a vector scene. The layer's own
+   * transform is the pan and zoom, so the scene is in layout coordinates.
+   */
+  private getExportScene(svg: SVGSVGElement): VectorScene {
+    const layer = svg.querySelector('.zoomable') ?? svg;
+    return extractVectorScene(layer, { background: this.getCanvasBackground() });
+  }
+
+  /**
+   * Clones the live SVG for serialization: computed styles are inlined so they
+   * survive leaving the shadow root, and <image> hrefs become base64 data URIs
+   * so icons render offline.
+   */
+  private async cloneSvgForExport(svg: SVGSVGElement): Promise<SVGSVGElement> {
+    const svgClone = svg.cloneNode(true) as SVGSVGElement;
+    this.inlineComputedStyles(svg, svgClone);
+    await this.convertImagesToBase64(svgClone);
+    return svgClone;
+  }
+
   /**
    * Walks the original and cloned SVG trees in parallel, copying key computed
    * style properties onto the clone as inline styles.
@@ -7537,6 +8906,12 @@ export class WebColaCnDGraph extends HTMLElementBase {
     // remove any morph snapshot layer — before tearing down the selections
     // those handlers would otherwise touch.
     this.teardownInflightRender();
+    this.releaseLayoutBackend();
+
+    if (this.minimapFrame !== null) {
+      cancelAnimationFrame(this.minimapFrame);
+      this.minimapFrame = null;
+    }
 
     // Remove keyboard event handlers
     this.detachInputModeListeners();
@@ -7560,6 +8935,11 @@ export class WebColaCnDGraph extends HTMLElementBase {
 
     // Clear stored references to help garbage collection
     this.currentLayout = null as any;
+    this.sourceLayout = null;
+    this.collapsedGroupStates.clear();
+    this.searchEvaluator = null;
+    this.searchMatches = [];
+    this.searchIndex = -1;
     this.colaLayout = null as any;
     this.svgNodes = null as any;
     this.svgLinkGroups = null as any;
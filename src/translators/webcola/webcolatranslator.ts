@@ -307,6 +307,15 @@ export interface WebColaLayoutOptions {
    */
   lockUnconstrainedNodes?: boolean;
 
+  /**
+   * Nodes the viewer pinned, and where. A pinned node starts at its pin and
+   * is held there (fixed=1) by the same rule `lockUnconstrainedNodes` applies
+   * to prior positions — freed only where the pin violates one of its
+   * constraints — whether or not that flag is set. A pin wins over a prior
+   * position for the same node; pins for nodes not in the layout are ignored.
+   */
+  pinnedPositions?: NodePositionHint[];
+
   /**
    * Which seeding strategy computes initial node positions when no prior
    * positions exist (issue #427).
@@ -324,6 +333,15 @@ export interface WebColaLayoutOptions {
    * in demo consoles).
    */
   seedMode?: 'constraint-aware' | 'dagre';
+
+  /**
+   * renderLayout() only — the translator ignores both. Aborting `signal`, or
+   * running past `timeout` milliseconds, stops the render at its next
+   * checkpoint (see `LayoutControl`) and rejects it with a
+   * `LayoutCancelledError`.
+   */
+  signal?: AbortSignal;
+  timeout?: number;
 }
 
 // WebCola constraint types
@@ -394,6 +412,9 @@ export class WebColaLayout {
 
   /** When true, lock unconstrained nodes with prior positions via fixed=1. */
   private lockUnconstrainedNodes: boolean;
+
+  /** Pinned node positions by id; these nodes are locked whatever the mode. */
+  private pinnedPositionMap: Map<string, NodePositionHint>;
   private collapseSymmetric: boolean;
 
   /**
@@ -425,6 +446,8 @@ export class WebColaLayout {
       }
     }
 
+    this.pinnedPositionMap = new Map((options?.pinnedPositions ?? []).map(pin => [pin.id, pin]));
+
     this.lockUnconstrainedNodes = options?.lockUnconstrainedNodes ?? false;
     this.collapseSymmetric = options?.collapseSymmetricEdges ?? true;
 
@@ -772,6 +795,7 @@ export class WebColaLayout {
    * Converts a LayoutNode to a NodeWithMetadata for WebCola.
    * 
    * Position initialization priority:
+   * 0. Pinned positions (WebColaLayoutOptions.pinnedPositions), always locked
    * 1. Prior positions (if available via WebColaLayoutOptions.priorPositions)
    * 2. DAGRE-computed positions (if DAGRE graph is available)
    * 3. Default center position (DEFAULT_X, DEFAULT_Y)
@@ -794,9 +818,16 @@ export class WebColaLayout {
 
     let fixed = 0;
 
+    // Priority 0: a pin holds the node wherever its constraints allow;
+    // applyConstraintAwareLocking() unlocks it where they do not.
+    const pinnedPosition = this.pinnedPositionMap.get(node.id);
     // Priority 1: Use prior position if available (for temporal consistency)
     const priorPosition = this.priorPositionMap.get(node.id);
-    if (priorPosition) {
+    if (pinnedPosition) {
+      x = pinnedPosition.x;
+      y = pinnedPosition.y;
+      fixed = 1;
+    } else if (priorPosition) {
       x = priorPosition.x;
       y = priorPosition.y;
       if (this.lockUnconstrainedNodes) {
@@ -1025,6 +1056,8 @@ export class WebColaLayout {
    *                     (newly added). Lock the seeded one, free the new
    *                     one.
    *
+   * A pinned endpoint counts as seeded, at its pin.
+   *
    * Folds the previous `endpointsOf` + `evaluateConstraintAtPriorPositions`
    * helpers into a single switch so each constraint pays one dispatch and
    * one pair of node lookups (O(1) each via nodeIndexMap).
@@ -1036,7 +1069,7 @@ export class WebColaLayout {
     verdict: 'satisfied' | 'violated' | 'unknown';
   } | null {
     const tol = WebColaLayout.CONSTRAINT_SATISFACTION_TOLERANCE;
-    const priors = this.priorPositionMap;
+    const seeded = (node: NodeWithMetadata) => this.hasStartPosition(node.id);
 
     let n1: NodeWithMetadata;
     let n2: NodeWithMetadata;
@@ -1045,7 +1078,7 @@ export class WebColaLayout {
     if (isLeftConstraint(constraint)) {
       n1 = this.colaNodes[this.getNodeIndex(constraint.left.id)];
       n2 = this.colaNodes[this.getNodeIndex(constraint.right.id)];
-      bothSeeded = priors.has(n1.id) && priors.has(n2.id);
+      bothSeeded = seeded(n1) && seeded(n2);
       if (!bothSeeded) return { endpoints: [n1, n2], verdict: 'unknown' };
       const required = this.computeHorizontalSeparation(n1, n2, constraint.minDistance);
       const actual = (n2.x ?? 0) - (n1.x ?? 0);
@@ -1058,7 +1091,7 @@ export class WebColaLayout {
     if (isTopConstraint(constraint)) {
       n1 = this.colaNodes[this.getNodeIndex(constraint.top.id)];
       n2 = this.colaNodes[this.getNodeIndex(constraint.bottom.id)];
-      bothSeeded = priors.has(n1.id) && priors.has(n2.id);
+      bothSeeded = seeded(n1) && seeded(n2);
       if (!bothSeeded) return { endpoints: [n1, n2], verdict: 'unknown' };
       const required = this.computeVerticalSeparation(n1, n2, constraint.minDistance);
       const actual = (n2.y ?? 0) - (n1.y ?? 0);
@@ -1071,7 +1104,7 @@ export class WebColaLayout {
     if (isAlignmentConstraint(constraint)) {
       n1 = this.colaNodes[this.getNodeIndex(constraint.node1.id)];
       n2 = this.colaNodes[this.getNodeIndex(constraint.node2.id)];
-      bothSeeded = priors.has(n1.id) && priors.has(n2.id);
+      bothSeeded = seeded(n1) && seeded(n2);
       if (!bothSeeded) return { endpoints: [n1, n2], verdict: 'unknown' };
       const a = constraint.axis === 'x' ? (n1.x ?? 0) : (n1.y ?? 0);
       const b = constraint.axis === 'x' ? (n2.x ?? 0) : (n2.y ?? 0);
@@ -1096,6 +1129,7 @@ export class WebColaLayout {
    * - lockUnconstrainedNodes=false: legacy behavior — any node touched
    *   by a constraint is unfixed. Short-circuited when no node was ever
    *   locked (priorPositionMap empty), since there's nothing to unfix.
+   * - Pinned endpoints follow the stability-mode rule in either mode.
    *
    * Cost: O(c) — one classification per constraint, each doing two
    * O(1) node-index lookups via nodeIndexMap.
@@ -1104,39 +1138,42 @@ export class WebColaLayout {
     const stability = this.lockUnconstrainedNodes;
 
     // Legacy mode + no nodes were locked → no-op.
-    if (!stability && this.priorPositionMap.size === 0) return;
+    if (!stability && this.priorPositionMap.size === 0 && this.pinnedPositionMap.size === 0) return;
 
     for (const constraint of constraints) {
       const classified = this.classifyConstraintForLocking(constraint);
       if (!classified) continue;
-      const [n1, n2] = classified.endpoints;
 
-      if (!stability) {
-        // Legacy: any constrained endpoint is freed.
-        n1.fixed = 0;
-        n2.fixed = 0;
-        continue;
-      }
+      for (const node of classified.endpoints) {
+        if (!stability && !this.pinnedPositionMap.has(node.id)) {
+          // Legacy: any constrained endpoint is freed.
+          node.fixed = 0;
+          continue;
+        }
 
-      switch (classified.verdict) {
-        case 'satisfied':
-          // Prior positions honor the constraint — keep both locked.
-          break;
-        case 'violated':
-          // Prior positions don't honor the constraint — free both so
-          // the solver can repair.
-          n1.fixed = 0;
-          n2.fixed = 0;
-          break;
-        case 'unknown':
-          // One side is a new node — free only the unseeded endpoint(s).
-          if (!this.priorPositionMap.has(n1.id)) n1.fixed = 0;
-          if (!this.priorPositionMap.has(n2.id)) n2.fixed = 0;
-          break;
+        switch (classified.verdict) {
+          case 'satisfied':
+            // Prior positions honor the constraint — keep both locked.
+            break;
+          case 'violated':
+            // Prior positions don't honor the constraint — free both so
+            // the solver can repair.
+            node.fixed = 0;
+            break;
+          case 'unknown':
+            // One side is a new node — free only the unseeded endpoint(s).
+            if (!this.hasStartPosition(node.id)) node.fixed = 0;
+            break;
+        }
       }
     }
   }
 
+  /** True when node `id` starts from a prior position or a pin. */
+  private hasStartPosition(id: string): boolean {
+    return this.priorPositionMap.has(id) || this.pinnedPositionMap.has(id);
+  }
+
   /**
    * Collapses identical nested groups to reduce jitter and constraint conflicts.
    * When multiple groups contain exactly the same set of nodes, they are merged
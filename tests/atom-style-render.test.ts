@@ -162,6 +162,7 @@ describe('webcola translator — LayoutNode atomStyle reaches the render datum',
         DEFAULT_X: 0,
         DEFAULT_Y: 0,
         priorPositionMap: new Map(),
+        pinnedPositionMap: new Map(),
         lockUnconstrainedNodes: false,
         dagre_graph: null,
     };
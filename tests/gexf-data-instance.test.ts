@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { GexfDataInstance } from '../src/data-instance/gexf/gexf-data-instance';
+
+const GEXF = `<?xml version="1.0" encoding="UTF-8"?>
+<gexf xmlns="http://gexf.net/1.3" version="1.3">
+  <graph mode="static" defaultedgetype="directed">
+    <attributes class="node">
+      <attribute id="0" title="type" type="string"/>
+      <attribute id="1" title="score" type="double"/>
+      <attribute id="2" title="rank" type="integer"><default>0</default></attribute>
+    </attributes>
+    <attributes class="edge">
+      <attribute id="0" title="note" type="string"/>
+    </attributes>
+    <nodes>
+      <node id="a" label="Alice"><attvalues><attvalue for="0" value="Person"/><attvalue for="1" value="0.5"/></attvalues></node>
+      <node id="b" label="Bob"><attvalues><attvalue for="0" value="Person"/><attvalue for="2" value="3"/></attvalues></node>
+      <node id="c"/>
+    </nodes>
+    <edges>
+      <edge id="0" source="a" target="b" label="knows" weight="2.5"><attvalues><attvalue for="0" value="met at work"/></attvalues></edge>
+      <edge id="1" source="b" target="c"/>
+    </edges>
+  </graph>
+</gexf>`;
+
+const tuples = (inst: GexfDataInstance, relation: string) =>
+  inst.getRelations().find((r) => r.name === relation)?.tuples.map((t) => t.atoms) ?? [];
+
+describe('GexfDataInstance', () => {
+  it('reads node labels and typed attributes', () => {
+    const inst = new GexfDataInstance(GEXF);
+    expect(inst.getAtoms().filter((a) => !a.id.includes(':'))).toEqual([
+      { id: 'a', type: 'Person', label: 'Alice' },
+      { id: 'b', type: 'Person', label: 'Bob' },
+      { id: 'c', type: 'Node', label: 'c' },
+    ]);
+    expect(tuples(inst, 'score')).toEqual([['a', 'Real:0.5']]);
+    expect(tuples(inst, 'rank')).toEqual([['a', 'Int:0'], ['b', 'Int:3'], ['c', 'Int:0']]);
+  });
+
+  it('reads edge labels as relations, node and edge attribute ids apart', () => {
+    const inst = new GexfDataInstance(GEXF);
+    expect(tuples(inst, 'knows')).toEqual([['a', 'b']]);
+    expect(tuples(inst, 'edge')).toEqual([['b', 'c']]);
+    expect(inst.getRelations().map((r) => r.name)).not.toContain('note');
+  });
+
+  it('honours the attribute options', () => {
+    const inst = new GexfDataInstance(GEXF, { typeAttribute: 'rank', defaultRelationName: 'link' });
+    expect(inst.getAtoms().find((a) => a.id === 'b')!.type).toBe('3');
+    expect(tuples(inst, 'link')).toEqual([['b', 'c']]);
+    expect(tuples(inst, 'type')).toContainEqual(['a', 'String:Person']);
+  });
+
+  it('round-trips, keeping weights and edge attributes', () => {
+    const inst = new GexfDataInstance(GEXF);
+    const xml = inst.reify();
+    expect(xml).toContain('<edge id="0" source="a" target="b" label="knows" weight="2.5">');
+    expect(xml).toContain('<attvalue for="0" value="met at work"/>');
+
+    const again = new GexfDataInstance(xml);
+    expect(again.getAtoms()).toEqual(inst.getAtoms());
+    expect(again.getRelations()).toEqual(inst.getRelations());
+  });
+
+  it('writes edits back with fresh edge ids', () => {
+    const inst = new GexfDataInstance(GEXF);
+    inst.addAtom({ id: 'd', type: 'Robot', label: 'R2' });
+    inst.addRelationTuple('knows', { atoms: ['c', 'd'], types: [] });
+    inst.addRelationTuple('edge', { atoms: ['d', 'a'], types: [] });
+    inst.removeRelationTuple('score', { atoms: ['a', 'Real:0.5'], types: [] });
+
+    const xml = inst.reify();
+    expect(xml).toContain('<node id="d" label="R2">');
+    expect(xml).toContain('<edge id="e0" source="c" target="d" label="knows"/>');
+    expect(xml).toContain('<edge id="e1" source="d" target="a"/>');
+
+    const again = new GexfDataInstance(xml);
+    expect(again.getAtoms().find((a) => a.id === 'd')).toEqual({ id: 'd', type: 'Robot', label: 'R2' });
+    expect(tuples(again, 'score')).toEqual([]);
+  });
+
+  it('rejects documents that are not GEXF', () => {
+    expect(() => new GexfDataInstance('<graphml/>')).toThrow(/expected a <gexf> document/);
+    expect(() => new GexfDataInstance('<gexf><graph><edges><edge source="x" target="y"/></edges></graph></gexf>'))
+      .toThrow(/unknown node "x"/);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GraphMLDataInstance } from '../src/data-instance/graphml/graphml-data-instance';
+import type { DataInstanceEvent } from '../src/data-instance/interfaces';
+
+const GRAPHML = `<?xml version="1.0" encoding="UTF-8"?>
+<graphml xmlns="http://graphml.graphdrawing.org/xmlns">
+  <key id="d0" for="node" attr.name="type" attr.type="string"/>
+  <key id="d1" for="node" attr.name="label" attr.type="string"/>
+  <key id="d2" for="node" attr.name="age" attr.type="int"/>
+  <key id="d3" for="node" attr.name="active" attr.type="boolean"><default>true</default></key>
+  <key id="d4" for="edge" attr.name="label" attr.type="string"/>
+  <key id="d5" for="edge" attr.name="since" attr.type="int"/>
+  <graph id="G" edgedefault="directed">
+    <node id="alice"><data key="d0">Person</data><data key="d1">Alice</data><data key="d2">30</data></node>
+    <node id="bob"><data key="d0">Person</data><data key="d2">30</data><data key="d3">false</data></node>
+    <node id="acme"><data key="d0">Company</data></node>
+    <edge id="e0" source="alice" target="bob"><data key="d4">knows</data><data key="d5">2019</data></edge>
+    <edge id="e1" source="alice" target="acme"/>
+  </graph>
+</graphml>`;
+
+const tuples = (inst: GraphMLDataInstance, relation: string) =>
+  inst.getRelations().find((r) => r.name === relation)?.tuples.map((t) => t.atoms) ?? [];
+
+describe('GraphMLDataInstance — reading', () => {
+  const inst = new GraphMLDataInstance(GRAPHML);
+
+  it('makes nodes atoms, typed and labelled by their attributes', () => {
+    const atoms = inst.getAtoms();
+    expect(atoms.find((a) => a.id === 'alice')).toEqual({ id: 'alice', type: 'Person', label: 'Alice' });
+    expect(atoms.find((a) => a.id === 'bob')).toEqual({ id: 'bob', type: 'Person', label: 'bob' });
+    expect(atoms.find((a) => a.id === 'acme')!.type).toBe('Company');
+  });
+
+  it('makes edges tuples of the relation their label names', () => {
+    expect(tuples(inst, 'knows')).toEqual([['alice', 'bob']]);
+    expect(tuples(inst, 'edge')).toEqual([['alice', 'acme']]);
+  });
+
+  it('makes other node attributes relations to shared, typed value atoms', () => {
+    expect(tuples(inst, 'age')).toEqual([['alice', 'Int:30'], ['bob', 'Int:30']]);
+    // The key's default fills in for nodes that leave it unset.
+    expect(tuples(inst, 'active')).toEqual([['alice', 'Bool:true'], ['bob', 'Bool:false'], ['acme', 'Bool:true']]);
+    expect(inst.getAtomType('Int:30')).toMatchObject({ id: 'Int', isBuiltin: true });
+    expect(inst.getRelations().find((r) => r.name === 'since')).toBeUndefined();
+  });
+
+  it('draws the graph with value atoms hideable as built-ins', () => {
+    inst.addAtom({ id: 'Int:7', type: 'Int', label: '7' });
+    expect(inst.generateGraph(false, false).hasNode('Int:7')).toBe(true);
+    expect(inst.generateGraph(false, true).hasNode('Int:7')).toBe(false);
+    inst.removeAtom('Int:7');
+  });
+
+  it('applies a key declared for all to nodes and edges alike', () => {
+    const all = new GraphMLDataInstance(`<graphml>
+      <key id="k" for="all" attr.name="label" attr.type="string"/>
+      <graph><node id="a"><data key="k">A</data></node><node id="b"/>
+        <edge source="a" target="b"><data key="k">next</data></edge></graph>
+    </graphml>`);
+    expect(all.getAtoms().find((a) => a.id === 'a')?.label).toBe('A');
+    expect(tuples(all, 'next')).toEqual([['a', 'b']]);
+  });
+
+  it('rejects documents that are not GraphML', () => {
+    expect(() => new GraphMLDataInstance('<gexf/>')).toThrow(/expected a <graphml> document/);
+    expect(() => new GraphMLDataInstance(
+      '<graphml><graph><node id="a"><data key="nope">1</data></node></graph></graphml>'
+    )).toThrow(/undeclared key "nope"/);
+  });
+});
+
+describe('GraphMLDataInstance — editing', () => {
+  it('adds and removes atoms and tuples, emitting events', () => {
+    const inst = new GraphMLDataInstance(GRAPHML);
+    const events: DataInstanceEvent[] = [];
+    for (const type of ['atomAdded', 'atomRemoved', 'relationTupleAdded', 'relationTupleRemoved'] as const) {
+      inst.addEventListener(type, (e) => events.push(e));
+    }
+
+    inst.addAtom({ id: 'carol', type: 'Person', label: 'Carol' });
+    inst.addRelationTuple('knows', { atoms: ['bob', 'carol'], types: ['Person', 'Person'] });
+    inst.addRelationTuple('age', { atoms: ['carol', 'Int:30'], types: ['Person', 'Int'] });
+    expect(tuples(inst, 'knows')).toContainEqual(['bob', 'carol']);
+    expect(tuples(inst, 'age')).toContainEqual(['carol', 'Int:30']);
+
+    inst.removeAtom('bob');
+    expect(tuples(inst, 'knows')).toEqual([]);
+    expect(events.map((e) => e.type)).toEqual(['atomAdded', 'relationTupleAdded', 'relationTupleAdded', 'atomRemoved']);
+  });
+
+  it('rejects duplicates and a second value for an attribute', () => {
+    const inst = new GraphMLDataInstance(GRAPHML);
+    expect(() => inst.addAtom({ id: 'alice', type: 'Person', label: 'A' })).toThrow(/already exists/);
+    expect(() => inst.addRelationTuple('knows', { atoms: ['alice', 'bob'], types: [] })).toThrow(/already exists/);
+    inst.addAtom({ id: 'Int:31', type: 'Int', label: '31' });
+    expect(() => inst.addRelationTuple('age', { atoms: ['alice', 'Int:31'], types: [] })).toThrow(/already has a value/);
+    expect(() => inst.removeRelationTuple('age', { atoms: ['alice', 'Int:31'], types: [] })).toThrow(/does not exist/);
+  });
+
+  it('rejects a value of a type other than the attribute declares', () => {
+    const inst = new GraphMLDataInstance(GRAPHML);
+    inst.addAtom({ id: 'String:old', type: 'String', label: 'old' });
+    expect(() => inst.addRelationTuple('age', { atoms: ['acme', 'String:old'], types: [] }))
+      .toThrow('"age" holds Int values, not String "old"');
+    expect(tuples(inst, 'age')).toEqual([['alice', 'Int:30'], ['bob', 'Int:30']]);
+  });
+
+  it('notifies listeners once per edit', () => {
+    const inst = new GraphMLDataInstance(GRAPHML);
+    const listener = vi.fn();
+    inst.addEventListener('relationTupleRemoved', listener);
+    inst.removeRelationTuple('edge', { atoms: ['alice', 'acme'], types: [] });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('GraphMLDataInstance — reify', () => {
+  it('round-trips the graph it read', () => {
+    const inst = new GraphMLDataInstance(GRAPHML);
+    const again = new GraphMLDataInstance(inst.reify());
+    expect(again.getAtoms()).toEqual(inst.getAtoms());
+    expect(again.getRelations()).toEqual(inst.getRelations());
+    expect(again.reify()).toBe(inst.reify());
+    // Unmodelled edge attributes survive.
+    expect(inst.reify()).toContain('<data key="d5">2019</data>');
+  });
+
+  it('keeps each key\'s for and the graph\'s own data', () => {
+    const source = `<graphml>
+      <key id="g" for="graph" attr.name="title" attr.type="string"/>
+      <key id="w" for="all" attr.name="weight" attr.type="double"/>
+      <graph edgedefault="directed"><data key="g">Routes</data>
+        <node id="a"><data key="w">1.5</data></node><node id="b"/>
+        <edge source="a" target="b"><data key="w">2</data></edge></graph>
+    </graphml>`;
+    const xml = new GraphMLDataInstance(source).reify();
+    expect(xml).toContain('<key id="g" for="graph" attr.name="title" attr.type="string"/>');
+    expect(xml).toContain('<key id="w" for="all" attr.name="weight" attr.type="double"/>');
+    expect(xml).toContain('<data key="g">Routes</data>');
+    expect(xml).toContain('<edge source="a" target="b"><data key="w">2</data></edge>');
+    expect(new GraphMLDataInstance(xml).reify()).toBe(xml);
+  });
+
+  it('writes edits back, declaring the keys they need', () => {
+    const inst = new GraphMLDataInstance('<graphml><graph edgedefault="undirected"/></graphml>');
+    inst.addAtom({ id: 'x', type: 'Thing', label: 'X' });
+    inst.addAtom({ id: 'y', type: 'Node', label: 'y' });
+    inst.addAtom({ id: 'Real:1.5', type: 'Real', label: '1.5' });
+    inst.addRelationTuple('weight', { atoms: ['x', 'Real:1.5'], types: [] });
+    inst.addRelationTuple('next', { atoms: ['x', 'y'], types: [] });
+
+    const xml = inst.reify();
+    expect(xml).toContain('edgedefault="undirected"');
+    expect(xml).toMatch(/<key id="\w+" for="node" attr.name="weight" attr.type="double"\/>/);
+
+    const again = new GraphMLDataInstance(xml);
+    expect(again.getAtoms().find((a) => a.id === 'x')).toEqual({ id: 'x', type: 'Thing', label: 'X' });
+    expect(tuples(again, 'weight')).toEqual([['x', 'Real:1.5']]);
+    expect(tuples(again, 'next')).toEqual([['x', 'y']]);
+  });
+});
@@ -0,0 +1,276 @@
+import { describe, expect, it } from 'vitest';
+import * as d3 from 'd3';
+import {
+    collapseGroups,
+    collapsedGroupNodeId,
+    initiallyCollapsedGroups,
+} from '../src/layout/group-collapse';
+import {
+    DisjunctiveConstraint,
+    type InstanceLayout,
+    type LayoutConstraint,
+    type LayoutEdge,
+    type LayoutGroup,
+    type LayoutNode,
+} from '../src/layout/interfaces';
+import { parseLayoutSpec } from '../src/layout/layoutspec';
+
+/**
+ * The element methods only decide what to collapse and where nodes start;
+ * drawing is renderLayout's job, so it is stubbed to record its calls.
+ *
+ * The renderer captures `window.d3` at module load, so d3 is installed before
+ * the dynamic import below.
+ */
+(window as any).d3 = d3;
+const { WebColaCnDGraph } = await import('../src/translators/webcola/webcola-cnd-graph');
+const proto = WebColaCnDGraph.prototype as any;
+
+const source = {} as LayoutConstraint['sourceConstraint'];
+
+const node = (id: string): LayoutNode => ({
+    id, label: id, color: 'black', width: 100, height: 60,
+    mostSpecificType: 'Node', types: ['Node'], showLabels: true,
+});
+
+const edge = (id: string, from: LayoutNode, to: LayoutNode, relationName = 'next'): LayoutEdge => ({
+    id, source: from, target: to, label: relationName, relationName, color: 'black',
+});
+
+const group = (name: string, nodeIds: string[], extra: Partial<LayoutGroup> = {}): LayoutGroup => ({
+    name, nodeIds, keyNodeId: nodeIds[0], showLabel: true, ...extra,
+});
+
+/** team = {a, b, c} ⊃ pair = {b, c}; x and y sit outside. */
+function fixture(): InstanceLayout {
+    const [a, b, c, x, y] = ['a', 'b', 'c', 'x', 'y'].map(node);
+    const team = group('team', ['a', 'b', 'c']);
+    const pair = group('pair', ['b', 'c']);
+    const others = group('others', ['x', 'y']);
+    return {
+        nodes: [x, a, b, c, y],
+        edges: [
+            edge('a-b', a, b),
+            edge('x-a', x, a),
+            edge('x-b', x, b),
+            edge('c-y', c, y, 'owns'),
+        ],
+        groups: [team, pair, others],
+        constraints: [
+            { sourceConstraint: source, left: a, right: b, minDistance: 15 },
+            { sourceConstraint: source, left: x, right: a, minDistance: 15 },
+            { sourceConstraint: source, left: x, right: b, minDistance: 15 },
+            { sourceConstraint: source, top: c, bottom: y, minDistance: 15 },
+            { sourceConstraint: source, top: y, bottom: a, minDistance: 15 },
+            { sourceConstraint: source, axis: 'y', node1: x, node2: a },
+        ] as LayoutConstraint[],
+        disjunctiveConstraints: [
+            // y stays outside team: satisfied for good once team is one node.
+            new DisjunctiveConstraint(source as any, [
+                [{ sourceConstraint: source, group: team, node: y, side: 'left', minDistance: 10 } as LayoutConstraint],
+                [{ sourceConstraint: source, group: team, node: y, side: 'right', minDistance: 10 } as LayoutConstraint],
+            ]),
+            // team and others do not overlap.
+            new DisjunctiveConstraint(source as any, [
+                [{ sourceConstraint: source, groupA: team, groupB: others, side: 'left', minDistance: 10 } as LayoutConstraint],
+                [{ sourceConstraint: source, groupA: others, groupB: team, side: 'top', minDistance: 10 } as LayoutConstraint],
+            ]),
+            // b's and c's order inside pair: nothing left to order once collapsed.
+            new DisjunctiveConstraint(source as any, [
+                [{ sourceConstraint: source, left: b, right: c, minDistance: 15 } as LayoutConstraint],
+                [{ sourceConstraint: source, left: c, right: b, minDistance: 15 } as LayoutConstraint],
+            ]),
+        ],
+    };
+}
+
+const TEAM = collapsedGroupNodeId('team');
+const ids = (xs: Array<{ id: string }>) => xs.map(x => x.id);
+
+describe('collapseGroups', () => {
+    it('replaces the members with one summary node showing the name and size', () => {
+        const layout = fixture();
+        const collapsed = collapseGroups(layout, ['team']);
+
+        expect(ids(collapsed.nodes)).toEqual(['x', TEAM, 'y']);
+        const summary = collapsed.nodes[1];
+        expect(summary).toMatchObject({ label: 'team', labels: { size: ['3 members'] }, collapsedGroup: 'team' });
+        expect(summary.id.startsWith('_')).toBe(false);
+        // The input is untouched.
+        expect(ids(layout.nodes)).toEqual(['x', 'a', 'b', 'c', 'y']);
+    });
+
+    it('reroutes member edges to the summary, one per relation, and drops internal ones', () => {
+        const { edges } = collapseGroups(fixture(), ['team']);
+        expect(edges.map(e => [e.id, e.source.id, e.target.id])).toEqual([
+            ['x-a', 'x', TEAM],
+            ['c-y', TEAM, 'y'],
+        ]);
+    });
+
+    it('takes nested groups with it and keeps the rest', () => {
+        const { groups } = collapseGroups(fixture(), ['team']);
+        expect(groups.map(g => g.name)).toEqual(['others']);
+    });
+
+    it('keeps orderings against outsiders, drops opposed ones and those among members', () => {
+        const { constraints } = collapseGroups(fixture(), ['team']);
+        const described = constraints.map((c: any) =>
+            c.left ? `${c.left.id} < ${c.right.id}` : c.top ? `${c.top.id} ^ ${c.bottom.id}` : `align ${c.axis}`);
+        // a < b is internal; c above y and y above a oppose once both are the summary.
+        expect(described).toEqual([`x < ${TEAM}`]);
+    });
+
+    it('drops disjunctions the collapse settles and moves group separation onto the summary', () => {
+        const { disjunctiveConstraints } = collapseGroups(fixture(), ['team']);
+        expect(disjunctiveConstraints).toHaveLength(1);
+        const [left, top] = disjunctiveConstraints![0].alternatives.map(alt => alt[0] as any);
+        expect([left.group.name, left.node.id, left.side]).toEqual(['others', TEAM, 'left']);
+        expect([top.group.name, top.node.id, top.side]).toEqual(['others', TEAM, 'bottom']);
+    });
+
+    it('rewrites a group that shares members to hold the summary', () => {
+        const layout = fixture();
+        layout.groups.push(group('mixed', ['c', 'y'], { keyNodeId: 'c' }));
+        const mixed = collapseGroups(layout, ['pair']).groups.find(g => g.name === 'mixed')!;
+        expect(mixed.nodeIds).toEqual([collapsedGroupNodeId('pair'), 'y']);
+        expect(mixed.keyNodeId).toBe(collapsedGroupNodeId('pair'));
+    });
+
+    it('folds nested groups inside out, counting every member', () => {
+        const { nodes } = collapseGroups(fixture(), ['team', 'pair']);
+        expect(ids(nodes)).toEqual(['x', TEAM, 'y']);
+        expect(nodes[1].labels).toEqual({ size: ['3 members'] });
+    });
+
+    it('ignores unknown and negated groups', () => {
+        const layout = fixture();
+        layout.groups.push(group('not', ['x', 'y'], { negated: true }));
+        expect(collapseGroups(layout, ['missing', 'not'])).toBe(layout);
+    });
+});
+
+describe('the collapsed group option', () => {
+    it('parses onto the group constraint and survives deduplication', () => {
+        const spec = parseLayoutSpec(`
+constraints:
+  - group:
+      selector: Team.members
+      name: Team
+  - group:
+      selector: Team.members
+      name: Team
+      collapsed: true
+  - group:
+      selector: Club.members
+      name: Club
+      collapsed: 'yes'
+`);
+        const byName = Object.fromEntries(spec.constraints.grouping.byselector.map(g => [g.name, g.collapsed]));
+        expect(byName).toEqual({ Team: true, Club: undefined });
+    });
+
+    it('names the groups a layout starts collapsed', () => {
+        const layout = fixture();
+        layout.groups[0].collapsed = true;
+        layout.groups.push(group('not', ['x'], { negated: true, collapsed: true }));
+        expect(initiallyCollapsedGroups(layout)).toEqual(['team']);
+    });
+});
+
+describe('<webcola-cnd-graph> group collapse', () => {
+    const transform = { k: 1, x: 0, y: 0 };
+
+    function fakeGraph(layout: InstanceLayout, positions: Array<{ id: string; x: number; y: number }>) {
+        const renders: any[] = [];
+        const events: CustomEvent[] = [];
+        let state = { positions, transform };
+        const graph = Object.create(proto, {
+            renderLayout: {
+                value: async (rendered: InstanceLayout, options: any) => {
+                    renders.push({ layout: rendered, options });
+                    state = options.priorPositions;
+                },
+            },
+            getLayoutState: { value: () => state },
+            dispatchEvent: { value: (event: CustomEvent) => events.push(event) },
+        });
+        Object.assign(graph, {
+            sourceLayout: layout,
+            // Field initialisers, which Object.create skips.
+            groupCollapseOverrides: new Map(),
+            collapsedGroupStates: new Map(),
+        });
+        const moveTo = (id: string, x: number, y: number) => {
+            state = { transform, positions: state.positions.map(p => (p.id === id ? { id, x, y } : p)) };
+        };
+        return { graph, renders, events, moveTo };
+    }
+
+    const drawn = [
+        { id: 'x', x: 0, y: 0 },
+        { id: 'a', x: 100, y: 0 },
+        { id: 'b', x: 200, y: 0 },
+        { id: 'c', x: 300, y: 60 },
+        { id: 'y', x: 400, y: 0 },
+    ];
+
+    it('collapses a group, starting its summary at the members\' centre', async () => {
+        const layout = fixture();
+        const { graph, renders, events } = fakeGraph(layout, drawn);
+
+        await graph.collapseGroup('team');
+
+        expect(graph.getCollapsedGroups()).toEqual(['team']);
+        expect(renders[0].layout).toBe(layout);
+        expect(renders[0].options.priorPositions.positions).toEqual([
+            { id: 'x', x: 0, y: 0 },
+            { id: 'y', x: 400, y: 0 },
+            { id: TEAM, x: 200, y: 20 },
+        ]);
+        expect(events.map(e => [e.type, e.detail])).toEqual([['group-toggle', { group: 'team', collapsed: true }]]);
+    });
+
+    it('expands it back to the stored positions, following the summary if it moved', async () => {
+        const { graph, renders, events, moveTo } = fakeGraph(fixture(), drawn);
+        await graph.collapseGroup('team');
+        moveTo(TEAM, 210, -30);
+
+        await graph.expandGroup('team');
+
+        expect(graph.isGroupCollapsed('team')).toBe(false);
+        expect(renders[1].options.priorPositions.positions).toEqual([
+            { id: 'x', x: 0, y: 0 },
+            { id: 'y', x: 400, y: 0 },
+            { id: 'a', x: 110, y: -50 },
+            { id: 'b', x: 210, y: -50 },
+            { id: 'c', x: 310, y: 10 },
+        ]);
+        expect(events.map(e => e.detail.collapsed)).toEqual([true, false]);
+    });
+
+    it('starts spec-collapsed groups closed and lays their members around the summary', async () => {
+        const layout = fixture();
+        layout.groups[1].collapsed = true;
+        const { graph, renders } = fakeGraph(layout, [
+            { id: 'x', x: 0, y: 0 },
+            { id: collapsedGroupNodeId('pair'), x: 200, y: 100 },
+        ]);
+        expect(graph.getCollapsedGroups()).toEqual(['pair']);
+
+        await graph.toggleGroup('pair');
+
+        expect(graph.getCollapsedGroups()).toEqual([]);
+        expect(renders[0].options.priorPositions.positions).toEqual([
+            { id: 'x', x: 0, y: 0 },
+            { id: 'b', x: 170, y: 100 },
+            { id: 'c', x: 230, y: 100 },
+        ]);
+    });
+
+    it('refuses groups the layout does not have', async () => {
+        const { graph, renders } = fakeGraph(fixture(), drawn);
+        await expect(graph.collapseGroup('nobody')).rejects.toThrow('No group named "nobody"');
+        expect(renders).toHaveLength(0);
+    });
+});
@@ -0,0 +1,154 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { renderHeadlessSvg } from '../src/translators/svg/headless-svg';
+import type { HeadlessLayoutResult } from '../src/evaluation/headless-layout';
+import type { InstanceLayout, LayoutEdge, LayoutGroup, LayoutNode } from '../src/layout/interfaces';
+import type { NodeWithMetadata } from '../src/translators/webcola/webcolatranslator';
+import { resolveIconPath } from '../src/layout/icon-registry';
+
+/**
+ * Runs under the node environment on purpose: the renderer must not touch
+ * `document`, `window` or d3.
+ */
+
+function node(id: string, x: number, y: number, extra: Partial<NodeWithMetadata> = {}): NodeWithMetadata {
+  return {
+    id, label: id, x, y, width: 76, height: 46, visualWidth: 60, visualHeight: 30,
+    attributes: {}, color: 'black', icon: '', mostSpecificType: 'Node', showLabels: true,
+    ...extra,
+  } as NodeWithMetadata;
+}
+
+function edge(id: string, source: string, target: string, extra: Partial<LayoutEdge> = {}): LayoutEdge {
+  return {
+    id, label: id, relationName: id, color: 'black',
+    source: { id: source } as LayoutNode, target: { id: target } as LayoutNode,
+    ...extra,
+  };
+}
+
+function result(nodes: NodeWithMetadata[], edges: LayoutEdge[] = [], groups: LayoutGroup[] = []): HeadlessLayoutResult {
+  return {
+    positions: { positions: nodes.map(n => ({ id: n.id, x: n.x, y: n.y })), transform: { k: 1, x: 0, y: 0 } },
+    edges: edges.map(e => ({ source: e.source.id, target: e.target.id, rel: e.relationName })),
+    constraints: [],
+    nodes,
+    seed: null,
+    layout: { nodes: [], edges, constraints: [], groups } as InstanceLayout,
+    error: null,
+  };
+}
+
+describe('renderHeadlessSvg', () => {
+  it('emits a standalone document fitted to the drawing', () => {
+    const svg = renderHeadlessSvg(result([node('A', 100, 100), node('B', 300, 100)]));
+
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+    expect(svg.trimEnd().endsWith('</svg>')).toBe(true);
+    // A spans x 70..130, B 270..330; both y 85..115; 10px padding.
+    expect(svg).toContain('viewBox="60 75 280 50"');
+    expect(svg).toContain('width="280" height="50"');
+  });
+
+  it('draws nodes with their style and labels', () => {
+    const svg = renderHeadlessSvg(result([
+      node('A', 0, 0, {
+        label: 'Alice', color: '#ff0000', fillColor: '#ffeeee', borderWidth: 3,
+        textStyle: { color: '#0000ff' }, attributes: { age: ['30'] },
+      }),
+    ]));
+
+    expect(svg).toContain('<rect x="-30" y="-15" width="60" height="30" rx="6" ry="6" fill="#ffeeee" stroke="#ff0000" stroke-width="3"/>');
+    expect(svg).toMatch(/<tspan[^>]*font-weight="bold"[^>]*fill="#0000ff">Alice<\/tspan>/);
+    expect(svg).toContain('>age: 30</tspan>');
+    expect(svg).toContain('class="mostSpecificTypeLabel"');
+  });
+
+  it('does not draw helper nodes', () => {
+    const svg = renderHeadlessSvg(result([node('A', 0, 0), node('_d_0', 500, 500)]));
+    expect(svg).not.toContain('data-id="_d_0"');
+    expect(svg).toContain('viewBox="-40 -25 80 50"');
+  });
+
+  it('draws edges border to border with a per-color arrowhead', () => {
+    const svg = renderHeadlessSvg(result(
+      [node('A', 0, 0), node('B', 200, 0)],
+      [edge('next', 'A', 'B', { color: '#336699', style: 'dashed' })],
+    ));
+
+    expect(svg).toContain('d="M30,0 L170,0"');
+    expect(svg).toContain('stroke-dasharray="6,4"');
+    expect(svg).toContain('marker-end="url(#end-arrow-0)"');
+    expect(svg).toMatch(/<marker id="end-arrow-0"[^>]*><polygon points="0 0, 12 4, 0 8, 3 4" fill="#336699"\/><\/marker>/);
+    expect(svg).toMatch(/class="edge-label"[^>]*>next<\/text>/);
+  });
+
+  it('skips alignment and hidden edges, and hides labels on request', () => {
+    const svg = renderHeadlessSvg(result(
+      [node('A', 0, 0), node('B', 200, 0)],
+      [
+        edge('_alignment_A_B', 'A', 'B'),
+        edge('secret', 'A', 'B', { hidden: true }),
+        edge('quiet', 'B', 'A', { showLabel: false }),
+      ],
+    ));
+
+    expect(svg.match(/class="edge"/g)).toHaveLength(1);
+    expect(svg).not.toContain('class="edge-label"');
+  });
+
+  it('fans out parallel edges and loops self-edges', () => {
+    const svg = renderHeadlessSvg(result(
+      [node('A', 0, 0), node('B', 200, 0)],
+      [edge('f', 'A', 'B'), edge('g', 'B', 'A'), edge('self', 'A', 'A')],
+    ));
+
+    expect(svg.match(/d="M[^"]* Q/g)).toHaveLength(2);
+    expect(svg).toMatch(/data-id="self" d="M15,-15 C/);
+  });
+
+  it('draws groups around their members, parents around children', () => {
+    const svg = renderHeadlessSvg(result(
+      [node('A', 0, 0, { color: 'green' }), node('B', 100, 0)],
+      [],
+      [
+        { name: 'outer', nodeIds: ['A', 'B'], keyNodeId: 'A', showLabel: true },
+        { name: 'inner', nodeIds: ['A'], keyNodeId: 'A', showLabel: false },
+        { name: 'anti', nodeIds: ['B'], keyNodeId: 'B', showLabel: false, negated: true },
+      ],
+    ));
+
+    // inner: A's box (-30..30, -15..15) padded 12 on every side.
+    expect(svg).toContain('<rect class="group" x="-42" y="-27" width="84" height="54"');
+    // outer: inner's box padded 12, plus 20 on top for its label.
+    expect(svg).toContain('<rect class="group" x="-54" y="-47" width="196" height="86"');
+    expect(svg).toMatch(/class="group-label"[^>]*>outer<\/text>/);
+    expect(svg.match(/class="group"/g)).toHaveLength(2);
+    // Outer first so the inner group draws on top of it.
+    expect(svg.indexOf('x="-54"')).toBeLessThan(svg.indexOf('x="-42"'));
+  });
+
+  it('inlines bundled icons and references the rest', () => {
+    const svg = renderHeadlessSvg(result([
+      node('A', 0, 0, { icon: resolveIconPath('star'), color: 'gold' }),
+      node('B', 200, 0, { icon: 'https://example.com/b.png', iconPlacement: 'badge' }),
+    ]));
+
+    expect(svg).toMatch(/<svg class="node-icon" x="-30" y="-15" width="60" height="30" color="gold" xmlns=/);
+    expect(svg).toContain('<image class="node-icon" x="212" y="-15" width="18" height="9" color="black" href="https://example.com/b.png"');
+  });
+
+  it('escapes labels', () => {
+    const svg = renderHeadlessSvg(result([node('A', 0, 0, { label: '<A & "B">' })]), { title: 'x < y' });
+    expect(svg).toContain('&lt;A &amp; &quot;B&quot;&gt;');
+    expect(svg).toContain('<title>x &lt; y</title>');
+  });
+
+  it('is deterministic', () => {
+    const make = () => result(
+      [node('A', 0.123456, 1), node('B', 99.9, 50)],
+      [edge('e', 'A', 'B'), edge('e2', 'A', 'B')],
+    );
+    expect(renderHeadlessSvg(make())).toBe(renderHeadlessSvg(make()));
+  });
+});
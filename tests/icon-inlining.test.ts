@@ -258,6 +258,8 @@ describe('tick paths keep the icon on its node', () => {
             svgGroupLabelBgs: undefined,
             // The real one: it returns early on a detached element.
             updateEdgeEndpointMarkers: proto.updateEdgeEndpointMarkers,
+            // No minimap in this fixture.
+            scheduleMinimapUpdate: () => undefined,
         });
 
         expect(icon().getAttribute('x')).toBe('280');
@@ -274,6 +276,7 @@ describe('tick paths keep the icon on its node', () => {
             ...geometry,
             container: d3.select(svg),
             ensureNodeBounds: () => undefined,
+            scheduleMinimapUpdate: () => undefined,
         });
 
         expect(icon().getAttribute('x')).toBe('12');
@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import { JSONDataInstance } from '../src/data-instance/json-data-instance';
+import type { IJsonDataInstance } from '../src/data-instance/json-data-instance';
+import type { DataInstanceEvent, DataInstanceEventType } from '../src/data-instance/interfaces';
+import { SQLEvaluator } from '../src/evaluators/data/sql-evaluator';
+import { LayoutInstance } from '../src/layout/layoutinstance';
+import { parseLayoutSpec } from '../src/layout/layoutspec';
+
+/**
+ * Incremental re-layout: with `changes`, generateLayout re-evaluates only the
+ * selectors an edit could affect and warm-starts the solve from the previous
+ * one. Every test checks the verdict against a cold layout of the same data.
+ */
+function chain(): IJsonDataInstance {
+  return {
+    atoms: [
+      { id: 'a', type: 'Node', label: 'a' },
+      { id: 'b', type: 'Node', label: 'b' },
+      { id: 'c', type: 'Node', label: 'c' },
+    ],
+    relations: [
+      {
+        id: 'next', name: 'next', types: ['Node', 'Node'],
+        tuples: [
+          { atoms: ['a', 'b'], types: ['Node', 'Node'] },
+          { atoms: ['b', 'c'], types: ['Node', 'Node'] },
+        ],
+      },
+      {
+        id: 'down', name: 'down', types: ['Node', 'Node'],
+        tuples: [{ atoms: ['a', 'c'], types: ['Node', 'Node'] }],
+      },
+    ],
+  } as IJsonDataInstance;
+}
+
+const EVENTS: DataInstanceEventType[] = ['atomAdded', 'atomRemoved', 'relationTupleAdded', 'relationTupleRemoved'];
+
+const SPEC = [
+  'constraints:',
+  '  - orientation: { selector: "SELECT * FROM next", directions: [right] }',
+  '  - orientation: { selector: "SELECT * FROM down", directions: [below] }',
+].join('\n');
+
+/** A layout instance over an editable instance, recording its edits. */
+function editor(spec = SPEC) {
+  const data = new JSONDataInstance(chain());
+  const evaluator = new SQLEvaluator();
+  evaluator.initialize({ sourceData: data });
+  const instance = new LayoutInstance(parseLayoutSpec(spec), evaluator, 0, false);
+  let changes: DataInstanceEvent[] = [];
+  for (const type of EVENTS) data.addEventListener(type, (e) => changes.push(e));
+
+  const relayout = () => {
+    evaluator.initialize({ sourceData: data });
+    const edits = changes;
+    changes = [];
+    return instance.generateLayout(data, { changes: edits });
+  };
+  const cold = () => {
+    const fresh = new SQLEvaluator();
+    fresh.initialize({ sourceData: data });
+    return new LayoutInstance(parseLayoutSpec(spec), fresh, 0, false).generateLayout(data);
+  };
+  return { data, instance, evaluator, relayout, cold };
+}
+
+function nodeIds(result: ReturnType<LayoutInstance['generateLayout']>): string[] {
+  return result.layout.nodes.map((n) => n.id).sort();
+}
+
+describe('incremental layout: selectors', () => {
+  it('re-evaluates only the selectors naming the edited relation', () => {
+    const { data, instance, relayout } = editor();
+    relayout();
+    expect(instance.getStats().selectorsReused).toBe(0);
+
+    data.addRelationTuple('down', { atoms: ['b', 'c'], types: ['Node', 'Node'] });
+    relayout();
+    const stats = instance.getStats();
+    expect(stats.selectorsReused).toBeGreaterThan(0);
+    expect(stats.selectorsEvaluated).toBeGreaterThan(0);
+  });
+
+  it('re-evaluates everything after a tuple edit when the evaluator cannot say what a selector reads', () => {
+    const { data, instance, evaluator, relayout } = editor();
+    Object.defineProperty(evaluator, 'dependencies', { value: undefined });
+    relayout();
+
+    data.addRelationTuple('down', { atoms: ['b', 'c'], types: ['Node', 'Node'] });
+    relayout();
+    expect(instance.getStats().selectorsReused).toBe(0);
+  });
+
+  it('sees an edit to a relation its selector reaches without naming it', () => {
+    // SQL reads the relation `next-hop` as the table `next_hop`.
+    const spec = 'constraints:\n  - orientation: { selector: "SELECT * FROM next_hop", directions: [right] }\n';
+    const { data, relayout, cold } = editor(spec);
+    data.addRelationTuple('next-hop', { atoms: ['a', 'b'], types: ['Node', 'Node'] });
+    relayout();
+
+    data.addRelationTuple('next-hop', { atoms: ['b', 'c'], types: ['Node', 'Node'] });
+    const result = relayout();
+    expect(result.layout.constraints.length).toBe(cold().layout.constraints.length);
+    expect(result.layout.constraints.length).toBeGreaterThan(0);
+  });
+
+  it('reuses everything when nothing changed', () => {
+    const { instance, relayout } = editor();
+    relayout();
+    relayout();
+    expect(instance.getStats().selectorsEvaluated).toBe(0);
+  });
+
+  it('re-evaluates everything after an atom is removed', () => {
+    const { data, instance, relayout, cold } = editor();
+    relayout();
+    data.removeAtom('c');
+    const result = relayout();
+    expect(instance.getStats().selectorsReused).toBe(0);
+    expect(nodeIds(result)).toEqual(nodeIds(cold()));
+  });
+
+  it('discards what it kept on a call without changes', () => {
+    const { data, instance, relayout } = editor();
+    relayout();
+    instance.generateLayout(data);
+    relayout();
+    expect(instance.getStats().selectorsReused).toBe(0);
+  });
+
+  it('sees an added atom and its tuple', () => {
+    const { data, relayout, cold } = editor();
+    relayout();
+    data.addAtom({ id: 'd', type: 'Node', label: 'd' });
+    data.addRelationTuple('next', { atoms: ['c', 'd'], types: ['Node', 'Node'] });
+    const result = relayout();
+    expect(result.error).toBeNull();
+    expect(nodeIds(result)).toEqual(nodeIds(cold()));
+    expect(result.layout.constraints.length).toBe(cold().layout.constraints.length);
+  });
+});
+
+describe('incremental layout: solver warm start', () => {
+  it('warm-starts from the previous solve, reporting what it reused', () => {
+    const { data, instance, relayout } = editor();
+    relayout();
+    expect(instance.getStats().validator?.warmStart).toBe(false);
+
+    data.addRelationTuple('down', { atoms: ['b', 'c'], types: ['Node', 'Node'] });
+    relayout();
+    const stats = instance.getStats().validator!;
+    expect(stats.warmStart).toBe(true);
+    expect(stats.reusedConstraints).toBeGreaterThan(0);
+    expect(stats.releasedConstraints).toBe(0);
+    expect(stats.timings.totalMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('releases the constraints of a removed tuple', () => {
+    const { data, instance, relayout, cold } = editor();
+    relayout();
+    data.removeRelationTuple('next', { atoms: ['b', 'c'], types: ['Node', 'Node'] });
+    const result = relayout();
+    expect(instance.getStats().validator?.releasedConstraints).toBeGreaterThan(0);
+    expect(result.error).toBeNull();
+    expect(result.layout.constraints.length).toBe(cold().layout.constraints.length);
+  });
+
+  it('reports the same conflict a cold layout does', () => {
+    const { data, relayout, cold } = editor();
+    relayout();
+    // c below a, and now a below c.
+    data.addRelationTuple('down', { atoms: ['c', 'a'], types: ['Node', 'Node'] });
+    const warm = relayout();
+    const expected = cold();
+    expect(warm.error).not.toBeNull();
+    expect(warm.error?.message).toBe(expected.error?.message);
+
+    // Undoing the edit solves again, from the last solve that succeeded.
+    data.removeRelationTuple('down', { atoms: ['c', 'a'], types: ['Node', 'Node'] });
+    expect(relayout().error).toBeNull();
+  });
+});
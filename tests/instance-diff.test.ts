@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { diffInstances } from '../src/data-instance/instance-diff';
+import { JSONDataInstance } from '../src/data-instance/json-data-instance';
+import { classifyChangeEmphasisChangedSet } from '../src/translators/webcola/sequence-policy';
+
+function instance(atoms: Array<[string, string]>, relations: Record<string, string[][]>): JSONDataInstance {
+  return new JSONDataInstance({
+    atoms: atoms.map(([id, type]) => ({ id, type, label: id })),
+    relations: Object.entries(relations).map(([name, tuples]) => ({
+      id: name,
+      name,
+      types: [],
+      tuples: tuples.map(t => ({ atoms: t, types: [] })),
+    })),
+  });
+}
+
+// A list: A -> B becomes A -> C, with B gone and A's type changed.
+const prev = instance([['A', 'Node'], ['B', 'Node'], ['D', 'Node']], {
+  next: [['A', 'B']],
+  mark: [['D', 'D']],
+});
+const curr = instance([['A', 'Head'], ['C', 'Node'], ['D', 'Node']], {
+  next: [['A', 'C']],
+  mark: [['D', 'D']],
+  owner: [['C', 'A']],
+});
+
+describe('diffInstances', () => {
+  const diff = diffInstances(prev, curr);
+
+  it('finds added, removed and retyped atoms by id', () => {
+    expect(diff.addedAtoms.map(a => a.id)).toEqual(['C']);
+    expect(diff.removedAtoms.map(a => a.id)).toEqual(['B']);
+    expect(diff.retypedAtoms).toEqual([{ id: 'A', prevType: 'Node', currType: 'Head' }]);
+  });
+
+  it('lists the tuples each changed relation gained and lost', () => {
+    expect(diff.relations.map(r => ({
+      relation: r.relation,
+      added: r.added.map(t => t.atoms),
+      removed: r.removed.map(t => t.atoms),
+    }))).toEqual([
+      { relation: 'next', added: [['A', 'C']], removed: [['A', 'B']] },
+      { relation: 'owner', added: [['C', 'A']], removed: [] },
+    ]);
+  });
+
+  it('reports persisting atoms whose connectivity changed, agreeing with changeEmphasis', () => {
+    expect(diff.connectivityChanged).toEqual(['A']);
+    const changed = [...diff.addedAtoms, ...diff.removedAtoms].map(a => a.id).concat(diff.connectivityChanged);
+    expect(changed.sort()).toEqual([...classifyChangeEmphasisChangedSet(prev, curr)].sort());
+  });
+
+  it('is empty for identical instances', () => {
+    expect(diffInstances(prev, prev)).toEqual({
+      addedAtoms: [], removedAtoms: [], retypedAtoms: [], relations: [], connectivityChanged: [],
+    });
+  });
+});
@@ -0,0 +1,83 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import { createAlloyTrace, createTlaTrace, InstanceTrace } from '../src/data-instance/instance-trace';
+import { parseAlloyXML } from '../src/data-instance/alloy/alloy-instance/src/xml';
+import { parseItfTrace } from '../src/data-instance/tla/tla-trace-import';
+import { stability } from '../src/translators/webcola/sequence-policy';
+import type { IDataInstance } from '../src/data-instance/interfaces';
+
+const ITF = {
+  vars: ['procs', 'pc'],
+  states: [
+    { procs: { '#set': ['p1', 'p2'] }, pc: { '#map': [['p1', 'idle'], ['p2', 'idle']] } },
+    { procs: { '#set': ['p2'] }, pc: { '#map': [['p1', 'done'], ['p2', 'busy']] } },
+    { procs: { '#set': ['p2', 'p3'] }, pc: { '#map': [['p1', 'done'], ['p2', 'idle']] } },
+  ],
+  loop: 1,
+};
+
+const ids = (instance: IDataInstance) => new Set(instance.getAtoms().map((a) => a.id));
+
+describe('TLA+ traces by step', () => {
+  const trace = createTlaTrace(parseItfTrace(ITF));
+
+  it('has one instance per state, each of that state alone', () => {
+    expect(trace.length).toBe(3);
+    const states = trace.getStep(1).getAtoms().filter((a) => a.type === 'State');
+    expect(states.map((a) => a.label)).toEqual(['State 2']);
+  });
+
+  it('keeps the ids of what persists, and only of that', () => {
+    const [first, second, third] = trace.getSteps().map(ids);
+    const member = (step: Set<string>) => [...step].filter((id) => id.includes('.procs{')).sort();
+    // p2 stays in the set through every step; p1 leaves and p3 arrives.
+    expect(member(first).filter((id) => second.has(id))).toEqual(member(second));
+    expect(member(third).filter((id) => !second.has(id))).toHaveLength(1);
+    // The function's value at p1 is the same atom while p1 stays in its domain.
+    expect([...first].filter((id) => id.includes('.pc["p1"]'))).toEqual([...second].filter((id) => id.includes('.pc["p1"]')));
+  });
+
+  it('follows the loop from the last step', () => {
+    expect([0, 1, 2].map((i) => trace.next(i))).toEqual([1, 2, 1]);
+    expect(createTlaTrace({ states: [{ variables: { x: 1 } }] }).next(0)).toBeUndefined();
+  });
+
+  it('hands a sequence policy consecutive steps', () => {
+    expect(trace.transition(undefined, 0, stability)).toEqual({});
+    const transition = trace.transition(2, 1, stability);
+    expect(transition).toMatchObject({ policy: stability, prevInstance: trace.getStep(2), currInstance: trace.getStep(1) });
+
+    const persisting = [...ids(trace.getStep(2))].find((id) => ids(trace.getStep(1)).has(id))!;
+    const result = stability.apply({
+      ...(transition as Required<typeof transition>),
+      priorState: { positions: [{ id: persisting, x: 10, y: 20 }], transform: { k: 1, x: 0, y: 0 } },
+      spec: {} as any,
+    });
+    expect(result.effectivePriorState?.positions).toContainEqual({ id: persisting, x: 10, y: 20 });
+  });
+
+  it('rejects a step out of range', () => {
+    expect(() => trace.getStep(3)).toThrow(RangeError);
+    expect(() => new InstanceTrace([])).toThrow();
+  });
+});
+
+describe('Alloy traces by step', () => {
+  const SIGS =
+    '<sig label="Int" ID="1" parentID="2" builtin="yes"></sig><sig label="univ" ID="2" builtin="yes"></sig>';
+  const state = (atoms: string) =>
+    `<instance bitwidth="4" tracelength="3" backloop="2">${SIGS}` +
+    `<sig label="this/Node" ID="3" parentID="2">${atoms}</sig></instance>`;
+
+  it('has one instance per <instance>, with the datum\'s loop-back', () => {
+    const xml = `<alloy>${state('<atom label="Node$0"/>')}${state('<atom label="Node$0"/><atom label="Node$1"/>')}` +
+      `${state('<atom label="Node$1"/>')}</alloy>`;
+    const trace = createAlloyTrace(parseAlloyXML(xml));
+
+    expect(trace.length).toBe(3);
+    expect(trace.loop).toBe(2);
+    expect(trace.next(2)).toBe(2);
+    expect(ids(trace.getStep(1))).toContain('Node$0');
+    expect(ids(trace.getStep(2))).not.toContain('Node$0');
+  });
+});
@@ -79,6 +79,10 @@ const landsIn: Record<string, (spec: LayoutSpec) => number> = {
   group: (s) => s.constraints.grouping.byselector.length,
   size: (s) => s.directives.sizes.length,
   hideAtom: (s) => s.directives.hiddenAtoms.length,
+  // Macros land as the orientation constraints they expand to.
+  binaryTree: (s) => s.constraints.orientation.relative.length,
+  linkedList: (s) => s.constraints.orientation.relative.length,
+  grid: (s) => s.constraints.orientation.relative.length,
   flag: (s) => (s.directives.hideDisconnected || s.directives.hideDisconnectedBuiltIns ? 1 : 0),
   atomStyle: (s) => s.directives.atomStyles.length,
   edgeStyle: (s) => s.directives.edgeStyles.length,
@@ -86,6 +90,7 @@ const landsIn: Record<string, (spec: LayoutSpec) => number> = {
   tag: (s) => s.directives.tags.length,
   hideField: (s) => s.directives.hiddenFields.length,
   inferredEdge: (s) => s.directives.inferredEdges.length,
+  projection: (s) => s.directives.projections.length,
   // The deprecated trio desugar onto their modern counterparts rather than
   // landing in their own (now vestigial) buckets.
   icon: (s) => s.directives.atomStyles.length,
@@ -519,6 +524,8 @@ describe('spec JSON Schema', () => {
       ['bad orientation direction', { constraints: [{ orientation: { selector: 'p', directions: ['sideways'] } }] }],
       ['unknown flag', { directives: [{ flag: 'notARealFlag' }] }],
       ['unknown top-level section', { somethingElse: [] }],
+      ['extends as a list', { extends: ['a', 'b'] }],
+      ['empty include reference', { include: [''] }],
       ['section as a mapping', { constraints: { align: { selector: 'a', direction: 'horizontal' } } }],
       ['size without dimensions', { directives: [{ size: { selector: 'a' } }] }],
       ['group without a name', { constraints: [{ group: { selector: 'a.b' } }] }],
@@ -551,6 +558,8 @@ describe('spec JSON Schema', () => {
       ],
       ['legacy addEdge boolean', { constraints: [{ group: { selector: 'a.b', name: 'g', addEdge: true } }] }],
       ['size in either section', { constraints: [{ size: { selector: 'a', width: 1, height: 1 } }], directives: [{ size: { width: 2, height: 2 } }] }],
+      ['composed spec', { module: 'tree', extends: 'base', include: ['palette', 'labels'], constraints: [] }],
+      ['single include', { include: 'palette' }],
       ['inferredEdge with group endpoints', { constraints: [{ group: { selector: 'R.m', name: 'regions' } }], directives: [{ inferredEdge: { name: 'c', selector: 'connected', draw: 'regions -> regions' } }] }],
     ];
     for (const [label, doc] of goodDocuments) {
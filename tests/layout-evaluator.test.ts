@@ -11,7 +11,10 @@ import {
     AlignmentConstraint,
 } from '../src/layout/interfaces';
 import { RelativeOrientationConstraint, CyclicOrientationConstraint } from '../src/layout/layoutspec';
-import { LayoutEvaluator, LayoutEvaluatorResult, LayoutEvaluatorRecordResult, LayoutEvaluatorEdgeResult } from '../src/evaluators/layout/layout-evaluator';
+import { LayoutEvaluator, LayoutEvaluatorResult, LayoutEvaluatorRecordResult, LayoutEvaluatorEdgeResult, LayoutEvaluatorCheckResult } from '../src/evaluators/layout/layout-evaluator';
+import { JSONDataInstance } from '../src/data-instance/json-data-instance';
+import type { IJsonDataInstance } from '../src/data-instance/json-data-instance';
+import { SQLEvaluator } from '../src/evaluators/data/sql-evaluator';
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
@@ -1211,3 +1214,104 @@ describe('Constraint vocabulary queries (hidden/sized/cyclic)', () => {
         });
     });
 });
+
+// ═══════════════════════════════════════════════════════════════════════════════
+
+describe('Heterogeneous queries (data + layout)', () => {
+    // Layout: A left of B left of C. Data: `child` runs parent -> child, and
+    // every child sits left of its parent; `bad` claims A's child is C.
+    function setup() {
+        const [a, b, c] = ['A', 'B', 'C'].map(createNode);
+        const l = layout([a, b, c], [leftOf(a, b), leftOf(b, c)]);
+        const ev = new LayoutEvaluator(validate(l), l);
+        const data = new SQLEvaluator();
+        data.initialize({
+            sourceData: new JSONDataInstance({
+                atoms: ['A', 'B', 'C', 'D'].map(id => ({ id, type: 'Node', label: id })),
+                relations: [
+                    { id: 'child', name: 'child', types: ['Node', 'Node'], tuples: [{ atoms: ['C', 'B'] }, { atoms: ['B', 'A'] }] },
+                    { id: 'bad', name: 'bad', types: ['Node', 'Node'], tuples: [{ atoms: ['A', 'C'] }] },
+                ],
+            } as unknown as IJsonDataInstance),
+        });
+        return { ev, data };
+    }
+
+    it('{ selector } returns the selected atoms that are on the layout', () => {
+        const { ev, data } = setup();
+        // D is in the data but was never drawn.
+        const result = ev.evaluateHeterogeneous("{ SELECT id FROM _atoms WHERE id IN ('B', 'D') }", data);
+        expect(result.isError()).toBe(false);
+        expect(result.selectedAtoms()).toEqual(['B']);
+    });
+
+    it('a modal query over a selected set holds against every member', () => {
+        const { ev, data } = setup();
+        // must.leftOf(B) = {A}, must.leftOf(C) = {A, B}
+        const result = ev.evaluateHeterogeneous("must.leftOf({ SELECT id FROM _atoms WHERE id IN ('B', 'C') })", data);
+        expect(result.selectedAtoms()).toEqual(['A']);
+    });
+
+    it('a set argument also takes a spatial query', () => {
+        const { ev } = setup();
+        const result = ev.evaluate('must.rightOf(must.leftOf(B))');
+        expect(result.selectedAtoms()).toEqual(['B', 'C']);
+    });
+
+    it('all(...) holds when every tuple passes the check', () => {
+        const { ev, data } = setup();
+        const result = ev.evaluateHeterogeneous('all({ SELECT src, tgt FROM child }, must.leftOf)', data);
+        expect(result).toBeInstanceOf(LayoutEvaluatorCheckResult);
+        expect(result.isError()).toBe(false);
+        expect(result.singleResult()).toBe(true);
+        expect(result.selectedTwoples()).toEqual([]);
+    });
+
+    it('all(...) fails with the counterexamples', () => {
+        const { ev, data } = setup();
+        const result = ev.evaluateHeterogeneous('all({ SELECT src, tgt FROM bad }, must.leftOf)', data);
+        expect(result.singleResult()).toBe(false);
+        expect(result.selectedTwoples()).toEqual([['A', 'C']]);
+        expect(result.prettyPrint()).toBe('false (A->C)');
+    });
+
+    it('some(...) reports its witnesses', () => {
+        const { ev, data } = setup();
+        const result = ev.evaluateHeterogeneous('some({ SELECT src, tgt FROM bad }, must.rightOf)', data);
+        expect(result.singleResult()).toBe(true);
+        expect(result.selectedTwoples()).toEqual([['A', 'C']]);
+    });
+
+    it('a quantified check needs tuples, not atoms', () => {
+        const { ev, data } = setup();
+        const result = ev.evaluateHeterogeneous('all({ SELECT id FROM _atoms }, must.leftOf)', data);
+        expect(result.isError()).toBe(true);
+        expect(result.prettyPrint()).toContain('arity 2+');
+    });
+
+    it('plain evaluate() rejects a data selector', () => {
+        const { ev } = setup();
+        const result = ev.evaluate('must.leftOf({ Node })');
+        expect(result.isError()).toBe(true);
+        expect(result.prettyPrint()).toContain('evaluateHeterogeneous');
+    });
+
+    it('cannot combine a check with set operations', () => {
+        const { ev, data } = setup();
+        const result = ev.evaluateHeterogeneous('not(all({ SELECT src, tgt FROM child }, must.leftOf))', data);
+        expect(result.isError()).toBe(true);
+    });
+
+    it('parses nested braces and keeps identifiers as identifiers', () => {
+        const { ev } = setup();
+        expect(ev.parseExpression('must.leftOf({ {x: Node | x.val > 10} })')).toEqual({
+            kind: 'directionalAll', modality: 'must', relation: 'leftOf',
+            target: { kind: 'data', selector: '{x: Node | x.val > 10}' },
+        });
+        expect(ev.parseExpression('can.aligned.y(A)')).toEqual({ kind: 'aligned', modality: 'can', axis: 'y', nodeId: 'A' });
+        expect(ev.parseExpression('some({ left }, cannot.aligned.x)')).toEqual({
+            kind: 'quantified', quantifier: 'some', selector: 'left',
+            check: { kind: 'aligned', modality: 'cannot', axis: 'x' },
+        });
+    });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { JSONDataInstance } from '../src/data-instance/json-data-instance';
+import type { IJsonDataInstance } from '../src/data-instance/json-data-instance';
+import { SQLEvaluator } from '../src/evaluators/data/sql-evaluator';
+import type { EvaluatorConfig } from '../src/evaluator-contracts';
+import { LayoutInstance } from '../src/layout/layoutinstance';
+import { parseLayoutSpec } from '../src/layout/layoutspec';
+import { LayoutCancelledError, LayoutMonitor, type LayoutProgress } from '../src/layout/progress';
+
+/**
+ * Cancellation and progress: generateLayout reports each phase as it goes and
+ * stops at its next checkpoint once its signal is aborted or its time is up.
+ */
+const DATUM: IJsonDataInstance = {
+  atoms: [
+    { id: 'a', type: 'Node', label: 'a' },
+    { id: 'b', type: 'Node', label: 'b' },
+    { id: 'c', type: 'Node', label: 'c' },
+  ],
+  relations: [
+    {
+      id: 'next', name: 'next', types: ['Node', 'Node'],
+      tuples: [
+        { atoms: ['a', 'b'], types: ['Node', 'Node'] },
+        { atoms: ['b', 'c'], types: ['Node', 'Node'] },
+      ],
+    },
+  ],
+};
+
+const SPEC = [
+  'constraints:',
+  '  - orientation: { selector: "SELECT * FROM next", directions: [right] }',
+  '  - cyclic: { selector: "SELECT * FROM next", direction: clockwise }',
+].join('\n');
+
+function layoutInstance() {
+  const data = new JSONDataInstance(DATUM);
+  const evaluator = new SQLEvaluator();
+  evaluator.initialize({ sourceData: data });
+  return { data, instance: new LayoutInstance(parseLayoutSpec(SPEC), evaluator, 0, false) };
+}
+
+function aborted(): AbortSignal {
+  const controller = new AbortController();
+  controller.abort();
+  return controller.signal;
+}
+
+describe('layout progress', () => {
+  it('reports generate, then validate, each rising to 100', () => {
+    const { data, instance } = layoutInstance();
+    const seen: LayoutProgress[] = [];
+    instance.generateLayout(data, { onProgress: (p) => seen.push(p) });
+
+    const first = seen.findIndex((p) => p.phase === 'validate');
+    expect(first).toBeGreaterThan(0);
+    expect(seen.slice(0, first).every((p) => p.phase === 'generate')).toBe(true);
+    expect(seen.some((p) => p.phase === 'generate' && p.percentage === 100)).toBe(true);
+    expect(seen.some((p) => p.phase === 'validate' && p.percentage === 100)).toBe(true);
+  });
+
+  it('reports each percentage of a phase at most once, in rising order', () => {
+    const seen: number[] = [];
+    const monitor = new LayoutMonitor({ onProgress: (p) => seen.push(p.percentage) });
+    for (const pct of [0, 0.4, 12.5, 12.9, 50, 40, 100]) monitor.report('solve', pct);
+    expect(seen).toEqual([0, 12, 50, 100]);
+  });
+});
+
+describe('layout cancellation', () => {
+  it('does not start under an aborted signal', () => {
+    const { data, instance } = layoutInstance();
+    expect(() => instance.generateLayout(data, { signal: aborted() })).toThrow(LayoutCancelledError);
+  });
+
+  it('stops when a progress listener aborts, in either phase', () => {
+    for (const phase of ['generate', 'validate']) {
+      const { data, instance } = layoutInstance();
+      const controller = new AbortController();
+      const run = () => instance.generateLayout(data, {
+        signal: controller.signal,
+        onProgress: (p) => p.phase === phase && controller.abort(),
+      });
+      expect(run).toThrow(LayoutCancelledError);
+    }
+  });
+
+  it('stops once out of time, as a timeout', () => {
+    const { data, instance } = layoutInstance();
+    let error: unknown;
+    try {
+      instance.generateLayout(data, { timeout: -1 });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(LayoutCancelledError);
+    expect(error).toMatchObject({ name: 'AbortError', reason: 'timeout' });
+  });
+
+  it('gives each selector the time left, and none without a timeout', () => {
+    const { data, instance } = layoutInstance();
+    const evaluator = (instance as any).evaluator;
+    const timeouts: (number | undefined)[] = [];
+    const evaluate = evaluator.evaluate.bind(evaluator);
+    evaluator.evaluate = (expression: string, config?: EvaluatorConfig) => {
+      timeouts.push(config?.timeout);
+      return evaluate(expression, config);
+    };
+
+    instance.generateLayout(data, { timeout: 60_000 });
+    expect(timeouts.length).toBeGreaterThan(0);
+    expect(timeouts.every((t) => t !== undefined && t > 0 && t <= 60_000)).toBe(true);
+
+    timeouts.length = 0;
+    instance.generateLayout(data);
+    expect(timeouts.every((t) => t === undefined)).toBe(true);
+  });
+
+  it('lays out normally on the next call', () => {
+    const { data, instance } = layoutInstance();
+    expect(() => instance.generateLayout(data, { signal: aborted() })).toThrow();
+    expect(instance.generateLayout(data).layout.nodes.map((n) => n.id).sort()).toEqual(['a', 'b', 'c']);
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import { JSONDataInstance, type IJsonDataInstance } from '../src/data-instance/json-data-instance';
+import type IEvaluator from '../src/evaluator-contracts';
+import type { IEvaluatorResult } from '../src/evaluator-contracts';
+import {
+  createLayoutWorkerHandler,
+  runLayoutJob,
+  runLayoutJobOn,
+  type LayoutJob,
+  type LayoutWorkerRequest,
+  type LayoutWorkerResponse,
+} from '../src/translators/webcola/layout-worker';
+import {
+  createLayoutBackend,
+  InThreadLayoutBackend,
+  LayoutCancelledError,
+  WorkerLayoutBackend,
+  type LayoutWorkerPort,
+} from '../src/translators/webcola/layout-backend';
+
+/**
+ * The layout worker protocol, run in-process: a fake port stands in for the
+ * Worker and structured-clones every message both ways, as postMessage does.
+ */
+const DATUM: IJsonDataInstance = {
+  atoms: [
+    { id: 'a', type: 'Node', label: 'a' },
+    { id: 'b', type: 'Node', label: 'b' },
+    { id: 'c', type: 'Node', label: 'c' },
+  ],
+  relations: [
+    {
+      id: 'next', name: 'next', types: ['Node', 'Node'],
+      tuples: [
+        { atoms: ['a', 'b'], types: ['Node', 'Node'] },
+        { atoms: ['b', 'c'], types: ['Node', 'Node'] },
+      ],
+    },
+  ],
+};
+
+function job(constraints: string[] = ['orientation: { selector: next, directions: [right] }']): LayoutJob {
+  return {
+    spec: ['constraints:', ...constraints.map((c) => `  - ${c}`)].join('\n'),
+    datum: DATUM,
+    figWidth: 800,
+    figHeight: 600,
+  };
+}
+
+/** A Worker running the handler in this thread, one task away, like a real one. */
+function fakeWorker() {
+  const listeners: Record<'message' | 'error', Array<(event: any) => void>> = { message: [], error: [] };
+  let terminated = false;
+  const posted: LayoutWorkerRequest['type'][] = [];
+  const handle = createLayoutWorkerHandler((response: LayoutWorkerResponse) => {
+    const data = structuredClone(response);
+    setTimeout(() => !terminated && listeners.message.forEach((l) => l({ data })));
+  });
+  const port: LayoutWorkerPort = {
+    postMessage(request: LayoutWorkerRequest) {
+      posted.push(request.type);
+      const data = structuredClone(request);
+      setTimeout(() => !terminated && handle(data));
+    },
+    addEventListener(type: 'message' | 'error', listener: (event: any) => void) {
+      listeners[type].push(listener);
+    },
+    terminate() {
+      terminated = true;
+    },
+  } as LayoutWorkerPort;
+  return { port, posted, fail: () => listeners.error.forEach((l) => l({ type: 'error' })) };
+}
+
+const nodeIds = (ids: { id: string }[]) => ids.map((n) => n.id).sort();
+
+describe('layout worker: jobs', () => {
+  it('lays out and solves, with a result that survives structured clone', async () => {
+    const result = await runLayoutJob(job());
+    expect(result.error).toBeNull();
+    expect(nodeIds(result.positions.positions)).toEqual(['a', 'b', 'c']);
+    expect(nodeIds(structuredClone(result).layout.nodes)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('flattens a constraint conflict to plain data', async () => {
+    const result = await runLayoutJob(job([
+      'orientation: { selector: next, directions: [right] }',
+      'orientation: { selector: next, directions: [left] }',
+    ]));
+    expect(result.error).toMatchObject({ type: 'positional-conflict' });
+    expect(result.error).not.toBeInstanceOf(Error);
+    expect(structuredClone(result.error)).toEqual(result.error);
+  });
+
+  it('stops at a cancellation point', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(runLayoutJob(job(), { signal: controller.signal })).rejects.toBeInstanceOf(LayoutCancelledError);
+  });
+
+  it('reports progress through every phase', async () => {
+    const phases: string[] = [];
+    await runLayoutJob(job(), { onProgress: ({ phase }) => phases.push(phase) });
+    expect([...new Set(phases)]).toEqual(['generate', 'validate', 'solve']);
+  });
+});
+
+describe('layout worker: host evaluators', () => {
+  /** An evaluator knowing a relation the JSON datum does not: `link`, c to a. */
+  const hostEvaluator = {
+    initialize: () => undefined,
+    isReady: () => true,
+    evaluate: (expression: string) => {
+      const tuples = expression === 'link' ? [['c', 'a']] : [];
+      return {
+        isError: () => false,
+        prettyPrint: () => '',
+        maxArity: () => 2,
+        selectedTwoples: () => tuples,
+        selectedAtoms: () => [],
+        selectedTuplesAll: () => tuples,
+      } as unknown as IEvaluatorResult;
+    },
+  } as unknown as IEvaluator;
+
+  it('evaluates selectors with the host\'s evaluator over the instance itself', async () => {
+    const { datum: _datum, ...settings } = job(['orientation: { selector: link, directions: [right] }']);
+    const result = await runLayoutJobOn(new JSONDataInstance(DATUM), hostEvaluator, settings);
+
+    expect(result.error).toBeNull();
+    const lefts = result.layout.constraints
+      .filter((c: any) => c.left && c.right)
+      .map((c: any) => [c.left.id, c.right.id]);
+    expect(lefts).toEqual([['c', 'a']]);
+  });
+});
+
+describe('layout worker: backends', () => {
+  it('answers through the worker as it does in-thread', async () => {
+    const { port } = fakeWorker();
+    const viaWorker = await new WorkerLayoutBackend(port).layout(job());
+    const inThread = await new InThreadLayoutBackend().layout(job());
+    expect(nodeIds(viaWorker.layout.nodes)).toEqual(nodeIds(inThread.layout.nodes));
+    expect(viaWorker.error).toEqual(inThread.error);
+  });
+
+  it('cancels a job on abort, and runs the next', async () => {
+    const { port, posted } = fakeWorker();
+    const backend = new WorkerLayoutBackend(port);
+    const controller = new AbortController();
+    const first = backend.layout(job(), controller.signal);
+    const second = backend.layout(job());
+    controller.abort();
+
+    await expect(first).rejects.toBeInstanceOf(LayoutCancelledError);
+    await expect(second).resolves.toMatchObject({ error: null });
+    expect(posted).toEqual(['layout', 'layout', 'cancel']);
+  });
+
+  it('forwards the worker\'s progress', async () => {
+    const { port } = fakeWorker();
+    const seen: number[] = [];
+    await new WorkerLayoutBackend(port).layout(job(), undefined, ({ phase, percentage }) => {
+      if (phase === 'solve') seen.push(percentage);
+    });
+    expect(seen).toEqual([0, 100]);
+  });
+
+  it('rejects outstanding jobs as cancelled on dispose', async () => {
+    const { port } = fakeWorker();
+    const backend = new WorkerLayoutBackend(port);
+    const pending = backend.layout(job());
+    backend.dispose();
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('falls back in-thread when the worker fails', async () => {
+    const { port, fail } = fakeWorker();
+    const backend = new WorkerLayoutBackend(port);
+    const pending = backend.layout(job());
+    fail();
+
+    expect(backend.offThread).toBe(false);
+    await expect(pending).resolves.toMatchObject({ error: null });
+    await expect(backend.layout(job())).resolves.toMatchObject({ error: null });
+  });
+
+  it('runs in-thread where there is no Worker', () => {
+    expect(createLayoutBackend('spytial-layout-worker.global.js').offThread).toBe(false);
+    expect(createLayoutBackend(null)).toBeInstanceOf(InThreadLayoutBackend);
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, expect, it } from 'vitest';
+import * as d3 from 'd3';
+import { ARRANGEMENT_VERSION, parseArrangement } from '../src/translators/webcola/arrangement';
+import { WebColaLayout } from '../src/translators/webcola/webcolatranslator';
+import type { InstanceLayout, LayoutConstraint, LayoutNode } from '../src/layout/interfaces';
+
+/**
+ * Pins are held by the translator (fixed=1 where constraints allow) and kept
+ * by the element across renders; drawing is renderLayout's job, so the
+ * element tests stub it to record its calls.
+ *
+ * The renderer captures `window.d3` at module load, so d3 is installed before
+ * the dynamic import below.
+ */
+(window as any).d3 = d3;
+const { WebColaCnDGraph } = await import('../src/translators/webcola/webcola-cnd-graph');
+const proto = WebColaCnDGraph.prototype as any;
+
+const node = (id: string): LayoutNode => ({
+  id, label: id, color: 'black', width: 60, height: 40,
+  mostSpecificType: 'Node', types: ['Node'], showLabels: true,
+});
+
+describe('parseArrangement', () => {
+  const saved = {
+    version: ARRANGEMENT_VERSION,
+    nodes: { a: { x: 1, y: 2, pinned: true }, b: { x: 3, y: 4, pinned: false, note: 'dropped' } },
+    transform: { k: 2, x: 10, y: 20 },
+  };
+
+  it('reads JSON text or an object, keeping only what it knows', () => {
+    const expected = {
+      version: ARRANGEMENT_VERSION,
+      nodes: { a: { x: 1, y: 2, pinned: true }, b: { x: 3, y: 4 } },
+      transform: { k: 2, x: 10, y: 20 },
+    };
+    expect(parseArrangement(JSON.stringify(saved))).toEqual(expected);
+    expect(parseArrangement(saved)).toEqual(expected);
+  });
+
+  it('keeps an atom named __proto__ as an atom', () => {
+    const parsed = parseArrangement(`{"version": 1, "nodes": {"__proto__": {"x": 5, "y": 6}}}`);
+    expect(Object.keys(parsed.nodes)).toEqual(['__proto__']);
+    expect(Object.getPrototypeOf(parsed.nodes)).toBe(Object.prototype);
+  });
+
+  it('says what is wrong with a document it cannot read', () => {
+    expect(() => parseArrangement('{')).toThrow('Invalid arrangement: not JSON');
+    expect(() => parseArrangement([])).toThrow('expected an object');
+    expect(() => parseArrangement({ version: 2, nodes: {} })).toThrow('unsupported version 2 (expected 1)');
+    expect(() => parseArrangement({ version: 1, nodes: { a: { x: '1', y: 2 } } }))
+      .toThrow('node "a" needs numeric x and y');
+    expect(() => parseArrangement({ version: 1, nodes: {}, transform: { k: 1 } }))
+      .toThrow('"transform" needs numeric k, x and y');
+  });
+});
+
+describe('WebColaLayout pinnedPositions', () => {
+  const source = {} as LayoutConstraint['sourceConstraint'];
+
+  /** a must be left of b; c is unconstrained. */
+  function translate(pins: Array<{ id: string; x: number; y: number }>, lockUnconstrainedNodes = false) {
+    const [a, b, c] = ['a', 'b', 'c'].map(node);
+    const layout: InstanceLayout = {
+      nodes: [a, b, c],
+      edges: [],
+      groups: [],
+      constraints: [{ sourceConstraint: source, left: a, right: b, minDistance: 15 } as LayoutConstraint],
+    };
+    const cola = new WebColaLayout(layout, 800, 800, { pinnedPositions: pins, lockUnconstrainedNodes });
+    return Object.fromEntries(cola.colaNodes.map(n => [n.id, n]));
+  }
+
+  it('starts pinned nodes at their pins, held fixed', () => {
+    const { c } = translate([{ id: 'c', x: 100, y: 200 }, { id: 'gone', x: 0, y: 0 }]);
+    expect([c.x, c.y, c.fixed]).toEqual([100, 200, 1]);
+  });
+
+  it('keeps a pin that satisfies its constraints, even outside stability mode', () => {
+    const { a, b } = translate([{ id: 'a', x: 0, y: 0 }, { id: 'b', x: 500, y: 0 }]);
+    expect([a.fixed, b.fixed]).toEqual([1, 1]);
+  });
+
+  it('frees pins that violate a constraint, and leaves unpinned partners free', () => {
+    const violated = translate([{ id: 'a', x: 500, y: 0 }, { id: 'b', x: 0, y: 0 }]);
+    expect([violated.a.fixed, violated.b.fixed]).toEqual([0, 0]);
+
+    const half = translate([{ id: 'a', x: 0, y: 0 }]);
+    expect([half.a.fixed, half.b.fixed]).toEqual([1, 0]);
+  });
+});
+
+describe('<webcola-cnd-graph> pinning', () => {
+  function fakeGraph() {
+    const drawn = [
+      { id: 'a', x: 10, y: 20, fixed: 0 },
+      { id: 'b', x: 30, y: 40, fixed: 0 },
+      { id: '_helper', x: 0, y: 0, fixed: 0 },
+    ];
+    const host = document.createElement('div');
+    const root = host.attachShadow({ mode: 'open' });
+    root.innerHTML = '<svg><g class="zoomable"></g></svg>';
+    const svgNodes = d3.select(root.querySelector('.zoomable') as any)
+      .selectAll('.node').data(drawn).enter().append('g').attr('class', 'node');
+
+    const renders: any[] = [];
+    const events: CustomEvent[] = [];
+    const transform = { k: 1, x: 0, y: 0 };
+    const graph = Object.create(proto, {
+      renderLayout: { value: async (layout: InstanceLayout, options: any) => renders.push({ layout, options }) },
+      getCurrentTransform: { value: () => transform },
+      dispatchEvent: { value: (event: CustomEvent) => events.push(event) },
+    });
+    Object.assign(graph, {
+      svgNodes,
+      currentLayout: { nodes: drawn },
+      sourceLayout: { nodes: [], edges: [], groups: [], constraints: [] },
+      // Field initialisers, which Object.create skips.
+      pinnedPositions: new Map(),
+    });
+    const pinnedClass = () =>
+      svgNodes.filter(function (this: Element) { return this.classList.contains('pinned'); }).data().map((d: any) => d.id);
+    return { graph, drawn, renders, events, pinnedClass };
+  }
+
+  it('pins a node where it is drawn, live and for later renders', () => {
+    const { graph, drawn, events, pinnedClass } = fakeGraph();
+
+    graph.pinNode('a');
+
+    expect(graph.isNodePinned('a')).toBe(true);
+    expect(drawn[0].fixed).toBe(1);
+    expect(pinnedClass()).toEqual(['a']);
+    expect(graph.getPinnedPositionHints()).toEqual([{ id: 'a', x: 10, y: 20 }]);
+    expect(events.map(e => e.detail)).toEqual([{ id: 'a', pinned: true, position: { x: 10, y: 20 } }]);
+    expect(() => graph.pinNode('nobody')).toThrow('No node "nobody" is drawn.');
+  });
+
+  it('toggles pins off again', () => {
+    const { graph, drawn, events, pinnedClass } = fakeGraph();
+
+    expect(graph.togglePin('b')).toBe(true);
+    expect(graph.togglePin('b')).toBe(false);
+
+    expect(graph.getPinnedNodes()).toEqual([]);
+    expect(drawn[1].fixed).toBe(0);
+    expect(pinnedClass()).toEqual([]);
+    expect(events.map(e => e.detail.pinned)).toEqual([true, false]);
+  });
+
+  it('saves positions and pins by atom id, helpers left out', () => {
+    const { graph } = fakeGraph();
+    graph.pinNode('b');
+    graph.pinnedPositions.set('elsewhere', { x: 7, y: 8 });
+
+    expect(JSON.parse(JSON.stringify(graph.getArrangement()))).toEqual({
+      version: ARRANGEMENT_VERSION,
+      nodes: {
+        a: { x: 10, y: 20 },
+        b: { x: 30, y: 40, pinned: true },
+        elsewhere: { x: 7, y: 8, pinned: true },
+      },
+      transform: { k: 1, x: 0, y: 0 },
+    });
+  });
+
+  it('restores an arrangement: its pins replace the current ones, and its positions seed a render', async () => {
+    const { graph, renders } = fakeGraph();
+    graph.pinNode('a');
+
+    await graph.applyArrangement(JSON.stringify({
+      version: 1,
+      nodes: { b: { x: 300, y: 400, pinned: true }, gone: { x: 1, y: 1 } },
+      transform: { k: 2, x: 5, y: 5 },
+    }));
+
+    expect(graph.getPinnedNodes()).toEqual(['b']);
+    expect(renders).toHaveLength(1);
+    expect(renders[0].options.priorPositions).toEqual({
+      positions: [
+        { id: 'a', x: 10, y: 20 },
+        { id: '_helper', x: 0, y: 0 },
+        { id: 'b', x: 300, y: 400 },
+        { id: 'gone', x: 1, y: 1 },
+      ],
+      transform: { k: 2, x: 5, y: 5 },
+    });
+  });
+
+  it('takes only the pins before the first render', async () => {
+    const { graph, renders } = fakeGraph();
+    graph.sourceLayout = null;
+    await graph.applyArrangement({ version: 1, nodes: { a: { x: 1, y: 2, pinned: true } } });
+    expect(graph.getPinnedPositionHints()).toEqual([{ id: 'a', x: 1, y: 2 }]);
+    expect(renders).toHaveLength(0);
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, expect, it } from 'vitest';
+import * as d3 from 'd3';
+import { matchNodesBySelector, matchNodesByText, type SearchableNode } from '../src/translators/webcola/node-search';
+import type IEvaluator from '../src/evaluator-contracts';
+import type { IEvaluatorResult } from '../src/evaluator-contracts';
+import { collapsedGroupNodeId } from '../src/layout/group-collapse';
+
+/**
+ * The search methods only read the drawn nodes and the toolbar's search box,
+ * so they run against a bare shadow root: the toolbar markup and nodes bound
+ * to laid-out data, with panning recorded instead of animated.
+ *
+ * The renderer captures `window.d3` at module load, so d3 is installed before
+ * the dynamic import below.
+ */
+(window as any).d3 = d3;
+const { WebColaCnDGraph } = await import('../src/translators/webcola/webcola-cnd-graph');
+const proto = WebColaCnDGraph.prototype as any;
+
+const nodes: SearchableNode[] = [
+  { id: 'Alice', label: 'Alice', types: ['Student', 'Person'], attributes: { age: ['20'] } },
+  { id: 'Bob', label: 'Bob', types: ['Professor', 'Person'], attributes: { dept: ['CS'] } },
+  { id: 'Carol', label: 'Carol', types: ['Student', 'Person'], labels: { $advisee: ['Carol'] } },
+  { id: 'Course0', label: 'Course0', types: ['Course'], attributes: { title: ['Alice in Logic'] } },
+];
+
+/** An evaluator that answers from a fixed table of expressions. */
+function fakeEvaluator(table: Record<string, string[][]>): IEvaluator {
+  return {
+    initialize: () => undefined,
+    isReady: () => true,
+    evaluate: (expression: string) => {
+      const tuples = table[expression];
+      return {
+        isError: () => tuples === undefined,
+        prettyPrint: () => (tuples === undefined ? `unknown name ${expression}` : ''),
+        selectedTuplesAll: () => tuples ?? [],
+      } as unknown as IEvaluatorResult;
+    },
+  } as unknown as IEvaluator;
+}
+
+describe('matchNodesByText', () => {
+  it('matches labels, types and attribute values, ignoring case, in node order', () => {
+    expect(matchNodesByText(nodes, 'alice')).toEqual(['Alice', 'Course0']);
+    expect(matchNodesByText(nodes, 'STUDENT')).toEqual(['Alice', 'Carol']);
+    expect(matchNodesByText(nodes, 'cs')).toEqual(['Bob']);
+    expect(matchNodesByText(nodes, '  20 ')).toEqual(['Alice']);
+  });
+
+  it('matches nothing for a blank query', () => {
+    expect(matchNodesByText(nodes, '   ')).toEqual([]);
+  });
+});
+
+describe('matchNodesBySelector', () => {
+  const evaluator = fakeEvaluator({
+    Student: [['Alice'], ['Carol']],
+    advisor: [['Carol', 'Bob'], ['Ghost', 'Bob']],
+  });
+
+  it('takes every atom of every selected tuple that is a node', () => {
+    expect(matchNodesBySelector(nodes, 'Student', evaluator)).toEqual(['Alice', 'Carol']);
+    expect(matchNodesBySelector(nodes, ' advisor ', evaluator)).toEqual(['Bob', 'Carol']);
+  });
+
+  it('says why a selector does not evaluate', () => {
+    expect(() => matchNodesBySelector(nodes, 'Nope', evaluator))
+      .toThrow('Selector "Nope" did not evaluate: unknown name Nope');
+  });
+});
+
+describe('<webcola-cnd-graph> search', () => {
+  function fakeGraph() {
+    const drawn = [
+      { id: 'Alice', label: 'Alice', attributes: {}, x: 10, y: 20 },
+      { id: 'Bob', label: 'Bob', attributes: {}, x: 30, y: 40 },
+      { id: collapsedGroupNodeId('advisees'), label: 'advisees', attributes: {}, x: 50, y: 60 },
+      { id: '_hidden', label: 'Alice', attributes: {}, x: 0, y: 0 },
+    ];
+    const host = document.createElement('div');
+    const root = host.attachShadow({ mode: 'open' });
+    root.innerHTML = `
+      <div id="search-control">
+        <input id="search-input" type="search">
+        <button id="search-mode" aria-pressed="false" hidden>Selector</button>
+        <span id="search-count"></span>
+        <button id="search-prev" disabled></button>
+        <button id="search-next" disabled></button>
+      </div>
+      <svg><g class="zoomable"></g></svg>`;
+    const svgNodes = d3.select(root.querySelector('.zoomable') as any)
+      .selectAll('.node').data(drawn).enter().append('g').attr('class', 'node');
+
+    const pans: Array<[number, number]> = [];
+    const events: CustomEvent[] = [];
+    const svg = {
+      transition: () => ({ duration: () => ({ call: (_: unknown, x: number, y: number) => pans.push([x, y]) }) }),
+    };
+    const graph = Object.create(proto, {
+      shadowRoot: { value: root },
+      dispatchEvent: { value: (event: CustomEvent) => events.push(event) },
+    });
+    Object.assign(graph, {
+      svg, svgNodes,
+      zoomBehavior: { translateTo: () => undefined },
+      currentLayout: { nodes: drawn },
+      sourceLayout: {
+        nodes: [...nodes, { id: '_hidden', label: 'Alice' }],
+        groups: [{ name: 'advisees', nodeIds: ['Carol'], keyNodeId: 'Carol', showLabel: true, collapsed: true }],
+      },
+      // Field initialisers, which Object.create skips.
+      groupCollapseOverrides: new Map(),
+      searchEvaluator: null,
+      searchQuery: null,
+      searchMatches: [],
+      searchIndex: -1,
+    });
+    graph.initializeSearchControl();
+
+    const classed = (cls: string) =>
+      svgNodes.filter(function (this: Element) { return this.classList.contains(cls); }).data().map((d: any) => d.id);
+    const $ = (selector: string) => root.querySelector(selector) as HTMLInputElement;
+    return { graph, pans, events, classed, $ };
+  }
+
+  it('highlights the drawn matches, pans to the first, and cycles through them', () => {
+    const { graph, pans, events, classed, $ } = fakeGraph();
+
+    expect(graph.search('alice')).toEqual(['Alice']);
+    expect(graph.search('person')).toEqual(['Alice', 'Bob', collapsedGroupNodeId('advisees')]);
+    expect(classed('search-match')).toEqual(['Alice', 'Bob', collapsedGroupNodeId('advisees')]);
+    expect(classed('search-current')).toEqual(['Alice']);
+    expect($('#search-input').value).toBe('person');
+    expect($('#search-count').textContent).toBe('1 of 3');
+
+    expect(graph.previousSearchMatch()).toBe(collapsedGroupNodeId('advisees'));
+    expect(graph.nextSearchMatch()).toBe('Alice');
+    expect(graph.nextSearchMatch()).toBe('Bob');
+    expect(classed('search-current')).toEqual(['Bob']);
+    expect(pans).toEqual([[10, 20], [10, 20], [50, 60], [10, 20], [30, 40]]);
+    expect(events.at(-1)!.detail).toEqual({
+      query: 'person',
+      selector: false,
+      matches: ['Alice', 'Bob', collapsedGroupNodeId('advisees')],
+      current: 'Bob',
+    });
+  });
+
+  it('clears the box, the highlights and the count', () => {
+    const { graph, classed, events, $ } = fakeGraph();
+    graph.search('bob');
+    graph.clearSearch();
+
+    expect(graph.getSearchMatches()).toEqual([]);
+    expect(classed('search-match')).toEqual([]);
+    expect($('#search-input').value).toBe('');
+    expect($('#search-count').textContent).toBe('');
+    expect($('#search-next').disabled).toBe(true);
+    expect(events.at(-1)!.detail).toMatchObject({ query: '', matches: [], current: null });
+    expect(graph.nextSearchMatch()).toBeNull();
+  });
+
+  it('runs selectors only with an evaluator, and shows why one fails', () => {
+    const { graph, $ } = fakeGraph();
+    expect(() => graph.search('Student', { selector: true })).toThrow('setSearchEvaluator');
+
+    graph.setSearchEvaluator(fakeEvaluator({ Student: [['Alice'], ['Carol']] }));
+    expect($('#search-mode').hidden).toBe(false);
+    expect(graph.search('Student', { selector: true })).toEqual(['Alice', collapsedGroupNodeId('advisees')]);
+    expect($('#search-mode').getAttribute('aria-pressed')).toBe('true');
+
+    const input = $('#search-input');
+    input.value = 'Nope';
+    input.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter' }));
+    expect(graph.getSearchMatches()).toEqual([]);
+    expect($('#search-count').textContent).toBe('Invalid selector');
+    expect($('#search-count').title).toContain('unknown name Nope');
+  });
+
+  it('re-runs the search over a new layout, keeping the current match where it can', () => {
+    const { graph, pans, $ } = fakeGraph();
+    graph.search('person');
+    graph.nextSearchMatch();
+
+    // A render of another instance: Bob is still there, Alice is not.
+    graph.currentLayout = { nodes: [{ id: 'Bob', label: 'Bob', attributes: {}, x: 1, y: 2 }] };
+    graph.sourceLayout = { nodes: [nodes[1]], groups: [] };
+    graph.refreshSearch();
+    expect(graph.getSearchMatches()).toEqual(['Bob']);
+    expect($('#search-count').textContent).toBe('1 of 1');
+    expect(pans).toHaveLength(2);
+
+    graph.currentLayout = { nodes: [] };
+    graph.sourceLayout = { nodes: [], groups: [] };
+    graph.refreshSearch();
+    expect(graph.getSearchMatches()).toEqual([]);
+    expect($('#search-count').textContent).toBe('No matches');
+  });
+
+  it('searches as the user types, steps on Enter, and clears on Escape', () => {
+    const { graph, $ } = fakeGraph();
+    const input = $('#search-input');
+    const key = (key: string, shiftKey = false) =>
+      input.dispatchEvent(new KeyboardEvent('keydown', { key, shiftKey }));
+
+    input.value = 'ro';
+    input.dispatchEvent(new Event('input'));
+    expect(graph.getSearchMatches()).toEqual(['Bob', collapsedGroupNodeId('advisees')]);
+
+    key('Enter');
+    expect($('#search-count').textContent).toBe('2 of 2');
+    key('Enter', true);
+    expect($('#search-count').textContent).toBe('1 of 2');
+
+    key('Escape');
+    expect(input.value).toBe('');
+    expect(graph.getSearchMatches()).toEqual([]);
+  });
+});
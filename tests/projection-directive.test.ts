@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import { JSONDataInstance } from '../src/data-instance/json-data-instance';
+import type { IJsonDataInstance } from '../src/data-instance/json-data-instance';
+import { applyProjectionTransform } from '../src/data-instance/projection-transform';
+import { SQLEvaluator } from '../src/evaluators/data/sql-evaluator';
+import { LayoutInstance } from '../src/layout/layoutinstance';
+import { parseLayoutSpec } from '../src/layout/layoutspec';
+
+/**
+ * The `projection` directive slices an instance at one atom of a type. The
+ * running example is the usual Alloy trace shape: `edges: Node -> Node -> Time`
+ * with `next` ordering the Time atoms — listed here out of order, so step
+ * order visibly comes from `next` and not from the instance.
+ */
+function trace(): IJsonDataInstance {
+  return {
+    atoms: [
+      { id: 'n0', type: 'Node', label: 'n0' },
+      { id: 'n1', type: 'Node', label: 'n1' },
+      { id: 'n2', type: 'Node', label: 'n2' },
+      { id: 'T2', type: 'Time', label: 'T2' },
+      { id: 'T0', type: 'Time', label: 'T0' },
+      { id: 'T1', type: 'Time', label: 'T1' },
+    ],
+    relations: [
+      {
+        id: 'edges', name: 'edges', types: ['Node', 'Node', 'Time'],
+        tuples: [
+          { atoms: ['n0', 'n1', 'T0'], types: ['Node', 'Node', 'Time'] },
+          { atoms: ['n1', 'n2', 'T1'], types: ['Node', 'Node', 'Time'] },
+          { atoms: ['n0', 'n2', 'T1'], types: ['Node', 'Node', 'Time'] },
+        ],
+      },
+      {
+        id: 'next', name: 'next', types: ['Time', 'Time'],
+        tuples: [
+          { atoms: ['T1', 'T2'], types: ['Time', 'Time'] },
+          { atoms: ['T0', 'T1'], types: ['Time', 'Time'] },
+        ],
+      },
+      {
+        id: 'root', name: 'root', types: ['Node'],
+        tuples: [{ atoms: ['n0'], types: ['Node'] }],
+      },
+    ],
+  } as IJsonDataInstance;
+}
+
+describe('projection directive: parsing', () => {
+  it('lands in directives.projections', () => {
+    const spec = parseLayoutSpec('directives:\n  - projection: { sig: Time, orderBy: next }\n');
+    expect(spec.directives.projections).toEqual([{ sig: 'Time', orderBy: 'next' }]);
+  });
+
+  it('defaults to no projections', () => {
+    expect(parseLayoutSpec('').directives.projections).toEqual([]);
+    expect(parseLayoutSpec('directives:\n  - flag: hideDisconnected\n').directives.projections).toEqual([]);
+  });
+
+  it('requires a sig', () => {
+    expect(() => parseLayoutSpec('directives:\n  - projection: { orderBy: next }\n')).toThrow(/must have a sig/);
+  });
+
+  it('rejects two projections over the same sig', () => {
+    expect(() => parseLayoutSpec(
+      'directives:\n  - projection: { sig: Time }\n  - projection: { sig: Time, orderBy: next }\n'
+    )).toThrow(/more than once/);
+  });
+});
+
+describe('projection directive: applyProjectionTransform', () => {
+  it('steps through the atoms in orderBy order', () => {
+    const { choices } = applyProjectionTransform(new JSONDataInstance(trace()), [{ sig: 'Time', orderBy: 'next' }]);
+    expect(choices).toEqual([{ sig: 'Time', atom: 'T0', atoms: ['T0', 'T1', 'T2'] }]);
+  });
+
+  it('falls back to instance order without orderBy', () => {
+    const { choices } = applyProjectionTransform(new JSONDataInstance(trace()), [{ sig: 'Time' }]);
+    expect(choices[0].atoms).toEqual(['T2', 'T0', 'T1']);
+  });
+
+  it('drops the projected column and the tuples of other atoms', () => {
+    const { instance } = applyProjectionTransform(
+      new JSONDataInstance(trace()), [{ sig: 'Time', orderBy: 'next' }], { Time: 'T1' }
+    );
+
+    expect(instance.getAtoms().map(a => a.id)).toEqual(['n0', 'n1', 'n2']);
+    expect(instance.getTypes().map(t => t.id)).not.toContain('Time');
+    const edges = instance.getRelations().find(r => r.name === 'edges')!;
+    expect(edges.types).toEqual(['Node', 'Node']);
+    expect(edges.tuples.map(t => t.atoms)).toEqual([['n1', 'n2'], ['n0', 'n2']]);
+    // `next` only ever mentioned Time atoms, so nothing of it survives.
+    expect(instance.getRelations().map(r => r.name)).toEqual(['edges', 'root']);
+  });
+
+  it('leaves relations that never mention the projected type untouched', () => {
+    const { instance } = applyProjectionTransform(new JSONDataInstance(trace()), [{ sig: 'Time' }]);
+    const root = instance.getRelations().find(r => r.name === 'root')!;
+    expect(root.tuples.map(t => t.atoms)).toEqual([['n0']]);
+  });
+
+  it('generates a graph of the slice', () => {
+    const { instance } = applyProjectionTransform(
+      new JSONDataInstance(trace()), [{ sig: 'Time', orderBy: 'next' }], { Time: 'T0' }
+    );
+    const graph = instance.generateGraph();
+    expect(graph.nodes().sort()).toEqual(['n0', 'n1', 'n2']);
+    expect(graph.edges().map(e => [e.v, e.w])).toEqual([['n0', 'n1']]);
+  });
+
+  it('uses the first atom when the requested one is not in the instance', () => {
+    const { choices } = applyProjectionTransform(
+      new JSONDataInstance(trace()), [{ sig: 'Time', orderBy: 'next' }], { Time: 'T9' }
+    );
+    expect(choices[0]).toMatchObject({ atom: 'T0', requestedAtomMissing: true });
+  });
+
+  it('projects nothing over a type with no atoms', () => {
+    const { instance, choices } = applyProjectionTransform(new JSONDataInstance(trace()), [{ sig: 'Step' }]);
+    expect(choices).toEqual([{ sig: 'Step', atom: undefined, atoms: [] }]);
+    expect(instance.getAtoms()).toHaveLength(6);
+  });
+});
+
+describe('projection directive: LayoutInstance.generateLayout', () => {
+  function layoutAt(time?: string) {
+    const data = new JSONDataInstance(trace());
+    const evaluator = new SQLEvaluator();
+    evaluator.initialize({ sourceData: data });
+    const spec = parseLayoutSpec(
+      'constraints:\n' +
+      '  - orientation: { selector: "SELECT elem_0, elem_1, elem_2 FROM edges", directions: [right] }\n' +
+      'directives:\n' +
+      '  - projection: { sig: Time, orderBy: next }\n'
+    );
+    const instance = new LayoutInstance(spec, evaluator, 0, false);
+    return instance.generateLayout(data, time ? { projections: { Time: time } } : undefined);
+  }
+
+  it('lays out the slice and reports the choice for stepping', () => {
+    const { layout, error } = layoutAt('T1');
+
+    expect(error).toBeNull();
+    expect(layout.nodes.map(n => n.id).sort()).toEqual(['n0', 'n1', 'n2']);
+    expect(layout.edges.map(e => [e.source.id, e.target.id])).toEqual([['n1', 'n2'], ['n0', 'n2']]);
+    expect(layout.projections).toEqual([{ sig: 'Time', atom: 'T1', atoms: ['T0', 'T1', 'T2'] }]);
+  });
+
+  it('slices selector results evaluated over the full instance', () => {
+    // Unsliced, this selector would also order n0 before n1 (at T0); at T1
+    // only the T1 tuples constrain the layout.
+    const { layout } = layoutAt('T1');
+    const pairs = layout.constraints
+      .filter((c): c is typeof c & { left: { id: string }; right: { id: string } } => 'left' in c && 'right' in c)
+      .map(c => [c.left.id, c.right.id]);
+    expect(pairs).toContainEqual(['n1', 'n2']);
+    expect(pairs).not.toContainEqual(['n0', 'n1']);
+  });
+
+  it('defaults to the first atom in step order', () => {
+    expect(layoutAt().layout.projections?.[0].atom).toBe('T0');
+  });
+
+  it('warns when the requested atom is missing', () => {
+    const { layout, warnings } = layoutAt('T9');
+    expect(layout.projections?.[0].atom).toBe('T0');
+    expect(warnings.map(w => w.code)).toContain('projection-atom-missing');
+  });
+});
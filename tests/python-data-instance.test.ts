@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PythonDataInstance,
+  createPythonDataInstance,
+  isPythonDataInstance,
+  type PythonValueGraph,
+} from '../src/data-instance/python/python-data-instance';
+import type { DataInstanceEvent } from '../src/data-instance/interfaces';
+
+// p = Point(1, 2.5)      # class Point(Shape)
+// [p, p, None, ('a', True), {'k': 'a', 3: None}, {1}]
+const GRAPH: PythonValueGraph = {
+  root: { ref: '1' },
+  objects: {
+    '1': {
+      type: 'list',
+      items: [{ ref: '2' }, { ref: '2' }, null, { ref: '3' }, { ref: '4' }, { ref: '5' }],
+    },
+    '2': { type: 'Point', mro: ['Point', 'Shape', 'object'], attrs: { x: 1, y: 2.5 } },
+    '3': { type: 'tuple', items: ['a', true] },
+    '4': { type: 'dict', entries: [['k', 'a'], [3, null]] },
+    '5': { type: 'set', items: [1] },
+  },
+};
+
+const tuples = (instance: PythonDataInstance, relation: string) =>
+  instance.getRelations().find(r => r.name === relation)?.tuples.map(t => t.atoms) ?? [];
+
+describe('PythonDataInstance — reading', () => {
+  const instance = new PythonDataInstance(GRAPH);
+
+  it('makes objects atoms under their own ids, sharing preserved', () => {
+    expect(tuples(instance, '0')).toContainEqual(['1', '2']);
+    expect(tuples(instance, '1')).toContainEqual(['1', '2']);
+    expect(instance.getAtoms().filter(a => a.type === 'Point')).toHaveLength(1);
+  });
+
+  it('uses the MRO as the type hierarchy', () => {
+    expect(instance.getAtomType('2').types).toEqual(['Point', 'Shape', 'object']);
+    expect(instance.getTypes().find(t => t.id === 'Shape')).toMatchObject({ atoms: [], isBuiltin: false });
+    const trueAtom = instance.getAtoms().find(a => a.label === 'True')!;
+    expect(instance.getAtomType(trueAtom.id)).toMatchObject({ types: ['bool', 'int', 'object'], isBuiltin: true });
+  });
+
+  it('indexes sequences, and keys dicts by string or by an items tuple', () => {
+    const label = (id: string) => instance.getAtoms().find(a => a.id === id)!.label;
+    expect(tuples(instance, '1').map(t => t.map(label))).toContainEqual(['tuple', 'True']);
+    expect(tuples(instance, 'k').map(t => t.map(label))).toEqual([['dict', 'a']]);
+    expect(tuples(instance, 'items').map(t => t.map(label))).toEqual([['dict', '3', 'None']]);
+    expect(tuples(instance, 'member').map(t => t.map(label))).toEqual([['set', '1']]);
+  });
+
+  it('shares equal primitives unless told not to', () => {
+    expect(instance.getAtoms().filter(a => a.type === 'str' && a.label === 'a')).toHaveLength(1);
+    const apart = new PythonDataInstance(GRAPH, { stringsIdempotent: false });
+    expect(apart.getAtoms().filter(a => a.type === 'str' && a.label === 'a')).toHaveLength(2);
+    expect(apart.getAtoms().filter(a => a.type === 'NoneType')).toHaveLength(1);
+  });
+
+  it('types a tagged float as a float, even with an integral value', () => {
+    const floats = createPythonDataInstance(JSON.stringify({
+      root: { ref: 'l' },
+      objects: { l: { type: 'list', items: [{ float: 2.0 }, 2, 2.5] } },
+    }));
+    expect(tuples(floats, '0').map(([, id]) => floats.getAtomType(id).id)).toEqual(['float']);
+    expect(tuples(floats, '1').map(([, id]) => floats.getAtomType(id).id)).toEqual(['int']);
+    expect(floats.reify()).toBe('[2.0, 2, 2.5]');
+  });
+
+  it('keeps every digit of a tagged int beyond 2^53', () => {
+    const big = createPythonDataInstance(JSON.stringify({
+      root: { ref: 'l' },
+      objects: { l: { type: 'list', items: [{ int: '9007199254740993' }, { int: '-0012' }, -12, 1e21] } },
+    }));
+    expect(tuples(big, '0').map(([, id]) => big.getAtomType(id).id)).toEqual(['int']);
+    expect(tuples(big, '1')).toEqual(tuples(big, '2'));
+    expect(big.reify()).toBe('[9007199254740993, -12, -12, 1000000000000000000000]');
+    expect(() => new PythonDataInstance({ root: { int: '1.5' }, objects: {} })).toThrow(/not a decimal integer: "1.5"/);
+  });
+
+  it('rejects a reference to a missing object', () => {
+    expect(() => new PythonDataInstance({ root: { ref: '9' }, objects: {} })).toThrow(/missing object "9"/);
+    expect(() => createPythonDataInstance('{')).toThrow(/Failed to parse Python value graph JSON/);
+  });
+});
+
+describe('PythonDataInstance — reify', () => {
+  it('prints the value as a Python expression', () => {
+    expect(new PythonDataInstance(GRAPH).reify()).toBe(
+      "[Point(x=1, y=2.5), Point(x=1, y=2.5), None, ('a', True), {'k': 'a', 3: None}, {1}]"
+    );
+  });
+
+  it('prints floats, singletons, empty sets and cycles as Python does', () => {
+    const instance = createPythonDataInstance(JSON.stringify({
+      root: { ref: 'l' },
+      objects: {
+        l: { type: 'list', items: [{ ref: 't' }, { ref: 's' }, { float: 'inf' }, { ref: 'l' }, "it's"] },
+        t: { type: 'tuple', items: [{ ref: 'f' }] },
+        f: { type: 'frozenset', items: [] },
+        s: { type: 'set' },
+      },
+    }));
+    expect(instance.reify()).toBe(`[(frozenset(),), set(), float('inf'), ..., "it's"]`);
+    expect(instance.reify('t')).toBe('(frozenset(),)');
+  });
+});
+
+describe('PythonDataInstance — editing', () => {
+  it('adds and removes atoms and tuples, emitting events', () => {
+    const instance = new PythonDataInstance(GRAPH);
+    expect(isPythonDataInstance(instance)).toBe(true);
+    const events: DataInstanceEvent[] = [];
+    for (const type of ['atomAdded', 'atomRemoved', 'relationTupleAdded', 'relationTupleRemoved'] as const) {
+      instance.addEventListener(type, e => events.push(e));
+    }
+
+    instance.addAtom({ id: 'z', type: 'float', label: '3' });
+    instance.addRelationTuple('z', { atoms: ['2', 'z'], types: [] });
+    instance.removeRelationTuple('5', { atoms: ['1', '5'], types: [] });
+    instance.removeAtom('5');
+    instance.removeAtom('4');
+
+    expect(instance.reify()).toBe("[Point(x=1, y=2.5, z=3.0), Point(x=1, y=2.5, z=3.0), None, ('a', True)]");
+    expect(events.map(e => e.type)).toEqual([
+      'atomAdded', 'relationTupleAdded', 'relationTupleRemoved', 'atomRemoved', 'atomRemoved',
+    ]);
+  });
+
+  it('rejects edits to atoms or tuples that do not exist', () => {
+    const instance = new PythonDataInstance(GRAPH);
+    expect(() => instance.addAtom({ id: '2', type: 'Point', label: 'Point' })).toThrow(/already exists/);
+    expect(() => instance.addRelationTuple('x', { atoms: ['2', 'nope'], types: [] })).toThrow(/'nope' does not exist/);
+    expect(() => instance.removeRelationTuple('x', { atoms: ['2', '1'], types: [] })).toThrow(/has no tuple/);
+    expect(() => instance.removeAtom('nope')).toThrow(/does not exist/);
+  });
+
+  it('merges another instance, unifying primitives', () => {
+    const instance = new PythonDataInstance(GRAPH);
+    const other = new PythonDataInstance({ root: { ref: '2' }, objects: { '2': { type: 'Circle', attrs: { r: 1 } } } });
+    expect(instance.addFromDataInstance(other, true)).toBe(false);
+    const one = instance.getAtoms().find(a => a.type === 'int' && a.label === '1')!;
+    expect(tuples(instance, 'r')).toEqual([['2_1', one.id]]);
+  });
+});
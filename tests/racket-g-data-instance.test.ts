@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import {
+    RacketGDataInstance,
+    createRacketGDataInstance,
+    isRacketGDataInstance,
+    type RacketGDatum,
+} from '../src/data-instance/racket/racket-g-data-instance';
+import type { DataInstanceEvent } from '../src/data-instance/interfaces';
+
+// (struct shape (name))
+// (struct circle shape (r))
+// (define c (circle "sun" 3))
+// (list c c 'x)
+const DATUM: RacketGDatum = {
+    structs: [
+        { name: 'shape', fields: ['name'] },
+        { name: 'circle', super: 'shape', fields: ['r'] },
+    ],
+    atoms: [
+        { id: 0, label: 'list', type: 'List' },
+        { id: 1, label: 'circle', type: 'circle' },
+        { id: 2, label: 'sun', type: 'String' },
+        { id: 3, label: '3', type: 'Number' },
+        { id: 4, label: 'x', type: 'Symbol' },
+    ],
+    relations: [
+        { src: 0, dst: 1, label: 'elem' },
+        { src: 0, dst: 1, label: 'elem' },
+        { src: 0, dst: 4, label: 'elem' },
+        { src: 1, dst: 3, label: 'r' },
+        { src: 1, dst: 2, label: 'name' },
+    ],
+};
+
+describe('RacketGDataInstance — reading', () => {
+    const instance = new RacketGDataInstance(DATUM);
+
+    it('keeps ids and labels apart', () => {
+        expect(instance.getAtoms().map(a => a.id)).toEqual(['0', '1', '2', '3', '4']);
+        expect(instance.getAtoms().find(a => a.id === '2')!.label).toBe('sun');
+    });
+
+    it('builds struct hierarchies from super chains', () => {
+        expect(instance.getAtomType('1').types).toEqual(['circle', 'shape', 'Any']);
+        expect(instance.getAtomType('3')).toMatchObject({ types: ['Number', 'Any'], isBuiltin: true });
+        const shape = instance.getTypes().find(t => t.id === 'shape')!;
+        expect(shape).toMatchObject({ types: ['shape', 'Any'], atoms: [], isBuiltin: false });
+    });
+
+    it('indexes list elements by position, without collapsing repeats', () => {
+        const names = instance.getRelations().map(r => r.name);
+        expect(names).toEqual(expect.arrayContaining(['0', '1', '2', 'r', 'name']));
+        expect(names).not.toContain('elem');
+        expect(instance.getRelations().find(r => r.name === '1')!.tuples[0].atoms).toEqual(['0', '1']);
+    });
+
+    it('rejects dangling edges and duplicate ids', () => {
+        expect(() => new RacketGDataInstance({ atoms: [], relations: [{ src: 0, dst: 1, label: 'f' }] }))
+            .toThrow(/non-existent atoms/);
+        expect(() => new RacketGDataInstance({
+            atoms: [{ id: 0, label: 'a', type: 'T' }, { id: '0', label: 'b', type: 'T' }],
+            relations: [],
+        })).toThrow(/Duplicate atom id/);
+    });
+});
+
+describe('RacketGDataInstance — reify', () => {
+    it('prints the value as a Racket expression', () => {
+        expect(new RacketGDataInstance(DATUM).reify()).toBe(`(list (circle "sun" 3) (circle "sun" 3) 'x)`);
+    });
+
+    it('prints primitives, pairs and vectors', () => {
+        const instance = new RacketGDataInstance({
+            atoms: [
+                { id: 'p', label: 'cons', type: 'Pair' },
+                { id: 'v', label: 'vector', type: 'Vector' },
+                { id: 'n', label: '()', type: 'Null' },
+                { id: 'c', label: ' ', type: 'Char' },
+                { id: 'b', label: '#f', type: 'Boolean' },
+                { id: 's', label: 'say "hi"', type: 'String' },
+            ],
+            relations: [
+                { src: 'p', dst: 'v', label: 'car' },
+                { src: 'p', dst: 'n', label: 'cdr' },
+                { src: 'v', dst: 'c', label: '' },
+                { src: 'v', dst: 'b', label: '' },
+                { src: 'v', dst: 's', label: '' },
+            ],
+        });
+        expect(instance.reify()).toBe(`(cons (vector #\\space #f "say \\"hi\\"") '())`);
+        expect(instance.reify('v')).toBe(`(vector #\\space #f "say \\"hi\\"")`);
+    });
+
+    it('marks a cycle where it closes', () => {
+        const instance = new RacketGDataInstance({
+            structs: [{ name: 'node', fields: ['next'] }],
+            atoms: [{ id: 'a', label: 'a', type: 'node' }],
+            relations: [{ src: 'a', dst: 'a', label: 'next' }],
+        });
+        expect(instance.reify()).toBe('(node <cyclic>)');
+    });
+
+    it('holds the place of a declared field without a value', () => {
+        const instance = new RacketGDataInstance({
+            structs: [{ name: 'posn', fields: ['x', 'y'] }],
+            atoms: [{ id: 'p', label: 'posn', type: 'posn' }, { id: 'n', label: '3', type: 'Number' }],
+            relations: [{ src: 'p', dst: 'n', label: 'y' }],
+        });
+        expect(instance.reify()).toBe('(posn <missing x> 3)');
+    });
+});
+
+describe('RacketGDataInstance — editing', () => {
+    it('adds and removes atoms and tuples, emitting events', () => {
+        const instance = createRacketGDataInstance(DATUM);
+        expect(isRacketGDataInstance(instance)).toBe(true);
+        const events: DataInstanceEvent[] = [];
+        for (const type of ['atomAdded', 'atomRemoved', 'relationTupleAdded', 'relationTupleRemoved'] as const) {
+            instance.addEventListener(type, e => events.push(e));
+        }
+
+        instance.addAtom({ id: '5', label: 'moon', type: 'String' });
+        instance.removeRelationTuple('name', { atoms: ['1', '2'], types: [] });
+        instance.addRelationTuple('name', { atoms: ['1', '5'], types: [] });
+        // Unreferenced now, "sun" would print as a second root.
+        instance.removeAtom('2');
+
+        expect(instance.reify()).toBe(`(list (circle "moon" 3) (circle "moon" 3) 'x)`);
+        expect(instance.getRelations().find(r => r.name === 'name')!.types).toEqual(['circle', 'String']);
+        expect(events.map(e => e.type)).toEqual(['atomAdded', 'relationTupleRemoved', 'relationTupleAdded', 'atomRemoved']);
+    });
+
+    it('rejects edits to atoms or tuples that do not exist', () => {
+        const instance = new RacketGDataInstance(DATUM);
+        expect(() => instance.addAtom({ id: '1', label: 'again', type: 'circle' })).toThrow(/already exists/);
+        expect(() => instance.addRelationTuple('r', { atoms: ['1', '9'], types: [] })).toThrow(/"9" does not exist/);
+        expect(() => instance.removeRelationTuple('r', { atoms: ['1', '2'], types: [] })).toThrow(/has no tuple/);
+        expect(() => instance.removeAtom('9')).toThrow(/does not exist/);
+    });
+
+    it('builds a value from scratch', () => {
+        const instance = new RacketGDataInstance();
+        instance.addAtom({ id: 'l', label: 'list', type: 'List' });
+        instance.addAtom({ id: 'one', label: '1', type: 'Number' });
+        instance.addRelationTuple('0', { atoms: ['l', 'one'], types: [] });
+        expect(instance.reify()).toBe('(list 1)');
+    });
+
+    it('keeps an edited list flat, renumbering its elements', () => {
+        const instance = new RacketGDataInstance(DATUM);
+        const events: DataInstanceEvent[] = [];
+        instance.addEventListener('relationTupleAdded', e => events.push(e));
+        instance.addAtom({ id: '5', label: 'y', type: 'Symbol' });
+        instance.addRelationTuple('elem', { atoms: ['0', '5'], types: [] });
+        expect(instance.reify()).toBe(`(list (circle "sun" 3) (circle "sun" 3) 'x 'y)`);
+        expect(events.map(e => (e.data as { relationId: string }).relationId)).toEqual(['3']);
+
+        instance.addAtom({ id: '6', label: 'w', type: 'Symbol' });
+        instance.addRelationTuple('0', { atoms: ['0', '6'], types: [] });
+        instance.removeRelationTuple('3', { atoms: ['0', '4'], types: [] });
+        // 'x is left unreferenced, so print the list itself.
+        expect(instance.reify('0')).toBe(`(list 'w (circle "sun" 3) (circle "sun" 3) 'y)`);
+
+        instance.removeAtom('1');
+        expect(instance.reify('0')).toBe(`(list 'w 'y)`);
+        expect(instance.getRelations().map(r => r.name)).not.toContain('elem');
+        expect(instance.getRelations().find(r => r.name === '1')!.tuples.map(t => t.atoms)).toEqual([['0', '5']]);
+    });
+
+    it('merges another instance, renaming clashing ids and unifying built-ins', () => {
+        const instance = new RacketGDataInstance(DATUM);
+        const other = new RacketGDataInstance({
+            structs: [{ name: 'square', super: 'shape', fields: ['side'] }],
+            atoms: [{ id: 1, label: 'square', type: 'square' }, { id: 9, label: '3', type: 'Number' }],
+            relations: [{ src: 1, dst: 9, label: 'side' }],
+        });
+        expect(instance.addFromDataInstance(other, true)).toBe(false);
+        expect(instance.getAtomType('1_1').types).toEqual(['square', 'shape', 'Any']);
+        expect(instance.getRelations().find(r => r.name === 'side')!.tuples[0].atoms).toEqual(['1_1', '3']);
+    });
+});
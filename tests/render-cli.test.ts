@@ -0,0 +1,209 @@
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { main } from '../src/cli/spytial-render';
+import { LayoutInstance } from '../src/layout/layoutinstance';
+import { WebColaTranslator } from '../src/translators/webcola/webcolatranslator';
+
+// spytial-render's contract is spytial-check's: stdout is only the output,
+// stderr is everything else, and the exit code says what happened — with a
+// constraint conflict kept distinct from input that could not be read.
+
+let stdout: string[];
+let stderr: string[];
+
+beforeEach(() => {
+    stdout = [];
+    stderr = [];
+    vi.spyOn(process.stdout, 'write').mockImplementation((chunk: unknown) => {
+        stdout.push(String(chunk));
+        return true;
+    });
+    vi.spyOn(process.stderr, 'write').mockImplementation((chunk: unknown) => {
+        stderr.push(String(chunk));
+        return true;
+    });
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+const out = () => stdout.join('');
+const err = () => stderr.join('');
+
+function write(name: string, contents: unknown): string {
+    const dir = mkdtempSync(join(tmpdir(), 'spytial-render-'));
+    const file = join(dir, name);
+    writeFileSync(file, typeof contents === 'string' ? contents : JSON.stringify(contents));
+    return file;
+}
+
+const datum = {
+    atoms: [
+        { id: 'a', type: 'Node', label: 'a' },
+        { id: 'b', type: 'Node', label: 'b' },
+    ],
+    relations: [{
+        id: 'next', name: 'next', types: ['Node', 'Node'],
+        tuples: [{ atoms: ['a', 'b'], types: ['Node', 'Node'] }],
+    }],
+};
+
+const rightSpec = 'constraints:\n  - orientation:\n      selector: "{x, y : Node | y in x.next}"\n      directions: [right]\n';
+const conflictingSpec = rightSpec
+    + '  - orientation:\n      selector: "{x, y : Node | y in x.next}"\n      directions: [left]\n';
+
+describe('spytial-render', () => {
+    it('writes the InstanceLayout as JSON by default', async () => {
+        const code = await main([write('datum.json', datum), write('spec.yaml', rightSpec)]);
+
+        expect(code).toBe(0);
+        const layout = JSON.parse(out());
+        expect(layout.nodes.map((n: { id: string }) => n.id).sort()).toEqual(['a', 'b']);
+        expect(layout.constraints.length).toBeGreaterThan(0);
+    });
+
+    it('draws the default layout when no spec is given', async () => {
+        expect(await main([write('datum.json', datum)])).toBe(0);
+        expect(JSON.parse(out()).constraints).toEqual([]);
+    });
+
+    it('writes solved positions with --format positions', async () => {
+        const code = await main(['--format', 'positions', write('datum.json', datum), write('spec.yaml', rightSpec)]);
+
+        expect(code).toBe(0);
+        const { positions } = JSON.parse(out());
+        const x = (id: string) => positions.find((p: { id: string }) => p.id === id).x;
+        expect(x('a')).toBeLessThan(x('b'));
+    });
+
+    it('writes a standalone SVG with --format svg', async () => {
+        const code = await main(['--format', 'svg', write('datum.json', datum), write('spec.yaml', rightSpec)]);
+
+        expect(code).toBe(0);
+        expect(out()).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg"/);
+        expect(out()).toContain('data-id="a"');
+    });
+
+    it('writes several formats as one JSON object, laid out and solved once', async () => {
+        const generate = vi.spyOn(LayoutInstance.prototype, 'generateLayout');
+        const translate = vi.spyOn(WebColaTranslator.prototype, 'translate');
+
+        const code = await main([
+            '--format', 'svg,positions', write('datum.json', datum), write('spec.yaml', rightSpec),
+        ]);
+
+        expect(code).toBe(0);
+        const { svg, positions } = JSON.parse(out());
+        expect(svg).toMatch(/^<svg xmlns=/);
+        expect(positions.positions.map((p: { id: string }) => p.id).sort()).toEqual(['a', 'b']);
+        expect(generate).toHaveBeenCalledTimes(1);
+        expect(translate).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps engine chatter off stdout', async () => {
+        await main([write('datum.json', datum), write('spec.yaml', rightSpec)]);
+
+        expect(() => JSON.parse(out())).not.toThrow();
+        expect(out()).not.toContain('Generated');
+    });
+
+    it('reads a DOT datum, by extension', async () => {
+        const code = await main([write('graph.dot', 'digraph { a -> b; }')]);
+
+        expect(code).toBe(0);
+        expect(JSON.parse(out()).nodes.map((n: { id: string }) => n.id).sort()).toEqual(['a', 'b']);
+    });
+
+    it('reads a TLA+ trace, by shape', async () => {
+        const trace = { states: [{ name: 'Init', variables: { x: 0 } }, { name: 'Step', variables: { x: 1 } }] };
+        expect(await main([write('trace.json', trace)])).toBe(0);
+        expect(JSON.parse(out()).nodes.length).toBeGreaterThan(0);
+    });
+
+    it('reads Alloy XML', async () => {
+        const xml = [
+            '<alloy builddate="2021-11-03T15:25:43.736Z">',
+            '<instance bitwidth="4" maxseq="4" command="run {}" filename="" version="6.1.0">',
+            '<sig label="seq/Int" ID="0" parentID="1" builtin="yes"></sig>',
+            '<sig label="Int" ID="1" parentID="2" builtin="yes"></sig>',
+            '<sig label="this/Node" ID="3" parentID="2"><atom label="Node$0"/><atom label="Node$1"/></sig>',
+            '<field label="next" ID="4" parentID="3">',
+            '<tuple><atom label="Node$0"/><atom label="Node$1"/></tuple>',
+            '<types><type ID="3"/><type ID="3"/></types>',
+            '</field>',
+            '<sig label="univ" ID="2" builtin="yes"></sig>',
+            '</instance>',
+            '</alloy>',
+        ].join('\n');
+
+        expect(await main([write('instance.xml', xml)])).toBe(0);
+        expect(JSON.parse(out()).nodes.map((n: { id: string }) => n.id)).toEqual(
+            expect.arrayContaining(['Node$0', 'Node$1']),
+        );
+    });
+
+    it('exits 1 on conflicting constraints, still writing the layout', async () => {
+        const code = await main([write('datum.json', datum), write('spec.yaml', conflictingSpec)]);
+
+        expect(code).toBe(1);
+        expect(JSON.parse(out()).conflictingConstraints?.length ?? 0).toBeGreaterThan(0);
+        expect(err()).toContain('unsatisfiable');
+    });
+
+    it('exits 4 when the layout fails, keeping it apart from bad input', async () => {
+        vi.spyOn(LayoutInstance.prototype, 'generateLayout').mockImplementation(() => {
+            throw new Error('solver gave up');
+        });
+
+        const code = await main([write('datum.json', datum), write('spec.yaml', rightSpec)]);
+
+        expect(code).toBe(4);
+        expect(out()).toBe('');
+        expect(err()).toContain('layout failed: solver gave up');
+    });
+
+    it('documents every exit code in --help', async () => {
+        await main(['--help']);
+        expect(out()).toMatch(/Exit codes: 0 rendered, 1 [^]*2 bad usage[^]*3 timed out, 4 the\s+layout or solver failed/);
+    });
+
+    it('exits 2 on a datum that does not parse, without the usage text', async () => {
+        expect(await main([write('datum.json', '{ not json')])).toBe(2);
+        expect(out()).toBe('');
+        expect(err()).toContain('not valid JSON');
+        expect(err()).not.toContain('Usage:');
+    });
+
+    it('exits 2 on a spec that does not parse', async () => {
+        expect(await main([write('datum.json', datum), write('spec.yaml', 'constraints:\n  - orientation: {}\n')])).toBe(2);
+        expect(err()).toContain('Spec could not be parsed');
+    });
+
+    it('exits 2 on an unreadable path, with the usage text', async () => {
+        expect(await main(['/definitely/not/here.json'])).toBe(2);
+        expect(err()).toContain('Cannot read datum');
+        expect(err()).toContain('Usage:');
+    });
+
+    it('exits 2 on bad options', async () => {
+        expect(await main([])).toBe(2);
+        expect(await main(['--format', 'png', 'x.json'])).toBe(2);
+        expect(await main(['--format', 'svg,png', 'x.json'])).toBe(2);
+        expect(await main(['--input', 'csv', 'x.json'])).toBe(2);
+        expect(await main(['--nope', 'x.json'])).toBe(2);
+        expect(await main(['a.json', 'b.yaml', 'c.yaml'])).toBe(2);
+    });
+
+    it('answers --help and --version without running anything', async () => {
+        expect(await main(['--help'])).toBe(0);
+        expect(out()).toContain('Usage:');
+
+        stdout = [];
+        expect(await main(['--version'])).toBe(0);
+        expect(out().trim()).toMatch(/^\d+\.\d+\.\d+/);
+    });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  RustDataInstance,
+  createRustDataInstance,
+  isRustDataInstance,
+  type RustValue,
+} from '../src/data-instance/rust/rust-data-instance';
+import type { DataInstanceEvent } from '../src/data-instance/interfaces';
+
+// enum Tree { Leaf, Node { left: Box<Tree>, value: u8, right: Option<Rc<Tree>> } }
+// let shared = Rc::new(Tree::Leaf);
+// (Tree::Node { left: Box::new(Tree::Leaf), value: 5, right: Some(shared.clone()) }, shared, None::<u8>, vec![1, 2])
+const VALUE: RustValue = {
+  type: 'Tuple',
+  items: [
+    {
+      type: 'Tree', variant: 'Node', fields: {
+        left: { type: 'Box', value: { type: 'Tree', variant: 'Leaf' } },
+        value: { type: 'u8', value: 5 },
+        right: { type: 'Option', value: { type: 'Rc', id: '0x1', value: { type: 'Tree', variant: 'Leaf' } } },
+      },
+    },
+    { type: 'Rc', id: '0x1' },
+    null,
+    [1, 2],
+  ],
+};
+
+const tuples = (instance: RustDataInstance, relation: string) =>
+  instance.getRelations().find(r => r.name === relation)?.tuples.map(t => t.atoms) ?? [];
+
+describe('RustDataInstance — reading', () => {
+  const instance = new RustDataInstance(VALUE);
+
+  it('makes enum variants subtypes of their enum', () => {
+    expect(instance.getAtomType('$.0').types).toEqual(['Tree::Node', 'Tree']);
+    expect(instance.getTypes().find(t => t.id === 'Tree')).toMatchObject({ atoms: [], isBuiltin: false });
+    expect(instance.getAtoms().find(a => a.id === '$.0')!.label).toBe('Node');
+  });
+
+  it('collapses Box, Some and Rc, keeping an Rc as one shared atom', () => {
+    expect(tuples(instance, 'left')).toEqual([['$.0', '$.0.left']]);
+    expect(tuples(instance, 'right')).toEqual([['$.0', 'rc:0x1']]);
+    expect(tuples(instance, '1')).toContainEqual(['$', 'rc:0x1']);
+    expect(instance.getAtoms().filter(a => a.type === 'Tree::Leaf')).toHaveLength(2);
+  });
+
+  it('draws None as no tuple, and primitives as shared built-ins', () => {
+    expect(tuples(instance, '2')).toEqual([]);
+    expect(tuples(instance, 'value')).toEqual([['$.0', 'u8:5']]);
+    expect(instance.getAtomType('i64:1')).toMatchObject({ types: ['i64'], isBuiltin: true });
+  });
+
+  it('rejects an Rc that is never given a value', () => {
+    expect(() => new RustDataInstance([{ type: 'Rc', id: '7' }])).toThrow(/No value given for rc:7/);
+    expect(() => createRustDataInstance('{')).toThrow(/Failed to parse Rust value JSON/);
+  });
+});
+
+describe('RustDataInstance — reify', () => {
+  it('prints the value as Rust, binding a shared Rc once', () => {
+    expect(new RustDataInstance(VALUE).reify()).toBe(
+      '{ let rc0 = Rc::new(Tree::Leaf); ' +
+      '(Tree::Node { left: Box::new(Tree::Leaf), value: 5, right: Some(Rc::clone(&rc0)) }, Rc::clone(&rc0), None, vec![1, 2]) }'
+    );
+    expect(new RustDataInstance(VALUE).reify('$.0.left')).toBe('Tree::Leaf');
+  });
+
+  it('prints structs, tuple structs, maps and primitives', () => {
+    const instance = new RustDataInstance({
+      type: 'Config', fields: {
+        name: 'a "b"',
+        ratio: 2,
+        unit: { type: 'Meters', items: [{ type: 'f32', value: 1 }] },
+        tags: { type: 'BTreeMap', entries: [['k', { type: 'char', value: 'x' }], [3, true]] },
+        path: { type: '&str', value: 'p' },
+        cell: { type: 'Rc', id: 'c', value: { type: 'RefCell', value: [] } },
+      },
+    });
+    expect(instance.reify()).toBe(
+      'Config { name: String::from("a \\"b\\""), ratio: 2, unit: Meters(1.0), ' +
+      `tags: BTreeMap::from([(String::from("k"), 'x'), (3, true)]), path: "p", cell: Rc::new(RefCell::new(vec![])) }`
+    );
+  });
+
+  it('keeps wrappers and None under non-string keys', () => {
+    const instance = new RustDataInstance({
+      type: 'HashMap', entries: [
+        [1, { type: 'Option', value: { type: 'Box', value: { type: 'u8', value: 7 } } }],
+        [2, null],
+        [3, { type: 'Option' }],
+      ],
+    });
+    expect(instance.getRelations().find(r => r.id === '[entries]')!.tuples.map(t => t.atoms))
+      .toEqual([['$', 'i64:1', 'u8:7'], ['$', 'i64:2', 'Option::None'], ['$', 'i64:3', 'Option::None']]);
+    expect(instance.reify()).toBe('HashMap::from([(1, Some(Box::new(7))), (2, None), (3, None)])');
+  });
+
+  it('keeps a string key named like the entries relation apart from it', () => {
+    const instance = new RustDataInstance({ type: 'BTreeMap', entries: [['entries', 1], ['[entries]', 2], [3, 4]] });
+    expect(instance.getRelations().map(r => r.id).sort()).toEqual(['[entries]', 'entries']);
+    expect(instance.reify()).toBe(
+      'BTreeMap::from([(String::from("entries"), 1), (String::from("[entries]"), 2), (3, 4)])'
+    );
+  });
+
+  it('marks a cycle where it closes', () => {
+    const instance = new RustDataInstance({
+      type: 'Rc', id: 'a', value: { type: 'Node', fields: { next: { type: 'Rc', id: 'a' } } },
+    });
+    expect(instance.reify()).toBe('Rc::new(Node { next: Rc::new(<cyclic>) })');
+  });
+});
+
+describe('RustDataInstance — editing', () => {
+  it('adds and removes atoms and tuples, emitting events', () => {
+    const instance = new RustDataInstance(VALUE);
+    expect(isRustDataInstance(instance)).toBe(true);
+    const events: DataInstanceEvent[] = [];
+    for (const type of ['atomAdded', 'atomRemoved', 'relationTupleAdded', 'relationTupleRemoved'] as const) {
+      instance.addEventListener(type, e => events.push(e));
+    }
+
+    instance.removeRelationTuple('right', { atoms: ['$.0', 'rc:0x1'], types: [] });
+    instance.addAtom({ id: 'u8:9', type: 'u8', label: '9' });
+    instance.removeRelationTuple('value', { atoms: ['$.0', 'u8:5'], types: [] });
+    instance.addRelationTuple('value', { atoms: ['$.0', 'u8:9'], types: [] });
+    instance.removeAtom('$.3');
+
+    // The optional field reads back as None; the Rc is no longer shared.
+    expect(instance.reify()).toBe(
+      '(Tree::Node { left: Box::new(Tree::Leaf), value: 9, right: None }, Rc::new(Tree::Leaf), None)'
+    );
+    expect(events.map(e => e.type)).toEqual([
+      'relationTupleRemoved', 'atomAdded', 'relationTupleRemoved', 'relationTupleAdded', 'atomRemoved',
+    ]);
+  });
+
+  it('rejects edits to atoms or tuples that do not exist', () => {
+    const instance = new RustDataInstance(VALUE);
+    expect(() => instance.addAtom({ id: '$', type: 'Tuple', label: 'Tuple' })).toThrow(/already exists/);
+    expect(() => instance.addRelationTuple('x', { atoms: ['$', 'nope'], types: [] })).toThrow(/'nope' does not exist/);
+    expect(() => instance.removeRelationTuple('x', { atoms: ['$', '$.0'], types: [] })).toThrow(/has no tuple/);
+    expect(() => instance.removeAtom('nope')).toThrow(/does not exist/);
+  });
+
+  it('merges another instance, renaming clashing ids and keeping wrappers', () => {
+    const instance = new RustDataInstance(VALUE);
+    const other = new RustDataInstance({ type: 'Wrapper', items: [{ type: 'Box', value: { type: 'u8', value: 5 } }] });
+    expect(instance.addFromDataInstance(other, true)).toBe(false);
+    expect(tuples(instance, '0')).toContainEqual(['$_1', 'u8:5']);
+    expect(instance.reify('$_1')).toBe('Wrapper(Box::new(5))');
+  });
+});
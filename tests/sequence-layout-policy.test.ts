@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import {
+  foresighted,
+  buildSuperGraph,
+  getSequenceLayoutPolicy,
+  registerSequenceLayoutPolicy,
+  UnsatisfiableLayoutError,
+} from '../src/translators/webcola/sequence-layout-policy';
+import type { SequenceLayoutPolicy } from '../src/translators/webcola/sequence-layout-policy';
+import type { LayoutState } from '../src/translators/webcola/webcolatranslator';
+import type { IDataInstance } from '../src/data-instance/interfaces';
+import { JSONDataInstance } from '../src/data-instance/json-data-instance';
+import { parseLayoutSpec } from '../src/layout/layoutspec';
+import type { ConstraintError } from '../src/layout/constraint-types';
+
+function instance(atoms: Array<[string, string]>, next: string[][]): JSONDataInstance {
+  return new JSONDataInstance({
+    atoms: atoms.map(([id, type]) => ({ id, type, label: id })),
+    relations: [{ id: 'next', name: 'next', types: [], tuples: next.map(atoms => ({ atoms, types: [] })) }],
+  });
+}
+
+const spec = parseLayoutSpec('');
+
+// A list that grows by one node and then loses its head.
+const frames = [
+  instance([['A', 'Node'], ['B', 'Node']], [['A', 'B']]),
+  instance([['A', 'Node'], ['B', 'Node'], ['C', 'Node']], [['A', 'B'], ['B', 'C']]),
+  instance([['B', 'Node'], ['C', 'Tail']], [['B', 'C']]),
+];
+
+/** Lays an instance out on a line in atom order, recording what it was asked to solve. */
+function lineSolver() {
+  const solved: IDataInstance[] = [];
+  const solve = async (inst: IDataInstance): Promise<LayoutState> => {
+    solved.push(inst);
+    return {
+      positions: inst.getAtoms().map((atom, i) => ({ id: atom.id, x: 100 * i, y: 0 })),
+      transform: { k: 2, x: 5, y: 5 },
+    };
+  };
+  return { solved, solve };
+}
+
+describe('buildSuperGraph', () => {
+  const union = buildSuperGraph(frames);
+
+  it('holds every atom once, typed as where it first appeared', () => {
+    expect(union.getAtoms().map(a => [a.id, a.type])).toEqual([['A', 'Node'], ['B', 'Node'], ['C', 'Node']]);
+  });
+
+  it('holds every tuple once', () => {
+    expect(union.getRelations().map(r => [r.name, r.tuples.map(t => t.atoms)])).toEqual([
+      ['next', [['A', 'B'], ['B', 'C']]],
+    ]);
+  });
+});
+
+describe('foresighted', () => {
+  it('solves the super-graph once and seeds each frame with its own atoms', async () => {
+    const { solved, solve } = lineSolver();
+    const plan = await foresighted.plan({ instances: frames, spec, solve });
+
+    expect(solved).toHaveLength(1);
+    expect(solved[0].getAtoms().map(a => a.id)).toEqual(['A', 'B', 'C']);
+    expect(plan.superGraph!.positions).toHaveLength(3);
+    expect(plan.frames.map(f => f.effectivePriorState!.positions)).toEqual([
+      [{ id: 'A', x: 0, y: 0 }, { id: 'B', x: 100, y: 0 }],
+      [{ id: 'A', x: 0, y: 0 }, { id: 'B', x: 100, y: 0 }, { id: 'C', x: 200, y: 0 }],
+      [{ id: 'B', x: 100, y: 0 }, { id: 'C', x: 200, y: 0 }],
+    ]);
+    expect(plan.frames.every(f => f.useReducedIterations)).toBe(true);
+    expect(plan.frames[2].effectivePriorState!.transform).toEqual({ k: 2, x: 5, y: 5 });
+  });
+
+  it('gives each frame its own copy of the positions', async () => {
+    const plan = await foresighted.plan({ instances: frames, spec, solve: lineSolver().solve });
+    plan.frames[0].effectivePriorState!.positions[0].x = 999;
+    expect(plan.frames[1].effectivePriorState!.positions[0].x).toBe(0);
+    expect(plan.superGraph!.positions[0].x).toBe(0);
+  });
+
+  it('falls back to frame by frame when the frames contradict each other', async () => {
+    const { solved, solve } = lineSolver();
+    const conflict = { name: 'ConstraintError', type: 'positional-conflict', message: 'A before B, and B before A' };
+    const rejectUnion = async (inst: IDataInstance, prior?: LayoutState) => {
+      if (inst.getAtoms().length === 3 && solved.length === 0) {
+        solved.push(inst);
+        throw new UnsatisfiableLayoutError(conflict as ConstraintError);
+      }
+      return solve(inst, prior);
+    };
+    const plan = await foresighted.plan({ instances: frames, spec, solve: rejectUnion });
+
+    expect(plan.superGraph).toBeUndefined();
+    expect(plan.superGraphError!.constraintError).toBe(conflict);
+    // The union, then every frame but the last, each seeding the next.
+    expect(solved.map(inst => inst.getAtoms().length)).toEqual([3, 2, 3]);
+    expect(plan.frames.map(f => f.effectivePriorState?.positions.map(p => p.id))).toEqual([
+      undefined, ['A', 'B'], ['A', 'B', 'C'],
+    ]);
+    expect(plan.frames.map(f => f.useReducedIterations)).toEqual([false, true, true]);
+  });
+
+  it('passes on a solve that fails for another reason', async () => {
+    const broken = async (): Promise<LayoutState> => { throw new Error('solver crashed'); };
+    await expect(foresighted.plan({ instances: frames, spec, solve: broken })).rejects.toThrow('solver crashed');
+  });
+
+  it('plans nothing for an empty sequence', async () => {
+    const { solved, solve } = lineSolver();
+    expect(await foresighted.plan({ instances: [], spec, solve })).toEqual({ superGraph: undefined, frames: [] });
+    expect(solved).toHaveLength(0);
+  });
+});
+
+describe('sequence layout policy registry', () => {
+  it('looks up built-ins and registered policies, and nothing else', () => {
+    expect(getSequenceLayoutPolicy('foresighted')).toBe(foresighted);
+    expect(getSequenceLayoutPolicy('stability')).toBeUndefined();
+
+    const fresh: SequenceLayoutPolicy = {
+      name: 'test_fresh_frames',
+      plan: async ({ instances }) => ({
+        superGraph: undefined,
+        frames: instances.map(() => ({ effectivePriorState: undefined, useReducedIterations: false })),
+      }),
+    };
+    registerSequenceLayoutPolicy(fresh);
+    expect(getSequenceLayoutPolicy('test_fresh_frames')).toBe(fresh);
+  });
+});
@@ -7,8 +7,10 @@ import {
   changeEmphasis,
   randomPositioning,
 } from '../src/translators/webcola/sequence-policy';
+import { foresighted } from '../src/translators/webcola/sequence-layout-policy';
 import {
   runHeadlessLayout,
+  runHeadlessSequence,
   positionalConsistency,
   relativeConsistency,
   classifyChangeEmphasisStableSet,
@@ -466,5 +468,76 @@ describe('cross-policy ordering on a changing scenario', () => {
   });
 });
 
+// ──────────────────────────────────────────────────────────────────
+// foresighted — claim: "an atom starts from the same place in every
+// frame it appears in"
+//
+// Whole-sequence, not pairwise: every frame is seeded from one layout
+// of the super-graph, so frames far apart agree as closely as adjacent
+// ones do.
+// ──────────────────────────────────────────────────────────────────
+
+describe('foresighted — claims every frame is seeded from one super-graph layout', () => {
+  it('seeds each frame with the super-graph positions of its own atoms', async () => {
+    const instances = [dataAddAtomBefore, dataABBC, dataAddAtomBefore].map(d => new JSONDataInstance(d));
+    const { plan, frames } = await runHeadlessSequence(layoutSpec, instances, foresighted);
+
+    expect(plan.superGraph!.positions.map(p => p.id).sort()).toEqual(['A', 'B', 'C']);
+    expect(frames.map(f => f.seed!.positions.map(p => p.id).sort())).toEqual([
+      ['A', 'B'], ['A', 'B', 'C'], ['A', 'B'],
+    ]);
+    const superA = plan.superGraph!.positions.find(p => p.id === 'A');
+    for (const frame of frames) {
+      expect(frame.seed!.positions.find(p => p.id === 'A')).toEqual(superA);
+    }
+  });
+
+  it('returns to the same layout when the sequence returns to the same instance', async () => {
+    const instances = [dataAB, dataTree, dataChain, dataAB].map(d => new JSONDataInstance(d));
+    const { frames } = await runHeadlessSequence(layoutSpec, instances, foresighted);
+
+    const drift = positionalConsistency(frames[0].positions, frames[3].positions);
+    expect(
+      drift,
+      `first-to-last drift ${drift.toFixed(1)} px² should be within identity budget ${IDENTITY_DRIFT_BUDGET} px²`
+    ).toBeLessThan(IDENTITY_DRIFT_BUDGET);
+  });
+
+  it('does not seed from a super-graph that drops constraints when the frames contradict', async () => {
+    const reversed: IJsonDataInstance = {
+      atoms: atomsABC.slice(0, 2),
+      relations: [{
+        id: 'next', name: 'next', types: ['Node', 'Node'],
+        tuples: [{ atoms: ['B', 'A'], types: ['Node', 'Node'] }],
+      }],
+    };
+    const instances = [dataAddAtomBefore, reversed].map(d => new JSONDataInstance(d));
+    const union = await runHeadlessLayout(layoutSpec, new JSONDataInstance({
+      atoms: atomsABC.slice(0, 2),
+      relations: [{ ...reversed.relations[0], tuples: [...dataAddAtomBefore.relations[0].tuples, ...reversed.relations[0].tuples] }],
+    }));
+    expect(union.error).toMatchObject({ type: 'positional-conflict' });
+
+    const { plan, frames } = await runHeadlessSequence(layoutSpec, instances, foresighted);
+    expect(plan.superGraph).toBeUndefined();
+    expect(plan.superGraphError!.constraintError.type).toBe('positional-conflict');
+    expect(frames.map(f => f.error)).toEqual([null, null]);
+    // Each frame keeps its own ordering.
+    const x = (frame: number, id: string) => frames[frame].positions.positions.find(p => p.id === id)!.x;
+    expect(x(0, 'A')).toBeLessThan(x(0, 'B'));
+    expect(x(1, 'B')).toBeLessThan(x(1, 'A'));
+  });
+
+  it('is addressable frame by frame through runHeadlessLayout', async () => {
+    const instances = [dataAB, dataABBC].map(d => new JSONDataInstance(d));
+    const { plan, frames } = await runHeadlessSequence(layoutSpec, instances, foresighted);
+    const second = await runHeadlessLayout(layoutSpec, instances[1], { sequencePlan: plan, frameIndex: 1 });
+    expect(second.seed).toEqual(frames[1].seed);
+    await expect(
+      runHeadlessLayout(layoutSpec, instances[1], { sequencePlan: plan, frameIndex: 2 })
+    ).rejects.toThrow(RangeError);
+  });
+});
+
 // Re-export to silence unused import warnings (EdgeKey is part of the public API surface).
 void (null as unknown as EdgeKey | null);
@@ -0,0 +1,207 @@
+import { describe, it, expect, vi } from 'vitest';
+import { JSONDataInstance } from '../src/data-instance/json-data-instance';
+import type { IJsonDataInstance } from '../src/data-instance/json-data-instance';
+import { SQLEvaluator } from '../src/evaluators/data/sql-evaluator';
+import { LayoutInstance } from '../src/layout/layoutinstance';
+import { parseLayoutSpec } from '../src/layout/layoutspec';
+import { QualitativeConstraintValidator } from '../src/layout/qualitative-constraint-validator';
+import type { GroupOverlapError } from '../src/layout/constraint-types';
+import type { LayoutGroup } from '../src/layout/interfaces';
+
+/**
+ * Soft constraints: `priority: n` (or `soft: true`, priority 0) lets the solver
+ * drop a constraint instead of failing. The running example has three nodes in
+ * a `next` chain and a `pair` relation grouping a with c under key k.
+ */
+function chain(): IJsonDataInstance {
+  return {
+    atoms: [
+      { id: 'a', type: 'Node', label: 'a' },
+      { id: 'b', type: 'Node', label: 'b' },
+      { id: 'c', type: 'Node', label: 'c' },
+      { id: 'k', type: 'Key', label: 'k' },
+    ],
+    relations: [
+      {
+        id: 'next', name: 'next', types: ['Node', 'Node'],
+        tuples: [
+          { atoms: ['a', 'b'], types: ['Node', 'Node'] },
+          { atoms: ['b', 'c'], types: ['Node', 'Node'] },
+        ],
+      },
+      {
+        id: 'pair', name: 'pair', types: ['Key', 'Node'],
+        tuples: [
+          { atoms: ['k', 'a'], types: ['Key', 'Node'] },
+          { atoms: ['k', 'c'], types: ['Key', 'Node'] },
+        ],
+      },
+    ],
+  } as IJsonDataInstance;
+}
+
+const NEXT = '"SELECT * FROM next"';
+const PAIR = '"SELECT * FROM pair"';
+
+function layout(constraints: string[]) {
+  const data = new JSONDataInstance(chain());
+  const evaluator = new SQLEvaluator();
+  evaluator.initialize({ sourceData: data });
+  const spec = parseLayoutSpec(['constraints:', ...constraints.map((c) => `  - ${c}`)].join('\n'));
+  return new LayoutInstance(spec, evaluator, 0, false).generateLayout(data);
+}
+
+describe('soft constraints: parsing', () => {
+  it('reads priority, and soft: true as priority 0', () => {
+    const spec = parseLayoutSpec(
+      [
+        'constraints:',
+        '  - orientation: { selector: r, directions: [right], priority: 2 }',
+        '  - align: { selector: s, direction: horizontal, soft: true }',
+        '  - cyclic: { selector: t }',
+        '  - group: { selector: u, name: g, priority: 0.5 }',
+      ].join('\n'),
+    );
+    expect(spec.constraints.orientation.relative[0].priority).toBe(2);
+    expect(spec.constraints.alignment[0].priority).toBe(0);
+    expect(spec.constraints.orientation.cyclic[0].priority).toBeUndefined();
+    expect(spec.constraints.grouping.byselector[0].priority).toBe(0.5);
+  });
+
+  it('keeps the stronger priority when de-duplicating, hard beating soft', () => {
+    const spec = parseLayoutSpec(
+      [
+        'constraints:',
+        '  - align: { selector: s, direction: vertical, priority: 1 }',
+        '  - align: { selector: s, direction: vertical, priority: 3 }',
+        '  - orientation: { selector: r, directions: [below], soft: true }',
+        '  - orientation: { selector: r, directions: [below] }',
+      ].join('\n'),
+    );
+    expect(spec.constraints.alignment.map((c) => c.priority)).toEqual([3]);
+    expect(spec.constraints.orientation.relative.map((c) => c.priority)).toEqual([undefined]);
+  });
+
+  it('rejects a priority that is not a non-negative number', () => {
+    for (const priority of ['-1', 'high']) {
+      expect(() =>
+        parseLayoutSpec(`constraints:\n  - orientation: { selector: r, directions: [left], priority: ${priority} }\n`),
+      ).toThrow('Orientation constraint: priority must be a non-negative number');
+    }
+  });
+
+  it('rejects soft: false alongside a priority', () => {
+    expect(() =>
+      parseLayoutSpec('constraints:\n  - align: { selector: s, direction: vertical, priority: 1, soft: false }\n'),
+    ).toThrow('cannot also say soft: false');
+  });
+});
+
+describe('soft constraints: relaxation', () => {
+  it('drops a soft constraint that conflicts with a hard one, and says why', () => {
+    const { layout: l, error, warnings } = layout([
+      `orientation: { selector: ${NEXT}, directions: [right] }`,
+      `orientation: { selector: ${NEXT}, directions: [left], priority: 1 }`,
+    ]);
+
+    expect(error).toBeNull();
+    expect(l.relaxedConstraints).toHaveLength(1);
+    const [relaxed] = l.relaxedConstraints!;
+    expect(relaxed.priority).toBe(1);
+    expect(relaxed.constraint).toMatchObject({ directions: ['left'] });
+    expect(relaxed.conflictsWith).toEqual([expect.objectContaining({ directions: ['right'] })]);
+    expect(relaxed.reason).toContain('to resolve a conflict with');
+    expect(warnings).toEqual([
+      expect.objectContaining({ code: 'relaxed', specType: 'orientation', specIndex: 1 }),
+    ]);
+  });
+
+  it('drops the lower priority of two conflicting soft constraints', () => {
+    const dropped = (right: number, left: number) =>
+      layout([
+        `orientation: { selector: ${NEXT}, directions: [right], priority: ${right} }`,
+        `orientation: { selector: ${NEXT}, directions: [left], priority: ${left} }`,
+      ]).layout.relaxedConstraints!.map((r) => r.constraint);
+
+    expect(dropped(2, 1)).toEqual([expect.objectContaining({ directions: ['left'] })]);
+    expect(dropped(1, 2)).toEqual([expect.objectContaining({ directions: ['right'] })]);
+  });
+
+  it('drops soft: true before any explicit priority', () => {
+    const { layout: l } = layout([
+      `orientation: { selector: ${NEXT}, directions: [right], soft: true }`,
+      `orientation: { selector: ${NEXT}, directions: [left], priority: 1 }`,
+    ]);
+    expect(l.relaxedConstraints!.map((r) => r.priority)).toEqual([0]);
+  });
+
+  it('drops a soft group whose box the other constraints make impossible', () => {
+    // a, b, c on one row in that order: no box holds a and c but not b.
+    const { layout: l, error } = layout([
+      `orientation: { selector: ${NEXT}, directions: [directlyRight] }`,
+      `group: { selector: ${PAIR}, name: ends, soft: true }`,
+    ]);
+
+    expect(error).toBeNull();
+    expect(l.relaxedConstraints!.map((r) => r.constraint)).toEqual([expect.objectContaining({ name: 'ends' })]);
+    expect(l.groups.map((g) => g.name)).not.toContain('ends');
+  });
+
+  it('drops the weaker of two soft groups that overlap', () => {
+    // The validator lets groups overlap; report the two as an overlap to
+    // exercise the relaxation a rejecting validator would get.
+    const validate = QualitativeConstraintValidator.prototype.validateConstraints;
+    const spy = vi.spyOn(QualitativeConstraintValidator.prototype, 'validateConstraints').mockImplementation(function (
+      this: QualitativeConstraintValidator,
+      ...args
+    ) {
+      const groups: LayoutGroup[] = (this as any).groups.filter((g: LayoutGroup) => g.name.startsWith('ends'));
+      if (groups.length < 2) return validate.apply(this, args);
+      const error: GroupOverlapError = {
+        name: 'GroupOverlapError',
+        type: 'group-overlap',
+        message: 'groups overlap',
+        group1: groups[0],
+        group2: groups[1],
+        overlappingNodes: [],
+      };
+      return error;
+    });
+
+    try {
+      const { layout: l, error } = layout([
+        `group: { selector: ${PAIR}, name: ends, priority: 2 }`,
+        `group: { selector: ${PAIR}, name: endsAgain, priority: 1 }`,
+      ]);
+
+      expect(error).toBeNull();
+      expect(l.relaxedConstraints).toEqual([
+        expect.objectContaining({
+          constraint: expect.objectContaining({ name: 'endsAgain' }),
+          priority: 1,
+          conflictsWith: [expect.objectContaining({ name: 'ends' })],
+        }),
+      ]);
+      expect(l.groups.map((g) => g.name)).toEqual(['ends[k]']);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it('still fails when the conflict is between hard constraints alone', () => {
+    const { layout: l, error } = layout([
+      `orientation: { selector: ${NEXT}, directions: [right] }`,
+      `orientation: { selector: ${NEXT}, directions: [left] }`,
+      `align: { selector: ${NEXT}, direction: vertical, priority: 1 }`,
+    ]);
+
+    expect(error).not.toBeNull();
+    expect(l.conflictingConstraints?.length ?? 0).toBeGreaterThan(0);
+  });
+
+  it('leaves a satisfiable spec alone', () => {
+    const { layout: l, error } = layout([`orientation: { selector: ${NEXT}, directions: [right], priority: 1 }`]);
+    expect(error).toBeNull();
+    expect(l.relaxedConstraints).toBeUndefined();
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseLayoutSpec } from '../src/layout/layoutspec';
+import { createSpecModuleResolver } from '../src/layout/spec-composition';
+
+/** Parse with `console.warn` silenced — deprecations are asserted on `spec.warnings`. */
+function quietly<T>(fn: () => T): T {
+  const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  try {
+    return fn();
+  } finally {
+    warn.mockRestore();
+  }
+}
+
+const binaryTree = [
+  'module: binary-tree',
+  'constraints:',
+  '  - orientation: { selector: left, directions: [below, left] }',
+  '  - orientation: { selector: right, directions: [below, right] }',
+].join('\n');
+
+const palette = [
+  'module: palette',
+  'directives:',
+  "  - atomStyle: { selector: Node, fillStyle: { color: '#eef' } }",
+].join('\n');
+
+const legacyPalette = [
+  'module: legacy-palette',
+  'directives:',
+  "  - atomColor: { selector: Node, value: '#f00' }",
+].join('\n');
+
+const resolve = createSpecModuleResolver([binaryTree, palette, legacyPalette]);
+
+describe('spec composition — include / extends', () => {
+  it('merges an included module with the document', () => {
+    const spec = parseLayoutSpec(
+      'include: [binary-tree]\nconstraints:\n  - align: { selector: key, direction: horizontal }\n',
+      { resolve },
+    );
+    expect(spec.constraints.orientation.relative.map((c) => c.selector)).toEqual(['left', 'right']);
+    expect(spec.constraints.alignment).toHaveLength(1);
+  });
+
+  it('accepts a single include written as a string', () => {
+    const spec = parseLayoutSpec('include: palette\n', { resolve });
+    expect(spec.directives.atomStyles).toHaveLength(1);
+  });
+
+  it('merges extends first, then includes in order, then the document', () => {
+    const library = createSpecModuleResolver({
+      base: "directives:\n  - atomStyle: { selector: A, fillStyle: { color: '#111' } }\n",
+      one: "directives:\n  - atomStyle: { selector: B, fillStyle: { color: '#222' } }\n",
+      two: "directives:\n  - atomStyle: { selector: C, fillStyle: { color: '#333' } }\n",
+    });
+    const spec = parseLayoutSpec(
+      [
+        'include: [two, one]',
+        'extends: base',
+        'directives:',
+        "  - atomStyle: { selector: D, fillStyle: { color: '#444' } }",
+      ].join('\n'),
+      { resolve: library },
+    );
+    expect(spec.directives.atomStyles.map((r) => r.selector)).toEqual(['A', 'C', 'B', 'D']);
+  });
+
+  it('merges a spec reached twice only once, at its first position', () => {
+    const library = createSpecModuleResolver({
+      shared: "directives:\n  - atomStyle: { selector: S, fillStyle: { color: '#111' } }\n",
+      x: "include: shared\ndirectives:\n  - atomStyle: { selector: X, fillStyle: { color: '#222' } }\n",
+      y: "include: shared\ndirectives:\n  - atomStyle: { selector: Y, fillStyle: { color: '#333' } }\n",
+    });
+    const spec = parseLayoutSpec('include: [x, y]\n', { resolve: library });
+    expect(spec.directives.atomStyles.map((r) => r.selector)).toEqual(['S', 'X', 'Y']);
+  });
+
+  it('de-duplicates a constraint written in two fragments', () => {
+    const spec = parseLayoutSpec(
+      'include: binary-tree\nconstraints:\n  - orientation: { selector: left, directions: [below, left] }\n',
+      { resolve },
+    );
+    expect(spec.constraints.orientation.relative).toHaveLength(2);
+  });
+
+  it('passes the including fragment to the resolver', () => {
+    const seen: [string, string | undefined][] = [];
+    const sources: Record<string, string> = {
+      'trees/binary.yaml': 'module: binary-tree\ninclude: ./palette.yaml\n',
+      'trees/palette.yaml': palette,
+    };
+    parseLayoutSpec('include: trees/binary.yaml\n', {
+      resolve: (ref, from) => {
+        seen.push([ref, from]);
+        return ref.startsWith('./') ? sources[`trees/${ref.slice(2)}`] : sources[ref];
+      },
+    });
+    expect(seen).toEqual([
+      ['trees/binary.yaml', undefined],
+      ['./palette.yaml', 'binary-tree'],
+    ]);
+  });
+
+  it('rejects an include cycle, naming the path', () => {
+    const library = createSpecModuleResolver({ a: 'include: b\n', b: 'include: a\n' });
+    expect(() => parseLayoutSpec('module: root\ninclude: a\n', { resolve: library })).toThrow(
+      'Spec include cycle: root -> a -> b -> a',
+    );
+  });
+
+  it('rejects a reference the resolver does not know', () => {
+    expect(() => parseLayoutSpec('include: [nope]\n', { resolve })).toThrow("Cannot resolve spec 'nope'");
+  });
+
+  it('rejects an include with no resolver', () => {
+    expect(() => parseLayoutSpec('include: palette\n')).toThrow('no spec resolver was given');
+  });
+
+  it('rejects extending more than one spec', () => {
+    expect(() => parseLayoutSpec('extends: [palette, binary-tree]\n', { resolve })).toThrow(
+      "can extend one spec, not 2; use 'include' for the rest",
+    );
+  });
+
+  it('names the fragment whose YAML does not parse', () => {
+    const library = createSpecModuleResolver({ broken: 'directives: [' });
+    expect(() => parseLayoutSpec('include: broken\n', { resolve: library })).toThrow(
+      "Spec 'broken' is not valid YAML",
+    );
+  });
+
+  it('leaves a document that composes nothing unchanged', () => {
+    const source = 'module: standalone\nconstraints:\n  - align: { selector: key, direction: vertical }\n';
+    expect(parseLayoutSpec(source).constraints.alignment).toHaveLength(1);
+  });
+});
+
+describe('spec composition — warnings name their fragment', () => {
+  it('attributes a deprecation to the fragment that used the old form', () => {
+    const spec = quietly(() => parseLayoutSpec('include: [legacy-palette]\n', { resolve }));
+    const deprecations = (spec.warnings ?? []).filter((w) => w.code === 'deprecated');
+    expect(deprecations).toHaveLength(1);
+    expect(deprecations[0]).toMatchObject({ specType: 'atomColor', source: 'legacy-palette' });
+  });
+
+  it('warns once per fragment, and without a source for the root', () => {
+    const spec = quietly(() =>
+      parseLayoutSpec("include: legacy-palette\ndirectives:\n  - atomColor: { selector: Edge, value: '#0f0' }\n", {
+        resolve,
+      }),
+    );
+    const sources = (spec.warnings ?? []).filter((w) => w.specType === 'atomColor').map((w) => w.source);
+    expect(sources).toEqual(['legacy-palette', undefined]);
+  });
+
+  it('attributes an unresolved draw reference to the fragment that wrote it', () => {
+    const library = createSpecModuleResolver({
+      edges: 'directives:\n  - inferredEdge: { name: link, selector: r, draw: zones -> zones }\n',
+    });
+    const spec = quietly(() => parseLayoutSpec('include: edges\n', { resolve: library }));
+    expect(spec.warnings).toEqual([
+      expect.objectContaining({ code: 'unresolved-reference', specType: 'inferredEdge', source: 'edges' }),
+    ]);
+  });
+
+  it('resolves a draw reference against a group from another fragment', () => {
+    const library = createSpecModuleResolver({
+      zones: 'constraints:\n  - group: { selector: R.m, name: zones }\n',
+      edges: 'directives:\n  - inferredEdge: { name: link, selector: r, draw: zones -> zones }\n',
+    });
+    const spec = quietly(() => parseLayoutSpec('include: [edges, zones]\n', { resolve: library }));
+    expect(spec.warnings).toEqual([]);
+  });
+});
+
+describe('createSpecModuleResolver', () => {
+  it('requires every listed spec to name itself', () => {
+    expect(() => createSpecModuleResolver(['constraints: []\n'])).toThrow("declare its name with 'module:'");
+  });
+
+  it('rejects two specs with the same module name', () => {
+    expect(() => createSpecModuleResolver([palette, palette])).toThrow("Two specs declare module 'palette'");
+  });
+});
@@ -168,6 +168,33 @@ describe('SpecEditor — builder edits emit round-trippable YAML', () => {
   })
 })
 
+describe('SpecEditor — macros show their expansion', () => {
+  it('an expanded macro row lists the constraints it stands for', async () => {
+    const user = userEvent.setup()
+    const onChange = vi.fn()
+    render(
+      <Host
+        initial={'constraints:\n  - binaryTree: { left: left, right: right }\n'}
+        onChangeSpy={onChange}
+        defaultView="builder"
+      />,
+    )
+
+    await expandRow(user, 'Binary tree')
+    const expansion = document.querySelector('.spytial-ed-expansion') as HTMLElement
+    expect(within(expansion).getByText('Expands to')).toBeInTheDocument()
+    const items = within(expansion).getAllByRole('listitem')
+    expect(items.map((li) => li.textContent)).toEqual([
+      'Orientationtarget below, left of source · left',
+      'Orientationtarget below, right of source · right',
+      'Alignhorizontal · left with right',
+    ])
+
+    // The sugar is what round-trips; the expansion is display only.
+    expect(onChange).not.toHaveBeenCalled()
+  })
+})
+
 describe('SpecEditor — code-view edits sync to the model (debounced)', () => {
   beforeEach(() => {
     vi.useFakeTimers()
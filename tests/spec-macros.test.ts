@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { parseLayoutSpec } from '../src/layout/layoutspec';
+import { createSpecModuleResolver } from '../src/layout/spec-composition';
+import { expandSpecMacro, isSpecMacro } from '../src/layout/spec-macros';
+import { LayoutInstance } from '../src/layout/layoutinstance';
+import { isAlignmentConstraint } from '../src/layout/interfaces';
+import { JSONDataInstance } from '../src/data-instance/json-data-instance';
+import { SQLEvaluator } from '../src/evaluators/data/sql-evaluator';
+
+/**
+ * Macros are sugar: a spec using one must parse to exactly what the same spec
+ * with the expansion written out parses to. Each test states the expansion by
+ * hand rather than reading it from the manifest, so a template edit that
+ * changes a macro's meaning shows up here.
+ */
+function sameAs(sugar: string, written: string): void {
+  const a = parseLayoutSpec(sugar);
+  const b = parseLayoutSpec(written);
+  expect(a.constraints).toEqual(b.constraints);
+}
+
+describe('spec macros — expansion', () => {
+  it('binaryTree is two orientation constraints and an align of sibling children', () => {
+    sameAs(
+      'constraints:\n  - binaryTree: { left: l, right: r }\n',
+      [
+        'constraints:',
+        '  - orientation: { selector: l, directions: [below, left] }',
+        '  - orientation: { selector: r, directions: [below, right] }',
+        '  - align: { selector: l, pairedWith: r, direction: horizontal }',
+      ].join('\n'),
+    );
+  });
+
+  it('aligns siblings without writing a selector in any evaluator\'s syntax', () => {
+    const [, , align] = expandSpecMacro('binaryTree', { left: 'SELECT * FROM left_child', right: 'right' });
+    expect(align).toEqual({ align: { selector: 'SELECT * FROM left_child', pairedWith: 'right', direction: 'horizontal' } });
+  });
+
+  it('linkedList runs right by default, directly', () => {
+    sameAs(
+      'constraints:\n  - linkedList: { next: succ }\n',
+      'constraints:\n  - orientation: { selector: succ, directions: [directlyRight] }\n',
+    );
+  });
+
+  it('linkedList translates its direction', () => {
+    sameAs(
+      'constraints:\n  - linkedList: { next: succ, direction: below }\n',
+      'constraints:\n  - orientation: { selector: succ, directions: [directlyBelow] }\n',
+    );
+  });
+
+  it('grid is a directlyRight and a directlyBelow orientation', () => {
+    sameAs(
+      'constraints:\n  - grid: { across: east, down: south }\n',
+      [
+        'constraints:',
+        '  - orientation: { selector: east, directions: [directlyRight] }',
+        '  - orientation: { selector: south, directions: [directlyBelow] }',
+      ].join('\n'),
+    );
+  });
+
+  it('expands in place, keeping the order of the surrounding items', () => {
+    const spec = parseLayoutSpec(
+      [
+        'constraints:',
+        '  - orientation: { selector: first, directions: [above] }',
+        '  - linkedList: { next: mid }',
+        '  - orientation: { selector: last, directions: [left] }',
+      ].join('\n'),
+    );
+    expect(spec.constraints.orientation.relative.map((c) => c.selector)).toEqual(['first', 'mid', 'last']);
+  });
+
+  it('collapses with a hand-written duplicate of its expansion', () => {
+    const spec = parseLayoutSpec(
+      [
+        'constraints:',
+        '  - linkedList: { next: succ }',
+        '  - orientation: { selector: succ, directions: [directlyRight] }',
+      ].join('\n'),
+    );
+    expect(spec.constraints.orientation.relative).toHaveLength(1);
+  });
+
+  it('is an error outside its section, not an ignored item', () => {
+    expect(() => parseLayoutSpec('directives:\n  - binaryTree: { left: l, right: r }\n')).toThrow(
+      'binaryTree macro belongs under constraints:, not directives:',
+    );
+  });
+});
+
+describe('spec macros — errors', () => {
+  it('rejects a missing required field', () => {
+    expect(() => parseLayoutSpec('constraints:\n  - binaryTree: { left: l }\n')).toThrow(
+      'binaryTree macro must have a right',
+    );
+  });
+
+  it('rejects an unknown enum value', () => {
+    expect(() => parseLayoutSpec('constraints:\n  - linkedList: { next: n, direction: diagonal }\n')).toThrow(
+      'linkedList macro: direction must be one of right, left, below, above',
+    );
+  });
+
+  it('rejects expanding a key that is not a macro', () => {
+    expect(isSpecMacro('orientation')).toBe(false);
+    expect(() => expandSpecMacro('orientation', {})).toThrow("'orientation' is not a spec macro");
+  });
+});
+
+describe('spec macros — composition', () => {
+  it('expands macros inside an included fragment', () => {
+    const resolve = createSpecModuleResolver(['module: lists\nconstraints:\n  - linkedList: { next: next }\n']);
+    const spec = parseLayoutSpec('include: lists\n', { resolve });
+    expect(spec.constraints.orientation.relative.map((c) => c.directions)).toEqual([['directlyRight']]);
+  });
+});
+
+describe('spec macros — layout', () => {
+  it('binaryTree lines up siblings under an evaluator that is not Forge', () => {
+    const pair = (a: string, b: string) => ({ atoms: [a, b], types: ['Node', 'Node'] });
+    const data = new JSONDataInstance({
+      atoms: ['root', 'a', 'b', 'c'].map((id) => ({ id, type: 'Node', label: id })),
+      relations: [
+        { id: 'lchild', name: 'lchild', types: ['Node', 'Node'], tuples: [pair('root', 'a')] },
+        { id: 'rchild', name: 'rchild', types: ['Node', 'Node'], tuples: [pair('root', 'b'), pair('a', 'c')] },
+      ],
+    });
+    const evaluator = new SQLEvaluator();
+    evaluator.initialize({ sourceData: data });
+    const spec = parseLayoutSpec(
+      'constraints:\n  - binaryTree: { left: "SELECT * FROM lchild", right: "SELECT * FROM rchild" }\n',
+    );
+
+    const { layout, selectorErrors } = new LayoutInstance(spec, evaluator, 0, false).generateLayout(data);
+    expect(selectorErrors).toEqual([]);
+    const aligned = layout.constraints
+      .filter(isAlignmentConstraint)
+      .map((c) => [c.axis, ...[c.node1.id, c.node2.id].sort()]);
+    expect(aligned).toContainEqual(['y', 'a', 'b']);
+    // c has no left sibling, so nothing is aligned with it.
+    expect(aligned.some((ids) => ids.includes('c'))).toBe(false);
+  });
+});
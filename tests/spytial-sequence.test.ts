@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { JSONDataInstance } from '../src/data-instance/json-data-instance';
+import { InstanceTrace } from '../src/data-instance/instance-trace';
+import { stability, changeEmphasis } from '../src/translators/webcola/sequence-policy';
+import type { IDataInstance } from '../src/data-instance/interfaces';
+
+// The renderer itself is out of scope: each "render" records its options and
+// leaves a layout state naming the step, so a later step can tell which
+// step's positions it was seeded from.
+vi.mock('../src/translators/webcola/webcola-cnd-graph', () => ({
+  WebColaCnDGraph: class extends HTMLElement {
+    static get observedAttributes() { return ['theme', 'background', 'layout-worker']; }
+    renders: Array<{ layout: any; options: any }> = [];
+    private drawn = '';
+    constructor() {
+      super();
+      this.attachShadow({ mode: 'open' }).innerHTML = '<div id="graph-shell"></div>';
+    }
+    attributeChangedCallback() {}
+    disconnectedCallback() {}
+    async renderLayout(layout: any, options: any) {
+      this.renders.push({ layout, options });
+      this.drawn = layout.step;
+    }
+    getLayoutState() {
+      return { positions: [{ id: this.drawn, x: 0, y: 0 }], transform: { k: 1, x: 0, y: 0 } };
+    }
+  },
+}));
+
+const { SpytialSequence } = await import('../src/translators/webcola/spytial-sequence');
+customElements.define('spytial-sequence', SpytialSequence);
+
+const step = (n: number): IDataInstance =>
+  new JSONDataInstance({ atoms: [{ id: `A${n}`, type: 'T', label: `A${n}` }], relations: [] });
+const STEPS = [0, 1, 2, 3, 4].map(step);
+const layoutFor = (_instance: IDataInstance, index: number) => ({ step: `s${index}` }) as any;
+
+describe('<spytial-sequence>', () => {
+  let sequence: any;
+  const button = (id: string) => sequence.shadowRoot.querySelector(`#${id}`) as HTMLButtonElement;
+  const seededFrom = (render: { options: any }) => render.options?.priorPositions.positions[0].id;
+
+  beforeEach(async () => {
+    sequence = document.createElement('spytial-sequence');
+    document.body.appendChild(sequence);
+    await sequence.setSequence(STEPS, layoutFor);
+  });
+
+  afterEach(() => {
+    sequence.remove();
+    vi.useRealTimers();
+  });
+
+  it('draws the first step fresh, then each step from the one before under the policy', async () => {
+    expect(sequence.renders[0].options).toBeUndefined();
+    await sequence.next();
+    expect(sequence.renders[1].options).toMatchObject({ policy: stability, prevInstance: STEPS[0], currInstance: STEPS[1] });
+    expect(seededFrom(sequence.renders[1])).toBe('s0');
+
+    sequence.setAttribute('policy', 'change_emphasis');
+    await sequence.previous();
+    expect(sequence.renders[2].options.policy).toBe(changeEmphasis);
+  });
+
+  it('jumps from the nearest step shown, and returns to a shown step as it was', async () => {
+    await sequence.goTo(1);
+    await sequence.goTo(4);
+    expect(sequence.renders[2].options.prevInstance).toBe(STEPS[1]);
+    expect(seededFrom(sequence.renders[2])).toBe('s1');
+
+    await sequence.goTo(3);
+    expect(seededFrom(sequence.renders[3])).toBe('s4');
+    await sequence.goTo(1);
+    expect(sequence.renders[4].options).toMatchObject({ prevInstance: STEPS[1], currInstance: STEPS[1] });
+  });
+
+  it('keeps the scrubber, position and buttons in step', async () => {
+    const scrubber = sequence.shadowRoot.querySelector('#seq-scrubber') as HTMLInputElement;
+    expect([scrubber.max, scrubber.value]).toEqual(['4', '0']);
+    expect(button('seq-prev').disabled).toBe(true);
+
+    scrubber.value = '3';
+    scrubber.dispatchEvent(new Event('input'));
+    await vi.waitFor(() => expect(sequence.index).toBe(3));
+    expect(sequence.shadowRoot.querySelector('#seq-position').textContent).toBe('4 / 5');
+
+    button('seq-last').click();
+    await vi.waitFor(() => expect(sequence.index).toBe(4));
+    expect(button('seq-next').disabled).toBe(true);
+  });
+
+  it('steps and plays from the keyboard', async () => {
+    const key = (k: string) => sequence.dispatchEvent(new KeyboardEvent('keydown', { key: k, bubbles: true }));
+    key('End');
+    await vi.waitFor(() => expect(sequence.index).toBe(4));
+    key('ArrowLeft');
+    await vi.waitFor(() => expect(sequence.index).toBe(3));
+    key(' ');
+    expect(sequence.playing).toBe(true);
+    key(' ');
+    expect(sequence.playing).toBe(false);
+  });
+
+  it('leaves Space to a focused toolbar button', () => {
+    const next = button('seq-next');
+    const event = new KeyboardEvent('keydown', { key: ' ', bubbles: true, composed: true, cancelable: true });
+    next.dispatchEvent(event);
+    expect(event.defaultPrevented).toBe(false);
+    expect(sequence.playing).toBe(false);
+  });
+
+  it('plays to the end and stops, announcing both', async () => {
+    vi.useFakeTimers();
+    sequence.setAttribute('interval', '10');
+    const playback: boolean[] = [];
+    const steps: number[] = [];
+    sequence.addEventListener('playback-change', (e: CustomEvent) => playback.push(e.detail.playing));
+    sequence.addEventListener('step-change', (e: CustomEvent) => steps.push(e.detail.index));
+
+    await sequence.goTo(2);
+    sequence.play();
+    expect(button('seq-play').getAttribute('aria-pressed')).toBe('true');
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(steps).toEqual([2, 3, 4]);
+    expect(playback).toEqual([true, false]);
+    expect(button('seq-play').textContent).toBe('▶');
+  });
+
+  it('follows a trace around its loop', async () => {
+    await sequence.setSequence(new InstanceTrace(STEPS.slice(0, 3), 1), layoutFor, 2);
+    await sequence.next();
+    expect(sequence.index).toBe(1);
+    expect(sequence.renders.at(-1).options.prevInstance).toBe(STEPS[2]);
+  });
+
+  it('asks a lazy source for each step once', async () => {
+    const getStep = vi.fn(async (i: number) => STEPS[i]);
+    await sequence.setSequence({ length: STEPS.length, getStep }, layoutFor, 2);
+    await sequence.next();
+    await sequence.previous();
+    await sequence.goTo(3);
+    expect(getStep.mock.calls.map(([i]) => i)).toEqual([2, 3]);
+  });
+
+  it('lays out each step once, however often it is shown', async () => {
+    const layouts = vi.fn(layoutFor);
+    await sequence.setSequence(STEPS, layouts);
+    await sequence.next();
+    await sequence.previous();
+    await sequence.next();
+    expect(layouts.mock.calls.map(([, i]) => i)).toEqual([0, 1]);
+    expect(sequence.renders.at(-1).layout).toBe(sequence.renders.at(-3).layout);
+  });
+
+  it('rejects a step out of range', async () => {
+    await expect(sequence.goTo(5)).rejects.toThrow(RangeError);
+    await expect(document.createElement('spytial-sequence').goTo(0)).rejects.toThrow(/setSequence/);
+  });
+});
@@ -597,6 +597,25 @@ describe('SQLEvaluator', () => {
       expect(selectSchema).toBeDefined();
       expect(selectSchema!.name).toBe('rel_select');
     });
+
+    it('should report the relations behind sanitized table names as dependencies', () => {
+      const jsonData: IJsonDataInstance = {
+        atoms: [
+          { id: 'A', type: 'Node', label: 'A' }
+        ],
+        relations: [
+          { id: 'has-link', name: 'has-link', types: ['Node', 'Node'], tuples: [] },
+          { id: 'select', name: 'select', types: ['Node'], tuples: [] }
+        ]
+      };
+
+      evaluator.initialize({ sourceData: new JSONDataInstance(jsonData) });
+
+      expect([...evaluator.dependencies('SELECT * FROM HAS_LINK')]).toEqual(['has-link']);
+      expect([...evaluator.dependencies('SELECT * FROM rel_select JOIN has_link')].sort())
+        .toEqual(['has-link', 'select']);
+      expect(evaluator.dependencies('SELECT id FROM _atoms').size).toBe(0);
+    });
   });
 
   describe('Advanced SQL Features', () => {
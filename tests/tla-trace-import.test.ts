@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import { TlaDataInstance } from '../src/data-instance/tla/tla-data-instance';
+import { parseItfTrace, parseTlaTrace, parseTlcTrace } from '../src/data-instance/tla/tla-trace-import';
+import { SQLEvaluator } from '../src/evaluators/data/sql-evaluator';
+
+/** Tuples of `relation`, as atom labels. */
+function tuples(instance: TlaDataInstance, relation: string): string[][] {
+  const labels = new Map(instance.getAtoms().map((a) => [a.id, a.label]));
+  const rel = instance.getRelations().find((r) => r.name === relation);
+  return (rel?.tuples ?? []).map((t) => t.atoms.map((id) => labels.get(id) ?? id));
+}
+
+const ITF = {
+  '#meta': { format: 'ITF', 'format-description': 'https://apalache-mc.org/docs/adr/015adr-trace.html' },
+  vars: ['procs', 'owner', 'msg', 'count', 'log'],
+  states: [
+    {
+      '#meta': { index: 0 },
+      procs: { '#set': ['p1', 'p2'] },
+      owner: { '#map': [['p1', { '#tup': [1, true] }], ['p2', { '#tup': [2, false] }]] },
+      msg: { kind: 'ack', seq: { '#bigint': '90071992547409910' } },
+      count: 0,
+      log: ['a', 'b'],
+    },
+    {
+      '#meta': { index: 1 },
+      procs: { '#set': [] },
+      owner: { '#map': [] },
+      msg: { kind: 'req', seq: { '#bigint': '1' } },
+      count: 1,
+      log: [],
+    },
+  ],
+  loop: 0,
+};
+
+describe('ITF traces', () => {
+  const instance = new TlaDataInstance(parseItfTrace(JSON.stringify(ITF)));
+
+  it('turns sets into member relations', () => {
+    expect(tuples(instance, 'member')).toEqual([['Set', 'p1'], ['Set', 'p2']]);
+    expect(tuples(instance, 'procs')).toEqual([['State 1', 'Set'], ['State 2', 'Set']]);
+  });
+
+  it('turns records into field relations', () => {
+    expect(tuples(instance, 'field_kind')).toEqual([['Record', 'ack'], ['Record', 'req']]);
+    // Too large for a number: kept exact, as a string.
+    expect(tuples(instance, 'field_seq')).toEqual([['Record', '90071992547409910'], ['Record', '1']]);
+  });
+
+  it('keeps field relations apart from variables, member and apply', () => {
+    const clash = new TlaDataInstance(parseItfTrace({
+      vars: ['x', 'r'],
+      states: [{ x: 1, r: { x: 2, member: 3, apply: 4 } }],
+    }));
+    expect(tuples(clash, 'x')).toEqual([['State 1', '1']]);
+    expect(tuples(clash, 'field_x')).toEqual([['Record', '2']]);
+    expect(tuples(clash, 'member')).toEqual([]);
+    expect(tuples(clash, 'field_member')).toEqual([['Record', '3']]);
+    expect(tuples(clash, 'apply')).toEqual([]);
+    expect(tuples(clash, 'field_apply')).toEqual([['Record', '4']]);
+  });
+
+  it('lengthens the field prefix past a variable that starts with it', () => {
+    const clash = new TlaDataInstance(parseItfTrace({
+      vars: ['field_x', 'r'],
+      states: [{ field_x: 1, r: { x: 2 } }],
+    }));
+    expect(tuples(clash, 'field_x')).toEqual([['State 1', '1']]);
+    expect(tuples(clash, 'field__x')).toEqual([['Record', '2']]);
+  });
+
+  it('names field relations a selector can select', () => {
+    const records = new TlaDataInstance(parseItfTrace({
+      vars: ['msg'],
+      states: [{ msg: { kind: 'ack' } }, { msg: { kind: 'req' } }],
+    }));
+    const evaluator = new SQLEvaluator();
+    evaluator.initialize({ sourceData: records });
+    const result = evaluator.evaluate('SELECT src, tgt FROM field_kind');
+    expect(result.isError()).toBe(false);
+    const labels = new Map(records.getAtoms().map((a) => [a.id, a.label]));
+    expect(result.selectedTwoples().map(([, value]) => labels.get(value))).toEqual(['ack', 'req']);
+  });
+
+  it('turns functions, tuples and sequences into apply tuples', () => {
+    const apply = tuples(instance, 'apply');
+    expect(apply).toContainEqual(['Function', 'p1', 'Tuple']);
+    expect(apply).toContainEqual(['Tuple', '2', 'TRUE']);
+    expect(apply).toContainEqual(['Seq', '2', 'b']);
+  });
+
+  it('keeps a string element apart from the number or Boolean it spells', () => {
+    const mixed = new TlaDataInstance(parseItfTrace({
+      vars: ['s', 'f'],
+      states: [{
+        s: { '#set': ['1', 1, 'TRUE', true] },
+        f: { '#map': [['1', 'a'], [1, 'b']] },
+      }],
+    }));
+    expect(tuples(mixed, 'member').map(([, element]) => element).sort()).toEqual(['1', '1', 'TRUE', 'TRUE']);
+    const elementTypes = mixed.getRelations().find((r) => r.name === 'member')!.tuples
+      .map((t) => mixed.getAtomType(t.atoms[1]).id).sort();
+    expect(elementTypes).toEqual(['Bool', 'Int', 'String', 'String']);
+    expect(tuples(mixed, 'apply').map(([, , value]) => value).sort()).toEqual(['a', 'b']);
+    expect(new Set(mixed.getAtoms().map((a) => a.id)).size).toBe(mixed.getAtoms().length);
+  });
+
+  it('labels apply edges with their key', () => {
+    const graph = instance.generateGraph();
+    const labels = graph.edges().map((e) => graph.edge(e));
+    expect(labels).toContain('apply[p1]');
+  });
+
+  it('keeps the states, their order and the loop', () => {
+    expect(tuples(instance, 'Next')).toEqual([['State 1', 'State 2'], ['State 2', 'State 1']]);
+    expect(instance.getAtomType('state_0.count').id).toBe('Int');
+  });
+
+  it('rejects a malformed value', () => {
+    expect(() => parseItfTrace({ vars: ['x'], states: [{ x: { '#set': 1 } }] })).toThrow(/"#set" must hold an array/);
+    expect(() => parseItfTrace({ vars: ['x'], states: [{ x: { '#bigint': 'ten' } }] })).toThrow(/not an integer/);
+  });
+});
+
+const TLC = {
+  state: [
+    [1, { x: 0, q: [], r: { a: 1 } }],
+    [2, { x: 1, q: [7], r: { a: 2 } }],
+    [3, { x: 2, q: [7, 8], r: { a: 3 } }],
+  ],
+  action: [
+    [[1, {}], { name: 'Next' }, [2, {}]],
+    [[2, {}], { name: 'Next' }, [3, {}]],
+    [[3, {}], { name: 'Next' }, [2, {}]],
+  ],
+};
+
+describe('TLC traces', () => {
+  it('reads the states in index order, with their values', () => {
+    const instance = new TlaDataInstance(parseTlcTrace({ ...TLC, state: [...TLC.state].reverse() }));
+    expect(tuples(instance, 'x').map(([, v]) => v)).toEqual(['0', '1', '2']);
+    expect(tuples(instance, 'field_a').map(([, v]) => v)).toEqual(['1', '2', '3']);
+    expect(tuples(instance, 'apply')).toEqual([['Seq', '1', '7'], ['Seq', '1', '7'], ['Seq', '2', '8']]);
+  });
+
+  it('closes a lasso at the state the back edge returns to', () => {
+    expect(parseTlcTrace(TLC).loop).toBe(1);
+    expect(parseTlcTrace({ state: TLC.state }).loop).toBeUndefined();
+  });
+});
+
+describe('parseTlaTrace', () => {
+  it('reads each format by its shape', () => {
+    expect(parseTlaTrace(TLC).states).toHaveLength(3);
+    expect(parseTlaTrace(ITF).encoding).toBe('structured');
+    const datum = { states: [{ variables: { x: 1 } }] };
+    expect(parseTlaTrace(datum)).toBe(datum);
+  });
+
+  it('rejects anything else', () => {
+    expect(() => parseTlaTrace('{"atoms": []}')).toThrow(/Invalid TLA\+ trace/);
+    expect(() => parseTlaTrace('not json')).toThrow(/not JSON/);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import * as d3 from 'd3';
+import { extractVectorScene, parsePathData } from '../src/translators/vector/vector-scene';
+import type { VectorScene } from '../src/translators/vector/vector-scene';
+import { renderTikz } from '../src/translators/vector/tikz';
+import { renderPdf } from '../src/translators/vector/pdf';
+
+/**
+ * The element's export methods only find the drawing and hand it to the
+ * vector module, so they run against a bare shadow root holding a drawing of
+ * the renderer's shape: a node box with its label, a group rectangle and a
+ * routed, arrowed edge, all under a panned and zoomed layer.
+ *
+ * The renderer captures `window.d3` at module load, so d3 is installed before
+ * the dynamic import below.
+ */
+(window as any).d3 = d3;
+const { WebColaCnDGraph } = await import('../src/translators/webcola/webcola-cnd-graph');
+const proto = WebColaCnDGraph.prototype as any;
+
+const DRAWING = `
+  <svg id="svg" xmlns="http://www.w3.org/2000/svg">
+    <defs><marker id="end-arrow"><polygon points="0 0, 12 4, 0 8, 3 4"/></marker></defs>
+    <g class="zoomable" transform="translate(300,40) scale(2)">
+      <rect class="group" x="0" y="0" width="200" height="100" rx="8" fill="#eeeeee" stroke="#999999" stroke-width="2"/>
+      <g class="node">
+        <rect x="20" y="30" width="60" height="40" fill="#ffffff" stroke="#000000"/>
+        <text class="label" x="50" y="54" text-anchor="middle" font-size="12" font-weight="bold" fill="#333333">Node_1</text>
+      </g>
+      <g class="link-group">
+        <path class="link" d="M80,50 C120,50 140,80 180,80" fill="none" stroke="#ff0000" stroke-dasharray="4 2" marker-end="url(#end-arrow)"/>
+      </g>
+    </g>
+  </svg>`;
+
+function drawing(): SVGSVGElement {
+  const host = document.createElement('div');
+  host.innerHTML = DRAWING;
+  return host.querySelector('svg')!;
+}
+
+function fakeGraph() {
+  const host = document.createElement('div');
+  const shadowRoot = host.attachShadow({ mode: 'open' });
+  shadowRoot.innerHTML = DRAWING;
+  return Object.create(proto, {
+    shadowRoot: { value: shadowRoot },
+    getCanvasBackground: { value: () => '#fafafa' },
+  });
+}
+
+function scene(): VectorScene {
+  return extractVectorScene(drawing().querySelector('.zoomable')!, { background: '#fafafa' });
+}
+
+describe('parsePathData', () => {
+  it('makes every command absolute and every curve cubic', () => {
+    expect(parsePathData('m10 10 h5 v5 l-5 0 q5 5 10 0 z')).toEqual([
+      { type: 'M', x: 10, y: 10 },
+      { type: 'L', x: 15, y: 10 },
+      { type: 'L', x: 15, y: 15 },
+      { type: 'L', x: 10, y: 15 },
+      { type: 'C', x1: expect.closeTo(40 / 3), y1: expect.closeTo(55 / 3), x2: expect.closeTo(50 / 3), y2: expect.closeTo(55 / 3), x: 20, y: 15 },
+      { type: 'Z' },
+    ]);
+  });
+});
+
+describe('extractVectorScene', () => {
+  const { bounds, background, items } = scene();
+
+  it('reads shapes in layout coordinates, ignoring the pan and zoom', () => {
+    expect(items.map(i => i.kind)).toEqual(['rect', 'rect', 'text', 'path']);
+    expect(items[0]).toMatchObject({ x: 0, y: 0, width: 200, height: 100, radius: 8, strokeWidth: 2 });
+    expect(bounds).toEqual({ x: -10, y: -10, width: 220, height: 120 });
+    expect(background).toEqual({ r: 250, g: 250, b: 250, a: 1 });
+  });
+
+  it('keeps label text, anchoring and weight', () => {
+    expect(items[2]).toMatchObject({ text: 'Node_1', x: 50, y: 54, fontSize: 12, bold: true, anchor: 'middle' });
+  });
+
+  it('keeps the routed edge with its dash and arrowhead', () => {
+    expect(items[3]).toMatchObject({
+      fill: null,
+      stroke: { r: 255, g: 0, b: 0, a: 1 },
+      dash: [4, 2],
+      arrowStart: false,
+      arrowEnd: true,
+      segments: [{ type: 'M', x: 80, y: 50 }, { type: 'C', x1: 120, y1: 50, x2: 140, y2: 80, x: 180, y: 80 }],
+    });
+  });
+});
+
+describe('renderTikz', () => {
+  const tikz = renderTikz(scene());
+
+  it('writes a compilable standalone document', () => {
+    expect(tikz.startsWith('\\documentclass[tikz]{standalone}\n\\usetikzlibrary{arrows.meta}\n')).toBe(true);
+    expect(tikz).toContain('\\begin{tikzpicture}[x=0.75pt, y=-0.75pt]');
+    expect(tikz.trimEnd().endsWith('\\end{document}')).toBe(true);
+  });
+
+  it('draws boxes, routed edges and escaped labels', () => {
+    expect(tikz).toContain('rounded corners=6pt] (0,0) rectangle (200,100);');
+    expect(tikz).toContain('(80,50) .. controls (120,50) and (140,80) .. (180,80);');
+    expect(tikz).toMatch(/\\path\[-\{Stealth\[[^\]]*\]\}, draw=cnd\d+, line width=0.75pt, dash pattern=on 3pt off 1.5pt\]/);
+    expect(tikz).toMatch(/\\node\[anchor=base, [^\]]*\\bfseries\] at \(50,54\) \{Node\\_1\};/);
+  });
+
+  it('returns just the picture when not standalone', () => {
+    const picture = renderTikz(scene(), { standalone: false });
+    expect(picture.startsWith('\\begin{tikzpicture}')).toBe(true);
+    expect(picture).not.toContain('\\documentclass');
+  });
+});
+
+describe('renderPdf', () => {
+  const bytes = renderPdf(scene(), { title: 'Figure (1)' });
+  const file = String.fromCharCode(...bytes);
+
+  it('sizes the page to the drawing', () => {
+    expect(file.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(file).toContain('/MediaBox [0 0 165 90]');
+    expect(file).toContain('/Title (Figure \\(1\\))');
+    expect(file).toContain('(Node_1) Tj');
+  });
+
+  it('indexes every object at its byte offset', () => {
+    const startxref = Number(/startxref\n(\d+)/.exec(file)![1]);
+    expect(file.slice(startxref, startxref + 4)).toBe('xref');
+    const offsets = [...file.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)].map(m => Number(m[1]));
+    expect(offsets.length).toBeGreaterThan(4);
+    offsets.forEach((offset, i) => {
+      expect(file.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true);
+    });
+  });
+});
+
+describe('<webcola-cnd-graph> vector export', () => {
+  it('exports the whole drawing as self-contained SVG, fitted to its bounds', async () => {
+    const svg = await fakeGraph().exportSvg();
+    const doc = new DOMParser().parseFromString(svg, 'image/svg+xml').documentElement;
+    expect(doc.getAttribute('viewBox')).toBe('-10 -10 220 120');
+    expect(doc.querySelector('.zoomable')!.hasAttribute('transform')).toBe(false);
+    expect(doc.firstElementChild!.getAttribute('fill')).toBe('#fafafa');
+    // Computed styles are inlined, so the file no longer needs the shadow stylesheet.
+    expect(doc.querySelector('.link')!.getAttribute('style')).toContain('visibility: visible');
+  });
+
+  it('exports TikZ and PDF from the same drawing', async () => {
+    const graph = fakeGraph();
+    expect(graph.exportTikz()).toBe(renderTikz(scene()));
+    const pdf: Blob = graph.exportPdf();
+    expect(pdf.type).toBe('application/pdf');
+    expect(pdf.size).toBe(renderPdf(scene()).length);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import * as d3 from 'd3';
+import { JSONDataInstance } from '../src/data-instance/json-data-instance';
+import { stability } from '../src/translators/webcola/sequence-policy';
+
+/**
+ * renderDiff() draws over whatever renderLayout() produced, so the solver is
+ * stubbed out: each "render" just swaps in a fixed set of laid-out nodes and
+ * links, and the real diff code decorates them.
+ *
+ * The renderer captures `window.d3` at module load, so d3 is installed before
+ * the dynamic import below.
+ */
+(window as any).d3 = d3;
+const { WebColaCnDGraph } = await import('../src/translators/webcola/webcola-cnd-graph');
+const proto = WebColaCnDGraph.prototype as any;
+
+function instance(atoms: string[], next: string[][]): JSONDataInstance {
+  return new JSONDataInstance({
+    atoms: atoms.map(id => ({ id, type: 'Node', label: id })),
+    relations: [{ id: 'next', name: 'next', types: [], tuples: next.map(atoms => ({ atoms, types: [] })) }],
+  });
+}
+
+const node = (id: string, x: number, y: number) => ({ id, label: id, x, y, width: 40, height: 20 });
+
+// A -> B becomes A -> C.
+const prev = instance(['A', 'B'], [['A', 'B']]);
+const curr = instance(['A', 'C'], [['A', 'C']]);
+const PREV_NODES = [node('A', 0, 0), node('B', 100, 0)];
+const CURR_NODES = [node('A', 0, 0), node('C', 0, 100)];
+
+function fakeGraph() {
+  const host = document.createElement('div');
+  const container = d3.select(host.attachShadow({ mode: 'open' }) as any).append('svg').append('g');
+  const events: CustomEvent[] = [];
+  const calls: any[] = [];
+
+  const graph: any = {
+    container,
+    currentLayout: { nodes: PREV_NODES, links: [] },
+    renderGeneration: 0,
+    svgNodes: null,
+    svgLinkGroups: null,
+    isAlignmentEdge: () => false,
+    snapshotNodeBoxes: proto.snapshotNodeBoxes,
+    applyDiffDecorations: proto.applyDiffDecorations,
+    dispatchEvent: (event: CustomEvent) => events.push(event),
+    async renderLayout(layout: any, options: any) {
+      calls.push({ layout, options });
+      this.renderGeneration++;
+      container.selectAll('*').remove();
+      this.currentLayout = { nodes: layout.nodes, links: layout.links };
+      this.svgNodes = container.selectAll('.node').data(layout.nodes).enter().append('g').attr('class', 'node');
+      this.svgLinkGroups = container.selectAll('.link-group').data(layout.links).enter().append('g').attr('class', 'link-group');
+    },
+  };
+  return { graph, container, events, calls };
+}
+
+const currLayout = {
+  nodes: CURR_NODES,
+  links: [{ id: 'next-A-C', relName: 'next', source: CURR_NODES[0], target: CURR_NODES[1] }],
+};
+
+describe('WebColaCnDGraph renderDiff', () => {
+  it('renders the current layout under stability, against the two instances', async () => {
+    const { graph, calls } = fakeGraph();
+    await proto.renderDiff.call(graph, currLayout, { prevInstance: prev, currInstance: curr });
+    expect(calls).toHaveLength(1);
+    expect(calls[0].options).toMatchObject({ policy: stability, prevInstance: prev, currInstance: curr });
+  });
+
+  it('classes added nodes and edges, and ghosts what was removed where it was', async () => {
+    const { graph, container } = fakeGraph();
+    await proto.renderDiff.call(graph, currLayout, { prevInstance: prev, currInstance: curr });
+
+    const classesOf = (id: string) =>
+      container.selectAll('.node').filter((d: any) => d.id === id).attr('class');
+    expect(classesOf('C')).toBe('node diff-added');
+    // A lost B and gained C.
+    expect(classesOf('A')).toBe('node diff-changed');
+    expect(container.select('.link-group').classed('diff-added')).toBe(true);
+
+    const ghost = container.select('.diff-ghosts .diff-removed-node');
+    expect(ghost.select('text').text()).toBe('B');
+    expect(ghost.select('rect').attr('x')).toBe('80');
+    const link = container.select('.diff-removed-link');
+    expect([link.attr('x1'), link.attr('x2')]).toEqual(['0', '100']);
+    expect(link.select('title').text()).toBe('next: A → B');
+  });
+
+  it('hands the diff to the host as diff-rendered', async () => {
+    const { graph, events } = fakeGraph();
+    const diff = await proto.renderDiff.call(graph, currLayout, { prevInstance: prev, currInstance: curr });
+    expect(events.map(e => e.type)).toEqual(['diff-rendered']);
+    expect(events[0].detail.diff).toBe(diff);
+    expect(diff.removedAtoms.map((a: any) => a.id)).toEqual(['B']);
+  });
+
+  it('draws a given previous layout first, and clears the diff on request', async () => {
+    const { graph, container, calls } = fakeGraph();
+    graph.currentLayout = null;
+    graph.svgNodes = null;
+    await proto.renderDiff.call(graph, currLayout, {
+      prevInstance: prev,
+      currInstance: curr,
+      prevLayout: { nodes: PREV_NODES, links: [] },
+    });
+    expect(calls.map(c => c.options.transitionMode)).toEqual(['replace', undefined]);
+    expect(container.selectAll('.diff-removed-node').size()).toBe(1);
+
+    expect(proto.clearDiff.call(graph)).toBe(true);
+    expect(container.selectAll('.diff-ghosts').size()).toBe(0);
+    expect(container.selectAll('.diff-added, .diff-changed').size()).toBe(0);
+  });
+
+  it('leaves a layout that superseded it alone', async () => {
+    const { graph, container, events } = fakeGraph();
+    const render = graph.renderLayout;
+    graph.renderLayout = async function (layout: any, options: any) {
+      await render.call(this, layout, options);
+      this.renderGeneration++;
+    };
+    await proto.renderDiff.call(graph, currLayout, { prevInstance: prev, currInstance: curr });
+    expect(container.selectAll('.diff-ghosts').size()).toBe(0);
+    expect(events).toHaveLength(0);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import * as d3 from 'd3';
+
+/**
+ * The minimap and semantic zoom only read the drawn layout and the zoom
+ * transform, so they run against a bare shadow root: nodes, links and group
+ * rects bound to laid-out data, with the zoom scale stubbed.
+ *
+ * The renderer captures `window.d3` at module load, so d3 is installed before
+ * the dynamic import below.
+ */
+(window as any).d3 = d3;
+const { WebColaCnDGraph } = await import('../src/translators/webcola/webcola-cnd-graph');
+const proto = WebColaCnDGraph.prototype as any;
+
+function bounds(x: number, y: number, width: number, height: number) {
+  return { x, y, width: () => width, height: () => height };
+}
+
+const node = (id: string, x: number, y: number) => ({
+  id, label: id, x, y, width: 40, height: 20,
+  showLabels: true, _labelTspanDys: [-6, 12], _labelLineHeight: 12,
+});
+
+function fakeGraph(attributes: Record<string, string> = {}) {
+  const nodes = [node('A', 0, 0), node('B', 100, 0), node('C', 300, 0), node('D', 0, 100)];
+  // outer ⊃ inner ⊃ {B}; outer also holds A. C and D are ungrouped.
+  const inner: any = { name: 'inner', leaves: [1], groups: [], bounds: bounds(80, -20, 40, 40) };
+  const outer: any = { name: 'outer', leaves: [0], groups: [0], bounds: bounds(-30, -30, 160, 60) };
+  const groups = [inner, outer];
+  const links = [
+    { id: 'A-B', source: nodes[0], target: nodes[1] },
+    { id: 'B-C', source: nodes[1], target: nodes[2] },
+  ];
+
+  const host = document.createElement('div');
+  const root = host.attachShadow({ mode: 'open' });
+  root.innerHTML = `
+    <div id="svg-container"><svg id="svg"><g class="zoomable"></g></svg></div>
+    <div id="minimap" hidden><svg><g class="minimap-content"></g><rect class="minimap-viewport"></rect></svg></div>`;
+  const svg = d3.select(root.querySelector('#svg') as any);
+  const container = svg.select('.zoomable');
+  const svgGroups = container.selectAll('.group').data(groups).enter().append('rect').attr('class', 'group');
+  const svgLinkGroups = container.selectAll('.link-group').data(links).enter().append('g').attr('class', 'link-group');
+  const svgNodes = container.selectAll('.node').data(nodes).enter().append('g').attr('class', 'node');
+  svgNodes.append('rect');
+  const label = svgNodes.append('text').attr('class', 'label');
+  label.append('tspan').attr('class', 'main-label-tspan');
+  label.append('tspan').attr('class', 'secondary-label-tspan');
+
+  const events: CustomEvent[] = [];
+  let scale = 1;
+  const graph = Object.create(proto, {
+    shadowRoot: { value: root },
+    useGridPipeline: { value: false },
+    getAttribute: { value: (name: string) => attributes[name] ?? null },
+    getCurrentZoomScale: { value: () => scale },
+    dispatchEvent: { value: (event: CustomEvent) => events.push(event) },
+  });
+  Object.assign(graph, {
+    svg, container, svgGroups, svgLinkGroups, svgNodes,
+    currentLayout: { nodes, links, groups },
+    svgGroupLabels: null,
+    svgGroupLabelBgs: null,
+    // Field initialisers, which Object.create skips.
+    semanticZoomLevel: 'detail',
+    minimapFrame: null,
+    minimapView: null,
+  });
+  const zoomTo = (k: number) => {
+    scale = k;
+    graph.applySemanticZoom();
+  };
+  return { graph, root, container, events, zoomTo };
+}
+
+describe('WebColaCnDGraph semantic zoom', () => {
+  it('switches to the overview below the threshold, and back above it', () => {
+    const { graph, container, events, zoomTo } = fakeGraph({ 'semantic-zoom': '0.4' });
+
+    zoomTo(0.5);
+    expect(graph.getSemanticZoomLevel()).toBe('detail');
+    expect(events).toHaveLength(0);
+
+    zoomTo(0.3);
+    expect(graph.getSemanticZoomLevel()).toBe('overview');
+    expect(container.node().parentNode.classList.contains('semantic-overview')).toBe(true);
+    expect(events.map(e => e.detail)).toEqual([{ level: 'overview', scale: 0.3 }]);
+
+    zoomTo(0.35);
+    expect(events).toHaveLength(1);
+
+    zoomTo(1);
+    expect(graph.getSemanticZoomLevel()).toBe('detail');
+    expect(events.map(e => e.detail.level)).toEqual(['overview', 'detail']);
+    expect(container.node().parentNode.classList.contains('semantic-overview')).toBe(false);
+  });
+
+  it('draws outermost groups as blobs counting every member, nested ones included', () => {
+    const { container, zoomTo } = fakeGraph({ 'semantic-zoom': '' });
+    zoomTo(0.2);
+
+    const summaries = container.selectAll('text.group-summary');
+    expect(summaries.size()).toBe(1);
+    expect(summaries.text()).toBe('2');
+    expect([summaries.attr('x'), summaries.attr('y')]).toEqual(['50', '0']);
+
+    const classed = (selector: string, cls: string) =>
+      container.selectAll(selector).filter(function (this: Element) { return this.classList.contains(cls); })
+        .data().map((d: any) => d.id ?? d.name);
+    expect(classed('.node', 'group-member')).toEqual(['A', 'B']);
+    expect(classed('.link-group', 'group-internal')).toEqual(['A-B']);
+    expect(classed('.group', 'nested-group')).toEqual(['inner']);
+  });
+
+  it('centres the main label line while the attribute lines are hidden', () => {
+    const { container, zoomTo } = fakeGraph({ 'semantic-zoom': '0.5' });
+    const mainDy = () => container.select('.main-label-tspan').attr('dy');
+
+    zoomTo(0.1);
+    expect(mainDy()).toBe('0px');
+    zoomTo(1);
+    expect(mainDy()).toBe('-6px');
+    expect(container.selectAll('.group-summary, .group-member, .nested-group').size()).toBe(0);
+  });
+
+  it('stays at the detail level without the attribute', () => {
+    const { graph, events, zoomTo } = fakeGraph();
+    zoomTo(0.01);
+    expect(graph.getSemanticZoomLevel()).toBe('detail');
+    expect(events).toHaveLength(0);
+  });
+});
+
+describe('WebColaCnDGraph minimap', () => {
+  function shownMinimap() {
+    const fake = fakeGraph();
+    const minimap = fake.root.querySelector('#minimap') as HTMLElement;
+    minimap.hidden = false;
+    Object.assign(fake.graph, {
+      calculateContentBounds: () => ({ x: -30, y: -30, width: 370, height: 160 }),
+      getCurrentTransform: () => ({ k: 2, x: -100, y: -50 }),
+    });
+    return { ...fake, minimap };
+  }
+
+  it('draws the graph in miniature with the visible region outlined', () => {
+    const { graph, minimap } = shownMinimap();
+    graph.updateMinimap();
+
+    const map = minimap.querySelector('svg')!;
+    expect(map.getAttribute('viewBox')).toBe('-40 -40 390 180');
+    expect(map.querySelectorAll('rect.minimap-node')).toHaveLength(4);
+    expect(map.querySelectorAll('rect.minimap-group')).toHaveLength(2);
+    const nodeB = map.querySelectorAll('rect.minimap-node')[1];
+    expect(['x', 'y', 'width', 'height'].map(a => nodeB.getAttribute(a))).toEqual(['80', '-10', '40', '20']);
+
+    // An 800 × 600 viewport at scale 2, panned by (-100, -50).
+    const viewport = map.querySelector('.minimap-viewport')!;
+    expect(['x', 'y', 'width', 'height'].map(a => viewport.getAttribute(a))).toEqual(['50', '25', '400', '300']);
+  });
+
+  it('stays blank while hidden', () => {
+    const { graph, minimap } = shownMinimap();
+    minimap.hidden = true;
+    graph.updateMinimap();
+    expect(minimap.querySelectorAll('rect.minimap-node')).toHaveLength(0);
+  });
+
+  it('maps a point on the minimap back to layout coordinates', () => {
+    const { graph, minimap } = shownMinimap();
+    graph.updateMinimap();
+    minimap.getBoundingClientRect = () => ({ left: 10, top: 20, width: 390, height: 360 }) as DOMRect;
+
+    // Scale 1; the 180-high view is centred in 360, so 90 px of margin above.
+    expect(graph.minimapPointToLayout(minimap, 10, 110)).toEqual({ x: -40, y: -40 });
+    expect(graph.minimapPointToLayout(minimap, 400, 290)).toEqual({ x: 350, y: 140 });
+  });
+});
@@ -246,10 +246,14 @@ describe('WebColaCnDGraph overlapping renders', () => {
           // Runs between teardown and transition-mode resolution; stubbed so the
           // ordering assertions below still see exactly two entries.
           renderLayoutWarnings: vi.fn(),
+          // Nothing collapsed, so the layout is rendered as given.
+          getCollapsedGroups: () => [],
           resolveTransitionMode: vi.fn(() => { order.push('resolveTransitionMode'); return 'replace'; }),
           hasValidTransform: () => false,
           applyViewportRenderPolicy: vi.fn(),
           shouldCollapseSymmetricEdges: () => true,
+          // Nothing pinned.
+          pinnedPositions: new Map(),
           svg: null,
           zoomBehavior: null,
           showError: vi.fn(),
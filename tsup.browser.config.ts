@@ -78,4 +78,36 @@ export default defineConfig([{
     'process.env.NODE_ENV': '"production"',
     'global': 'globalThis',
   },
+},
+{
+  // Layout worker: <webcola-cnd-graph layout-worker="…"> loads this as a
+  // classic Worker script, so it bundles the whole layout pipeline and
+  // exposes no global. No DOM in a worker: nothing here may touch d3.
+  entry: { 'spytial-layout-worker': 'src/layout-worker.ts' },
+  format: ['iife'],
+  dts: false,
+  splitting: false,
+  sourcemap: true,
+  clean: false,
+  minify: true,
+  target: 'es2020',
+  outDir: 'dist/browser',
+  bundle: true,
+  treeshake: true,
+  platform: 'browser',
+  noExternal: [
+    'graphlib',
+    'kiwi.js',
+    'chroma-js',
+    'js-yaml',
+    'lodash',
+    '@xmldom/xmldom',
+    'dagre',
+    'webcola',
+    'simple-graph-query'
+  ],
+  define: {
+    'process.env.NODE_ENV': '"production"',
+    'global': 'globalThis',
+  },
 }])
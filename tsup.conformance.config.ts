@@ -14,6 +14,9 @@ const { version } = JSON.parse(readFileSync('./package.json', 'utf8')) as { vers
 //     single self-contained file can be vendored next to a Python or Rust
 //     package and run by any Node, with no sibling node_modules to install.
 //     Same reasoning as the ./evaluator entry.
+//
+// `dist/cli/spytial-render.js` is built alongside the check bin, for the same
+// hosts and the same reason: it lays a datum out instead of testing it.
 export default defineConfig([
   {
     entry: { conformance: 'src/conformance/index.ts' },
@@ -31,7 +34,10 @@ export default defineConfig([
     platform: 'node',
   },
   {
-    entry: { 'spytial-check': 'src/cli/spytial-check.ts' },
+    entry: {
+      'spytial-check': 'src/cli/spytial-check.ts',
+      'spytial-render': 'src/cli/spytial-render.ts',
+    },
     format: ['cjs'],
     dts: false,
     splitting: false,